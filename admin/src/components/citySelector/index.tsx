@@ -0,0 +1,48 @@
+import { Select } from 'antd';
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { City } from '../../interfaces/city';
+import { User } from '../../interfaces/user';
+import { requestGetCity } from '../../redux/city/actions';
+import { AppState } from '../../redux/rootReducer';
+import { getSelectedCity, setSelectedCity } from '../../utils/auth';
+
+/**
+ * City selector, available only for the super admin
+ *
+ * The selected city is sent on every request, so the page is reloaded to get the data of the new city
+ * @param props component props
+ */
+export const CitySelector: React.FC<{ compact?: boolean }> = ({ compact }) => {
+  const dispatch = useDispatch();
+
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  const list = useSelector<AppState, City[]>(({ cityReducer }) => cityReducer.list);
+  const loading = useSelector<AppState, boolean>(({ cityReducer }) => cityReducer.loading);
+  const isSuperadmin = user?.role === 'superadmin';
+
+  React.useEffect(() => {
+    if (isSuperadmin) dispatch(requestGetCity());
+  }, [dispatch, isSuperadmin]);
+
+  if (!isSuperadmin || compact) return null;
+
+  return (
+    <Select
+      style={{ width: 180 }}
+      loading={loading}
+      value={Number(getSelectedCity() || user?.cityId)}
+      onChange={(value: number) => {
+        // The user city doesn't need the header
+        setSelectedCity(value === Number(user?.cityId) ? undefined : value);
+        window.location.reload();
+      }}
+    >
+      {list.map((city) => (
+        <Select.Option key={city.id} value={Number(city.id)}>
+          {city.title}
+        </Select.Option>
+      ))}
+    </Select>
+  );
+};
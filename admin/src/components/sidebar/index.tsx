@@ -12,14 +12,24 @@ import {
   ShoppingCartOutlined,
   SolutionOutlined,
   FileTextOutlined,
-  TeamOutlined
+  TeamOutlined,
+  TagsOutlined,
+  AuditOutlined,
+  ApiOutlined,
+  StopOutlined,
+  DollarOutlined,
+  ControlOutlined,
+  ScheduleOutlined,
+  CalendarOutlined,
+  InboxOutlined
 } from '@ant-design/icons';
 import { Button, Layout, Menu, Popover } from 'antd';
 import React, { useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useTheme } from 'styled-components';
-import { localStorageConstraints, Role } from '../../utils/constraints';
+import { isRoleAllowed, localStorageConstraints, Role } from '../../utils/constraints';
 import { Flex } from '../flex';
+import { CitySelector } from '../citySelector';
 import { FixSider, MenuHeight, MenuIcon } from './styles';
 import { useSelector } from 'react-redux';
 import { AppState } from '../../redux/rootReducer';
@@ -54,6 +64,13 @@ const routes: RouteItem[] = [
     name: 'Validar Produtos',
     specificToType: 'ticket'
   },
+  {
+    path: '/categorias-produtos',
+    icon: () => <TagsOutlined />,
+    name: 'Categorias de produtos',
+    allowedRoles: ['superadmin'],
+    specificToType: 'ticket'
+  },
   {
     path: '/consumo',
     icon: () => <CarryOutOutlined />,
@@ -85,6 +102,12 @@ const routes: RouteItem[] = [
       }
     ]
   },
+  {
+    path: '/familias/saidas-por-idade',
+    icon: () => <CalendarOutlined />,
+    name: 'Saídas por idade',
+    allowedRoles: ['admin']
+  },
   {
     path: '/relatorios',
     icon: () => <FileTextOutlined />,
@@ -108,12 +131,49 @@ const routes: RouteItem[] = [
     name: 'Beneficios',
     allowedRoles: ['admin']
   },
+  {
+    path: '/programas',
+    icon: () => <ScheduleOutlined />,
+    name: 'Programas',
+    allowedRoles: ['admin', 'financial']
+  },
+  {
+    path: '/ajustes',
+    icon: () => <DollarOutlined />,
+    name: 'Ajustes de saldo',
+    allowedRoles: ['admin', 'financial']
+  },
+  {
+    path: '/regras-beneficio',
+    icon: () => <ControlOutlined />,
+    name: 'Regras do benefício',
+    allowedRoles: ['admin', 'financial'],
+    specificToType: 'ticket'
+  },
   {
     path: '/usuarios',
     icon: () => <UserOutlined />,
     name: 'Usuários',
     allowedRoles: ['admin']
   },
+  {
+    path: '/auditoria',
+    icon: () => <AuditOutlined />,
+    name: 'Auditoria',
+    allowedRoles: ['admin']
+  },
+  {
+    path: '/clientes-api',
+    icon: () => <ApiOutlined />,
+    name: 'Clientes da API',
+    allowedRoles: ['admin']
+  },
+  {
+    path: '/bloqueios-portal',
+    icon: () => <StopOutlined />,
+    name: 'Bloqueios do portal',
+    allowedRoles: ['admin']
+  },
   // Items only shown in the `ticket` consumption type
   {
     path: '/instituicoes',
@@ -136,6 +196,13 @@ const routes: RouteItem[] = [
     name: 'Entidades',
     specificToType: 'product'
   },
+  {
+    path: '/estoque',
+    icon: () => <InboxOutlined />,
+    name: 'Estoque',
+    allowedRoles: ['admin', 'manager'],
+    specificToType: 'product'
+  },
   {
     path: '/grupos-de-entidades',
     icon: () => <SolutionOutlined />,
@@ -145,8 +212,7 @@ const routes: RouteItem[] = [
   {
     path: '/grupos',
     icon: () => <TeamOutlined />,
-    name: 'Grupos',
-    specificToType: 'product'
+    name: 'Grupos'
   },
   {
     path: '/origem-do-beneficio',
@@ -171,8 +237,7 @@ const menuItem = (item: RouteItem, parentPath: string, userRole?: Role) => {
   if (item.specificToType && consumptionType !== item.specificToType) return null;
 
   // Only show the menu item if the user is allowed to see it
-  if ((item.allowedRoles && userRole && item.allowedRoles.indexOf(userRole) === -1) || (item.allowedRoles && !userRole))
-    return null;
+  if (item.allowedRoles && !isRoleAllowed(item.allowedRoles, userRole)) return null;
 
   /**
    * A component that returns the menu item inner content
@@ -239,7 +304,7 @@ export const Sidebar: React.FC = () => {
         </MenuHeight>
         <Flex vertical={collapsed} alignItems="center" gap="sm" justifyContent="space-between">
           {/* <UserDisplay compact={collapsed} /> */}
-          <div />
+          <CitySelector compact={collapsed} />
           <Popover content="Sair">
             <Link to="/logout">
               <Button
@@ -0,0 +1,16 @@
+import { User } from './user';
+
+export interface ApiClient {
+  readonly id?: number | string;
+  cityId?: number | string;
+  name: string;
+  keyId?: string;
+  // Only returned when the client is created or the key rotated
+  secret?: string;
+  rotatedAt?: number | Date | null;
+  revokedAt?: number | Date | null;
+  lastUsedAt?: number | Date | null;
+  createdAt?: number | Date | null;
+  //Join
+  createdBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
@@ -0,0 +1,38 @@
+import { User } from './user';
+
+export interface AuditLog {
+  readonly id?: number | string;
+  cityId?: number | string | null;
+  userId?: number | string | null;
+  action: string;
+  entity: string;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  user?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export interface AuditLogFilters {
+  entity?: string;
+  entityId?: string;
+  action?: string;
+  // Date range, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AuditLogPage {
+  count: number;
+  page: number;
+  pageSize: number;
+  rows: AuditLog[];
+}
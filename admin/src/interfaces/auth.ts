@@ -5,3 +5,10 @@ export type TokenResponse = {
   refreshToken: string;
   user: User;
 };
+
+// Data of a password reset or invitation link
+export type UserTokenInfo = {
+  type: 'reset' | 'invite';
+  name?: string;
+  email?: string;
+};
@@ -0,0 +1,36 @@
+import { Family } from './family';
+import { User } from './user';
+
+export type BalanceAdjustmentStatus = 'pending' | 'approved' | 'rejected';
+
+export type BalanceAdjustmentProduct = {
+  productId: number | string;
+  // Negative amounts remove products from the balance
+  amount: number;
+};
+
+export interface BalanceAdjustment {
+  readonly id?: number | string;
+  familyId: number | string;
+  // Used when the consumption type is ticket, negative values are discounts
+  value?: number | null;
+  // Used when the consumption type is product
+  products?: BalanceAdjustmentProduct[] | null;
+  reason: string;
+  status: BalanceAdjustmentStatus;
+  requestedById?: number | string;
+  reviewedById?: number | string | null;
+  reviewedAt?: number | Date | null;
+  reviewNote?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  family?: Pick<Family, 'id' | 'code' | 'responsibleName' | 'responsibleNis'>;
+  requestedBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+  reviewedBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export type BalanceAdjustmentRequest = Pick<BalanceAdjustment, 'value' | 'products' | 'reason'> & {
+  familyId?: number | string;
+  // Used to find the family when the request isn't made from its page
+  responsibleNis?: string;
+};
@@ -1,12 +1,14 @@
-import { familyGroupList } from './../utils/constraints';
-
 export interface Benefit {
   readonly id?: number;
   institutionId: number;
   groupId: number;
   title: string;
   date: Date;
-  value: keyof typeof familyGroupList;
+  value: number;
+  // The value is granted to each dependent or once to the family
+  valueType?: 'dependent' | 'family';
+  // Program that generated the benefit
+  programId?: number | string | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
@@ -14,5 +16,7 @@ export interface Benefit {
     id: number | string;
     productId: number | string;
     amount: number;
+    // Basket version, a new one is created when the basket changes after the families consumed from it
+    version?: number;
   }[];
 }
@@ -0,0 +1,32 @@
+import { User } from './user';
+
+export type PolicyRules = {
+  // Benefit multiplier of the families that consumed on the card but declared nothing
+  undeclaredConsumptionMultiplier: number;
+  // Payment names considered as money, the invalid products paid with them are not discounted
+  moneyPaymentNames: string[];
+  // Difference between the declared and consumed values accepted as declaring everything
+  declaredTolerance: number;
+};
+
+export interface BenefitPolicy extends PolicyRules {
+  readonly id?: number | string;
+  // Day when the version starts to be used (YYYY-MM-DD)
+  effectiveFrom: string;
+  createdAt?: number | Date | null;
+  //Join
+  createdBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export type BenefitPolicyExceptionType = 'nis' | 'name';
+
+export interface BenefitPolicyException {
+  readonly id?: number | string;
+  type: BenefitPolicyExceptionType;
+  // NIS or name of the responsible
+  value: string;
+  reason?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  createdBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
@@ -0,0 +1,49 @@
+import { Group } from './group';
+import { Institution } from './institution';
+import { User } from './user';
+
+export type BenefitProgramValueType = 'dependent' | 'family';
+
+export type BenefitOccurrenceStatus = 'scheduled' | 'skipped' | 'generated';
+
+export type BenefitProgramProduct = {
+  productId: number | string;
+  amount: number;
+};
+
+export interface BenefitProgram {
+  readonly id?: number | string;
+  institutionId: number | string;
+  groupId: number | string;
+  title: string;
+  // Day of the month when the benefit is granted (1-28)
+  dayOfMonth: number;
+  // First and last days of the program (YYYY-MM-DD)
+  startDate: string;
+  endDate?: string | null;
+  // Used when the consumption type is ticket
+  value?: number | null;
+  valueType: BenefitProgramValueType;
+  // Used when the consumption type is product
+  products?: BenefitProgramProduct[] | null;
+  createdAt?: number | Date | null;
+  //Join
+  institution?: Pick<Institution, 'id' | 'title'>;
+  group?: Pick<Group, 'id' | 'title'>;
+  createdBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export interface BenefitProgramOccurrence {
+  // Day of the occurrence (YYYY-MM-DD)
+  date: string;
+  status: BenefitOccurrenceStatus;
+  value: number | null;
+  products: BenefitProgramProduct[] | null;
+  // The occurrence value or basket is different from the program
+  overridden: boolean;
+  note?: string | null;
+  // Benefit created when the occurrence was generated
+  benefitId?: number | string | null;
+}
+
+export type OccurrenceOverride = Partial<Pick<BenefitProgramOccurrence, 'value' | 'products' | 'note'>>;
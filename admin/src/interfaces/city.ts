@@ -0,0 +1,4 @@
+export interface City {
+  readonly id?: number | string;
+  title: string;
+}
@@ -12,6 +12,10 @@ export interface Consumption {
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
   reviewedAt?: number | Date | null;
+  scrapeAttempts?: number;
+  scrapeLastError?: string | null;
+  scrapeNextAttemptAt?: number | Date | string | null;
+  scrapeGaveUpAt?: number | Date | string | null;
   //Join
   consumptionProducts?: ConsumptionProducts[] | null;
 }
@@ -1,3 +1,6 @@
+import { Family } from './family';
+import { Group } from './group';
+
 export interface Dependent {
   readonly id?: number | string;
   familyId: number | string;
@@ -23,3 +26,11 @@ export interface Dependent {
   //extra
   type?: string;
 }
+
+// Dependent that stops receiving the benefits because of the family group age limit
+export type AgeOutNotice = Pick<Dependent, 'id' | 'name' | 'nis' | 'birthday' | 'familyId'> & {
+  family: Pick<Family, 'id' | 'code' | 'responsibleName' | 'responsibleNis'>;
+  group: Pick<Group, 'id' | 'title' | 'maxDependentAge'>;
+  // End of the last month when the dependent receives the benefits
+  ageOutDate: string;
+};
@@ -1,4 +1,17 @@
 import { Dependent } from './dependent';
+import { EligibilityCondition, EligibilityField } from './group';
+
+export type FamilyGroupExplanation = {
+  // Null when no group matched and the family group was kept
+  groupId: number | string | null;
+  groupTitle: string | null;
+  ruleIndex: number | null;
+  ruleDescription: string | null;
+  conditions: (EligibilityCondition & { actual: number | boolean | null; matched: boolean })[];
+  facts: { [field in EligibilityField]: number | boolean | null };
+  source: 'import' | 'form' | 'manual';
+  evaluatedAt: Date | string;
+};
 
 export interface Family {
   readonly id?: number | string;
@@ -22,6 +35,8 @@ export interface Family {
   address?: string;
   phone?: string;
   phone2?: string;
+  incomeBand?: number | null;
+  groupExplanation?: FamilyGroupExplanation | null;
   deactivatedAt?: number | Date | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
@@ -33,11 +48,16 @@ export interface Family {
 }
 
 export type ImportReport = {
+  id?: number | string;
   status: 'Em espera' | 'Finalizado' | 'Falhou' | 'Lendo arquivos' | 'Filtrando dados' | 'Salvando' | 'Cruzando dados';
   message?: string;
   percentage?: number;
   cityId?: number | string;
   inProgress?: boolean;
+  dryRun?: boolean;
+  retryOfId?: number | string | null;
+  startedAt?: number | Date | null;
+  finishedAt?: number | Date | null;
   originalFamilyCount?: number;
   originalSislameCount?: number;
   originalNurseryCount?: number;
@@ -48,9 +68,57 @@ export type ImportReport = {
   foundOnlyNameFamilyCount?: number;
   grantedAnotherParentCount?: number;
   notFoundFamilyCount?: number;
+  notEligibleFamilyCount?: number;
   dependentsCount?: number;
   duplicatedCount?: number;
   sislameWithoutParentCount?: number;
   fourteenOrLessGrantedCount?: number;
   fourteenOrLessFilteredCount?: number;
 };
+
+type ImportDiffFamily = Pick<Family, 'id' | 'responsibleName' | 'responsibleNis'>;
+type ImportDiffDependent = Pick<Dependent, 'id' | 'familyId' | 'name' | 'nis'>;
+
+export type ImportDiff = {
+  families: { create: ImportDiffFamily[]; update: ImportDiffFamily[]; deactivate: ImportDiffFamily[] };
+  dependents: { add: Partial<ImportDiffDependent>[]; remove: ImportDiffDependent[] };
+};
+
+export type ImportUploadResult = {
+  uploaded: boolean;
+  id?: number | string;
+  dryRun?: boolean;
+  diff?: ImportDiff;
+};
+
+export type StatementLineType =
+  | 'benefit'
+  | 'benefit-correction'
+  | 'consumption'
+  | 'consumption-reversal'
+  | 'invalid-value'
+  | 'adjustment'
+  | 'deactivation';
+
+export type StatementLine = {
+  date: string;
+  type: StatementLineType;
+  value: number;
+  // Balance after the line
+  balance: number;
+  description?: string | null;
+  dependentId?: number | string | null;
+  dependentName?: string;
+  consumptionId?: number | string | null;
+};
+
+export type FamilyStatement = {
+  familyId: number | string;
+  from?: string;
+  to?: string;
+  openingBalance: number;
+  credits: number;
+  debits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+};
@@ -1,4 +1,37 @@
+export type EligibilityField =
+  | 'incomeBand'
+  | 'perCapitaIncome'
+  | 'dependentsCount'
+  | 'youngestDependentAge'
+  | 'oldestDependentAge'
+  | 'schoolEnrolledCount'
+  | 'isOnGovernProgram';
+
+export type EligibilityOperator = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'in';
+
+export type EligibilityCondition = {
+  field: EligibilityField;
+  operator: EligibilityOperator;
+  value: number | boolean | number[];
+};
+
+// All the conditions must match for the rule to match
+export type EligibilityRule = {
+  description?: string | null;
+  conditions: EligibilityCondition[];
+};
+
 export type Group = {
   readonly id?: number | string;
   title: string;
+  // City that created the item, null when it's shared by every city
+  cityId?: number | string | null;
+  // The family is assigned to the group when any rule matches
+  eligibilityRules?: EligibilityRule[] | null;
+  // Groups are evaluated in ascending priority
+  priority?: number;
+  // Dependents above this age stop receiving the benefits, null when there's no limit
+  maxDependentAge?: number | null;
+  // First month when the current limit is applied
+  maxDependentAgeFrom?: string | null;
 };
@@ -8,6 +8,10 @@ export interface PlaceStore {
   responsibleName?: string;
   responsiblePhone?: string;
   responsibleEmail?: string;
+  // Reject or only warn the consumptions with more products than the store has
+  stockPolicy?: 'warn' | 'reject';
+  // Products with fewer units on the store are shown on the low stock alerts
+  minimumStock?: number | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
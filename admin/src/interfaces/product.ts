@@ -2,7 +2,27 @@ export interface Product {
   readonly id?: number | string;
   name: string;
   isValid: boolean | null;
+  categoryId?: number | string | null;
+  // City that created the item, null when it's shared by every city
+  cityId?: number | string | null;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date;
 }
+
+export type ProductAliasStatus = 'auto' | 'pending' | 'approved' | 'rejected';
+
+export interface ProductAlias {
+  readonly id?: number | string;
+  name: string;
+  originalName: string;
+  productId: number | string;
+  confidence: number;
+  status: ProductAliasStatus;
+  reviewedById?: number | string | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  //Join
+  product?: Product;
+}
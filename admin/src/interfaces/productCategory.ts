@@ -0,0 +1,18 @@
+export interface ProductCategoryRule {
+  readonly id?: number | string;
+  categoryId?: number | string;
+  groupId: number | string;
+  isValid: boolean;
+}
+
+export interface ProductCategory {
+  readonly id?: number | string;
+  name: string;
+  parentId?: number | string | null;
+  // null inherits the validity from the parent category
+  isValid?: boolean | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  //Join
+  rules?: ProductCategoryRule[];
+}
@@ -0,0 +1,10 @@
+export interface PublicBlock {
+  type: 'ip' | 'nis';
+  // IP or NIS
+  value: string;
+  blocked: boolean;
+  failures: number;
+  reason?: string;
+  blockedAt?: string;
+  expiresAt?: string;
+}
@@ -0,0 +1,51 @@
+import { PlaceStore } from './placeStore';
+import { Product } from './product';
+import { User } from './user';
+
+export type StockMovementType =
+  | 'receipt'
+  | 'transfer-in'
+  | 'transfer-out'
+  | 'distribution'
+  | 'distribution-reversal'
+  | 'loss';
+
+// Movements made by the users, the distributions are made by the consumptions
+export type ManualMovementType = 'receipt' | 'transfer' | 'loss';
+
+// Entry (positive amount) or exit (negative amount) of units of a product on a store
+export interface StockMovement {
+  readonly id?: number | string;
+  placeStoreId: number | string;
+  productId: number | string;
+  type: StockMovementType;
+  amount: number;
+  relatedPlaceStoreId?: number | string | null;
+  consumptionId?: number | string | null;
+  note?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  placeStore?: Pick<PlaceStore, 'id' | 'title'>;
+  relatedPlaceStore?: Pick<PlaceStore, 'id' | 'title'> | null;
+  product?: Pick<Product, 'id' | 'name'>;
+  createdBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export type StockMovementRequest = Pick<StockMovement, 'placeStoreId' | 'productId' | 'amount' | 'note'> & {
+  type: ManualMovementType;
+  // Store that receives the products of a transfer
+  relatedPlaceStoreId?: number | string;
+};
+
+// Units of a product on a store
+export interface StockItem {
+  placeStoreId: number | string;
+  productId: number | string;
+  amount: number;
+  placeStore?: Pick<PlaceStore, 'id' | 'title' | 'minimumStock'>;
+  product?: Pick<Product, 'id' | 'name'>;
+  // The store has fewer units than its minimum
+  isLow: boolean;
+}
+
+export type StockMovementFilters = Partial<Pick<StockMovement, 'placeStoreId' | 'productId' | 'type'>>;
@@ -8,7 +8,21 @@ export interface User {
   email?: string;
   password: string;
   active: boolean;
+  // The password was defined by an admin and must be changed
+  mustChangePassword?: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: number | Date | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
 }
+
+export interface UserSession {
+  readonly id: number | string;
+  userId: number | string;
+  userAgent?: string | null;
+  ip?: string | null;
+  expiresAt: number | Date;
+  lastUsedAt?: number | Date | null;
+  createdAt?: number | Date | null;
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Card, Typography, Button, Table, Modal, Input, Tag, Select, message } from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import moment from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { AdjustmentRequestModal } from './requestModal';
+import { AppState } from '../../redux/rootReducer';
+import { BalanceAdjustment, BalanceAdjustmentStatus } from '../../interfaces/balanceAdjustment';
+import { User } from '../../interfaces/user';
+import { Product } from '../../interfaces/product';
+import { requestGetProduct } from '../../redux/product/actions';
+import { requestGetBalanceAdjustment, requestReviewBalanceAdjustment } from '../../redux/balanceAdjustment/actions';
+import { isRoleAllowed, Role } from '../../utils/constraints';
+import { formatMoney } from '../../utils/string';
+import { env } from '../../env';
+
+// Application consumption type
+const consumptionType = env.REACT_APP_CONSUMPTION_TYPE as 'ticket' | 'product';
+
+const statusList: { [key in BalanceAdjustmentStatus]: { name: string; color: string } } = {
+  pending: { name: 'Pendente', color: 'orange' },
+  approved: { name: 'Aprovado', color: 'green' },
+  rejected: { name: 'Recusado', color: 'red' }
+};
+
+/**
+ * Format a date of the adjustment, showing a dash when it's not set
+ * @param value date
+ */
+const formatDate = (value?: number | Date | null) => (value ? moment(value).format('DD/MM/YYYY HH:mm') : '-');
+
+/**
+ * Description of the adjustment change, the value or the product quantities
+ * @param item adjustment
+ * @param products list of products, used to show their names
+ * @returns text shown on the list
+ */
+const adjustmentChange = (item: BalanceAdjustment, products: Product[]) => {
+  if (item.products && item.products.length > 0) {
+    return item.products
+      .map((adjusted) => {
+        const product = products.find((productItem) => `${productItem.id}` === `${adjusted.productId}`);
+        return `${adjusted.amount > 0 ? '+' : ''}${adjusted.amount} ${product?.name || `#${adjusted.productId}`}`;
+      })
+      .join(', ');
+  }
+  return `R$${formatMoney(item.value || 0)}`;
+};
+
+/**
+ * Balance adjustment list component, the financial team requests the adjustments and an admin reviews them
+ * @param props component props
+ */
+export const BalanceAdjustmentList: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+
+  const [status, setStatus] = useState<BalanceAdjustmentStatus | undefined>('pending');
+  const [requesting, setRequesting] = useState(false);
+
+  React.useEffect(() => {
+    dispatch(requestGetBalanceAdjustment(status));
+  }, [dispatch, status]);
+
+  React.useEffect(() => {
+    if (consumptionType === 'product') dispatch(requestGetProduct());
+  }, [dispatch]);
+
+  const list = useSelector<AppState, BalanceAdjustment[]>(
+    ({ balanceAdjustmentReducer }) => balanceAdjustmentReducer.list
+  );
+  const loading = useSelector<AppState, boolean>(({ balanceAdjustmentReducer }) => balanceAdjustmentReducer.loading);
+  const products = useSelector<AppState, Product[]>(({ productReducer }) => productReducer.list);
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  const canReview = isRoleAllowed(['admin'], user?.role as Role | undefined);
+
+  /**
+   * Ask for the review note and send the review
+   * @param item adjustment
+   * @param action approve or reject
+   */
+  const review = (item: BalanceAdjustment, action: 'approve' | 'reject') => {
+    let reviewNote = '';
+    Modal.confirm({
+      title:
+        action === 'approve' ? 'Você realmente quer aprovar esse ajuste?' : 'Você realmente quer recusar esse ajuste?',
+      icon: <ExclamationCircleOutlined />,
+      content: (
+        <Input.TextArea
+          rows={3}
+          placeholder="Observação (opcional)"
+          onChange={(event) => {
+            reviewNote = event.target.value;
+          }}
+        />
+      ),
+      okText: 'Sim',
+      okType: action === 'approve' ? 'primary' : 'danger',
+      cancelText: 'Não',
+      onOk: () => {
+        dispatch(
+          requestReviewBalanceAdjustment(item.id as number, action, reviewNote, () =>
+            message.error('Não foi possível revisar o ajuste')
+          )
+        );
+      }
+    });
+  };
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Ajustes de saldo`}</Typography.Title>}
+        extra={
+          <ActionWrapper>
+            <Select<BalanceAdjustmentStatus | ''>
+              style={{ width: 160 }}
+              value={status || ''}
+              onChange={(value) => setStatus(value || undefined)}
+            >
+              <Select.Option value="">Todos</Select.Option>
+              {Object.keys(statusList).map((key) => (
+                <Select.Option key={key} value={key}>
+                  {statusList[key as BalanceAdjustmentStatus].name}
+                </Select.Option>
+              ))}
+            </Select>
+            <Button type="primary" onClick={() => setRequesting(true)}>
+              Solicitar ajuste
+            </Button>
+          </ActionWrapper>
+        }
+      >
+        <Table loading={loading} dataSource={list.filter((item) => !status || item.status === status)} rowKey="id">
+          <Table.Column
+            title="Família"
+            render={(item: BalanceAdjustment) =>
+              item.family ? `${item.family.responsibleName} (${item.family.responsibleNis})` : `#${item.familyId}`
+            }
+          />
+          <Table.Column title="Ajuste" render={(item: BalanceAdjustment) => adjustmentChange(item, products)} />
+          <Table.Column title="Motivo" dataIndex="reason" />
+          <Table.Column
+            title="Situação"
+            dataIndex="status"
+            render={(value: BalanceAdjustmentStatus) => (
+              <Tag color={statusList[value]?.color}>{statusList[value]?.name}</Tag>
+            )}
+          />
+          <Table.Column
+            title="Solicitado por"
+            render={(item: BalanceAdjustment) => `${item.requestedBy?.name || '-'} em ${formatDate(item.createdAt)}`}
+          />
+          <Table.Column
+            title="Revisado por"
+            render={(item: BalanceAdjustment) =>
+              item.reviewedAt ? `${item.reviewedBy?.name || '-'} em ${formatDate(item.reviewedAt)}` : '-'
+            }
+          />
+          <Table.Column title="Observação" dataIndex="reviewNote" />
+          <Table.Column
+            render={(item: BalanceAdjustment) =>
+              canReview &&
+              item.status === 'pending' && (
+                <ActionWrapper>
+                  <Button type="primary" onClick={() => review(item, 'approve')}>
+                    Aprovar
+                  </Button>
+                  <Button danger onClick={() => review(item, 'reject')}>
+                    Recusar
+                  </Button>
+                </ActionWrapper>
+              )
+            }
+          />
+        </Table>
+      </Card>
+      <AdjustmentRequestModal visible={requesting} onClose={() => setRequesting(false)} />
+    </PageContainer>
+  );
+};
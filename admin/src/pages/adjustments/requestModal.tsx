@@ -0,0 +1,132 @@
+import React from 'react';
+import { Modal, Form, Input, InputNumber, Select, Button, Row, Col, message } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppState } from '../../redux/rootReducer';
+import { BalanceAdjustmentRequest } from '../../interfaces/balanceAdjustment';
+import { Product } from '../../interfaces/product';
+import { requestCreateBalanceAdjustment } from '../../redux/balanceAdjustment/actions';
+import { requestGetProduct } from '../../redux/product/actions';
+import { env } from '../../env';
+
+// Application consumption type
+const consumptionType = env.REACT_APP_CONSUMPTION_TYPE as 'ticket' | 'product';
+
+type ComponentProps = {
+  visible: boolean;
+  // Family of the request, the NIS is asked when it's not set
+  familyId?: number | string;
+  onClose: () => void;
+};
+
+/**
+ * Modal to request a manual adjustment on the family balance, it's counted only after an admin approves it
+ * @param props component props
+ */
+export const AdjustmentRequestModal: React.FC<ComponentProps> = ({ visible, familyId, onClose }) => {
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+
+  const loading = useSelector<AppState, boolean>(({ balanceAdjustmentReducer }) => balanceAdjustmentReducer.loading);
+  const products = useSelector<AppState, Product[]>(({ productReducer }) => productReducer.list);
+
+  React.useEffect(() => {
+    if (visible && consumptionType === 'product') dispatch(requestGetProduct());
+  }, [dispatch, visible]);
+
+  /**
+   * Send the request with the form values
+   * @param values form values
+   */
+  const onFinish = (values: BalanceAdjustmentRequest) => {
+    dispatch(
+      requestCreateBalanceAdjustment(
+        { ...values, familyId },
+        () => {
+          message.success('Ajuste enviado para aprovação');
+          form.resetFields();
+          onClose();
+        },
+        () => message.error('Não foi possível solicitar o ajuste')
+      )
+    );
+  };
+
+  return (
+    <Modal
+      title="Solicitar ajuste de saldo"
+      visible={visible}
+      okText="Solicitar"
+      cancelText="Cancelar"
+      confirmLoading={loading}
+      onOk={() => form.submit()}
+      onCancel={onClose}
+    >
+      <Form form={form} layout="vertical" onFinish={(values) => onFinish(values as BalanceAdjustmentRequest)}>
+        {!familyId && (
+          <Form.Item
+            label="NIS do responsável"
+            name="responsibleNis"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <Input maxLength={11} />
+          </Form.Item>
+        )}
+        {consumptionType === 'ticket' ? (
+          <Form.Item
+            label="Valor (R$)"
+            name="value"
+            extra="Use valores negativos para descontar do saldo"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <InputNumber style={{ width: '100%' }} step={0.01} precision={2} decimalSeparator="," />
+          </Form.Item>
+        ) : (
+          <Form.List name="products">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Row key={field.key} gutter={8}>
+                    <Col span={14}>
+                      <Form.Item
+                        name={[field.name, 'productId']}
+                        rules={[{ required: true, message: 'Campo obrigatório' }]}
+                      >
+                        <Select showSearch optionFilterProp="children" placeholder="Produto">
+                          {products.map((product) => (
+                            <Select.Option key={product.id} value={product.id as number}>
+                              {product.name}
+                            </Select.Option>
+                          ))}
+                        </Select>
+                      </Form.Item>
+                    </Col>
+                    <Col span={8}>
+                      <Form.Item
+                        name={[field.name, 'amount']}
+                        rules={[{ required: true, message: 'Campo obrigatório' }]}
+                      >
+                        <InputNumber style={{ width: '100%' }} precision={0} placeholder="Quantidade" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={2}>
+                      <MinusCircleOutlined onClick={() => remove(field.name)} />
+                    </Col>
+                  </Row>
+                ))}
+                <Form.Item extra="Use quantidades negativas para retirar produtos do saldo">
+                  <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined />}>
+                    Adicionar produto
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+        )}
+        <Form.Item label="Motivo" name="reason" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Input.TextArea rows={3} />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Card, Typography, Button, Table, Modal, Form, Input, Tag, Alert, message } from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import moment from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { AppState } from '../../redux/rootReducer';
+import { ApiClient } from '../../interfaces/apiClient';
+import {
+  requestGetApiClient,
+  requestCreateApiClient,
+  requestRotateApiClient,
+  requestRevokeApiClient
+} from '../../redux/apiClient/actions';
+
+/**
+ * Format a date of the client, showing a dash when it's not set
+ * @param value date
+ */
+const formatDate = (value?: number | Date | null) => (value ? moment(value).format('DD/MM/YYYY HH:mm') : '-');
+
+/**
+ * API client list component, the portal credentials are created and rotated here
+ * @param props component props
+ */
+export const ApiClientList: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+
+  const [creating, setCreating] = useState(false);
+  // Client with the key, shown only once after the creation or rotation
+  const [credentials, setCredentials] = useState<ApiClient | null>(null);
+
+  React.useEffect(() => {
+    dispatch(requestGetApiClient());
+  }, [dispatch]);
+
+  const list = useSelector<AppState, ApiClient[]>(({ apiClientReducer }) => apiClientReducer.list);
+  const loading = useSelector<AppState, boolean>(({ apiClientReducer }) => apiClientReducer.loading);
+
+  /**
+   * Create the client with the form values
+   * @param values form values
+   */
+  const onCreate = (values: Pick<ApiClient, 'name'>) => {
+    dispatch(
+      requestCreateApiClient(
+        values,
+        (item) => {
+          setCreating(false);
+          form.resetFields();
+          setCredentials(item);
+        },
+        () => message.error('Não foi possível criar o cliente')
+      )
+    );
+  };
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Clientes da API`}</Typography.Title>}
+        extra={
+          <Button type="primary" onClick={() => setCreating(true)}>
+            Criar
+          </Button>
+        }
+      >
+        <Table loading={loading} dataSource={list} rowKey="id">
+          <Table.Column title="Nome" dataIndex="name" />
+          <Table.Column title="Identificador" dataIndex="keyId" />
+          <Table.Column
+            title="Situação"
+            render={(item: ApiClient) =>
+              item.revokedAt ? <Tag color="red">Revogado</Tag> : <Tag color="green">Ativo</Tag>
+            }
+          />
+          <Table.Column title="Criado em" dataIndex="createdAt" render={formatDate} />
+          <Table.Column title="Última troca de chave" dataIndex="rotatedAt" render={formatDate} />
+          <Table.Column title="Último uso" dataIndex="lastUsedAt" render={formatDate} />
+          <Table.Column
+            render={(item: ApiClient) =>
+              !item.revokedAt && (
+                <ActionWrapper>
+                  <Button
+                    onClick={() =>
+                      Modal.confirm({
+                        title: 'Você realmente quer gerar uma nova chave?',
+                        content: 'A chave atual continuará funcionando por 24 horas.',
+                        icon: <ExclamationCircleOutlined />,
+                        okText: 'Sim',
+                        cancelText: 'Não',
+                        onOk: () => {
+                          dispatch(
+                            requestRotateApiClient(item.id as number, setCredentials, () =>
+                              message.error('Não foi possível gerar uma nova chave')
+                            )
+                          );
+                        }
+                      })
+                    }
+                  >
+                    Trocar chave
+                  </Button>
+                  <Button
+                    danger
+                    onClick={() =>
+                      Modal.confirm({
+                        title: 'Você realmente quer revogar esse cliente?',
+                        content: 'As requisições do portal que usa esse cliente serão recusadas.',
+                        icon: <ExclamationCircleOutlined />,
+                        okText: 'Sim',
+                        okType: 'danger',
+                        cancelText: 'Não',
+                        onOk: () => {
+                          dispatch(requestRevokeApiClient(item.id as number));
+                        }
+                      })
+                    }
+                  >
+                    Revogar
+                  </Button>
+                </ActionWrapper>
+              )
+            }
+          />
+        </Table>
+      </Card>
+      <Modal
+        title="Novo cliente"
+        visible={creating}
+        okText="Criar"
+        cancelText="Cancelar"
+        confirmLoading={loading}
+        onOk={() => form.submit()}
+        onCancel={() => setCreating(false)}
+      >
+        <Form form={form} layout="vertical" onFinish={(values) => onCreate(values as Pick<ApiClient, 'name'>)}>
+          <Form.Item label="Nome" name="name" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+            <Input placeholder="Portal da cidade" />
+          </Form.Item>
+        </Form>
+      </Modal>
+      <Modal
+        title="Credenciais do cliente"
+        visible={!!credentials}
+        closable={false}
+        cancelButtonProps={{ style: { display: 'none' } }}
+        okText="Já copiei a chave"
+        onOk={() => setCredentials(null)}
+      >
+        <Alert
+          type="warning"
+          showIcon
+          message="A chave não será exibida novamente, copie e configure no portal antes de fechar."
+        />
+        <Typography.Paragraph style={{ marginTop: 16 }}>
+          <Typography.Text strong>REACT_APP_ENV_API_CLIENT_ID</Typography.Text>
+          <Typography.Paragraph copyable code>
+            {credentials?.keyId}
+          </Typography.Paragraph>
+          <Typography.Text strong>REACT_APP_ENV_API_CLIENT_SECRET</Typography.Text>
+          <Typography.Paragraph copyable code>
+            {credentials?.secret}
+          </Typography.Paragraph>
+        </Typography.Paragraph>
+      </Modal>
+    </PageContainer>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Card, Typography, Table, Tag, Form, Row, Col, Select, Input, DatePicker, Button } from 'antd';
+import locale from 'antd/es/date-picker/locale/pt_BR';
+import moment, { Moment } from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { AppState } from '../../redux/rootReducer';
+import { AuditLog, AuditLogFilters } from '../../interfaces/auditLog';
+import { requestGetAuditLog } from '../../redux/audit/actions';
+
+// Resources that store their changes on the audit log
+const entityList: { [key: string]: string } = {
+  adjustments: 'Ajustes de saldo',
+  'api-clients': 'Clientes da API',
+  'benefit-policies': 'Regras do benefício',
+  'benefit-programs': 'Programas de benefício',
+  benefits: 'Benefícios',
+  cities: 'Cidades',
+  consumptions: 'Consumos',
+  families: 'Famílias',
+  groups: 'Grupos',
+  institutions: 'Instituições',
+  places: 'Grupos de entidades',
+  'place-stores': 'Entidades',
+  'product-categories': 'Categorias de produtos',
+  products: 'Produtos',
+  public: 'Portal',
+  'public-blocks': 'Bloqueios do portal',
+  stock: 'Estoque',
+  users: 'Usuários'
+};
+
+const actionList: { [key: string]: { name: string; color: string } } = {
+  create: { name: 'Criação', color: 'green' },
+  update: { name: 'Alteração', color: 'blue' },
+  delete: { name: 'Exclusão', color: 'red' },
+  deactivate: { name: 'Desativação', color: 'orange' },
+  import: { name: 'Importação', color: 'purple' },
+  'retry-import': { name: 'Nova tentativa de importação', color: 'purple' },
+  'commit-import': { name: 'Confirmação de importação', color: 'purple' },
+  report: { name: 'Relatório', color: 'default' },
+  'revoke-sessions': { name: 'Encerramento de sessões', color: 'red' },
+  invite: { name: 'Convite', color: 'cyan' },
+  'rotate-key': { name: 'Troca de chave', color: 'orange' },
+  revoke: { name: 'Revogação', color: 'red' },
+  'beneficiary-login': { name: 'Acesso ao portal', color: 'geekblue' },
+  unblock: { name: 'Desbloqueio', color: 'green' },
+  request: { name: 'Solicitação', color: 'cyan' },
+  approve: { name: 'Aprovação', color: 'green' },
+  reject: { name: 'Recusa', color: 'red' },
+  skip: { name: 'Ocorrência pulada', color: 'orange' },
+  override: { name: 'Ocorrência alterada', color: 'blue' },
+  restore: { name: 'Ocorrência restaurada', color: 'green' }
+};
+
+/**
+ * Formatted JSON of the item state, used on the expanded row
+ * @param props component props
+ */
+const AuditValue: React.FC<{ title: string; value?: object | null }> = ({ title, value }) => (
+  <Col span={12}>
+    <Typography.Text strong>{title}</Typography.Text>
+    <pre style={{ maxHeight: 400, overflow: 'auto' }}>{value ? JSON.stringify(value, null, 2) : '-'}</pre>
+  </Col>
+);
+
+/**
+ * Audit log list component
+ * @param props component props
+ */
+export const AuditLogList: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+
+  const list = useSelector<AppState, AuditLog[]>(({ auditReducer }) => auditReducer.list);
+  const count = useSelector<AppState, number>(({ auditReducer }) => auditReducer.count);
+  const filters = useSelector<AppState, AuditLogFilters>(({ auditReducer }) => auditReducer.filters);
+  const loading = useSelector<AppState, boolean>(({ auditReducer }) => auditReducer.loading);
+
+  const [entity, setEntity] = useState<string | undefined>(filters.entity);
+  const [entityId, setEntityId] = useState<string | undefined>(filters.entityId);
+  const [action, setAction] = useState<string | undefined>(filters.action);
+  const [range, setRange] = useState<[Moment | null, Moment | null] | null>(
+    filters.from || filters.to
+      ? [filters.from ? moment(filters.from) : null, filters.to ? moment(filters.to) : null]
+      : null
+  );
+
+  React.useEffect(() => {
+    dispatch(requestGetAuditLog(filters));
+    // Only on the first render, the next requests are made by the filters and the pagination
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dispatch]);
+
+  /**
+   * Request the audit log using the current filters
+   * @param page page number
+   * @param pageSize number of items per page
+   */
+  const search = (page = 1, pageSize = filters.pageSize) => {
+    dispatch(
+      requestGetAuditLog({
+        entity,
+        entityId: entityId || undefined,
+        action,
+        from: range && range[0] ? range[0].format('YYYY-MM-DD') : undefined,
+        to: range && range[1] ? range[1].format('YYYY-MM-DD') : undefined,
+        page,
+        pageSize
+      })
+    );
+  };
+
+  return (
+    <PageContainer>
+      <Card title={<Typography.Title>{`Auditoria`}</Typography.Title>}>
+        <Form layout="vertical" onFinish={() => search()}>
+          <Row gutter={[16, 16]}>
+            <Col span={6}>
+              <Form.Item label="Registro">
+                <Select allowClear value={entity} onChange={(value?: string) => setEntity(value)}>
+                  {Object.keys(entityList).map((key) => (
+                    <Select.Option key={key} value={key}>
+                      {entityList[key]}
+                    </Select.Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={4}>
+              <Form.Item label="Código do registro">
+                <Input value={entityId} onChange={(event) => setEntityId(event.target.value)} />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item label="Ação">
+                <Select allowClear value={action} onChange={(value?: string) => setAction(value)}>
+                  {Object.keys(actionList).map((key) => (
+                    <Select.Option key={key} value={key}>
+                      {actionList[key].name}
+                    </Select.Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={8}>
+              <Form.Item label="Período">
+                <DatePicker.RangePicker
+                  style={{ width: '100%' }}
+                  locale={locale}
+                  format={'DD/MM/YYYY'}
+                  value={range}
+                  onChange={(value) => setRange(value as [Moment | null, Moment | null] | null)}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+          <ActionWrapper>
+            <Button type="primary" htmlType="submit">
+              Filtrar
+            </Button>
+          </ActionWrapper>
+        </Form>
+        <Table
+          loading={loading}
+          dataSource={list}
+          rowKey="id"
+          pagination={{
+            current: filters.page,
+            pageSize: filters.pageSize,
+            total: count,
+            onChange: (page, pageSize) => search(page, pageSize)
+          }}
+          expandable={{
+            expandedRowRender: (item: AuditLog) => (
+              <Row gutter={[16, 16]}>
+                <AuditValue title="Antes" value={item.before} />
+                <AuditValue title="Depois" value={item.after} />
+              </Row>
+            )
+          }}
+        >
+          <Table.Column
+            title="Data"
+            dataIndex="createdAt"
+            render={(createdAt: Date) => moment(createdAt).format('DD/MM/YYYY HH:mm:ss')}
+          />
+          <Table.Column
+            title="Usuário"
+            render={(item: AuditLog) => item.user?.name || item.user?.email || (item.userId ? item.userId : '-')}
+          />
+          <Table.Column
+            title="Ação"
+            dataIndex="action"
+            render={(value: string) => (
+              <Tag color={actionList[value]?.color || 'default'}>{actionList[value]?.name || value}</Tag>
+            )}
+          />
+          <Table.Column
+            title="Registro"
+            render={(item: AuditLog) =>
+              `${entityList[item.entity] || item.entity}${item.entityId ? ` #${item.entityId}` : ''}`
+            }
+          />
+          <Table.Column title="Requisição" render={(item: AuditLog) => `${item.method} ${item.path}`} />
+          <Table.Column title="IP" dataIndex="ip" />
+        </Table>
+      </Card>
+    </PageContainer>
+  );
+};
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  Typography,
+  Button,
+  Table,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  DatePicker,
+  Descriptions,
+  Tag,
+  message
+} from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import locale from 'antd/es/date-picker/locale/pt_BR';
+import moment, { Moment } from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { AppState } from '../../redux/rootReducer';
+import {
+  BenefitPolicy,
+  BenefitPolicyException,
+  BenefitPolicyExceptionType,
+  PolicyRules
+} from '../../interfaces/benefitPolicy';
+import { User } from '../../interfaces/user';
+import {
+  requestGetBenefitPolicy,
+  requestCreateBenefitPolicy,
+  requestGetPolicyException,
+  requestCreatePolicyException,
+  requestDeletePolicyException
+} from '../../redux/benefitPolicy/actions';
+import { isRoleAllowed, Role } from '../../utils/constraints';
+import { formatMoney } from '../../utils/string';
+
+const exceptionTypeList: { [key in BenefitPolicyExceptionType]: string } = {
+  nis: 'NIS',
+  name: 'Nome'
+};
+
+/**
+ * Benefit policy page, the calculation rules of the ticket report and its exceptions list
+ * @param props component props
+ */
+export const BenefitPolicyPage: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const [versionForm] = Form.useForm();
+  const [exceptionForm] = Form.useForm();
+
+  const [creatingVersion, setCreatingVersion] = useState(false);
+  const [creatingException, setCreatingException] = useState(false);
+
+  React.useEffect(() => {
+    dispatch(requestGetBenefitPolicy());
+    dispatch(requestGetPolicyException());
+  }, [dispatch]);
+
+  const current = useSelector<AppState, PolicyRules | undefined>(
+    ({ benefitPolicyReducer }) => benefitPolicyReducer.current
+  );
+  const versions = useSelector<AppState, BenefitPolicy[]>(({ benefitPolicyReducer }) => benefitPolicyReducer.versions);
+  const loading = useSelector<AppState, boolean>(({ benefitPolicyReducer }) => benefitPolicyReducer.loading);
+  const exceptions = useSelector<AppState, BenefitPolicyException[]>(
+    ({ benefitPolicyReducer }) => benefitPolicyReducer.exceptions
+  );
+  const exceptionsLoading = useSelector<AppState, boolean>(
+    ({ benefitPolicyReducer }) => benefitPolicyReducer.exceptionsLoading
+  );
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  const canEdit = isRoleAllowed(['admin'], user?.role as Role | undefined);
+
+  /**
+   * Create the version with the form values
+   * @param values form values
+   */
+  const onCreateVersion = (values: Omit<BenefitPolicy, 'effectiveFrom'> & { effectiveFrom: Moment }) => {
+    dispatch(
+      requestCreateBenefitPolicy(
+        { ...values, effectiveFrom: values.effectiveFrom.format('YYYY-MM-DD') },
+        () => {
+          setCreatingVersion(false);
+          versionForm.resetFields();
+        },
+        () => message.error('Não foi possível criar a versão')
+      )
+    );
+  };
+
+  /**
+   * Add the exception with the form values
+   * @param values form values
+   */
+  const onCreateException = (values: Pick<BenefitPolicyException, 'type' | 'value' | 'reason'>) => {
+    dispatch(
+      requestCreatePolicyException(
+        values,
+        () => {
+          setCreatingException(false);
+          exceptionForm.resetFields();
+        },
+        () => message.error('Não foi possível adicionar a exceção')
+      )
+    );
+  };
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Regras do benefício`}</Typography.Title>}
+        extra={
+          canEdit && (
+            <Button
+              type="primary"
+              onClick={() => {
+                versionForm.setFieldsValue({ ...current, effectiveFrom: moment().add(1, 'day') });
+                setCreatingVersion(true);
+              }}
+            >
+              Nova versão
+            </Button>
+          )
+        }
+      >
+        {current && (
+          <Descriptions title="Regras em vigor" bordered size="small" column={3}>
+            <Descriptions.Item label="Multiplicador sem declaração">
+              {current.undeclaredConsumptionMultiplier}
+            </Descriptions.Item>
+            <Descriptions.Item label="Tolerância da declaração">{`R$${formatMoney(
+              current.declaredTolerance
+            )}`}</Descriptions.Item>
+            <Descriptions.Item label="Pagamentos em dinheiro">
+              {current.moneyPaymentNames.map((name) => (
+                <Tag key={name}>{name}</Tag>
+              ))}
+            </Descriptions.Item>
+          </Descriptions>
+        )}
+        <Table
+          style={{ marginTop: 16 }}
+          loading={loading}
+          dataSource={versions}
+          rowKey="id"
+          locale={{ emptyText: 'Nenhuma versão cadastrada, as regras padrão estão em vigor' }}
+        >
+          <Table.Column
+            title="Início"
+            dataIndex="effectiveFrom"
+            render={(value: string) => moment(value, 'YYYY-MM-DD').format('DD/MM/YYYY')}
+          />
+          <Table.Column title="Multiplicador sem declaração" dataIndex="undeclaredConsumptionMultiplier" />
+          <Table.Column
+            title="Tolerância da declaração"
+            dataIndex="declaredTolerance"
+            render={(value: number) => `R$${formatMoney(value)}`}
+          />
+          <Table.Column
+            title="Pagamentos em dinheiro"
+            dataIndex="moneyPaymentNames"
+            render={(names: string[]) => names.map((name) => <Tag key={name}>{name}</Tag>)}
+          />
+          <Table.Column
+            title="Criado por"
+            render={(item: BenefitPolicy) =>
+              `${item.createdBy?.name || '-'} em ${moment(item.createdAt as Date).format('DD/MM/YYYY HH:mm')}`
+            }
+          />
+        </Table>
+      </Card>
+      <Card
+        style={{ marginTop: 16 }}
+        title={<Typography.Title level={2}>{`Exceções`}</Typography.Title>}
+        extra={
+          canEdit && (
+            <Button type="primary" onClick={() => setCreatingException(true)}>
+              Adicionar
+            </Button>
+          )
+        }
+      >
+        <Typography.Paragraph>
+          As famílias com o NIS ou o nome do responsável na lista não recebem o multiplicador sem declaração.
+        </Typography.Paragraph>
+        <Table loading={exceptionsLoading} dataSource={exceptions} rowKey="id">
+          <Table.Column
+            title="Tipo"
+            dataIndex="type"
+            render={(type: BenefitPolicyExceptionType) => exceptionTypeList[type] || type}
+          />
+          <Table.Column title="Valor" dataIndex="value" />
+          <Table.Column title="Motivo" dataIndex="reason" />
+          <Table.Column title="Criado por" render={(item: BenefitPolicyException) => item.createdBy?.name || '-'} />
+          <Table.Column
+            render={(item: BenefitPolicyException) =>
+              canEdit && (
+                <ActionWrapper>
+                  <Button
+                    danger
+                    onClick={() =>
+                      Modal.confirm({
+                        title: 'Você realmente quer remover essa exceção?',
+                        icon: <ExclamationCircleOutlined />,
+                        okText: 'Sim',
+                        okType: 'danger',
+                        cancelText: 'Não',
+                        onOk: () => {
+                          dispatch(requestDeletePolicyException(item.id as number));
+                        }
+                      })
+                    }
+                  >
+                    Remover
+                  </Button>
+                </ActionWrapper>
+              )
+            }
+          />
+        </Table>
+      </Card>
+      <Modal
+        title="Nova versão das regras"
+        visible={creatingVersion}
+        okText="Criar"
+        cancelText="Cancelar"
+        confirmLoading={loading}
+        onOk={() => versionForm.submit()}
+        onCancel={() => setCreatingVersion(false)}
+      >
+        <Form
+          form={versionForm}
+          layout="vertical"
+          onFinish={(values) =>
+            onCreateVersion(values as Omit<BenefitPolicy, 'effectiveFrom'> & { effectiveFrom: Moment })
+          }
+        >
+          <Form.Item
+            label="Início"
+            name="effectiveFrom"
+            extra="As versões anteriores são mantidas para os relatórios dos períodos passados"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <DatePicker
+              style={{ width: '100%' }}
+              locale={locale}
+              format={'DD/MM/YYYY'}
+              disabledDate={(date) => date.isBefore(moment(), 'day')}
+            />
+          </Form.Item>
+          <Form.Item
+            label="Multiplicador sem declaração"
+            name="undeclaredConsumptionMultiplier"
+            extra="Aplicado ao benefício das famílias que consumiram no cartão sem declarar"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <InputNumber style={{ width: '100%' }} min={0} max={1} step={0.05} />
+          </Form.Item>
+          <Form.Item
+            label="Tolerância da declaração (R$)"
+            name="declaredTolerance"
+            extra="Diferença entre o valor declarado e o consumido aceita como declaração completa"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <InputNumber style={{ width: '100%' }} min={0} step={0.5} decimalSeparator="," />
+          </Form.Item>
+          <Form.Item
+            label="Pagamentos em dinheiro"
+            name="moneyPaymentNames"
+            extra="Os produtos inválidos pagos com essas formas de pagamento não são descontados"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <Select mode="tags" tokenSeparators={[',']} />
+          </Form.Item>
+        </Form>
+      </Modal>
+      <Modal
+        title="Nova exceção"
+        visible={creatingException}
+        okText="Adicionar"
+        cancelText="Cancelar"
+        confirmLoading={exceptionsLoading}
+        onOk={() => exceptionForm.submit()}
+        onCancel={() => setCreatingException(false)}
+      >
+        <Form
+          form={exceptionForm}
+          layout="vertical"
+          initialValues={{ type: 'nis' }}
+          onFinish={(values) => onCreateException(values as Pick<BenefitPolicyException, 'type' | 'value' | 'reason'>)}
+        >
+          <Form.Item label="Tipo" name="type" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+            <Select>
+              {Object.keys(exceptionTypeList).map((key) => (
+                <Select.Option key={key} value={key}>
+                  {exceptionTypeList[key as BenefitPolicyExceptionType]}
+                </Select.Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item
+            label="NIS ou nome do responsável"
+            name="value"
+            rules={[{ required: true, message: 'Campo obrigatório' }]}
+          >
+            <Input />
+          </Form.Item>
+          <Form.Item label="Motivo" name="reason">
+            <Input.TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </PageContainer>
+  );
+};
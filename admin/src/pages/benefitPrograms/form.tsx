@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, DatePicker, Form, Input, InputNumber, Modal, Radio, Select } from 'antd';
+import locale from 'antd/es/date-picker/locale/pt_BR';
+import moment, { Moment } from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { RouteComponentProps, useHistory } from 'react-router-dom';
+import { BenefitProgram } from '../../interfaces/benefitProgram';
+import { Institution } from '../../interfaces/institution';
+import { Group } from '../../interfaces/group';
+import { requestGetBenefitProgram, requestSaveBenefitProgram } from '../../redux/benefitProgram/actions';
+import { requestGetInstitution } from '../../redux/institution/actions';
+import { requestGetGroup } from '../../redux/group/actions';
+import { AppState } from '../../redux/rootReducer';
+import { ProductListField } from './productList';
+import { valueTypeList } from './list';
+import { env } from '../../env';
+
+const TYPE = env.REACT_APP_CONSUMPTION_TYPE as 'ticket' | 'product';
+
+type FormValues = Omit<BenefitProgram, 'startDate' | 'endDate'> & { startDate: Moment; endDate?: Moment | null };
+
+/**
+ * Create or edit a benefit program, the changes affect only the occurrences not generated yet
+ * @param props component props
+ */
+export const BenefitProgramForm: React.FC<RouteComponentProps<{ id: string }>> = (props) => {
+  const history = useHistory();
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+  const [status, setStatus] = useState<string>();
+  const isCreating = props.match.params.id === 'criar';
+
+  useEffect(() => {
+    dispatch(requestGetInstitution());
+    dispatch(requestGetGroup());
+    if (!isCreating) dispatch(requestGetBenefitProgram(props.match.params.id));
+  }, [dispatch, isCreating, props.match.params.id]);
+
+  // Redux state
+  const program = useSelector<AppState, BenefitProgram | undefined>(({ benefitProgramReducer }) =>
+    benefitProgramReducer.list.find((item) => `${item.id}` === props.match.params.id)
+  );
+  const loading = useSelector<AppState, boolean>(({ benefitProgramReducer }) => benefitProgramReducer.loading);
+  const institutions = useSelector<AppState, Institution[]>(({ institutionReducer }) => institutionReducer.list);
+  const groups = useSelector<AppState, Group[]>(({ groupReducer }) => groupReducer.list as Group[]);
+
+  useEffect(() => {
+    if (program) {
+      form.setFieldsValue({
+        ...program,
+        startDate: moment(program.startDate, 'YYYY-MM-DD'),
+        endDate: program.endDate ? moment(program.endDate, 'YYYY-MM-DD') : null
+      });
+    }
+  }, [form, program]);
+
+  /**
+   * Save the program with the form values
+   * @param values form values
+   */
+  const onFinish = (values: FormValues) => {
+    setStatus(undefined);
+    dispatch(
+      requestSaveBenefitProgram(
+        {
+          ...values,
+          id: program?.id,
+          startDate: values.startDate.format('YYYY-MM-DD'),
+          endDate: values.endDate ? values.endDate.format('YYYY-MM-DD') : null
+        },
+        () => history.push('/programas'),
+        (error?: Error & { response?: { data?: unknown } }) =>
+          setStatus(
+            typeof error?.response?.data === 'string'
+              ? error.response.data
+              : 'Ocorreu um erro ao realizar a requisição.'
+          )
+      )
+    );
+  };
+
+  return (
+    <Modal
+      title={isCreating ? 'Criar programa' : 'Editar programa'}
+      visible={true}
+      okText="Salvar"
+      cancelText="Cancelar"
+      confirmLoading={loading}
+      onOk={() => form.submit()}
+      onCancel={() => history.push('/programas')}
+    >
+      {status && <Alert message="Erro no formulário" description={status} type="error" />}
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ dayOfMonth: 1, valueType: 'dependent' }}
+        onFinish={(values) => onFinish(values as FormValues)}
+      >
+        <Form.Item label="Nome" name="title" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Input />
+        </Form.Item>
+        <Form.Item
+          label={TYPE === 'product' ? 'Origem do benefício' : 'Instituição'}
+          name="institutionId"
+          rules={[{ required: true, message: 'Campo obrigatório' }]}
+        >
+          <Select>
+            {institutions.map((institution) => (
+              <Select.Option key={institution.id} value={institution.id as number}>
+                {institution.title}
+              </Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item label="Grupo familiar" name="groupId" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Select>
+            {groups.map((group) => (
+              <Select.Option key={group.id} value={group.id as number}>
+                {group.title}
+              </Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item
+          label="Dia do mês"
+          name="dayOfMonth"
+          extra="Dia em que o benefício de cada mês é liberado"
+          rules={[{ required: true, message: 'Campo obrigatório' }]}
+        >
+          <InputNumber style={{ width: '100%' }} min={1} max={28} precision={0} />
+        </Form.Item>
+        <Form.Item label="Data de início" name="startDate" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <DatePicker style={{ width: '100%' }} locale={locale} format="DD/MM/YYYY" />
+        </Form.Item>
+        <Form.Item label="Data de término" name="endDate" extra="Deixe em branco para um programa sem término">
+          <DatePicker style={{ width: '100%' }} locale={locale} format="DD/MM/YYYY" />
+        </Form.Item>
+        {TYPE === 'ticket' ? (
+          <>
+            <Form.Item label="Valor (R$)" name="value" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+              <InputNumber style={{ width: '100%' }} min={0} step={0.01} precision={2} decimalSeparator="," />
+            </Form.Item>
+            <Form.Item name="valueType">
+              <Radio.Group>
+                {Object.entries(valueTypeList).map(([key, name]) => (
+                  <Radio key={key} value={key}>
+                    {name}
+                  </Radio>
+                ))}
+              </Radio.Group>
+            </Form.Item>
+          </>
+        ) : (
+          <ProductListField name="products" />
+        )}
+      </Form>
+    </Modal>
+  );
+};
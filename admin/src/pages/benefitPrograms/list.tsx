@@ -0,0 +1,107 @@
+import React, { useEffect } from 'react';
+import { Button, Card, Table, Tag, Typography } from 'antd';
+import moment from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { BenefitProgram } from '../../interfaces/benefitProgram';
+import { User } from '../../interfaces/user';
+import { requestGetBenefitProgram } from '../../redux/benefitProgram/actions';
+import { AppState } from '../../redux/rootReducer';
+import { ActionWrapper, PageContainer } from './styles';
+import { formatMoney } from '../../utils/string';
+import { isRoleAllowed, Role } from '../../utils/constraints';
+import { env } from '../../env';
+
+const TYPE = env.REACT_APP_CONSUMPTION_TYPE as 'ticket' | 'product';
+
+export const valueTypeList = {
+  dependent: 'Por dependente',
+  family: 'Por família'
+};
+
+/**
+ * Format a day of the program (YYYY-MM-DD)
+ * @param date the day
+ * @returns formatted day
+ */
+export const formatProgramDate = (date?: string | null) =>
+  date ? moment(date, 'YYYY-MM-DD').format('DD/MM/YYYY') : '';
+
+/**
+ * List of the recurring benefit programs
+ * @param props component props
+ */
+export const BenefitProgramList: React.FC<{}> = () => {
+  // Redux state
+  const list = useSelector<AppState, BenefitProgram[]>(({ benefitProgramReducer }) => benefitProgramReducer.list);
+  const loading = useSelector<AppState, boolean>(({ benefitProgramReducer }) => benefitProgramReducer.loading);
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  const canEdit = isRoleAllowed(['admin'], user?.role as Role | undefined);
+
+  // Redux actions
+  const dispatch = useDispatch();
+  useEffect(() => {
+    dispatch(requestGetBenefitProgram());
+  }, [dispatch]);
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Programas de benefício`}</Typography.Title>}
+        extra={
+          canEdit && (
+            <Link to={`/programas/criar`}>
+              <Button type="primary">Criar</Button>
+            </Link>
+          )
+        }
+      >
+        <Typography.Paragraph>
+          Os benefícios de cada mês dos programas são gerados automaticamente no dia do mês definido.
+        </Typography.Paragraph>
+        <Table dataSource={list} loading={loading} rowKey="id">
+          <Table.Column title="Nome" dataIndex="title" />
+          <Table.Column title="Grupo" render={(item: BenefitProgram) => item.group?.title} />
+          <Table.Column title="Instituição" render={(item: BenefitProgram) => item.institution?.title} />
+          <Table.Column title="Dia do mês" dataIndex="dayOfMonth" />
+          <Table.Column
+            title="Período"
+            render={(item: BenefitProgram) =>
+              item.endDate
+                ? `${formatProgramDate(item.startDate)} a ${formatProgramDate(item.endDate)}`
+                : `A partir de ${formatProgramDate(item.startDate)}`
+            }
+          />
+          {TYPE === 'ticket' && (
+            <Table.Column
+              title="Valor"
+              render={(item: BenefitProgram) => (
+                <>
+                  {`R$ ${formatMoney(item.value || 0)} `}
+                  <Tag>{valueTypeList[item.valueType]}</Tag>
+                </>
+              )}
+            />
+          )}
+          {TYPE === 'product' && (
+            <Table.Column title="Produtos" render={(item: BenefitProgram) => (item.products || []).length} />
+          )}
+          <Table.Column
+            render={(item: BenefitProgram) => (
+              <ActionWrapper>
+                <Link to={`/programas/${item.id}/ocorrencias`}>
+                  <Button>Ocorrências</Button>
+                </Link>
+                {canEdit && (
+                  <Link to={`/programas/${item.id}`}>
+                    <Button>Editar</Button>
+                  </Link>
+                )}
+              </ActionWrapper>
+            )}
+          />
+        </Table>
+      </Card>
+    </PageContainer>
+  );
+};
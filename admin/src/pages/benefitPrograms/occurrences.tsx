@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Form, Input, InputNumber, Modal, Table, Tag, message } from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { RouteComponentProps, useHistory } from 'react-router-dom';
+import {
+  BenefitOccurrenceStatus,
+  BenefitProgram,
+  BenefitProgramOccurrence,
+  OccurrenceOverride
+} from '../../interfaces/benefitProgram';
+import { User } from '../../interfaces/user';
+import { requestChangeProgramOccurrence, requestGetProgramOccurrence } from '../../redux/benefitProgram/actions';
+import { AppState } from '../../redux/rootReducer';
+import { ActionWrapper } from './styles';
+import { formatProgramDate } from './list';
+import { ProductListField } from './productList';
+import { formatMoney } from '../../utils/string';
+import { isRoleAllowed, Role } from '../../utils/constraints';
+import { env } from '../../env';
+
+const TYPE = env.REACT_APP_CONSUMPTION_TYPE as 'ticket' | 'product';
+
+const statusList: { [key in BenefitOccurrenceStatus]: { name: string; color: string } } = {
+  scheduled: { name: 'Agendada', color: 'blue' },
+  skipped: { name: 'Pulada', color: 'orange' },
+  generated: { name: 'Gerada', color: 'green' }
+};
+
+/**
+ * Occurrences of a program, the upcoming ones can be skipped or changed
+ * @param props component props
+ */
+export const ProgramOccurrenceList: React.FC<RouteComponentProps<{ id: string }>> = (props) => {
+  const history = useHistory();
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+  const [overriding, setOverriding] = useState<BenefitProgramOccurrence>();
+  const programId = props.match.params.id;
+
+  useEffect(() => {
+    dispatch(requestGetProgramOccurrence(programId));
+  }, [dispatch, programId]);
+
+  // Redux state
+  const program = useSelector<AppState, BenefitProgram | undefined>(({ benefitProgramReducer }) =>
+    benefitProgramReducer.list.find((item) => `${item.id}` === programId)
+  );
+  const occurrences = useSelector<AppState, BenefitProgramOccurrence[]>(
+    ({ benefitProgramReducer }) => benefitProgramReducer.occurrences
+  );
+  const loading = useSelector<AppState, boolean>(
+    ({ benefitProgramReducer }) => benefitProgramReducer.occurrencesLoading
+  );
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  const canEdit = isRoleAllowed(['admin'], user?.role as Role | undefined);
+
+  /**
+   * Show the error message of a failed change
+   * @param error request error
+   */
+  const onFailure = (error?: Error & { response?: { data?: unknown } }) =>
+    message.error(
+      typeof error?.response?.data === 'string' ? error.response.data : 'Não foi possível alterar a ocorrência'
+    );
+
+  /**
+   * Change the occurrence with the form values
+   * @param values form values
+   */
+  const onOverride = (values: OccurrenceOverride) => {
+    if (!overriding) return;
+    dispatch(
+      requestChangeProgramOccurrence(
+        programId,
+        overriding.date,
+        { action: 'override', values },
+        () => setOverriding(undefined),
+        onFailure
+      )
+    );
+  };
+
+  return (
+    <Modal
+      title={`Ocorrências${program ? ` - ${program.title}` : ''}`}
+      visible={true}
+      width={840}
+      footer={null}
+      onCancel={() => history.push('/programas')}
+    >
+      <Table dataSource={occurrences} loading={loading} rowKey="date" pagination={{ pageSize: 12 }}>
+        <Table.Column title="Data" dataIndex="date" render={(date: string) => formatProgramDate(date)} />
+        <Table.Column
+          title="Situação"
+          render={(item: BenefitProgramOccurrence) => (
+            <>
+              <Tag color={statusList[item.status].color}>{statusList[item.status].name}</Tag>
+              {item.overridden && <Tag>Alterada</Tag>}
+            </>
+          )}
+        />
+        {TYPE === 'ticket' ? (
+          <Table.Column title="Valor" dataIndex="value" render={(value: number) => `R$ ${formatMoney(value || 0)}`} />
+        ) : (
+          <Table.Column
+            title="Produtos"
+            dataIndex="products"
+            render={(products: BenefitProgramOccurrence['products']) =>
+              (products || []).reduce((sum, item) => sum + item.amount, 0)
+            }
+          />
+        )}
+        <Table.Column title="Observação" dataIndex="note" />
+        <Table.Column
+          render={(item: BenefitProgramOccurrence) =>
+            canEdit &&
+            item.status !== 'generated' && (
+              <ActionWrapper>
+                {(item.status === 'skipped' || item.overridden) && (
+                  <Button
+                    onClick={() =>
+                      dispatch(
+                        requestChangeProgramOccurrence(
+                          programId,
+                          item.date,
+                          { action: 'restore' },
+                          undefined,
+                          onFailure
+                        )
+                      )
+                    }
+                  >
+                    Restaurar
+                  </Button>
+                )}
+                {item.status === 'scheduled' && (
+                  <>
+                    <Button
+                      onClick={() => {
+                        form.setFieldsValue({ value: item.value, products: item.products, note: item.note });
+                        setOverriding(item);
+                      }}
+                    >
+                      Alterar
+                    </Button>
+                    <Button
+                      danger
+                      onClick={() =>
+                        Modal.confirm({
+                          title: 'Você realmente quer pular essa ocorrência?',
+                          icon: <ExclamationCircleOutlined />,
+                          content: 'O benefício desse mês não será gerado',
+                          okText: 'Sim',
+                          okType: 'danger',
+                          cancelText: 'Não',
+                          onOk: () => {
+                            dispatch(
+                              requestChangeProgramOccurrence(
+                                programId,
+                                item.date,
+                                { action: 'skip' },
+                                undefined,
+                                onFailure
+                              )
+                            );
+                          }
+                        })
+                      }
+                    >
+                      Pular
+                    </Button>
+                  </>
+                )}
+              </ActionWrapper>
+            )
+          }
+        />
+      </Table>
+      <Modal
+        title={`Alterar ocorrência de ${formatProgramDate(overriding?.date)}`}
+        visible={!!overriding}
+        okText="Salvar"
+        cancelText="Cancelar"
+        confirmLoading={loading}
+        onOk={() => form.submit()}
+        onCancel={() => setOverriding(undefined)}
+      >
+        <Form form={form} layout="vertical" onFinish={(values) => onOverride(values as OccurrenceOverride)}>
+          {TYPE === 'ticket' ? (
+            <Form.Item label="Valor (R$)" name="value" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+              <InputNumber style={{ width: '100%' }} min={0} step={0.01} precision={2} decimalSeparator="," />
+            </Form.Item>
+          ) : (
+            <ProductListField name="products" />
+          )}
+          <Form.Item label="Observação" name="note">
+            <Input.TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Modal>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Form, InputNumber, Select, Button, Row, Col } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppState } from '../../redux/rootReducer';
+import { Product } from '../../interfaces/product';
+import { requestGetProduct } from '../../redux/product/actions';
+
+/**
+ * Basket of a program or occurrence, a list of products and amounts on the parent form
+ * @param props component props
+ */
+export const ProductListField: React.FC<{ name: string }> = ({ name }) => {
+  const dispatch = useDispatch();
+  const products = useSelector<AppState, Product[]>(({ productReducer }) => productReducer.list);
+
+  React.useEffect(() => {
+    dispatch(requestGetProduct());
+  }, [dispatch]);
+
+  return (
+    <Form.List name={name}>
+      {(fields, { add, remove }) => (
+        <>
+          {fields.map((field) => (
+            <Row key={field.key} gutter={8}>
+              <Col span={14}>
+                <Form.Item name={[field.name, 'productId']} rules={[{ required: true, message: 'Campo obrigatório' }]}>
+                  <Select showSearch optionFilterProp="children" placeholder="Produto">
+                    {products.map((product) => (
+                      <Select.Option key={product.id} value={product.id as number}>
+                        {product.name}
+                      </Select.Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item name={[field.name, 'amount']} rules={[{ required: true, message: 'Campo obrigatório' }]}>
+                  <InputNumber style={{ width: '100%' }} min={1} precision={0} placeholder="Quantidade" />
+                </Form.Item>
+              </Col>
+              <Col span={2}>
+                <MinusCircleOutlined onClick={() => remove(field.name)} />
+              </Col>
+            </Row>
+          ))}
+          <Form.Item>
+            <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined />}>
+              Adicionar produto
+            </Button>
+          </Form.Item>
+        </>
+      )}
+    </Form.List>
+  );
+};
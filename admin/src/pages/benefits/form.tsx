@@ -1,4 +1,4 @@
-import { Alert, Col, DatePicker, Form, Input, Modal, Row, Select, Spin } from 'antd';
+import { Alert, Col, DatePicker, Form, Input, Modal, Row, Select, Spin, Typography } from 'antd';
 import locale from 'antd/es/date-picker/locale/pt_BR';
 import { useFormik } from 'formik';
 import moment from 'moment';
@@ -224,6 +224,11 @@ export const BenefitForm: React.FC<RouteComponentProps<{ id: string }>> = (props
               />
             )}
           </Row>
+          {isConsumptionProduct && benefit?.benefitProducts?.[0]?.version && (
+            <Typography.Text type="secondary">
+              {`Cesta na versão ${benefit.benefitProducts[0].version}. Se alguma família já consumiu desta cesta, a alteração cria uma nova versão e os saldos anteriores continuam usando a versão atual.`}
+            </Typography.Text>
+          )}
         </Form>
       </form>
     </Modal>
@@ -55,9 +55,10 @@ export const BenefitList: React.FC<{}> = () => {
           {/* Show the product list column depending on the type of benefit */}
           {!showProductList && (
             <Table.Column
-              title="Valor por dependente"
-              dataIndex="value"
-              render={(data: Benefit['value']) => `R$ ${formatMoney(data)}`}
+              title="Valor"
+              render={(item: Benefit) =>
+                `R$ ${formatMoney(item.value)} ${item.valueType === 'family' ? 'por família' : 'por dependente'}`
+              }
             />
           )}
           <Table.Column
@@ -72,25 +73,31 @@ export const BenefitList: React.FC<{}> = () => {
                   <Link to={`/beneficios/${item.id}/editar`}>
                     <Button>Editar</Button>
                   </Link>
-                  {/* TODO: Add alert on delete */}
-                  <Button
-                    danger
-                    onClick={() =>
-                      Modal.confirm({
-                        title: 'Você realmente quer deletar esse registro?',
-                        icon: <ExclamationCircleOutlined />,
-                        // content: 'Some descriptions',
-                        okText: 'Sim',
-                        okType: 'danger',
-                        cancelText: 'Não',
-                        onOk: () => {
-                          dispatch(requestDeleteBenefit(item.id as number));
-                        }
-                      })
-                    }
-                  >
-                    Excluir
-                  </Button>
+                  {/* The benefits generated by a program are skipped on its occurrences */}
+                  {item.programId ? (
+                    <Link to={`/programas/${item.programId}/ocorrencias`}>
+                      <Button>Programa</Button>
+                    </Link>
+                  ) : (
+                    <Button
+                      danger
+                      onClick={() =>
+                        Modal.confirm({
+                          title: 'Você realmente quer deletar esse registro?',
+                          icon: <ExclamationCircleOutlined />,
+                          // content: 'Some descriptions',
+                          okText: 'Sim',
+                          okType: 'danger',
+                          cancelText: 'Não',
+                          onOk: () => {
+                            dispatch(requestDeleteBenefit(item.id as number));
+                          }
+                        })
+                      }
+                    >
+                      Excluir
+                    </Button>
+                  )}
                 </ActionWrapper>
               );
             }}
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Modal, Typography, Divider } from 'antd';
 import QrReader from 'react-qr-reader';
 import { logging } from '../../lib/logging';
+import { backend } from '../../utils/networking';
 import { WarningFilled } from '@ant-design/icons';
 
 export interface ModalQrCodeProps {
@@ -10,13 +11,26 @@ export interface ModalQrCodeProps {
   onInvalid: (message?: string) => void;
 }
 
+/**
+ * Get the host of the QRCode url
+ * @param value url
+ */
+const getHost = (value: string) => {
+  try {
+    return new URL(value).host.toLowerCase();
+  } catch (error) {
+    return '';
+  }
+};
+
 /**
  * Clear NFCe QRCode result
  * @param value url
+ * @param nfceHosts hosts of the states supported by the backend
  */
-const handleQRCode = (value: string | null) => {
+const handleQRCode = (value: string | null, nfceHosts: string[]) => {
   if (!value) return null;
-  if (value.indexOf('nfce.fazenda.mg.gov.br') < 0) {
+  if (nfceHosts.indexOf(getHost(value)) < 0) {
     // Invalid QRCode
     return 'invalid';
   }
@@ -29,6 +43,16 @@ const handleQRCode = (value: string | null) => {
  */
 export const ModalQrCode: React.FC<ModalQrCodeProps> = ({ onClose, onInvalid, onQrRead }) => {
   const [permission, setPermission] = useState<string>('');
+  const [nfceHosts, setNfceHosts] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Get the hosts of the states with a registered scraper
+    backend
+      .get<string[]>(`/consumptions/nfce-hosts`)
+      .then((response) => setNfceHosts(response.data))
+      .catch((error) => logging.error(error));
+  }, []);
+
   // Check for ios so the user is advised to use another device
   const usingIOS = /(iPad|iPhone|iPod)/g.test(navigator?.userAgent || '');
 
@@ -60,7 +84,7 @@ export const ModalQrCode: React.FC<ModalQrCodeProps> = ({ onClose, onInvalid, on
             }
           }}
           onScan={(item) => {
-            const nfce = handleQRCode(item);
+            const nfce = handleQRCode(item, nfceHosts);
             onInvalid();
             if (nfce) {
               if (nfce !== 'invalid') {
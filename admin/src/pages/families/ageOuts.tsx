@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Card, Typography, Table, Select, Alert } from 'antd';
+import moment from 'moment';
+import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer } from './styles';
+import { AppState } from '../../redux/rootReducer';
+import { AgeOutNotice } from '../../interfaces/dependent';
+import { requestGetAgeOuts } from '../../redux/families/actions';
+
+// Periods available to the notice list
+const monthsList = [1, 3, 6, 12];
+
+/**
+ * List of the dependents that leave the benefits because of the group age limit
+ * @param props component props
+ */
+export const FamiliesAgeOuts: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const [months, setMonths] = useState(3);
+
+  useEffect(() => {
+    dispatch(requestGetAgeOuts(months));
+  }, [dispatch, months]);
+
+  const list = useSelector<AppState, AgeOutNotice[]>(({ familiesReducer }) => familiesReducer.ageOuts);
+  const loading = useSelector<AppState, boolean>(({ familiesReducer }) => familiesReducer.ageOutsLoading);
+  const error = useSelector<AppState, Error | undefined>(({ familiesReducer }) => familiesReducer.ageOutsError);
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>Saídas por idade</Typography.Title>}
+        extra={
+          <Select value={months} onChange={(value: number) => setMonths(value)} style={{ width: 180 }}>
+            {monthsList.map((item) => (
+              <Select.Option key={item} value={item}>
+                {item === 1 ? 'Próximo mês' : `Próximos ${item} meses`}
+              </Select.Option>
+            ))}
+          </Select>
+        }
+      >
+        <Typography.Paragraph type="secondary">
+          Dependentes que passam da idade máxima do grupo da família. Eles recebem os benefícios até o fim do mês
+          indicado e são desativados automaticamente depois disso.
+        </Typography.Paragraph>
+        {error && <Alert message="Ocorreu um erro ao carregar os dependentes" type="error" />}
+        <Table loading={loading} dataSource={list} rowKey="id">
+          <Table.Column title="Dependente" dataIndex="name" />
+          <Table.Column
+            title="Nascimento"
+            dataIndex="birthday"
+            render={(birthday: string) => moment(birthday).format('DD/MM/YYYY')}
+          />
+          <Table.Column
+            title="Família"
+            render={(item: AgeOutNotice) => (
+              <Link to={`/familias/${item.family.id}/info`}>{item.family.responsibleName || item.family.code}</Link>
+            )}
+          />
+          <Table.Column
+            title="Grupo"
+            render={(item: AgeOutNotice) => `${item.group.title} (até ${item.group.maxDependentAge} anos)`}
+          />
+          <Table.Column
+            title="Último mês com benefícios"
+            dataIndex="ageOutDate"
+            render={(ageOutDate: string) => moment(ageOutDate).format('MM/YYYY')}
+          />
+        </Table>
+      </Card>
+    </PageContainer>
+  );
+};
@@ -1,13 +1,14 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Modal, Form, Input, DatePicker, Select, Alert } from 'antd';
 import { RouteComponentProps, useHistory } from 'react-router-dom';
 import yup from '../../utils/yup';
 import { Family } from '../../interfaces/family';
 import { useSelector, useDispatch } from 'react-redux';
 import { AppState } from '../../redux/rootReducer';
-import { familyGroupList } from '../../utils/constraints';
 import locale from 'antd/es/date-picker/locale/pt_BR';
 import { requestSaveFamily } from '../../redux/families/actions';
+import { requestGetGroup } from '../../redux/group/actions';
+import { Group } from '../../interfaces/group';
 import { useFormik } from 'formik';
 import moment from 'moment';
 
@@ -40,8 +41,13 @@ export const FamiliesForm: React.FC<RouteComponentProps<{ id: string }>> = (prop
   const dispatch = useDispatch();
   const isCreating = props.match.params.id === 'criar';
 
+  useEffect(() => {
+    dispatch(requestGetGroup());
+  }, [dispatch]);
+
   // Redux state
   const family = useSelector<AppState, Family | null | undefined>(({ familiesReducer }) => familiesReducer.familyItem);
+  const groups = useSelector<AppState, Group[]>(({ groupReducer }) => groupReducer.list as Group[]);
 
   const {
     handleSubmit,
@@ -118,9 +124,9 @@ export const FamiliesForm: React.FC<RouteComponentProps<{ id: string }>> = (prop
                 setFieldTouched('groupId', true);
               }}
             >
-              {Object.keys(familyGroupList).map((item) => (
-                <Option key={item} value={item}>
-                  {familyGroupList[item].title}
+              {groups.map((item) => (
+                <Option key={item.id} value={Number(item.id).toString()}>
+                  {item.title}
                 </Option>
               ))}
             </Select>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Typography } from 'antd';
+import moment from 'moment';
+import { FamilyGroupExplanation } from '../../interfaces/family';
+import { eligibilityFieldList, eligibilityOperatorList, formatEligibilityValue } from '../groups/rules';
+
+/**
+ * Show which eligibility rule put the family on its group
+ * @param props component props
+ */
+export const GroupExplanation: React.FC<{ explanation?: FamilyGroupExplanation | null }> = ({ explanation }) => {
+  if (!explanation)
+    return <Typography.Text type="secondary">Grupo definido sem as regras de elegibilidade</Typography.Text>;
+
+  const sourceTitle = { import: 'Importação', form: 'Cadastro', manual: 'Escolha manual' }[explanation.source];
+  const evaluatedAt = `${sourceTitle} em ${moment(explanation.evaluatedAt).format('DD/MM/YYYY HH:mm')}`;
+
+  if (explanation.source === 'manual') {
+    return (
+      <>
+        <Typography.Text strong>{`${explanation.groupTitle} - escolhido no cadastro da família`}</Typography.Text>
+        <br />
+        <Typography.Text>
+          As regras de elegibilidade só são avaliadas de novo quando os dados usados por elas mudam
+        </Typography.Text>
+        <br />
+        <Typography.Text type="secondary">{evaluatedAt}</Typography.Text>
+      </>
+    );
+  }
+
+  if (explanation.groupId === null) {
+    return (
+      <>
+        <Typography.Text>Nenhuma regra de elegibilidade atendida, o grupo selecionado foi mantido</Typography.Text>
+        <br />
+        <Typography.Text type="secondary">{evaluatedAt}</Typography.Text>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Typography.Text strong>
+        {`${explanation.groupTitle} - regra ${(explanation.ruleIndex || 0) + 1}${
+          explanation.ruleDescription ? ` (${explanation.ruleDescription})` : ''
+        }`}
+      </Typography.Text>
+      {explanation.conditions.map((condition, index) => (
+        <div key={index}>
+          {`${eligibilityFieldList[condition.field]} ${
+            eligibilityOperatorList[condition.operator]
+          } ${formatEligibilityValue(condition.value)} (família: ${formatEligibilityValue(condition.actual)})`}
+        </div>
+      ))}
+      <Typography.Text type="secondary">{evaluatedAt}</Typography.Text>
+    </>
+  );
+};
@@ -1,4 +1,4 @@
-import { IdcardOutlined, TeamOutlined, DownloadOutlined } from '@ant-design/icons';
+import { IdcardOutlined, TeamOutlined, DownloadOutlined, RedoOutlined, CheckOutlined } from '@ant-design/icons';
 import {
   Descriptions,
   // List,
@@ -13,7 +13,8 @@ import {
   Row,
   Statistic,
   Tag,
-  Progress
+  Progress,
+  Checkbox
 } from 'antd';
 import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
@@ -23,7 +24,8 @@ import {
   requestStartImportReportSync,
   requestUploadSislameFile,
   requestGetFileFamilies,
-  requestUploadFamilyUpdateFile
+  requestUploadFamilyUpdateFile,
+  requestRunStoredImport
 } from '../../redux/families/actions';
 import { AppState } from '../../redux/rootReducer';
 import { PageContainer, ColAlignRight, CounterItem } from './styles';
@@ -32,7 +34,7 @@ import { DashboardFamily } from '../../interfaces/dashboardFamily';
 import moment from 'moment';
 import { FamilySearch } from '../../components/familySearch';
 import { spacing } from '../../styles/theme';
-import { ImportReport } from '../../interfaces/family';
+import { ImportReport, ImportUploadResult } from '../../interfaces/family';
 import { backend } from '../../utils/networking';
 import { formatMoney } from '../../utils/string';
 
@@ -53,6 +55,9 @@ export const FamiliesList: React.FC<{}> = () => {
   const importReportLoading = useSelector<AppState, boolean>(
     ({ familiesReducer }) => familiesReducer.importReportLoading
   );
+  const importDryRun = useSelector<AppState, ImportUploadResult | undefined>(
+    ({ familiesReducer }) => familiesReducer.importDryRun
+  );
 
   const fileFamily = useSelector<AppState, File | null | undefined>(
     ({ familiesReducer }) => familiesReducer.fileFamily
@@ -66,6 +71,7 @@ export const FamiliesList: React.FC<{}> = () => {
   const [familyFile, setFamilyFile] = useState<File | null>(null);
   const [sislameFile, setSislameFile] = useState<File | null>(null);
   const [nurseryFile, setNurseryFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState<boolean>(false);
 
   useEffect(() => {
     if (fileFamily) {
@@ -83,12 +89,12 @@ export const FamiliesList: React.FC<{}> = () => {
    */
   useEffect(() => {
     if (familyFile && sislameFile && nurseryFile) {
-      dispatch(requestUploadSislameFile(familyFile, sislameFile, nurseryFile));
+      dispatch(requestUploadSislameFile(familyFile, sislameFile, nurseryFile, dryRun));
       setFamilyFile(null);
       setSislameFile(null);
       setNurseryFile(null);
     }
-  }, [dispatch, familyFile, sislameFile, nurseryFile]);
+  }, [dispatch, familyFile, sislameFile, nurseryFile, dryRun]);
 
   useEffect(() => {
     dispatch(requestGetDashboardFamily());
@@ -212,6 +218,13 @@ export const FamiliesList: React.FC<{}> = () => {
                 style={{ marginBottom: spacing.default }}
               />
             )}
+            <Checkbox
+              checked={dryRun}
+              onChange={(event) => setDryRun(event.target.checked)}
+              style={{ marginBottom: spacing.default }}
+            >
+              Simular a importação e revisar as alterações antes de salvar
+            </Checkbox>
             <>
               <Spin spinning={loading || importReport?.inProgress}>
                 <Flex full gap>
@@ -287,6 +300,39 @@ export const FamiliesList: React.FC<{}> = () => {
           </Card>
         </Col>
       </Row>
+      {importDryRun?.diff && (
+        <Row gutter={[16, 16]}>
+          <Col span={24}>
+            <Card title="Simulação da importação">
+              <Descriptions bordered size="small" column={1} style={{ marginBottom: spacing.default }}>
+                <Descriptions.Item label="Famílias que serão criadas">
+                  <CounterItem>{importDryRun.diff.families.create.length}</CounterItem>
+                </Descriptions.Item>
+                <Descriptions.Item label="Famílias que serão atualizadas">
+                  <CounterItem>{importDryRun.diff.families.update.length}</CounterItem>
+                </Descriptions.Item>
+                <Descriptions.Item label="Famílias que serão desativadas">
+                  <CounterItem>{importDryRun.diff.families.deactivate.length}</CounterItem>
+                </Descriptions.Item>
+                <Descriptions.Item label="Dependentes que serão adicionados">
+                  <CounterItem>{importDryRun.diff.dependents.add.length}</CounterItem>
+                </Descriptions.Item>
+                <Descriptions.Item label="Dependentes que serão removidos">
+                  <CounterItem>{importDryRun.diff.dependents.remove.length}</CounterItem>
+                </Descriptions.Item>
+              </Descriptions>
+              <Button
+                type="primary"
+                icon={<CheckOutlined />}
+                disabled={importReport?.inProgress}
+                onClick={() => importDryRun.id && dispatch(requestRunStoredImport(importDryRun.id, 'commit'))}
+              >
+                Aprovar importação
+              </Button>
+            </Card>
+          </Col>
+        </Row>
+      )}
       {importReport && (
         <Row gutter={[16, 16]}>
           <Col span={24}>
@@ -359,6 +405,9 @@ export const FamiliesList: React.FC<{}> = () => {
                 <Descriptions.Item label="Dependentes com 14 anos ou menos removidos">
                   <CounterItem>{importReport.fourteenOrLessFilteredCount}</CounterItem>
                 </Descriptions.Item>
+                <Descriptions.Item label="Famílias sem grupo elegível">
+                  <CounterItem>{importReport.notEligibleFamilyCount}</CounterItem>
+                </Descriptions.Item>
               </Descriptions>
               <Descriptions bordered size="small" column={1} style={{ marginBottom: spacing.default }}>
                 <Descriptions.Item label="Dependentes beneficiados">
@@ -414,11 +463,20 @@ export const FamiliesList: React.FC<{}> = () => {
                   Baixar lista de famílias e saldos
                 </Button>
 
-                {!importReport.inProgress && !importReport.message && (
+                {!importReport.inProgress && importReport.status === 'Falhou' && importReport.id && (
+                  <Button
+                    icon={<RedoOutlined />}
+                    onClick={() => importReport.id && dispatch(requestRunStoredImport(importReport.id, 'retry'))}
+                  >
+                    Tentar importar novamente
+                  </Button>
+                )}
+
+                {!importReport.inProgress && !importReport.message && importReport.id && (
                   <Button
                     icon={<DownloadOutlined />}
                     onClick={() =>
-                      backend.get(`/static/reason_${importReport.cityId}.csv`).then((response) => {
+                      backend.get(`/families/imports/${importReport.id}/reason-file`).then((response) => {
                         const url = window.URL.createObjectURL(new Blob([response.data]));
                         const link = document.createElement('a');
                         link.href = url;
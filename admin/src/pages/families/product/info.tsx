@@ -15,6 +15,7 @@ import { requestGetConsumptionFamily } from '../../../redux/consumption/actions'
 import { Consumption } from '../../../interfaces/consumption';
 import { CameraOutlined } from '@ant-design/icons';
 import { requestGetFamily } from '../../../redux/families/actions';
+import { GroupExplanation } from '../groupExplanation';
 
 /**
  * Families Info page
@@ -90,6 +91,9 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
               <Descriptions.Item label="Registrado pessoalmente">
                 {family?.isRegisteredInPerson ? 'Sim' : 'Não'}
               </Descriptions.Item>
+              <Descriptions.Item label="Motivo do grupo" span={4}>
+                <GroupExplanation explanation={family?.groupExplanation} />
+              </Descriptions.Item>
             </Descriptions>
           </Card>
         </Col>
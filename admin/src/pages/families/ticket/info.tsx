@@ -1,16 +1,25 @@
 import React, { useState } from 'react';
 import { PageContainer } from './styles';
-import { List, Card, Row, Col, Typography, Descriptions, Button, Modal, Input } from 'antd';
+import { List, Card, Row, Col, Typography, Descriptions, Button, Modal, Input, Tag, Tooltip } from 'antd';
 import { AppState } from '../../../redux/rootReducer';
 import { useSelector, useDispatch } from 'react-redux';
 import { Family } from '../../../interfaces/family';
-import { RouteComponentProps, useHistory } from 'react-router-dom';
+import { Link, RouteComponentProps, useHistory } from 'react-router-dom';
 import moment from 'moment';
 import { formatMoney } from '../../../utils/string';
 import { requestGetConsumptionFamily, requestDeleteConsumption } from '../../../redux/consumption/actions';
 import { Consumption } from '../../../interfaces/consumption';
-import { CameraOutlined, DeleteOutlined, ExclamationCircleOutlined, QuestionCircleOutlined } from '@ant-design/icons';
+import {
+  CameraOutlined,
+  DeleteOutlined,
+  DollarOutlined,
+  ExclamationCircleOutlined,
+  FileTextOutlined,
+  QuestionCircleOutlined
+} from '@ant-design/icons';
 import { requestGetFamily } from '../../../redux/families/actions';
+import { AdjustmentRequestModal } from '../../adjustments/requestModal';
+import { GroupExplanation } from '../groupExplanation';
 
 /**
  * Families Info page
@@ -31,6 +40,7 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
   const [deleteReason, setDeleteReason] = useState<string>('');
   const [reasonModal, setReasonModal] = useState<ReturnType<Modal['confirm']> | null>(null);
   const [deletingId, setDeletingId] = useState<Consumption['id']>();
+  const [requestingAdjustment, setRequestingAdjustment] = useState(false);
 
   React.useEffect(() => {
     if (reasonModal && deletingId && family) {
@@ -76,7 +86,24 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
     <PageContainer>
       <Row gutter={[16, 16]}>
         <Col span={24}>
-          <Card loading={familyLoading} title={<Typography.Title>Família</Typography.Title>}>
+          <Card
+            loading={familyLoading}
+            title={<Typography.Title>Família</Typography.Title>}
+            extra={
+              <>
+                <Button onClick={() => setRequestingAdjustment(true)}>
+                  <DollarOutlined />
+                  Solicitar ajuste
+                </Button>{' '}
+                <Link to={`/familias/${props.match.params.id}/extrato`}>
+                  <Button>
+                    <FileTextOutlined />
+                    Extrato
+                  </Button>
+                </Link>
+              </>
+            }
+          >
             <Descriptions column={2} layout="vertical">
               <Descriptions.Item label="NIS do responsável">{family?.responsibleNis}</Descriptions.Item>
               <Descriptions.Item label="Nome do responsável">{family?.responsibleName}</Descriptions.Item>
@@ -88,6 +115,9 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
               <Descriptions.Item label="Incluido em">
                 {moment(family?.createdAt || '').format('DD/MM/YYYY')}
               </Descriptions.Item>
+              <Descriptions.Item label="Motivo do grupo" span={2}>
+                <GroupExplanation explanation={family?.groupExplanation} />
+              </Descriptions.Item>
             </Descriptions>
           </Card>
         </Col>
@@ -130,9 +160,28 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
                 <List.Item>
                   <List.Item.Meta
                     title={`Consumo informado em ${moment(item.createdAt || moment()).format('DD/MM/YYYY HH:mm')}`}
-                    description={`Valor total: R$${formatMoney(item.value)} - Valor inválido: R$${formatMoney(
-                      item.invalidValue
-                    )}`}
+                    description={
+                      <>
+                        {`Valor total: R$${formatMoney(item.value)} - Valor inválido: R$${formatMoney(
+                          item.invalidValue
+                        )}`}
+                        {item.nfce && item.scrapeLastError && (
+                          <div>
+                            <Tooltip title={item.scrapeLastError}>
+                              {item.scrapeGaveUpAt ? (
+                                <Tag color="red">{`Leitura da nota abandonada após ${item.scrapeAttempts} tentativas`}</Tag>
+                              ) : (
+                                <Tag color="orange">
+                                  {`Leitura da nota falhou ${item.scrapeAttempts} vez(es), nova tentativa em ${moment(
+                                    item.scrapeNextAttemptAt || moment()
+                                  ).format('DD/MM/YYYY')}`}
+                                </Tag>
+                              )}
+                            </Tooltip>
+                          </div>
+                        )}
+                      </>
+                    }
                   />
 
                   {item?.proofImageUrl && (
@@ -193,6 +242,11 @@ export const FamiliesInfo: React.FC<RouteComponentProps<{ id: string }>> = (prop
           </Card>
         </Col>
       </Row>
+      <AdjustmentRequestModal
+        visible={requestingAdjustment}
+        familyId={props.match.params.id}
+        onClose={() => setRequestingAdjustment(false)}
+      />
     </PageContainer>
   );
 };
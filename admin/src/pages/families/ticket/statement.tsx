@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Alert, Button, Card, Col, DatePicker, Descriptions, Form, Row, Table, Tag, Typography } from 'antd';
+import locale from 'antd/es/date-picker/locale/pt_BR';
+import moment, { Moment } from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { RouteComponentProps } from 'react-router-dom';
+import { PageContainer, ActionWrapper } from './styles';
+import { PrintableBodyWrapper } from '../../report/styles';
+import { AppState } from '../../../redux/rootReducer';
+import { Family, FamilyStatement, StatementLine, StatementLineType } from '../../../interfaces/family';
+import { requestGetFamily, requestGetFamilyStatement } from '../../../redux/families/actions';
+import { formatMoney } from '../../../utils/string';
+
+const typeList: { [key in StatementLineType]: { name: string; color: string } } = {
+  benefit: { name: 'Benefício', color: 'green' },
+  'benefit-correction': { name: 'Correção de benefício', color: 'gold' },
+  consumption: { name: 'Consumo', color: 'blue' },
+  'consumption-reversal': { name: 'Estorno de consumo', color: 'cyan' },
+  'invalid-value': { name: 'Desconto de produtos inválidos', color: 'red' },
+  adjustment: { name: 'Ajuste manual', color: 'purple' },
+  deactivation: { name: 'Desativação', color: 'orange' }
+};
+
+/**
+ * Description of a statement line
+ * @param line statement line
+ * @returns text shown on the line
+ */
+const lineDescription = (line: StatementLine) => {
+  if (line.type === 'deactivation') {
+    return line.dependentName ? `Dependente ${line.dependentName} desativado` : 'Família desativada';
+  }
+  const parts = [
+    line.description,
+    line.dependentName ? `Dependente: ${line.dependentName}` : null,
+    line.consumptionId ? `Consumo #${line.consumptionId}` : null
+  ];
+  return parts.filter((part) => part).join(' - ');
+};
+
+/**
+ * Family statement page, with the running balance
+ * @param props component props
+ */
+export const FamiliesStatement: React.FC<RouteComponentProps<{ id: string }>> = (props) => {
+  const dispatch = useDispatch();
+  const id = props.match.params.id;
+
+  const family = useSelector<AppState, Family | undefined>(({ familiesReducer }) =>
+    familiesReducer?.list?.find((item) => item.id === Number(id))
+  );
+  const statement = useSelector<AppState, FamilyStatement | undefined>(
+    ({ familiesReducer }) => familiesReducer.statement
+  );
+  const loading = useSelector<AppState, boolean>(({ familiesReducer }) => familiesReducer.statementLoading);
+  const error = useSelector<AppState, Error | undefined>(({ familiesReducer }) => familiesReducer.statementError);
+
+  // Current month by default
+  const [range, setRange] = useState<[Moment | null, Moment | null] | null>([
+    moment().startOf('month'),
+    moment().endOf('month')
+  ]);
+
+  /**
+   * Request the statement of the selected period
+   */
+  const search = () => {
+    dispatch(
+      requestGetFamilyStatement(
+        id,
+        range && range[0] ? range[0].format('YYYY-MM-DD') : undefined,
+        range && range[1] ? range[1].format('YYYY-MM-DD') : undefined
+      )
+    );
+  };
+
+  React.useEffect(() => {
+    dispatch(requestGetFamily(undefined, undefined, id));
+    search();
+    // Only on the first render, the next requests are made by the filter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dispatch, id]);
+
+  const isCurrentStatement = statement && `${statement.familyId}` === `${id}`;
+
+  return (
+    <PageContainer>
+      <PrintableBodyWrapper>
+        <Card
+          title={<Typography.Title>{`Extrato da família`}</Typography.Title>}
+          extra={
+            <Button className="no-print" onClick={() => window.print()}>
+              Imprimir
+            </Button>
+          }
+        >
+          <Descriptions column={2}>
+            <Descriptions.Item label="Responsável">{family?.responsibleName}</Descriptions.Item>
+            <Descriptions.Item label="NIS do responsável">{family?.responsibleNis}</Descriptions.Item>
+            <Descriptions.Item label="Período">
+              {range && range[0] ? range[0].format('DD/MM/YYYY') : 'Início'}
+              {' a '}
+              {range && range[1] ? range[1].format('DD/MM/YYYY') : 'Hoje'}
+            </Descriptions.Item>
+          </Descriptions>
+          <Form layout="vertical" className="no-print" onFinish={search}>
+            <Row gutter={[16, 16]}>
+              <Col span={8}>
+                <Form.Item label="Período">
+                  <DatePicker.RangePicker
+                    style={{ width: '100%' }}
+                    locale={locale}
+                    format={'DD/MM/YYYY'}
+                    allowEmpty={[true, true]}
+                    value={range}
+                    onChange={(value) => setRange(value as [Moment | null, Moment | null] | null)}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={16}>
+                <ActionWrapper style={{ height: '100%' }}>
+                  <Button type="primary" htmlType="submit">
+                    Filtrar
+                  </Button>
+                </ActionWrapper>
+              </Col>
+            </Row>
+          </Form>
+          {error && <Alert message="Não foi possível carregar o extrato." type="error" />}
+          {isCurrentStatement && statement && (
+            <Descriptions column={4} bordered size="small">
+              <Descriptions.Item label="Saldo anterior">{`R$${formatMoney(
+                statement.openingBalance
+              )}`}</Descriptions.Item>
+              <Descriptions.Item label="Créditos">{`R$${formatMoney(statement.credits)}`}</Descriptions.Item>
+              <Descriptions.Item label="Débitos">{`R$${formatMoney(statement.debits)}`}</Descriptions.Item>
+              <Descriptions.Item label="Saldo final">{`R$${formatMoney(statement.closingBalance)}`}</Descriptions.Item>
+            </Descriptions>
+          )}
+          <Table
+            loading={loading}
+            dataSource={isCurrentStatement ? statement?.lines : []}
+            rowKey={(line, index) => `${line.type}-${line.date}-${index}`}
+            pagination={false}
+            locale={{ emptyText: 'Nenhuma movimentação no período' }}
+          >
+            <Table.Column
+              title="Data"
+              dataIndex="date"
+              render={(date: string) => moment(date).format('DD/MM/YYYY HH:mm')}
+            />
+            <Table.Column
+              title="Tipo"
+              dataIndex="type"
+              render={(type: StatementLineType) => (
+                <Tag color={typeList[type]?.color}>{typeList[type]?.name || type}</Tag>
+              )}
+            />
+            <Table.Column title="Descrição" render={(line: StatementLine) => lineDescription(line)} />
+            <Table.Column
+              title="Valor"
+              align="right"
+              dataIndex="value"
+              render={(value: number) => (value ? `R$${formatMoney(value)}` : '-')}
+            />
+            <Table.Column
+              title="Saldo"
+              align="right"
+              dataIndex="balance"
+              render={(balance: number) => `R$${formatMoney(balance)}`}
+            />
+          </Table>
+        </Card>
+      </PrintableBodyWrapper>
+    </PageContainer>
+  );
+};
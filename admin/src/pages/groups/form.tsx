@@ -1,5 +1,5 @@
 import React from 'react';
-import { Form, Modal, Alert, Input } from 'antd';
+import { Form, Modal, Alert, Input, InputNumber } from 'antd';
 import { RouteComponentProps, useHistory } from 'react-router-dom';
 import { useFormik } from 'formik';
 import yup from '../../utils/yup';
@@ -10,7 +10,8 @@ import { Group } from '../../interfaces/group';
 import { requestSaveGroup } from '../../redux/group/actions';
 
 const schema = yup.object().shape({
-  title: yup.string().label('Nome').required()
+  title: yup.string().label('Nome').required(),
+  maxDependentAge: yup.number().label('Idade máxima dos dependentes').nullable().integer().min(0)
 });
 
 /**
@@ -28,9 +29,10 @@ export const GroupForm: React.FC<RouteComponentProps<{ id: string }>> = (props)
   );
   const loading = useSelector<AppState, boolean>(({ groupReducer }) => groupReducer.loading);
 
-  const { handleChange, values, getFieldMeta, submitForm, status, errors, touched } = useFormik({
+  const { handleChange, setFieldValue, values, getFieldMeta, submitForm, status, errors, touched } = useFormik({
     initialValues: group || {
-      title: ''
+      title: '',
+      maxDependentAge: null
     },
     validationSchema: schema,
     onSubmit: (values, { setStatus }) => {
@@ -46,6 +48,7 @@ export const GroupForm: React.FC<RouteComponentProps<{ id: string }>> = (props)
   });
 
   const titleMeta = getFieldMeta('title');
+  const maxDependentAgeMeta = getFieldMeta('maxDependentAge');
 
   return (
     <Modal
@@ -61,6 +64,24 @@ export const GroupForm: React.FC<RouteComponentProps<{ id: string }>> = (props)
         <Form.Item label={'Titulo'} validateStatus={formValidation(titleMeta)} help={formHelper(titleMeta)}>
           <Input id="title" name="title" onChange={handleChange} value={values.title} onPressEnter={submitForm} />
         </Form.Item>
+        <Form.Item
+          label="Idade máxima dos dependentes"
+          validateStatus={formValidation(maxDependentAgeMeta)}
+          help={
+            formHelper(maxDependentAgeMeta) ||
+            'Os dependentes deixam de receber os benefícios no fim do mês em que passam dessa idade. A alteração vale a partir do próximo mês.'
+          }
+        >
+          <InputNumber
+            id="maxDependentAge"
+            style={{ width: '100%' }}
+            min={0}
+            precision={0}
+            placeholder="Sem limite"
+            value={values.maxDependentAge ?? undefined}
+            onChange={(value) => setFieldValue('maxDependentAge', typeof value === 'number' ? value : null)}
+          />
+        </Form.Item>
       </Form>
     </Modal>
   );
@@ -34,10 +34,26 @@ export const GroupList: React.FC<{}> = () => {
       >
         <Table loading={loading} dataSource={list} rowKey="id">
           <Table.Column title="Nome" dataIndex="title" />
+          <Table.Column title="Prioridade" dataIndex="priority" />
+          <Table.Column
+            title="Idade máxima dos dependentes"
+            render={(item: Group) =>
+              item.maxDependentAge === null || item.maxDependentAge === undefined
+                ? 'Sem limite'
+                : `${item.maxDependentAge} anos`
+            }
+          />
+          <Table.Column
+            title="Regras de elegibilidade"
+            render={(item: Group) => item.eligibilityRules?.length || 'Nenhuma'}
+          />
           <Table.Column
             render={(item: Group) => {
               return (
                 <ActionWrapper>
+                  <Link to={`/grupos/${item.id}/regras`}>
+                    <Button>Regras</Button>
+                  </Link>
                   <Link to={`/grupos/${item.id}/editar`}>
                     <Button>Editar</Button>
                   </Link>
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Card, Col, Form, Input, InputNumber, Modal, Radio, Row, Select, Typography } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { RouteComponentProps, useHistory } from 'react-router-dom';
+import { EligibilityCondition, EligibilityField, EligibilityOperator, Group } from '../../interfaces/group';
+import { requestGetGroup, requestSaveGroup } from '../../redux/group/actions';
+import { AppState } from '../../redux/rootReducer';
+
+export const eligibilityFieldList: { [field in EligibilityField]: string } = {
+  incomeBand: 'Faixa de renda do CadÚnico',
+  perCapitaIncome: 'Renda per capita (R$)',
+  dependentsCount: 'Número de dependentes',
+  youngestDependentAge: 'Idade do dependente mais novo',
+  oldestDependentAge: 'Idade do dependente mais velho',
+  schoolEnrolledCount: 'Dependentes matriculados na escola',
+  isOnGovernProgram: 'Participa de programa do governo'
+};
+
+export const eligibilityOperatorList: { [operator in EligibilityOperator]: string } = {
+  eq: 'igual a',
+  ne: 'diferente de',
+  lt: 'menor que',
+  lte: 'menor ou igual a',
+  gt: 'maior que',
+  gte: 'maior ou igual a',
+  in: 'um de'
+};
+
+/**
+ * Format a rule value to be shown to the user
+ * @param value condition value or the family value
+ * @returns text of the value
+ */
+export const formatEligibilityValue = (value: EligibilityCondition['value'] | null) => {
+  if (value === null || value === undefined) return 'não informado';
+  if (typeof value === 'boolean') return value ? 'sim' : 'não';
+  return Array.isArray(value) ? value.join(', ') : `${value}`;
+};
+
+/**
+ * Edit the eligibility rules and the priority of a group, used to assign the families on import and edit
+ * @param props component props
+ */
+export const GroupRulesForm: React.FC<RouteComponentProps<{ id: string }>> = (props) => {
+  const history = useHistory();
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+  const [status, setStatus] = useState<string>();
+
+  useEffect(() => {
+    dispatch(requestGetGroup());
+  }, [dispatch]);
+
+  const group = useSelector<AppState, Group | undefined>(({ groupReducer }) =>
+    groupReducer.list.find((item) => `${item.id}` === props.match.params.id)
+  );
+  const loading = useSelector<AppState, boolean>(({ groupReducer }) => groupReducer.loading);
+
+  useEffect(() => {
+    if (group) {
+      form.setFieldsValue({ priority: group.priority || 0, eligibilityRules: group.eligibilityRules || [] });
+    }
+  }, [form, group]);
+
+  /**
+   * Save the group with the form rules
+   * @param values form values
+   */
+  const onFinish = (values: Pick<Group, 'priority' | 'eligibilityRules'>) => {
+    if (!group) return;
+    setStatus(undefined);
+    const eligibilityRules = (values.eligibilityRules || []).map((rule) => ({
+      ...rule,
+      conditions: (rule.conditions || []).map((condition) => ({
+        ...condition,
+        value: Array.isArray(condition.value) ? condition.value.map(Number) : condition.value
+      }))
+    }));
+    dispatch(
+      requestSaveGroup(
+        { id: group.id, title: group.title, priority: values.priority, eligibilityRules },
+        () => history.push('/grupos'),
+        (error?: Error & { response?: { data?: unknown } }) =>
+          setStatus(
+            typeof error?.response?.data === 'string'
+              ? error.response.data
+              : 'Ocorreu um erro ao realizar a requisição.'
+          )
+      )
+    );
+  };
+
+  return (
+    <Modal
+      title={`Regras de elegibilidade${group ? ` - ${group.title}` : ''}`}
+      visible={true}
+      width={800}
+      okText="Salvar"
+      cancelText="Cancelar"
+      confirmLoading={loading}
+      onOk={() => form.submit()}
+      onCancel={() => history.push('/grupos')}
+    >
+      {status && <Alert message="Erro no formulário" description={status} type="error" />}
+      <Typography.Paragraph type="secondary">
+        A família entra no primeiro grupo, em ordem de prioridade, com alguma regra em que todas as condições são
+        atendidas. Grupos sem regras não são atribuídos automaticamente.
+      </Typography.Paragraph>
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={(values) => onFinish(values as Pick<Group, 'priority' | 'eligibilityRules'>)}
+      >
+        <Form.Item
+          label="Prioridade"
+          name="priority"
+          extra="Os grupos com menor prioridade são avaliados primeiro"
+          rules={[{ required: true, message: 'Campo obrigatório' }]}
+        >
+          <InputNumber style={{ width: '100%' }} precision={0} />
+        </Form.Item>
+        <Form.List name="eligibilityRules">
+          {(rules, { add: addRule, remove: removeRule }) => (
+            <>
+              {rules.map((rule, ruleIndex) => (
+                <Card
+                  key={rule.key}
+                  size="small"
+                  title={`Regra ${ruleIndex + 1}`}
+                  extra={<MinusCircleOutlined onClick={() => removeRule(rule.name)} />}
+                  style={{ marginBottom: 16 }}
+                >
+                  <Form.Item name={[rule.name, 'description']}>
+                    <Input placeholder="Descrição" />
+                  </Form.Item>
+                  <Form.List name={[rule.name, 'conditions']}>
+                    {(conditions, { add: addCondition, remove: removeCondition }) => (
+                      <>
+                        {conditions.map((condition) => (
+                          <Row key={condition.key} gutter={8}>
+                            <Col span={9}>
+                              <Form.Item
+                                name={[condition.name, 'field']}
+                                rules={[{ required: true, message: 'Campo obrigatório' }]}
+                              >
+                                <Select placeholder="Campo">
+                                  {Object.entries(eligibilityFieldList).map(([key, name]) => (
+                                    <Select.Option key={key} value={key}>
+                                      {name}
+                                    </Select.Option>
+                                  ))}
+                                </Select>
+                              </Form.Item>
+                            </Col>
+                            <Col span={6}>
+                              <Form.Item
+                                name={[condition.name, 'operator']}
+                                rules={[{ required: true, message: 'Campo obrigatório' }]}
+                              >
+                                <Select placeholder="Operador">
+                                  {Object.entries(eligibilityOperatorList).map(([key, name]) => (
+                                    <Select.Option key={key} value={key}>
+                                      {name}
+                                    </Select.Option>
+                                  ))}
+                                </Select>
+                              </Form.Item>
+                            </Col>
+                            <Col span={7}>
+                              <Form.Item noStyle shouldUpdate>
+                                {() => {
+                                  const path = ['eligibilityRules', rule.name, 'conditions', condition.name];
+                                  const { field, operator } = (form.getFieldValue(path) || {}) as Partial<
+                                    EligibilityCondition
+                                  >;
+                                  return (
+                                    <Form.Item
+                                      name={[condition.name, 'value']}
+                                      rules={[{ required: true, message: 'Campo obrigatório' }]}
+                                    >
+                                      {field === 'isOnGovernProgram' ? (
+                                        <Radio.Group>
+                                          <Radio value={true}>Sim</Radio>
+                                          <Radio value={false}>Não</Radio>
+                                        </Radio.Group>
+                                      ) : operator === 'in' ? (
+                                        <Select mode="tags" placeholder="Valores" />
+                                      ) : (
+                                        <InputNumber style={{ width: '100%' }} placeholder="Valor" />
+                                      )}
+                                    </Form.Item>
+                                  );
+                                }}
+                              </Form.Item>
+                            </Col>
+                            <Col span={2}>
+                              <MinusCircleOutlined onClick={() => removeCondition(condition.name)} />
+                            </Col>
+                          </Row>
+                        ))}
+                        <Button type="dashed" onClick={() => addCondition()} block icon={<PlusOutlined />}>
+                          Adicionar condição
+                        </Button>
+                      </>
+                    )}
+                  </Form.List>
+                </Card>
+              ))}
+              <Form.Item>
+                <Button type="dashed" onClick={() => addRule({ conditions: [{}] })} block icon={<PlusOutlined />}>
+                  Adicionar regra
+                </Button>
+              </Form.Item>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  );
+};
@@ -34,10 +34,27 @@ import { FamiliesInfo as FamiliesInfoProduct } from './families/product/info';
 import { FamiliesForm as FamiliesFormTicket } from './families/ticket/form';
 import { FamiliesList as FamiliesListTicket } from './families/ticket/list';
 import { FamiliesInfo as FamiliesInfoTicket } from './families/ticket/info';
+import { FamiliesStatement } from './families/ticket/statement';
+import { FamiliesAgeOuts } from './families/ageOuts';
 import { GroupList } from './groups/list';
 import { GroupForm } from './groups/form';
+import { GroupRulesForm } from './groups/rules';
+import { ProductCategoryList } from './productCategory/list';
+import { ProductCategoryForm } from './productCategory/form';
+import { AuditLogList } from './audit/list';
+import { ApiClientList } from './apiClients/list';
+import { PublicBlockList } from './publicBlocks/list';
+import { BalanceAdjustmentList } from './adjustments/list';
+import { BenefitPolicyPage } from './benefitPolicies';
+import { StockPage } from './stock';
+import { BenefitProgramList } from './benefitPrograms/list';
+import { BenefitProgramForm } from './benefitPrograms/form';
+import { ProgramOccurrenceList } from './benefitPrograms/occurrences';
+import { ForgotPasswordPage } from './password/forgot';
+import { ResetPasswordPage } from './password/reset';
+import { ChangePasswordPage } from './password/change';
 
-import { Role } from '../utils/constraints';
+import { isRoleAllowed, Role } from '../utils/constraints';
 import { env } from '../env';
 
 // Application consumption type
@@ -57,7 +74,7 @@ const Route: React.FC<RouteProps> = ({ allowedRole, specificToType, ...props })
 
   // Only show the route if the user is allowed to see it
   const allowedRoles = (allowedRole && !Array.isArray(allowedRole) ? [allowedRole] : allowedRole) as Role[] | undefined;
-  if ((allowedRoles && user && allowedRoles.indexOf(user.role as Role) === -1) || (allowedRoles && !user)) return null;
+  if (allowedRoles && !isRoleAllowed(allowedRoles, user?.role as Role | undefined)) return null;
 
   return <RouterRoute {...props} />;
 };
@@ -75,6 +92,18 @@ const PrivateRouter: React.FC<{}> = () => {
         <Route path="/logout" component={LogoutPage} />
         {/* Product routes */}
         <Route path="/validar" component={ProductValidationList} specificToType="ticket" />
+        <Route
+          path="/categorias-produtos"
+          component={ProductCategoryList}
+          allowedRole="superadmin"
+          specificToType="ticket"
+        />
+        <Route
+          path="/categorias-produtos/:id"
+          component={ProductCategoryForm}
+          allowedRole="superadmin"
+          specificToType="ticket"
+        />
         <Route path="/produtos" component={ProductList} allowedRole="admin" specificToType="product" />
         <Route path="/produtos/:id" component={ProductForm} allowedRole="admin" specificToType="product" />
         {/* Report routes */}
@@ -95,11 +124,21 @@ const PrivateRouter: React.FC<{}> = () => {
         <Route path="/grupos-de-entidades" component={PlaceList} allowedRole="admin" specificToType="product" />
         <Route path="/grupos-de-entidades/:id" component={PlaceForm} allowedRole="admin" specificToType="product" />
         {/* Group routes */}
-        <Route path="/grupos" component={GroupList} allowedRole="admin" specificToType="product" />
-        <Route path="/grupos/:id" component={GroupForm} allowedRole="admin" specificToType="product" />
+        <Route path="/grupos" component={GroupList} allowedRole="admin" />
+        <Route exact path="/grupos/:id" component={GroupForm} allowedRole="admin" />
+        <Route exact path="/grupos/:id/editar" component={GroupForm} allowedRole="admin" />
+        <Route exact path="/grupos/:id/regras" component={GroupRulesForm} allowedRole="admin" />
         {/* Benefit routes */}
         <Route path="/beneficios" component={BenefitList} allowedRole="admin" />
         <Route path="/beneficios/:id" component={BenefitForm} allowedRole="admin" />
+        {/* Benefit program routes */}
+        <Route path="/programas" component={BenefitProgramList} allowedRole={['admin', 'financial']} />
+        <Route exact path="/programas/:id" component={BenefitProgramForm} allowedRole="admin" />
+        <Route
+          path="/programas/:id/ocorrencias"
+          component={ProgramOccurrenceList}
+          allowedRole={['admin', 'financial']}
+        />
         {/* PlaceStore routes */}
         <Route path="/entidades" component={PlaceStoreList} allowedRole="admin" specificToType="product" />
         <Route path="/entidades/:id" component={PlaceStoreForm} allowedRole="admin" specificToType="product" />
@@ -118,6 +157,7 @@ const PrivateRouter: React.FC<{}> = () => {
         {/* <Route path="/familias/:id" component={FamiliesForm} allowedRole="admin" specificToType="ticket" /> */}
         {/* Families routes product*/}
         <Route exact path="/familias" component={FamiliesListProduct} allowedRole="admin" specificToType="product" />
+        <Route exact path="/familias/saidas-por-idade" component={FamiliesAgeOuts} allowedRole="admin" />
         <Route
           exact
           path="/familias/criar"
@@ -136,8 +176,32 @@ const PrivateRouter: React.FC<{}> = () => {
           component={consumptionType === 'product' ? FamiliesInfoProduct : FamiliesInfoTicket}
           allowedRole="admin"
         />
+        <Route
+          exact
+          path="/familias/:id/extrato"
+          component={FamiliesStatement}
+          allowedRole="admin"
+          specificToType="ticket"
+        />
         {/* Consumptions routes */}
         <Route path="/consumo" component={ConsumptionForm} allowedRole="admin" />
+        {/* Balance adjustments routes */}
+        <Route path="/ajustes" component={BalanceAdjustmentList} allowedRole={['admin', 'financial']} />
+        {/* Stock routes */}
+        <Route path="/estoque" component={StockPage} allowedRole={['admin', 'manager']} specificToType="product" />
+        {/* Benefit policy routes */}
+        <Route
+          path="/regras-beneficio"
+          component={BenefitPolicyPage}
+          allowedRole={['admin', 'financial']}
+          specificToType="ticket"
+        />
+        {/* Audit routes */}
+        <Route path="/auditoria" component={AuditLogList} allowedRole="admin" />
+        {/* API clients routes */}
+        <Route path="/clientes-api" component={ApiClientList} allowedRole="admin" />
+        {/* Portal blocks routes */}
+        <Route path="/bloqueios-portal" component={PublicBlockList} allowedRole="admin" />
         {/* Dashboard */}
         <Route path="/" component={DashboardPage} exact />
       </>
@@ -152,6 +216,8 @@ const PrivateRouter: React.FC<{}> = () => {
 const PublicRouter: React.FC<{}> = () => {
   return (
     <Switch>
+      <Route path="/esqueci-senha" component={ForgotPasswordPage} />
+      <Route path="/redefinir-senha" component={ResetPasswordPage} />
       <Route path="*">
         <LoginPage />
       </Route>
@@ -166,5 +232,9 @@ const PublicRouter: React.FC<{}> = () => {
 export const Router: React.FC<{}> = (props) => {
   const user = useSelector<AppState, User | undefined>((state) => state.authReducer.user);
 
+  if (user?.mustChangePassword) {
+    // The password defined by an admin must be changed before using the system
+    return <ChangePasswordPage />;
+  }
   return <BrowserRouter>{user ? <PrivateRouter {...props} /> : <PublicRouter {...props} />}</BrowserRouter>;
 };
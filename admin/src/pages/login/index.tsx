@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { Card, Input, Button, Form, Typography } from 'antd';
+import { Link } from 'react-router-dom';
 
 import { requestLoginUser, requestLogout } from '../../redux/auth/actions';
 import { AppState } from '../../redux/rootReducer';
@@ -66,6 +67,9 @@ export const LoginPage: React.FC<{}> = () => {
                 Entrar
               </Button>
             </Form.Item>
+            <Form.Item style={{ textAlign: 'center' }}>
+              <Link to="/esqueci-senha">Esqueci minha senha</Link>
+            </Form.Item>
           </Form>
         </FormContainer>
       </Card>
@@ -1,6 +1,6 @@
 import React, { useEffect } from 'react';
 import { useDispatch } from 'react-redux';
-import { doLogoutUser } from '../../redux/auth/actions';
+import { requestLogout } from '../../redux/auth/actions';
 import { useHistory } from 'react-router-dom';
 
 /**
@@ -11,7 +11,7 @@ export const LogoutPage: React.FC = () => {
   const history = useHistory();
 
   useEffect(() => {
-    dispatch(doLogoutUser());
+    dispatch(requestLogout());
     history.push('/');
   }, [dispatch, history]);
 
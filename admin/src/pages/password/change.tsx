@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Alert, Button, Card, Form, Input, Typography } from 'antd';
+import { Logo } from '../../components/logo';
+import { User } from '../../interfaces/user';
+import { AppState } from '../../redux/rootReducer';
+import { requestChangePassword, requestLogout } from '../../redux/auth/actions';
+import { FormContainer, PageContainer } from './styles';
+
+/**
+ * Page shown after the login with a password defined by an admin, the user must choose a new password
+ * @param props component props
+ */
+export const ChangePasswordPage: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const user = useSelector<AppState, User | undefined>((state) => state.authReducer.user);
+  const loading = useSelector<AppState, boolean>((state) => state.authReducer.loading);
+
+  const [password, setPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string>();
+
+  return (
+    <PageContainer>
+      <Logo />
+      <Card>
+        <FormContainer>
+          <Form
+            name="change-password"
+            onFinish={() => {
+              if (newPassword !== confirmation) {
+                setError('As senhas não conferem');
+                return;
+              }
+              setError(undefined);
+              dispatch(
+                requestChangePassword(user?.email || '', password, newPassword, (requestError) =>
+                  setError(requestError?.message)
+                )
+              );
+            }}
+          >
+            <Form.Item>
+              <Alert type="info" message="A sua senha foi definida por um administrador, escolha uma nova senha." />
+            </Form.Item>
+            <Form.Item>
+              <Input.Password
+                size="large"
+                required
+                value={password}
+                placeholder={'Senha atual'}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+            </Form.Item>
+            <Form.Item extra="Pelo menos 8 caracteres, com letras e números">
+              <Input.Password
+                size="large"
+                required
+                value={newPassword}
+                placeholder={'Nova senha'}
+                onChange={(event) => setNewPassword(event.target.value)}
+              />
+            </Form.Item>
+            <Form.Item>
+              <Input.Password
+                size="large"
+                required
+                value={confirmation}
+                placeholder={'Confirme a nova senha'}
+                onChange={(event) => setConfirmation(event.target.value)}
+              />
+            </Form.Item>
+            {error && (
+              <Form.Item style={{ textAlign: 'center' }}>
+                <Typography.Text type="danger">{error}</Typography.Text>
+              </Form.Item>
+            )}
+            <Form.Item>
+              <Button size="large" loading={loading} htmlType="submit" type="primary" style={{ width: '100%' }}>
+                Salvar
+              </Button>
+            </Form.Item>
+            <Form.Item style={{ textAlign: 'center' }}>
+              <Button type="link" onClick={() => dispatch(requestLogout())}>
+                Sair
+              </Button>
+            </Form.Item>
+          </Form>
+        </FormContainer>
+      </Card>
+    </PageContainer>
+  );
+};
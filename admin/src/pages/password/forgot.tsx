@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { Alert, Button, Card, Form, Input, Typography } from 'antd';
+import { Logo } from '../../components/logo';
+import { requestForgotPassword } from '../../redux/auth/actions';
+import { FormContainer, PageContainer } from './styles';
+
+/**
+ * Page to request the password reset link
+ * @param props component props
+ */
+export const ForgotPasswordPage: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string>();
+
+  return (
+    <PageContainer>
+      <Logo />
+      <Card>
+        <FormContainer>
+          {sent ? (
+            <Alert
+              type="success"
+              message="Solicitação enviada"
+              description="Se o email estiver cadastrado, você receberá um link para redefinir a senha."
+            />
+          ) : (
+            <Form
+              name="forgot-password"
+              onFinish={() => {
+                setLoading(true);
+                setError(undefined);
+                dispatch(
+                  requestForgotPassword(
+                    email,
+                    () => {
+                      setLoading(false);
+                      setSent(true);
+                    },
+                    (requestError) => {
+                      setLoading(false);
+                      setError(requestError?.message);
+                    }
+                  )
+                );
+              }}
+            >
+              <Form.Item>
+                <Typography.Text>Informe o seu email para receber o link de redefinição de senha.</Typography.Text>
+              </Form.Item>
+              <Form.Item>
+                <Input
+                  size="large"
+                  value={email}
+                  required
+                  type="email"
+                  placeholder={'Email'}
+                  onChange={(event) => setEmail(event.target.value)}
+                />
+              </Form.Item>
+              {error && (
+                <Form.Item style={{ textAlign: 'center' }}>
+                  <Typography.Text type="danger">{error}</Typography.Text>
+                </Form.Item>
+              )}
+              <Form.Item>
+                <Button size="large" loading={loading} htmlType="submit" type="primary" style={{ width: '100%' }}>
+                  Enviar
+                </Button>
+              </Form.Item>
+            </Form>
+          )}
+          <Form.Item style={{ textAlign: 'center' }}>
+            <Link to="/">Voltar para o login</Link>
+          </Form.Item>
+        </FormContainer>
+      </Card>
+    </PageContainer>
+  );
+};
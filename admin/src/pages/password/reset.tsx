@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { Link, useLocation } from 'react-router-dom';
+import { Alert, Button, Card, Form, Input, Typography } from 'antd';
+import { Logo } from '../../components/logo';
+import { UserTokenInfo } from '../../interfaces/auth';
+import { requestGetUserToken, requestResetPassword } from '../../redux/auth/actions';
+import { FormContainer, PageContainer } from './styles';
+
+/**
+ * Page to choose a new password using a password reset or invitation link
+ * @param props component props
+ */
+export const ResetPasswordPage: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+  const location = useLocation();
+  const token = new URLSearchParams(location.search).get('token') || '';
+
+  const [info, setInfo] = useState<UserTokenInfo>();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    dispatch(
+      requestGetUserToken(
+        token,
+        (tokenInfo) => {
+          setInfo(tokenInfo);
+          setLoading(false);
+        },
+        (requestError) => {
+          setError(requestError?.message);
+          setLoading(false);
+        }
+      )
+    );
+  }, [dispatch, token]);
+
+  return (
+    <PageContainer>
+      <Logo />
+      <Card loading={loading && !info && !error}>
+        <FormContainer>
+          {done && (
+            <Alert type="success" message="Senha alterada" description="Use a nova senha para entrar no sistema." />
+          )}
+          {!done && !info && error && <Alert type="error" message="Link inválido ou expirado" description={error} />}
+          {!done && info && (
+            <Form
+              name="reset-password"
+              onFinish={() => {
+                if (password !== confirmation) {
+                  setError('As senhas não conferem');
+                  return;
+                }
+                setLoading(true);
+                setError(undefined);
+                dispatch(
+                  requestResetPassword(
+                    token,
+                    password,
+                    () => {
+                      setLoading(false);
+                      setDone(true);
+                    },
+                    (requestError) => {
+                      setLoading(false);
+                      setError(requestError?.message);
+                    }
+                  )
+                );
+              }}
+            >
+              <Form.Item>
+                <Typography.Text>
+                  {info.type === 'invite'
+                    ? `Olá ${info.name || info.email}, escolha a senha do seu primeiro acesso.`
+                    : `Olá ${info.name || info.email}, escolha a sua nova senha.`}
+                </Typography.Text>
+              </Form.Item>
+              <Form.Item extra="Pelo menos 8 caracteres, com letras e números">
+                <Input.Password
+                  size="large"
+                  required
+                  value={password}
+                  placeholder={'Nova senha'}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </Form.Item>
+              <Form.Item>
+                <Input.Password
+                  size="large"
+                  required
+                  value={confirmation}
+                  placeholder={'Confirme a nova senha'}
+                  onChange={(event) => setConfirmation(event.target.value)}
+                />
+              </Form.Item>
+              {error && (
+                <Form.Item style={{ textAlign: 'center' }}>
+                  <Typography.Text type="danger">{error}</Typography.Text>
+                </Form.Item>
+              )}
+              <Form.Item>
+                <Button size="large" loading={loading} htmlType="submit" type="primary" style={{ width: '100%' }}>
+                  Salvar
+                </Button>
+              </Form.Item>
+            </Form>
+          )}
+          <Form.Item style={{ textAlign: 'center' }}>
+            <Link to="/">Voltar para o login</Link>
+          </Form.Item>
+        </FormContainer>
+      </Card>
+    </PageContainer>
+  );
+};
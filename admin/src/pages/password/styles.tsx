@@ -0,0 +1,15 @@
+import styled from 'styled-components';
+
+export const PageContainer = styled.div`
+  height: 100%;
+  width: 100%;
+  display: flex;
+  flex: 1;
+  align-items: center;
+  justify-content: center;
+  flex-direction: column;
+`;
+
+export const FormContainer = styled.div`
+  width: 300px;
+`;
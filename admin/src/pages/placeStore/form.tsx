@@ -1,4 +1,4 @@
-import { Alert, Form, Modal, Input, Select, Spin, Divider } from 'antd';
+import { Alert, Form, Modal, Input, InputNumber, Select, Spin, Divider } from 'antd';
 import { useFormik } from 'formik';
 import React, { useEffect } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
@@ -24,7 +24,8 @@ const schema = yup.object().shape({
   address: yup.string().label('Endereço').required(),
   responsibleName: yup.string().label('Nome do responsável'),
   responsiblePhone: yup.string().label('Telefone do responsável'),
-  responsibleEmail: yup.string().label('Email do responsável')
+  responsibleEmail: yup.string().label('Email do responsável'),
+  minimumStock: yup.number().label('Estoque mínimo').nullable().integer().min(0)
 });
 
 /**
@@ -71,7 +72,9 @@ export const PlaceStoreForm: React.FC<RouteComponentProps<{ id: string }>> = (pr
       address: '',
       responsibleName: '',
       responsiblePhone: '',
-      responsibleEmail: ''
+      responsibleEmail: '',
+      stockPolicy: 'warn',
+      minimumStock: null
     },
     validationSchema: schema,
     onSubmit: (values, { setStatus }) => {
@@ -93,6 +96,7 @@ export const PlaceStoreForm: React.FC<RouteComponentProps<{ id: string }>> = (pr
   const responsiblePhoneMeta = getFieldMeta('responsiblePhone');
   const responsibleEmailMeta = getFieldMeta('responsibleEmail');
   const placeIdMeta = getFieldMeta('placeId');
+  const minimumStockMeta = getFieldMeta('minimumStock');
 
   return (
     <Modal
@@ -220,6 +224,36 @@ export const PlaceStoreForm: React.FC<RouteComponentProps<{ id: string }>> = (pr
               setValue={(value) => setFieldValue('responsibleEmail', value)}
             />
           </Form.Item>
+          {consumptionType === 'product' && (
+            <>
+              <Divider />
+              <Form.Item label="Consumo sem estoque suficiente">
+                <Select value={values.stockPolicy} onChange={(value) => setFieldValue('stockPolicy', value)}>
+                  <Select.Option value="warn">Registrar e avisar</Select.Option>
+                  <Select.Option value="reject">Recusar o consumo</Select.Option>
+                </Select>
+              </Form.Item>
+              <Form.Item
+                label="Estoque mínimo por produto"
+                validateStatus={!!minimumStockMeta.error && !!minimumStockMeta.touched ? 'error' : ''}
+                help={
+                  !!minimumStockMeta.error && !!minimumStockMeta.touched
+                    ? minimumStockMeta.error
+                    : 'Os produtos com menos unidades aparecem nos alertas de estoque baixo'
+                }
+              >
+                <InputNumber
+                  id="minimumStock"
+                  style={{ width: '100%' }}
+                  min={0}
+                  precision={0}
+                  placeholder="Sem alerta"
+                  value={values.minimumStock ?? undefined}
+                  onChange={(value) => setFieldValue('minimumStock', typeof value === 'number' ? value : null)}
+                />
+              </Form.Item>
+            </>
+          )}
         </Form>
       </form>
     </Modal>
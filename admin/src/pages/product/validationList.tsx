@@ -1,9 +1,19 @@
-import { Button, Card, Table, Typography } from 'antd';
+import { Button, Card, Select, Table, Tabs, Tag, Typography } from 'antd';
 import React from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppState } from '../../redux/rootReducer';
-import { Product } from '../../interfaces/product';
-import { requestGetProductValidate, requestSaveProduct } from '../../redux/product/actions';
+import { Product, ProductAlias } from '../../interfaces/product';
+import { ProductCategory } from '../../interfaces/productCategory';
+import { requestGetProductCategory } from '../../redux/productCategory/actions';
+import {
+  requestAssignProductCategory,
+  requestGetProductAliases,
+  requestGetProductValidate,
+  requestReviewProductAlias,
+  requestSaveProduct
+} from '../../redux/product/actions';
+import { User } from '../../interfaces/user';
+import { isRoleAllowed, Role } from '../../utils/constraints';
 import { ActionWrapper, PageContainer } from './styles';
 
 /**
@@ -15,28 +25,139 @@ export const ProductValidationList: React.FC<{}> = () => {
   const list = useSelector<AppState, Product[]>(
     (state) => state.productReducer.listValidate.filter((f: Product) => f.isValid === null) as Product[]
   );
+  const aliasList = useSelector<AppState, ProductAlias[]>((state) => state.productReducer.aliasReviewList);
+  const categories = useSelector<AppState, ProductCategory[]>((state) => state.productCategoryReducer.list);
+  const loading = useSelector<AppState, boolean>((state) => state.productReducer.loading);
+  const user = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
+  // Aliases are shared by every city, only the super admin reviews them
+  const canReviewAliases = isRoleAllowed(['superadmin'], user?.role as Role | undefined);
+
+  // Products selected to be moved to a category
+  const [selectedIds, setSelectedIds] = React.useState<NonNullable<Product['id']>[]>([]);
+  const [categoryId, setCategoryId] = React.useState<number>();
+
   // Redux actions
   const dispatch = useDispatch();
   React.useEffect(() => {
     dispatch(requestGetProductValidate());
-  }, [dispatch]);
+    if (canReviewAliases) dispatch(requestGetProductAliases());
+    dispatch(requestGetProductCategory());
+  }, [dispatch, canReviewAliases]);
+
+  /**
+   * Move the selected products to the chosen category
+   */
+  const onAssignCategory = () => {
+    if (!categoryId || selectedIds.length === 0) return;
+    dispatch(requestAssignProductCategory(selectedIds, categoryId, () => setSelectedIds([])));
+  };
 
   return (
     <PageContainer>
       <Card title={<Typography.Title>{`Validar Produtos`}</Typography.Title>}>
-        <Table rowKey="id" dataSource={list}>
-          <Table.Column title="Nome" dataIndex="name" />
-          <Table.Column
-            render={(item: Product) => {
-              return <ProductAction key={item.id} item={item} />;
-            }}
-          />
-        </Table>
+        <Tabs>
+          <Tabs.TabPane tab="Produtos" key="products">
+            <ActionWrapper style={{ marginBottom: 16 }}>
+              <Select
+                style={{ minWidth: 240 }}
+                placeholder="Categoria"
+                value={categoryId?.toString()}
+                onChange={(value: string) => setCategoryId(Number(value))}
+              >
+                {categories.map((item) => (
+                  <Select.Option key={item.id} value={Number(item.id).toString()}>
+                    {item.name}
+                  </Select.Option>
+                ))}
+              </Select>
+              <Button
+                type="primary"
+                disabled={!categoryId || selectedIds.length === 0}
+                loading={loading}
+                onClick={onAssignCategory}
+              >
+                {`Atribuir categoria (${selectedIds.length})`}
+              </Button>
+            </ActionWrapper>
+            <Table
+              rowKey="id"
+              dataSource={list}
+              rowSelection={{
+                selectedRowKeys: selectedIds,
+                onChange: (keys) => setSelectedIds(keys as NonNullable<Product['id']>[])
+              }}
+            >
+              <Table.Column title="Nome" dataIndex="name" />
+              <Table.Column
+                render={(item: Product) => {
+                  return <ProductAction key={item.id} item={item} />;
+                }}
+              />
+            </Table>
+          </Tabs.TabPane>
+          {canReviewAliases && (
+            <Tabs.TabPane tab={`Revisar associações (${aliasList.length})`} key="aliases">
+              <Table rowKey="id" dataSource={aliasList}>
+                <Table.Column title="Nome na nota" dataIndex="originalName" />
+                <Table.Column title="Produto sugerido" render={(item: ProductAlias) => item.product?.name} />
+                <Table.Column
+                  title="Confiança"
+                  dataIndex="confidence"
+                  render={(confidence: number) => <Tag color="orange">{`${Math.round(confidence * 100)}%`}</Tag>}
+                />
+                <Table.Column
+                  render={(item: ProductAlias) => {
+                    return <ProductAliasAction key={item.id} item={item} />;
+                  }}
+                />
+              </Table>
+            </Tabs.TabPane>
+          )}
+        </Tabs>
       </Card>
     </PageContainer>
   );
 };
 
+/**
+ * ProductAliasAction component
+ * @param props component props
+ */
+export const ProductAliasAction: React.FC<{ item: ProductAlias }> = ({ item }) => {
+  const [isLoading, setLoading] = React.useState<string>('');
+  // Redux actions
+  const dispatch = useDispatch();
+
+  /**
+   * Function to approve or reject the suggested product
+   */
+  const onReviewAlias = (item: ProductAlias, approve: boolean) => () => {
+    setLoading(approve ? 'approve' : 'reject');
+    dispatch(requestReviewProductAlias(item.id as number, approve, undefined, () => setLoading('')));
+  };
+
+  return (
+    <ActionWrapper>
+      <Button
+        type="primary"
+        disabled={isLoading === 'reject'}
+        onClick={onReviewAlias(item, true)}
+        loading={isLoading === 'approve'}
+      >
+        Mesmo produto
+      </Button>
+      <Button
+        danger
+        disabled={isLoading === 'approve'}
+        onClick={onReviewAlias(item, false)}
+        loading={isLoading === 'reject'}
+      >
+        Produto diferente
+      </Button>
+    </ActionWrapper>
+  );
+};
+
 /**
  * ProductAction component
  * @param props component props
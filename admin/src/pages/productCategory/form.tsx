@@ -0,0 +1,175 @@
+import React from 'react';
+import { Form, Modal, Alert, Input, Select, Button, Row, Col } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { RouteComponentProps, useHistory } from 'react-router-dom';
+import { useFormik } from 'formik';
+import yup from '../../utils/yup';
+import { formHelper, formValidation } from '../../utils/constraints';
+import { useSelector, useDispatch } from 'react-redux';
+import { AppState } from '../../redux/rootReducer';
+import { ProductCategory, ProductCategoryRule } from '../../interfaces/productCategory';
+import { Group } from '../../interfaces/group';
+import { requestSaveProductCategory } from '../../redux/productCategory/actions';
+
+const schema = yup.object().shape({
+  name: yup.string().label('Nome').required()
+});
+
+/**
+ * Convert the validity to the select value
+ * @param isValid category or rule validity
+ * @returns select value
+ */
+const getValidityOption = (isValid?: boolean | null) =>
+  isValid === true ? 'valid' : isValid === false ? 'invalid' : '';
+
+/**
+ * Convert the select value to the validity
+ * @param value select value
+ * @returns validity, null to inherit
+ */
+const getValidityValue = (value: string) => (value === 'valid' ? true : value === 'invalid' ? false : null);
+
+/**
+ * Product category form component
+ * @param props component props
+ */
+export const ProductCategoryForm: React.FC<RouteComponentProps<{ id: string }>> = (props) => {
+  const history = useHistory();
+  const isCreating = props.match.params.id === 'criar';
+
+  const dispatch = useDispatch();
+
+  const list = useSelector<AppState, ProductCategory[]>(({ productCategoryReducer }) => productCategoryReducer.list);
+  const category = list.find((item) => item.id === Number(props.match.params.id));
+  const loading = useSelector<AppState, boolean>(({ productCategoryReducer }) => productCategoryReducer.loading);
+  const groups = useSelector<AppState, Group[]>(({ groupReducer }) => groupReducer.list as Group[]);
+
+  const { handleChange, values, getFieldMeta, submitForm, status, errors, touched, setFieldValue } = useFormik<
+    ProductCategory
+  >({
+    initialValues: category || {
+      name: '',
+      parentId: null,
+      isValid: null,
+      rules: []
+    },
+    validationSchema: schema,
+    onSubmit: (values, { setStatus }) => {
+      setStatus();
+      dispatch(
+        requestSaveProductCategory(
+          values,
+          () => history.push('/categorias-produtos'),
+          () => setStatus('Ocorreu um erro ao realizar a requisição.')
+        )
+      );
+    }
+  });
+
+  const nameMeta = getFieldMeta('name');
+  const rules = values.rules || [];
+
+  /**
+   * Change a field of a group rule
+   * @param index rule position
+   * @param changes new values of the rule
+   */
+  const setRule = (index: number, changes: Partial<ProductCategoryRule>) => {
+    setFieldValue(
+      'rules',
+      rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule))
+    );
+  };
+
+  return (
+    <Modal
+      title={isCreating ? 'Criar' : 'Editar'}
+      visible={true}
+      onCancel={() => history.push('/categorias-produtos')}
+      onOk={submitForm}
+      confirmLoading={loading}
+      okType={errors && Object.keys(errors).length > 0 && touched ? 'danger' : 'primary'}
+    >
+      {status && <Alert message="Erro no formulário" description={status} type="error" />}
+      <Form layout="vertical">
+        <Form.Item label={'Nome'} validateStatus={formValidation(nameMeta)} help={formHelper(nameMeta)}>
+          <Input id="name" name="name" onChange={handleChange} value={values.name} onPressEnter={submitForm} />
+        </Form.Item>
+        <Form.Item label={'Categoria pai'}>
+          <Select
+            allowClear
+            value={values.parentId?.toString() || undefined}
+            onChange={(value?: string) => setFieldValue('parentId', value ? Number(value) : null)}
+          >
+            {list
+              .filter((item) => item.id !== category?.id)
+              .map((item) => (
+                <Select.Option key={item.id} value={Number(item.id).toString()}>
+                  {item.name}
+                </Select.Option>
+              ))}
+          </Select>
+        </Form.Item>
+        <Form.Item label={'Validade dos produtos'}>
+          <Select
+            value={getValidityOption(values.isValid)}
+            onChange={(value: string) => setFieldValue('isValid', getValidityValue(value))}
+          >
+            <Select.Option value="">Herdar da categoria pai</Select.Option>
+            <Select.Option value="valid">Válido</Select.Option>
+            <Select.Option value="invalid">Inválido</Select.Option>
+          </Select>
+        </Form.Item>
+        <Form.Item label={'Regras por grupo'}>
+          {rules.map((rule, index) => (
+            <Row key={index} gutter={8} style={{ marginBottom: 8 }}>
+              <Col span={12}>
+                <Select
+                  style={{ width: '100%' }}
+                  value={rule.groupId?.toString() || undefined}
+                  onChange={(value: string) => setRule(index, { groupId: Number(value) })}
+                >
+                  {groups.map((item: Group) => (
+                    <Select.Option key={item.id} value={Number(item.id).toString()}>
+                      {item.title}
+                    </Select.Option>
+                  ))}
+                </Select>
+              </Col>
+              <Col span={9}>
+                <Select
+                  style={{ width: '100%' }}
+                  value={getValidityOption(rule.isValid)}
+                  onChange={(value: string) => setRule(index, { isValid: value === 'valid' })}
+                >
+                  <Select.Option value="valid">Válido</Select.Option>
+                  <Select.Option value="invalid">Inválido</Select.Option>
+                </Select>
+              </Col>
+              <Col span={3}>
+                <Button
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() =>
+                    setFieldValue(
+                      'rules',
+                      rules.filter((item, ruleIndex) => ruleIndex !== index)
+                    )
+                  }
+                />
+              </Col>
+            </Row>
+          ))}
+          <Button
+            icon={<PlusOutlined />}
+            disabled={groups.length === 0}
+            onClick={() => setFieldValue('rules', [...rules, { groupId: groups[0].id, isValid: true }])}
+          >
+            Adicionar regra
+          </Button>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Card, Typography, Button, Table, Modal, Tag } from 'antd';
+import { Link } from 'react-router-dom';
+import { PageContainer, ActionWrapper } from './styles';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppState } from '../../redux/rootReducer';
+import { ProductCategory } from '../../interfaces/productCategory';
+import { Group } from '../../interfaces/group';
+import { requestDeleteProductCategory, requestGetProductCategory } from '../../redux/productCategory/actions';
+import { requestGetGroup } from '../../redux/group/actions';
+
+type ProductCategoryNode = ProductCategory & { children?: ProductCategoryNode[] };
+
+/**
+ * Build the category tree used by the table
+ * @param list flat list of categories
+ * @param parentId parent of the current level, null for the root
+ * @returns list of categories with its children
+ */
+const getCategoryTree = (
+  list: ProductCategory[],
+  parentId: ProductCategory['parentId'] = null
+): ProductCategoryNode[] =>
+  list
+    .filter((item) => (item.parentId || null) === parentId)
+    .map((item) => {
+      const children = getCategoryTree(list, item.id);
+      return children.length > 0 ? { ...item, children } : { ...item };
+    });
+
+/**
+ * Tag with the validity of the category
+ * @param props component props
+ */
+const ValidityTag: React.FC<{ isValid?: boolean | null }> = ({ isValid }) => {
+  if (isValid === true) return <Tag color="green">Válido</Tag>;
+  if (isValid === false) return <Tag color="red">Inválido</Tag>;
+  return <Tag>Herda da categoria pai</Tag>;
+};
+
+/**
+ * Product category list component
+ * @param props component props
+ */
+export const ProductCategoryList: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+
+  React.useEffect(() => {
+    dispatch(requestGetProductCategory());
+    dispatch(requestGetGroup());
+  }, [dispatch]);
+
+  const list = useSelector<AppState, ProductCategory[]>(({ productCategoryReducer }) => productCategoryReducer.list);
+  const loading = useSelector<AppState, boolean>(({ productCategoryReducer }) => productCategoryReducer.loading);
+  const groups = useSelector<AppState, Group[]>(({ groupReducer }) => groupReducer.list as Group[]);
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Categorias de produtos`}</Typography.Title>}
+        extra={
+          <Link to={`/categorias-produtos/criar`}>
+            <Button type="primary">Criar</Button>
+          </Link>
+        }
+      >
+        <Table loading={loading} dataSource={getCategoryTree(list)} rowKey="id">
+          <Table.Column title="Nome" dataIndex="name" />
+          <Table.Column title="Validade" render={(item: ProductCategory) => <ValidityTag isValid={item.isValid} />} />
+          <Table.Column
+            title="Regras por grupo"
+            render={(item: ProductCategory) =>
+              (item.rules || []).map((rule) => (
+                <Tag key={rule.groupId} color={rule.isValid ? 'green' : 'red'}>
+                  {groups.find((group) => Number(group.id) === Number(rule.groupId))?.title || rule.groupId}
+                </Tag>
+              ))
+            }
+          />
+          <Table.Column
+            render={(item: ProductCategory) => {
+              return (
+                <ActionWrapper>
+                  <Link to={`/categorias-produtos/${item.id}`}>
+                    <Button>Editar</Button>
+                  </Link>
+                  <Button
+                    danger
+                    onClick={() =>
+                      Modal.confirm({
+                        title: 'Você realmente quer deletar esse registro?',
+                        icon: <ExclamationCircleOutlined />,
+                        okText: 'Sim',
+                        okType: 'danger',
+                        cancelText: 'Não',
+                        onOk: () => {
+                          dispatch(requestDeleteProductCategory(item.id as number));
+                        }
+                      })
+                    }
+                  >
+                    Excluir
+                  </Button>
+                </ActionWrapper>
+              );
+            }}
+          />
+        </Table>
+      </Card>
+    </PageContainer>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Card, Typography, Button, Table, Modal, Tag } from 'antd';
+import { ExclamationCircleOutlined } from '@ant-design/icons';
+import moment from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { AppState } from '../../redux/rootReducer';
+import { PublicBlock } from '../../interfaces/publicBlock';
+import { requestGetPublicBlock, requestDeletePublicBlock } from '../../redux/publicBlock/actions';
+
+const typeList: { [key: string]: string } = {
+  ip: 'IP',
+  nis: 'NIS'
+};
+
+const reasonList: { [key: string]: string } = {
+  'invalid-birthday': 'Data de nascimento incorreta',
+  'invalid-login': 'NIS ou data de nascimento incorretos',
+  'invalid-code': 'Código SMS incorreto'
+};
+
+/**
+ * Format a date of the block, showing a dash when it's not set
+ * @param value date
+ */
+const formatDate = (value?: string) => (value ? moment(value).format('DD/MM/YYYY HH:mm') : '-');
+
+/**
+ * List of the IPs and NIS blocked on the portal or with failed attempts
+ * @param props component props
+ */
+export const PublicBlockList: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+
+  React.useEffect(() => {
+    dispatch(requestGetPublicBlock());
+  }, [dispatch]);
+
+  const list = useSelector<AppState, PublicBlock[]>(({ publicBlockReducer }) => publicBlockReducer.list);
+  const loading = useSelector<AppState, boolean>(({ publicBlockReducer }) => publicBlockReducer.loading);
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>{`Bloqueios do portal`}</Typography.Title>}
+        extra={<Button onClick={() => dispatch(requestGetPublicBlock())}>Atualizar</Button>}
+      >
+        <Table loading={loading} dataSource={list} rowKey={(item: PublicBlock) => `${item.type}:${item.value}`}>
+          <Table.Column title="Tipo" dataIndex="type" render={(type: string) => typeList[type] || type} />
+          <Table.Column title="Identificação" dataIndex="value" />
+          <Table.Column
+            title="Situação"
+            render={(item: PublicBlock) =>
+              item.blocked ? <Tag color="red">Bloqueado</Tag> : <Tag color="orange">Suspeito</Tag>
+            }
+          />
+          <Table.Column title="Tentativas incorretas" dataIndex="failures" />
+          <Table.Column
+            title="Motivo"
+            dataIndex="reason"
+            render={(reason?: string) => (reason ? reasonList[reason] || reason : '-')}
+          />
+          <Table.Column title="Bloqueado em" dataIndex="blockedAt" render={formatDate} />
+          <Table.Column title="Expira em" dataIndex="expiresAt" render={formatDate} />
+          <Table.Column
+            render={(item: PublicBlock) => (
+              <ActionWrapper>
+                <Button
+                  onClick={() =>
+                    Modal.confirm({
+                      title: `Você realmente quer desbloquear ${typeList[item.type]} ${item.value}?`,
+                      content: 'As tentativas incorretas também serão descartadas.',
+                      icon: <ExclamationCircleOutlined />,
+                      okText: 'Sim',
+                      cancelText: 'Não',
+                      onOk: () => {
+                        dispatch(requestDeletePublicBlock(item));
+                      }
+                    })
+                  }
+                >
+                  Desbloquear
+                </Button>
+              </ActionWrapper>
+            )}
+          />
+        </Table>
+      </Card>
+    </PageContainer>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Card, Typography, Button, Table, Tag, Select, Switch, Alert } from 'antd';
+import moment from 'moment';
+import { useDispatch, useSelector } from 'react-redux';
+import { PageContainer, ActionWrapper } from './styles';
+import { StockMovementModal } from './movementModal';
+import { AppState } from '../../redux/rootReducer';
+import { StockItem, StockMovement, StockMovementType } from '../../interfaces/stock';
+import { PlaceStore } from '../../interfaces/placeStore';
+import { requestGetStock, requestGetStockMovements } from '../../redux/stock/actions';
+import { requestGetPlaceStore } from '../../redux/placeStore/actions';
+import { requestGetProduct } from '../../redux/product/actions';
+
+const movementTypeList: { [key in StockMovementType]: { name: string; color: string } } = {
+  receipt: { name: 'Recebimento', color: 'green' },
+  'transfer-in': { name: 'Transferência recebida', color: 'blue' },
+  'transfer-out': { name: 'Transferência enviada', color: 'geekblue' },
+  distribution: { name: 'Distribuição', color: 'purple' },
+  'distribution-reversal': { name: 'Consumo excluído', color: 'orange' },
+  loss: { name: 'Perda', color: 'red' }
+};
+
+/**
+ * Stock of the stores, with the low stock alerts and the movements
+ * @param props component props
+ */
+export const StockPage: React.FC<{}> = () => {
+  const dispatch = useDispatch();
+
+  const [placeStoreId, setPlaceStoreId] = useState<number | string>();
+  const [onlyLow, setOnlyLow] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    dispatch(requestGetPlaceStore());
+    dispatch(requestGetProduct());
+  }, [dispatch]);
+
+  useEffect(() => {
+    dispatch(requestGetStock(placeStoreId));
+    dispatch(requestGetStockMovements({ placeStoreId }));
+  }, [dispatch, placeStoreId]);
+
+  const list = useSelector<AppState, StockItem[]>(({ stockReducer }) => stockReducer.list);
+  const loading = useSelector<AppState, boolean>(({ stockReducer }) => stockReducer.loading);
+  const movements = useSelector<AppState, StockMovement[]>(({ stockReducer }) => stockReducer.movements);
+  const movementsLoading = useSelector<AppState, boolean>(({ stockReducer }) => stockReducer.movementsLoading);
+  const placeStores = useSelector<AppState, PlaceStore[]>(({ placeStoreReducer }) => placeStoreReducer.list);
+
+  const lowCount = list.filter((item) => item.isLow).length;
+
+  return (
+    <PageContainer>
+      <Card
+        title={<Typography.Title>Estoque</Typography.Title>}
+        extra={
+          <ActionWrapper>
+            <Select
+              allowClear
+              placeholder="Todas as entidades"
+              style={{ width: 240 }}
+              value={placeStoreId}
+              onChange={(value) => setPlaceStoreId(value as number | undefined)}
+            >
+              {placeStores.map((placeStore) => (
+                <Select.Option key={placeStore.id} value={placeStore.id as number}>
+                  {placeStore.title}
+                </Select.Option>
+              ))}
+            </Select>
+            <Button type="primary" onClick={() => setCreating(true)}>
+              Nova movimentação
+            </Button>
+          </ActionWrapper>
+        }
+      >
+        {lowCount > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={`${lowCount} ${lowCount > 1 ? 'produtos estão' : 'produto está'} abaixo do estoque mínimo`}
+          />
+        )}
+        <Typography.Paragraph>
+          <Switch checked={onlyLow} onChange={setOnlyLow} /> Mostrar apenas o estoque baixo
+        </Typography.Paragraph>
+        <Table
+          loading={loading}
+          dataSource={onlyLow ? list.filter((item) => item.isLow) : list}
+          rowKey={(item) => `${item.placeStoreId}-${item.productId}`}
+        >
+          <Table.Column title="Entidade" render={(item: StockItem) => item.placeStore?.title} />
+          <Table.Column title="Produto" render={(item: StockItem) => item.product?.name} />
+          <Table.Column title="Quantidade" dataIndex="amount" />
+          <Table.Column title="Estoque mínimo" render={(item: StockItem) => item.placeStore?.minimumStock ?? '-'} />
+          <Table.Column render={(item: StockItem) => (item.isLow ? <Tag color="red">Estoque baixo</Tag> : null)} />
+        </Table>
+      </Card>
+      <Card title={<Typography.Title level={3}>Movimentações</Typography.Title>} style={{ marginTop: 16 }}>
+        <Table loading={movementsLoading} dataSource={movements} rowKey="id">
+          <Table.Column
+            title="Data"
+            dataIndex="createdAt"
+            render={(createdAt: Date) => moment(createdAt).format('DD/MM/YYYY HH:mm')}
+          />
+          <Table.Column
+            title="Tipo"
+            dataIndex="type"
+            render={(type: StockMovementType) => (
+              <Tag color={movementTypeList[type]?.color}>{movementTypeList[type]?.name || type}</Tag>
+            )}
+          />
+          <Table.Column title="Entidade" render={(item: StockMovement) => item.placeStore?.title} />
+          <Table.Column title="Produto" render={(item: StockMovement) => item.product?.name} />
+          <Table.Column
+            title="Quantidade"
+            dataIndex="amount"
+            render={(amount: number) => `${amount > 0 ? '+' : ''}${amount}`}
+          />
+          <Table.Column
+            title="Detalhes"
+            render={(item: StockMovement) =>
+              [
+                item.relatedPlaceStore?.title,
+                item.consumptionId ? `Consumo #${item.consumptionId}` : null,
+                item.note,
+                item.createdBy?.name
+              ]
+                .filter((detail) => detail)
+                .join(' - ')
+            }
+          />
+        </Table>
+      </Card>
+      <StockMovementModal visible={creating} placeStores={placeStores} onClose={() => setCreating(false)} />
+    </PageContainer>
+  );
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Modal, Form, Input, InputNumber, Select, Radio, message } from 'antd';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppState } from '../../redux/rootReducer';
+import { ManualMovementType, StockMovementRequest } from '../../interfaces/stock';
+import { PlaceStore } from '../../interfaces/placeStore';
+import { Product } from '../../interfaces/product';
+import { requestCreateStockMovement } from '../../redux/stock/actions';
+
+export const manualMovementTypeList: { [type in ManualMovementType]: string } = {
+  receipt: 'Recebimento do fornecedor',
+  transfer: 'Transferência entre entidades',
+  loss: 'Perda'
+};
+
+type ComponentProps = {
+  visible: boolean;
+  placeStores: PlaceStore[];
+  onClose: () => void;
+};
+
+/**
+ * Modal to register a receipt, a loss or a transfer of products between the stores
+ * @param props component props
+ */
+export const StockMovementModal: React.FC<ComponentProps> = ({ visible, placeStores, onClose }) => {
+  const dispatch = useDispatch();
+  const [form] = Form.useForm();
+
+  const loading = useSelector<AppState, boolean>(({ stockReducer }) => stockReducer.saveLoading);
+  const products = useSelector<AppState, Product[]>(({ productReducer }) => productReducer.list);
+
+  /**
+   * Send the movement with the form values
+   * @param values form values
+   */
+  const onFinish = (values: StockMovementRequest) => {
+    dispatch(
+      requestCreateStockMovement(
+        values,
+        () => {
+          message.success('Movimentação registrada');
+          form.resetFields();
+          onClose();
+        },
+        (error?: Error & { response?: { data?: unknown } }) =>
+          message.error(
+            typeof error?.response?.data === 'string'
+              ? error.response.data
+              : 'Não foi possível registrar a movimentação'
+          )
+      )
+    );
+  };
+
+  return (
+    <Modal
+      title="Nova movimentação de estoque"
+      visible={visible}
+      okText="Registrar"
+      cancelText="Cancelar"
+      confirmLoading={loading}
+      onOk={() => form.submit()}
+      onCancel={onClose}
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ type: 'receipt' }}
+        onFinish={(values) => onFinish(values as StockMovementRequest)}
+      >
+        <Form.Item label="Tipo" name="type" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Radio.Group>
+            {Object.entries(manualMovementTypeList).map(([key, name]) => (
+              <Radio key={key} value={key}>
+                {name}
+              </Radio>
+            ))}
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item label="Entidade" name="placeStoreId" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Select showSearch optionFilterProp="children">
+            {placeStores.map((placeStore) => (
+              <Select.Option key={placeStore.id} value={placeStore.id as number}>
+                {placeStore.title}
+              </Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item noStyle shouldUpdate={(previous, current) => previous.type !== current.type}>
+          {() =>
+            form.getFieldValue('type') === 'transfer' && (
+              <Form.Item
+                label="Entidade de destino"
+                name="relatedPlaceStoreId"
+                rules={[{ required: true, message: 'Campo obrigatório' }]}
+              >
+                <Select showSearch optionFilterProp="children">
+                  {placeStores.map((placeStore) => (
+                    <Select.Option key={placeStore.id} value={placeStore.id as number}>
+                      {placeStore.title}
+                    </Select.Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            )
+          }
+        </Form.Item>
+        <Form.Item label="Produto" name="productId" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <Select showSearch optionFilterProp="children">
+            {products.map((product) => (
+              <Select.Option key={product.id} value={product.id as number}>
+                {product.name}
+              </Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item label="Quantidade" name="amount" rules={[{ required: true, message: 'Campo obrigatório' }]}>
+          <InputNumber style={{ width: '100%' }} min={1} precision={0} />
+        </Form.Item>
+        <Form.Item label="Observação" name="note">
+          <Input.TextArea rows={2} />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
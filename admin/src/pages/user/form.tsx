@@ -20,12 +20,7 @@ const CONSUMPTION_TYPE = env.REACT_APP_CONSUMPTION_TYPE || 'ticket';
 
 const schema = yup.object().shape({
   name: yup.string().label('Nome').required(),
-  password: yup
-    .string()
-    .label('Senha')
-    .when('isCreating', (isCreating: boolean | null | undefined, schema: yup.StringSchema) =>
-      isCreating ? schema.required() : schema
-    ),
+  password: yup.string().label('Senha'),
   cpf: yup.string().label('CPF').required(),
   email: yup.string().label('Email').required(),
   role: yup.string().label('Função').required(),
@@ -33,7 +28,7 @@ const schema = yup.object().shape({
     .string()
     .label('Entidade')
     .when('role', (role: string | undefined, schema: yup.StringSchema) =>
-      role !== 'admin' && CONSUMPTION_TYPE === 'product' ? schema.required() : schema
+      role !== 'admin' && role !== 'superadmin' && CONSUMPTION_TYPE === 'product' ? schema.required() : schema
     ),
   isCreating: yup.boolean().label('CriandoUsuario').nullable()
 });
@@ -52,6 +47,7 @@ export const UserForm: React.FC<RouteComponentProps<{ id: string }>> = (props) =
     userReducer.list.find((item: User) => item.id === Number(props.match.params.id))
   );
   const loading = useSelector<AppState, boolean>(({ userReducer }) => userReducer.loading);
+  const loggedUser = useSelector<AppState, User | undefined>(({ authReducer }) => authReducer.user);
 
   // Redux actions
   const dispatch = useDispatch();
@@ -94,7 +90,12 @@ export const UserForm: React.FC<RouteComponentProps<{ id: string }>> = (props) =
         requestSaveUser(
           values,
           () => history.push('/usuarios'),
-          () => setStatus('Ocorreu um erro ao realizar a requisição.')
+          (error?: Error & { response?: { data?: unknown } }) =>
+            setStatus(
+              typeof error?.response?.data === 'string'
+                ? error.response.data
+                : 'Ocorreu um erro ao realizar a requisição.'
+            )
         )
       );
     }
@@ -141,6 +142,11 @@ export const UserForm: React.FC<RouteComponentProps<{ id: string }>> = (props) =
             label={'Senha'}
             validateStatus={!!passwordMeta.error && !!passwordMeta.touched ? 'error' : ''}
             help={!!passwordMeta.error && !!passwordMeta.touched ? passwordMeta.error : undefined}
+            extra={
+              isCreating
+                ? 'Deixe em branco para enviar um convite por email. A senha definida aqui deve ser alterada no primeiro acesso.'
+                : 'A senha definida aqui deve ser alterada no próximo acesso.'
+            }
           >
             <Input
               id="password"
@@ -183,15 +189,18 @@ export const UserForm: React.FC<RouteComponentProps<{ id: string }>> = (props) =
                 setFieldTouched('role', true);
               }}
             >
-              {Object.keys(roleList).map((key) => (
-                <Option key={key} value={key}>
-                  {roleList[key].title}
-                </Option>
-              ))}
+              {/* Only the super admin can give its role */}
+              {Object.keys(roleList)
+                .filter((key) => key !== 'superadmin' || loggedUser?.role === 'superadmin')
+                .map((key) => (
+                  <Option key={key} value={key}>
+                    {roleList[key].title}
+                  </Option>
+                ))}
             </Select>
           </Form.Item>
 
-          {CONSUMPTION_TYPE === 'product' && values.role !== 'admin' && (
+          {CONSUMPTION_TYPE === 'product' && values.role !== 'admin' && values.role !== 'superadmin' && (
             <Form.Item
               label={'Entidade'}
               validateStatus={!!placeStoreIdMeta.error && !!placeStoreIdMeta.touched ? 'error' : ''}
@@ -1,13 +1,15 @@
 import { ExclamationCircleOutlined } from '@ant-design/icons';
-import { Button, Card, Modal, Table, Tag, Typography } from 'antd';
-import React, { useEffect } from 'react';
+import { Button, Card, message, Modal, Table, Tag, Typography } from 'antd';
+import moment from 'moment';
+import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { Link } from 'react-router-dom';
 import { User } from '../../interfaces/user';
 import { AppState } from '../../redux/rootReducer';
-import { requestDeleteUser, requestGetUser } from '../../redux/user/actions';
+import { requestDeleteUser, requestGetUser, requestSendUserInvite } from '../../redux/user/actions';
 import { formatCPF } from '../../utils/string';
 import { roleList } from './../../utils/constraints';
+import { UserSessionsModal } from './sessions';
 import { ActionWrapper, PageContainer } from './styles';
 
 /**
@@ -17,6 +19,8 @@ import { ActionWrapper, PageContainer } from './styles';
 export const UserList: React.FC<{}> = () => {
   // Redux state
   const list = useSelector<AppState, User[]>((state) => state.userReducer.list as User[]);
+  // User with the sessions modal open
+  const [sessionsUser, setSessionsUser] = useState<User>();
   // Redux actions
   const dispatch = useDispatch();
   useEffect(() => {
@@ -38,7 +42,13 @@ export const UserList: React.FC<{}> = () => {
           <Table.Column
             title="Ativo"
             dataIndex="active"
-            render={(active: User['active']) => <Tag>{active ? 'Ativo' : 'Inativo'}</Tag>}
+            render={(active: User['active'], item: User) => (
+              <>
+                <Tag>{active ? 'Ativo' : 'Inativo'}</Tag>
+                {item.lockedUntil && moment(item.lockedUntil).isAfter(moment()) && <Tag color="red">Bloqueado</Tag>}
+                {item.mustChangePassword && <Tag color="orange">Senha temporária</Tag>}
+              </>
+            )}
           />
           <Table.Column title="CPF" dataIndex="cpf" render={(data: User['cpf']) => formatCPF(data)} />
           <Table.Column
@@ -53,6 +63,21 @@ export const UserList: React.FC<{}> = () => {
                   <Link to={`/usuarios/${item.id}/editar`}>
                     <Button>Editar</Button>
                   </Link>
+                  <Button onClick={() => setSessionsUser(item)}>Sessões</Button>
+                  <Button
+                    disabled={!item.email}
+                    onClick={() =>
+                      dispatch(
+                        requestSendUserInvite(
+                          item.id as number,
+                          () => message.success('Convite enviado'),
+                          () => message.error('Não foi possível enviar o convite')
+                        )
+                      )
+                    }
+                  >
+                    Enviar convite
+                  </Button>
                   {/* TODO: Add alert on delete */}
                   <Button
                     danger
@@ -78,6 +103,7 @@ export const UserList: React.FC<{}> = () => {
           />
         </Table>
       </Card>
+      <UserSessionsModal user={sessionsUser} onClose={() => setSessionsUser(undefined)} />
     </PageContainer>
   );
 };
@@ -0,0 +1,85 @@
+import { Button, Modal, Table, Typography } from 'antd';
+import moment from 'moment';
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { User, UserSession } from '../../interfaces/user';
+import { AppState } from '../../redux/rootReducer';
+import { requestGetUserSessions, requestRevokeUserSession } from '../../redux/user/actions';
+
+/**
+ * Modal with the active sessions of the user, where they can be revoked
+ * @param props component props
+ */
+export const UserSessionsModal: React.FC<{ user?: User; onClose: () => void }> = ({ user, onClose }) => {
+  const dispatch = useDispatch();
+  const sessions = useSelector<AppState, UserSession[]>((state) => state.userReducer.sessions);
+  const loading = useSelector<AppState, boolean>((state) => state.userReducer.sessionsLoading);
+
+  useEffect(() => {
+    if (user?.id) {
+      dispatch(requestGetUserSessions(user.id));
+    }
+  }, [dispatch, user]);
+
+  return (
+    <Modal
+      visible={!!user}
+      title={`Sessões ativas - ${user?.name || user?.email || ''}`}
+      width={900}
+      onCancel={onClose}
+      footer={[
+        <Button
+          key="revoke-all"
+          danger
+          disabled={sessions.length === 0}
+          onClick={() =>
+            Modal.confirm({
+              title: 'Você realmente quer encerrar todas as sessões do usuário?',
+              okText: 'Sim',
+              okType: 'danger',
+              cancelText: 'Não',
+              onOk: () => {
+                dispatch(requestRevokeUserSession(user?.id as number));
+              }
+            })
+          }
+        >
+          Encerrar todas
+        </Button>,
+        <Button key="close" onClick={onClose}>
+          Fechar
+        </Button>
+      ]}
+    >
+      <Table dataSource={sessions} loading={loading} rowKey="id" pagination={false}>
+        <Table.Column
+          title="Dispositivo"
+          dataIndex="userAgent"
+          render={(userAgent: UserSession['userAgent']) => (
+            <Typography.Text ellipsis style={{ maxWidth: 300 }}>
+              {userAgent || '-'}
+            </Typography.Text>
+          )}
+        />
+        <Table.Column title="IP" dataIndex="ip" />
+        <Table.Column
+          title="Último acesso"
+          dataIndex="lastUsedAt"
+          render={(date: UserSession['lastUsedAt']) => (date ? moment(date).format('DD/MM/YYYY HH:mm') : '-')}
+        />
+        <Table.Column
+          title="Expira em"
+          dataIndex="expiresAt"
+          render={(date: UserSession['expiresAt']) => moment(date).format('DD/MM/YYYY HH:mm')}
+        />
+        <Table.Column
+          render={(item: UserSession) => (
+            <Button danger onClick={() => dispatch(requestRevokeUserSession(item.userId, item.id))}>
+              Encerrar
+            </Button>
+          )}
+        />
+      </Table>
+    </Modal>
+  );
+};
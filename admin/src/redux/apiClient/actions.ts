@@ -0,0 +1,128 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { ApiClient } from '../../interfaces/apiClient';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetApiClient = createAction<void>('apiClient/GET');
+export const doGetApiClientSuccess = createAction<ApiClient[]>('apiClient/GET_SUCCESS');
+export const doGetApiClientFailed = createAction<Error | undefined>('apiClient/GET_FAILED');
+
+export const doSaveApiClient = createAction<void>('apiClient/SAVE');
+export const doSaveApiClientSuccess = createAction<ApiClient>('apiClient/SAVE_SUCCESS');
+export const doSaveApiClientFailed = createAction<Error | undefined>('apiClient/SAVE_FAILED');
+
+/**
+ * Get ApiClient Thunk action
+ */
+export const requestGetApiClient = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetApiClient());
+      // Request
+      const response = await backend.get<ApiClient[]>(`/api-clients`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetApiClientSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetApiClientFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetApiClientFailed(error));
+    }
+  };
+};
+
+/**
+ * Create ApiClient Thunk action, the key is received only on the success callback
+ */
+export const requestCreateApiClient = (
+  item: Pick<ApiClient, 'name'>,
+  onSuccess?: (item: ApiClient) => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveApiClient());
+      // Request
+      const response = await backend.post<ApiClient>(`/api-clients`, { ...item });
+      if (response && response.data) {
+        // Request finished, the key is not kept on the state
+        dispatch(doSaveApiClientSuccess({ ...response.data, secret: undefined })); // Dispatch result
+        if (onSuccess) onSuccess(response.data);
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveApiClientFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveApiClientFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Rotate the ApiClient key Thunk action, the new key is received only on the success callback
+ */
+export const requestRotateApiClient = (
+  id: number | string,
+  onSuccess?: (item: ApiClient) => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveApiClient());
+      // Request
+      const response = await backend.post<ApiClient>(`/api-clients/${id}/rotate`);
+      if (response && response.data) {
+        // Request finished, the key is not kept on the state
+        dispatch(doSaveApiClientSuccess({ ...response.data, secret: undefined })); // Dispatch result
+        if (onSuccess) onSuccess(response.data);
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveApiClientFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveApiClientFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Revoke ApiClient Thunk action
+ */
+export const requestRevokeApiClient = (id: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveApiClient());
+      // Request
+      const response = await backend.delete<ApiClient>(`/api-clients/${id}`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveApiClientSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveApiClientFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveApiClientFailed(error));
+    }
+  };
+};
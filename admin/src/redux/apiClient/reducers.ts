@@ -0,0 +1,52 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetApiClient,
+  doGetApiClientSuccess,
+  doGetApiClientFailed,
+  doSaveApiClient,
+  doSaveApiClientSuccess,
+  doSaveApiClientFailed
+} from './actions';
+import { ApiClient } from '../../interfaces/apiClient';
+import { addToList } from '../../utils/list';
+
+export interface ApiClientReducerState {
+  list: ApiClient[];
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false
+};
+
+export default createReducer<ApiClientReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetApiClient, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetApiClientSuccess, (state, action) => {
+      state.loading = false;
+      state.list = addToList(null, action.payload);
+    })
+    .addCase(doGetApiClientFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Save actions, used by the creation, rotation and revocation
+    .addCase(doSaveApiClient, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doSaveApiClientSuccess, (state, action) => {
+      state.loading = false;
+      state.list = addToList(action.payload, state.list);
+    })
+    .addCase(doSaveApiClientFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
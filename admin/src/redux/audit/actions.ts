@@ -0,0 +1,36 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { AuditLogFilters, AuditLogPage } from '../../interfaces/auditLog';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetAuditLog = createAction<AuditLogFilters>('audit/GET');
+export const doGetAuditLogSuccess = createAction<AuditLogPage>('audit/GET_SUCCESS');
+export const doGetAuditLogFailed = createAction<Error | undefined>('audit/GET_FAILED');
+
+/**
+ * Get AuditLog Thunk action
+ * @param filters entity, action, date range and page filters
+ */
+export const requestGetAuditLog = (filters: AuditLogFilters = {}): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetAuditLog(filters));
+      // Request
+      const response = await backend.get<AuditLogPage>(`/audit`, { params: filters });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetAuditLogSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetAuditLogFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetAuditLogFailed(error));
+    }
+  };
+};
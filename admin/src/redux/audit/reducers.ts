@@ -0,0 +1,38 @@
+import { createReducer } from '@reduxjs/toolkit';
+import { doGetAuditLog, doGetAuditLogSuccess, doGetAuditLogFailed } from './actions';
+import { AuditLog, AuditLogFilters } from '../../interfaces/auditLog';
+
+export interface AuditReducerState {
+  list: AuditLog[];
+  count: number;
+  filters: AuditLogFilters;
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  count: 0,
+  filters: { page: 1, pageSize: 50 },
+  loading: false
+};
+
+export default createReducer<AuditReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetAuditLog, (state, action) => {
+      state.loading = true;
+      state.error = undefined;
+      state.filters = action.payload;
+    })
+    .addCase(doGetAuditLogSuccess, (state, action) => {
+      state.loading = false;
+      state.list = action.payload.rows;
+      state.count = action.payload.count;
+      state.filters = { ...state.filters, page: action.payload.page, pageSize: action.payload.pageSize };
+    })
+    .addCase(doGetAuditLogFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
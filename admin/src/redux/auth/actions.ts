@@ -1,8 +1,8 @@
 import { createAction } from '@reduxjs/toolkit';
-import { TokenResponse } from '../../interfaces/auth';
+import { TokenResponse, UserTokenInfo } from '../../interfaces/auth';
 import { ThunkResult } from '../store';
 import { backend } from '../../utils/networking';
-import { getRefresh, setAuthorization, setRefresh } from '../../utils/auth';
+import { getRefresh, refreshAuthorization, setAuthorization, setRefresh, setSelectedCity } from '../../utils/auth';
 import { logging } from '../../lib/logging';
 
 // Simple actions and types
@@ -15,12 +15,22 @@ export const doGetTokenSuccess = createAction<TokenResponse>('auth/GET_TOKEN_SUC
 export const doGetTokenFailed = createAction<Error | undefined>('auth/GET_TOKEN_FAILED');
 
 /**
- * Logout user thunk action
+ * Logout user thunk action, the session is revoked on the backend
  */
 export const requestLogout = (): ThunkResult<void> => {
   return async (dispatch) => {
+    const refreshToken = getRefresh();
+    if (refreshToken) {
+      try {
+        await backend.post<void>('/auth/logout', { refreshToken });
+      } catch (error) {
+        // The local session is removed even if the backend is unavailable
+        logging.error(error);
+      }
+    }
     setAuthorization();
     setRefresh();
+    setSelectedCity();
     logging.removePerson();
     dispatch(doLogoutUser());
   };
@@ -66,6 +76,9 @@ export const requestLoginUser = (email: string, password: string): ThunkResult<v
           case 404:
             error.message = 'Usuário não econtrado.';
             break;
+          case 423:
+            error.message = 'Usuário bloqueado por excesso de tentativas, tente novamente mais tarde.';
+            break;
         }
       } else {
         error.message = 'Ocorreu um erro inesperado.';
@@ -92,12 +105,10 @@ export const requestGetToken = (): ThunkResult<void> => {
         dispatch(doGetTokenFailed());
         return;
       }
-      const response = await backend.post<TokenResponse>('/auth/token', { refreshToken });
-      if (response && response.data) {
+      const response = await refreshAuthorization(backend);
+      if (response) {
         // Request finished
-        setAuthorization(response.data.token);
-        setRefresh(response.data.refreshToken);
-        dispatch(doGetTokenSuccess(response.data)); // Dispatch result
+        dispatch(doGetTokenSuccess(response)); // Dispatch result
       } else {
         // Request without response - probably won't happen, but cancel the request
         setAuthorization();
@@ -113,3 +124,106 @@ export const requestGetToken = (): ThunkResult<void> => {
     }
   };
 };
+
+/**
+ * Get the error message sent by the backend
+ * @param error request error
+ * @returns error with the backend message
+ */
+const getResponseError = (error: Error & { response?: { data?: unknown } }) => {
+  if (error.response?.data && typeof error.response.data === 'string') {
+    error.message = error.response.data;
+  } else {
+    error.message = 'Ocorreu um erro inesperado.';
+  }
+  return error;
+};
+
+/**
+ * Change the password of the logged user, required when the password was defined by an admin
+ */
+export const requestChangePassword = (
+  email: string,
+  password: string,
+  newPassword: string,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doLoginUser());
+      const response = await backend.post<TokenResponse>('/auth/change-password', { email, password, newPassword });
+      if (response && response.data) {
+        // Request finished, the other sessions were revoked so the new tokens replace the current ones
+        setAuthorization(response.data.token);
+        setRefresh(response.data.refreshToken);
+        dispatch(doLoginUserSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doLoginUserFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: keep the user on the page to try again
+      logging.error(error);
+      dispatch(doLoginUserFailed(getResponseError(error)));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Request the password reset link by email
+ */
+export const requestForgotPassword = (
+  email: string,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async () => {
+    try {
+      await backend.post<void>('/auth/forgot-password', { email });
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      logging.error(error);
+      if (onFailure) onFailure(getResponseError(error));
+    }
+  };
+};
+
+/**
+ * Check a password reset or invitation link
+ */
+export const requestGetUserToken = (
+  token: string,
+  onSuccess?: (info: UserTokenInfo) => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async () => {
+    try {
+      const response = await backend.get<UserTokenInfo>('/auth/reset-password', { params: { token } });
+      if (onSuccess) onSuccess(response.data);
+    } catch (error) {
+      if (onFailure) onFailure(getResponseError(error));
+    }
+  };
+};
+
+/**
+ * Choose a new password using a password reset or invitation link
+ */
+export const requestResetPassword = (
+  token: string,
+  password: string,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async () => {
+    try {
+      await backend.post<void>('/auth/reset-password', { token, password });
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      if (onFailure) onFailure(getResponseError(error));
+    }
+  };
+};
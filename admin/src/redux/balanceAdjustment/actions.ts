@@ -0,0 +1,118 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import {
+  BalanceAdjustment,
+  BalanceAdjustmentRequest,
+  BalanceAdjustmentStatus
+} from '../../interfaces/balanceAdjustment';
+import { Family } from '../../interfaces/family';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetBalanceAdjustment = createAction<void>('balanceAdjustment/GET');
+export const doGetBalanceAdjustmentSuccess = createAction<BalanceAdjustment[]>('balanceAdjustment/GET_SUCCESS');
+export const doGetBalanceAdjustmentFailed = createAction<Error | undefined>('balanceAdjustment/GET_FAILED');
+
+export const doSaveBalanceAdjustment = createAction<void>('balanceAdjustment/SAVE');
+export const doSaveBalanceAdjustmentSuccess = createAction<BalanceAdjustment>('balanceAdjustment/SAVE_SUCCESS');
+export const doSaveBalanceAdjustmentFailed = createAction<Error | undefined>('balanceAdjustment/SAVE_FAILED');
+
+/**
+ * Get BalanceAdjustment Thunk action
+ */
+export const requestGetBalanceAdjustment = (status?: BalanceAdjustmentStatus): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetBalanceAdjustment());
+      // Request
+      const response = await backend.get<BalanceAdjustment[]>(`/adjustments`, { params: { status } });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetBalanceAdjustmentSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetBalanceAdjustmentFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetBalanceAdjustmentFailed(error));
+    }
+  };
+};
+
+/**
+ * Request a new BalanceAdjustment Thunk action, the family is found by the NIS when the ID is not sent
+ */
+export const requestCreateBalanceAdjustment = (
+  item: BalanceAdjustmentRequest,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveBalanceAdjustment());
+      let familyId = item.familyId;
+      if (!familyId) {
+        const family = await backend.get<Family>(`/families`, { params: { nis: item.responsibleNis } });
+        familyId = family.data.id;
+      }
+      // Request
+      const response = await backend.post<BalanceAdjustment>(`/adjustments`, {
+        familyId,
+        value: item.value,
+        products: item.products,
+        reason: item.reason
+      });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveBalanceAdjustmentSuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveBalanceAdjustmentFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveBalanceAdjustmentFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Approve or reject a BalanceAdjustment Thunk action
+ */
+export const requestReviewBalanceAdjustment = (
+  id: number | string,
+  action: 'approve' | 'reject',
+  reviewNote?: string,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveBalanceAdjustment());
+      // Request
+      const response = await backend.post<BalanceAdjustment>(`/adjustments/${id}/${action}`, { reviewNote });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveBalanceAdjustmentSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveBalanceAdjustmentFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveBalanceAdjustmentFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
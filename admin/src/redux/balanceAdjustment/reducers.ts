@@ -0,0 +1,54 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetBalanceAdjustment,
+  doGetBalanceAdjustmentSuccess,
+  doGetBalanceAdjustmentFailed,
+  doSaveBalanceAdjustment,
+  doSaveBalanceAdjustmentSuccess,
+  doSaveBalanceAdjustmentFailed
+} from './actions';
+import { BalanceAdjustment } from '../../interfaces/balanceAdjustment';
+import { addToList } from '../../utils/list';
+
+export interface BalanceAdjustmentReducerState {
+  list: BalanceAdjustment[];
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false
+};
+
+export default createReducer<BalanceAdjustmentReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetBalanceAdjustment, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetBalanceAdjustmentSuccess, (state, action) => {
+      state.loading = false;
+      state.list = addToList(null, action.payload);
+    })
+    .addCase(doGetBalanceAdjustmentFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Save actions, used by the request and the review
+    .addCase(doSaveBalanceAdjustment, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doSaveBalanceAdjustmentSuccess, (state, action) => {
+      state.loading = false;
+      // The review response doesn't have the joins, they are kept from the listed item
+      const previous = state.list.find((item) => item.id === action.payload.id);
+      state.list = addToList({ ...previous, ...action.payload }, state.list);
+    })
+    .addCase(doSaveBalanceAdjustmentFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
@@ -0,0 +1,170 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { BenefitPolicy, BenefitPolicyException, PolicyRules } from '../../interfaces/benefitPolicy';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetBenefitPolicy = createAction<void>('benefitPolicy/GET');
+export const doGetBenefitPolicySuccess = createAction<{ current: PolicyRules; versions: BenefitPolicy[] }>(
+  'benefitPolicy/GET_SUCCESS'
+);
+export const doGetBenefitPolicyFailed = createAction<Error | undefined>('benefitPolicy/GET_FAILED');
+
+export const doSaveBenefitPolicy = createAction<void>('benefitPolicy/SAVE');
+export const doSaveBenefitPolicySuccess = createAction<BenefitPolicy>('benefitPolicy/SAVE_SUCCESS');
+export const doSaveBenefitPolicyFailed = createAction<Error | undefined>('benefitPolicy/SAVE_FAILED');
+
+export const doGetPolicyException = createAction<void>('benefitPolicy/GET_EXCEPTION');
+export const doGetPolicyExceptionSuccess = createAction<BenefitPolicyException[]>(
+  'benefitPolicy/GET_EXCEPTION_SUCCESS'
+);
+export const doGetPolicyExceptionFailed = createAction<Error | undefined>('benefitPolicy/GET_EXCEPTION_FAILED');
+
+export const doSavePolicyException = createAction<void>('benefitPolicy/SAVE_EXCEPTION');
+export const doSavePolicyExceptionSuccess = createAction<BenefitPolicyException>(
+  'benefitPolicy/SAVE_EXCEPTION_SUCCESS'
+);
+export const doSavePolicyExceptionFailed = createAction<Error | undefined>('benefitPolicy/SAVE_EXCEPTION_FAILED');
+
+export const doDeletePolicyException = createAction<void>('benefitPolicy/DELETE_EXCEPTION');
+export const doDeletePolicyExceptionSuccess = createAction<{ id: number | string }>(
+  'benefitPolicy/DELETE_EXCEPTION_SUCCESS'
+);
+export const doDeletePolicyExceptionFailed = createAction<Error | undefined>('benefitPolicy/DELETE_EXCEPTION_FAILED');
+
+/**
+ * Get the BenefitPolicy versions Thunk action
+ */
+export const requestGetBenefitPolicy = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetBenefitPolicy());
+      // Request
+      const response = await backend.get<{ current: PolicyRules; versions: BenefitPolicy[] }>(`/benefit-policies`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetBenefitPolicySuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetBenefitPolicyFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetBenefitPolicyFailed(error));
+    }
+  };
+};
+
+/**
+ * Create a new BenefitPolicy version Thunk action
+ */
+export const requestCreateBenefitPolicy = (
+  item: Omit<BenefitPolicy, 'id'>,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveBenefitPolicy());
+      // Request
+      const response = await backend.post<BenefitPolicy>(`/benefit-policies`, { ...item });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveBenefitPolicySuccess(response.data)); // Dispatch result
+        // The current rules can change with the new version
+        dispatch(requestGetBenefitPolicy());
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveBenefitPolicyFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveBenefitPolicyFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Get the exceptions list Thunk action
+ */
+export const requestGetPolicyException = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetPolicyException());
+      // Request
+      const response = await backend.get<BenefitPolicyException[]>(`/benefit-policies/exceptions`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetPolicyExceptionSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetPolicyExceptionFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetPolicyExceptionFailed(error));
+    }
+  };
+};
+
+/**
+ * Add an item to the exceptions list Thunk action
+ */
+export const requestCreatePolicyException = (
+  item: Pick<BenefitPolicyException, 'type' | 'value' | 'reason'>,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSavePolicyException());
+      // Request
+      const response = await backend.post<BenefitPolicyException>(`/benefit-policies/exceptions`, { ...item });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSavePolicyExceptionSuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSavePolicyExceptionFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSavePolicyExceptionFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Remove an item of the exceptions list Thunk action
+ */
+export const requestDeletePolicyException = (id: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doDeletePolicyException());
+      // Request
+      await backend.delete(`/benefit-policies/exceptions/${id}`);
+      // Request finished
+      dispatch(doDeletePolicyExceptionSuccess({ id })); // Dispatch result
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doDeletePolicyExceptionFailed(error));
+    }
+  };
+};
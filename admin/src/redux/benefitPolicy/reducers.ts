@@ -0,0 +1,105 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetBenefitPolicy,
+  doGetBenefitPolicySuccess,
+  doGetBenefitPolicyFailed,
+  doSaveBenefitPolicy,
+  doSaveBenefitPolicySuccess,
+  doSaveBenefitPolicyFailed,
+  doGetPolicyException,
+  doGetPolicyExceptionSuccess,
+  doGetPolicyExceptionFailed,
+  doSavePolicyException,
+  doSavePolicyExceptionSuccess,
+  doSavePolicyExceptionFailed,
+  doDeletePolicyException,
+  doDeletePolicyExceptionSuccess,
+  doDeletePolicyExceptionFailed
+} from './actions';
+import { BenefitPolicy, BenefitPolicyException, PolicyRules } from '../../interfaces/benefitPolicy';
+
+export interface BenefitPolicyReducerState {
+  // Rules effective today
+  current?: PolicyRules;
+  versions: BenefitPolicy[];
+  loading: boolean;
+  error?: Error;
+  exceptions: BenefitPolicyException[];
+  exceptionsLoading: boolean;
+  exceptionsError?: Error;
+}
+
+const initialState = {
+  versions: [],
+  loading: false,
+  exceptions: [],
+  exceptionsLoading: false
+};
+
+export default createReducer<BenefitPolicyReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetBenefitPolicy, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetBenefitPolicySuccess, (state, action) => {
+      state.loading = false;
+      state.current = action.payload.current;
+      state.versions = action.payload.versions;
+    })
+    .addCase(doGetBenefitPolicyFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Save actions
+    .addCase(doSaveBenefitPolicy, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doSaveBenefitPolicySuccess, (state, action) => {
+      state.loading = false;
+      state.versions = [action.payload, ...state.versions];
+    })
+    .addCase(doSaveBenefitPolicyFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Exceptions actions
+    .addCase(doGetPolicyException, (state) => {
+      state.exceptionsLoading = true;
+      state.exceptionsError = undefined;
+    })
+    .addCase(doGetPolicyExceptionSuccess, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptions = action.payload;
+    })
+    .addCase(doGetPolicyExceptionFailed, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptionsError = action.payload;
+    })
+    .addCase(doSavePolicyException, (state) => {
+      state.exceptionsLoading = true;
+      state.exceptionsError = undefined;
+    })
+    .addCase(doSavePolicyExceptionSuccess, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptions = [...state.exceptions, action.payload];
+    })
+    .addCase(doSavePolicyExceptionFailed, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptionsError = action.payload;
+    })
+    .addCase(doDeletePolicyException, (state) => {
+      state.exceptionsLoading = true;
+      state.exceptionsError = undefined;
+    })
+    .addCase(doDeletePolicyExceptionSuccess, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptions = state.exceptions.filter((item) => item.id !== action.payload.id);
+    })
+    .addCase(doDeletePolicyExceptionFailed, (state, action) => {
+      state.exceptionsLoading = false;
+      state.exceptionsError = action.payload;
+    })
+);
@@ -0,0 +1,143 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { BenefitProgram, BenefitProgramOccurrence, OccurrenceOverride } from '../../interfaces/benefitProgram';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetBenefitProgram = createAction<void>('benefitProgram/GET');
+export const doGetBenefitProgramSuccess = createAction<BenefitProgram | BenefitProgram[]>('benefitProgram/GET_SUCCESS');
+export const doGetBenefitProgramFailed = createAction<Error | undefined>('benefitProgram/GET_FAILED');
+
+export const doSaveBenefitProgram = createAction<void>('benefitProgram/SAVE');
+export const doSaveBenefitProgramSuccess = createAction<BenefitProgram>('benefitProgram/SAVE_SUCCESS');
+export const doSaveBenefitProgramFailed = createAction<Error | undefined>('benefitProgram/SAVE_FAILED');
+
+export const doGetProgramOccurrence = createAction<void>('benefitProgram/GET_OCCURRENCE');
+export const doGetProgramOccurrenceSuccess = createAction<BenefitProgramOccurrence[]>(
+  'benefitProgram/GET_OCCURRENCE_SUCCESS'
+);
+export const doGetProgramOccurrenceFailed = createAction<Error | undefined>('benefitProgram/GET_OCCURRENCE_FAILED');
+
+/**
+ * Get BenefitProgram Thunk action
+ */
+export const requestGetBenefitProgram = (id?: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetBenefitProgram());
+      // Request
+      const response = await backend.get<BenefitProgram | BenefitProgram[]>(`/benefit-programs/${id || ''}`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetBenefitProgramSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetBenefitProgramFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetBenefitProgramFailed(error));
+    }
+  };
+};
+
+/**
+ * Save BenefitProgram Thunk action
+ */
+export const requestSaveBenefitProgram = (
+  item: BenefitProgram,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveBenefitProgram());
+      // Request
+      let response;
+      if (item.id) {
+        response = await backend.put<BenefitProgram>(`/benefit-programs/${item.id}`, { ...item });
+      } else {
+        response = await backend.post<BenefitProgram>(`/benefit-programs`, { ...item });
+      }
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveBenefitProgramSuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveBenefitProgramFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveBenefitProgramFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Get the occurrences of a program Thunk action
+ */
+export const requestGetProgramOccurrence = (programId: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetProgramOccurrence());
+      // Request
+      const response = await backend.get<BenefitProgramOccurrence[]>(`/benefit-programs/${programId}/occurrences`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetProgramOccurrenceSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetProgramOccurrenceFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetProgramOccurrenceFailed(error));
+    }
+  };
+};
+
+/**
+ * Change an upcoming occurrence Thunk action: skip, override or restore the program values
+ *
+ * The list is fetched again after the change, because the response has only the stored occurrence
+ */
+export const requestChangeProgramOccurrence = (
+  programId: number | string,
+  date: string,
+  change:
+    | { action: 'skip'; note?: string }
+    | { action: 'override'; values: OccurrenceOverride }
+    | { action: 'restore' },
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetProgramOccurrence());
+      // Request
+      const path = `/benefit-programs/${programId}/occurrences/${date}`;
+      if (change.action === 'skip') await backend.post(`${path}/skip`, { note: change.note });
+      else if (change.action === 'override') await backend.post(`${path}/override`, { ...change.values });
+      else await backend.delete(path);
+      // Request finished
+      dispatch(requestGetProgramOccurrence(programId));
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetProgramOccurrenceFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
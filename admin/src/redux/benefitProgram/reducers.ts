@@ -0,0 +1,82 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetBenefitProgram,
+  doGetBenefitProgramSuccess,
+  doGetBenefitProgramFailed,
+  doSaveBenefitProgram,
+  doSaveBenefitProgramSuccess,
+  doSaveBenefitProgramFailed,
+  doGetProgramOccurrence,
+  doGetProgramOccurrenceSuccess,
+  doGetProgramOccurrenceFailed
+} from './actions';
+import { BenefitProgram, BenefitProgramOccurrence } from '../../interfaces/benefitProgram';
+import { addToList } from '../../utils/list';
+
+export interface BenefitProgramReducerState {
+  list: BenefitProgram[];
+  loading: boolean;
+  error?: Error;
+  // Occurrences of the program being viewed
+  occurrences: BenefitProgramOccurrence[];
+  occurrencesLoading: boolean;
+  occurrencesError?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false,
+  occurrences: [],
+  occurrencesLoading: false
+};
+
+export default createReducer<BenefitProgramReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetBenefitProgram, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetBenefitProgramSuccess, (state, action) => {
+      state.loading = false;
+      if (Array.isArray(action.payload)) {
+        // User got the list
+        state.list = addToList(null, action.payload);
+      } else {
+        // User got a single item
+        state.list = addToList(action.payload, state.list);
+      }
+    })
+    .addCase(doGetBenefitProgramFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Save actions
+    .addCase(doSaveBenefitProgram, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doSaveBenefitProgramSuccess, (state, action) => {
+      state.loading = false;
+      // The save response doesn't have the joins, they are kept from the listed item
+      const previous = state.list.find((item) => item.id === action.payload.id);
+      state.list = addToList({ ...previous, ...action.payload }, state.list);
+    })
+    .addCase(doSaveBenefitProgramFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Occurrences actions
+    .addCase(doGetProgramOccurrence, (state) => {
+      state.occurrencesLoading = true;
+      state.occurrencesError = undefined;
+    })
+    .addCase(doGetProgramOccurrenceSuccess, (state, action) => {
+      state.occurrencesLoading = false;
+      state.occurrences = action.payload;
+    })
+    .addCase(doGetProgramOccurrenceFailed, (state, action) => {
+      state.occurrencesLoading = false;
+      state.occurrencesError = action.payload;
+    })
+);
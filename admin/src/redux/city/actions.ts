@@ -0,0 +1,35 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { City } from '../../interfaces/city';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetCity = createAction<void>('city/GET');
+export const doGetCitySuccess = createAction<City[]>('city/GET_SUCCESS');
+export const doGetCityFailed = createAction<Error | undefined>('city/GET_FAILED');
+
+/**
+ * Get City Thunk action
+ */
+export const requestGetCity = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetCity());
+      // Request
+      const response = await backend.get<City[]>(`/cities`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetCitySuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetCityFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetCityFailed(error));
+    }
+  };
+};
@@ -0,0 +1,31 @@
+import { createReducer } from '@reduxjs/toolkit';
+import { doGetCity, doGetCitySuccess, doGetCityFailed } from './actions';
+import { City } from '../../interfaces/city';
+
+export interface CityReducerState {
+  list: City[];
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false
+};
+
+export default createReducer<CityReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetCity, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetCitySuccess, (state, action) => {
+      state.loading = false;
+      state.list = action.payload;
+    })
+    .addCase(doGetCityFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
@@ -4,8 +4,9 @@ import { ThunkResult } from '../store';
 import path from 'path';
 import { CSVReport } from '../../interfaces/csvReport';
 import { DashboardFamily } from '../../interfaces/dashboardFamily';
-import { Family, ImportReport } from '../../interfaces/family';
+import { Family, FamilyStatement, ImportReport, ImportUploadResult } from '../../interfaces/family';
 import { User } from '../../interfaces/user';
+import { AgeOutNotice } from '../../interfaces/dependent';
 import { logging } from '../../lib/logging';
 
 export const doUploadFamilyFile = createAction<void>('families/UPLOAD');
@@ -18,9 +19,11 @@ export const doUploadFamilyUpdateFileSuccess = createAction<CSVReport>('families
 export const doUploadFamilyUpdateFileFailed = createAction<string | undefined>('families/UPLOAD_UPDATE_FILE_FAILED');
 
 export const doUploadSislameFiles = createAction<void>('families/UPLOAD_SISLAME');
-export const doUploadSislameFilesSuccess = createAction<{ uploaded: boolean }>('families/UPLOAD_SISLAME_SUCCESS');
+export const doUploadSislameFilesSuccess = createAction<ImportUploadResult>('families/UPLOAD_SISLAME_SUCCESS');
 export const doUploadSislameFilesFailed = createAction<string | undefined>('families/UPLOAD_SISLAME_FAILED');
 
+export const doGetImportDiffSuccess = createAction<ImportUploadResult>('families/GET_IMPORT_DIFF_SUCCESS');
+
 export const doGetImportReport = createAction<void>('families/GET_IMPORT_REPORT');
 export const doGetImportReportSuccess = createAction<ImportReport>('families/GET_IMPORT_REPORT_SUCCESS');
 export const doGetImportReportFailed = createAction<string | undefined>('families/GET_IMPORT_REPORT_FAILED');
@@ -49,6 +52,14 @@ export const doGetFileFamily = createAction<void>('families/GET');
 export const doGetFileFamilySuccess = createAction<File | null>('families/GET_SUCCESS');
 export const doGetFileFamilyFailed = createAction<Error | undefined>('families/GET_FAILED');
 
+export const doGetFamilyStatement = createAction<void>('family/GET_STATEMENT');
+export const doGetFamilyStatementSuccess = createAction<FamilyStatement>('family/GET_STATEMENT_SUCCESS');
+export const doGetFamilyStatementFailed = createAction<Error | undefined>('family/GET_STATEMENT_FAILED');
+
+export const doGetAgeOuts = createAction<void>('families/GET_AGE_OUTS');
+export const doGetAgeOutsSuccess = createAction<AgeOutNotice[]>('families/GET_AGE_OUTS_SUCCESS');
+export const doGetAgeOutsFailed = createAction<Error | undefined>('families/GET_AGE_OUTS_FAILED');
+
 /**
  * Get family Thunk action
  */
@@ -58,6 +69,22 @@ export const requestClearFamily = (): ThunkResult<void> => {
   };
 };
 
+/**
+ * Get the diff of a finished dry run import Thunk action
+ */
+export const requestGetImportDiff = (id: NonNullable<ImportReport['id']>): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      const response = await backend.get<ImportUploadResult>(`/families/imports/${id}/diff`);
+      if (response && response.data) {
+        dispatch(doGetImportDiffSuccess(response.data));
+      }
+    } catch (error) {
+      logging.error(error);
+    }
+  };
+};
+
 /**
  * Get current import report Thunk action
  */
@@ -83,6 +110,60 @@ export const requestGetFileFamilies = (date?: Date | string): ThunkResult<void>
   };
 };
 
+/**
+ * Get the family statement Thunk action
+ * @param id family unique ID
+ * @param from optional start of the period
+ * @param to optional end of the period
+ */
+export const requestGetFamilyStatement = (id: string | number, from?: string, to?: string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetFamilyStatement());
+      // Request
+      const response = await backend.get<FamilyStatement>(`/families/${id}/statement`, { params: { from, to } });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetFamilyStatementSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetFamilyStatementFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetFamilyStatementFailed(error));
+    }
+  };
+};
+
+/**
+ * Get the dependents that leave their group because of the age limit Thunk action
+ * @param months number of months ahead
+ */
+export const requestGetAgeOuts = (months?: number): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetAgeOuts());
+      // Request
+      const response = await backend.get<AgeOutNotice[]>(`/families/age-outs`, { params: { months } });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetAgeOutsSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetAgeOutsFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetAgeOutsFailed(error));
+    }
+  };
+};
+
 /**
  * Save User Thunk action
  */
@@ -164,6 +245,12 @@ export const requestGetImportReport = (): ThunkResult<void> => {
         if (!response.data.inProgress) {
           dispatch(requestStopImportReportSync());
         }
+        // The diff of a finished dry run is kept on the import, waiting for the approval
+        const { id, dryRun, status } = response.data;
+        const importDryRun = getState().familiesReducer.importDryRun;
+        if (id && dryRun && status === 'Finalizado' && (importDryRun?.id !== id || !importDryRun.diff)) {
+          dispatch(requestGetImportDiff(id));
+        }
       } else {
         // Request without response - probably won't happen, but cancel the request
         dispatch(doGetImportReportFailed());
@@ -206,6 +293,7 @@ export const requestUploadSislameFile = (
   familyFile: File,
   sislameFile: File,
   nurseryFile: File,
+  dryRun?: boolean,
   onSuccess?: () => void,
   onFailure?: (error?: string) => void
 ): ThunkResult<void> => {
@@ -236,7 +324,10 @@ export const requestUploadSislameFile = (
           data.append('nursery', nurseryFile);
 
           // Request
-          const response = await backend.post<{ uploaded: boolean }>(`/families/file-sislame`, data);
+          const response = await backend.post<ImportUploadResult>(`/families/file-sislame`, data, {
+            params: { dryRun },
+            timeout: 1000 * 60 * 60 * 6
+          });
           if (response && response.data && response.status === 200) {
             // Request finished
             dispatch(doUploadSislameFilesSuccess(response.data)); // Dispatch result
@@ -259,6 +350,46 @@ export const requestUploadSislameFile = (
   };
 };
 
+/**
+ * Run again a stored import Thunk action, retrying a failed import or approving a dry run
+ */
+export const requestRunStoredImport = (
+  id: NonNullable<ImportReport['id']>,
+  action: 'retry' | 'commit',
+  onSuccess?: () => void,
+  onFailure?: (error?: string) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    /**
+     * Calls the failure functions
+     * @param error The error string
+     */
+    const onError = (error?: string) => {
+      dispatch(doUploadSislameFilesFailed(error));
+      if (onFailure) onFailure(error);
+    };
+
+    try {
+      // Start request - starting loading state
+      dispatch(doUploadSislameFiles());
+      // Request
+      const response = await backend.post<ImportUploadResult>(`/families/imports/${id}/${action}`);
+      if (response && response.data && response.status === 200) {
+        // Request finished
+        dispatch(doUploadSislameFilesSuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+        dispatch(requestStartImportReportSync());
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        onError(`Ocorreu um erro no servidor. Tente novamente.`);
+      }
+    } catch (error) {
+      logging.error(error);
+      onError(error.message);
+    }
+  };
+};
+
 /**
  * Get darshboardFamily Thunk action
  */
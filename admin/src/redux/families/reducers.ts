@@ -25,15 +25,23 @@ import {
   doUploadSislameFiles,
   doUploadSislameFilesSuccess,
   doUploadSislameFilesFailed,
+  doGetImportDiffSuccess,
   doGetFileFamily,
   doGetFileFamilySuccess,
   doGetFileFamilyFailed,
   doUploadFamilyUpdateFile,
   doUploadFamilyUpdateFileSuccess,
-  doUploadFamilyUpdateFileFailed
+  doUploadFamilyUpdateFileFailed,
+  doGetFamilyStatement,
+  doGetFamilyStatementSuccess,
+  doGetFamilyStatementFailed,
+  doGetAgeOuts,
+  doGetAgeOutsSuccess,
+  doGetAgeOutsFailed
 } from './actions';
 import { DashboardFamily } from '../../interfaces/dashboardFamily';
-import { Family, ImportReport } from '../../interfaces/family';
+import { Family, FamilyStatement, ImportReport, ImportUploadResult } from '../../interfaces/family';
+import { AgeOutNotice } from '../../interfaces/dependent';
 import { addToList } from '../../utils/list';
 
 export interface FamilyReducerState {
@@ -59,8 +67,17 @@ export interface FamilyReducerState {
 
   importReportLoading: boolean;
   importReport?: ImportReport;
+  importDryRun?: ImportUploadResult;
 
   importSyncInterval?: ReturnType<typeof setInterval>;
+
+  statementLoading: boolean;
+  statement?: FamilyStatement;
+  statementError?: Error;
+
+  ageOutsLoading: boolean;
+  ageOuts: AgeOutNotice[];
+  ageOutsError?: Error;
 }
 
 const initialState = {
@@ -70,11 +87,42 @@ const initialState = {
   dashboardLoading: false,
   familyLoading: false,
   familySaveLoading: false,
-  importReportLoading: false
+  importReportLoading: false,
+  statementLoading: false,
+  ageOutsLoading: false,
+  ageOuts: []
 };
 
 export default createReducer<FamilyReducerState>(initialState, (builder) =>
   builder
+    // Get statement
+    .addCase(doGetFamilyStatement, (state) => {
+      state.statementLoading = true;
+      state.statementError = undefined;
+    })
+    .addCase(doGetFamilyStatementSuccess, (state, action) => {
+      state.statementLoading = false;
+      state.statement = action.payload;
+    })
+    .addCase(doGetFamilyStatementFailed, (state, action) => {
+      state.statementLoading = false;
+      state.statement = undefined;
+      state.statementError = action.payload;
+    })
+    // Get age outs
+    .addCase(doGetAgeOuts, (state) => {
+      state.ageOutsLoading = true;
+      state.ageOutsError = undefined;
+    })
+    .addCase(doGetAgeOutsSuccess, (state, action) => {
+      state.ageOutsLoading = false;
+      state.ageOuts = action.payload;
+    })
+    .addCase(doGetAgeOutsFailed, (state, action) => {
+      state.ageOutsLoading = false;
+      state.ageOuts = [];
+      state.ageOutsError = action.payload;
+    })
     // Start / Stop report sync
     .addCase(doStartImportReportSync, (state, action) => {
       state.importSyncInterval = action.payload;
@@ -101,15 +149,21 @@ export default createReducer<FamilyReducerState>(initialState, (builder) =>
       state.loading = true;
       state.error = undefined;
       state.uploadReport = undefined;
+      state.importDryRun = undefined;
     })
-    .addCase(doUploadSislameFilesSuccess, (state) => {
+    .addCase(doUploadSislameFilesSuccess, (state, action) => {
       state.loading = false;
       state.error = undefined;
+      state.importDryRun = action.payload.dryRun ? action.payload : undefined;
+    })
+    .addCase(doGetImportDiffSuccess, (state, action) => {
+      state.importDryRun = action.payload;
     })
     .addCase(doUploadSislameFilesFailed, (state, action) => {
       state.loading = false;
       state.error = action.payload;
       state.uploadReport = undefined;
+      state.importDryRun = undefined;
     })
     // Get actions
     .addCase(doUploadFamilyFile, (state) => {
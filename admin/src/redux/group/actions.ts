@@ -46,7 +46,7 @@ export const requestGetGroup = (id?: number): ThunkResult<void> => {
  * Save Group Thunk action
  */
 export const requestSaveGroup = (
-  item: Pick<Group, 'title' | 'id'>,
+  item: Pick<Group, 'title' | 'id' | 'eligibilityRules' | 'priority' | 'maxDependentAge'>,
   onSuccess?: () => void,
   onFailure?: (error?: Error) => void
 ): ThunkResult<void> => {
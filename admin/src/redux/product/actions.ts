@@ -1,7 +1,7 @@
 import { createAction } from '@reduxjs/toolkit';
 import { ThunkResult } from '../store';
 import { backend } from '../../utils/networking';
-import { Product } from '../../interfaces/product';
+import { Product, ProductAlias } from '../../interfaces/product';
 import { logging } from '../../lib/logging';
 
 // Simple actions and types
@@ -19,6 +19,18 @@ export const doSaveProductSuccess = createAction<Product>('product/SAVE_SUCCESS'
 export const doSaveProductValidSuccess = createAction<Product>('product/SAVE_VALID_SUCCESS');
 export const doSaveProductFailed = createAction<Error | undefined>('product/SAVE_FAILED');
 
+export const doGetProductAliases = createAction<void>('product/GET_ALIASES');
+export const doGetProductAliasesSuccess = createAction<ProductAlias[]>('product/GET_ALIASES_SUCCESS');
+export const doGetProductAliasesFailed = createAction<Error | undefined>('product/GET_ALIASES_FAILED');
+
+export const doReviewProductAlias = createAction<void>('product/REVIEW_ALIAS');
+export const doReviewProductAliasSuccess = createAction<ProductAlias>('product/REVIEW_ALIAS_SUCCESS');
+export const doReviewProductAliasFailed = createAction<Error | undefined>('product/REVIEW_ALIAS_FAILED');
+
+export const doAssignProductCategory = createAction<void>('product/ASSIGN_CATEGORY');
+export const doAssignProductCategorySuccess = createAction<Product[]>('product/ASSIGN_CATEGORY_SUCCESS');
+export const doAssignProductCategoryFailed = createAction<Error | undefined>('product/ASSIGN_CATEGORY_FAILED');
+
 export const doDeleteProduct = createAction<void>('product/DELETE');
 export const doDeleteProductSuccess = createAction<{ id: number }>('product/DELETE_SUCCESS');
 export const doDeleteProductFailed = createAction<Error | undefined>('product/DELETE_FAILED');
@@ -116,6 +128,98 @@ export const requestSaveProduct = (
   };
 };
 
+/**
+ * Get the product aliases waiting for review Thunk action
+ */
+export const requestGetProductAliases = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetProductAliases());
+      // Request
+      const response = await backend.get<ProductAlias[]>(`/products/aliases`, { params: { status: 'pending' } });
+
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetProductAliasesSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetProductAliasesFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetProductAliasesFailed(error));
+    }
+  };
+};
+
+/**
+ * Approve or reject a product alias Thunk action
+ */
+export const requestReviewProductAlias = (
+  id: NonNullable<ProductAlias['id']>,
+  approve: boolean,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doReviewProductAlias());
+      // Request
+      const response = await backend.put<ProductAlias>(`/products/aliases/${id}`, { approve });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doReviewProductAliasSuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doReviewProductAliasFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doReviewProductAliasFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Move a list of products to a category Thunk action
+ */
+export const requestAssignProductCategory = (
+  ids: NonNullable<Product['id']>[],
+  categoryId: NonNullable<Product['categoryId']>,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doAssignProductCategory());
+      // Request
+      const response = await backend.put<Product[]>(`/products/category`, { ids, categoryId });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doAssignProductCategorySuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doAssignProductCategoryFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doAssignProductCategoryFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
 /**
  * Delete Product Thunk action
  */
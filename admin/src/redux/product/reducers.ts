@@ -12,14 +12,24 @@ import {
   doSaveProductFailed,
   doDeleteProduct,
   doDeleteProductSuccess,
-  doDeleteProductFailed
+  doDeleteProductFailed,
+  doGetProductAliases,
+  doGetProductAliasesSuccess,
+  doGetProductAliasesFailed,
+  doReviewProductAlias,
+  doReviewProductAliasSuccess,
+  doReviewProductAliasFailed,
+  doAssignProductCategory,
+  doAssignProductCategorySuccess,
+  doAssignProductCategoryFailed
 } from './actions';
-import { Product } from '../../interfaces/product';
+import { Product, ProductAlias } from '../../interfaces/product';
 import { addToList } from '../../utils/list';
 
 export interface ProductReducerState {
   list: Product[];
   listValidate: Product[];
+  aliasReviewList: ProductAlias[];
   loading: boolean;
   error?: Error;
 }
@@ -27,6 +37,7 @@ export interface ProductReducerState {
 const initialState = {
   list: [],
   listValidate: [],
+  aliasReviewList: [],
   loading: false
 };
 
@@ -75,6 +86,42 @@ export default createReducer<ProductReducerState>(initialState, (builder) =>
       state.loading = false;
       state.error = action.payload;
     })
+    // Alias review actions
+    .addCase(doGetProductAliases, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetProductAliasesSuccess, (state, action) => {
+      state.loading = false;
+      state.aliasReviewList = action.payload;
+    })
+    .addCase(doGetProductAliasesFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    .addCase(doReviewProductAlias, (state) => {
+      state.error = undefined;
+    })
+    .addCase(doReviewProductAliasSuccess, (state, action) => {
+      state.aliasReviewList = state.aliasReviewList.filter((item) => item.id !== action.payload.id);
+    })
+    .addCase(doReviewProductAliasFailed, (state, action) => {
+      state.error = action.payload;
+    })
+    // Category actions
+    .addCase(doAssignProductCategory, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doAssignProductCategorySuccess, (state, action) => {
+      state.loading = false;
+      const ids = action.payload.map((item) => item.id);
+      state.listValidate = state.listValidate.filter((item) => ids.indexOf(item.id) < 0);
+    })
+    .addCase(doAssignProductCategoryFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
     // Delete actions
     .addCase(doDeleteProduct, (state) => {
       state.loading = true;
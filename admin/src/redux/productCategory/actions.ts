@@ -0,0 +1,101 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { ProductCategory } from '../../interfaces/productCategory';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetProductCategory = createAction<void>('productCategory/GET');
+export const doGetProductCategorySuccess = createAction<ProductCategory[]>('productCategory/GET_SUCCESS');
+export const doGetProductCategoryFailed = createAction<Error | undefined>('productCategory/GET_FAILED');
+
+export const doSaveProductCategory = createAction<void>('productCategory/SAVE');
+export const doSaveProductCategorySuccess = createAction<ProductCategory>('productCategory/SAVE_SUCCESS');
+export const doSaveProductCategoryFailed = createAction<Error | undefined>('productCategory/SAVE_FAILED');
+
+export const doDeleteProductCategory = createAction<void>('productCategory/DELETE');
+export const doDeleteProductCategorySuccess = createAction<{ id: number }>('productCategory/DELETE_SUCCESS');
+export const doDeleteProductCategoryFailed = createAction<Error | undefined>('productCategory/DELETE_FAILED');
+
+/**
+ * Get ProductCategory Thunk action
+ */
+export const requestGetProductCategory = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetProductCategory());
+      // Request
+      const response = await backend.get<ProductCategory[]>(`/product-categories`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetProductCategorySuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetProductCategoryFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetProductCategoryFailed(error));
+    }
+  };
+};
+
+/**
+ * Save ProductCategory Thunk action
+ */
+export const requestSaveProductCategory = (
+  item: ProductCategory,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveProductCategory());
+
+      // Request
+      let response;
+      if (item.id) {
+        response = await backend.put<ProductCategory>(`/product-categories/${item.id}`, { ...item });
+      } else {
+        response = await backend.post<ProductCategory>(`/product-categories`, { ...item });
+      }
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveProductCategorySuccess(response.data)); // Dispatch result
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveProductCategoryFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveProductCategoryFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
+
+/**
+ * Delete ProductCategory Thunk action
+ */
+export const requestDeleteProductCategory = (id: number): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doDeleteProductCategory());
+      // Request
+      await backend.delete<void>(`/product-categories/${id}`);
+      // Finished
+      dispatch(doDeleteProductCategorySuccess({ id })); // Dispatch result
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doDeleteProductCategoryFailed(error));
+    }
+  };
+};
@@ -0,0 +1,69 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetProductCategory,
+  doGetProductCategorySuccess,
+  doGetProductCategoryFailed,
+  doSaveProductCategory,
+  doSaveProductCategorySuccess,
+  doSaveProductCategoryFailed,
+  doDeleteProductCategory,
+  doDeleteProductCategorySuccess,
+  doDeleteProductCategoryFailed
+} from './actions';
+import { ProductCategory } from '../../interfaces/productCategory';
+
+export interface ProductCategoryReducerState {
+  list: ProductCategory[];
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false
+};
+
+export default createReducer<ProductCategoryReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetProductCategory, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetProductCategorySuccess, (state, action) => {
+      state.loading = false;
+      state.list = action.payload;
+    })
+    .addCase(doGetProductCategoryFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Save actions
+    .addCase(doSaveProductCategory, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doSaveProductCategorySuccess, (state, action) => {
+      state.loading = false;
+      state.list = [...state.list.filter((item) => item.id !== action.payload.id), action.payload].sort((a, b) =>
+        a.name > b.name ? 1 : -1
+      );
+    })
+    .addCase(doSaveProductCategoryFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Delete actions
+    .addCase(doDeleteProductCategory, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doDeleteProductCategorySuccess, (state, action) => {
+      state.loading = false;
+      state.list = state.list.filter((item) => item.id !== action.payload.id);
+    })
+    .addCase(doDeleteProductCategoryFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
@@ -0,0 +1,61 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { PublicBlock } from '../../interfaces/publicBlock';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetPublicBlock = createAction<void>('publicBlock/GET');
+export const doGetPublicBlockSuccess = createAction<PublicBlock[]>('publicBlock/GET_SUCCESS');
+export const doGetPublicBlockFailed = createAction<Error | undefined>('publicBlock/GET_FAILED');
+
+export const doDeletePublicBlock = createAction<void>('publicBlock/DELETE');
+export const doDeletePublicBlockSuccess = createAction<Pick<PublicBlock, 'type' | 'value'>>(
+  'publicBlock/DELETE_SUCCESS'
+);
+export const doDeletePublicBlockFailed = createAction<Error | undefined>('publicBlock/DELETE_FAILED');
+
+/**
+ * Get PublicBlock Thunk action
+ */
+export const requestGetPublicBlock = (): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetPublicBlock());
+      // Request
+      const response = await backend.get<PublicBlock[]>(`/public-blocks`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetPublicBlockSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetPublicBlockFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetPublicBlockFailed(error));
+    }
+  };
+};
+
+/**
+ * Unblock the IP or NIS Thunk action
+ */
+export const requestDeletePublicBlock = (item: Pick<PublicBlock, 'type' | 'value'>): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doDeletePublicBlock());
+      // Request
+      await backend.delete<void>(`/public-blocks/${item.type}/${encodeURIComponent(item.value)}`);
+      // Finished
+      dispatch(doDeletePublicBlockSuccess({ type: item.type, value: item.value })); // Dispatch result
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doDeletePublicBlockFailed(error));
+    }
+  };
+};
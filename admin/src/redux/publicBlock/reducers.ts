@@ -0,0 +1,53 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetPublicBlock,
+  doGetPublicBlockSuccess,
+  doGetPublicBlockFailed,
+  doDeletePublicBlock,
+  doDeletePublicBlockSuccess,
+  doDeletePublicBlockFailed
+} from './actions';
+import { PublicBlock } from '../../interfaces/publicBlock';
+
+export interface PublicBlockReducerState {
+  list: PublicBlock[];
+  loading: boolean;
+  error?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false
+};
+
+export default createReducer<PublicBlockReducerState>(initialState, (builder) =>
+  builder
+    // Get actions
+    .addCase(doGetPublicBlock, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetPublicBlockSuccess, (state, action) => {
+      state.loading = false;
+      state.list = action.payload;
+    })
+    .addCase(doGetPublicBlockFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Delete actions
+    .addCase(doDeletePublicBlock, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doDeletePublicBlockSuccess, (state, action) => {
+      state.loading = false;
+      state.list = state.list.filter(
+        (item) => item.type !== action.payload.type || item.value !== action.payload.value
+      );
+    })
+    .addCase(doDeletePublicBlockFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+);
@@ -13,6 +13,15 @@ import dashboardReducer, { DashboardReducerState } from './dashboard/reducers';
 import consumptionReducer, { ConsumptionReducerState } from './consumption/reducers';
 import productReducer, { ProductReducerState } from './product/reducers';
 import groupReducer, { GroupReducerState } from './group/reducers';
+import productCategoryReducer, { ProductCategoryReducerState } from './productCategory/reducers';
+import auditReducer, { AuditReducerState } from './audit/reducers';
+import apiClientReducer, { ApiClientReducerState } from './apiClient/reducers';
+import publicBlockReducer, { PublicBlockReducerState } from './publicBlock/reducers';
+import cityReducer, { CityReducerState } from './city/reducers';
+import balanceAdjustmentReducer, { BalanceAdjustmentReducerState } from './balanceAdjustment/reducers';
+import benefitPolicyReducer, { BenefitPolicyReducerState } from './benefitPolicy/reducers';
+import benefitProgramReducer, { BenefitProgramReducerState } from './benefitProgram/reducers';
+import stockReducer, { StockReducerState } from './stock/reducers';
 
 type TypeReducers = {
   authReducer: AuthReducerState;
@@ -27,6 +36,15 @@ type TypeReducers = {
   consumptionReducer: ConsumptionReducerState;
   productReducer: ProductReducerState;
   groupReducer: GroupReducerState;
+  productCategoryReducer: ProductCategoryReducerState;
+  auditReducer: AuditReducerState;
+  apiClientReducer: ApiClientReducerState;
+  publicBlockReducer: PublicBlockReducerState;
+  cityReducer: CityReducerState;
+  balanceAdjustmentReducer: BalanceAdjustmentReducerState;
+  benefitPolicyReducer: BenefitPolicyReducerState;
+  benefitProgramReducer: BenefitProgramReducerState;
+  stockReducer: StockReducerState;
 };
 
 const appReducer = combineReducers({
@@ -41,7 +59,16 @@ const appReducer = combineReducers({
   dashboardReducer,
   consumptionReducer,
   productReducer,
-  groupReducer
+  groupReducer,
+  productCategoryReducer,
+  auditReducer,
+  apiClientReducer,
+  publicBlockReducer,
+  cityReducer,
+  balanceAdjustmentReducer,
+  benefitPolicyReducer,
+  benefitProgramReducer,
+  stockReducer
 });
 
 /**
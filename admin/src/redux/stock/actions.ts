@@ -0,0 +1,107 @@
+import { createAction } from '@reduxjs/toolkit';
+import { ThunkResult } from '../store';
+import { backend } from '../../utils/networking';
+import { StockItem, StockMovement, StockMovementFilters, StockMovementRequest } from '../../interfaces/stock';
+import { logging } from '../../lib/logging';
+
+// Simple actions and types
+export const doGetStock = createAction<void>('stock/GET');
+export const doGetStockSuccess = createAction<StockItem[]>('stock/GET_SUCCESS');
+export const doGetStockFailed = createAction<Error | undefined>('stock/GET_FAILED');
+
+export const doGetStockMovements = createAction<void>('stock/GET_MOVEMENTS');
+export const doGetStockMovementsSuccess = createAction<StockMovement[]>('stock/GET_MOVEMENTS_SUCCESS');
+export const doGetStockMovementsFailed = createAction<Error | undefined>('stock/GET_MOVEMENTS_FAILED');
+
+export const doSaveStockMovement = createAction<void>('stock/SAVE_MOVEMENT');
+export const doSaveStockMovementSuccess = createAction<StockMovement[]>('stock/SAVE_MOVEMENT_SUCCESS');
+export const doSaveStockMovementFailed = createAction<Error | undefined>('stock/SAVE_MOVEMENT_FAILED');
+
+/**
+ * Get the current stock Thunk action
+ * @param placeStoreId optional store unique ID
+ */
+export const requestGetStock = (placeStoreId?: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetStock());
+      // Request
+      const response = await backend.get<StockItem[]>(`/stock`, { params: { placeStoreId } });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetStockSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetStockFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetStockFailed(error));
+    }
+  };
+};
+
+/**
+ * Get the stock movements Thunk action
+ * @param filters optional store, product and type
+ */
+export const requestGetStockMovements = (filters: StockMovementFilters = {}): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetStockMovements());
+      // Request
+      const response = await backend.get<StockMovement[]>(`/stock/movements`, { params: filters });
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetStockMovementsSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetStockMovementsFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetStockMovementsFailed(error));
+    }
+  };
+};
+
+/**
+ * Create a receipt, a loss or a transfer Thunk action, the stock is reloaded after it
+ * @param item movement data
+ * @param onSuccess callback of the success
+ * @param onFailure callback of the failure
+ */
+export const requestCreateStockMovement = (
+  item: StockMovementRequest,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doSaveStockMovement());
+      // Request
+      const response = await backend.post<StockMovement[]>(`/stock/movements`, item);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doSaveStockMovementSuccess(response.data)); // Dispatch result
+        dispatch(requestGetStock());
+        dispatch(requestGetStockMovements());
+        if (onSuccess) onSuccess();
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doSaveStockMovementFailed());
+        if (onFailure) onFailure();
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doSaveStockMovementFailed(error));
+      if (onFailure) onFailure(error);
+    }
+  };
+};
@@ -0,0 +1,76 @@
+import { createReducer } from '@reduxjs/toolkit';
+import {
+  doGetStock,
+  doGetStockSuccess,
+  doGetStockFailed,
+  doGetStockMovements,
+  doGetStockMovementsSuccess,
+  doGetStockMovementsFailed,
+  doSaveStockMovement,
+  doSaveStockMovementSuccess,
+  doSaveStockMovementFailed
+} from './actions';
+import { StockItem, StockMovement } from '../../interfaces/stock';
+
+export interface StockReducerState {
+  list: StockItem[];
+  loading: boolean;
+  error?: Error;
+
+  movements: StockMovement[];
+  movementsLoading: boolean;
+  movementsError?: Error;
+
+  saveLoading: boolean;
+  saveError?: Error;
+}
+
+const initialState = {
+  list: [],
+  loading: false,
+  movements: [],
+  movementsLoading: false,
+  saveLoading: false
+};
+
+export default createReducer<StockReducerState>(initialState, (builder) =>
+  builder
+    // Get current stock
+    .addCase(doGetStock, (state) => {
+      state.loading = true;
+      state.error = undefined;
+    })
+    .addCase(doGetStockSuccess, (state, action) => {
+      state.loading = false;
+      state.list = action.payload;
+    })
+    .addCase(doGetStockFailed, (state, action) => {
+      state.loading = false;
+      state.error = action.payload;
+    })
+    // Get movements
+    .addCase(doGetStockMovements, (state) => {
+      state.movementsLoading = true;
+      state.movementsError = undefined;
+    })
+    .addCase(doGetStockMovementsSuccess, (state, action) => {
+      state.movementsLoading = false;
+      state.movements = action.payload;
+    })
+    .addCase(doGetStockMovementsFailed, (state, action) => {
+      state.movementsLoading = false;
+      state.movementsError = action.payload;
+    })
+    // Save movement, the lists are reloaded after it
+    .addCase(doSaveStockMovement, (state) => {
+      state.saveLoading = true;
+      state.saveError = undefined;
+    })
+    .addCase(doSaveStockMovementSuccess, (state) => {
+      state.saveLoading = false;
+    })
+    .addCase(doSaveStockMovementFailed, (state, action) => {
+      state.saveLoading = false;
+      state.saveError = action.payload;
+    })
+);
@@ -1,7 +1,7 @@
 import { createAction } from '@reduxjs/toolkit';
 import { ThunkResult } from '../store';
 import { backend } from '../../utils/networking';
-import { User } from '../../interfaces/user';
+import { User, UserSession } from '../../interfaces/user';
 import { logging } from '../../lib/logging';
 
 // Simple actions and types
@@ -17,6 +17,14 @@ export const doDeleteUser = createAction<void>('user/DELETE');
 export const doDeleteUserSuccess = createAction<{ id: number }>('user/DELETE_SUCCESS');
 export const doDeleteUserFailed = createAction<Error | undefined>('user/DELETE_FAILED');
 
+export const doGetUserSessions = createAction<void>('user/GET_SESSIONS');
+export const doGetUserSessionsSuccess = createAction<UserSession[]>('user/GET_SESSIONS_SUCCESS');
+export const doGetUserSessionsFailed = createAction<Error | undefined>('user/GET_SESSIONS_FAILED');
+
+export const doRevokeUserSession = createAction<void>('user/REVOKE_SESSION');
+export const doRevokeUserSessionSuccess = createAction<{ id?: number | string }>('user/REVOKE_SESSION_SUCCESS');
+export const doRevokeUserSessionFailed = createAction<Error | undefined>('user/REVOKE_SESSION_FAILED');
+
 /**
  * Get User Thunk action
  */
@@ -99,3 +107,68 @@ export const requestDeleteUser = (id: number): ThunkResult<void> => {
     }
   };
 };
+
+/**
+ * Get the active sessions of the User Thunk action
+ */
+export const requestGetUserSessions = (userId: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doGetUserSessions());
+      // Request
+      const response = await backend.get<UserSession[]>(`/users/${userId}/sessions`);
+      if (response && response.data) {
+        // Request finished
+        dispatch(doGetUserSessionsSuccess(response.data)); // Dispatch result
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doGetUserSessionsFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doGetUserSessionsFailed(error));
+    }
+  };
+};
+
+/**
+ * Revoke a session of the User Thunk action, all sessions are revoked when the ID is not sent
+ */
+export const requestRevokeUserSession = (userId: number | string, id?: number | string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doRevokeUserSession());
+      // Request
+      await backend.delete<void>(`/users/${userId}/sessions/${id || ''}`);
+      // Finished
+      dispatch(doRevokeUserSessionSuccess({ id })); // Dispatch result
+    } catch (error) {
+      // Request failed: dispatch error
+      logging.error(error);
+      dispatch(doRevokeUserSessionFailed(error));
+    }
+  };
+};
+
+/**
+ * Send a new invitation to the User Thunk action, where the user chooses a new password
+ */
+export const requestSendUserInvite = (
+  id: number | string,
+  onSuccess?: () => void,
+  onFailure?: (error?: Error) => void
+): ThunkResult<void> => {
+  return async () => {
+    try {
+      await backend.post<void>(`/users/${id}/invite`);
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      // Request failed
+      logging.error(error);
+      if (onFailure) onFailure(error);
+    }
+  };
+};
@@ -8,20 +8,31 @@ import {
   doSaveUserFailed,
   doDeleteUser,
   doDeleteUserSuccess,
-  doDeleteUserFailed
+  doDeleteUserFailed,
+  doGetUserSessions,
+  doGetUserSessionsSuccess,
+  doGetUserSessionsFailed,
+  doRevokeUserSession,
+  doRevokeUserSessionSuccess,
+  doRevokeUserSessionFailed
 } from './actions';
-import { User } from '../../interfaces/user';
+import { User, UserSession } from '../../interfaces/user';
 import { addToList } from '../../utils/list';
 
 export interface UserReducerState {
   list: User[];
   loading: boolean;
   error?: Error;
+  sessions: UserSession[];
+  sessionsLoading: boolean;
+  sessionsError?: Error;
 }
 
 const initialState = {
   list: [],
-  loading: false
+  loading: false,
+  sessions: [],
+  sessionsLoading: false
 };
 
 export default createReducer<UserReducerState>(initialState, (builder) =>
@@ -71,4 +82,31 @@ export default createReducer<UserReducerState>(initialState, (builder) =>
       state.loading = false;
       state.error = action.payload;
     })
+    // Session actions
+    .addCase(doGetUserSessions, (state) => {
+      state.sessionsLoading = true;
+      state.sessionsError = undefined;
+      state.sessions = [];
+    })
+    .addCase(doGetUserSessionsSuccess, (state, action) => {
+      state.sessionsLoading = false;
+      state.sessions = action.payload;
+    })
+    .addCase(doGetUserSessionsFailed, (state, action) => {
+      state.sessionsLoading = false;
+      state.sessionsError = action.payload;
+    })
+    .addCase(doRevokeUserSession, (state) => {
+      state.sessionsLoading = true;
+      state.sessionsError = undefined;
+    })
+    .addCase(doRevokeUserSessionSuccess, (state, action) => {
+      state.sessionsLoading = false;
+      // Without ID all the sessions were revoked
+      state.sessions = action.payload.id ? state.sessions.filter((item) => item.id !== action.payload.id) : [];
+    })
+    .addCase(doRevokeUserSessionFailed, (state, action) => {
+      state.sessionsLoading = false;
+      state.sessionsError = action.payload;
+    })
 );
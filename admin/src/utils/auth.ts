@@ -46,6 +46,58 @@ export const getRefresh = () => {
   return localStorage.getItem(localStorageConstraints.REFRESH_TOKEN);
 };
 
+/**
+ * Set or clear the city selected by the super admin
+ * @param cityId The selected city unique ID
+ */
+export const setSelectedCity = (cityId?: number | string) => {
+  if (cityId) {
+    localStorage.setItem(localStorageConstraints.SELECTED_CITY, `${cityId}`);
+  } else {
+    localStorage.removeItem(localStorageConstraints.SELECTED_CITY);
+  }
+};
+
+/**
+ * Gets the city selected by the super admin
+ */
+export const getSelectedCity = () => {
+  return localStorage.getItem(localStorageConstraints.SELECTED_CITY);
+};
+
+// Refresh request in progress, the refresh token is rotated so it can only be used once
+let refreshRequest: Promise<TokenResponse | null> | null = null;
+
+/**
+ * Request a new token with the current refresh token and store both
+ *
+ * Concurrent calls share the same request, a second request with the same refresh token would be rejected
+ * @param baseAxios The axios used on the request
+ * @returns the token response, null when there's no refresh token
+ */
+export const refreshAuthorization = (baseAxios: AxiosInstance) => {
+  if (!refreshRequest) {
+    const refreshToken = getRefresh();
+    refreshRequest = (refreshToken
+      ? baseAxios
+          .post<TokenResponse>('/auth/token', { refreshToken })
+          .then((response) => {
+            if (response && response.status === 200 && response.data) {
+              // Store the new values
+              setAuthorization(response.data.token);
+              setRefresh(response.data.refreshToken);
+              return response.data;
+            }
+            return null;
+          })
+      : Promise.resolve(null)
+    ).finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+};
+
 /**
  * A hook that refreshes the token and returns if it's loading.
  * This hook must ONLY be called ONCE. Generally in the private router function.
@@ -110,6 +162,12 @@ export const createAuthAxios = (baseAxios: AxiosInstance) => {
       config.headers.Authorization = `Bearer ${token}`;
     }
 
+    // Attach the city selected by the super admin, it's cleared on logout
+    const cityId = getSelectedCity();
+    if (cityId) {
+      config.headers['City-Id'] = cityId;
+    }
+
     return config;
   });
 
@@ -134,15 +192,10 @@ export const createAuthAxios = (baseAxios: AxiosInstance) => {
         originalReq._retry = true;
 
         // Try to refresh the token
-        const response = await baseAxios.post<TokenResponse>('/auth/token', { refreshToken: getRefresh() });
-
-        // If successfully got the token
-        if (response && response.status === 200 && response.data) {
-          // Store the new values
-          setAuthorization(response.data.token);
-          setRefresh(response.data.refreshToken);
+        const response = await refreshAuthorization(baseAxios);
 
-          // Retry the request
+        // If successfully got the token, retry the request
+        if (response) {
           return baseAxios(originalReq);
         }
       }
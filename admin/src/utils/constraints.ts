@@ -7,17 +7,12 @@ export const PERSIST_KEY = `${APP_PREFIX}/root`;
 export const localStorageConstraints = {
   SIDEBAR_COLLAPSED: `${APP_PREFIX}/sidebar:collapsed`,
   AUTH_TOKEN: `${APP_PREFIX}/authToken`,
-  REFRESH_TOKEN: `${APP_PREFIX}/refreshToken`
-};
-
-export const familyGroupList = {
-  children: { code: 0, title: 'Dependentes matriculados na rede pública' }
-  // 'extreme-poverty': { code: 1, title: 'Extrema pobreza' },
-  // 'poverty-line': { code: 2, title: 'Linha da pobreza' },
-  // cad: { code: 3, title: 'Perfil CAD único' }
+  REFRESH_TOKEN: `${APP_PREFIX}/refreshToken`,
+  SELECTED_CITY: `${APP_PREFIX}/selectedCity`
 };
 
 export const roleList = {
+  superadmin: { title: 'Super administrador' },
   admin: { title: 'Administrador' },
   operator: { title: 'Operador' },
   manager: { title: 'Gerente' },
@@ -41,3 +36,19 @@ export const formValidation = (type: FieldMetaProps<any>) => {
 };
 
 export type Role = keyof typeof roleList;
+
+// Roles that have every permission of other roles
+export const inheritedRoles: { [role in Role]?: Role[] } = {
+  superadmin: ['admin']
+};
+
+/**
+ * Check if the role, or a role that it inherits, is on the list of allowed roles
+ * @param allowedRoles roles allowed to see the item
+ * @param role logged user role
+ * @returns true when the role is allowed
+ */
+export const isRoleAllowed = (allowedRoles: Role[], role?: Role) => {
+  if (!role) return false;
+  return [role, ...(inheritedRoles[role] || [])].some((item) => allowedRoles.indexOf(item) > -1);
+};
@@ -0,0 +1,85 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    return queryInterface.createTable('ImportJobs', {
+      id: {
+        type: Sequelize.INTEGER,
+        primaryKey: true,
+        autoIncrement: true
+      },
+      cityId: {
+        type: Sequelize.INTEGER,
+        references: { model: 'Cities', id: 'id' },
+        allowNull: false
+      },
+      status: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      message: {
+        type: Sequelize.TEXT,
+        allowNull: true
+      },
+      percentage: {
+        type: Sequelize.FLOAT,
+        allowNull: true
+      },
+      inProgress: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+      },
+      counters: {
+        type: Sequelize.JSON,
+        allowNull: true
+      },
+      familyFilePath: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      sislameFilePath: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      nurseryFilePath: {
+        type: Sequelize.STRING,
+        allowNull: false
+      },
+      reasonFilePath: {
+        type: Sequelize.STRING,
+        allowNull: true
+      },
+      retryOfId: {
+        type: Sequelize.INTEGER,
+        references: { model: 'ImportJobs', id: 'id' },
+        allowNull: true
+      },
+      startedById: {
+        type: Sequelize.INTEGER,
+        references: { model: 'Users', id: 'id' },
+        allowNull: true
+      },
+      startedAt: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      finishedAt: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: true
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: true
+      }
+    });
+  },
+
+  down: async (queryInterface) => {
+    return queryInterface.dropTable('ImportJobs');
+  }
+};
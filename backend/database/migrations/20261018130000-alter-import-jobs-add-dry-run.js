@@ -0,0 +1,44 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.addColumn(
+        'ImportJobs',
+        'dryRun',
+        { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: false },
+        { transaction }
+      );
+      // Import that saved the families of an approved dry run, a dry run is approved only once
+      await queryInterface.addColumn(
+        'ImportJobs',
+        'committedJobId',
+        {
+          type: Sequelize.INTEGER,
+          references: { model: 'ImportJobs', id: 'id' },
+          allowNull: true
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('ImportJobs', 'committedJobId', { transaction });
+      await queryInterface.removeColumn('ImportJobs', 'dryRun', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
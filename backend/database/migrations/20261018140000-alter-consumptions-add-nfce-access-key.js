@@ -0,0 +1,109 @@
+'use strict';
+
+const stateCodeList = {
+  11: 'RO',
+  12: 'AC',
+  13: 'AM',
+  14: 'RR',
+  15: 'PA',
+  16: 'AP',
+  17: 'TO',
+  21: 'MA',
+  22: 'PI',
+  23: 'CE',
+  24: 'RN',
+  25: 'PB',
+  26: 'PE',
+  27: 'AL',
+  28: 'SE',
+  29: 'BA',
+  31: 'MG',
+  32: 'ES',
+  33: 'RJ',
+  35: 'SP',
+  41: 'PR',
+  42: 'SC',
+  43: 'RS',
+  50: 'MS',
+  51: 'MT',
+  52: 'GO',
+  53: 'DF'
+};
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      const columns = {
+        nfceAccessKey: { type: Sequelize.STRING(44), allowNull: true },
+        nfceUf: { type: Sequelize.STRING(2), allowNull: true },
+        nfceEmissionMonth: { type: Sequelize.DATEONLY, allowNull: true },
+        nfceCnpj: { type: Sequelize.STRING(14), allowNull: true },
+        nfceModel: { type: Sequelize.STRING(2), allowNull: true },
+        nfceSeries: { type: Sequelize.INTEGER, allowNull: true },
+        nfceNumber: { type: Sequelize.INTEGER, allowNull: true }
+      };
+      for (const column of Object.keys(columns)) {
+        await queryInterface.addColumn('Consumptions', column, columns[column], { transaction });
+      }
+
+      /**
+       * Fill the new columns for the consumptions already registered, using the access key
+       * found on the NFC-e link. Only the keys with a valid month get the other columns, the check digit
+       * isn't verified here (see 20261019110000-alter-consumptions-unique-nfce-access-key)
+       */
+      await queryInterface.sequelize.query(
+        `
+        UPDATE "Consumptions"
+        SET "nfceAccessKey" = substring("nfce" from '[?&](?:p|chNFe)=([0-9]{44})')
+        WHERE "nfce" IS NOT NULL;
+
+        UPDATE "Consumptions"
+        SET
+          "nfceUf" = CASE substring("nfceAccessKey", 1, 2)
+            ${Object.keys(stateCodeList)
+              .map((code) => `WHEN '${code}' THEN '${stateCodeList[code]}'`)
+              .join(' ')}
+          END,
+          "nfceEmissionMonth" = to_date(substring("nfceAccessKey", 3, 4), 'YYMM'),
+          "nfceCnpj" = substring("nfceAccessKey", 7, 14),
+          "nfceModel" = substring("nfceAccessKey", 21, 2),
+          "nfceSeries" = CAST(substring("nfceAccessKey", 23, 3) AS INTEGER),
+          "nfceNumber" = CAST(substring("nfceAccessKey", 26, 9) AS INTEGER)
+        WHERE "nfceAccessKey" IS NOT NULL AND substring("nfceAccessKey", 5, 2) BETWEEN '01' AND '12';
+        `,
+        { transaction }
+      );
+      await queryInterface.addIndex('Consumptions', ['nfceAccessKey'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeIndex('Consumptions', ['nfceAccessKey'], { transaction });
+      const columns = [
+        'nfceNumber',
+        'nfceSeries',
+        'nfceModel',
+        'nfceCnpj',
+        'nfceEmissionMonth',
+        'nfceUf',
+        'nfceAccessKey'
+      ];
+      for (const column of columns) {
+        await queryInterface.removeColumn('Consumptions', column, { transaction });
+      }
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,53 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.addColumn(
+        'Consumptions',
+        'scrapeAttempts',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Consumptions',
+        'scrapeLastError',
+        { type: Sequelize.TEXT, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Consumptions',
+        'scrapeNextAttemptAt',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Consumptions',
+        'scrapeGaveUpAt',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Consumptions', 'scrapeAttempts', { transaction });
+      await queryInterface.removeColumn('Consumptions', 'scrapeLastError', { transaction });
+      await queryInterface.removeColumn('Consumptions', 'scrapeNextAttemptAt', { transaction });
+      await queryInterface.removeColumn('Consumptions', 'scrapeGaveUpAt', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
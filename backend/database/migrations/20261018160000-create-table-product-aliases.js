@@ -0,0 +1,69 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'ProductAliases',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          name: {
+            type: Sequelize.STRING,
+            allowNull: false,
+            unique: true
+          },
+          originalName: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          productId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Products', id: 'id' },
+            allowNull: false
+          },
+          confidence: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          status: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          reviewedById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          reviewedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('ProductAliases', ['status'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    return queryInterface.dropTable('ProductAliases');
+  }
+};
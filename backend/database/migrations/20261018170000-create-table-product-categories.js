@@ -0,0 +1,102 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'ProductCategories',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          name: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          parentId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'ProductCategories', id: 'id' },
+            allowNull: true
+          },
+          isValid: {
+            type: Sequelize.BOOLEAN,
+            allowNull: true,
+            defaultValue: null
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.createTable(
+        'ProductCategoryRules',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          categoryId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'ProductCategories', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          groupId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Groups', id: 'id' },
+            allowNull: false
+          },
+          isValid: {
+            type: Sequelize.BOOLEAN,
+            allowNull: false
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('ProductCategoryRules', ['categoryId', 'groupId'], { unique: true, transaction });
+      await queryInterface.addColumn(
+        'Products',
+        'categoryId',
+        { type: Sequelize.INTEGER, references: { model: 'ProductCategories', id: 'id' }, allowNull: true },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Products', 'categoryId', { transaction });
+      await queryInterface.dropTable('ProductCategoryRules', { transaction });
+      await queryInterface.dropTable('ProductCategories', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,108 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'AuditLogs',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            allowNull: true
+          },
+          userId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          action: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          entity: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          entityId: {
+            type: Sequelize.STRING,
+            allowNull: true
+          },
+          before: {
+            type: Sequelize.JSON,
+            allowNull: true
+          },
+          after: {
+            type: Sequelize.JSON,
+            allowNull: true
+          },
+          method: {
+            type: Sequelize.STRING(10),
+            allowNull: false
+          },
+          path: {
+            type: Sequelize.TEXT,
+            allowNull: false
+          },
+          statusCode: {
+            type: Sequelize.INTEGER,
+            allowNull: true
+          },
+          ip: {
+            type: Sequelize.STRING,
+            allowNull: true
+          },
+          userAgent: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('AuditLogs', ['cityId', 'createdAt'], { transaction });
+      await queryInterface.addIndex('AuditLogs', ['entity', 'entityId'], { transaction });
+      // Append only, the rows can't be changed or removed
+      await queryInterface.sequelize.query(
+        `CREATE OR REPLACE FUNCTION "AuditLogs_append_only"() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'AuditLogs is append only';
+        END;
+        $$ LANGUAGE plpgsql;`,
+        { transaction }
+      );
+      await queryInterface.sequelize.query(
+        `CREATE TRIGGER "AuditLogs_append_only" BEFORE UPDATE OR DELETE ON "AuditLogs"
+        FOR EACH ROW EXECUTE PROCEDURE "AuditLogs_append_only"();`,
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('AuditLogs', { transaction });
+      await queryInterface.sequelize.query('DROP FUNCTION IF EXISTS "AuditLogs_append_only"();', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
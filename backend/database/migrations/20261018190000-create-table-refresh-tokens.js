@@ -0,0 +1,83 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'RefreshTokens',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          userId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          tokenHash: {
+            type: Sequelize.STRING(64),
+            allowNull: false,
+            unique: true
+          },
+          userAgent: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          ip: {
+            type: Sequelize.STRING,
+            allowNull: true
+          },
+          expiresAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          lastUsedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          revokedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          replacedById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'RefreshTokens', id: 'id' },
+            onDelete: 'SET NULL',
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('RefreshTokens', ['userId', 'revokedAt'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('RefreshTokens', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,102 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.addColumn(
+        'Users',
+        'mustChangePassword',
+        { type: Sequelize.BOOLEAN, allowNull: false, defaultValue: false },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Users',
+        'passwordChangedAt',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Users',
+        'failedLoginAttempts',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Users',
+        'lockedUntil',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.createTable(
+        'UserTokens',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          userId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          type: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          tokenHash: {
+            type: Sequelize.STRING(64),
+            allowNull: false,
+            unique: true
+          },
+          expiresAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          usedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            onDelete: 'SET NULL',
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('UserTokens', { transaction });
+      await queryInterface.removeColumn('Users', 'mustChangePassword', { transaction });
+      await queryInterface.removeColumn('Users', 'passwordChangedAt', { transaction });
+      await queryInterface.removeColumn('Users', 'failedLoginAttempts', { transaction });
+      await queryInterface.removeColumn('Users', 'lockedUntil', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
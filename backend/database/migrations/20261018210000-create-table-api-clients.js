@@ -0,0 +1,117 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'ApiClients',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            allowNull: false
+          },
+          name: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          keyId: {
+            type: Sequelize.STRING,
+            allowNull: false,
+            unique: true
+          },
+          secret: {
+            type: Sequelize.TEXT,
+            allowNull: false
+          },
+          previousSecret: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          previousSecretExpiresAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          rotatedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          revokedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          lastUsedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            onDelete: 'SET NULL',
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.createTable(
+        'ApiClientNonces',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          apiClientId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'ApiClients', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          nonce: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('ApiClientNonces', ['apiClientId', 'nonce'], { unique: true, transaction });
+      await queryInterface.addIndex('ApiClientNonces', ['createdAt'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('ApiClientNonces', { transaction });
+      await queryInterface.dropTable('ApiClients', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,73 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'BeneficiaryChallenges',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          familyId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Families', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          tokenHash: {
+            type: Sequelize.STRING(64),
+            allowNull: false,
+            unique: true
+          },
+          codeHash: {
+            type: Sequelize.STRING(64),
+            allowNull: false
+          },
+          attempts: {
+            type: Sequelize.INTEGER,
+            allowNull: false,
+            defaultValue: 0
+          },
+          expiresAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          verifiedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('BeneficiaryChallenges', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,42 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Items without city are shared by every city
+      await queryInterface.addColumn(
+        'Groups',
+        'cityId',
+        { type: Sequelize.INTEGER, references: { model: 'Cities', id: 'id' }, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Products',
+        'cityId',
+        { type: Sequelize.INTEGER, references: { model: 'Cities', id: 'id' }, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addIndex('Groups', ['cityId'], { transaction });
+      await queryInterface.addIndex('Products', ['cityId'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Groups', 'cityId', { transaction });
+      await queryInterface.removeColumn('Products', 'cityId', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,150 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'LedgerEntries',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          familyId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Families', id: 'id' },
+            allowNull: false
+          },
+          type: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          value: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          date: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          // Benefits and dependents can be removed, their IDs are kept without reference
+          benefitId: {
+            type: Sequelize.INTEGER,
+            allowNull: true
+          },
+          dependentId: {
+            type: Sequelize.INTEGER,
+            allowNull: true
+          },
+          consumptionId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Consumptions', id: 'id' },
+            allowNull: true
+          },
+          description: {
+            type: Sequelize.STRING,
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('LedgerEntries', ['familyId', 'date'], { transaction });
+      // Each source is recorded only once, so the ledger can be synchronized many times. A benefit is granted
+      // once for each family dependent, or once for the family, and its corrections can be recorded many times
+      await queryInterface.sequelize.query(
+        `CREATE UNIQUE INDEX "ledger_entries_family_benefit_grant" ON "LedgerEntries"
+        ("familyId", "benefitId", COALESCE("dependentId", 0)) WHERE "type" = 'benefit';`,
+        { transaction }
+      );
+      await queryInterface.addIndex('LedgerEntries', ['type', 'consumptionId'], {
+        unique: true,
+        where: { consumptionId: { [Sequelize.Op.ne]: null } },
+        transaction
+      });
+      // Append only, the rows can't be changed or removed
+      await queryInterface.sequelize.query(
+        `CREATE OR REPLACE FUNCTION "LedgerEntries_append_only"() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'LedgerEntries is append only';
+        END;
+        $$ LANGUAGE plpgsql;`,
+        { transaction }
+      );
+      await queryInterface.sequelize.query(
+        `CREATE TRIGGER "LedgerEntries_append_only" BEFORE UPDATE OR DELETE ON "LedgerEntries"
+        FOR EACH ROW EXECUTE PROCEDURE "LedgerEntries_append_only"();`,
+        { transaction }
+      );
+
+      await queryInterface.createTable(
+        'LedgerMismatches',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          familyId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Families', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false,
+            unique: true
+          },
+          ledgerBalance: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          legacyBalance: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          difference: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          checkedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('LedgerMismatches', { transaction });
+      await queryInterface.dropTable('LedgerEntries', { transaction });
+      await queryInterface.sequelize.query('DROP FUNCTION IF EXISTS "LedgerEntries_append_only"();', {
+        transaction
+      });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
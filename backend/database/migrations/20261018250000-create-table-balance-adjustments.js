@@ -0,0 +1,106 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'BalanceAdjustments',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          familyId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Families', id: 'id' },
+            allowNull: false
+          },
+          // Value added to the balance (ticket), negative values are discounts
+          value: {
+            type: Sequelize.FLOAT,
+            allowNull: true
+          },
+          // Product quantities added to the balance (product): [{ productId, amount }]
+          products: {
+            type: Sequelize.JSON,
+            allowNull: true
+          },
+          reason: {
+            type: Sequelize.TEXT,
+            allowNull: false
+          },
+          status: {
+            type: Sequelize.STRING,
+            allowNull: false,
+            defaultValue: 'pending'
+          },
+          requestedById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: false
+          },
+          reviewedById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          reviewedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          reviewNote: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('BalanceAdjustments', ['familyId', 'status'], { transaction });
+
+      // Approved adjustments are recorded on the ledger, once each
+      await queryInterface.addColumn(
+        'LedgerEntries',
+        'adjustmentId',
+        {
+          type: Sequelize.INTEGER,
+          references: { model: 'BalanceAdjustments', id: 'id' },
+          allowNull: true
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('LedgerEntries', ['type', 'adjustmentId'], {
+        unique: true,
+        where: { adjustmentId: { [Sequelize.Op.ne]: null } },
+        transaction
+      });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('LedgerEntries', 'adjustmentId', { transaction });
+      await queryInterface.dropTable('BalanceAdjustments', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
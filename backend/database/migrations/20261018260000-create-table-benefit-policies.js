@@ -0,0 +1,126 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Each change creates a new version, the version used is the last one effective on the date
+      await queryInterface.createTable(
+        'BenefitPolicies',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          effectiveFrom: {
+            type: Sequelize.DATEONLY,
+            allowNull: false
+          },
+          // Benefit multiplier of the families that consumed on the card but declared nothing
+          undeclaredConsumptionMultiplier: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          // Payment names considered as money, the invalid products paid with them are not discounted
+          moneyPaymentNames: {
+            type: Sequelize.JSON,
+            allowNull: false
+          },
+          // Difference between the declared and consumed values accepted as declaring everything
+          declaredTolerance: {
+            type: Sequelize.FLOAT,
+            allowNull: false
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('BenefitPolicies', ['cityId', 'effectiveFrom'], { transaction });
+
+      // Families that are never penalized on the ticket report
+      await queryInterface.createTable(
+        'BenefitPolicyExceptions',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          type: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          value: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          reason: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('BenefitPolicyExceptions', ['cityId', 'type', 'value'], {
+        unique: true,
+        transaction
+      });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.dropTable('BenefitPolicyExceptions', { transaction });
+      await queryInterface.dropTable('BenefitPolicies', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
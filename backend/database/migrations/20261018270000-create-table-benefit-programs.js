@@ -0,0 +1,189 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Recurring benefits, the monthly benefits are generated from them
+      await queryInterface.createTable(
+        'BenefitPrograms',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          institutionId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Institutions', id: 'id' },
+            allowNull: false
+          },
+          groupId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Groups', id: 'id' },
+            allowNull: false
+          },
+          title: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          // Day of the month when the benefit is granted (1-28)
+          dayOfMonth: {
+            type: Sequelize.INTEGER,
+            allowNull: false
+          },
+          startDate: {
+            type: Sequelize.DATEONLY,
+            allowNull: false
+          },
+          endDate: {
+            type: Sequelize.DATEONLY,
+            allowNull: true
+          },
+          // Value of each month (ticket), per dependent or per family
+          value: {
+            type: Sequelize.FLOAT,
+            allowNull: true
+          },
+          valueType: {
+            type: Sequelize.STRING,
+            allowNull: false,
+            defaultValue: 'dependent'
+          },
+          // Basket of each month (product): [{ productId, amount }]
+          products: {
+            type: Sequelize.JSON,
+            allowNull: true
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('BenefitPrograms', ['cityId'], { transaction });
+
+      // Only the changed occurrences (skipped or overridden) and the generated ones are stored
+      await queryInterface.createTable(
+        'BenefitProgramOccurrences',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          programId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'BenefitPrograms', id: 'id' },
+            onDelete: 'CASCADE',
+            allowNull: false
+          },
+          date: {
+            type: Sequelize.DATEONLY,
+            allowNull: false
+          },
+          status: {
+            type: Sequelize.STRING,
+            allowNull: false,
+            defaultValue: 'scheduled'
+          },
+          // Override of the program value and basket, only for this occurrence
+          value: {
+            type: Sequelize.FLOAT,
+            allowNull: true
+          },
+          products: {
+            type: Sequelize.JSON,
+            allowNull: true
+          },
+          note: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          benefitId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Benefits', id: 'id' },
+            allowNull: true
+          },
+          updatedById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      // Each month of a program is generated only once
+      await queryInterface.addIndex('BenefitProgramOccurrences', ['programId', 'date'], {
+        unique: true,
+        transaction
+      });
+
+      // The benefits generated by a program and the ones granted per family
+      await queryInterface.addColumn(
+        'Benefits',
+        'programId',
+        {
+          type: Sequelize.INTEGER,
+          references: { model: 'BenefitPrograms', id: 'id' },
+          allowNull: true
+        },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Benefits',
+        'valueType',
+        {
+          type: Sequelize.STRING,
+          allowNull: false,
+          defaultValue: 'dependent'
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Benefits', 'valueType', { transaction });
+      await queryInterface.removeColumn('Benefits', 'programId', { transaction });
+      await queryInterface.dropTable('BenefitProgramOccurrences', { transaction });
+      await queryInterface.dropTable('BenefitPrograms', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,107 @@
+'use strict';
+
+// Same mapping of the CadÚnico income band (fx_rfpc) used before the rules were configurable
+const defaultRules = [
+  {
+    id: 1,
+    priority: 1,
+    eligibilityRules: [
+      {
+        description: 'Faixa de renda 0 do CadÚnico',
+        conditions: [{ field: 'incomeBand', operator: 'eq', value: 0 }]
+      },
+      {
+        description: 'Bolsa Família com dependente matriculado na escola',
+        conditions: [
+          { field: 'isOnGovernProgram', operator: 'eq', value: true },
+          { field: 'schoolEnrolledCount', operator: 'gte', value: 1 }
+        ]
+      }
+    ]
+  },
+  {
+    id: 2,
+    priority: 2,
+    eligibilityRules: [
+      { description: 'Faixa de renda 1 do CadÚnico', conditions: [{ field: 'incomeBand', operator: 'eq', value: 1 }] }
+    ]
+  },
+  {
+    id: 3,
+    priority: 3,
+    eligibilityRules: [
+      { description: 'Faixa de renda 2 do CadÚnico', conditions: [{ field: 'incomeBand', operator: 'eq', value: 2 }] }
+    ]
+  },
+  {
+    id: 4,
+    priority: 4,
+    eligibilityRules: [
+      {
+        description: 'Faixas de renda 3 e 4 do CadÚnico',
+        conditions: [{ field: 'incomeBand', operator: 'in', value: [3, 4] }]
+      }
+    ]
+  }
+];
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.addColumn(
+        'Groups',
+        'eligibilityRules',
+        { type: Sequelize.JSON, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Groups',
+        'priority',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 0 },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Families',
+        'incomeBand',
+        { type: Sequelize.INTEGER, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'Families',
+        'groupExplanation',
+        { type: Sequelize.JSON, allowNull: true },
+        { transaction }
+      );
+      // Only the shared groups created by the seed receive the rules
+      for (const group of defaultRules) {
+        await queryInterface.bulkUpdate(
+          'Groups',
+          { eligibilityRules: JSON.stringify(group.eligibilityRules), priority: group.priority },
+          { id: group.id, cityId: null },
+          { transaction }
+        );
+      }
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Families', 'groupExplanation', { transaction });
+      await queryInterface.removeColumn('Families', 'incomeBand', { transaction });
+      await queryInterface.removeColumn('Groups', 'priority', { transaction });
+      await queryInterface.removeColumn('Groups', 'eligibilityRules', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,41 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Null when the group has no age limit
+      await queryInterface.addColumn(
+        'Groups',
+        'maxDependentAge',
+        { type: Sequelize.INTEGER, allowNull: true },
+        { transaction }
+      );
+      // First month when the limit is applied, the benefits of the previous months are kept
+      await queryInterface.addColumn(
+        'Groups',
+        'maxDependentAgeFrom',
+        { type: Sequelize.DATEONLY, allowNull: true },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('Groups', 'maxDependentAgeFrom', { transaction });
+      await queryInterface.removeColumn('Groups', 'maxDependentAge', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
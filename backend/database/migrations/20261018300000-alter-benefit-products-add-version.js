@@ -0,0 +1,51 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Basket version of the benefit, a new one is created when the basket changes after the families consumed
+      await queryInterface.addColumn(
+        'BenefitProducts',
+        'version',
+        { type: Sequelize.INTEGER, allowNull: false, defaultValue: 1 },
+        { transaction }
+      );
+      // When the version started to be used, null on the first version of the basket
+      await queryInterface.addColumn(
+        'BenefitProducts',
+        'validFrom',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      // When the version was replaced by the next one, null on the basket in force
+      await queryInterface.addColumn(
+        'BenefitProducts',
+        'replacedAt',
+        { type: Sequelize.DATE, allowNull: true },
+        { transaction }
+      );
+      await queryInterface.addIndex('BenefitProducts', ['benefitId', 'replacedAt'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeIndex('BenefitProducts', ['benefitId', 'replacedAt'], { transaction });
+      await queryInterface.removeColumn('BenefitProducts', 'replacedAt', { transaction });
+      await queryInterface.removeColumn('BenefitProducts', 'validFrom', { transaction });
+      await queryInterface.removeColumn('BenefitProducts', 'version', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,96 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.createTable(
+        'StockMovements',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          placeStoreId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'PlaceStores', id: 'id' },
+            allowNull: false
+          },
+          productId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Products', id: 'id' },
+            allowNull: false
+          },
+          type: {
+            type: Sequelize.STRING,
+            allowNull: false
+          },
+          // Entries are positive and exits are negative, the stock is the sum of the movements
+          amount: {
+            type: Sequelize.INTEGER,
+            allowNull: false
+          },
+          relatedPlaceStoreId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'PlaceStores', id: 'id' },
+            allowNull: true
+          },
+          consumptionId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Consumptions', id: 'id' },
+            allowNull: true
+          },
+          note: {
+            type: Sequelize.TEXT,
+            allowNull: true
+          },
+          createdById: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Users', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: false
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('StockMovements', ['placeStoreId', 'productId'], { transaction });
+      await queryInterface.addIndex('StockMovements', ['consumptionId'], { transaction });
+
+      await queryInterface.addColumn(
+        'PlaceStores',
+        'stockPolicy',
+        { type: Sequelize.STRING, allowNull: false, defaultValue: 'warn' },
+        { transaction }
+      );
+      await queryInterface.addColumn(
+        'PlaceStores',
+        'minimumStock',
+        { type: Sequelize.INTEGER, allowNull: true },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('PlaceStores', 'minimumStock', { transaction });
+      await queryInterface.removeColumn('PlaceStores', 'stockPolicy', { transaction });
+      await queryInterface.dropTable('StockMovements', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,47 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Result of the dry run, the approval applies the families shown on its diff
+      await queryInterface.addColumn('ImportJobs', 'diff', { type: Sequelize.JSON, allowNull: true }, { transaction });
+      await queryInterface.addColumn(
+        'ImportJobs',
+        'grantedFamilies',
+        { type: Sequelize.JSON, allowNull: true },
+        { transaction }
+      );
+      // Dry run whose families are saved by the import
+      await queryInterface.addColumn(
+        'ImportJobs',
+        'dryRunId',
+        {
+          type: Sequelize.INTEGER,
+          references: { model: 'ImportJobs', id: 'id' },
+          allowNull: true
+        },
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeColumn('ImportJobs', 'dryRunId', { transaction });
+      await queryInterface.removeColumn('ImportJobs', 'grantedFamilies', { transaction });
+      await queryInterface.removeColumn('ImportJobs', 'diff', { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
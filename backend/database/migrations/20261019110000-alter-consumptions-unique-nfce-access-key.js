@@ -0,0 +1,94 @@
+'use strict';
+
+/**
+ * Calculate the access key check digit, module 11 with weights from 2 to 9 starting from the right
+ * @param digits first 43 digits of the access key
+ * @returns check digit
+ */
+const getCheckDigit = (digits) => {
+  let weight = 2;
+  let sum = 0;
+  for (let index = digits.length - 1; index >= 0; index--) {
+    sum += Number(digits[index]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+const accessKeyColumns = [
+  'nfceAccessKey',
+  'nfceUf',
+  'nfceEmissionMonth',
+  'nfceCnpj',
+  'nfceModel',
+  'nfceSeries',
+  'nfceNumber'
+];
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // The keys filled from the NFC-e links weren't verified, the invalid ones are kept empty
+      const [
+        consumptions
+      ] = await queryInterface.sequelize.query(
+        `SELECT "id", "nfceAccessKey" FROM "Consumptions" WHERE "nfceAccessKey" IS NOT NULL`,
+        { transaction }
+      );
+      const invalidIds = consumptions
+        .filter(({ nfceAccessKey }) => getCheckDigit(nfceAccessKey.substring(0, 43)) !== Number(nfceAccessKey[43]))
+        .map(({ id }) => id);
+      if (invalidIds.length > 0) {
+        await queryInterface.bulkUpdate(
+          'Consumptions',
+          accessKeyColumns.reduce((values, column) => ({ ...values, [column]: null }), {}),
+          { id: { [Sequelize.Op.in]: invalidIds } },
+          { transaction }
+        );
+      }
+
+      // The receipts registered more than once keep the key only on the first consumption
+      await queryInterface.sequelize.query(
+        `
+        UPDATE "Consumptions" AS "duplicated"
+        SET "nfceAccessKey" = NULL
+        WHERE "duplicated"."nfceAccessKey" IS NOT NULL AND "duplicated"."deletedAt" IS NULL AND EXISTS (
+          SELECT 1 FROM "Consumptions" AS "first"
+          WHERE "first"."nfceAccessKey" = "duplicated"."nfceAccessKey"
+            AND "first"."deletedAt" IS NULL
+            AND "first"."id" < "duplicated"."id"
+        );
+        `,
+        { transaction }
+      );
+
+      // Concurrent submissions of the same receipt are stopped by the DB, the deleted ones can be registered again
+      await queryInterface.removeIndex('Consumptions', ['nfceAccessKey'], { transaction });
+      await queryInterface.addIndex('Consumptions', ['nfceAccessKey'], {
+        unique: true,
+        where: { nfceAccessKey: { [Sequelize.Op.ne]: null }, deletedAt: null },
+        transaction
+      });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      await queryInterface.removeIndex('Consumptions', ['nfceAccessKey'], { transaction });
+      await queryInterface.addIndex('Consumptions', ['nfceAccessKey'], { transaction });
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  }
+};
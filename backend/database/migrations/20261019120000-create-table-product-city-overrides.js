@@ -0,0 +1,112 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const transaction = await queryInterface.sequelize.transaction();
+    try {
+      // Validity and category of a shared product chosen by a city, replacing the shared values for it
+      await queryInterface.createTable(
+        'ProductCityOverrides',
+        {
+          id: {
+            type: Sequelize.INTEGER,
+            primaryKey: true,
+            autoIncrement: true
+          },
+          productId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Products', id: 'id' },
+            allowNull: false
+          },
+          cityId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'Cities', id: 'id' },
+            allowNull: false
+          },
+          isValid: {
+            type: Sequelize.BOOLEAN,
+            allowNull: true
+          },
+          categoryId: {
+            type: Sequelize.INTEGER,
+            references: { model: 'ProductCategories', id: 'id' },
+            allowNull: true
+          },
+          createdAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          },
+          updatedAt: {
+            type: Sequelize.DATE,
+            allowNull: true
+          }
+        },
+        { transaction }
+      );
+      await queryInterface.addIndex('ProductCityOverrides', ['productId', 'cityId'], { unique: true, transaction });
+
+      // Groups used by the families, benefits and programs of a single city belong to it
+      await queryInterface.sequelize.query(
+        `
+          UPDATE "Groups" SET "cityId" = "usage"."cityId"
+          FROM (
+            SELECT "groupId", MIN("cityId") AS "cityId"
+            FROM (
+              SELECT "groupId", "cityId" FROM "Families"
+              UNION
+              SELECT B."groupId", I."cityId" FROM "Benefits" B INNER JOIN "Institutions" I ON I."id" = B."institutionId"
+              UNION
+              SELECT "groupId", "cityId" FROM "BenefitPrograms"
+            ) AS "groupCities"
+            WHERE "groupId" IS NOT NULL AND "cityId" IS NOT NULL
+            GROUP BY "groupId"
+            HAVING COUNT(DISTINCT "cityId") = 1
+          ) AS "usage"
+          WHERE "Groups"."id" = "usage"."groupId" AND "Groups"."cityId" IS NULL
+        `,
+        { transaction }
+      );
+
+      // Products used by the baskets, purchases, stock and programs of a single city belong to it. Products
+      // matched with the receipts (with aliases) stay shared, they are part of the catalogue used by every city
+      await queryInterface.sequelize.query(
+        `
+          UPDATE "Products" SET "cityId" = "usage"."cityId"
+          FROM (
+            SELECT "productId", MIN("cityId") AS "cityId"
+            FROM (
+              SELECT BP."productId", I."cityId" FROM "BenefitProducts" BP
+                INNER JOIN "Benefits" B ON B."id" = BP."benefitId"
+                INNER JOIN "Institutions" I ON I."id" = B."institutionId"
+              UNION
+              SELECT CP."productId", F."cityId" FROM "ConsumptionProducts" CP
+                INNER JOIN "Consumptions" C ON C."id" = CP."consumptionsId"
+                INNER JOIN "Families" F ON F."id" = C."familyId"
+              UNION
+              SELECT SM."productId", PS."cityId" FROM "StockMovements" SM
+                INNER JOIN "PlaceStores" PS ON PS."id" = SM."placeStoreId"
+              UNION
+              SELECT "productId", "cityId" FROM "BenefitPrograms"
+            ) AS "productCities"
+            WHERE "productId" IS NOT NULL AND "cityId" IS NOT NULL
+            GROUP BY "productId"
+            HAVING COUNT(DISTINCT "cityId") = 1
+          ) AS "usage"
+          WHERE "Products"."id" = "usage"."productId" AND "Products"."cityId" IS NULL
+            AND NOT EXISTS (SELECT 1 FROM "ProductAliases" PA WHERE PA."productId" = "Products"."id")
+        `,
+        { transaction }
+      );
+      await transaction.commit();
+    } catch (error) {
+      console.error(error);
+      await transaction.rollback();
+      throw error;
+    }
+  },
+
+  down: async (queryInterface) => {
+    // The backfilled cities are kept, they can't be told apart from the items created by the cities
+    return queryInterface.dropTable('ProductCityOverrides');
+  }
+};
@@ -1,33 +1,32 @@
 import db from '../../src/schemas';
 import { Benefit } from '../../src/schemas/benefits';
 import moment from 'moment';
-import { getFamilyGroupByCode } from '../../src/utils/constraints';
 
 const list = [
   {
     title: '[CAD25123] Auxilio municipal de alimentação',
-    groupId: getFamilyGroupByCode(3).id,
+    groupId: 4,
     date: moment().startOf('month').toDate(),
     institutionId: 1,
     value: 1000
   },
   {
     title: '[CAD25123] Auxilio municipal de alimentação',
-    groupId: getFamilyGroupByCode(1).id,
+    groupId: 2,
     date: moment().startOf('month').toDate(),
     institutionId: 1,
     value: 2000
   },
   {
     title: '[CAD25123] Auxilio municipal de alimentação',
-    groupId: getFamilyGroupByCode(2).id,
+    groupId: 3,
     date: moment().startOf('month').toDate(),
     institutionId: 1,
     value: 500
   },
   {
     title: '[CAD25123] Auxilio municipal de merenda',
-    groupId: getFamilyGroupByCode(0).id,
+    groupId: 1,
     date: moment().startOf('month').toDate(),
     institutionId: 1,
     value: 100
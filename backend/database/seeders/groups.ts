@@ -1,11 +1,46 @@
 import db from '../../src/schemas';
 import { Group } from '../../src/schemas/groups';
 
-const list = [
-  { title: 'Bolsa família com filho na escola pública' },
-  { title: 'Extrema pobreza' },
-  { title: 'Linha da pobreza' },
-  { title: 'Perfil CAD único' }
+// The rules follow the CadÚnico income band (fx_rfpc) of each group
+const list: Group[] = [
+  {
+    title: 'Bolsa família com filho na escola pública',
+    priority: 1,
+    eligibilityRules: [
+      { description: 'Faixa de renda 0 do CadÚnico', conditions: [{ field: 'incomeBand', operator: 'eq', value: 0 }] },
+      {
+        description: 'Bolsa Família com dependente matriculado na escola',
+        conditions: [
+          { field: 'isOnGovernProgram', operator: 'eq', value: true },
+          { field: 'schoolEnrolledCount', operator: 'gte', value: 1 }
+        ]
+      }
+    ]
+  },
+  {
+    title: 'Extrema pobreza',
+    priority: 2,
+    eligibilityRules: [
+      { description: 'Faixa de renda 1 do CadÚnico', conditions: [{ field: 'incomeBand', operator: 'eq', value: 1 }] }
+    ]
+  },
+  {
+    title: 'Linha da pobreza',
+    priority: 3,
+    eligibilityRules: [
+      { description: 'Faixa de renda 2 do CadÚnico', conditions: [{ field: 'incomeBand', operator: 'eq', value: 2 }] }
+    ]
+  },
+  {
+    title: 'Perfil CAD único',
+    priority: 4,
+    eligibilityRules: [
+      {
+        description: 'Faixas de renda 3 e 4 do CadÚnico',
+        conditions: [{ field: 'incomeBand', operator: 'in', value: [3, 4] }]
+      }
+    ]
+  }
 ];
 
 /**
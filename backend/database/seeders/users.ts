@@ -2,6 +2,14 @@ import db from '../../src/schemas';
 import { User } from '../../src/schemas/users';
 
 const list = [
+  {
+    name: 'Usuário super admin',
+    role: 'superadmin',
+    cpf: '00000000004',
+    email: 'superadmin@login.com',
+    password: 'superadmin',
+    active: true
+  },
   {
     name: 'Usuário admin',
     role: 'admin',
@@ -57,7 +65,7 @@ const seed = async () => {
         if (created) return null; // Item is already created, don't create it again
         const store = placeStores[0];
         const user = { ...item, cityId: store.cityId };
-        if (user.role !== 'admin') {
+        if (user.role !== 'admin' && user.role !== 'superadmin') {
           user.placeStoreId = store.id;
         }
         console.log(`[seed] Users: New entry will be created with data:`);
@@ -0,0 +1,14 @@
+import logging from '../utils/logging';
+import { deleteExpiredNonces } from '../models/apiClients';
+
+/**
+ * Remove the nonces that can't be replayed anymore, the request timestamp is already expired
+ */
+export const runApiClientNoncesCron = async () => {
+  try {
+    const count = await deleteExpiredNonces();
+    logging.info(`[cron] API Client Nonces: ${count} expired nonces removed`);
+  } catch (error) {
+    logging.error(error);
+  }
+};
@@ -0,0 +1,14 @@
+import logging from '../utils/logging';
+import { deleteExpiredChallenges } from '../models/beneficiaryAuth';
+
+/**
+ * Remove the portal login codes that already expired
+ */
+export const runBeneficiaryChallengesCron = async () => {
+  try {
+    const count = await deleteExpiredChallenges();
+    logging.info(`[cron] Beneficiary Challenges: ${count} expired challenges removed`);
+  } catch (error) {
+    logging.error(error);
+  }
+};
@@ -0,0 +1,39 @@
+import logging from '../utils/logging';
+import db from '../schemas';
+import { generateOccurrences } from '../models/benefitPrograms';
+
+let cronjobRunning = false;
+
+/**
+ * Generate the benefits of the program occurrences that are due, on every city
+ */
+export const runBenefitProgramsCron = async () => {
+  if (cronjobRunning) {
+    logging.critical('[cron] Benefit Programs: Cron job already running');
+    return;
+  }
+
+  cronjobRunning = true;
+  logging.info('[cron] Benefit Programs: Cron job starting');
+
+  const summary = { programs: 0, generated: 0, failed: 0 };
+  try {
+    const programs = await db.benefitPrograms.findAll();
+    for (const program of programs) {
+      summary.programs++;
+      try {
+        summary.generated += await generateOccurrences(program);
+      } catch (error) {
+        summary.failed++;
+        logging.error(error);
+      }
+    }
+  } catch (error) {
+    logging.critical('[cron] Benefit Programs: Cron failed to run', error);
+  } finally {
+    cronjobRunning = false;
+    logging.info(
+      `[cron] Benefit Programs: ${summary.programs} programs checked, ${summary.generated} benefits generated, ${summary.failed} failed`
+    );
+  }
+};
@@ -1,13 +1,17 @@
 import logging from '../utils/logging';
 import db from '../schemas';
 import { Op } from 'sequelize';
-import { scrapeConsumption } from '../models/consumptions';
+import { registerScrapingFailure, scrapeConsumption } from '../models/consumptions';
+import { getStoredNFCePagePath, readStoredNFCePage } from '../utils/nfceScraper';
+import fs from 'fs';
 
 let cronjobRunning = false;
 
 /**
- * Selects the last 100 consumptions that have a nfce link and has not been
- * processed yet and scrape the site for the purchase data.
+ * Selects the 100 oldest consumptions that have a nfce link, has not been processed yet
+ * and are due to a new attempt, then scrape the site for the purchase data.
+ *
+ * A failure is stored on the consumption with the next attempt date, the remaining items keep being scraped
  */
 export const runConsumptionScrapingCron = async () => {
   if (cronjobRunning) {
@@ -18,29 +22,100 @@ export const runConsumptionScrapingCron = async () => {
   cronjobRunning = true;
   logging.info('[cron] Consumptions Scraping: Cron job starting');
 
+  const summary = { total: 0, success: 0, failed: 0, gaveUp: 0 };
   try {
-    // Get the 100 oldest consumptions with `nfce` and without `purchaseData`
+    // Get the 100 oldest consumptions with `nfce`, without `purchaseData` and waiting for a new attempt
     const consumptions = await db.consumptions.findAll({
       where: {
-        [Op.and]: [{ [Op.not]: { nfce: null } }, { purchaseData: null }]
+        [Op.and]: [
+          { [Op.not]: { nfce: null } },
+          { purchaseData: null },
+          { scrapeGaveUpAt: null },
+          { [Op.or]: [{ scrapeNextAttemptAt: null }, { scrapeNextAttemptAt: { [Op.lte]: new Date() } }] }
+        ]
       },
       limit: 100,
       order: [['id', 'ASC']]
     });
+    summary.total = consumptions.length;
 
     console.log(`[cron] Consumptions Scraping: Scrapping ${consumptions.length} items`);
 
     // Avoid a hundred chrome instances running at the same time, serialize the scraping
-    await consumptions
-      .map((consumption) => async () => await scrapeConsumption(consumption, true))
-      .reduce(
-        (promise, fn) => promise.then((result) => fn().then(Array.prototype.concat.bind(result))),
-        Promise.resolve([] as void[])
-      );
+    for (const consumption of consumptions) {
+      try {
+        await scrapeConsumption(consumption, true);
+        summary.success++;
+      } catch (error) {
+        logging.error(`[cron] Consumptions Scraping: Failed to scrape consumption ${consumption.id}`, error);
+        try {
+          const state = await registerScrapingFailure(consumption, error);
+          if (state.scrapeGaveUpAt) {
+            summary.gaveUp++;
+          } else {
+            summary.failed++;
+          }
+        } catch (registerError) {
+          logging.error('[cron] Consumptions Scraping: Failed to store the scraping failure', registerError);
+          summary.failed++;
+        }
+      }
+    }
   } catch (error) {
     logging.critical('[cron] Consumptions Scraping: Cron failed to run', error);
   } finally {
     cronjobRunning = false;
-    console.log(`[cron] Consumptions Scraping: Scrapping finished with success`);
+    logging.info(
+      `[cron] Consumptions Scraping: ${summary.success} of ${summary.total} items scraped, ` +
+        `${summary.failed} failed and will be retried, ${summary.gaveUp} gave up`
+    );
   }
+  return summary;
+};
+
+/**
+ * Parse again the stored NFC-e page of every consumption, updating its purchase data
+ *
+ * Used after a parser fix, the pages are read from the storage without hitting the network
+ */
+export const replayConsumptionScraping = async () => {
+  logging.info('[replay] Consumptions Scraping: Replay starting');
+  const pageSize = 100;
+  const summary = { replayed: 0, failed: 0, missing: 0 };
+  try {
+    for (let offset = 0; ; offset += pageSize) {
+      const consumptions = await db.consumptions.findAll({
+        where: { [Op.not]: { nfce: null } },
+        limit: pageSize,
+        offset,
+        order: [['id', 'ASC']]
+      });
+      if (consumptions.length === 0) break;
+
+      // Serialize the parsing, each consumption also updates the products
+      for (const consumption of consumptions) {
+        const filePath = getStoredNFCePagePath(consumption.nfce as string);
+        if (!filePath || !fs.existsSync(filePath)) {
+          summary.missing++;
+          continue;
+        }
+        try {
+          await scrapeConsumption(consumption, true, readStoredNFCePage);
+          summary.replayed++;
+        } catch (error) {
+          // The stored page can't be parsed anymore, the previous purchase data is kept
+          logging.error(`[replay] Consumptions Scraping: Failed to parse consumption ${consumption.id}`, error);
+          summary.failed++;
+        }
+      }
+    }
+  } catch (error) {
+    logging.critical('[replay] Consumptions Scraping: Replay failed to run', error);
+  } finally {
+    logging.info(
+      `[replay] Consumptions Scraping: ${summary.replayed} items parsed again, ${summary.failed} failed, ` +
+        `${summary.missing} without stored page`
+    );
+  }
+  return summary;
 };
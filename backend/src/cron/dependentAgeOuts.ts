@@ -0,0 +1,26 @@
+import logging from '../utils/logging';
+import { deactivateAgedOutDependents } from '../models/dependents';
+
+let cronjobRunning = false;
+
+/**
+ * Deactivate the dependents that crossed the age limit of their group, on every city
+ */
+export const runDependentAgeOutsCron = async () => {
+  if (cronjobRunning) {
+    logging.critical('[cron] Dependent Age Outs: Cron job already running');
+    return;
+  }
+
+  cronjobRunning = true;
+  logging.info('[cron] Dependent Age Outs: Cron job starting');
+
+  try {
+    const deactivated = await deactivateAgedOutDependents();
+    logging.info(`[cron] Dependent Age Outs: ${deactivated} dependents deactivated`);
+  } catch (error) {
+    logging.critical('[cron] Dependent Age Outs: Cron failed to run', error);
+  } finally {
+    cronjobRunning = false;
+  }
+};
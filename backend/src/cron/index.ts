@@ -1,11 +1,34 @@
 import cron from 'node-cron';
 import { runConsumptionScrapingCron } from './consumptionScraping';
 import { runConsumptionValidationCron } from './consumptionValidation';
+import { runApiClientNoncesCron } from './apiClientNonces';
+import { runBeneficiaryChallengesCron } from './beneficiaryChallenges';
+import { runLedgerReconciliationCron } from './ledgerReconciliation';
+import { runBenefitProgramsCron } from './benefitPrograms';
+import { runDependentAgeOutsCron } from './dependentAgeOuts';
 
 /**
  * Setup all of the cronjobs in the system
  */
 export const setupCronjobs = () => {
+  /**
+   * Deactivate the dependents over the age limit of their group
+   * Runs every day 00:30, the deactivation date is the end of the month when the age was crossed
+   */
+  cron.schedule('30 0 * * *', () => runDependentAgeOutsCron());
+
+  /**
+   * Generate the benefits of the programs
+   * Runs every day 1 am, before the benefits become available
+   */
+  cron.schedule('0 1 * * *', () => runBenefitProgramsCron());
+
+  /**
+   * Record the missing ledger entries and compare the balances with the legacy computation
+   * Runs every day 1:30 am, the balances only read the ledger, so the benefits of the day are granted by it
+   */
+  cron.schedule('30 1 * * *', () => runLedgerReconciliationCron());
+
   /**
    * Scrape the Receita Federal site for purchase data
    * Runs every hour, at 03:00
@@ -17,4 +40,16 @@ export const setupCronjobs = () => {
    * Runs every day 4 am
    */
   cron.schedule('0 4 * * *', () => runConsumptionValidationCron());
+
+  /**
+   * Remove the expired nonces of the public API clients
+   * Runs every 30 minutes
+   */
+  cron.schedule('*/30 * * * *', () => runApiClientNoncesCron());
+
+  /**
+   * Remove the expired portal login codes
+   * Runs every hour
+   */
+  cron.schedule('0 * * * *', () => runBeneficiaryChallengesCron());
 };
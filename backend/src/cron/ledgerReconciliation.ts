@@ -0,0 +1,65 @@
+import logging from '../utils/logging';
+import db from '../schemas';
+import { getFamilyDependentBalanceTicket } from '../models/consumptions';
+import { getBalance, saveReconciliation, syncFamilyLedger } from '../models/ledgerEntries';
+import { sumApprovedValue } from '../models/balanceAdjustments';
+import { cityScope } from '../utils/tenancy';
+
+let cronjobRunning = false;
+
+/**
+ * Compare the ledger balance of every family with the legacy computation, the families that disagree are
+ * stored on the mismatches list
+ *
+ * The missing ledger entries are recorded before the comparison, so it also grants the benefits that became
+ * available since the last run. Only the ticket consumption type has a ledger
+ */
+export const runLedgerReconciliationCron = async () => {
+  if (process.env.CONSUMPTION_TYPE !== 'ticket') return;
+  if (cronjobRunning) {
+    logging.critical('[cron] Ledger Reconciliation: Cron job already running');
+    return;
+  }
+
+  cronjobRunning = true;
+  logging.info('[cron] Ledger Reconciliation: Cron job starting');
+
+  const summary = { total: 0, mismatches: 0, failed: 0 };
+  try {
+    const cities = await db.cities.findAll();
+    for (const city of cities) {
+      const benefits = await db.benefits.findAll({ where: cityScope('benefits', city.id) });
+      const families = await db.families.findAll({
+        where: { cityId: city.id as number },
+        include: [
+          { model: db.dependents, as: 'dependents' },
+          { model: db.consumptions, as: 'consumptions', required: false }
+        ]
+      });
+
+      // Serialized, so the server response time is not affected
+      for (const family of families) {
+        summary.total++;
+        try {
+          await syncFamilyLedger(family, benefits);
+          const ledgerBalance = await getBalance(family.id as number);
+          // The legacy computation doesn't know the manual adjustments
+          const legacyBalance =
+            (await getFamilyDependentBalanceTicket(family, benefits)) + (await sumApprovedValue(family.id as number));
+          const reconciled = await saveReconciliation(family.id as number, ledgerBalance, legacyBalance);
+          if (!reconciled) summary.mismatches++;
+        } catch (error) {
+          summary.failed++;
+          logging.error(error);
+        }
+      }
+    }
+  } catch (error) {
+    logging.critical('[cron] Ledger Reconciliation: Cron failed to run', error);
+  } finally {
+    cronjobRunning = false;
+    logging.info(
+      `[cron] Ledger Reconciliation: ${summary.total} families checked, ${summary.mismatches} mismatches, ${summary.failed} failed`
+    );
+  }
+};
@@ -8,7 +8,9 @@ import path from 'path';
 
 import routes from './routes';
 import logging from './utils/logging';
+import { parseTrustProxy } from './middlewares/rateLimit';
 import { setupCronjobs } from './cron';
+import { failInterrupted as failInterruptedImports } from './models/importJobs';
 
 require('dotenv').config();
 
@@ -27,10 +29,15 @@ const init = (listeningCallback: () => void, errorCallback: (error: Error) => vo
   try {
     // App Configurations
     const app = express();
+    // Needed behind a proxy, so the IP of the client is used by the rate limits and the audit log
+    const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+    if (trustProxy !== undefined) {
+      app.set('trust proxy', trustProxy);
+    }
     app.use(
       cors({
         origin: /.*/,
-        allowedHeaders: ['Authorization', 'X-Requested-With', 'Content-Type'],
+        allowedHeaders: ['Authorization', 'X-Requested-With', 'Content-Type', 'Beneficiary-Token', 'City-Id'],
         maxAge: 86400, // NOTICE: 1 day
         credentials: true
       })
@@ -56,6 +63,9 @@ const init = (listeningCallback: () => void, errorCallback: (error: Error) => vo
     server.on('error', errorCallback);
     server.on('listening', listeningCallback);
 
+    // Imports running when the server stopped will never finish, flag them so they can be retried
+    failInterruptedImports();
+
     //Setup the server cronjobs
     if (process.env.CONSUMPTION_TYPE !== 'product') {
       setupCronjobs();
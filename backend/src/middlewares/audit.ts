@@ -0,0 +1,69 @@
+import { NextFunction, Request, Response } from 'express';
+import * as auditLogModel from '../models/auditLogs';
+
+export type AuditData = {
+  action?: string;
+  entityId?: string | number | null;
+  // Item state before the change
+  before?: unknown;
+};
+
+// Action stored by default for each method, the route can override it with `setAuditData`
+const defaultActions: { [method: string]: string } = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+/**
+ * Add data about the change to the audit of the current request
+ * @param res express response
+ * @param data action, entity ID and the item state before the change
+ */
+export const setAuditData = (res: Response, data: AuditData) => {
+  res.locals.audit = { ...(res.locals.audit || {}), ...data };
+};
+
+/**
+ * Create a middleware that stores every successful write request on the audit log
+ *
+ * The response body is stored as the item state after the change
+ * @param entity sub-router resource name
+ * @returns express middleware
+ */
+export const auditWrites = (entity: string) => (req: Request, res: Response, next: NextFunction) => {
+  const defaultAction = defaultActions[req.method.toUpperCase()];
+  if (!defaultAction) return next();
+
+  // Keep the first body sent and the route params, they are reset when the request leaves the sub-router
+  const originalSend = res.send;
+  let captured: { body?: unknown; entityId?: string } | null = null;
+  res.send = function (this: Response, body?: unknown) {
+    if (!captured) captured = { body, entityId: req.params?.id };
+    return originalSend.call(this, body);
+  } as Response['send'];
+
+  res.on('finish', () => {
+    if (res.statusCode >= 400) return;
+    const audit: AuditData = res.locals.audit || {};
+    const after = captured?.body;
+    const afterId = after && typeof after === 'object' ? (after as { id?: string | number }).id : undefined;
+    const entityId = audit.entityId ?? captured?.entityId ?? afterId;
+    auditLogModel.create({
+      cityId: req.user?.cityId || req.apiClient?.cityId || null,
+      userId: req.user?.id || null,
+      action: audit.action || defaultAction,
+      entity,
+      entityId: entityId !== undefined && entityId !== null ? entityId.toString() : null,
+      before: audit.before,
+      after,
+      method: req.method.toUpperCase(),
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      ip: req.ip || null,
+      userAgent: req.get('user-agent') || null
+    });
+  });
+  return next();
+};
@@ -1,9 +1,11 @@
 import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import passport from 'passport';
 import { ExtractJwt, Strategy as JWTStrategy, StrategyOptions } from 'passport-jwt';
 import { Strategy as LocalStrategy } from 'passport-local';
 
+import moment from 'moment';
 import db from '../schemas';
 import { User } from '../schemas/users';
 import { getError } from '../utils/errorLibrary';
@@ -21,18 +23,16 @@ const options: StrategyOptions & { tokenLifeTime?: string | number } = {
   tokenLifeTime: process.env.ACCESS_LIFETIME || '5m'
 };
 
+// Failed attempts before the user is locked and for how long
+export const maxLoginAttempts = 5;
+export const loginLockMinutes = 15;
+
 const refreshTokenOptions: StrategyOptions & { tokenLifeTime?: string | number } = {
   jwtFromRequest: ExtractJwt.fromBodyField('refreshToken'),
   secretOrKey: process.env.JWT_SECRET || 'undefined-refresh-secret',
   tokenLifeTime: process.env.REFRESH_LIFETIME || '10d'
 };
 
-/**
- * List of sign tokens, this should only be used during development and tests
- * in production you should use Redis
- */
-const tokenList: { [key: string]: TokenResponse } = {};
-
 /**
  * Return user prepared to the login
  * @param id unique user ID
@@ -65,7 +65,8 @@ const jwtStrategy = new JWTStrategy(options, async (jwtPayload, done) => {
     // Finding user on local DB
     const user = await getLoggedUserById(jwtPayload.id);
     if (user) {
-      // User found on DB
+      // User found on DB, the temporary password can only be used to choose a new one
+      if (user.mustChangePassword) return done(null, false, getError('passwordChangeRequired'));
       return done(null, user.toJSON());
     }
     // User not found on DB
@@ -97,6 +98,8 @@ const refreshTokenStrategy = new JWTStrategy(refreshTokenOptions, async (jwtPayl
 
 /**
  * Check if user exists on the DB, his password and the rules to log with each type
+ *
+ * After `maxLoginAttempts` wrong passwords the user is locked for `loginLockMinutes`
  * @param email - string with user email
  * @param password - string with user password
  * @returns User
@@ -107,16 +110,37 @@ export const loginWithEmailAndPassword = async (email: string, password: string)
   // Checking if found a valid user
   if (!registeredUser) throw getError('noUserFoundWithValidEmail'); // User not found
 
+  // Checking lock
+  if (registeredUser.lockedUntil && moment(registeredUser.lockedUntil).isAfter(moment())) {
+    throw getError('lockedUserLogging');
+  }
+
   // Checking password
   if (
     !registeredUser.password ||
     (registeredUser.password && !(await compareHash(password, registeredUser.password)))
   ) {
-    throw getError('invalidCredentials'); // Invalid password
+    const failedLoginAttempts = (registeredUser.failedLoginAttempts || 0) + 1;
+    const locked = failedLoginAttempts >= maxLoginAttempts;
+    await db.users.update(
+      {
+        failedLoginAttempts: locked ? 0 : failedLoginAttempts,
+        lockedUntil: locked ? moment().add(loginLockMinutes, 'minutes').toDate() : registeredUser.lockedUntil
+      },
+      { where: { id: registeredUser.id as number } }
+    );
+    throw getError(locked ? 'lockedUserLogging' : 'invalidCredentials'); // Invalid password
   }
   // Check if active
   if (!registeredUser.active) throw getError('inactiveUserLogging');
 
+  if (registeredUser.failedLoginAttempts || registeredUser.lockedUntil) {
+    await db.users.update(
+      { failedLoginAttempts: 0, lockedUntil: null },
+      { where: { id: registeredUser.id as number } }
+    );
+  }
+
   // User is valid, return it
   return registeredUser.toJSON() as User;
 };
@@ -163,34 +187,11 @@ export const getRefreshToken = (user: User) => {
   const token = {
     id: user.id
   };
-  return jwt.sign(token, refreshTokenOptions.secretOrKey as string, { expiresIn: refreshTokenOptions.tokenLifeTime });
-};
-
-/**
- * Update the last Refresh Token response in the storage
- *
- * This data will be used to validate the refresh token on the token request
- *
- * @param refreshToken Refresh JSON Web Token used as key in the storage
- * @param response Response with the last token generated with the refresh token
- */
-export const updateTokenList = (refreshToken: string, response: TokenResponse | undefined) => {
-  if (response) {
-    tokenList[refreshToken] = response;
-  } else {
-    delete tokenList[refreshToken];
-  }
-};
-
-/**
- * Check if the Refresh Token is in the storage and return it if exists
- *
- * @param refreshToken Refresh JSON Web Token used as key in the storage
- * @returns The last response associated with the token, if it exists
- */
-export const getFromTokenList = (refreshToken: string) => {
-  if (refreshToken in tokenList) return tokenList[refreshToken];
-  return null;
+  // Random ID, so two tokens of the same user created at the same second are different
+  return jwt.sign(token, refreshTokenOptions.secretOrKey as string, {
+    expiresIn: refreshTokenOptions.tokenLifeTime,
+    jwtid: crypto.randomBytes(16).toString('hex')
+  });
 };
 
 /**
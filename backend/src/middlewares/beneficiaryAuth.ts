@@ -0,0 +1,28 @@
+import { NextFunction, Request, Response } from 'express';
+import logging from '../utils/logging';
+import { getError } from '../utils/errorLibrary';
+import { verifySessionToken } from '../models/beneficiaryAuth';
+
+/**
+ * Handling the beneficiary session on the public endpoints, used after the `requirePublicAuth`
+ *
+ * The session is created by the portal login and is only valid on the city of the API client
+ * @param req - express req
+ * @param res - express res
+ * @param next - express next
+ * @returns void
+ */
+export const requireBeneficiarySession = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = verifySessionToken(req.headers['beneficiary-token'] as string | undefined);
+    if (!session || !req.apiClient || `${session.cityId}` !== `${req.apiClient.cityId}`) {
+      const error = getError('invalidBeneficiarySession');
+      return res.status(error.status as number).send(error.message);
+    }
+    req.beneficiary = session;
+    return next();
+  } catch (error) {
+    logging.error(error);
+    return res.status(500).send(error.message);
+  }
+};
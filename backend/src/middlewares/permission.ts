@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from 'express';
+import { getError } from '../utils/errorLibrary';
+import { isRoleAllowed, PermissionResource } from '../utils/permissions';
+
+/**
+ * Create a middleware that checks the logged user role against the permission matrix
+ * @param resource sub-router resource name on the permission matrix
+ * @returns express middleware
+ */
+export const requirePermission = (resource: PermissionResource) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!isRoleAllowed(req.user?.role, resource, req.method, req.path)) {
+    const error = getError('forbiddenRole');
+    return res.status(error.status as number).send(error.message);
+  }
+  return next();
+};
@@ -1,14 +1,12 @@
-import CryptoJS from 'crypto-js';
 import { NextFunction, Request, Response } from 'express';
 import logging from '../utils/logging';
-
-type PublicAuth = {
-  now: Date | string | number;
-  token: string;
-};
+import { parseSignatureHeader, isValidSignature, isValidTimestamp } from '../utils/apiSignature';
+import * as apiClientModel from '../models/apiClients';
 
 /**
- * Handling the public endpoints token
+ * Handling the public endpoints signature
+ *
+ * Each portal has its own client credentials, the request is signed with the client key and can be used only once
  * @param req - express req
  * @param res - express res
  * @param next - express next
@@ -16,27 +14,38 @@ type PublicAuth = {
  */
 export const requirePublicAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const code = req.headers['authorization'] as string;
-    if (!code) {
+    const data = parseSignatureHeader(req.headers['authorization']);
+    if (!data) {
+      return res.status(401).send('Unauthorized');
+    }
+
+    const client = await apiClientModel.getActiveByKeyId(data.keyId);
+    if (!client) {
+      logging.error('Request on public route with unknown or revoked client', { keyId: data.keyId });
+      return res.status(401).send('Unauthorized');
+    }
+
+    if (!isValidTimestamp(data.timestamp)) {
+      logging.error('Request on public route with expired timestamp', { keyId: data.keyId });
       return res.status(401).send('Unauthorized');
     }
-    const bytes = CryptoJS.AES.decrypt(code, process.env.AUTH_SECRET || 'some-secret');
-    const decryptedData = JSON.parse(bytes.toString(CryptoJS.enc.Utf8)) as PublicAuth;
 
-    // Validating data;
-    const { token } = decryptedData;
-    if (!token) {
-      console.log(Object.keys(decryptedData));
-      logging.critical('Request on public route using invalid object', decryptedData);
+    // The previous key is still accepted during the rotation grace period
+    const request = { method: req.method, path: req.originalUrl, timestamp: data.timestamp, nonce: data.nonce };
+    const secrets = apiClientModel.getClientSecrets(client);
+    if (!secrets.some((secret) => isValidSignature(secret, request, data.signature))) {
+      logging.error('Request on public route with invalid signature', { keyId: data.keyId });
       return res.status(401).send('Unauthorized');
     }
 
-    // Check if token match
-    if (token !== process.env.AUTH_TOKEN) {
-      logging.error('Request on public route with invalid token', decryptedData);
+    // Nonces are checked only after the signature, so a forged request can't burn them
+    if (!(await apiClientModel.registerNonce(client.id as number, data.nonce))) {
+      logging.critical('Request on public route replayed', { keyId: data.keyId });
       return res.status(401).send('Unauthorized');
     }
 
+    await apiClientModel.registerUse(client);
+    req.apiClient = client;
     return next();
   } catch (error) {
     logging.error(error);
@@ -0,0 +1,66 @@
+import { NextFunction, Request, Response } from 'express';
+import logging from '../utils/logging';
+import { getError } from '../utils/errorLibrary';
+import { RateLimitRuleName, getBlock, hit } from '../models/rateLimits';
+
+/**
+ * Parse the `trust proxy` setting of the environment, Express only counts the hops when they are a number
+ * @param value setting value: true, false, a number of hops or a list of addresses
+ * @returns Express setting, undefined when it's empty
+ */
+export const parseTrustProxy = (value?: string): boolean | number | string | undefined => {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+};
+
+/**
+ * Send the error of a rejected request, with the time the client must wait
+ * @param res express response
+ * @param key error key
+ * @param retryIn time to wait, in milliseconds
+ * @returns express response
+ */
+const sendRejected = (res: Response, key: string, retryIn?: number) => {
+  const error = getError(key);
+  if (retryIn && retryIn > 0) res.set('Retry-After', `${Math.ceil(retryIn / 1000)}`);
+  return res.status(error.status as number).send(error.message);
+};
+
+/**
+ * Create a middleware that limits the requests of each client on the rule window
+ *
+ * The `ip` rule also rejects the blocked IPs. When the store fails, the request is accepted, so the portal keeps
+ * working without the limits
+ * @param rule rule name
+ * @param getId function that returns the client identifier of the request, the request is not counted without it
+ * @returns express middleware
+ */
+export const rateLimit = (rule: RateLimitRuleName, getId: (req: Request) => string | undefined) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const id = getId(req);
+    if (!id) return next();
+
+    if (rule === 'ip') {
+      const block = await getBlock('ip', id);
+      if (block) return sendRejected(res, 'blockedPublicClient', block.expiresAt && +block.expiresAt - Date.now());
+    }
+
+    const result = await hit(rule, id);
+    res.set('X-RateLimit-Limit', `${result.max}`);
+    res.set('X-RateLimit-Remaining', `${Math.max(result.max - result.count, 0)}`);
+    if (!result.allowed) {
+      logging.info(`[rate-limit] ${rule} limit reached`, { id, count: result.count });
+      return sendRejected(res, 'tooManyRequests', result.resetIn);
+    }
+    return next();
+  } catch (error) {
+    logging.error(error);
+    return next();
+  }
+};
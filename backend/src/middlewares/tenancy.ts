@@ -0,0 +1,51 @@
+import { NextFunction, Request, Response } from 'express';
+import logging from '../utils/logging';
+import { getError } from '../utils/errorLibrary';
+import { parseCityId } from '../utils/tenancy';
+import * as cityModel from '../models/cities';
+
+/**
+ * Define the city of the request, used after the `jwtMiddleware`
+ *
+ * Users work on their own city, only the super admin can select another one using the `City-Id` header.
+ * The selected city replaces the user city, so every route and model keeps using `req.user.cityId`
+ * @param req - express req
+ * @param res - express res
+ * @param next - express next
+ * @returns void
+ */
+export const requireCity = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.cityId) throw getError('userWithoutCity');
+    const selectedCityId = req.headers['city-id'] as string | undefined;
+    if (selectedCityId && `${selectedCityId}` !== `${req.user.cityId}`) {
+      if (req.user.role !== 'superadmin') throw getError('forbiddenCity');
+      const city = await cityModel.getById(parseCityId(selectedCityId));
+      if (!city) throw getError('cityNotFound');
+      req.user = { ...req.user, cityId: city.id as number };
+    }
+    return next();
+  } catch (error) {
+    if (!error.status) logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+};
+
+/**
+ * Allow only the download of the files generated for the city of the request, used on the static files
+ *
+ * Reports are stored as `<name>_<cityId>.csv` on the storage root, the other files (imports, messages and
+ * uploads) are never served
+ * @param req - express req
+ * @param res - express res
+ * @param next - express next
+ * @returns void
+ */
+export const requireCityFile = (req: Request, res: Response, next: NextFunction) => {
+  const cityFile = new RegExp(`^/[\\w-]+_${req.user?.cityId}\\.csv$`);
+  if (!req.user?.cityId || !cityFile.test(req.path)) {
+    const error = getError('forbiddenCity');
+    return res.status(error.status as number).send(error.message);
+  }
+  return next();
+};
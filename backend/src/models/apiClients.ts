@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+import moment from 'moment';
+import { Op, UniqueConstraintError } from 'sequelize';
+import db from '../schemas';
+import { ApiClient, SequelizeApiClient } from '../schemas/apiClients';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { signatureMaxAge } from '../utils/apiSignature';
+
+// Hours the previous key keeps working after a rotation, so the portal can be updated
+export const rotationGraceHours = 24;
+
+// Client data returned to the admin, the keys are only returned when created
+const publicAttributes = ['id', 'cityId', 'name', 'keyId', 'rotatedAt', 'revokedAt', 'lastUsedAt', 'createdAt'];
+
+const encryptionKey = process.env.API_CLIENT_ENCRYPTION_KEY || process.env.JWT_SECRET || 'undefined-secret';
+
+/**
+ * Encrypt a client key to be stored, the key must be recovered to check the signatures
+ * @param secret client key
+ * @returns encrypted key
+ */
+const encryptSecret = (secret: string) => CryptoJS.AES.encrypt(secret, encryptionKey).toString();
+
+/**
+ * Decrypt a stored client key
+ * @param encrypted encrypted key
+ * @returns client key
+ */
+const decryptSecret = (encrypted: string) => CryptoJS.AES.decrypt(encrypted, encryptionKey).toString(CryptoJS.enc.Utf8);
+
+/**
+ * Create a new random client key
+ * @returns client key
+ */
+const generateSecret = () => crypto.randomBytes(32).toString('hex');
+
+/**
+ * Get all clients of the city
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getAll = (cityId: NonNullable<City['id']>): Promise<SequelizeApiClient[]> => {
+  return db.apiClients.findAll({
+    attributes: publicAttributes,
+    where: { cityId },
+    include: [{ model: db.users, as: 'createdBy', attributes: ['id', 'name', 'email'] }],
+    order: [['name', 'ASC']]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getById = async (
+  id: NonNullable<ApiClient['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeApiClient | null> => {
+  const [item] = await db.apiClients.findAll({ attributes: publicAttributes, where: { id, cityId }, limit: 1 });
+  return item || null;
+};
+
+/**
+ * Function to create a new client with its key
+ * @param values object with the new item data
+ * @param cityId logged user city ID
+ * @param createdById logged user unique ID
+ * @returns Promise<Item> with the key, the only time it's returned
+ */
+export const create = async (
+  values: Pick<ApiClient, 'name'>,
+  cityId: NonNullable<City['id']>,
+  createdById?: User['id']
+) => {
+  if (!values.name) throw { status: 412, message: 'O nome do cliente é obrigatório' };
+  const secret = generateSecret();
+  const item = await db.apiClients.create({
+    name: values.name,
+    cityId,
+    keyId: `pc_${crypto.randomBytes(12).toString('hex')}`,
+    secret: encryptSecret(secret),
+    createdById: createdById || null
+  });
+  return { ...((await getById(item.id as number, cityId))?.toJSON() as ApiClient), secret };
+};
+
+/**
+ * Replace the client key, the previous key keeps working during the grace period
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @param graceHours hours the previous key keeps working
+ * @returns Promise<Item> with the new key, the only time it's returned
+ */
+export const rotateSecret = async (
+  id: NonNullable<ApiClient['id']>,
+  cityId: NonNullable<City['id']>,
+  graceHours = rotationGraceHours
+) => {
+  const [item] = await db.apiClients.findAll({ where: { id, cityId, revokedAt: null }, limit: 1 });
+  if (!item) throw { status: 404, message: 'Not found' };
+  const secret = generateSecret();
+  await item.update({
+    secret: encryptSecret(secret),
+    previousSecret: graceHours > 0 ? item.secret : null,
+    previousSecretExpiresAt: graceHours > 0 ? moment().add(graceHours, 'hours').toDate() : null,
+    rotatedAt: moment().toDate()
+  });
+  return { ...((await getById(id, cityId))?.toJSON() as ApiClient), secret };
+};
+
+/**
+ * Revoke the client, its requests are rejected from now on
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const revokeById = async (
+  id: NonNullable<ApiClient['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeApiClient | null> => {
+  await db.apiClients.update(
+    { revokedAt: moment().toDate(), previousSecret: null, previousSecretExpiresAt: null },
+    { where: { id, cityId, revokedAt: null } }
+  );
+  return getById(id, cityId);
+};
+
+/**
+ * Find an active client by the public identifier
+ * @param keyId client public identifier
+ * @returns Promise<Item>, null when unknown or revoked
+ */
+export const getActiveByKeyId = async (keyId: string): Promise<SequelizeApiClient | null> => {
+  const [item] = await db.apiClients.findAll({ where: { keyId, revokedAt: null }, limit: 1 });
+  return item || null;
+};
+
+/**
+ * Get the keys that can sign the client requests, the previous key is only returned during the grace period
+ * @param client client with the encrypted keys
+ * @returns list of keys
+ */
+export const getClientSecrets = (client: ApiClient) => {
+  const secrets = [decryptSecret(client.secret)];
+  if (client.previousSecret && moment(client.previousSecretExpiresAt || undefined).isAfter(moment())) {
+    secrets.push(decryptSecret(client.previousSecret));
+  }
+  return secrets.filter((secret) => secret.length > 0);
+};
+
+/**
+ * Store a nonce used by the client
+ * @param apiClientId client unique ID
+ * @param nonce random value sent on the request
+ * @returns false when the nonce was already used (replayed request)
+ */
+export const registerNonce = async (apiClientId: NonNullable<ApiClient['id']>, nonce: string) => {
+  try {
+    await db.apiClientNonces.create({ apiClientId, nonce });
+    return true;
+  } catch (error) {
+    if (error instanceof UniqueConstraintError) return false;
+    throw error;
+  }
+};
+
+/**
+ * Register the last use of the client, at most once a minute
+ * @param client client that signed the request
+ */
+export const registerUse = async (client: SequelizeApiClient) => {
+  if (!client.lastUsedAt || moment().diff(client.lastUsedAt, 'minutes') >= 1) {
+    await db.apiClients.update({ lastUsedAt: moment().toDate() }, { where: { id: client.id as number } });
+  }
+};
+
+/**
+ * Remove the nonces older than the accepted request timestamp, they can't be replayed anymore
+ * @returns number of removed nonces
+ */
+export const deleteExpiredNonces = () => {
+  return db.apiClientNonces.destroy({
+    where: {
+      createdAt: {
+        [Op.lt]: moment()
+          .subtract(signatureMaxAge * 2, 'milliseconds')
+          .toDate()
+      }
+    }
+  });
+};
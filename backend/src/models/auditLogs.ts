@@ -0,0 +1,91 @@
+import { Op, WhereOptions } from 'sequelize';
+import moment from 'moment';
+import db from '../schemas';
+import { AuditLog, SequelizeAuditLog } from '../schemas/auditLogs';
+import { City } from '../schemas/cities';
+import logging from '../utils/logging';
+
+export type AuditLogFilters = {
+  entity?: string;
+  entityId?: string;
+  action?: string;
+  userId?: string | number;
+  // Date range, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+// Fields that are never stored on the audit log
+const sensitiveKeyRegex = /password|token|secret|challenge/i;
+
+/**
+ * Copy a value to be stored on the audit log, without the sensitive fields
+ * @param value model instance, object or JSON string
+ * @returns plain object or null
+ */
+export const sanitizeAuditValue = (value: unknown): object | null => {
+  if (value === undefined || value === null || value === '') return null;
+  let plain = value;
+  if (typeof plain === 'string') {
+    try {
+      plain = JSON.parse(plain);
+    } catch (error) {
+      return { value: plain };
+    }
+  }
+  if (typeof plain !== 'object') return { value: plain };
+  return JSON.parse(
+    JSON.stringify(plain, (key, item) => (key && sensitiveKeyRegex.test(key) ? undefined : item))
+  ) as object;
+};
+
+/**
+ * Append a new row to the audit log
+ *
+ * The audit never breaks the request, a failure is only logged
+ * @param values audit data, before and after are sanitized before being stored
+ */
+export const create = async (
+  values: Omit<AuditLog, 'before' | 'after'> & { before?: unknown; after?: unknown }
+): Promise<SequelizeAuditLog | null> => {
+  try {
+    return await db.auditLogs.create({
+      ...values,
+      before: sanitizeAuditValue(values.before),
+      after: sanitizeAuditValue(values.after)
+    });
+  } catch (error) {
+    logging.critical('[audit] Failed to store the audit log', { error, values });
+    return null;
+  }
+};
+
+/**
+ * Get the audit log of the city, newest first
+ * @param cityId logged user city ID
+ * @param filters entity, action, user and date range filters
+ * @returns Promise<Paginated list of items>
+ */
+export const getAll = async (cityId: NonNullable<City['id']>, filters: AuditLogFilters = {}) => {
+  const pageSize = Math.min(Math.max(Number(filters.pageSize) || 50, 1), 500);
+  const page = Math.max(Number(filters.page) || 1, 1);
+
+  const where: WhereOptions[] = [{ cityId }];
+  if (filters.entity) where.push({ entity: filters.entity });
+  if (filters.entityId) where.push({ entityId: filters.entityId.toString() });
+  if (filters.action) where.push({ action: filters.action });
+  if (filters.userId) where.push({ userId: filters.userId });
+  if (filters.from) where.push({ createdAt: { [Op.gte]: moment(filters.from).startOf('day').toDate() } });
+  if (filters.to) where.push({ createdAt: { [Op.lte]: moment(filters.to).endOf('day').toDate() } });
+
+  const { count, rows } = await db.auditLogs.findAndCountAll({
+    where: { [Op.and]: where },
+    include: [{ model: db.users, as: 'user', attributes: ['id', 'name', 'email'] }],
+    order: [['id', 'DESC']],
+    limit: pageSize,
+    offset: (page - 1) * pageSize
+  });
+  return { count, page, pageSize, rows };
+};
@@ -0,0 +1,279 @@
+import Sequelize, { Transaction } from 'sequelize';
+import db, { sequelize } from '../schemas';
+import { BalanceAdjustment, BalanceAdjustmentProduct, SequelizeBalanceAdjustment } from '../schemas/balanceAdjustments';
+import { BenefitProduct } from '../schemas/benefitProducts';
+import { Family } from '../schemas/families';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { BalanceAdjustmentStatus } from '../utils/constraints';
+import { cityScope } from '../utils/tenancy';
+import { recordAdjustment } from './ledgerEntries';
+
+// Granted amount of a product, from the benefits or the adjustments
+export type GrantedProduct = Pick<BenefitProduct, 'productId' | 'amount' | 'product' | 'createdAt'>;
+
+export type AdjustmentRequest = Pick<BalanceAdjustment, 'value' | 'products' | 'reason'>;
+
+const includes = [
+  { model: db.families, as: 'family', attributes: ['id', 'code', 'responsibleName', 'responsibleNis'] },
+  { model: db.users, as: 'requestedBy', attributes: ['id', 'name', 'email'] },
+  { model: db.users, as: 'reviewedBy', attributes: ['id', 'name', 'email'] }
+];
+
+/**
+ * Check the values of a new adjustment, the ticket type changes the balance value and the product type
+ * changes the product amounts
+ * @param values adjustment values
+ * @param consumptionType consumption type of the city
+ * @returns only the values that can be set on the request
+ */
+export const checkAdjustmentValues = (
+  values: Partial<AdjustmentRequest>,
+  consumptionType: 'ticket' | 'product'
+): AdjustmentRequest => {
+  const reason = (values.reason || '').trim();
+  if (!reason) throw { status: 412, message: 'O motivo do ajuste é obrigatório' };
+
+  if (consumptionType === 'ticket') {
+    const value = Math.round(Number(values.value) * 100) / 100;
+    if (!Number.isFinite(value) || value === 0) throw { status: 412, message: 'Valor do ajuste inválido' };
+    return { reason, value, products: null };
+  }
+
+  const products = (values.products || []).filter((item) => item && item.productId);
+  if (products.length < 1 || products.some((item) => !Number.isInteger(Number(item.amount)) || !item.amount)) {
+    throw { status: 412, message: 'Quantidades do ajuste inválidas' };
+  }
+  return {
+    reason,
+    value: null,
+    products: products.map((item) => ({ productId: Number(item.productId), amount: Number(item.amount) }))
+  };
+};
+
+/**
+ * Sum the product amounts of a list of adjustments
+ * @param adjustments list of adjustments
+ * @returns amount of each product, without the products that sum zero
+ */
+export const sumProductAmounts = (adjustments: BalanceAdjustment[]): BalanceAdjustmentProduct[] => {
+  const amounts = adjustments.reduce((sum, adjustment) => {
+    for (const item of adjustment.products || []) {
+      sum[item.productId] = (sum[item.productId] || 0) + Number(item.amount);
+    }
+    return sum;
+  }, {} as { [productId: string]: number });
+  return Object.keys(amounts)
+    .filter((productId) => amounts[productId] !== 0)
+    .map((productId) => ({ productId: Number(productId), amount: amounts[productId] }));
+};
+
+/**
+ * Add the approved product adjustments to the products granted by the benefits
+ * @param granted products granted by the benefits, grouped by product
+ * @param adjusted approved amount of each product, with the product data
+ * @returns list with the adjusted amounts
+ */
+export const applyProductAdjustments = (granted: GrantedProduct[], adjusted: GrantedProduct[]): GrantedProduct[] => {
+  const list = granted.map((item) => {
+    const adjustment = adjusted.find((adjustedItem) => `${adjustedItem.productId}` === `${item.productId}`);
+    return adjustment ? { ...item, amount: item.amount + adjustment.amount } : item;
+  });
+  const onlyAdjusted = adjusted.filter(
+    (adjustedItem) => !granted.find((item) => `${item.productId}` === `${adjustedItem.productId}`)
+  );
+  return [...list, ...onlyAdjusted];
+};
+
+/**
+ * Get all adjustments of the city, newest first
+ * @param cityId logged user city ID
+ * @param status optional status filter
+ * @returns Promise<List of items>
+ */
+export const getAll = (
+  cityId: NonNullable<City['id']>,
+  status?: BalanceAdjustmentStatus
+): Promise<SequelizeBalanceAdjustment[]> => {
+  return db.balanceAdjustments.findAll({
+    where: cityScope('balanceAdjustments', cityId, status ? { status } : undefined),
+    include: includes,
+    order: [['id', 'DESC']]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getById = async (
+  id: NonNullable<BalanceAdjustment['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBalanceAdjustment | null> => {
+  const [item] = await db.balanceAdjustments.findAll({
+    where: cityScope('balanceAdjustments', cityId, { id }),
+    include: includes,
+    limit: 1
+  });
+  return item || null;
+};
+
+/**
+ * Request an adjustment on the family balance, it's counted only after approved
+ * @param familyId family unique ID
+ * @param values adjustment values
+ * @param user logged user, stored as the requester
+ * @returns Promise<Item>
+ */
+export const requestAdjustment = async (
+  familyId: NonNullable<Family['id']>,
+  values: Partial<AdjustmentRequest>,
+  user: User
+): Promise<SequelizeBalanceAdjustment> => {
+  const consumptionType = process.env.CONSUMPTION_TYPE as 'ticket' | 'product';
+  const adjustment = checkAdjustmentValues(values, consumptionType);
+
+  const family = await db.families.findOne({ where: cityScope('families', user.cityId, { id: familyId }) });
+  if (!family) throw { status: 404, message: 'Família não encontrada' };
+
+  if (adjustment.products) {
+    const productIds = adjustment.products.map((item) => item.productId);
+    const count = await db.products.count({ where: cityScope('products', user.cityId, { id: productIds }) });
+    if (count !== productIds.length) throw { status: 412, message: 'Produto não encontrado' };
+  }
+
+  return db.balanceAdjustments.create({
+    ...adjustment,
+    familyId: family.id as number,
+    status: 'pending',
+    requestedById: user.id as number
+  });
+};
+
+/**
+ * Get a pending adjustment that can be reviewed by the user
+ * @param id unique ID of the adjustment
+ * @param user logged user
+ * @returns Promise<Item>
+ */
+const getPendingForReview = async (id: NonNullable<BalanceAdjustment['id']>, user: User) => {
+  const adjustment = await getById(id, user.cityId as number);
+  if (!adjustment) throw { status: 404, message: 'Ajuste não encontrado' };
+  if (adjustment.status !== 'pending') throw { status: 409, message: 'O ajuste já foi revisado' };
+  return adjustment;
+};
+
+/**
+ * Lock the adjustment until the review transaction finishes, the concurrent reviews wait and find it reviewed
+ * @param adjustment adjustment being reviewed
+ * @param transaction review transaction
+ */
+const lockPending = async (adjustment: SequelizeBalanceAdjustment, transaction: Transaction) => {
+  const locked = await db.balanceAdjustments.findByPk(adjustment.id, { lock: transaction.LOCK.UPDATE, transaction });
+  if (!locked || locked.status !== 'pending') throw { status: 409, message: 'O ajuste já foi revisado' };
+};
+
+/**
+ * Approve a pending adjustment, recording it on the family ledger
+ *
+ * The user that requested the adjustment can't approve it
+ * @param id unique ID of the adjustment
+ * @param user logged user, stored as the reviewer
+ * @param reviewNote optional note about the approval
+ * @returns Promise<Item>
+ */
+export const approveById = async (
+  id: NonNullable<BalanceAdjustment['id']>,
+  user: User,
+  reviewNote?: string
+): Promise<SequelizeBalanceAdjustment> => {
+  const adjustment = await getPendingForReview(id, user);
+  if (`${adjustment.requestedById}` === `${user.id}`) {
+    throw { status: 403, message: 'O ajuste deve ser aprovado por outro usuário' };
+  }
+  await sequelize.transaction(async (transaction) => {
+    await lockPending(adjustment, transaction);
+    await adjustment.update(
+      { status: 'approved', reviewedById: user.id, reviewedAt: new Date(), reviewNote: reviewNote || null },
+      { transaction }
+    );
+    await recordAdjustment(adjustment, transaction);
+  });
+  return adjustment;
+};
+
+/**
+ * Reject a pending adjustment, it's kept on the list but never counted
+ * @param id unique ID of the adjustment
+ * @param user logged user, stored as the reviewer
+ * @param reviewNote optional reason of the rejection
+ * @returns Promise<Item>
+ */
+export const rejectById = async (
+  id: NonNullable<BalanceAdjustment['id']>,
+  user: User,
+  reviewNote?: string
+): Promise<SequelizeBalanceAdjustment> => {
+  const adjustment = await getPendingForReview(id, user);
+  return sequelize.transaction(async (transaction) => {
+    await lockPending(adjustment, transaction);
+    return adjustment.update(
+      { status: 'rejected', reviewedById: user.id, reviewedAt: new Date(), reviewNote: reviewNote || null },
+      { transaction }
+    );
+  });
+};
+
+/**
+ * Sum the values of the approved adjustments of a family
+ * @param familyId family unique ID
+ * @returns Promise<total value>
+ */
+export const sumApprovedValue = async (familyId: NonNullable<Family['id']>): Promise<number> => {
+  const total = await db.balanceAdjustments.sum('value', { where: { familyId, status: 'approved' } });
+  return total || 0;
+};
+
+/**
+ * Get the approved product amounts of a family, with the product data
+ * @param familyId family unique ID
+ * @param until optional date, only the adjustments approved until it are used
+ * @returns Promise<List of products>
+ */
+export const getApprovedProducts = async (
+  familyId: NonNullable<Family['id']>,
+  until?: Date
+): Promise<GrantedProduct[]> => {
+  const adjustments = await db.balanceAdjustments.findAll({
+    where: { familyId, status: 'approved', ...(until ? { reviewedAt: { [Sequelize.Op.lte]: until } } : {}) }
+  });
+  const amounts = sumProductAmounts(adjustments);
+  if (amounts.length < 1) return [];
+  const products = await db.products.findAll({ where: { id: amounts.map((item) => item.productId as number) } });
+  return amounts.map((item) => ({
+    ...item,
+    product: products.find((product) => `${product.id}` === `${item.productId}`)
+  }));
+};
+
+/**
+ * Get the adjustments of the city approved on a period
+ * @param cityId logged user city ID
+ * @param start start of the period
+ * @param end end of the period
+ * @returns Promise<List of items>
+ */
+export const getApprovedOnPeriod = (
+  cityId: NonNullable<City['id']>,
+  start: Date,
+  end: Date
+): Promise<SequelizeBalanceAdjustment[]> => {
+  return db.balanceAdjustments.findAll({
+    where: cityScope('balanceAdjustments', cityId, {
+      status: 'approved',
+      [Sequelize.Op.and]: [{ reviewedAt: { [Sequelize.Op.gte]: start } }, { reviewedAt: { [Sequelize.Op.lte]: end } }]
+    })
+  });
+};
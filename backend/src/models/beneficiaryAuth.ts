@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import { Op } from 'sequelize';
+import db from '../schemas';
+import { City } from '../schemas/cities';
+import { Family } from '../schemas/families';
+import { findByNis } from './families';
+import { getError } from '../utils/errorLibrary';
+import { hashToken } from '../utils/crypt';
+import { sendSms } from '../utils/sms';
+
+export type BeneficiarySession = {
+  familyId: NonNullable<Family['id']>;
+  cityId: City['id'];
+};
+
+export type BeneficiarySessionToken = {
+  token: string;
+  expiresAt: Date;
+};
+
+export type BeneficiaryChallengeResult = {
+  // Token used to send the code back, the code itself goes only to the family phone
+  challenge: string;
+  phone: string;
+  expiresAt: Date;
+};
+
+// Minutes the code sent by SMS is valid and how many wrong codes are accepted before it's discarded
+export const beneficiaryCodeMinutes = 10;
+export const maxBeneficiaryCodeAttempts = 5;
+
+const sessionSecret = process.env.BENEFICIARY_JWT_SECRET || process.env.JWT_SECRET || 'undefined-secret';
+const sessionLifetime = process.env.BENEFICIARY_SESSION_LIFETIME || '15m';
+// Audience of the session token, the admin tokens are never accepted as a beneficiary session and vice versa
+const sessionAudience = 'beneficiary';
+
+/**
+ * Check if the portal must send a one-time code to the family phone after the birthday
+ * @returns boolean
+ */
+export const isOtpEnabled = () => process.env.BENEFICIARY_OTP === 'true';
+
+/**
+ * Check if the informed birthday is the same as the registered one
+ *
+ * The registered date is compared on the server and UTC timezones, the imported dates can be stored on both
+ * @param registered birthday of the family responsible
+ * @param informed birthday typed on the portal, `DD/MM/YYYY` or `YYYY-MM-DD`
+ * @returns boolean
+ */
+export const isSameBirthday = (registered: Family['responsibleBirthday'] | string | null, informed?: string) => {
+  if (!registered || !informed) return false;
+  const date = moment(informed, ['DD/MM/YYYY', 'YYYY-MM-DD'], true);
+  if (!date.isValid()) return false;
+  const value = date.format('YYYY-MM-DD');
+  return [moment(registered), moment.utc(registered)].some((item) => item.format('YYYY-MM-DD') === value);
+};
+
+/**
+ * Hide the phone number, keeping only the last digits so the family can recognize it
+ * @param phone registered phone
+ * @returns masked phone
+ */
+export const maskPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return `${'*'.repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+};
+
+/**
+ * Create the short-lived session token of the family
+ * @param family family that passed the verification
+ * @returns token and its expiration
+ */
+export const createSessionToken = (family: Pick<Family, 'id' | 'cityId'>): BeneficiarySessionToken => {
+  const session: BeneficiarySession = { familyId: family.id as number, cityId: family.cityId };
+  const token = jwt.sign(session, sessionSecret, {
+    audience: sessionAudience,
+    subject: `${family.id}`,
+    expiresIn: sessionLifetime
+  });
+  const { exp } = jwt.decode(token) as { exp: number };
+  return { token, expiresAt: moment.unix(exp).toDate() };
+};
+
+/**
+ * Read the session token sent by the portal
+ * @param token session token
+ * @returns session, null when the token is invalid or expired
+ */
+export const verifySessionToken = (token?: string | null): BeneficiarySession | null => {
+  if (!token) return null;
+  try {
+    const { familyId, cityId } = jwt.verify(token, sessionSecret, { audience: sessionAudience }) as BeneficiarySession;
+    return familyId && cityId ? { familyId, cityId } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Hash of the code, tied to the challenge token so it can't be guessed only with the stored data
+ * @param challenge challenge token
+ * @param code code sent by SMS
+ * @returns hash
+ */
+const hashCode = (challenge: string, code: string) => hashToken(`${challenge}.${code}`);
+
+/**
+ * Send a one-time code to the family phone
+ * @param family family that informed the right birthday
+ * @returns challenge token used to verify the code
+ */
+const createChallenge = async (family: Family): Promise<BeneficiaryChallengeResult> => {
+  const challenge = crypto.randomBytes(32).toString('hex');
+  const code = `${crypto.randomBytes(4).readUInt32BE(0) % 1000000}`.padStart(6, '0');
+  const expiresAt = moment().add(beneficiaryCodeMinutes, 'minutes').toDate();
+  await db.beneficiaryChallenges.create({
+    familyId: family.id,
+    tokenHash: hashToken(challenge),
+    codeHash: hashCode(challenge, code),
+    expiresAt
+  });
+  await sendSms({
+    to: family.phone as string,
+    text: `Seu código de acesso ao portal é ${code}. Ele expira em ${beneficiaryCodeMinutes} minutos.`
+  });
+  return { challenge, phone: maskPhone(family.phone as string), expiresAt };
+};
+
+/**
+ * Identify the family by the NIS and the responsible birthday
+ *
+ * When the one-time code is enabled and the family has a phone, the code must be verified before the session is
+ * created. Unknown NIS and wrong birthdays return the same error, so the NIS can't be checked without the birthday
+ * @param nis NIS of the family responsible
+ * @param birthday birthday of the family responsible
+ * @param cityId city of the portal client
+ * @returns session token or the code challenge
+ */
+export const login = async (
+  nis: string,
+  birthday: string,
+  cityId: NonNullable<City['id']>
+): Promise<BeneficiarySessionToken | BeneficiaryChallengeResult> => {
+  const family = nis ? await findByNis(nis, cityId) : null;
+  if (!family || !isSameBirthday(family.responsibleBirthday, birthday)) {
+    throw getError('invalidBeneficiaryCredentials');
+  }
+  if (isOtpEnabled() && family.phone && family.phone.replace(/\D/g, '').length >= 8) {
+    return createChallenge(family);
+  }
+  return createSessionToken(family);
+};
+
+/**
+ * Verify the code sent to the family phone, creating the session
+ * @param challenge challenge token returned by the login
+ * @param code code sent by SMS
+ * @param cityId city of the portal client
+ * @returns session token
+ */
+export const verifyCode = async (
+  challenge: string,
+  code: string,
+  cityId: NonNullable<City['id']>
+): Promise<BeneficiarySessionToken> => {
+  const [item] = challenge
+    ? await db.beneficiaryChallenges.findAll({
+        where: { tokenHash: hashToken(challenge), verifiedAt: null },
+        include: [{ model: db.families, as: 'family', where: { cityId } }],
+        limit: 1
+      })
+    : [];
+  if (!item || !item.family || moment(item.expiresAt).isBefore(moment())) {
+    throw getError('invalidBeneficiaryCode');
+  }
+  if (item.attempts >= maxBeneficiaryCodeAttempts) throw getError('invalidBeneficiaryCode');
+
+  if (hashCode(challenge, `${code || ''}`.trim()) !== item.codeHash) {
+    await item.increment('attempts');
+    throw getError('invalidBeneficiaryCode');
+  }
+
+  // The code can be used only once
+  const [count] = await db.beneficiaryChallenges.update(
+    { verifiedAt: moment().toDate() },
+    { where: { id: item.id as number, verifiedAt: null } }
+  );
+  if (count === 0) throw getError('invalidBeneficiaryCode');
+  return createSessionToken(item.family);
+};
+
+/**
+ * Remove the expired challenges, their codes can't be verified anymore
+ * @returns number of removed challenges
+ */
+export const deleteExpiredChallenges = () => {
+  return db.beneficiaryChallenges.destroy({ where: { expiresAt: { [Op.lt]: moment().toDate() } } });
+};
@@ -0,0 +1,237 @@
+import Sequelize from 'sequelize';
+import moment from 'moment';
+import db from '../schemas';
+import { BenefitPolicy, SequelizeBenefitPolicy } from '../schemas/benefitPolicies';
+import { BenefitPolicyException, SequelizeBenefitPolicyException } from '../schemas/benefitPolicyExceptions';
+import { PurchaseData } from '../schemas/consumptions';
+import { Family } from '../schemas/families';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { benefitPolicyExceptionTypeList } from '../utils/constraints';
+import { cityScope } from '../utils/tenancy';
+
+export type PolicyRules = Pick<
+  BenefitPolicy,
+  'undeclaredConsumptionMultiplier' | 'moneyPaymentNames' | 'declaredTolerance'
+>;
+
+/**
+ * Rules used by the cities without a policy, the values used before the policies were configurable
+ */
+export const defaultPolicyRules: PolicyRules = {
+  undeclaredConsumptionMultiplier: 0.7,
+  moneyPaymentNames: ['dinheiro'],
+  declaredTolerance: 1
+};
+
+/**
+ * Find the version effective on a date
+ * @param versions policy versions of the city
+ * @param date date of the calculation
+ * @returns rules of the last version started until the date, the default rules when there's none
+ */
+export const findEffectivePolicy = (versions: BenefitPolicy[], date: moment.MomentInput = new Date()): PolicyRules => {
+  const day = moment(date).format('YYYY-MM-DD');
+  const [effective] = versions
+    .filter((version) => version.effectiveFrom <= day)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || Number(b.id) - Number(a.id));
+  return effective
+    ? {
+        undeclaredConsumptionMultiplier: effective.undeclaredConsumptionMultiplier,
+        moneyPaymentNames: effective.moneyPaymentNames,
+        declaredTolerance: effective.declaredTolerance
+      }
+    : defaultPolicyRules;
+};
+
+/**
+ * Sum the payments of a purchase made with money
+ * @param purchaseData purchase data scraped from the NFCe
+ * @param policy rules with the payment names considered as money
+ * @returns value paid with money
+ */
+export const getMoneyPaid = (purchaseData: PurchaseData | undefined | null, policy: PolicyRules = defaultPolicyRules) =>
+  purchaseData?.payment.reduce((sum, payment) => {
+    const name = payment.name?.toLocaleLowerCase();
+    const isMoney = name && policy.moneyPaymentNames.some((moneyName) => name.includes(moneyName.toLocaleLowerCase()));
+    return isMoney && payment.value ? sum + payment.value : sum;
+  }, 0) || 0;
+
+/**
+ * Check if the family declared everything it consumed on the card
+ * @param declaredValue value declared on the consumptions
+ * @param consumedValue value consumed on the card
+ * @param policy rules with the accepted difference
+ * @returns true when the declared value is greater or close to the consumed value
+ */
+export const hasDeclaredAll = (declaredValue: number, consumedValue: number, policy: PolicyRules) =>
+  Math.abs(declaredValue - consumedValue) < policy.declaredTolerance || declaredValue > consumedValue;
+
+/**
+ * Normalize the value of an exception, so it's found independently of the format
+ * @param type exception type
+ * @param value NIS or name
+ * @returns normalized value
+ */
+export const normalizeExceptionValue = (type: BenefitPolicyException['type'], value: string) =>
+  type === 'nis' ? value.replace(/\D/g, '') : value.trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Check if the family responsible is on the exceptions list
+ * @param exceptions exceptions of the city
+ * @param family the family
+ * @returns if the NIS and the name are on the list
+ */
+export const findFamilyExceptions = (exceptions: BenefitPolicyException[], family: Family) => {
+  const nis = normalizeExceptionValue('nis', family.responsibleNis || '');
+  const name = normalizeExceptionValue('name', family.responsibleName || '');
+  return {
+    nisOnList: !!nis && exceptions.some((item) => item.type === 'nis' && item.value === nis),
+    nameOnList: !!name && exceptions.some((item) => item.type === 'name' && item.value === name)
+  };
+};
+
+/**
+ * Check the values of a new policy version
+ * @param values version values
+ * @returns only the values that can be set on the version
+ */
+export const checkPolicyValues = (values: Partial<BenefitPolicy>): Omit<BenefitPolicy, 'cityId'> => {
+  const effectiveFrom = moment(values.effectiveFrom, 'YYYY-MM-DD', true);
+  if (!effectiveFrom.isValid()) throw { status: 412, message: 'Data de início inválida' };
+  // Past versions are kept untouched, so the reports of the past don't change
+  if (effectiveFrom.isBefore(moment(), 'day')) {
+    throw { status: 412, message: 'A data de início não pode estar no passado' };
+  }
+  const multiplier = Number(values.undeclaredConsumptionMultiplier);
+  if (values.undeclaredConsumptionMultiplier === undefined || !(multiplier >= 0 && multiplier <= 1)) {
+    throw { status: 412, message: 'O multiplicador deve estar entre 0 e 1' };
+  }
+  const tolerance = Number(values.declaredTolerance);
+  if (values.declaredTolerance === undefined || !(tolerance >= 0)) {
+    throw { status: 412, message: 'A tolerância não pode ser negativa' };
+  }
+  const moneyPaymentNames = (values.moneyPaymentNames || [])
+    .map((name) => `${name}`.trim().toLocaleLowerCase())
+    .filter((name) => name);
+  if (moneyPaymentNames.length < 1)
+    throw { status: 412, message: 'Informe ao menos uma forma de pagamento em dinheiro' };
+  return {
+    effectiveFrom: effectiveFrom.format('YYYY-MM-DD'),
+    undeclaredConsumptionMultiplier: multiplier,
+    moneyPaymentNames,
+    declaredTolerance: tolerance
+  };
+};
+
+/**
+ * Get all policy versions of the city, newest first
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getVersions = (cityId: NonNullable<City['id']>): Promise<SequelizeBenefitPolicy[]> => {
+  return db.benefitPolicies.findAll({
+    where: cityScope('benefitPolicies', cityId),
+    include: [{ model: db.users, as: 'createdBy', attributes: ['id', 'name', 'email'] }],
+    order: [
+      ['effectiveFrom', 'DESC'],
+      ['id', 'DESC']
+    ]
+  });
+};
+
+/**
+ * Get the policy rules of the city effective on a date
+ * @param cityId city unique ID
+ * @param date optional date, today by default
+ * @returns Promise<rules>
+ */
+export const getEffectivePolicy = async (cityId: NonNullable<City['id']>, date?: moment.MomentInput) => {
+  const versions = await db.benefitPolicies.findAll({
+    where: cityScope('benefitPolicies', cityId, {
+      effectiveFrom: { [Sequelize.Op.lte]: moment(date || new Date()).format('YYYY-MM-DD') }
+    })
+  });
+  return findEffectivePolicy(versions, date);
+};
+
+/**
+ * Create a new version of the city policy, the previous versions are never changed
+ * @param values version values
+ * @param cityId logged user city ID
+ * @param createdById logged user unique ID
+ * @returns Promise<Item>
+ */
+export const createVersion = async (
+  values: Partial<BenefitPolicy>,
+  cityId: NonNullable<City['id']>,
+  createdById: User['id']
+): Promise<SequelizeBenefitPolicy> => {
+  return db.benefitPolicies.create({ ...checkPolicyValues(values), cityId, createdById });
+};
+
+/**
+ * Get the exceptions list of the city
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getExceptions = (cityId: NonNullable<City['id']>): Promise<SequelizeBenefitPolicyException[]> => {
+  return db.benefitPolicyExceptions.findAll({
+    where: cityScope('benefitPolicyExceptions', cityId),
+    include: [{ model: db.users, as: 'createdBy', attributes: ['id', 'name', 'email'] }],
+    order: [
+      ['type', 'ASC'],
+      ['value', 'ASC']
+    ]
+  });
+};
+
+/**
+ * Add a NIS or name to the exceptions list of the city
+ * @param values exception values
+ * @param cityId logged user city ID
+ * @param createdById logged user unique ID
+ * @returns Promise<Item>
+ */
+export const createException = async (
+  values: Partial<BenefitPolicyException>,
+  cityId: NonNullable<City['id']>,
+  createdById: User['id']
+): Promise<SequelizeBenefitPolicyException> => {
+  if (!values.type || benefitPolicyExceptionTypeList.indexOf(values.type) < 0) {
+    throw { status: 412, message: 'Tipo de exceção inválido' };
+  }
+  const value = normalizeExceptionValue(values.type, values.value || '');
+  if (!value) throw { status: 412, message: 'Valor da exceção inválido' };
+  const existing = await db.benefitPolicyExceptions.findOne({
+    where: cityScope('benefitPolicyExceptions', cityId, { type: values.type, value })
+  });
+  if (existing) throw { status: 409, message: 'A exceção já está na lista' };
+  return db.benefitPolicyExceptions.create({ type: values.type, value, reason: values.reason, cityId, createdById });
+};
+
+/**
+ * Get a single exception using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getExceptionById = (
+  id: NonNullable<BenefitPolicyException['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBenefitPolicyException | null> => {
+  return db.benefitPolicyExceptions.findOne({ where: cityScope('benefitPolicyExceptions', cityId, { id }) });
+};
+
+/**
+ * Remove an exception of the city
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<number of removed items>
+ */
+export const deleteException = (
+  id: NonNullable<BenefitPolicyException['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<number> => {
+  return db.benefitPolicyExceptions.destroy({ where: cityScope('benefitPolicyExceptions', cityId, { id }) });
+};
@@ -1,6 +1,23 @@
+import Sequelize, { WhereOptions } from 'sequelize';
+import moment from 'moment';
 import db from '../schemas';
 import { BenefitProduct, SequelizeBenefitProduct } from '../schemas/benefitProducts';
 
+/**
+ * Filter the basket version in force on a date
+ * @param date the date, the basket in force now by default
+ * @returns where clause of the benefit products
+ */
+export const basketScope = (date: moment.MomentInput = new Date()): WhereOptions => {
+  const when = moment(date).toDate();
+  return {
+    [Sequelize.Op.and]: [
+      { [Sequelize.Op.or]: [{ validFrom: null }, { validFrom: { [Sequelize.Op.lte]: when } }] },
+      { [Sequelize.Op.or]: [{ replacedAt: null }, { replacedAt: { [Sequelize.Op.gt]: when } }] }
+    ]
+  };
+};
+
 /**
  * Get all items on the table without any filter
  * @returns Promise<List of items>
@@ -17,14 +34,17 @@ export const getAll = (): Promise<SequelizeBenefitProduct[]> => {
 /**
  * Get all products associated to benefit
  * @param benefitId unique ID of the desired benefit
+ * @param date date of the basket version, the basket in force now by default
  * @returns Promise<Item>
  */
 export const getAllProductsByBenefitId = (
-  benefitId: NonNullable<BenefitProduct['id']>
+  benefitId: NonNullable<BenefitProduct['id']>,
+  date?: moment.MomentInput
 ): Promise<SequelizeBenefitProduct[]> => {
   return db.benefitProducts.findAll({
     where: {
-      benefitId
+      benefitId,
+      ...basketScope(date)
     },
     include: [{ model: db.products, as: 'product' }]
   });
@@ -0,0 +1,442 @@
+import moment from 'moment';
+import uniq from 'lodash/uniq';
+import db, { sequelize } from '../schemas';
+import { BenefitProgram, BenefitProgramProduct, SequelizeBenefitProgram } from '../schemas/benefitPrograms';
+import { BenefitProgramOccurrence, SequelizeBenefitProgramOccurrence } from '../schemas/benefitProgramOccurrences';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { benefitProgramValueTypeList, BenefitOccurrenceStatus } from '../utils/constraints';
+import { cityScope } from '../utils/tenancy';
+
+export type ProgramValues = Omit<BenefitProgram, 'id' | 'cityId' | 'createdById'>;
+
+export type OccurrenceListItem = {
+  date: string;
+  status: BenefitOccurrenceStatus;
+  value: number | null;
+  products: BenefitProgramProduct[] | null;
+  // The occurrence value or basket is different from the program
+  overridden: boolean;
+  note?: string | null;
+  benefitId?: number | string | null;
+};
+
+// Upcoming months listed with the generated ones, so they can be skipped or changed in advance
+const UPCOMING_MONTHS = 12;
+
+const includes = [
+  { model: db.institutions, as: 'institution', attributes: ['id', 'title'] },
+  { model: db.groups, as: 'group', attributes: ['id', 'title'] },
+  { model: db.users, as: 'createdBy', attributes: ['id', 'name', 'email'] }
+];
+
+/**
+ * Check the basket of a program or occurrence
+ * @param products list of products and amounts
+ * @returns basket with only the valid fields
+ */
+const checkProducts = (products?: BenefitProgramProduct[] | null): BenefitProgramProduct[] => {
+  const list = (products || []).filter((item) => item && item.productId);
+  if (list.length < 1 || list.some((item) => !Number.isInteger(Number(item.amount)) || Number(item.amount) <= 0)) {
+    throw { status: 412, message: 'Pelo menos um produto deve ser selecionado' };
+  }
+  return list.map((item) => ({ productId: Number(item.productId), amount: Number(item.amount) }));
+};
+
+/**
+ * Check the values of a program, the ticket type grants a value and the product type grants a basket
+ * @param values program values
+ * @param consumptionType consumption type of the city
+ * @returns only the values that can be set on the program
+ */
+export const checkProgramValues = (
+  values: Partial<BenefitProgram>,
+  consumptionType: 'ticket' | 'product'
+): ProgramValues => {
+  const title = (values.title || '').trim();
+  if (!title) throw { status: 412, message: 'O nome do programa é obrigatório' };
+
+  // Every month has the day, so the occurrences are always on the same day
+  const dayOfMonth = Number(values.dayOfMonth);
+  if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 28) {
+    throw { status: 412, message: 'O dia do mês deve estar entre 1 e 28' };
+  }
+
+  const startDate = moment(values.startDate, 'YYYY-MM-DD', true);
+  if (!startDate.isValid()) throw { status: 412, message: 'Data de início inválida' };
+  const endDate = values.endDate ? moment(values.endDate, 'YYYY-MM-DD', true) : null;
+  if (endDate && (!endDate.isValid() || endDate.isBefore(startDate))) {
+    throw { status: 412, message: 'Data de término inválida' };
+  }
+
+  const valueType = values.valueType || 'dependent';
+  if (benefitProgramValueTypeList.indexOf(valueType) < 0) throw { status: 412, message: 'Tipo de valor inválido' };
+
+  const program = {
+    institutionId: values.institutionId as number,
+    groupId: values.groupId as number,
+    title,
+    dayOfMonth,
+    startDate: startDate.format('YYYY-MM-DD'),
+    endDate: endDate ? endDate.format('YYYY-MM-DD') : null,
+    valueType
+  };
+
+  if (consumptionType === 'ticket') {
+    const value = Math.round(Number(values.value) * 100) / 100;
+    if (!Number.isFinite(value) || value <= 0) throw { status: 412, message: 'Valor do programa inválido' };
+    return { ...program, value, products: null };
+  }
+  return { ...program, value: null, products: checkProducts(values.products) };
+};
+
+/**
+ * Get the days of the program occurrences until a date
+ * @param program the program
+ * @param until last day of the list
+ * @returns list of days (YYYY-MM-DD)
+ */
+export const getOccurrenceDates = (
+  program: Pick<BenefitProgram, 'dayOfMonth' | 'startDate' | 'endDate'>,
+  until: moment.MomentInput
+): string[] => {
+  const start = moment(program.startDate, 'YYYY-MM-DD');
+  const end = program.endDate ? moment.min(moment(program.endDate, 'YYYY-MM-DD'), moment(until)) : moment(until);
+  const dates: string[] = [];
+  const date = moment(start).date(program.dayOfMonth);
+  if (date.isBefore(start, 'day')) date.add(1, 'month');
+  while (date.isSameOrBefore(end, 'day')) {
+    dates.push(date.format('YYYY-MM-DD'));
+    date.add(1, 'month').date(program.dayOfMonth);
+  }
+  return dates;
+};
+
+/**
+ * Find the stored occurrence of a month, the program day can change after it's stored
+ * @param occurrences stored occurrences of the program
+ * @param date any day of the month
+ * @returns the occurrence or undefined
+ */
+export const findMonthOccurrence = <T extends Pick<BenefitProgramOccurrence, 'date'>>(
+  occurrences: T[],
+  date: moment.MomentInput
+) => occurrences.find((occurrence) => moment(occurrence.date, 'YYYY-MM-DD').isSame(moment(date), 'month'));
+
+/**
+ * Build the occurrences list of a program: the generated ones and the ones calculated from the recurrence,
+ * with the stored changes
+ * @param program the program
+ * @param occurrences stored occurrences of the program
+ * @param until last day of the calculated occurrences
+ * @returns list of occurrences sorted by date
+ */
+export const buildOccurrenceList = (
+  program: BenefitProgram,
+  occurrences: BenefitProgramOccurrence[],
+  until: moment.MomentInput
+): OccurrenceListItem[] => {
+  /**
+   * Apply the program values to an occurrence
+   * @param occurrence stored occurrence or only its status
+   * @param date day of the occurrence
+   * @returns list item
+   */
+  const toListItem = (occurrence: Partial<BenefitProgramOccurrence>, date: string): OccurrenceListItem => ({
+    date,
+    status: occurrence.status || 'scheduled',
+    value: occurrence.value ?? program.value ?? null,
+    products: occurrence.products ?? program.products ?? null,
+    overridden: occurrence.status !== 'skipped' && (occurrence.value != null || occurrence.products != null),
+    note: occurrence.note,
+    benefitId: occurrence.benefitId
+  });
+
+  const generated = occurrences.filter((occurrence) => occurrence.status === 'generated');
+  // The changes are kept on the month even when the program day changes
+  const calculated = getOccurrenceDates(program, until)
+    .filter((date) => !findMonthOccurrence(generated, date))
+    .map((date) => toListItem(findMonthOccurrence(occurrences, date) || {}, date));
+  return [...generated.map((occurrence) => toListItem(occurrence, occurrence.date)), ...calculated].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+};
+
+/**
+ * Check if the products of a basket can be used by the city
+ * @param products basket
+ * @param cityId logged user city ID
+ */
+const checkCityProducts = async (products: BenefitProgramProduct[] | null | undefined, cityId: City['id']) => {
+  const productIds = uniq((products || []).map((item) => item.productId));
+  if (productIds.length > 0) {
+    const count = await db.products.count({ where: cityScope('products', cityId, { id: productIds }) });
+    if (count < productIds.length) throw { status: 412, message: 'Produto não encontrado' };
+  }
+};
+
+/**
+ * Check if the institution, the group and the products of the program can be used by the city
+ * @param values program values
+ * @param cityId logged user city ID
+ */
+const checkCityReferences = async (values: Partial<BenefitProgram>, cityId: NonNullable<City['id']>) => {
+  const institution = await db.institutions.findOne({
+    where: cityScope('institutions', cityId, { id: values.institutionId || null })
+  });
+  if (!institution) throw { status: 412, message: 'Instituição não encontrada' };
+  const group = await db.groups.findOne({ where: cityScope('groups', cityId, { id: values.groupId || null }) });
+  if (!group) throw { status: 412, message: 'Grupo não encontrado' };
+  await checkCityProducts(values.products, cityId);
+};
+
+/**
+ * Get all programs of the city
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getAll = (cityId: NonNullable<City['id']>): Promise<SequelizeBenefitProgram[]> => {
+  return db.benefitPrograms.findAll({
+    where: cityScope('benefitPrograms', cityId),
+    include: includes,
+    order: [['id', 'DESC']]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getById = (
+  id: NonNullable<BenefitProgram['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBenefitProgram | null> => {
+  return db.benefitPrograms.findOne({ where: cityScope('benefitPrograms', cityId, { id }), include: includes });
+};
+
+/**
+ * Create a program, its occurrences are generated by the cron
+ * @param values program values
+ * @param user logged user, stored as the creator
+ * @returns Promise<Item>
+ */
+export const create = async (values: Partial<BenefitProgram>, user: User): Promise<SequelizeBenefitProgram> => {
+  const program = checkProgramValues(values, process.env.CONSUMPTION_TYPE as 'ticket' | 'product');
+  await checkCityReferences(program, user.cityId as number);
+  return db.benefitPrograms.create({ ...program, cityId: user.cityId, createdById: user.id });
+};
+
+/**
+ * Update a program, only the occurrences not generated yet are affected
+ * @param id unique ID of the desired item
+ * @param values program values
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const updateById = async (
+  id: NonNullable<BenefitProgram['id']>,
+  values: Partial<BenefitProgram>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBenefitProgram | null> => {
+  const item = await getById(id, cityId);
+  if (!item) return null;
+  const program = checkProgramValues(values, process.env.CONSUMPTION_TYPE as 'ticket' | 'product');
+  await checkCityReferences(program, cityId);
+
+  // The past months were already generated, so the changes can't add new ones
+  const occurrences = await db.benefitProgramOccurrences.findAll({ where: { programId: item.id as number } });
+  const yesterday = moment().subtract(1, 'day').endOf('day');
+  const pending = buildOccurrenceList(item, occurrences, yesterday)
+    .filter((occurrence) => occurrence.status === 'scheduled')
+    .map((occurrence) => occurrence.date);
+  const added = buildOccurrenceList(program, occurrences, yesterday).filter(
+    (occurrence) => occurrence.status === 'scheduled' && pending.indexOf(occurrence.date) < 0
+  );
+  if (added.length > 0) {
+    throw { status: 412, message: 'As alterações do programa não podem criar ocorrências no passado' };
+  }
+  return item.update(program);
+};
+
+/**
+ * Get the occurrences of a program: the generated ones and the upcoming ones
+ * @param id unique ID of the program
+ * @param cityId logged user city ID
+ * @param until optional last day of the upcoming occurrences
+ * @returns Promise<List of occurrences>
+ */
+export const getOccurrences = async (
+  id: NonNullable<BenefitProgram['id']>,
+  cityId: NonNullable<City['id']>,
+  until: moment.MomentInput = moment().add(UPCOMING_MONTHS, 'months')
+): Promise<OccurrenceListItem[]> => {
+  const program = await getById(id, cityId);
+  if (!program) throw { status: 404, message: 'Programa não encontrado' };
+  const occurrences = await db.benefitProgramOccurrences.findAll({ where: { programId: program.id as number } });
+  return buildOccurrenceList(program, occurrences, until);
+};
+
+/**
+ * Get the stored occurrence of a month that wasn't generated yet, so it can be changed
+ * @param id unique ID of the program
+ * @param date day of the occurrence
+ * @param cityId logged user city ID
+ * @returns Promise<the program and the stored occurrence, when there's one>
+ */
+const getChangeableOccurrence = async (
+  id: NonNullable<BenefitProgram['id']>,
+  date: string,
+  cityId: NonNullable<City['id']>
+) => {
+  const program = await getById(id, cityId);
+  if (!program) throw { status: 404, message: 'Programa não encontrado' };
+  const day = moment(date, 'YYYY-MM-DD', true);
+  if (!day.isValid()) throw { status: 412, message: 'Data inválida' };
+  // Any month of the program, even after the listed ones
+  if (getOccurrenceDates(program, moment(day).endOf('month')).indexOf(day.format('YYYY-MM-DD')) < 0) {
+    throw { status: 404, message: 'Ocorrência não encontrada' };
+  }
+  const occurrences = await db.benefitProgramOccurrences.findAll({ where: { programId: program.id as number } });
+  const occurrence = findMonthOccurrence(occurrences, day);
+  if (occurrence?.status === 'generated') {
+    throw { status: 409, message: 'O benefício da ocorrência já foi gerado, use um ajuste de saldo' };
+  }
+  return { program, occurrence, date: day.format('YYYY-MM-DD') };
+};
+
+/**
+ * Store the changes of an occurrence that wasn't generated yet
+ * @param id unique ID of the program
+ * @param date day of the occurrence
+ * @param values changed values
+ * @param user logged user, stored as the last one that changed it
+ * @returns Promise<Item>
+ */
+const saveOccurrence = async (
+  id: NonNullable<BenefitProgram['id']>,
+  date: string,
+  values: Pick<BenefitProgramOccurrence, 'status' | 'value' | 'products' | 'note'>,
+  user: User
+): Promise<SequelizeBenefitProgramOccurrence> => {
+  const changeable = await getChangeableOccurrence(id, date, user.cityId as number);
+  const changes = { ...values, updatedById: user.id };
+  if (changeable.occurrence) return (changeable.occurrence as SequelizeBenefitProgramOccurrence).update(changes);
+  return db.benefitProgramOccurrences.create({
+    ...changes,
+    programId: changeable.program.id as number,
+    date: changeable.date
+  });
+};
+
+/**
+ * Skip an occurrence, its benefit is never generated
+ * @param id unique ID of the program
+ * @param date day of the occurrence
+ * @param note optional reason
+ * @param user logged user
+ * @returns Promise<Item>
+ */
+export const skipOccurrence = (
+  id: NonNullable<BenefitProgram['id']>,
+  date: string,
+  note: string | undefined,
+  user: User
+): Promise<SequelizeBenefitProgramOccurrence> => {
+  return saveOccurrence(id, date, { status: 'skipped', value: null, products: null, note: note || null }, user);
+};
+
+/**
+ * Change the value or the basket of an occurrence, the other ones keep the program values
+ * @param id unique ID of the program
+ * @param date day of the occurrence
+ * @param values new value or basket, with an optional reason
+ * @param user logged user
+ * @returns Promise<Item>
+ */
+export const overrideOccurrence = async (
+  id: NonNullable<BenefitProgram['id']>,
+  date: string,
+  values: Partial<Pick<BenefitProgramOccurrence, 'value' | 'products' | 'note'>>,
+  user: User
+): Promise<SequelizeBenefitProgramOccurrence> => {
+  const override = { status: 'scheduled' as BenefitOccurrenceStatus, value: null, products: null, note: values.note };
+  if (process.env.CONSUMPTION_TYPE === 'ticket') {
+    const value = Math.round(Number(values.value) * 100) / 100;
+    if (!Number.isFinite(value) || value <= 0) throw { status: 412, message: 'Valor da ocorrência inválido' };
+    return saveOccurrence(id, date, { ...override, value }, user);
+  }
+  const products = checkProducts(values.products);
+  await checkCityProducts(products, user.cityId);
+  return saveOccurrence(id, date, { ...override, products }, user);
+};
+
+/**
+ * Remove the changes of an occurrence, so it's generated with the program values
+ * @param id unique ID of the program
+ * @param date day of the occurrence
+ * @param cityId logged user city ID
+ * @returns Promise<number of removed items>
+ */
+export const restoreOccurrence = async (
+  id: NonNullable<BenefitProgram['id']>,
+  date: string,
+  cityId: NonNullable<City['id']>
+): Promise<number> => {
+  const { occurrence } = await getChangeableOccurrence(id, date, cityId);
+  if (!occurrence) return 0;
+  return db.benefitProgramOccurrences.destroy({ where: { id: occurrence.id as number } });
+};
+
+/**
+ * Generate the benefits of the program occurrences until a date
+ *
+ * Each occurrence creates a benefit, the same one created by hand before the programs, so the balances don't
+ * change. The skipped occurrences and the months already generated are ignored
+ * @param program the program
+ * @param today last day of the generated occurrences
+ * @returns Promise<number of generated benefits>
+ */
+export const generateOccurrences = async (
+  program: BenefitProgram,
+  today: moment.MomentInput = new Date()
+): Promise<number> => {
+  const occurrences = await db.benefitProgramOccurrences.findAll({ where: { programId: program.id as number } });
+  let count = 0;
+  for (const item of buildOccurrenceList(program, occurrences, today)) {
+    if (item.status !== 'scheduled') continue;
+    await sequelize.transaction(async (transaction) => {
+      const benefit = await db.benefits.create(
+        {
+          institutionId: program.institutionId,
+          groupId: program.groupId,
+          title: `${program.title} - ${moment(item.date).format('MM/YYYY')}`,
+          date: moment(item.date, 'YYYY-MM-DD').toDate(),
+          value: item.value,
+          valueType: program.valueType,
+          programId: program.id
+        },
+        { transaction }
+      );
+      if (item.products && item.products.length > 0) {
+        await db.benefitProducts.bulkCreate(
+          item.products.map((product) => ({ ...product, benefitId: benefit.id })),
+          { transaction }
+        );
+      }
+      const stored = findMonthOccurrence(occurrences, item.date) as SequelizeBenefitProgramOccurrence | undefined;
+      if (stored) {
+        await stored.update({ status: 'generated', date: item.date, benefitId: benefit.id }, { transaction });
+      } else {
+        // The unique index fails when another run already generated the month, rolling back the benefit
+        await db.benefitProgramOccurrences.create(
+          { programId: program.id, date: item.date, status: 'generated', benefitId: benefit.id },
+          { transaction }
+        );
+      }
+    });
+    count++;
+  }
+  return count;
+};
@@ -1,6 +1,26 @@
-import db from '../schemas';
+import Sequelize, { Transaction } from 'sequelize';
+import moment from 'moment';
+import db, { sequelize } from '../schemas';
+import uniq from 'lodash/uniq';
 import { Benefit, SequelizeBenefit } from '../schemas/benefits';
+import { BenefitProduct } from '../schemas/benefitProducts';
 import { City } from '../schemas/cities';
+import { cityScope } from '../utils/tenancy';
+import { syncFamiliesLedger } from './ledgerEntries';
+
+/**
+ * Get the value received by a family on the month of a benefit
+ * @param benefit the benefit
+ * @param dependentsCount number of dependents of the family
+ * @returns value of the family, the benefits granted per family don't depend on the dependents
+ */
+export const getFamilyBenefitValue = (
+  benefit: Pick<Benefit, 'value' | 'valueType'> | null | undefined,
+  dependentsCount: number
+) => {
+  const value = Number(benefit?.value || 0);
+  return benefit?.valueType === 'family' ? value : value * dependentsCount;
+};
 
 /**
  * Get all items on the table without any filter
@@ -20,7 +40,13 @@ export const getAllWithProduct = (cityId: NonNullable<City['id']>): Promise<any>
   return db.benefits.findAll({
     include: [
       { model: db.institutions, as: 'institution', where: { cityId } },
-      { model: db.benefitProducts, as: 'benefitProducts', include: [{ model: db.products, as: 'product' }] }
+      {
+        model: db.benefitProducts,
+        as: 'benefitProducts',
+        where: { replacedAt: null },
+        required: false,
+        include: [{ model: db.products, as: 'product' }]
+      }
     ]
   });
 };
@@ -35,34 +61,87 @@ export const getById = (id: NonNullable<Benefit['id']>, cityId: NonNullable<City
   return db.benefits.findByPk(id, { include: [{ model: db.institutions, as: 'institution', where: { cityId } }] });
 };
 
+/**
+ * Check if the institution, the group and the products of the benefit can be used by the city
+ * @param values object with the item data
+ * @param cityId logged user city ID
+ */
+const checkCityReferences = async (values: Benefit | SequelizeBenefit, cityId: NonNullable<City['id']>) => {
+  if (values.institutionId) {
+    const institution = await db.institutions.findOne({
+      where: cityScope('institutions', cityId, { id: values.institutionId })
+    });
+    if (!institution) throw { status: 412, message: 'Instituição não encontrada' };
+  }
+  if (values.groupId) {
+    const group = await db.groups.findOne({ where: cityScope('groups', cityId, { id: values.groupId }) });
+    if (!group) throw { status: 412, message: 'Grupo não encontrado' };
+  }
+  const productIds = uniq((values.benefitProducts || []).map((item) => item.productId));
+  if (productIds.length > 0) {
+    const count = await db.products.count({ where: cityScope('products', cityId, { id: productIds }) });
+    if (count < productIds.length) throw { status: 412, message: 'Produto não encontrado' };
+  }
+};
+
+/**
+ * Synchronize the ledger of the families of the groups that received or lost a benefit
+ *
+ * Not awaited, a group can have many families and the reconciliation cron synchronizes them again on a failure
+ * @param cityId logged user city ID
+ * @param groupIds groups of the benefit, before and after the change
+ */
+const syncGroupsLedger = (cityId: NonNullable<City['id']>, groupIds: (Benefit['groupId'] | undefined)[]) => {
+  const groupId = uniq(groupIds.filter((id) => !!id).map(Number));
+  if (groupId.length > 0) syncFamiliesLedger({ cityId, groupId });
+};
+
 /**
  * Function to create a new row on the table
  * @param values object with the new item data
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
-export const create = (values: Benefit | SequelizeBenefit): Promise<SequelizeBenefit> => {
-  return db.benefits.create(values);
+export const create = async (
+  values: Benefit | SequelizeBenefit,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBenefit> => {
+  await checkCityReferences(values, cityId);
+  const created = await db.benefits.create(values);
+  syncGroupsLedger(cityId, [created.groupId]);
+  return created;
 };
 
 /**
  * Function to create a new row on the table using product
  * @param values object with the new item data
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
-export const createWithProduct = async (values: Benefit | SequelizeBenefit): Promise<SequelizeBenefit> => {
-  const created = await db.benefits.create(values);
-
-  if (values.benefitProducts && created) {
-    const productList = values.benefitProducts.map((i) => {
-      i.benefitId = created.id as number;
-      return i;
-    });
-    db.benefitProducts.bulkCreate(productList);
-  }
+export const createWithProduct = async (
+  values: Benefit | SequelizeBenefit,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeBenefit> => {
+  await checkCityReferences(values, cityId);
+  const created = await sequelize.transaction(async (transaction) => {
+    const benefit = await db.benefits.create(values, { transaction });
+    if (values.benefitProducts) {
+      await db.benefitProducts.bulkCreate(
+        values.benefitProducts.map((item) => ({
+          productId: item.productId,
+          amount: item.amount,
+          benefitId: benefit.id as number
+        })),
+        { transaction }
+      );
+    }
+    return benefit;
+  });
 
   await created.reload({
     include: [{ model: db.benefitProducts, as: 'benefitProducts', include: [{ model: db.products, as: 'product' }] }]
   });
+  syncGroupsLedger(cityId, [created.groupId]);
 
   return created;
 };
@@ -82,13 +161,147 @@ export const updateById = async (
   // Trying to get item on the city
   const cityItem = await getById(id, cityId);
   if (cityItem) {
+    await checkCityReferences(values, cityId);
     // The update return an array [count, item[]], so I'm destructuring to get the updated benefit
     const [, [item]] = await db.benefits.update(values, { where: { id }, returning: true });
+    syncGroupsLedger(cityId, [cityItem.groupId, item?.groupId]);
     return item;
   }
   return null;
 };
 
+/**
+ * Check if the basket has the same products and amounts
+ * @param current products of the basket in force
+ * @param next products sent by the user
+ * @returns true when nothing changed
+ */
+export const isSameBasket = (
+  current: Pick<BenefitProduct, 'productId' | 'amount'>[],
+  next: Pick<BenefitProduct, 'productId' | 'amount'>[]
+) => {
+  /**
+   * Sorted text with the products and amounts of the list
+   * @param list basket products
+   * @returns text used in the comparison
+   */
+  const basketKey = (list: Pick<BenefitProduct, 'productId' | 'amount'>[]) =>
+    list
+      .map((item) => `${item.productId}:${Number(item.amount)}`)
+      .sort()
+      .join(',');
+  return basketKey(current) === basketKey(next);
+};
+
+/**
+ * Check if any family of the benefit group consumed products of the basket after the benefit was granted
+ * @param benefit benefit before the update
+ * @param productIds products of the basket in force
+ * @param cityId logged user city ID
+ * @param transaction update transaction
+ * @returns true when the basket was already consumed
+ */
+const hasConsumedFromBasket = async (
+  benefit: SequelizeBenefit,
+  productIds: BenefitProduct['productId'][],
+  cityId: NonNullable<City['id']>,
+  transaction: Transaction
+): Promise<boolean> => {
+  if (productIds.length < 1) return false;
+  const count = await db.consumptionProducts.count({
+    where: { productId: productIds as number[] },
+    include: [
+      {
+        model: db.consumptions,
+        as: 'consumptions',
+        required: true,
+        where: { createdAt: { [Sequelize.Op.gte]: moment(benefit.date).startOf('month').toDate() } },
+        include: [
+          {
+            model: db.families,
+            as: 'family',
+            required: true,
+            where: cityScope('families', cityId, { groupId: benefit.groupId })
+          }
+        ]
+      }
+    ],
+    transaction
+  });
+  return count > 0;
+};
+
+/**
+ * Change the products of the benefit basket
+ *
+ * The basket is changed in place while no family consumed from it, otherwise the products are kept as a replaced
+ * version and a new version is created, so the past balances keep using the basket that was in force
+ * @param benefit benefit before the update
+ * @param products products sent by the user
+ * @param cityId logged user city ID
+ * @param transaction update transaction
+ */
+const updateBasket = async (
+  benefit: SequelizeBenefit,
+  products: BenefitProduct[],
+  cityId: NonNullable<City['id']>,
+  transaction: Transaction
+) => {
+  const benefitId = benefit.id as number;
+  const current = await db.benefitProducts.findAll({ where: { benefitId, replacedAt: null }, transaction });
+  if (isSameBasket(current, products)) return;
+  const version = Math.max(0, ...current.map((item) => Number(item.version || 1)));
+
+  const consumed = await hasConsumedFromBasket(
+    benefit,
+    uniq(current.map((item) => item.productId)),
+    cityId,
+    transaction
+  );
+  if (consumed) {
+    const now = new Date();
+    await db.benefitProducts.update(
+      { replacedAt: now },
+      { where: { id: current.map((item) => item.id as number) }, transaction }
+    );
+    await db.benefitProducts.bulkCreate(
+      products.map((item) => ({
+        productId: item.productId,
+        amount: item.amount,
+        benefitId,
+        version: version + 1,
+        validFrom: now
+      })),
+      { transaction }
+    );
+    return;
+  }
+
+  // Only the products of the basket in force can be changed
+  const productsToUpdate = products.filter((item) => item.id && current.some((product) => product.id === item.id));
+  const productsToAdd = products.filter((item) => !productsToUpdate.includes(item));
+  const productsToRemove = current.filter((product) => !productsToUpdate.some((item) => item.id === product.id));
+
+  if (productsToRemove.length > 0) {
+    await db.benefitProducts.destroy({
+      where: { id: productsToRemove.map((item) => item.id as number) },
+      transaction
+    });
+  }
+  for (const item of productsToUpdate) {
+    await db.benefitProducts.update({ amount: item.amount }, { where: { id: item.id as number }, transaction });
+  }
+  await db.benefitProducts.bulkCreate(
+    productsToAdd.map((item) => ({
+      productId: item.productId,
+      amount: item.amount,
+      benefitId,
+      version: version || 1
+    })),
+    { transaction }
+  );
+};
+
 /**
  * Function to update a row on the table by the unique ID
  * @param id unique ID of the desired item
@@ -103,40 +316,26 @@ export const updateWithProduct = async (
 ): Promise<SequelizeBenefit | null> => {
   // Trying to get item on the city
   const cityItem = await getById(id, cityId);
-  if (cityItem) {
-    // The update return an array [count, item[]], so I'm destructuring to get the updated benefit
-    const [, [updated]] = await db.benefits.update(values, { where: { id }, returning: true });
-    const updatedProducts = await db.benefitProducts.findAll({ where: { benefitId: updated.id as number } });
+  if (!cityItem) return null;
+  await checkCityReferences(values, cityId);
 
-    if (values.benefitProducts) {
-      const list = values.benefitProducts.map((i) => {
-        i.benefitId = updated.id as number;
-        return i;
-      });
-      const productToUpdate = list.filter((f) => f.id);
-      const productToAdd = list.filter((f) => !f.id);
-      const productToRemove = updatedProducts.filter((a) => {
-        const index = productToUpdate.find((f) => f.id === a.id);
-        if (!index) return a;
-        return null;
-      });
-
-      await db.benefitProducts.bulkCreate(productToAdd);
-
-      productToRemove.map(async (dt) => {
-        if (dt.id) await db.benefitProducts.destroy({ where: { id: dt.id } });
-      });
-      productToUpdate.map(async (up) => {
-        if (up.id) await db.benefitProducts.update({ amount: up.amount }, { where: { id: up.id } });
-      });
-    }
-  }
+  await sequelize.transaction(async (transaction) => {
+    await db.benefits.update(values, { where: { id }, transaction });
+    if (values.benefitProducts) await updateBasket(cityItem, values.benefitProducts, cityId, transaction);
+  });
+  syncGroupsLedger(cityId, [cityItem.groupId, values.groupId]);
 
   return await db.benefits.findOne({
     where: { id },
     include: [
       { model: db.institutions, as: 'institution', where: { cityId } },
-      { model: db.benefitProducts, as: 'benefitProducts', include: [{ model: db.products, as: 'product' }] }
+      {
+        model: db.benefitProducts,
+        as: 'benefitProducts',
+        where: { replacedAt: null },
+        required: false,
+        include: [{ model: db.products, as: 'product' }]
+      }
     ]
   });
 };
@@ -149,6 +348,9 @@ export const updateWithProduct = async (
 export const deleteById = async (id: NonNullable<Benefit['id']>, cityId: NonNullable<City['id']>): Promise<void> => {
   const cityItem = await getById(id, cityId);
   if (cityItem) {
+    // The occurrence keeps the generated benefit, it must be skipped on the program
+    if (cityItem.programId) throw { status: 409, message: 'O benefício foi gerado por um programa' };
     await db.benefits.destroy({ where: { id } });
+    syncGroupsLedger(cityId, [cityItem.groupId]);
   }
 };
@@ -1,5 +1,5 @@
-import Sequelize, { Op } from 'sequelize';
-import db from '../schemas';
+import Sequelize from 'sequelize';
+import db, { sequelize } from '../schemas';
 import path from 'path';
 import fs from 'fs';
 import csv from 'csvtojson';
@@ -15,11 +15,29 @@ import { Place } from '../schemas/places';
 import { City } from '../schemas/cities';
 import { Benefit } from '../schemas/benefits';
 import { Dependent } from '../schemas/depedents';
-import { scrapeNFCeData } from '../utils/nfceScraper';
+import { BenefitPolicy } from '../schemas/benefitPolicies';
+import { getNFCeAccessKey, NFCeFetcher, scrapeNFCeData } from '../utils/nfceScraper';
+import { NFCeAccessKeyData, parseNFCeAccessKey } from '../utils/nfceAccessKey';
 import { SequelizeProduct } from '../schemas/products';
-import { allowedNamesList, allowedNISList } from '../utils/constraints';
+import { applyCityOverrides, matchProductByName } from './products';
+import { getAll as getAllCategories, getProductValidity } from './productCategories';
+import { cityScope } from '../utils/tenancy';
+import { AgeLimit, getDependentEndDate } from '../utils/eligibility';
 import { countAll as countAllFamilies } from '../models/families';
 import { countAll as countAllDependents } from '../models/dependents';
+import { getFamilyLedgerBalance, recordConsumption, syncFamiliesLedger } from './ledgerEntries';
+import { applyProductAdjustments, getApprovedOnPeriod, getApprovedProducts } from './balanceAdjustments';
+import { getFamilyBenefitValue } from './benefits';
+import { basketScope } from './benefitProducts';
+import { checkConsumptionStock, recordDistribution, reverseDistribution } from './stockMovements';
+import {
+  findEffectivePolicy,
+  findFamilyExceptions,
+  getEffectivePolicy,
+  getExceptions,
+  getMoneyPaid,
+  hasDeclaredAll as hasDeclaredAllValue
+} from './benefitPolicies';
 
 export type ProductBalance = {
   product: {
@@ -35,22 +53,32 @@ export type ProductBalance = {
 /**
  * Get balance report by dependent when product
  *
+ * Each benefit uses the basket version that was in force on the date, so the past balances don't change when the
+ * basket is edited after the families consumed from it
  * @param family the family
+ * @param date date of the balance, now by default
  */
-export const getFamilyDependentBalanceProduct = async (family: Family): Promise<ProductBalance> => {
+export const getFamilyDependentBalanceProduct = async (
+  family: Family,
+  date: moment.MomentInput = new Date()
+): Promise<ProductBalance> => {
   //Family groupId
-  const familyBenefits = await db.benefits.findAll({ where: { groupId: family.groupId } });
+  const familyBenefits = await db.benefits.findAll({
+    where: cityScope('benefits', family.cityId, { groupId: family.groupId })
+  });
   //Filter benefit by family date
   const familyBenefitsFilterDate = familyBenefits
     .filter((benefit) => {
       const isSameMonthYear = moment(family.createdAt || moment()).isSameOrBefore(benefit.date, 'month');
-      const isTodayAfterDate = moment().isSameOrAfter(moment(benefit.date));
+      const isTodayAfterDate = moment(date).isSameOrAfter(moment(benefit.date));
       let isNotDeactivated = true;
       if (family.deactivatedAt) isNotDeactivated = moment(benefit.date).isBefore(moment(family.deactivatedAt));
       return isSameMonthYear && isTodayAfterDate && isNotDeactivated ? benefit : null;
     })
     .filter((f) => f);
-  if (familyBenefitsFilterDate.length === 0) {
+  //Approved manual adjustments
+  const adjustedProducts = await getApprovedProducts(family.id as number, moment(date).toDate());
+  if (familyBenefitsFilterDate.length === 0 && adjustedProducts.length === 0) {
     return [];
   }
   //Get all products by benefit
@@ -59,13 +87,14 @@ export const getFamilyDependentBalanceProduct = async (family: Family): Promise<
   }) as number[];
   const listOfProductsAvailable = await db.benefitProducts.findAll({
     where: {
-      benefitId: { [Sequelize.Op.in]: benefitsIds }
+      benefitId: { [Sequelize.Op.in]: benefitsIds },
+      ...basketScope(date)
     },
     include: [{ model: db.products, as: 'product' }]
   });
-  //Get all family Consumptions
+  //Get all family Consumptions until the date
   const familyConsumption = await db.consumptions.findAll({
-    where: { familyId: family.id as number }
+    where: { familyId: family.id as number, createdAt: { [Sequelize.Op.lte]: moment(date).toDate() } }
   });
   //Get all Product used by family consumption
   const consumptionIds = familyConsumption.map((item) => {
@@ -93,7 +122,7 @@ export const getFamilyDependentBalanceProduct = async (family: Family): Promise<
     return res;
   }, {});
   //Get difference between available products and consumed products
-  const differenceProducts = groupedProductsAvailable.map((product) => {
+  const differenceProducts = applyProductAdjustments(groupedProductsAvailable, adjustedProducts).map((product) => {
     const items = productsFamilyConsumption.filter((f) => f.productId === product.productId);
     let amount = 0;
     if (items.length > 0)
@@ -122,48 +151,38 @@ export const getFamilyDependentBalanceProduct = async (family: Family): Promise<
 };
 
 /**
- * Get balance report by dependent when ticket
- * @param family the family
- * @param availableBenefits has benefis
+ * Replay the benefits and consumptions of the family, the legacy balance computation
+ * @param family the family, with its dependents and consumptions
+ * @param availableBenefits benefits of the family city
+ * @param policies policy versions of the family city
+ * @param group optional family group with the age limit
+ * @param todayDate date used to check if the benefit is already available
+ * @returns balance
  */
-export const getFamilyDependentBalanceTicket = async (family: Family, availableBenefits?: Benefit[]) => {
-  if (!family.dependents || !family.consumptions) {
-    // Be sure that everything necessesary is populated
-    const populatedFamily = await db.families.findByPk(family.id, {
-      include: [
-        { model: db.dependents, as: 'dependents' },
-        { model: db.consumptions, as: 'consumptions' }
-      ]
-    });
-    if (populatedFamily) {
-      family = populatedFamily;
-    }
-  }
-
-  if (!availableBenefits) {
-    // Populating benefits if it's not available
-    availableBenefits = await db.benefits.findAll({
-      where: { groupId: family.groupId },
-      include: [{ model: db.institutions, as: 'institution', where: { cityId: family.cityId } }]
-    });
-  }
-
-  const todayDate = moment();
+export const computeFamilyDependentBalanceTicket = (
+  family: Family,
+  availableBenefits: Benefit[],
+  policies: BenefitPolicy[],
+  group?: AgeLimit | null,
+  todayDate = moment()
+) => {
   let lastBenefit: Benefit | null = null;
 
   let balance = 0;
   for (const dependent of family.dependents as Dependent[]) {
     const dependentCreatedAt = moment(dependent.createdAt as Date);
-    const dependentDeactivatedAt = moment(dependent.deactivatedAt as Date);
+    // The group age limit ends the benefits as a deactivation
+    const dependentEndDate = getDependentEndDate(dependent, group);
 
     for (const benefit of availableBenefits) {
       const benefitDate = moment(benefit.date as Date);
       if (benefit.groupId !== family.groupId) continue; // Don't check if it's from another group
+      if (benefit.valueType === 'family') continue; // Granted once to the family, below
       // Check all the dates
       const dependentRegistredBeforeBenefit = dependentCreatedAt.isSameOrBefore(moment(benefitDate).endOf('month'));
       const afterBenefitActivation = todayDate.isSameOrAfter(benefitDate);
-      const dependetNotDeactivatedBeforeBenefit = dependent.deactivatedAt
-        ? benefitDate.isSameOrBefore(dependentDeactivatedAt)
+      const dependetNotDeactivatedBeforeBenefit = dependentEndDate
+        ? benefitDate.isSameOrBefore(dependentEndDate)
         : true;
 
       if (
@@ -183,6 +202,28 @@ export const getFamilyDependentBalanceTicket = async (family: Family, availableB
     }
   }
 
+  for (const benefit of availableBenefits) {
+    const benefitDate = moment(benefit.date as Date);
+    if (benefit.groupId !== family.groupId || benefit.valueType !== 'family') continue;
+    const familyRegistredBeforeBenefit = moment(family.createdAt as Date).isSameOrBefore(
+      moment(benefitDate).endOf('month')
+    );
+    const familyNotDeactivatedBeforeBenefit = family.deactivatedAt
+      ? benefitDate.isSameOrBefore(moment(family.deactivatedAt as Date))
+      : true;
+    if (
+      benefit.value &&
+      familyRegistredBeforeBenefit &&
+      familyNotDeactivatedBeforeBenefit &&
+      todayDate.isSameOrAfter(benefitDate)
+    ) {
+      balance += Number(benefit.value);
+      if (!lastBenefit || (lastBenefit && moment(lastBenefit.date).isAfter(benefitDate))) {
+        lastBenefit = benefit;
+      }
+    }
+  }
+
   if (!family.consumptions || family.consumptions.length < 1) {
     // Family without consumptions
     return balance;
@@ -191,7 +232,7 @@ export const getFamilyDependentBalanceTicket = async (family: Family, availableB
   // Calculating consumption
   const consumption = family.consumptions.reduce((sum, item) => sum + Number(item.value), 0);
 
-  const lastBenefitValue = (lastBenefit?.value || 0) * (family.dependents || []).length;
+  const lastBenefitValue = getFamilyBenefitValue(lastBenefit, (family.dependents || []).length);
 
   // Discount invalid values from future months
   let totalInvalidValue = family.consumptions.reduce((sum, consumption) => {
@@ -200,15 +241,9 @@ export const getFamilyDependentBalanceTicket = async (family: Family, availableB
       if (consumption.invalidValue) {
         let invalidValue = Number(consumption.invalidValue);
 
-        // Check for the payment with money
-        const paidWithMoney =
-          consumption.purchaseData?.payment.reduce(
-            (sum, payment) =>
-              payment.name && payment.value && payment.name.toLocaleLowerCase().includes('dinheiro')
-                ? sum + payment.value
-                : sum,
-            0
-          ) || 0;
+        // Check for the payment with money, using the city policy effective on the review
+        const policy = findEffectivePolicy(policies, (consumption.reviewedAt || consumption.createdAt) as Date);
+        const paidWithMoney = getMoneyPaid(consumption.purchaseData, policy);
 
         // Invalid value does not include values paid with money
         invalidValue = Math.max(invalidValue - paidWithMoney, 0);
@@ -229,14 +264,49 @@ export const getFamilyDependentBalanceTicket = async (family: Family, availableB
   return balance - consumption - totalInvalidValue;
 };
 
+/**
+ * Get balance report by dependent when ticket
+ *
+ * Legacy computation replaying the benefits and consumptions, the balance comes from the ledger and this one
+ * is used only on its reconciliation
+ * @param family the family
+ * @param availableBenefits has benefis
+ */
+export const getFamilyDependentBalanceTicket = async (family: Family, availableBenefits?: Benefit[]) => {
+  if (!family.dependents || !family.consumptions) {
+    // Be sure that everything necessesary is populated
+    const populatedFamily = await db.families.findByPk(family.id, {
+      include: [
+        { model: db.dependents, as: 'dependents' },
+        { model: db.consumptions, as: 'consumptions' }
+      ]
+    });
+    if (populatedFamily) {
+      family = populatedFamily;
+    }
+  }
+
+  if (!availableBenefits) {
+    // Populating benefits if it's not available
+    availableBenefits = await db.benefits.findAll({
+      where: { groupId: family.groupId },
+      include: [{ model: db.institutions, as: 'institution', where: { cityId: family.cityId } }]
+    });
+  }
+
+  const policies = await db.benefitPolicies.findAll({ where: cityScope('benefitPolicies', family.cityId) });
+  const group = await db.groups.findByPk(family.groupId);
+
+  return computeFamilyDependentBalanceTicket(family, availableBenefits, policies, group);
+};
+
 /**
  * Get balance report by dependent when product
  * @param family the family
- * @param availableBenefits benefit
  */
-export const getFamilyDependentBalance = async (family: Family, availableBenefits?: Benefit[]) => {
+export const getFamilyDependentBalance = async (family: Family) => {
   const CONSUMPTION_TYPE = process.env.CONSUMPTION_TYPE as 'ticket' | 'product';
-  if (CONSUMPTION_TYPE === 'ticket') return getFamilyDependentBalanceTicket(family, availableBenefits);
+  if (CONSUMPTION_TYPE === 'ticket') return getFamilyLedgerBalance(family);
   else return getFamilyDependentBalanceProduct(family);
 };
 
@@ -253,13 +323,9 @@ export const getBalanceReport = async (cityId: NonNullable<City['id']>) => {
     ]
   });
 
-  const benefits = await db.benefits.findAll({
-    include: [{ model: db.institutions, as: 'institution', where: { cityId } }]
-  });
-
   const balanceList: (Family & { balance: number })[] = [];
   for (const family of families) {
-    const balance = await getFamilyDependentBalance(family, benefits);
+    const balance = await getFamilyDependentBalance(family);
     balanceList.push({ ...(family.toJSON() as Family), balance: balance as number });
   }
 
@@ -320,15 +386,28 @@ export const getFamilyBalance = async (family: Family): Promise<number> => {
 /**
  * Create a new consumption on the store
  * @param values consumption object
+ * @param cityId logged user city ID, the family and the store must be on it
  * @param placeStoreId logged user place store ID
  * @returns Promise<List of items>
  */
 export const addConsumption = async (
   values: Consumption,
+  cityId: NonNullable<City['id']>,
   placeStoreId?: NonNullable<PlaceStore['id']>
 ): Promise<SequelizeConsumption> => {
   // TODO: this is the main function of the entire application, but for now will be really basic
-  const [consumption] = values.nfce ? await db.consumptions.findAll({ where: { nfce: values.nfce } }) : [null];
+  let accessKeyData: NFCeAccessKeyData | undefined;
+  if (values.nfce) {
+    const accessKey = getNFCeAccessKey(values.nfce);
+    if (!accessKey) throw { status: 422, message: 'Chave de acesso não encontrada na NFC-e' };
+    accessKeyData = parseNFCeAccessKey(accessKey);
+  }
+  // The same receipt can have different links, so the access key is used to find duplicates
+  const [consumption] = accessKeyData
+    ? await db.consumptions.findAll({
+        where: { [Sequelize.Op.or]: [{ nfceAccessKey: accessKeyData.nfceAccessKey }, { nfce: values.nfce as string }] }
+      })
+    : [null];
   if (consumption) {
     if (process.env.NODE_ENV === 'development') {
       return consumption;
@@ -341,7 +420,7 @@ export const addConsumption = async (
     // Negative consumption
     throw { status: 422, message: 'Compra não pode ter valor negativo' };
   }
-  const family = await db.families.findByPk(values.familyId);
+  const family = await db.families.findOne({ where: cityScope('families', cityId, { id: values.familyId }) });
   if (!family) {
     // Invalid family ID
     throw { status: 422, message: 'Família não encontrada' };
@@ -349,17 +428,49 @@ export const addConsumption = async (
 
   // Available balance is not checked anymore
 
-  // Everything is ok, create it
-  return db.consumptions.create({ ...values, placeStoreId });
+  // The receipt must be issued by the store, that must be on the user city
+  const storeId = placeStoreId || values.placeStoreId;
+  const placeStore = storeId
+    ? await db.placeStores.findOne({ where: cityScope('placeStores', cityId, { id: storeId }) })
+    : null;
+  if (storeId && !placeStore) {
+    throw { status: 422, message: 'Estabelecimento não encontrado' };
+  }
+  const storeCnpj = placeStore?.cnpj ? placeStore.cnpj.replace(/\D/g, '') : '';
+  if (accessKeyData && storeCnpj && storeCnpj !== accessKeyData.nfceCnpj) {
+    throw { status: 422, message: 'O CNPJ da NFC-e não é o mesmo do estabelecimento' };
+  }
+
+  // Everything is ok, create it with its ledger entry
+  try {
+    return await sequelize.transaction(async (transaction) => {
+      const created = await db.consumptions.create(
+        { ...values, ...accessKeyData, placeStoreId: placeStore?.id },
+        { transaction }
+      );
+      await recordConsumption(created, transaction);
+      return created;
+    });
+  } catch (error) {
+    // Another request registered the same receipt after the duplicates check
+    if (error instanceof Sequelize.UniqueConstraintError) {
+      throw { status: 409, message: 'Esse NFCe já foi registrado' };
+    }
+    throw error;
+  }
 };
 
 /**
  * Create a new consumption on the store
  * @param values consumption object
+ * @param cityId logged user city ID, the family must be on it
  * @returns Promise<List of items>
  */
-export const addConsumptionProduct = async (values: Consumption): Promise<SequelizeConsumption> => {
-  const family = await db.families.findByPk(values.familyId);
+export const addConsumptionProduct = async (
+  values: Consumption,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeConsumption> => {
+  const family = await db.families.findOne({ where: cityScope('families', cityId, { id: values.familyId }) });
   if (!family) {
     // Invalid family ID
     throw { status: 422, message: 'Família não encontrada' };
@@ -367,7 +478,7 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
 
   //Get family benefit and its products.
   const familyBenefit = await db.benefits.findAll({
-    where: { groupId: family.groupId }
+    where: cityScope('benefits', cityId, { groupId: family.groupId })
   });
   //Get all products by benefit
   const benefitsIds = familyBenefit.map((item) => {
@@ -375,7 +486,8 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
   }) as number[];
   const listOfProductsAvailable = await db.benefitProducts.findAll({
     where: {
-      benefitId: { [Sequelize.Op.in]: benefitsIds }
+      benefitId: { [Sequelize.Op.in]: benefitsIds },
+      ...basketScope()
     },
     include: [{ model: db.products, as: 'product' }]
   });
@@ -401,8 +513,10 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
     availableProducts = [{ ...(benefitProduct.toJSON() as BenefitProduct), amount: totalAmount }, ...remaining];
     console.log(availableProducts);
   }
+  //Approved manual adjustments
+  const adjustedProducts = await getApprovedProducts(family.id as number);
 
-  const differenceProducts = availableProducts.map((product) => {
+  const differenceProducts = applyProductAdjustments(availableProducts, adjustedProducts).map((product) => {
     const items = productsFamilyConsumption.filter((f) => f.productId === product.productId);
     let amount = 0;
     if (items.length > 0)
@@ -438,14 +552,30 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
   });
   if (canConsumeAll) {
     values.value = 0;
-    const newConsumption = await db.consumptions.create({ ...values }).then(async (consumption) => {
+    // The store comes from the request, so it must be on the user city
+    const storeId = values.placeStoreId || family.placeStoreId;
+    const placeStore = storeId
+      ? await db.placeStores.findOne({ where: cityScope('placeStores', cityId, { id: storeId }) })
+      : null;
+    if (storeId && !placeStore) throw { status: 422, message: 'Estabelecimento não encontrado' };
+    const placeStoreId = placeStore?.id as number | undefined;
+    const requested = (values.products || []).map((item) => ({ productId: item.id as number, amount: item.amount }));
+    const newConsumption = await sequelize.transaction(async (transaction) => {
+      // The store policy decides if the consumption is rejected or only warned when the stock isn't enough
+      const stockWarnings = placeStoreId ? await checkConsumptionStock(placeStoreId, requested, transaction) : [];
+      const consumption = await db.consumptions.create({ ...values, placeStoreId }, { transaction });
       const consumptionProducts = values.products?.map((item) => {
         return { productId: item.id, consumptionsId: consumption.id, amount: item.amount };
       });
       if (consumptionProducts) {
-        await db.consumptionProducts.bulkCreate(consumptionProducts);
+        await db.consumptionProducts.bulkCreate(consumptionProducts, { transaction });
+      }
+      if (placeStoreId) await recordDistribution(consumption, requested, transaction);
+      if (stockWarnings.length > 0) {
+        logging.warn('Consumption with insufficient stock', { placeStoreId, stockWarnings });
       }
       consumption.products = values.products;
+      consumption.setDataValue('stockWarnings', stockWarnings);
       return consumption;
     });
     return newConsumption;
@@ -455,10 +585,24 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
   }
 };
 
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getById = (
+  id: NonNullable<Consumption['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeConsumption | null> => {
+  return db.consumptions.findOne({ where: cityScope('consumptions', cityId, { id }) });
+};
+
 /**
  * Get report for consumptions on the place on the interval
  * @param minDate start of interval
  * @param maxDate end of interval
+ * @param cityId logged user city ID
  * @param placeId place unique ID
  * @param placeStoreId place unique ID
  * @returns Promise<List of items>
@@ -466,6 +610,7 @@ export const addConsumptionProduct = async (values: Consumption): Promise<Sequel
 export const getPlaceConsumptionsReport = async (
   minDate: Date | string,
   maxDate: Date | string,
+  cityId: NonNullable<City['id']>,
   placeId?: NonNullable<Place['id']>,
   placeStoreId?: NonNullable<PlaceStore['id']>
 ) => {
@@ -477,13 +622,13 @@ export const getPlaceConsumptionsReport = async (
   }
 
   const consumptions = await db.consumptions.findAll({
-    where: {
+    where: cityScope('consumptions', cityId, {
       [Sequelize.Op.and]: [
         { createdAt: { [Sequelize.Op.gte]: start.toDate() } },
         { createdAt: { [Sequelize.Op.lte]: end.toDate() } },
         placeStoreId ? { placeStoreId } : {}
       ]
-    },
+    }),
     include: [{ model: db.placeStores, as: 'placeStore', where: placeId ? { placeId } : {} }],
     attributes: ['placeStoreId', [Sequelize.fn('sum', Sequelize.col('value')), 'total']],
     group: ['placeStore.id', 'Consumptions.placeStoreId']
@@ -496,23 +641,25 @@ export const getPlaceConsumptionsReport = async (
 
 /**
  * Count how many unique families have consumptions saved on the period
+ * @param cityId logged user city ID
  * @param dateStart period start
  * @param dateEnd period end
  * @param placeStoreId place store unique ID
  */
 export const countFamilies = async (
+  cityId: NonNullable<City['id']>,
   dateStart: Date | string | null,
   dateEnd: Date | string | null,
   placeStoreId?: PlaceStore['id']
 ) => {
   const [data] = await db.consumptions.findAll({
-    where: {
+    where: cityScope('consumptions', cityId, {
       [Sequelize.Op.and]: [
         dateStart ? { createdAt: { [Sequelize.Op.gte]: dateStart } } : {},
         dateEnd ? { createdAt: { [Sequelize.Op.lte]: dateEnd } } : {},
         placeStoreId ? { placeStoreId } : {}
       ]
-    },
+    }),
     attributes: [[Sequelize.fn('count', Sequelize.fn('distinct', Sequelize.col('familyId'))), 'count']]
   });
   if (data) return Number((data.toJSON() as { count: number }).count || 0);
@@ -520,31 +667,34 @@ export const countFamilies = async (
 };
 
 /**
- * Count all items on the table without any filter
+ * Count all items of the city
+ * @param cityId logged user city ID
  */
-export const countAll = async (): Promise<number> => {
-  return await db.consumptions.count();
+export const countAll = async (cityId: NonNullable<City['id']>): Promise<number> => {
+  return await db.consumptions.count({ where: cityScope('consumptions', cityId) });
 };
 
 /**
  * Sum the total consumption values in the period
+ * @param cityId logged user city ID
  * @param dateStart period start
  * @param dateEnd period end
  * @param placeStoreId place store unique ID
  */
 export const sumConsumptions = async (
+  cityId: NonNullable<City['id']>,
   dateStart: Date | string | null,
   dateEnd: Date | string | null,
   placeStoreId?: PlaceStore['id']
 ) => {
   const [data] = await db.consumptions.findAll({
-    where: {
+    where: cityScope('consumptions', cityId, {
       [Sequelize.Op.and]: [
         dateStart ? { createdAt: { [Sequelize.Op.gte]: dateStart } } : {},
         dateEnd ? { createdAt: { [Sequelize.Op.lte]: dateEnd } } : {},
         placeStoreId ? { placeStoreId } : {}
       ]
-    },
+    }),
     attributes: [[Sequelize.fn('sum', Sequelize.col('value')), 'total']]
   });
 
@@ -554,9 +704,11 @@ export const sumConsumptions = async (
 
 /**
  * Count how many unique families have consumptions
+ * @param cityId logged user city ID
  */
-export const countFamilyWithoutConsumptions = async () => {
+export const countFamilyWithoutConsumptions = async (cityId: NonNullable<City['id']>) => {
   const data = await db.families.findAll({
+    where: cityScope('families', cityId),
     include: [
       {
         model: db.consumptions,
@@ -575,15 +727,13 @@ export const countFamilyWithoutConsumptions = async () => {
 
 /**
  * Count how many unique families have consumptions
- * @param dateStart period start
- * @param dateEnd period end
- * @param placeStoreId place store unique ID
+ * @param cityId logged user city ID
  */
-export const sumInvalidConsumptions = async () => {
+export const sumInvalidConsumptions = async (cityId: NonNullable<City['id']>) => {
   const [data] = await db.consumptions.findAll({
-    where: {
+    where: cityScope('consumptions', cityId, {
       [Sequelize.Op.and]: [{ invalidValue: { [Sequelize.Op.gt]: 0 } }]
-    },
+    }),
     attributes: [[Sequelize.fn('sum', Sequelize.col('invalidValue')), 'total']]
   });
 
@@ -634,18 +784,18 @@ export const getConsumptionDashboardInfo = async (cityId: NonNullable<City['id']
     dashboardReturn.weekFamilies,
     dashboardReturn.monthFamilies
   ] = await Promise.all([
-    countAllFamilies(),
-    countFamilies(null, null, placeStoreId),
-    countAll(),
-    sumInvalidConsumptions(),
-    countFamilyWithoutConsumptions(),
-    countAllDependents(),
-    sumConsumptions(startToday, today, placeStoreId),
-    sumConsumptions(startWeek, today, placeStoreId),
-    sumConsumptions(startMonth, today, placeStoreId),
-    countFamilies(startToday, today, placeStoreId),
-    countFamilies(startWeek, today, placeStoreId),
-    countFamilies(startMonth, today, placeStoreId)
+    countAllFamilies(cityId),
+    countFamilies(cityId, null, null, placeStoreId),
+    countAll(cityId),
+    sumInvalidConsumptions(cityId),
+    countFamilyWithoutConsumptions(cityId),
+    countAllDependents(cityId),
+    sumConsumptions(cityId, startToday, today, placeStoreId),
+    sumConsumptions(cityId, startWeek, today, placeStoreId),
+    sumConsumptions(cityId, startMonth, today, placeStoreId),
+    countFamilies(cityId, startToday, today, placeStoreId),
+    countFamilies(cityId, startWeek, today, placeStoreId),
+    countFamilies(cityId, startMonth, today, placeStoreId)
   ]);
 
   return dashboardReturn;
@@ -656,28 +806,27 @@ export const getConsumptionDashboardInfo = async (cityId: NonNullable<City['id']
  *
  * @param consumption Consumption object with the nfce link
  * @param shouldThrow Whether this function should throw an error or just log (used by conjobs)
+ * @param fetcher function used to get the page HTML, requests the state site by default
  */
-export const scrapeConsumption = async (consumption: Consumption, shouldThrow = false) => {
+export const scrapeConsumption = async (consumption: Consumption, shouldThrow = false, fetcher?: NFCeFetcher) => {
   try {
     const link = consumption.nfce;
     if (!link || !consumption.id) return;
 
     // Find the data avout the purchase in the Receita Federal site
-    const purchaseData = await scrapeNFCeData(link);
+    const purchaseData = await scrapeNFCeData(link, fetcher);
 
     consumption.purchaseData = purchaseData;
-    await db.consumptions.update({ purchaseData }, { where: { id: consumption.id } });
-
-    // For each product in the purchase, check it exists and save it in the database
-    await Promise.all(
-      purchaseData.products.map(async ({ name }) => {
-        if (!name) return;
-        const existProduct = await db.products.findOne({ where: { name: { [Op.iLike]: name } } });
-        if (!existProduct) {
-          await db.products.create({ name });
-        }
-      })
+    await db.consumptions.update(
+      { purchaseData, scrapeLastError: null, scrapeNextAttemptAt: null },
+      { where: { id: consumption.id } }
     );
+
+    // For each product in the purchase, match it with the catalogue or save it in the database
+    // Serialized, so similar names on the same receipt don't create duplicated aliases
+    for (const { name } of purchaseData.products) {
+      if (name) await matchProductByName(name);
+    }
   } catch (error) {
     if (shouldThrow) {
       throw error;
@@ -686,6 +835,44 @@ export const scrapeConsumption = async (consumption: Consumption, shouldThrow =
   }
 };
 
+/**
+ * Max number of scraping attempts before giving up on a consumption
+ */
+export const maxScrapeAttempts = 6;
+
+/**
+ * Get the date of the next scraping attempt, doubling the wait after each failure (1, 2, 4, 8... days)
+ * @param attempts number of failed attempts so far
+ * @param from date of the last attempt
+ * @returns date of the next attempt or null if it should give up
+ */
+export const getScrapeNextAttemptAt = (attempts: number, from: moment.MomentInput = new Date()) => {
+  if (attempts >= maxScrapeAttempts) return null;
+  return moment(from)
+    .add(Math.pow(2, Math.max(attempts - 1, 0)), 'days')
+    .toDate();
+};
+
+/**
+ * Store a failed scraping attempt on the consumption, scheduling the next one or giving up
+ * @param consumption consumption that failed to be scraped
+ * @param error error thrown by the scraping
+ * @returns the updated scraping state
+ */
+export const registerScrapingFailure = async (consumption: Consumption, error: { message?: string } | string) => {
+  const now = new Date();
+  const scrapeAttempts = (consumption.scrapeAttempts || 0) + 1;
+  const scrapeNextAttemptAt = getScrapeNextAttemptAt(scrapeAttempts, now);
+  const values = {
+    scrapeAttempts,
+    scrapeLastError: (typeof error === 'string' ? error : error?.message) || 'Erro desconhecido',
+    scrapeNextAttemptAt,
+    scrapeGaveUpAt: scrapeNextAttemptAt ? null : now
+  };
+  await db.consumptions.update(values, { where: { id: consumption.id as number } });
+  return values;
+};
+
 /**
  * Verify a consumption to validate if all of its products are valid
  *
@@ -699,27 +886,24 @@ export const validateConsumption = async (consumption: Consumption, shouldThrow
     // If there is no purchase data, there is no data to work on
     if (!purchaseData || !consumptionId) return;
 
-    // For each product in the purchase data, check if it exists in the database
-    const products = (
-      await Promise.all(
-        purchaseData.products.map(async (consumptionProduct) => {
-          if (!consumptionProduct.name || !consumptionProduct.totalValue) return null;
-          const existingProduct = await db.products.findOne({
-            where: { name: { [Op.iLike]: consumptionProduct.name } }
-          });
-
-          if (existingProduct) return { consumptionProduct, databaseProduct: existingProduct };
-
-          return {
-            consumptionProduct,
-            databaseProduct: await db.products.create({ name: consumptionProduct.name })
-          };
-        })
-      )
-    ).filter((product) => !!product?.databaseProduct) as {
+    // The validity of the products depends on the family group and the category rules
+    const family = await db.families.findByPk(consumption.familyId, { attributes: ['id', 'groupId', 'cityId'] });
+    const categories = await getAllCategories();
+
+    // For each product in the purchase data, match it with the catalogue
+    // The product is null while the match is waiting for the review
+    const products: {
       consumptionProduct: { name: string; totalValue: number };
-      databaseProduct: SequelizeProduct;
-    }[];
+      databaseProduct: SequelizeProduct | null;
+    }[] = [];
+    for (const consumptionProduct of purchaseData.products) {
+      if (!consumptionProduct.name || !consumptionProduct.totalValue) continue;
+      const { product } = await matchProductByName(consumptionProduct.name);
+      products.push({
+        consumptionProduct: { name: consumptionProduct.name, totalValue: consumptionProduct.totalValue },
+        databaseProduct: product
+      });
+    }
 
     // If an error occured during the produc scraping, the name of a product could be null
     // throw an error informing the spraped object
@@ -731,11 +915,19 @@ export const validateConsumption = async (consumption: Consumption, shouldThrow
       throw error;
     }
 
+    // The shared products follow the validity and category chosen by the family city
+    await applyCityOverrides(
+      products.map((product) => product.databaseProduct).filter((product): product is SequelizeProduct => !!product),
+      family?.cityId
+    );
+
     // Check if all of the products is marked as valid
     const consumptionStatus = products.reduce(
       (status, product) => {
         // Verify the current product validation status
-        const { isValid: validationStatus } = product.databaseProduct;
+        const validationStatus = product.databaseProduct
+          ? getProductValidity(product.databaseProduct, categories, family?.groupId)
+          : null;
         const isValid = validationStatus === true;
         const isInvalid = validationStatus === false;
         const isNull = validationStatus === null || validationStatus === undefined;
@@ -761,6 +953,8 @@ export const validateConsumption = async (consumption: Consumption, shouldThrow
       { reviewedAt: consumption.reviewedAt, invalidValue: consumption.invalidValue },
       { where: { id: consumptionId } }
     );
+    // The invalid value is discounted from the family balance
+    await syncFamiliesLedger({ id: consumption.familyId });
   } catch (error) {
     if (shouldThrow) {
       throw error;
@@ -772,6 +966,7 @@ export const validateConsumption = async (consumption: Consumption, shouldThrow
 /**
  * Get report for consumptions on the place on the interval
  *
+ * @param cityId logged user city ID
  * @param rangeFamily range of family date
  * @param rangeConsumption range of consumption date
  * @param memberCpf member cpf
@@ -779,12 +974,13 @@ export const validateConsumption = async (consumption: Consumption, shouldThrow
  * @returns Promise<List of items>
  */
 export const getConsumptionFamilyReport = async (
+  cityId: NonNullable<City['id']>,
   rangeFamily?: Date[] | string[] | null,
   rangeConsumption?: Date[] | string[] | null,
   memberCpf?: string,
   onlyWithoutConsumption?: boolean
 ) => {
-  const placeStores = await db.placeStores.findAll();
+  const placeStores = await db.placeStores.findAll({ where: cityScope('placeStores', cityId) });
   const familyDate = [
     moment(rangeFamily ? rangeFamily[0] : undefined)
       .startOf('day')
@@ -794,12 +990,12 @@ export const getConsumptionFamilyReport = async (
       .toDate()
   ];
   let families = await db.families.findAll({
-    where: {
+    where: cityScope('families', cityId, {
       [Sequelize.Op.and]: [
         { createdAt: { [Sequelize.Op.gte]: familyDate[0] } },
         { createdAt: { [Sequelize.Op.lte]: familyDate[1] } }
       ]
-    },
+    }),
     include: [
       { model: db.consumptions, as: 'consumptions' },
       { model: db.dependents, as: 'dependents' }
@@ -853,11 +1049,16 @@ export const getConsumptionFamilyReport = async (
 
 /**
  * Get report for consumptions on the place on the interval
+ * @param cityId logged user city ID
  * @param rangeConsumption range of consumption date
  * @returns Promise<List of items>
  */
-export const getConsumptionPlaceStoreReport = async (rangeConsumption?: Date[] | string[] | null) => {
+export const getConsumptionPlaceStoreReport = async (
+  cityId: NonNullable<City['id']>,
+  rangeConsumption?: Date[] | string[] | null
+) => {
   const placeStores = await db.placeStores.findAll({
+    where: cityScope('placeStores', cityId),
     include: [
       {
         model: db.families,
@@ -931,6 +1132,7 @@ type ReportItem = {
   numberOfDependents?: number | string;
   balance?: number | string;
   invalidValue?: number | string;
+  adjustmentValue?: number | string;
   hasDeclaredSomething?: string | boolean; // humanized boolean
   hasConsumedSomething?: string | boolean; // humanized boolean
   hasDeclaredAll?: string | boolean; // humanized boolean
@@ -970,6 +1172,9 @@ export const generateTicketReport = async (
     }
   }
 
+  const start = moment(startDate, 'DD-MM-YYYY').startOf('day').toDate();
+  const end = moment(endDate, 'DD-MM-YYYY').endOf('day').toDate();
+
   // Getting relevant info
   const families = await db.families.findAll({
     where: { cityId },
@@ -982,10 +1187,10 @@ export const generateTicketReport = async (
         where: {
           [Sequelize.Op.and]: [
             {
-              createdAt: { [Sequelize.Op.gte]: moment(startDate, 'DD-MM-YYYY').startOf('day').toDate() }
+              createdAt: { [Sequelize.Op.gte]: start }
             },
             {
-              createdAt: { [Sequelize.Op.lte]: moment(endDate, 'DD-MM-YYYY').endOf('day').toDate() }
+              createdAt: { [Sequelize.Op.lte]: end }
             }
           ]
         }
@@ -997,6 +1202,10 @@ export const generateTicketReport = async (
   const allBenefits = await db.benefits.findAll({
     include: [{ model: db.institutions, as: 'institution', where: { cityId } }]
   });
+  const adjustments = await getApprovedOnPeriod(cityId, start, end);
+  // Rules of the city effective on the end of the period
+  const policy = await getEffectivePolicy(cityId, end);
+  const exceptions = await getExceptions(cityId);
 
   // Creating report file
   const reportPath = `${path.dirname(__dirname)}/../database/storage/ticket_report_${cityId}.csv`;
@@ -1014,6 +1223,7 @@ export const generateTicketReport = async (
       { id: 'declaredValue', title: 'Valor declarado' },
       { id: 'consumedValue', title: 'Valor consumido (Ticket)' },
       { id: 'invalidValue', title: 'Valor inválido declarado' },
+      { id: 'adjustmentValue', title: 'Ajustes aprovados' },
       { id: 'nextBenefit', title: 'Valor bruto do benefício' },
       { id: 'nextBenefitWithDiscounts', title: 'Valor do benefício com os descontos' },
       { id: 'nisOnList', title: 'NIS nas exceções' },
@@ -1047,15 +1257,13 @@ export const generateTicketReport = async (
     );
     reportItem.hasConsumedSomething = ticketPurchases.length > 0;
     reportItem.consumedValue = ticketPurchases.reduce((sum, item) => sum + Number(item['Valor'].replace(',', '.')), 0);
-    const hasDeclaredAll =
-      Math.abs(reportItem.declaredValue - reportItem.consumedValue) < 1 ||
-      reportItem.declaredValue > reportItem.consumedValue;
+    const hasDeclaredAll = hasDeclaredAllValue(reportItem.declaredValue, reportItem.consumedValue, policy);
     reportItem.hasDeclaredAll = hasDeclaredAll;
     if (hasDeclaredAll) declaredAllCount++;
 
     // Getting benefit value
     const lastBenefit = allBenefits[allBenefits.length - 1];
-    reportItem.nextBenefit = (lastBenefit.value || 0) * (family.dependents || []).length;
+    reportItem.nextBenefit = getFamilyBenefitValue(lastBenefit, (family.dependents || []).length);
 
     // Sum the invalid values of the family consumptions
     reportItem.invalidValue = (family.consumptions || []).reduce((sum, consumption) => {
@@ -1064,14 +1272,7 @@ export const generateTicketReport = async (
         let invalidValue = Number(consumption.invalidValue);
 
         // Check for the payment with money
-        const paidWithMoney =
-          consumption.purchaseData?.payment.reduce(
-            (sum, payment) =>
-              payment.name && payment.value && payment.name.toLocaleLowerCase().includes('dinheiro')
-                ? sum + payment.value
-                : sum,
-            0
-          ) || 0;
+        const paidWithMoney = getMoneyPaid(consumption.purchaseData, policy);
 
         // Invalid value does not include values paid with money
         invalidValue = Math.max(invalidValue - paidWithMoney, 0);
@@ -1091,18 +1292,27 @@ export const generateTicketReport = async (
     // Invalid value cannot be less than zero
     reportItem.invalidValue = Math.max(reportItem.invalidValue, 0);
 
-    reportItem.nameOnList = allowedNamesList.indexOf(family.responsibleName as string) > -1;
-    reportItem.nisOnList = allowedNISList.indexOf(family.responsibleNis as string) > -1;
+    // Manual adjustments approved on the period
+    reportItem.adjustmentValue = adjustments
+      .filter((adjustment) => `${adjustment.familyId}` === `${family.id}`)
+      .reduce((sum, adjustment) => sum + Number(adjustment.value || 0), 0);
+
+    const { nameOnList, nisOnList } = findFamilyExceptions(exceptions, family);
+    reportItem.nameOnList = nameOnList;
+    reportItem.nisOnList = nisOnList;
 
     if (!reportItem.nameOnList && !reportItem.nisOnList) {
       reportItem.nextBenefitWithDiscounts =
-        reportItem.nextBenefit * (!reportItem.hasConsumedSomething || reportItem.hasDeclaredSomething ? 1 : 0.7) -
+        reportItem.nextBenefit *
+          (!reportItem.hasConsumedSomething || reportItem.hasDeclaredSomething
+            ? 1
+            : policy.undeclaredConsumptionMultiplier) -
         Number(reportItem.invalidValue);
     } else {
       reportItem.nextBenefitWithDiscounts = reportItem.nextBenefit - Number(reportItem.invalidValue);
     }
 
-    reportItem.nextBenefitWithDiscounts = Math.max(reportItem.nextBenefitWithDiscounts, 0);
+    reportItem.nextBenefitWithDiscounts = Math.max(reportItem.nextBenefitWithDiscounts + reportItem.adjustmentValue, 0);
 
     report.push(reportItem);
 
@@ -1115,6 +1325,7 @@ export const generateTicketReport = async (
 
     // Making money the right format
     reportItem.invalidValue = reportItem.invalidValue.toFixed(2).replace('.', ',');
+    reportItem.adjustmentValue = reportItem.adjustmentValue.toFixed(2).replace('.', ',');
     reportItem.consumedValue = reportItem.consumedValue.toFixed(2).replace('.', ',');
     reportItem.declaredValue = reportItem.declaredValue.toFixed(2).replace('.', ',');
     reportItem.nextBenefit = reportItem.nextBenefit.toFixed(2).replace('.', ',');
@@ -1127,17 +1338,22 @@ export const generateTicketReport = async (
 };
 
 /**
- * Soft delete a consumption
+ * Soft delete a consumption of the user city
  * @param id index of the desired consumption
  * @param reason reason of the deletion
  * @param user logged user
  */
 export const deleteById = async (id: NonNullable<Consumption['id']>, reason: string, user: User) => {
-  const consumption = await db.consumptions.findByPk(id);
+  const consumption = await getById(id, user.cityId);
   if (!consumption) throw { status: 404, message: 'not found' };
 
   // Filling data about the deletion
   await db.consumptions.update({ deletedBy: user.id, deleteReason: reason }, { where: { id } });
 
   await db.consumptions.destroy({ where: { id } });
+
+  // Give the value back on the ledger and the products back to the store
+  const deleted = await db.consumptions.findByPk(id, { paranoid: false });
+  if (deleted) await recordConsumption(deleted);
+  await reverseDistribution(id);
 };
@@ -1,15 +1,27 @@
-import Sequelize from 'sequelize';
+import Sequelize, { Transaction } from 'sequelize';
 import db from '../schemas';
 import { Dependent, SequelizeDependent } from '../schemas/depedents';
 import { FamilyItem, OriginalSislameItem } from '../typings/filesItems';
 import moment from 'moment';
 import { Family } from '../schemas/families';
+import { City } from '../schemas/cities';
+import { cityScope } from '../utils/tenancy';
+import { getDependentAgeOutDate } from '../utils/eligibility';
+import { SequelizeGroup } from '../schemas/groups';
+
+export type AgeOutNotice = Pick<Dependent, 'id' | 'name' | 'nis' | 'birthday' | 'familyId'> & {
+  family: Pick<Family, 'id' | 'code' | 'responsibleName' | 'responsibleNis'>;
+  group: Pick<SequelizeGroup, 'id' | 'title' | 'maxDependentAge'>;
+  // End of the last month when the dependent receives the benefits
+  ageOutDate: Date;
+};
 
 /**
- * Count all items on the table without any filter
+ * Count all items of the city
+ * @param cityId logged user city ID
  */
-export const countAll = async (): Promise<number> => {
-  return await db.dependents.count();
+export const countAll = async (cityId: NonNullable<City['id']>): Promise<number> => {
+  return await db.dependents.count({ where: cityScope('dependents', cityId) });
 };
 
 /**
@@ -41,32 +53,37 @@ export const create = (values: Dependent | SequelizeDependent): Promise<Sequeliz
  * Deactivate dependents that are not on the list
  * @param familyId family unique ID
  * @param idsToKeepActive list of IDs of dependents of the family that will not be deactivated
+ * @param transaction optional transaction to run the update
  * @returns Promise with sequelize update
  */
 export const deactivateOthersOnFamily = (
   familyId: NonNullable<Family['id']>,
-  idsToKeepActive: NonNullable<Dependent['id']>[]
+  idsToKeepActive: NonNullable<Dependent['id']>[],
+  transaction?: Transaction
 ) => {
   return db.dependents.update(
     { deactivatedAt: moment().toDate() },
-    { where: { deactivatedAt: null, familyId, id: { [Sequelize.Op.notIn]: idsToKeepActive } } }
+    { where: { deactivatedAt: null, familyId, id: { [Sequelize.Op.notIn]: idsToKeepActive } }, transaction }
   );
 };
 
 /**
- * Create or update dependent object
+ * Create or update dependent object, the NIS is only searched on the families of the city
  * @param item Dependent Object
+ * @param cityId city of the dependent family
+ * @param transaction optional transaction to run the queries
  */
-export const certifyByNIS = async (item: Dependent) => {
+export const certifyByNIS = async (item: Dependent, cityId: City['id'], transaction?: Transaction) => {
   const [createdItem, created] = await db.dependents.findCreateFind({
-    where: { nis: item.nis as string },
-    defaults: item
+    where: cityScope('dependents', cityId, { nis: item.nis as string }),
+    defaults: item,
+    transaction
   });
   if (!created) {
     // Just update the item with the new data
     const [, [dbItem]] = await db.dependents.update(
       { ...item, deactivatedAt: null },
-      { where: { id: createdItem.id as number }, returning: true }
+      { where: { id: createdItem.id as number }, returning: true, transaction }
     );
 
     return dbItem;
@@ -80,10 +97,101 @@ export const certifyByNIS = async (item: Dependent) => {
  * Certify whole list of dependents of the family
  * @param familyId family unique ID
  * @param dependents list of dependents
+ * @param cityId city of the family
+ * @param transaction optional transaction to run the queries
  */
-export const certifyDependentsByFamilyList = async (familyId: NonNullable<Family['id']>, dependents: Dependent[]) => {
-  const dbDependents = await Promise.all(dependents.map((dependent) => certifyByNIS({ ...dependent, familyId })));
+export const certifyDependentsByFamilyList = async (
+  familyId: NonNullable<Family['id']>,
+  dependents: Dependent[],
+  cityId: City['id'],
+  transaction?: Transaction
+) => {
+  const dbDependents = await Promise.all(
+    dependents.map((dependent) => certifyByNIS({ ...dependent, familyId }, cityId, transaction))
+  );
   const idsToKeep = dbDependents.map((item) => item.id as number);
-  await deactivateOthersOnFamily(familyId, idsToKeep);
+  await deactivateOthersOnFamily(familyId, idsToKeep, transaction);
   return dbDependents;
 };
+
+/**
+ * Get the active dependents of the groups with an age limit that leave the group until a date
+ * @param groups groups with an age limit
+ * @param until last age out date
+ * @param cityId optional city ID, every city when not informed
+ * @returns Promise<List of dependents with the age out date>
+ */
+const findAgingOut = async (
+  groups: SequelizeGroup[],
+  until: moment.MomentInput,
+  cityId?: NonNullable<City['id']>
+): Promise<AgeOutNotice[]> => {
+  const notices: AgeOutNotice[] = [];
+  for (const group of groups) {
+    // Only the dependents that cross the age until the end of the month can leave the group
+    const bornUntil = moment(until)
+      .endOf('month')
+      .subtract(Number(group.maxDependentAge) + 1, 'years');
+    const familyWhere = { groupId: group.id as number, deactivatedAt: null };
+    const dependents = await db.dependents.findAll({
+      where: { deactivatedAt: null, birthday: { [Sequelize.Op.lte]: bornUntil.toDate() } },
+      include: [
+        {
+          model: db.families,
+          as: 'family',
+          attributes: ['id', 'code', 'responsibleName', 'responsibleNis'],
+          where: cityId ? cityScope('families', cityId, familyWhere) : familyWhere
+        }
+      ]
+    });
+    for (const dependent of dependents) {
+      const ageOutDate = getDependentAgeOutDate(dependent, group);
+      if (!ageOutDate || moment(ageOutDate).isAfter(until)) continue;
+      const { id, name, nis, birthday, familyId } = dependent;
+      notices.push({
+        id,
+        name,
+        nis,
+        birthday,
+        familyId,
+        family: dependent.family as AgeOutNotice['family'],
+        group: { id: group.id, title: group.title, maxDependentAge: group.maxDependentAge },
+        ageOutDate
+      });
+    }
+  }
+  return notices.sort((a, b) => a.ageOutDate.getTime() - b.ageOutDate.getTime());
+};
+
+/**
+ * Get the dependents of the city that leave their group by the age limit on the next months
+ * @param cityId logged user city ID
+ * @param months number of months ahead
+ * @returns Promise<List of dependents with the age out date>
+ */
+export const getUpcomingAgeOuts = async (cityId: NonNullable<City['id']>, months = 3): Promise<AgeOutNotice[]> => {
+  const groups = await db.groups.findAll({
+    where: cityScope('groups', cityId, { maxDependentAge: { [Sequelize.Op.ne]: null } })
+  });
+  return findAgingOut(groups, moment().add(months, 'months').endOf('month'), cityId);
+};
+
+/**
+ * Deactivate the dependents that crossed the age limit of their group, on every city
+ *
+ * The deactivation date is the end of the last month with benefits, so the balance doesn't change
+ * @param today date of the execution
+ * @returns Promise<number of deactivated dependents>
+ */
+export const deactivateAgedOutDependents = async (today: moment.MomentInput = new Date()): Promise<number> => {
+  const groups = await db.groups.findAll({ where: { maxDependentAge: { [Sequelize.Op.ne]: null } } });
+  // Only the months already finished
+  const agedOut = await findAgingOut(groups, moment(today).subtract(1, 'month').endOf('month'));
+  for (const notice of agedOut) {
+    await db.dependents.update(
+      { deactivatedAt: notice.ageOutDate },
+      { where: { id: notice.id as number, deactivatedAt: null } }
+    );
+  }
+  return agedOut.length;
+};
@@ -1,108 +1,87 @@
-import db from '../schemas';
+import db, { sequelize } from '../schemas';
 import path from 'path';
 import fs from 'fs';
-import Sequelize from 'sequelize';
+import Sequelize, { Transaction } from 'sequelize';
 import csv from 'csvtojson';
 import deburr from 'lodash/deburr';
 import uniqBy from 'lodash/uniqBy';
+import isEqual from 'lodash/isEqual';
 import { createObjectCsvWriter } from 'csv-writer';
-import { getFamilyGroupByCode } from '../utils/constraints';
 import moment from 'moment';
 import logging from '../utils/logging';
 import { compareNames } from '../utils/string';
+import { cityScope } from '../utils/tenancy';
+import {
+  findEligibleGroup,
+  getDependentAgeOutDate,
+  getEligibilityFacts,
+  getManualGroupExplanation
+} from '../utils/eligibility';
 import { parseFamilyAndSislameItems, certifyDependentsByFamilyList } from './dependents';
 import { getFamilyDependentBalance, ProductBalance } from './consumptions';
+import { syncFamiliesLedger } from './ledgerEntries';
+import { getEligibilityGroups } from './groups';
+import * as importJobModel from './importJobs';
 
 import { FamilyItem, SislameItem, OriginalSislameItem, OriginalNurseryItem } from '../typings/filesItems';
-import { Family, SequelizeFamily } from '../schemas/families';
+import { Family, FamilyGroupExplanation, SequelizeFamily } from '../schemas/families';
+import { Group } from '../schemas/groups';
 import { City } from '../schemas/cities';
 import { Dependent } from '../schemas/depedents';
 import { SequelizeConsumption } from '../schemas/consumptions';
+import { ImportDiff, ImportJob, ImportJobCounters, ImportJobStatus, SequelizeImportJob } from '../schemas/importJobs';
 
-type ImportReport = {
-  status: 'Em espera' | 'Finalizado' | 'Falhou' | 'Lendo arquivos' | 'Filtrando dados' | 'Salvando' | 'Cruzando dados';
-  message?: string;
-  percentage?: number;
+export type ImportReport = ImportJobCounters & {
+  id?: ImportJob['id'];
+  status: ImportJobStatus;
+  message?: string | null;
+  percentage?: number | null;
   cityId?: NonNullable<City['id']>;
   inProgress?: boolean;
-  originalFamilyCount?: number;
-  originalSislameCount?: number;
-  originalNurseryCount?: number;
-  filteredFamilyCount?: number;
-  grantedFamilyCount?: number;
-  aboveAgeFamilyCount?: number;
-  aboveAgeSislameCount?: number;
-  foundOnlyNameFamilyCount?: number;
-  grantedAnotherParentCount?: number;
-  notFoundFamilyCount?: number;
-  dependentsCount?: number;
-  duplicatedCount?: number;
-  sislameWithoutParentCount?: number;
-  fourteenOrLessGrantedCount?: number;
-  fourteenOrLessFilteredCount?: number;
+  dryRun?: ImportJob['dryRun'];
+  retryOfId?: ImportJob['retryOfId'];
+  startedById?: ImportJob['startedById'];
+  startedAt?: ImportJob['startedAt'];
+  finishedAt?: ImportJob['finishedAt'];
 };
 
-// Global report
-const importReportList: ImportReport[] = [];
-
-const csvWriterList: { [key: string]: ReturnType<typeof createObjectCsvWriter> } = {};
-
 const type = process.env.CONSUMPTION_TYPE as 'ticket' | 'product';
 
 /**
- * Get or create CSV Writer for the the city
- * @param cityId logged user unique ID
+ * Create the CSV Writer for the reason file of the import job
+ * @param filePath reason file absolute path
  * @returns CSV Writer instance
  */
-export const getCSVWriter = (cityId: NonNullable<City['id']>) => {
-  if (!csvWriterList[cityId]) {
-    const filePath = `${path.dirname(__dirname)}/../database/storage/reason_${cityId}.csv`;
-    // Create file
-    fs.writeFileSync(filePath, undefined);
-    // Create object csv writer - using the same writer will edit the same file
-    csvWriterList[cityId] = createObjectCsvWriter({
-      path: filePath,
-      header: [
-        { id: 'UF', title: 'UF' },
-        { id: 'MUNICIPIO', title: 'MUNICIPIO' },
-        { id: 'TITULAR', title: 'TITULAR' },
-        { id: 'DTNASCTIT', title: 'DTNASCTIT' },
-        { id: 'NISTITULAR', title: 'NISTITULAR' },
-        { id: 'COMPETFOLHA', title: 'COMPETFOLHA' },
-        { id: 'SITFAM', title: 'SITFAM' },
-        { id: 'NISDEPENDEN', title: 'NISDEPENDEN' },
-        { id: 'DEPENDENTE', title: 'DEPENDENTE' },
-        { id: 'IDADE', title: 'IDADE' },
-        { id: 'DTNASCDEP', title: 'DTNASCDEP' },
-        { id: 'QTDE. MEMBROS', title: 'QTDE. MEMBROS' },
-        { id: 'reason', title: 'MOTIVO' }
-      ]
-    });
-  }
-  return csvWriterList[cityId];
-};
-
-/**
- * Remove city CSV Writer from the list
- * @param cityId logged user unique ID
- */
-export const removeCSVWriter = (cityId: NonNullable<City['id']>) => {
-  delete csvWriterList[cityId];
+export const createReasonCSVWriter = (filePath: string) => {
+  // Create file
+  fs.writeFileSync(filePath, '');
+  // Create object csv writer - using the same writer will edit the same file
+  return createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'UF', title: 'UF' },
+      { id: 'MUNICIPIO', title: 'MUNICIPIO' },
+      { id: 'TITULAR', title: 'TITULAR' },
+      { id: 'DTNASCTIT', title: 'DTNASCTIT' },
+      { id: 'NISTITULAR', title: 'NISTITULAR' },
+      { id: 'COMPETFOLHA', title: 'COMPETFOLHA' },
+      { id: 'SITFAM', title: 'SITFAM' },
+      { id: 'NISDEPENDEN', title: 'NISDEPENDEN' },
+      { id: 'DEPENDENTE', title: 'DEPENDENTE' },
+      { id: 'IDADE', title: 'IDADE' },
+      { id: 'DTNASCDEP', title: 'DTNASCDEP' },
+      { id: 'QTDE. MEMBROS', title: 'QTDE. MEMBROS' },
+      { id: 'reason', title: 'MOTIVO' }
+    ]
+  });
 };
 
 /**
  * Reset counts for all report data
- * @param cityId logged user city ID
+ * @param job import job being executed
  */
-export const resetImportReport = (cityId: NonNullable<City['id']>) => {
-  const index = importReportList.findIndex((item) => item.cityId === cityId);
-  if (index > -1) {
-    // Removing if already exists
-    importReportList.splice(index, 1);
-  }
-  importReportList.push({
-    status: 'Em espera',
-    cityId: cityId,
+export const resetImportReport = (job: SequelizeImportJob) => {
+  job.counters = {
     originalFamilyCount: 0,
     originalSislameCount: 0,
     originalNurseryCount: 0,
@@ -113,81 +92,105 @@ export const resetImportReport = (cityId: NonNullable<City['id']>) => {
     foundOnlyNameFamilyCount: 0,
     grantedAnotherParentCount: 0,
     notFoundFamilyCount: 0,
+    notEligibleFamilyCount: 0,
     dependentsCount: 0,
     duplicatedCount: 0,
     sislameWithoutParentCount: 0,
     fourteenOrLessGrantedCount: 0,
     fourteenOrLessFilteredCount: 0
-  });
+  };
 };
 
 /**
  * Increase counter on the report
- * @param cityId Logged user city ID
+ * @param job import job being executed
  * @param counterKey Key of the report that will increase
  * @param numberToSum absolute value to sum on the counter (default: 1)
  */
 export const addOnReportCount = (
-  cityId: NonNullable<City['id']>,
-  counterKey: keyof ImportReport,
+  job: SequelizeImportJob,
+  counterKey: keyof ImportJobCounters,
   numberToSum?: number
 ) => {
-  const index = importReportList.findIndex((item) => item.cityId === cityId);
-  const item = importReportList[index];
-  const value = item[counterKey];
-  if (typeof value === 'number') {
-    const newValue = (value || 0) + (numberToSum || 1);
-    importReportList[index] = {
-      ...item,
-      [counterKey]: newValue
-    };
-  }
+  const counters = job.counters || {};
+  // Replacing the object so Sequelize detects the JSON change
+  job.counters = { ...counters, [counterKey]: (counters[counterKey] || 0) + (numberToSum || 1) };
 };
 
 /**
- * Get current report for the city
- * @param cityId logged user city unique ID
+ * Parse the import job to the report format used by the frontend
+ * @param job import job
  * @returns ImportReport
  */
-export const getImportReport = (cityId: NonNullable<City['id']>): ImportReport => {
-  const importReport = importReportList.find((item) => item.cityId === cityId);
-  if (!importReport) return { status: 'Em espera', cityId, inProgress: false };
-  return importReport;
+export const parseImportReport = (job: ImportJob): ImportReport => {
+  return {
+    ...job.counters,
+    id: job.id,
+    status: job.status,
+    message: job.message,
+    percentage: job.percentage,
+    cityId: job.cityId,
+    inProgress: job.inProgress,
+    dryRun: job.dryRun,
+    retryOfId: job.retryOfId,
+    startedById: job.startedById,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  };
 };
 
 /**
- * Update current report for the city
- * @param importReport new import report data
+ * Get the report of the last import for the city
  * @param cityId logged user city unique ID
+ * @returns Promise<ImportReport>
  */
-export const updateImportReport = (importReport: ImportReport, cityId: NonNullable<City['id']>) => {
-  const index = importReportList.findIndex((item) => item.cityId === cityId);
-  let newImportReport: ImportReport = { cityId, status: importReport.status };
-  if (index > -1) {
-    // Removing if already exists
-    newImportReport = importReportList[index];
-    importReportList.splice(index, 1);
-  }
+export const getImportReport = async (cityId: NonNullable<City['id']>): Promise<ImportReport> => {
+  const job = await importJobModel.getLatest(cityId);
+  if (!job) return { status: 'Em espera', cityId, inProgress: false };
+  return parseImportReport(job);
+};
+
+/**
+ * Update the report of the import job
+ *
+ * The job is saved on the DB when the status changes or the progress advances 1%, avoiding one write per family
+ * @param job import job being executed
+ * @param importReport new import report data
+ */
+export const updateImportReport = async (
+  job: SequelizeImportJob,
+  importReport: Pick<ImportReport, 'status' | 'message' | 'percentage' | 'inProgress'>
+) => {
+  const previousStep = `${job.status}-${job.inProgress}-${Math.floor((job.percentage || 0) * 100)}`;
   // Default status progress is true
-  const inProgress = importReport.inProgress !== undefined ? importReport.inProgress : true;
-  const message = importReport.message ? importReport.message : undefined;
-  // Update object and list
-  newImportReport = { ...newImportReport, ...importReport, cityId, inProgress, message };
-  importReportList.push(newImportReport);
+  job.inProgress = importReport.inProgress !== undefined ? importReport.inProgress : true;
+  job.message = importReport.message ? importReport.message : null;
+  job.status = importReport.status;
+  if (importReport.percentage !== undefined) job.percentage = importReport.percentage;
+  if (!job.inProgress) job.finishedAt = moment().toDate();
+  const currentStep = `${job.status}-${job.inProgress}-${Math.floor((job.percentage || 0) * 100)}`;
+  if (previousStep !== currentStep || !job.inProgress) {
+    await job.save();
+  }
 };
 
 /**
- * Count all items on the table without any filter
+ * Count all items of the city
+ * @param cityId logged user city ID
  */
-export const countAll = async (): Promise<number> => {
-  return await db.families.count();
+export const countAll = async (cityId: NonNullable<City['id']>): Promise<number> => {
+  return await db.families.count({ where: cityScope('families', cityId) });
 };
 
 /**
- * Get all items on the table without any filter
+ * Get all items of the city
+ * @param cityId logged user city ID
  */
-export const getAll = async (): Promise<SequelizeFamily[]> => {
-  return await db.families.findAll({ include: [{ model: db.dependents, as: 'dependents' }] });
+export const getAll = async (cityId: NonNullable<City['id']>): Promise<SequelizeFamily[]> => {
+  return await db.families.findAll({
+    where: cityScope('families', cityId),
+    include: [{ model: db.dependents, as: 'dependents' }]
+  });
 };
 
 /**
@@ -269,6 +272,24 @@ export const findById = async (
   return family;
 };
 
+/**
+ * Get a family with all its dependents, used to keep the state of the family before a change
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item> or null when not found
+ */
+export const getWithDependents = async (
+  id: NonNullable<Family['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeFamily | null> => {
+  const [family] = await db.families.findAll({
+    where: { id, cityId },
+    limit: 1,
+    include: [{ model: db.dependents, as: 'dependents' }]
+  });
+  return family || null;
+};
+
 /**
  * Get all items by the place store id
  * @param placeStoreId searched place store id
@@ -309,11 +330,43 @@ type CSVReport = {
 };
 
 /**
- * Create or update family by Family Code
+ * Parse the CadÚnico per capita income band
+ * @param value fx_rfpc value of the CSV
+ * @returns income band code, null when it's not a valid code
+ */
+export const parseIncomeBand = (value?: string | number | null): number | null => {
+  if (value === undefined || value === null || `${value}`.trim() === '') return null;
+  const code = Number(value);
+  return Number.isInteger(code) ? code : null;
+};
+
+/**
+ * Evaluate the eligibility rules of the groups for a family
+ * @param family family values
+ * @param dependents family members
+ * @param groups groups with rules of the family city
+ * @param source where the evaluation was started
+ * @returns the family group and the explanation, the group is kept when no rule matches
+ */
+export const getEligibleGroupValues = (
+  family: Family,
+  dependents: Dependent[],
+  groups: Group[],
+  source: FamilyGroupExplanation['source']
+): Pick<Family, 'groupId' | 'groupExplanation'> => {
+  const { group, explanation } = findEligibleGroup(groups, getEligibilityFacts(family, dependents), source);
+  return { groupId: group ? (group.id as number) : family.groupId, groupExplanation: explanation };
+};
+
+/**
+ * Create or update family by Family Code, on the family city
  * @param family Family Object
  */
 export const certifyFamilyByCode = async (family: Family) => {
-  const [createdFamily, created] = await db.families.findCreateFind({ where: { code: family.code }, defaults: family });
+  const [createdFamily, created] = await db.families.findCreateFind({
+    where: { code: family.code, cityId: family.cityId },
+    defaults: family
+  });
   if (!created) {
     // Just update the family with the new data
     const [, [item]] = await db.families.update(family, { where: { id: createdFamily.id as number }, returning: true });
@@ -325,18 +378,24 @@ export const certifyFamilyByCode = async (family: Family) => {
 };
 
 /**
- * Create or update family by Responsible NIS
+ * Create or update family by Responsible NIS, on the family city
  * @param family Family Object
+ * @param transaction optional transaction to run the queries
  */
-export const certifyFamilyByNis = async (family: Family) => {
+export const certifyFamilyByNis = async (family: Family, transaction?: Transaction) => {
   if (!family.responsibleNis) throw { status: 412, message: 'Familia sem NIS de responsável' };
   const [createdFamily, created] = await db.families.findCreateFind({
-    where: { responsibleNis: family.responsibleNis },
-    defaults: family
+    where: { responsibleNis: family.responsibleNis, cityId: family.cityId },
+    defaults: family,
+    transaction
   });
   if (!created) {
     // Just update the family with the new data
-    const [, [item]] = await db.families.update(family, { where: { id: createdFamily.id as number }, returning: true });
+    const [, [item]] = await db.families.update(family, {
+      where: { id: createdFamily.id as number },
+      returning: true,
+      transaction
+    });
     return item;
   } else {
     // Family was created
@@ -347,13 +406,92 @@ export const certifyFamilyByNis = async (family: Family) => {
 /**
  * Create or update family by Responsible NIS
  * @param family Family Object
+ * @param transaction optional transaction to run the queries
  */
-export const certifyFamilyAndDependents = async (family: Family) => {
-  const dbFamily = await certifyFamilyByNis(family);
-  dbFamily.dependents = await certifyDependentsByFamilyList(dbFamily.id as number, family.dependents || []);
+export const certifyFamilyAndDependents = async (family: Family, transaction?: Transaction) => {
+  const dbFamily = await certifyFamilyByNis(family, transaction);
+  dbFamily.dependents = await certifyDependentsByFamilyList(
+    dbFamily.id as number,
+    family.dependents || [],
+    family.cityId,
+    transaction
+  );
   return dbFamily;
 };
 
+/**
+ * Compare the families of an import with the DB, without changing anything
+ *
+ * Uses the same criteria of the import: families are matched by responsible NIS, dependents by NIS and
+ * every active family of the city not on the list is deactivated
+ * @param families list of families granted on the import
+ * @param cityId city of the import
+ * @returns Promise<ImportDiff>
+ */
+export const getImportDiff = async (families: Family[], cityId: NonNullable<City['id']>): Promise<ImportDiff> => {
+  const diff: ImportDiff = {
+    families: { create: [], update: [], deactivate: [] },
+    dependents: { add: [], remove: [] }
+  };
+  const dbFamilies = await db.families.findAll({
+    where: cityScope('families', cityId, {
+      responsibleNis: { [Sequelize.Op.in]: families.map((family) => family.responsibleNis as string) }
+    }),
+    include: [{ model: db.dependents, as: 'dependents', where: { deactivatedAt: null }, required: false }]
+  });
+  const dbFamilyByNis: { [nis: string]: SequelizeFamily } = {};
+  dbFamilies.forEach((dbFamily) => {
+    dbFamilyByNis[dbFamily.responsibleNis as string] = dbFamily;
+  });
+  // Dependents on the import are moved to the new family, they are never removed
+  const importedDependentNis: { [nis: string]: boolean } = {};
+  families.forEach((family) =>
+    (family.dependents || []).forEach((dependent) => {
+      if (dependent.nis) importedDependentNis[dependent.nis] = true;
+    })
+  );
+
+  const keptFamiliesIds: NonNullable<Family['id']>[] = [];
+  for (const family of families) {
+    const dbFamily = dbFamilyByNis[family.responsibleNis as string];
+    const dbDependents = dbFamily?.dependents || [];
+    const dbDependentsNis = dbDependents.map((dependent) => dependent.nis);
+    diff.families[dbFamily ? 'update' : 'create'].push({
+      id: dbFamily?.id,
+      responsibleName: family.responsibleName,
+      responsibleNis: family.responsibleNis
+    });
+    (family.dependents || [])
+      .filter((dependent) => dbDependentsNis.indexOf(dependent.nis) < 0)
+      .forEach((dependent) => diff.dependents.add.push({ name: dependent.name, nis: dependent.nis }));
+    if (dbFamily) {
+      keptFamiliesIds.push(dbFamily.id as number);
+      dbDependents
+        .filter((dependent) => !dependent.nis || !importedDependentNis[dependent.nis])
+        .forEach(({ id, familyId, name, nis }) => diff.dependents.remove.push({ id, familyId, name, nis }));
+    }
+  }
+
+  diff.families.deactivate = await db.families.findAll({
+    attributes: ['id', 'responsibleName', 'responsibleNis'],
+    where: cityScope('families', cityId, { id: { [Sequelize.Op.notIn]: keptFamiliesIds }, deactivatedAt: null }),
+    raw: true
+  });
+  const deactivatedDependents = await db.dependents.findAll({
+    attributes: ['id', 'familyId', 'name', 'nis'],
+    where: cityScope('dependents', cityId, {
+      familyId: { [Sequelize.Op.notIn]: keptFamiliesIds },
+      deactivatedAt: null
+    }),
+    raw: true
+  });
+  diff.dependents.remove = [
+    ...diff.dependents.remove,
+    ...deactivatedDependents.filter((dependent) => !dependent.nis || !importedDependentNis[dependent.nis])
+  ];
+  return diff;
+};
+
 /**
  * Import CSV file to create/update/delete families using the file values
  * @param path CSV file path
@@ -368,6 +506,7 @@ export const importFamilyFromCSVFile = async (
   const reportResult: CSVReport = { created: 0, updated: 0, deleted: 0, wrong: 0, report: [], finished: false };
   const timeStart = new Date().getTime();
   let promises: Promise<any>[] = [];
+  const groups = await getEligibilityGroups(cityId);
   const conversion: Promise<CSVReport> = new Promise((resolve, reject) => {
     csv({ delimiter: ';' })
       .fromFile(path)
@@ -385,18 +524,28 @@ export const importFamilyFromCSVFile = async (
                 reportResult.report.push(`[linha: ${lineNumber}] Pessoa ${json['nom_pessoa']} não é um RF`);
                 return;
               }
-              const group = getFamilyGroupByCode(json.d['fx_rfpc']);
-              if (!group) {
+              const incomeBand = parseIncomeBand(json.d['fx_rfpc']);
+              if (incomeBand === null) {
                 reportResult.wrong++;
                 reportResult.report.push(
                   `[linha: ${lineNumber}] Família ${json['cod_familiar_fam']} está com um valor inválido de fx_rfpc`
                 );
                 return;
               }
+              const { group, explanation } = findEligibleGroup(groups, getEligibilityFacts({ incomeBand }), 'import');
+              if (!group) {
+                reportResult.wrong++;
+                reportResult.report.push(
+                  `[linha: ${lineNumber}] Família ${json['cod_familiar_fam']} não se encaixa em nenhum grupo (fx_rfpc: ${incomeBand})`
+                );
+                return;
+              }
               // Converting CSV format to DB format
               const family = {
                 code: json.d['cod_familiar_fam'],
-                groupId: group.id,
+                groupId: group.id as number,
+                incomeBand,
+                groupExplanation: explanation,
                 responsibleName: json['nom_pessoa'],
                 responsibleBirthday: moment(json['dta_nasc_pessoa'], 'DD/MM/YYYY').toDate(),
                 responsibleNis: json['num_nis_pessoa_atual'],
@@ -486,7 +635,9 @@ export const getDashboardInfo = async (cityId: NonNullable<City['id']>) => {
 
   dashboard.dependentCount = dependents.filter((f) => !f.deactivatedAt).length;
 
-  const last = await db.families.max<SequelizeFamily, SequelizeFamily['createdAt']>('createdAt');
+  const last = await db.families.max<SequelizeFamily, SequelizeFamily['createdAt']>('createdAt', {
+    where: cityScope('families', cityId)
+  });
   if (last) {
     dashboard.lastCreatedDate = moment(last).toDate();
   }
@@ -543,7 +694,14 @@ export const createFamilyWithDependents = async (
     }
   }
 
-  return db.families.create({ ...values, cityId }).then(async (family) => {
+  // The group is assigned by the eligibility rules, the selected group is kept when no rule matches
+  const groups = await getEligibilityGroups(cityId);
+  const groupValues =
+    groups.length > 0
+      ? getEligibleGroupValues(values, values.dependents || [], groups, 'form')
+      : { groupExplanation: null };
+
+  return db.families.create({ ...values, ...groupValues, cityId }).then(async (family) => {
     if (values.dependents) {
       const depedentsList = values.dependents?.map((dep) => {
         dep.familyId = family.id as number;
@@ -553,6 +711,7 @@ export const createFamilyWithDependents = async (
         family.dependents = await db.dependents.bulkCreate(depedentsList as Dependent[]);
       }
     }
+    await syncFamiliesLedger({ id: family.id as number });
     return family;
   });
 };
@@ -570,17 +729,29 @@ export const create = (values: Family | SequelizeFamily): Promise<SequelizeFamil
  * Function to update a row on the table by the unique ID
  * @param id unique ID of the desired item
  * @param values object with the new data
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
 export const updateById = async (
   id: NonNullable<Family['id']>,
-  values: Family | SequelizeFamily
+  values: Family | SequelizeFamily,
+  cityId: NonNullable<City['id']>
 ): Promise<SequelizeFamily | null> => {
   // Trying to get item on the city
-  const cityItem = await db.families.findByPk(id);
+  const cityItem = await db.families.findOne({
+    where: cityScope('families', cityId, { id }),
+    include: [{ model: db.dependents, as: 'dependents' }]
+  });
   if (cityItem) {
-    // The update return an array [count, item[]], so I'm destructuring to get the updated benefit
-    await db.families.update(values, { where: { id } });
+    // A group chosen on the form must be one of the family city
+    const groupChanged = values.groupId !== undefined && `${values.groupId}` !== `${cityItem.groupId}`;
+    const chosenGroup = groupChanged
+      ? await db.groups.findOne({ where: cityScope('groups', cityItem.cityId, { id: values.groupId }) })
+      : null;
+    if (groupChanged && !chosenGroup) throw { status: 412, message: 'Grupo familiar não encontrado na cidade' };
+
+    // The family can't be moved to another city
+    await db.families.update({ ...values, id, cityId: cityItem.cityId }, { where: { id } });
 
     if (type === 'product') {
       if (values.dependents) {
@@ -593,32 +764,57 @@ export const updateById = async (
         const depIds = values.dependents.map((dep: Dependent) => {
           return dep.id;
         });
-        const familyDependents = await db.dependents.findAll({ where: { familyId: values.id as number } });
+        const familyDependents = await db.dependents.findAll({ where: { familyId: id } });
         const dependentsToAdd = values.dependents
           .filter((f) => !f.id)
           .map((dep) => {
-            return { ...dep, familyId: values.id };
+            return { ...dep, familyId: id };
           });
         const dependentsToUpdate = values.dependents.filter((f) => f.id);
         const dependentsToRemove = familyDependents.filter((f) => !depIds.includes(f.id));
 
         await db.dependents.bulkCreate(dependentsToAdd);
 
-        dependentsToUpdate.map(async (up) => {
-          if (up.id) await db.dependents.update({ ...up }, { where: { id: up.id } });
-        });
-
-        dependentsToRemove.map(async (dt) => {
-          if (dt.id) await db.dependents.destroy({ where: { id: dt.id } });
-        });
+        // Waiting for the dependents, they are used by the eligibility rules
+        await Promise.all(
+          dependentsToUpdate.map(async (up) => {
+            if (up.id) await db.dependents.update({ ...up, familyId: id }, { where: { id: up.id, familyId: id } });
+          })
+        );
+
+        await Promise.all(
+          dependentsToRemove.map(async (dt) => {
+            if (dt.id) await db.dependents.destroy({ where: { id: dt.id } });
+          })
+        );
       } else {
         throw { status: 412, message: 'É necessário no mínimo um membro por familia.' };
       }
     }
 
+    // A group chosen on the form is kept, otherwise the rules are evaluated again only when the edit changed
+    // a value used by them, so the group isn't replaced by an unrelated edit
+    const edited = await db.families.findOne({
+      where: { id },
+      include: [{ model: db.dependents, as: 'dependents' }]
+    });
+    if (edited) {
+      const facts = getEligibilityFacts(edited, edited.dependents || []);
+      if (chosenGroup) {
+        await edited.update({ groupExplanation: getManualGroupExplanation(chosenGroup, facts) });
+      } else if (!isEqual(facts, getEligibilityFacts(cityItem, cityItem.dependents || []))) {
+        const groups = await getEligibilityGroups(cityItem.cityId);
+        if (groups.length > 0) {
+          await edited.update(getEligibleGroupValues(edited, edited.dependents || [], groups, 'form'));
+        }
+      }
+    }
+    // The group and the dependents define the benefits granted to the family
+    await syncFamiliesLedger({ id });
+
     return await db.families.findOne({
-      where: { id: values.id as number },
-      include: [{ model: db.dependents, as: 'dependents', where: { familyId: values.id as number } }]
+      where: { id },
+      include: [{ model: db.dependents, as: 'dependents', where: { familyId: id } }]
     });
   }
   return null;
@@ -627,13 +823,16 @@ export const updateById = async (
 /**
  * Function to deactivate a row on the table by the unique ID
  * @param id unique ID of the desired item
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
 export const deactivateFamilyAndDependentsById = async (
-  id: NonNullable<Family['id']>
+  id: NonNullable<Family['id']>,
+  cityId: NonNullable<City['id']>
 ): Promise<SequelizeFamily | null> => {
   // Trying to get item on the city
-  const cityItem: (SequelizeFamily & { balance?: number | ProductBalance }) | null = await db.families.findByPk(id, {
+  const cityItem: (SequelizeFamily & { balance?: number | ProductBalance }) | null = await db.families.findOne({
+    where: cityScope('families', cityId, { id }),
     include: [{ model: db.dependents, as: 'dependents' }]
   });
   if (cityItem) {
@@ -646,6 +845,7 @@ export const deactivateFamilyAndDependentsById = async (
       );
     }
     await db.families.update({ deactivatedAt: moment().toDate() }, { where: { id } });
+    await syncFamiliesLedger({ id });
 
     cityItem.reload({ include: [{ model: db.dependents, as: 'dependents' }] });
     cityItem.balance = await getFamilyDependentBalance(cityItem);
@@ -682,20 +882,19 @@ const keys = {
  * @param family CSV family
  * @param cityId logged user city unique ID
  * @param extra address optional data
- * @returns DB family
+ * @returns DB family, without the group assigned by the eligibility rules
  */
 export const parseFamilyItem = (
   family: FamilyItem,
   cityId: NonNullable<City['id']>,
   extra?: { phone?: string; phone2?: string; address?: string }
-): Family => {
+): Omit<Family, 'groupId'> => {
   return {
     responsibleNis: family['NISTITULAR'],
     responsibleName: family['TITULAR'],
     responsibleBirthday: moment(family['DTNASCTIT'], 'DD/MM/YYYY').toDate(),
     responsibleMotherName: '',
     code: '',
-    groupId: getFamilyGroupByCode(0).id,
     cityId,
     phone: extra?.phone,
     phone2: extra?.phone2,
@@ -706,16 +905,14 @@ export const parseFamilyItem = (
 /**
  * Check item and throw error if required key is not found
  * @param item single sislame item
- * @param cityId logged user city unique ID
  */
-export const checkRequiredSislameData = (item: OriginalSislameItem, cityId: NonNullable<City['id']>): void => {
+export const checkRequiredSislameData = (item: OriginalSislameItem): void => {
   if (!item) throw { status: 412, message: 'Nenhum dado na tabela do Sislame' };
   const requiredKeys = [keys.dependentName, keys.responsibleName] as (keyof OriginalSislameItem)[]; // Checking before removing the special characters
   const availableKeys = Object.keys(item).map(deburr) as (keyof OriginalSislameItem)[];
   const notFoundKeys = requiredKeys.filter((key) => availableKeys.indexOf(key) < 0);
   if (notFoundKeys && notFoundKeys.length > 0) {
     const message = `Na tabela do Sislame, as seguintes colunas não foram encontradas: ${notFoundKeys.join(', ')}`;
-    updateImportReport({ status: 'Falhou', message, inProgress: false }, cityId);
     throw { status: 412, message };
   }
 };
@@ -723,9 +920,8 @@ export const checkRequiredSislameData = (item: OriginalSislameItem, cityId: NonN
 /**
  * Check item and throw error if required key is not found
  * @param item single family item
- * @param cityId logged user city unique ID
  */
-export const checkRequiredFamilyData = (item: FamilyItem, cityId: NonNullable<City['id']>): void => {
+export const checkRequiredFamilyData = (item: FamilyItem): void => {
   if (!item) throw { status: 412, message: 'Nenhum dado na tabela do Bolsa Família' };
   const requiredKeys = [
     'DEPENDENTE',
@@ -741,7 +937,6 @@ export const checkRequiredFamilyData = (item: FamilyItem, cityId: NonNullable<Ci
     const message = `Na tabela do Bolsa Família, as seguintes colunas não foram encontradas: ${notFoundKeys.join(
       ', '
     )} --- Disponíveis: ${availableKeys.join(', ')}`;
-    updateImportReport({ status: 'Falhou', message, inProgress: false }, cityId);
     throw { status: 412, message };
   }
 };
@@ -749,9 +944,8 @@ export const checkRequiredFamilyData = (item: FamilyItem, cityId: NonNullable<Ci
 /**
  * Check item and throw error if required key is not found
  * @param item single nursery item
- * @param cityId logged user city unique ID
  */
-export const checkRequiredNurseryData = (item: OriginalNurseryItem, cityId: NonNullable<City['id']>): void => {
+export const checkRequiredNurseryData = (item: OriginalNurseryItem): void => {
   if (!item) throw { status: 412, message: 'Nenhum dado na tabela do Bolsa Família' };
   const requiredKeys = ['Criança', 'Creche', 'RESPONSAVEL'] as (keyof OriginalNurseryItem)[]; // Checking before removing the special characters
   const availableKeys = Object.keys(item) as (keyof OriginalNurseryItem)[];
@@ -760,45 +954,108 @@ export const checkRequiredNurseryData = (item: OriginalNurseryItem, cityId: NonN
     const message = `Na tabela das Creches, as seguintes colunas não foram encontradas: ${notFoundKeys.join(
       ', '
     )} --- Disponíveis: ${availableKeys.join(', ')}`;
-    updateImportReport({ status: 'Falhou', message, inProgress: false }, cityId);
     throw { status: 412, message };
   }
 };
 
 /**
- * Find the interception between CAD and Sislame data to create the families
- * @param familyFilePath file absolute path
- * @param sislameFilePath file absolute path
- * @param nurseryFilePath file absolute path
- * @param cityId logged user city ID
+ * Check that the families, dependents and groups of the city didn't change since a date
+ * @param cityId city of the import
+ * @param since date of the dry run
  */
-export const importFamilyFromCadAndSislameCSV = async (
-  familyFilePath: string,
-  sislameFilePath: string,
-  nurseryFilePath: string,
-  cityId: NonNullable<City['id']>
-) => {
-  resetImportReport(cityId);
+export const checkImportDataUnchanged = async (cityId: NonNullable<City['id']>, since: Date) => {
+  const changed = { updatedAt: { [Sequelize.Op.gt]: since } };
+  const counts = await Promise.all([
+    db.families.count({ where: cityScope('families', cityId, changed) }),
+    db.dependents.count({ where: cityScope('dependents', cityId, changed) }),
+    db.groups.count({ where: cityScope('groups', cityId, changed) })
+  ]);
+  if (counts.some((count) => count > 0)) {
+    throw { status: 409, message: 'As famílias ou os grupos foram alterados depois da simulação da importação' };
+  }
+};
+
+/**
+ * Save the families granted by the import and deactivate the ones that aren't on the list, updating the job report
+ * @param job import job being executed
+ * @param grantedFamilies families granted on the import
+ */
+const saveGrantedFamilies = async (job: SequelizeImportJob, grantedFamilies: Family[]) => {
+  const { cityId } = job;
+  // Saving families on the DB in a single transaction, a failure will rollback the whole import
+  await sequelize.transaction(async (transaction) => {
+    const dbFamiliesIds: NonNullable<Family['id']>[] = [];
+    for (const index in grantedFamilies) {
+      process.stdout.write(
+        `[import] Famílias salvas: ${index}/${grantedFamilies.length} (${(
+          (100 * Number(index)) /
+          grantedFamilies.length
+        ).toFixed(2)}%)` + '\r'
+      );
+      await updateImportReport(job, { status: 'Salvando', percentage: (Number(index) + 1) / grantedFamilies.length });
+      // Certify family + dependent list
+      const family = grantedFamilies[index];
+      const dbFamily = await certifyFamilyAndDependents(family, transaction);
+      dbFamiliesIds.push(dbFamily.id as number);
+    }
+    // Deactivate all families of the city that are not on the list
+    await db.families.update(
+      { deactivatedAt: moment().toDate() },
+      {
+        where: cityScope('families', cityId, { id: { [Sequelize.Op.notIn]: dbFamiliesIds }, deactivatedAt: null }),
+        transaction
+      }
+    );
+    await db.dependents.update(
+      { deactivatedAt: moment().toDate() },
+      {
+        where: cityScope('dependents', cityId, {
+          familyId: { [Sequelize.Op.notIn]: dbFamiliesIds },
+          deactivatedAt: null
+        }),
+        transaction
+      }
+    );
+  });
+  await updateImportReport(job, { status: 'Finalizado', inProgress: false });
+};
+
+/**
+ * Execute each step of the import, updating the job report
+ * @param job import job being executed
+ * @returns the differences with the DB when it's a dry run
+ */
+const runFamilyImport = async (job: SequelizeImportJob): Promise<ImportDiff | undefined> => {
+  const { familyFilePath, sislameFilePath, nurseryFilePath, cityId } = job;
+  resetImportReport(job);
+  job.reasonFilePath = path.resolve(`${importJobModel.importFolder}/reason_${job.id}.csv`);
+  job.startedAt = moment().toDate();
   // Get CSV writer to update reson file
-  const CSVWriter = getCSVWriter(cityId);
+  const CSVWriter = createReasonCSVWriter(job.reasonFilePath);
   // Update report status
-  updateImportReport({ status: 'Lendo arquivos' }, cityId);
+  await updateImportReport(job, { status: 'Lendo arquivos' });
   // Lendo arquivos to get the data
   let originalFamilyData: FamilyItem[] = await csv({ delimiter: ';', flatKeys: true }).fromFile(familyFilePath);
   let originalSislameData: OriginalSislameItem[] = await csv({ flatKeys: true }).fromFile(sislameFilePath);
   const originalNurseryData: OriginalNurseryItem[] = await csv({ flatKeys: true }).fromFile(nurseryFilePath);
 
-  addOnReportCount(cityId, 'originalFamilyCount', originalFamilyData.length);
-  addOnReportCount(cityId, 'originalSislameCount', originalSislameData.length);
-  addOnReportCount(cityId, 'originalNurseryCount', originalNurseryData.length);
+  addOnReportCount(job, 'originalFamilyCount', originalFamilyData.length);
+  addOnReportCount(job, 'originalSislameCount', originalSislameData.length);
+  addOnReportCount(job, 'originalNurseryCount', originalNurseryData.length);
 
   // Update report status
-  updateImportReport({ status: 'Filtrando dados' }, cityId);
+  await updateImportReport(job, { status: 'Filtrando dados' });
 
   // Check all important fields
-  checkRequiredSislameData(originalSislameData[0], cityId);
-  checkRequiredFamilyData(originalFamilyData[0], cityId);
-  checkRequiredNurseryData(originalNurseryData[0], cityId);
+  checkRequiredSislameData(originalSislameData[0]);
+  checkRequiredFamilyData(originalFamilyData[0]);
+  checkRequiredNurseryData(originalNurseryData[0]);
+
+  // The families are assigned to the groups only by the eligibility rules
+  const eligibilityGroups = await getEligibilityGroups(cityId);
+  if (eligibilityGroups.length < 1) {
+    throw { status: 412, message: 'Nenhum grupo da cidade tem regras de elegibilidade para distribuir as famílias' };
+  }
 
   // Mergeing Sislame with Nursery files
   originalSislameData = [
@@ -822,43 +1079,29 @@ export const importFamilyFromCadAndSislameCSV = async (
   const countFamilyBefore = originalFamilyData.length;
   originalFamilyData = uniqBy(originalFamilyData, (item) => `${item.NISTITULAR}-${item.NISDEPENDEN}`);
 
-  addOnReportCount(cityId, 'duplicatedCount', countFamilyBefore - originalFamilyData.length);
-
-  // Filtrando dados: The reduce will create two arrays, one with the valid data and one with the invalid
-  // let removedFamilies: FamilyItem[] = [];
-  // [originalFamilyData, removedFamilies] = originalFamilyData.reduce(
-  //   ([valid, invalid], item) => {
-  //     // Checking the birthday, the dependent can't have more than 17 years
-  //     const validAge = moment().startOf('month').diff(moment(item['DTNASCDEP'], 'DD/MM/YYYY'), 'years') < 18;
-  //     if (!validAge) {
-  //       // Add to invalid data
-  //       return [valid, [...invalid, { ...item, reason: 'Depedente maior de idade' }]];
-  //     }
-  //     // Add to valid data
-  //     return [[...valid, item], invalid];
-  //   },
-  //   [[], []] as FamilyItem[][]
-  // );
-  // // Loging invalid data
-  // await CSVWriter.writeRecords(removedFamilies);
-  // addOnReportCount(cityId, 'aboveAgeFamilyCount', removedFamilies.length);
+  addOnReportCount(job, 'duplicatedCount', countFamilyBefore - originalFamilyData.length);
+
+  // The dependents over the age limit of the family group are removed after the groups are assigned
 
   // Removing special characters
   const familyData: FamilyItem[] = JSON.parse(deburr(JSON.stringify(originalFamilyData)));
   const sislameData: SislameItem[] = JSON.parse(deburr(JSON.stringify(originalSislameData)));
 
-  addOnReportCount(cityId, 'filteredFamilyCount', familyData.length);
+  addOnReportCount(job, 'filteredFamilyCount', familyData.length);
 
-  const grantedFamilies: Family[] = [];
+  const matchedFamilies: Omit<Family, 'groupId'>[] = [];
 
   // Going through each family in the list
   for (const familyIndex in familyData) {
-    updateImportReport({ status: 'Cruzando dados', percentage: (Number(familyIndex) + 1) / familyData.length }, cityId);
+    await updateImportReport(job, {
+      status: 'Cruzando dados',
+      percentage: (Number(familyIndex) + 1) / familyData.length
+    });
     process.stdout.write(
       `[import] Famílias comparadas: ${familyIndex}/${familyData.length} (${(
         (100 * Number(familyIndex)) /
         familyData.length
-      ).toFixed(2)}%) --- Encontradas: ${grantedFamilies.length}` + '\r'
+      ).toFixed(2)}%) --- Encontradas: ${matchedFamilies.length}` + '\r'
     );
     const familyItem = familyData[familyIndex];
     // Finding family child on sislame
@@ -887,7 +1130,7 @@ export const importFamilyFromCadAndSislameCSV = async (
     const fourteenOrLess = moment().startOf('month').diff(moment(familyItem.DTNASCDEP, 'DD/MM/YYYY'), 'years') < 15;
     if (sislameIndex > -1) {
       // Item was found in both databases - check if it's already on the list
-      const alreadyOnListIndex = grantedFamilies.findIndex(
+      const alreadyOnListIndex = matchedFamilies.findIndex(
         (family) => family.responsibleNis === familyItem['NISTITULAR']
       );
       const dependent = parseFamilyAndSislameItems(originalFamilyData[familyIndex], originalSislameData[sislameIndex]);
@@ -901,19 +1144,19 @@ export const importFamilyFromCadAndSislameCSV = async (
             .join(' ')
             .replace(/\#/g, '')
         };
-        grantedFamilies.push({
+        matchedFamilies.push({
           ...parseFamilyItem(originalFamilyData[familyIndex], cityId, extraData),
           dependents: [dependent]
         });
-        addOnReportCount(cityId, 'grantedFamilyCount');
+        addOnReportCount(job, 'grantedFamilyCount');
       } else {
         // Already on the list, just update the number of children
-        const family = grantedFamilies[alreadyOnListIndex];
-        grantedFamilies[alreadyOnListIndex] = { ...family, dependents: [...(family.dependents || []), dependent] };
+        const family = matchedFamilies[alreadyOnListIndex];
+        matchedFamilies[alreadyOnListIndex] = { ...family, dependents: [...(family.dependents || []), dependent] };
       }
-      addOnReportCount(cityId, 'dependentsCount');
+      addOnReportCount(job, 'dependentsCount');
       if (fourteenOrLess) {
-        addOnReportCount(cityId, 'fourteenOrLessGrantedCount');
+        addOnReportCount(job, 'fourteenOrLessGrantedCount');
       }
       continue;
     }
@@ -929,55 +1172,123 @@ export const importFamilyFromCadAndSislameCSV = async (
             'Encontrado aluno com mesmo nome no Sislame, mas responsável diferente. Atualizar Sislame ou é um homônimo'
         }
       ]);
-      addOnReportCount(cityId, 'foundOnlyNameFamilyCount');
+      addOnReportCount(job, 'foundOnlyNameFamilyCount');
     } else {
       await CSVWriter.writeRecords([{ ...familyItem, reason: 'Dependente não está no Sislame' }]);
-      addOnReportCount(cityId, 'notFoundFamilyCount');
+      addOnReportCount(job, 'notFoundFamilyCount');
     }
     if (fourteenOrLess) {
-      addOnReportCount(cityId, 'fourteenOrLessFilteredCount');
+      addOnReportCount(job, 'fourteenOrLessFilteredCount');
     }
   }
 
   console.log('');
 
-  // Saving families on the DB
-  try {
-    const dbFamiliesIds: NonNullable<Family['id']>[] = [];
-    for (const index in grantedFamilies) {
-      process.stdout.write(
-        `[import] Famílias salvas: ${index}/${grantedFamilies.length} (${(
-          (100 * Number(index)) /
-          grantedFamilies.length
-        ).toFixed(2)}%)` + '\r'
+  // Assigning the groups using the eligibility rules, the families on the file are on the government program
+  const grantedFamilies: Family[] = [];
+  for (const matchedFamily of matchedFamilies) {
+    const { group, explanation } = findEligibleGroup(
+      eligibilityGroups,
+      getEligibilityFacts({ ...matchedFamily, isOnGovernProgram: true }, matchedFamily.dependents),
+      'import'
+    );
+    if (!group) {
+      // Families that match no rule aren't imported, they are listed on the reason file
+      await CSVWriter.writeRecords([
+        {
+          TITULAR: matchedFamily.responsibleName,
+          NISTITULAR: matchedFamily.responsibleNis,
+          reason: 'Família não se encaixa em nenhum grupo'
+        }
+      ]);
+      addOnReportCount(job, 'grantedFamilyCount', -1);
+      addOnReportCount(job, 'notEligibleFamilyCount');
+      continue;
+    }
+    const family: Family = {
+      ...matchedFamily,
+      isOnGovernProgram: true,
+      groupId: group.id as number,
+      groupExplanation: explanation
+    };
+
+    // Removing the dependents that already crossed the age limit of the family group
+    const dependents = (family.dependents || []).filter((dependent) => {
+      const ageOutDate = getDependentAgeOutDate(dependent, group);
+      return !ageOutDate || moment().isSameOrBefore(ageOutDate);
+    });
+    const aboveAge = (family.dependents || []).filter((dependent) => dependents.indexOf(dependent) < 0);
+    if (aboveAge.length > 0) {
+      await CSVWriter.writeRecords(
+        aboveAge.map((dependent) => ({
+          TITULAR: family.responsibleName,
+          NISTITULAR: family.responsibleNis,
+          DEPENDENTE: dependent.name,
+          NISDEPENDEN: dependent.nis,
+          reason: 'Dependente acima da idade máxima do grupo'
+        }))
       );
-      updateImportReport({ status: 'Salvando', percentage: (Number(index) + 1) / grantedFamilies.length }, cityId);
-      // Certify family + dependent list
-      const family = grantedFamilies[index];
-      const dbFamily = await certifyFamilyAndDependents(family);
-      dbFamiliesIds.push(dbFamily.id as number);
+      addOnReportCount(job, 'aboveAgeFamilyCount', aboveAge.length);
+      addOnReportCount(job, 'dependentsCount', -aboveAge.length);
     }
-    removeCSVWriter(cityId);
-    updateImportReport({ status: 'Finalizado', inProgress: false }, cityId);
-    // Deactivate all families that are not on the list
-    await db.families.update(
-      { deactivatedAt: moment().toDate() },
-      { where: { id: { [Sequelize.Op.notIn]: dbFamiliesIds }, deactivatedAt: null } }
-    );
-    await db.dependents.update(
-      { deactivatedAt: moment().toDate() },
-      {
-        where: { familyId: { [Sequelize.Op.notIn]: dbFamiliesIds }, deactivatedAt: null }
-      }
-    );
+    if (dependents.length < 1) {
+      addOnReportCount(job, 'grantedFamilyCount', -1);
+      continue;
+    }
+    grantedFamilies.push({ ...family, dependents });
+  }
+
+  if (job.dryRun) {
+    // Only compare with the DB, the operator will approve the import before saving the same families
+    const diff = await getImportDiff(grantedFamilies, cityId);
+    job.diff = diff;
+    job.grantedFamilies = grantedFamilies;
+    await updateImportReport(job, { status: 'Finalizado', inProgress: false });
+    return diff;
+  }
+
+  await saveGrantedFamilies(job, grantedFamilies);
+  return undefined;
+};
+
+/**
+ * Save the families of an approved dry run, without reading the files again
+ *
+ * The families are the ones shown on the dry run diff, so the import is refused when the DB changed after it
+ * @param job import job with the approved dry run
+ */
+const runApprovedImport = async (job: SequelizeImportJob) => {
+  const dryRunJob = await db.importJobs.findByPk(job.dryRunId as number);
+  if (!dryRunJob || !dryRunJob.grantedFamilies) {
+    throw { status: 412, message: 'Simulação da importação não encontrada' };
+  }
+  job.counters = dryRunJob.counters;
+  job.reasonFilePath = dryRunJob.reasonFilePath;
+  job.startedAt = moment().toDate();
+  await checkImportDataUnchanged(job.cityId, dryRunJob.finishedAt as Date);
+  await saveGrantedFamilies(job, dryRunJob.grantedFamilies);
+};
+
+/**
+ * Find the interception between CAD and Sislame data to create the families
+ *
+ * The files, progress and result are kept on the import job, so the import can be listed and retried later
+ * @param job import job with the stored files paths
+ * @returns the differences with the DB when it's a dry run
+ */
+export const importFamilyFromCadAndSislameCSV = async (job: SequelizeImportJob) => {
+  try {
+    const diff = job.dryRunId ? await runApprovedImport(job) : await runFamilyImport(job);
+    // The import changes the groups and dependents of the families
+    if (!job.dryRun) await syncFamiliesLedger({ cityId: job.cityId });
+    console.log('');
+    console.log('[import] Finalizado');
+    return diff;
   } catch (error) {
     // Something failed, update the report and throw error
-    removeCSVWriter(cityId);
-    updateImportReport({ status: 'Falhou', message: error.message, inProgress: false }, cityId);
+    await updateImportReport(job, { status: 'Falhou', message: error.message, inProgress: false });
     throw error;
   }
-  console.log('');
-  console.log('[import] Finalizado');
 };
 
 /**
@@ -1072,14 +1383,11 @@ export const generateListFile = async (cityId: NonNullable<City['id']>) => {
       { id: 'balance', title: 'SALDO' }
     ]
   });
-  const benefits = await db.benefits.findAll({
-    include: [{ model: db.institutions, as: 'institution', where: { cityId } }]
-  });
   // Getting each family balance and adding it to the file
   let fileFamilies = [];
   for (const family of families) {
     if (!family.dependents || family.dependents.length < 1) continue;
-    const balance = await getFamilyDependentBalance(family, benefits);
+    const balance = await getFamilyDependentBalance(family);
     const yongerDepedent = family.dependents.sort((a, b) => moment(b.birthday).diff(moment(a.birthday)))[0];
     fileFamilies.push({
       responsibleName: family.responsibleName,
@@ -1107,9 +1415,13 @@ export const generateListFile = async (cityId: NonNullable<City['id']>) => {
 /**
  * List family consumptions
  * @param id FamilyId
+ * @param cityId logged user city ID
  */
-export const getFamilyConsumption = async (id: number | string): Promise<SequelizeConsumption[]> => {
-  const family = await db.families.findOne({ where: { id } });
+export const getFamilyConsumption = async (
+  id: number | string,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeConsumption[]> => {
+  const family = await db.families.findOne({ where: cityScope('families', cityId, { id }) });
   if (!family) {
     throw { status: 412, message: 'Família não encontrada.' };
   }
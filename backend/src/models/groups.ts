@@ -1,52 +1,112 @@
+import moment from 'moment';
 import db from '../schemas';
 import { Group, SequelizeGroup } from '../schemas/groups';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { cityScope, editableScope } from '../utils/tenancy';
+import { checkEligibilityRules } from '../utils/eligibility';
+import { syncFamiliesLedger } from './ledgerEntries';
 
 /**
- * Get all items on the table without any filter
+ * Check the values that can be set on a group, the rules, priority and age limit are kept when they're not sent
+ * @param values object with the item data
+ * @param current the group before the update
+ * @returns only the values that can be set
+ */
+const checkGroupValues = (values: Group | SequelizeGroup, current?: Group | null): Partial<Group> => {
+  const checked: Partial<Group> = { title: values.title };
+  if (values.eligibilityRules !== undefined) checked.eligibilityRules = checkEligibilityRules(values.eligibilityRules);
+  if (values.priority !== undefined) {
+    checked.priority = Number(values.priority);
+    if (!Number.isInteger(checked.priority)) throw { status: 412, message: 'Prioridade inválida' };
+  }
+  if (values.maxDependentAge !== undefined) {
+    const maxDependentAge = values.maxDependentAge === null ? null : Number(values.maxDependentAge);
+    if (maxDependentAge !== null && !(Number.isInteger(maxDependentAge) && maxDependentAge >= 0)) {
+      throw { status: 412, message: 'Idade máxima inválida' };
+    }
+    checked.maxDependentAge = maxDependentAge;
+    // A new limit is applied from the next month, the benefits already granted don't change
+    if (!current || `${current.maxDependentAge}` !== `${maxDependentAge}`) {
+      checked.maxDependentAgeFrom =
+        maxDependentAge === null ? null : moment().add(1, 'month').startOf('month').format('YYYY-MM-DD');
+    }
+  }
+  return checked;
+};
+
+/**
+ * Get all items of the city, with the shared ones
+ * @param cityId logged user city ID
  * @returns Promise<List of items>
  */
-export const getAll = (): Promise<SequelizeGroup[]> => {
-  return db.groups.findAll();
+export const getAll = (cityId: NonNullable<City['id']>): Promise<SequelizeGroup[]> => {
+  return db.groups.findAll({ where: cityScope('groups', cityId) });
 };
 
 /**
  * Get a single item using the unique ID
  * @param id unique ID of the desired item
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
-export const getById = async (id: NonNullable<Group['id']>): Promise<SequelizeGroup | null> => {
-  const item = await db.groups.findByPk(id);
+export const getById = async (
+  id: NonNullable<Group['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeGroup | null> => {
+  const item = await db.groups.findOne({ where: cityScope('groups', cityId, { id }) });
   return item;
 };
 
 /**
  * Function to create a new row on the table
  * @param values object with the new item data
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
-export const create = (values: Group | SequelizeGroup): Promise<SequelizeGroup> => {
-  return db.groups.create({ ...values });
+export const create = (values: Group | SequelizeGroup, cityId: NonNullable<City['id']>): Promise<SequelizeGroup> => {
+  return db.groups.create({ ...checkGroupValues(values), cityId });
 };
 
 /**
  * Function to update a row on the table by the unique ID
  * @param id unique ID of the desired item
  * @param values object with the new data
+ * @param user logged user
  * @returns Promise<Item>
  */
 export const updateById = async (
   id: NonNullable<Group['id']>,
-  values: Group | SequelizeGroup
+  values: Group | SequelizeGroup,
+  user: User
 ): Promise<SequelizeGroup | null> => {
+  const current = await db.groups.findOne({ where: editableScope('groups', user, { id }) });
+  if (!current) return null;
   // The update return an array [count, item[]], so I'm destructuring to get the updated Group
-  const [, [item]] = await db.groups.update(values, { where: { id }, returning: true });
-  return item;
+  const [, [item]] = await db.groups.update(checkGroupValues(values, current), {
+    where: editableScope('groups', user, { id }),
+    returning: true
+  });
+  // The age limit changes the benefits of the dependents, not awaited as the group can have many families
+  if (item) syncFamiliesLedger({ groupId: id });
+  return item || null;
 };
 
 /**
  * Function to delete a row on the table by the unique ID
- * @param id unique ID of the desired item *
+ * @param id unique ID of the desired item
+ * @param user logged user
+ */
+export const deleteById = async (id: NonNullable<Group['id']>, user: User): Promise<void> => {
+  await db.groups.destroy({ where: editableScope('groups', user, { id }) });
+};
+
+/**
+ * Get the groups of the city that have eligibility rules, used to assign the families
+ * @param cityId family city ID
+ * @returns Promise<List of items>
  */
-export const deleteById = async (id: NonNullable<Group['id']>): Promise<void> => {
-  await db.groups.destroy({ where: { id } });
+export const getEligibilityGroups = async (cityId: NonNullable<City['id']>): Promise<SequelizeGroup[]> => {
+  const groups = await db.groups.findAll({ where: cityScope('groups', cityId) });
+  return groups.filter((group) => group.eligibilityRules && group.eligibilityRules.length > 0);
 };
@@ -0,0 +1,176 @@
+import path from 'path';
+import fs from 'fs';
+import moment from 'moment';
+import { Transaction } from 'sequelize';
+import { UploadedFile } from 'express-fileupload';
+import db, { sequelize } from '../schemas';
+import logging from '../utils/logging';
+import { ImportJob, SequelizeImportJob } from '../schemas/importJobs';
+import { City } from '../schemas/cities';
+
+/**
+ * Folder where the import files are kept, so a failed import can be retried
+ */
+export const importFolder = `${path.dirname(__dirname)}/../database/storage/imports`;
+
+// The dry run result can be large, it's loaded only by the single item queries
+const listExcludedAttributes = ['diff', 'grantedFamilies'];
+
+/**
+ * Get all import jobs of the city, newest first
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getAll = (cityId: NonNullable<City['id']>): Promise<SequelizeImportJob[]> => {
+  return db.importJobs.findAll({
+    where: { cityId },
+    attributes: { exclude: listExcludedAttributes },
+    include: [{ model: db.users, as: 'startedBy', attributes: ['id', 'name', 'email'] }],
+    order: [['id', 'DESC']]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getById = async (
+  id: NonNullable<ImportJob['id']>,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeImportJob | null> => {
+  const [item] = await db.importJobs.findAll({ where: { id, cityId }, limit: 1 });
+  return item || null;
+};
+
+/**
+ * Get the last import job of the city
+ * @param cityId logged user city ID
+ * @returns Promise<Item>
+ */
+export const getLatest = async (cityId: NonNullable<City['id']>): Promise<SequelizeImportJob | null> => {
+  const [item] = await db.importJobs.findAll({
+    where: { cityId },
+    attributes: { exclude: listExcludedAttributes },
+    limit: 1,
+    order: [['id', 'DESC']]
+  });
+  return item || null;
+};
+
+/**
+ * Function to create a new row on the table
+ * @param values object with the new item data
+ * @param transaction optional transaction
+ * @returns Promise<Item>
+ */
+export const create = (values: ImportJob, transaction?: Transaction): Promise<SequelizeImportJob> => {
+  return db.importJobs.create(values, { transaction });
+};
+
+/**
+ * Create a new import job using the files stored on a previous one
+ *
+ * The retry of an approved dry run saves the same families of the dry run, so the files aren't needed
+ * @param previousJob job that owns the files, stored as retryOfId
+ * @param startedById logged user unique ID
+ * @returns Promise<Item>
+ */
+export const createFromJob = (
+  previousJob: SequelizeImportJob,
+  startedById: ImportJob['startedById']
+): Promise<SequelizeImportJob> => {
+  const filesPaths = [previousJob.familyFilePath, previousJob.sislameFilePath, previousJob.nurseryFilePath];
+  if (!previousJob.dryRunId && filesPaths.some((filePath) => !fs.existsSync(filePath))) {
+    throw { status: 412, message: 'Import files are not available anymore.' };
+  }
+  return create({
+    cityId: previousJob.cityId,
+    status: 'Em espera',
+    inProgress: true,
+    familyFilePath: previousJob.familyFilePath,
+    sislameFilePath: previousJob.sislameFilePath,
+    nurseryFilePath: previousJob.nurseryFilePath,
+    // A retry keeps the mode of the previous job
+    dryRun: !!previousJob.dryRun,
+    dryRunId: previousJob.dryRunId,
+    retryOfId: previousJob.id,
+    startedById
+  });
+};
+
+/**
+ * Create the import job that saves the families of a dry run, a dry run can be approved only once
+ *
+ * The new job saves the families stored on the dry run, the same ones of its diff
+ * @param dryRunJob finished dry run job
+ * @param startedById logged user unique ID
+ * @returns Promise<Item>
+ */
+export const commitDryRun = (
+  dryRunJob: SequelizeImportJob,
+  startedById: ImportJob['startedById']
+): Promise<SequelizeImportJob> => {
+  return sequelize.transaction(async (transaction) => {
+    // The lock makes the concurrent approvals wait, so only the first one creates the job
+    const lockedJob = await db.importJobs.findByPk(dryRunJob.id, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!lockedJob || lockedJob.committedJobId) {
+      throw { status: 409, message: 'Dry run import already approved.' };
+    }
+    const job = await create(
+      {
+        cityId: dryRunJob.cityId,
+        status: 'Em espera',
+        inProgress: true,
+        familyFilePath: dryRunJob.familyFilePath,
+        sislameFilePath: dryRunJob.sislameFilePath,
+        nurseryFilePath: dryRunJob.nurseryFilePath,
+        dryRun: false,
+        dryRunId: dryRunJob.id,
+        startedById
+      },
+      transaction
+    );
+    await lockedJob.update({ committedJobId: job.id }, { transaction });
+    return job;
+  });
+};
+
+/**
+ * Move an uploaded file to the import folder, where it will be kept after the import
+ * @param file uploaded file
+ * @param cityId logged user city ID
+ * @param name file name suffix
+ * @returns absolute path of the stored file
+ */
+export const storeUploadedFile = async (file: UploadedFile, cityId: NonNullable<City['id']>, name: string) => {
+  if (!fs.existsSync(importFolder)) {
+    fs.mkdirSync(importFolder, { recursive: true });
+  }
+  const filePath = path.resolve(`${importFolder}/${moment().format('YYYYMMDDHHmmss')}_${cityId}_${name}.csv`);
+  await file.mv(filePath);
+  return filePath;
+};
+
+/**
+ * Flag all imports still marked as in progress as failed
+ *
+ * Used on the server start, an import running when the server stopped will never finish
+ */
+export const failInterrupted = async () => {
+  try {
+    const [count] = await db.importJobs.update(
+      {
+        status: 'Falhou',
+        message: 'Importação interrompida pela reinicialização do servidor',
+        inProgress: false,
+        finishedAt: moment().toDate()
+      },
+      { where: { inProgress: true } }
+    );
+    if (count > 0) logging.warning(`[import] ${count} interrupted import jobs flagged as failed`);
+  } catch (error) {
+    logging.error(error);
+  }
+};
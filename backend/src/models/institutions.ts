@@ -1,4 +1,5 @@
 import db from '../schemas';
+import { cityScope } from '../utils/tenancy';
 import { Institution, SequelizeInstitution } from '../schemas/institutions';
 import { City } from '../schemas/cities';
 
@@ -21,9 +22,7 @@ export const getById = async (
   id: NonNullable<Institution['id']>,
   cityId: NonNullable<City['id']>
 ): Promise<SequelizeInstitution | null> => {
-  const item = await db.institutions.findByPk(id);
-  if (item?.cityId === cityId) return item;
-  return null;
+  return db.institutions.findOne({ where: cityScope('institutions', cityId, { id }) });
 };
 
 /**
@@ -52,10 +51,13 @@ export const updateById = async (
   cityId: NonNullable<City['id']>
 ): Promise<SequelizeInstitution | null> => {
   // Check if item is on the city
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     // The update return an array [count, item[]], so I'm destructuring to get the updated institution
-    const [, [item]] = await db.institutions.update(values, { where: { id }, returning: true });
+    const [, [item]] = await db.institutions.update(
+      { ...values, cityId: cityItem.cityId },
+      { where: { id }, returning: true }
+    );
     return item;
   }
   return null;
@@ -70,7 +72,7 @@ export const deleteById = async (
   id: NonNullable<Institution['id']>,
   cityId: NonNullable<City['id']>
 ): Promise<void> => {
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     await db.institutions.destroy({ where: { id } });
   }
@@ -0,0 +1,605 @@
+import Sequelize, { Transaction, WhereOptions } from 'sequelize';
+import moment from 'moment';
+import db, { sequelize } from '../schemas';
+import { LedgerEntry } from '../schemas/ledgerEntries';
+import { SequelizeLedgerMismatch } from '../schemas/ledgerMismatches';
+import { Family } from '../schemas/families';
+import { Benefit } from '../schemas/benefits';
+import { Consumption } from '../schemas/consumptions';
+import { BalanceAdjustment } from '../schemas/balanceAdjustments';
+import { Dependent } from '../schemas/depedents';
+import { City } from '../schemas/cities';
+import { BenefitPolicy } from '../schemas/benefitPolicies';
+import { cityScope } from '../utils/tenancy';
+import logging from '../utils/logging';
+import { AgeLimit, getDependentEndDate } from '../utils/eligibility';
+import { findEffectivePolicy, getMoneyPaid } from './benefitPolicies';
+import { getFamilyBenefitValue } from './benefits';
+
+export type StatementLine = {
+  date: number | Date;
+  // The deactivations of the family and its dependents are shown without value
+  type: LedgerEntry['type'] | 'deactivation';
+  value: number;
+  // Balance after the line
+  balance: number;
+  description?: string | null;
+  dependentId?: number | string | null;
+  dependentName?: string;
+  consumptionId?: number | string | null;
+};
+
+export type FamilyStatement = {
+  familyId: number | string;
+  from?: Date;
+  to?: Date;
+  openingBalance: number;
+  credits: number;
+  debits: number;
+  closingBalance: number;
+  lines: StatementLine[];
+};
+
+// Differences smaller than a cent are rounding errors
+const BALANCE_TOLERANCE = 0.01;
+
+/**
+ * Round a value to cents, the values are stored as float
+ * @param value value to be rounded
+ * @returns rounded value
+ */
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Check the dates received on the statement queries
+ * @param dates list of optional dates
+ */
+const checkDates = (...dates: moment.MomentInput[]) => {
+  if (dates.some((date) => date && !moment(date, moment.ISO_8601).isValid())) {
+    throw { status: 412, message: 'Data inválida' };
+  }
+};
+
+/**
+ * Get the invalid value of the family consumptions that must be discounted from the balance
+ *
+ * Same rule of the legacy balance: only the consumptions made before the first benefit granted to the family are
+ * discounted, without the products paid with money and without the part of the consumption above that benefit.
+ * The total discount is never greater than the benefit, and it changes with the family dependents
+ * @param consumptions family consumptions, without the deleted ones
+ * @param grants benefit entries of the family, in the order they are granted
+ * @param benefits benefits of the family city
+ * @param dependentsCount number of dependents of the family
+ * @param policies policy versions of the city, the one effective on the review of each consumption is used
+ * @returns value to be discounted
+ */
+export const getInvalidValueDiscount = (
+  consumptions: Consumption[],
+  grants: LedgerEntry[],
+  benefits: Benefit[],
+  dependentsCount: number,
+  policies: BenefitPolicy[] = []
+) => {
+  if (consumptions.length < 1) return 0;
+  const firstGrant = grants.reduce(
+    (first, grant) => (!first || moment(first.date).isAfter(grant.date) ? grant : first),
+    null as LedgerEntry | null
+  );
+  const firstBenefit = benefits.find((benefit) => firstGrant && `${benefit.id}` === `${firstGrant.benefitId}`);
+  const benefitValue = getFamilyBenefitValue(firstBenefit, dependentsCount);
+  const total = consumptions.reduce((sum, consumption) => {
+    if (!consumption.createdAt || !consumption.invalidValue) return sum;
+    // Without benefits, every consumption until now is discounted
+    if (!moment(consumption.createdAt).isBefore(moment(firstBenefit?.date))) return sum;
+    const policy = findEffectivePolicy(policies, (consumption.reviewedAt || consumption.createdAt) as Date);
+    const invalidValue = Math.max(Number(consumption.invalidValue) - getMoneyPaid(consumption.purchaseData, policy), 0);
+    return sum + invalidValue - Math.max(Number(consumption.value) - benefitValue, 0);
+  }, 0);
+  return roundValue(Math.min(total, benefitValue));
+};
+
+/**
+ * Get the entry that brings the recorded invalid value discount of the family to the current one
+ * @param familyId family unique ID
+ * @param discount current discount of the family
+ * @param recorded sum of the invalid value entries already on the ledger
+ * @param date date of the entry
+ * @returns list with the entry, empty when the recorded discount is the current one
+ */
+export const getInvalidValueEntries = (
+  familyId: NonNullable<Family['id']>,
+  discount: number,
+  recorded: number,
+  date: Date = new Date()
+): LedgerEntry[] => {
+  const value = roundValue(-discount - recorded);
+  if (value === 0) return [];
+  return [{ familyId, type: 'invalid-value', value, date }];
+};
+
+/**
+ * Get the entries of a consumption: the debit and the reversal when it's deleted
+ *
+ * The invalid value is discounted from the whole family, see getInvalidValueDiscount
+ * @param consumption consumption, with the deleted ones
+ * @returns list of entries, without the zero valued ones
+ */
+export const getConsumptionEntries = (consumption: Consumption): LedgerEntry[] => {
+  const value = roundValue(Number(consumption.value));
+  const entries: LedgerEntry[] = [
+    {
+      familyId: consumption.familyId,
+      type: 'consumption',
+      value: -value,
+      date: consumption.createdAt || new Date(),
+      consumptionId: consumption.id
+    }
+  ];
+  if (consumption.deletedAt) {
+    entries.push({
+      familyId: consumption.familyId,
+      type: 'consumption-reversal',
+      value,
+      date: consumption.deletedAt,
+      consumptionId: consumption.id,
+      description: consumption.deleteReason
+    });
+  }
+  return entries.filter((entry) => entry.value !== 0);
+};
+
+/**
+ * Get the entry of a manual adjustment, only the approved adjustments with value change the balance
+ * @param adjustment balance adjustment
+ * @returns list with the entry, empty when there's nothing to record
+ */
+export const getAdjustmentEntries = (adjustment: BalanceAdjustment): LedgerEntry[] => {
+  if (adjustment.status !== 'approved' || !adjustment.value) return [];
+  return [
+    {
+      familyId: adjustment.familyId,
+      type: 'adjustment',
+      value: roundValue(Number(adjustment.value)),
+      date: adjustment.reviewedAt || new Date(),
+      adjustmentId: adjustment.id,
+      description: adjustment.reason.slice(0, 255)
+    }
+  ];
+};
+
+/**
+ * Get the benefit grants of a family, one for each dependent on each month of the family group
+ *
+ * The dependent receives the benefits of the months when it was registered, not deactivated and under the
+ * group age limit, the benefits granted per family are received once, on the months when the family was
+ * registered and not deactivated
+ * @param family the family
+ * @param dependents dependents of the family
+ * @param benefits benefits of the family city
+ * @param today date used to check if the benefit is already available
+ * @param group optional family group with the age limit
+ * @returns list of entries
+ */
+export const getBenefitEntries = (
+  family: Family,
+  dependents: Dependent[],
+  benefits: Benefit[],
+  today: moment.MomentInput = new Date(),
+  group?: AgeLimit | null
+): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [];
+  for (const dependent of dependents) {
+    const dependentCreatedAt = moment(dependent.createdAt as Date);
+    const dependentEndDate = getDependentEndDate(dependent, group);
+    for (const benefit of benefits) {
+      const benefitDate = moment(benefit.date as Date);
+      if (benefit.groupId !== family.groupId || !benefit.value || benefit.valueType === 'family') continue;
+      const registeredBeforeBenefit = dependentCreatedAt.isSameOrBefore(moment(benefitDate).endOf('month'));
+      const afterBenefitActivation = moment(today).isSameOrAfter(benefitDate);
+      const notDeactivatedBeforeBenefit = dependentEndDate ? benefitDate.isSameOrBefore(dependentEndDate) : true;
+      if (registeredBeforeBenefit && afterBenefitActivation && notDeactivatedBeforeBenefit) {
+        entries.push({
+          familyId: family.id as number,
+          type: 'benefit',
+          value: roundValue(Number(benefit.value)),
+          date: benefit.date as Date,
+          benefitId: benefit.id,
+          dependentId: dependent.id,
+          description: benefit.title
+        });
+      }
+    }
+  }
+  for (const benefit of benefits) {
+    const benefitDate = moment(benefit.date as Date);
+    if (benefit.groupId !== family.groupId || !benefit.value || benefit.valueType !== 'family') continue;
+    const registeredBeforeBenefit = moment(family.createdAt as Date).isSameOrBefore(moment(benefitDate).endOf('month'));
+    const afterBenefitActivation = moment(today).isSameOrAfter(benefitDate);
+    const notDeactivatedBeforeBenefit = family.deactivatedAt
+      ? benefitDate.isSameOrBefore(moment(family.deactivatedAt as Date))
+      : true;
+    if (registeredBeforeBenefit && afterBenefitActivation && notDeactivatedBeforeBenefit) {
+      entries.push({
+        familyId: family.id as number,
+        type: 'benefit',
+        value: roundValue(Number(benefit.value)),
+        date: benefit.date as Date,
+        benefitId: benefit.id,
+        description: benefit.title
+      });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Get the entries that bring the recorded benefit grants of the family to the grants due now
+ *
+ * Each grant is recorded once, when the benefit becomes available. When a recorded grant is no longer due
+ * (the family moved to another group, the family or the dependent was deactivated before it, the benefit was
+ * removed) or its value changed, a correction with the difference is recorded, the ledger is never rewritten
+ * @param grants benefit entries due now, see getBenefitEntries
+ * @param recorded grant and correction entries already on the ledger
+ * @param date date of the corrections
+ * @returns list of entries, empty when the recorded grants are the due ones
+ */
+export const getBenefitGrantEntries = (
+  grants: LedgerEntry[],
+  recorded: LedgerEntry[],
+  date: Date = new Date()
+): LedgerEntry[] => {
+  /**
+   * Get the key of the grant, a benefit is granted once for each dependent or once for the family
+   * @param entry ledger entry
+   * @returns key of the grant
+   */
+  const getKey = (entry: LedgerEntry) => `${entry.benefitId}:${entry.dependentId || ''}`;
+  const keys = [...grants, ...recorded].map(getKey).filter((key, index, list) => list.indexOf(key) === index);
+
+  const entries: LedgerEntry[] = [];
+  for (const key of keys) {
+    const grant = grants.find((entry) => getKey(entry) === key);
+    const previous = recorded.filter((entry) => getKey(entry) === key);
+    if (!previous.some((entry) => entry.type === 'benefit')) {
+      if (grant) entries.push(grant);
+      continue;
+    }
+    const value = roundValue((grant?.value || 0) - previous.reduce((sum, entry) => sum + Number(entry.value), 0));
+    if (value === 0) continue;
+    const source = grant || previous[0];
+    entries.push({
+      familyId: source.familyId,
+      type: 'benefit-correction',
+      value,
+      date,
+      benefitId: source.benefitId,
+      dependentId: source.dependentId,
+      description: source.description
+    });
+  }
+  return entries;
+};
+
+/**
+ * Store the entries that aren't on the ledger yet, the existing entries are never changed
+ * @param entries list of entries
+ * @param transaction optional transaction
+ */
+const appendEntries = async (entries: LedgerEntry[], transaction?: Transaction) => {
+  if (entries.length < 1) return;
+  await db.ledgerEntries.bulkCreate(entries, { ignoreDuplicates: true, transaction });
+};
+
+/**
+ * Record the entries of a consumption, it must be called when it's created or deleted
+ * @param consumption consumption with the current state
+ * @param transaction optional transaction
+ */
+export const recordConsumption = async (consumption: Consumption, transaction?: Transaction) => {
+  await appendEntries(getConsumptionEntries(consumption), transaction);
+};
+
+/**
+ * Record the changes of the family benefit grants and invalid value discount
+ *
+ * The family is locked, so concurrent synchronizations don't record the same difference twice
+ * @param familyId family unique ID
+ * @param grants benefit entries due now
+ * @param getDiscount function that returns the current discount of the family
+ */
+const recordFamilyChanges = async (
+  familyId: NonNullable<Family['id']>,
+  grants: LedgerEntry[],
+  getDiscount: () => number
+) => {
+  await sequelize.transaction(async (transaction) => {
+    await db.families.findByPk(familyId, { attributes: ['id'], lock: transaction.LOCK.UPDATE, transaction });
+    const recordedGrants = await db.ledgerEntries.findAll({
+      where: { familyId, type: ['benefit', 'benefit-correction'] },
+      transaction
+    });
+    const recordedDiscount = await db.ledgerEntries.sum('value', {
+      where: { familyId, type: 'invalid-value' },
+      transaction
+    });
+    await appendEntries(
+      [
+        ...getBenefitGrantEntries(grants, recordedGrants),
+        ...getInvalidValueEntries(familyId, getDiscount(), recordedDiscount || 0)
+      ],
+      transaction
+    );
+  });
+};
+
+/**
+ * Record the entry of an adjustment, it must be called when it's approved
+ * @param adjustment adjustment with the current state
+ * @param transaction optional transaction
+ */
+export const recordAdjustment = async (adjustment: BalanceAdjustment, transaction?: Transaction) => {
+  await appendEntries(getAdjustmentEntries(adjustment), transaction);
+};
+
+/**
+ * Record the entries of the family that are missing on the ledger
+ *
+ * The benefits are granted when they become available and corrected when they are no longer due, so the
+ * grants follow the current state of the family. The consumptions made before the ledger and the approved
+ * adjustments are also recorded, and the invalid value discount follows the current state of the family
+ * @param family the family
+ * @param availableBenefits optional list with all the benefits of the family city, the grants of the benefits
+ * out of it are reversed
+ */
+export const syncFamilyLedger = async (family: Family, availableBenefits?: Benefit[]) => {
+  // The family dependents can be filtered by the search, so all of them are loaded
+  const dependents = await db.dependents.findAll({ where: { familyId: family.id as number } });
+  const benefits =
+    availableBenefits ||
+    (await db.benefits.findAll({ where: cityScope('benefits', family.cityId, { groupId: family.groupId }) }));
+  const consumptions = await db.consumptions.findAll({ where: { familyId: family.id as number }, paranoid: false });
+  const adjustments = await db.balanceAdjustments.findAll({
+    where: { familyId: family.id as number, status: 'approved' }
+  });
+  const policies = await db.benefitPolicies.findAll({ where: cityScope('benefitPolicies', family.cityId) });
+  const group = await db.groups.findByPk(family.groupId);
+
+  const grants = getBenefitEntries(family, dependents, benefits, new Date(), group);
+  const entries = [
+    ...consumptions.reduce(
+      (list, consumption) => [...list, ...getConsumptionEntries(consumption)],
+      [] as LedgerEntry[]
+    ),
+    ...adjustments.reduce((list, adjustment) => [...list, ...getAdjustmentEntries(adjustment)], [] as LedgerEntry[])
+  ];
+  await appendEntries(entries);
+  await recordFamilyChanges(family.id as number, grants, () =>
+    getInvalidValueDiscount(
+      consumptions.filter((consumption) => !consumption.deletedAt),
+      grants,
+      benefits,
+      dependents.length,
+      policies
+    )
+  );
+};
+
+/**
+ * Record the missing entries of the families after a change of their benefits, groups or dependents
+ *
+ * The balances only read the ledger, so every change that grants or removes benefits must call it. A failure
+ * doesn't undo the change, the reconciliation cron synchronizes every family again. Only the ticket
+ * consumption type has a ledger
+ * @param where condition of the families to be synchronized
+ */
+export const syncFamiliesLedger = async (where: WhereOptions) => {
+  if (process.env.CONSUMPTION_TYPE !== 'ticket') return;
+  try {
+    const families = await db.families.findAll({ where });
+    for (const family of families) {
+      try {
+        await syncFamilyLedger(family);
+      } catch (error) {
+        logging.error(`Failed to synchronize the ledger of the family ${family.id}`, error);
+      }
+    }
+  } catch (error) {
+    logging.error('Failed to synchronize the families ledger', error);
+  }
+};
+
+/**
+ * Get the family balance, the sum of its entries
+ * @param familyId family unique ID
+ * @param date optional date of the balance, only the entries until it are summed
+ * @param inclusive should the entries of the date be summed? the entries before it are summed otherwise
+ * @returns balance
+ */
+export const getBalance = async (
+  familyId: NonNullable<Family['id']>,
+  date?: Date,
+  inclusive = true
+): Promise<number> => {
+  const where: WhereOptions = date
+    ? { familyId, date: { [inclusive ? Sequelize.Op.lte : Sequelize.Op.lt]: date } }
+    : { familyId };
+  const total = await db.ledgerEntries.sum('value', { where });
+  return roundValue(total || 0);
+};
+
+/**
+ * Get the current family balance
+ *
+ * The ledger isn't changed, the entries are recorded by the changes and by the reconciliation cron
+ * @param family the family
+ * @returns balance
+ */
+export const getFamilyLedgerBalance = (family: Family): Promise<number> => getBalance(family.id as number);
+
+/**
+ * Get the family balance on the end of a day
+ * @param family the family
+ * @param date day of the balance
+ * @returns balance
+ */
+export const getFamilyBalanceAt = async (family: Family, date: moment.MomentInput): Promise<number> => {
+  checkDates(date);
+  return getBalance(family.id as number, moment(date).endOf('day').toDate());
+};
+
+/**
+ * Build the statement lines, sorted by date with the running balance
+ *
+ * The deactivations don't change the balance, but they are shown to explain why the benefits stopped
+ * @param entries ledger entries of the period
+ * @param openingBalance balance before the period
+ * @param family the family
+ * @param dependents dependents of the family, with the removed ones
+ * @param from optional start of the period
+ * @param to optional end of the period
+ * @returns list of lines
+ */
+export const buildStatementLines = (
+  entries: LedgerEntry[],
+  openingBalance: number,
+  family: Family,
+  dependents: Dependent[],
+  from?: Date,
+  to?: Date
+): StatementLine[] => {
+  /**
+   * Check if the date is on the statement period
+   * @param date date of the event
+   * @returns true when it's on the period
+   */
+  const inPeriod = (date: Date) => (!from || !moment(date).isBefore(from)) && (!to || !moment(date).isAfter(to));
+  const dependentNames = dependents.reduce(
+    (names, dependent) => ({ ...names, [dependent.id as number]: dependent.name }),
+    {} as { [id: number]: string }
+  );
+
+  const deactivations: Omit<StatementLine, 'balance'>[] = [
+    ...dependents
+      .filter((dependent) => dependent.deactivatedAt && inPeriod(dependent.deactivatedAt as Date))
+      .map((dependent) => ({
+        date: dependent.deactivatedAt as Date,
+        type: 'deactivation' as const,
+        value: 0,
+        dependentId: dependent.id,
+        dependentName: dependent.name
+      })),
+    ...(family.deactivatedAt && inPeriod(family.deactivatedAt as Date)
+      ? [{ date: family.deactivatedAt as Date, type: 'deactivation' as const, value: 0 }]
+      : [])
+  ];
+
+  const lines = [
+    ...entries.map((entry) => ({
+      date: entry.date,
+      type: entry.type,
+      value: entry.value,
+      description: entry.description,
+      dependentId: entry.dependentId,
+      dependentName: entry.dependentId ? dependentNames[entry.dependentId as number] : undefined,
+      consumptionId: entry.consumptionId
+    })),
+    ...deactivations
+  ].sort((a, b) => moment(a.date).diff(b.date));
+
+  let balance = openingBalance;
+  return lines.map((line) => {
+    balance = roundValue(balance + line.value);
+    return { ...line, balance };
+  });
+};
+
+/**
+ * Get the statement of the family on a period, with the balance before and after it
+ * @param family the family
+ * @param from optional start of the period, the statement starts on the first entry without it
+ * @param to optional end of the period, the statement ends today without it
+ * @returns statement
+ */
+export const getStatement = async (
+  family: Family,
+  from?: moment.MomentInput,
+  to?: moment.MomentInput
+): Promise<FamilyStatement> => {
+  checkDates(from, to);
+
+  const start = from ? moment(from).startOf('day').toDate() : undefined;
+  const end = to ? moment(to).endOf('day').toDate() : undefined;
+  const dateFilter = [
+    ...(start ? [{ date: { [Sequelize.Op.gte]: start } }] : []),
+    ...(end ? [{ date: { [Sequelize.Op.lte]: end } }] : [])
+  ];
+  const entries = await db.ledgerEntries.findAll({
+    where: { [Sequelize.Op.and]: [{ familyId: family.id as number }, ...dateFilter] },
+    order: [
+      ['date', 'ASC'],
+      ['id', 'ASC']
+    ]
+  });
+  const dependents = await db.dependents.findAll({ where: { familyId: family.id as number } });
+  const openingBalance = start ? await getBalance(family.id as number, start, false) : 0;
+
+  const lines = buildStatementLines(entries, openingBalance, family, dependents, start, end);
+  return {
+    familyId: family.id as number,
+    from: start,
+    to: end,
+    openingBalance,
+    credits: roundValue(entries.reduce((sum, entry) => (entry.value > 0 ? sum + entry.value : sum), 0)),
+    debits: roundValue(entries.reduce((sum, entry) => (entry.value < 0 ? sum + entry.value : sum), 0)),
+    closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+    lines
+  };
+};
+
+/**
+ * Check if the ledger balance is the same as the legacy computation
+ * @param ledgerBalance balance from the ledger
+ * @param legacyBalance balance computed from the benefits and consumptions
+ * @returns true when the balances agree
+ */
+export const isBalanceReconciled = (ledgerBalance: number, legacyBalance: number) =>
+  Math.abs(ledgerBalance - legacyBalance) < BALANCE_TOLERANCE;
+
+/**
+ * Store the result of the reconciliation of a family, only the families that disagree are kept
+ * @param familyId family unique ID
+ * @param ledgerBalance balance from the ledger
+ * @param legacyBalance balance computed from the benefits and consumptions
+ * @returns true when the balances agree
+ */
+export const saveReconciliation = async (
+  familyId: NonNullable<Family['id']>,
+  ledgerBalance: number,
+  legacyBalance: number
+) => {
+  if (isBalanceReconciled(ledgerBalance, legacyBalance)) {
+    await db.ledgerMismatches.destroy({ where: { familyId } });
+    return true;
+  }
+  await db.ledgerMismatches.upsert({
+    familyId,
+    ledgerBalance,
+    legacyBalance,
+    difference: roundValue(ledgerBalance - legacyBalance),
+    checkedAt: new Date()
+  });
+  return false;
+};
+
+/**
+ * Get the families of the city where the ledger and the legacy computation disagree
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getMismatches = (cityId: NonNullable<City['id']>): Promise<SequelizeLedgerMismatch[]> => {
+  return db.ledgerMismatches.findAll({
+    where: cityScope('ledgerMismatches', cityId),
+    include: [{ model: db.families, as: 'family', attributes: ['id', 'code', 'responsibleName', 'responsibleNis'] }],
+    order: [[Sequelize.fn('abs', Sequelize.col('difference')), 'DESC']]
+  });
+};
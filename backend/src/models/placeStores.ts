@@ -1,7 +1,25 @@
 import db from '../schemas';
+import { cityScope } from '../utils/tenancy';
 import { PlaceStore, SequelizePlaceStore } from '../schemas/placeStores';
 import { City } from '../schemas/cities';
 import { Place } from '../schemas/places';
+import { stockPolicyList } from '../utils/constraints';
+
+/**
+ * Check the stock settings of the store
+ * @param values object with the item data
+ */
+const checkStockValues = (values: Partial<PlaceStore>) => {
+  if (values.stockPolicy !== undefined && stockPolicyList.indexOf(values.stockPolicy) < 0) {
+    throw { status: 412, message: 'Política de estoque inválida' };
+  }
+  const minimumStock = values.minimumStock;
+  if (minimumStock !== undefined && minimumStock !== null) {
+    if (!Number.isInteger(Number(minimumStock)) || Number(minimumStock) < 0) {
+      throw { status: 412, message: 'Estoque mínimo inválido' };
+    }
+  }
+};
 
 /**
  * Get all items on the table without any filter
@@ -33,9 +51,7 @@ export const getById = async (
   id: NonNullable<PlaceStore['id']>,
   cityId: NonNullable<City['id']>
 ): Promise<SequelizePlaceStore | null> => {
-  const item = await db.placeStores.findByPk(id);
-  if (item?.cityId === cityId) return item;
-  return null;
+  return db.placeStores.findOne({ where: cityScope('placeStores', cityId, { id }) });
 };
 
 /**
@@ -48,6 +64,7 @@ export const create = (
   values: PlaceStore | SequelizePlaceStore,
   cityId: NonNullable<City['id']>
 ): Promise<SequelizePlaceStore> => {
+  checkStockValues(values);
   return db.placeStores.create({ ...values, cityId });
 };
 
@@ -64,10 +81,14 @@ export const updateById = async (
   cityId: NonNullable<City['id']>
 ): Promise<SequelizePlaceStore | null> => {
   // Check if item is on the city
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
+    checkStockValues(values);
     // The update return an array [count, item[]], so I'm destructuring to get the updated placeStore
-    const [, [item]] = await db.placeStores.update(values, { where: { id }, returning: true });
+    const [, [item]] = await db.placeStores.update(
+      { ...values, cityId: cityItem.cityId },
+      { where: { id }, returning: true }
+    );
     return item;
   }
   return null;
@@ -79,7 +100,7 @@ export const updateById = async (
  * @param cityId logged user city ID
  */
 export const deleteById = async (id: NonNullable<PlaceStore['id']>, cityId: NonNullable<City['id']>): Promise<void> => {
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     await db.placeStores.destroy({ where: { id } });
   }
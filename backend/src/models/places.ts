@@ -1,4 +1,5 @@
 import db from '../schemas';
+import { cityScope } from '../utils/tenancy';
 import { Place, SequelizePlace } from '../schemas/places';
 import { City } from '../schemas/cities';
 import { PlaceStore } from '../schemas/placeStores';
@@ -22,9 +23,7 @@ export const getById = async (
   id: NonNullable<Place['id']>,
   cityId: NonNullable<City['id']>
 ): Promise<SequelizePlace | null> => {
-  const item = await db.places.findByPk(id);
-  if (item?.cityId === cityId) return item;
-  return null;
+  return db.places.findOne({ where: cityScope('places', cityId, { id }) });
 };
 
 /**
@@ -64,10 +63,13 @@ export const updateById = async (
   cityId: NonNullable<City['id']>
 ): Promise<SequelizePlace | null> => {
   // Check if item is on the city
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     // The update return an array [count, item[]], so I'm destructuring to get the updated place
-    const [, [item]] = await db.places.update(values, { where: { id }, returning: true });
+    const [, [item]] = await db.places.update(
+      { ...values, cityId: cityItem.cityId },
+      { where: { id }, returning: true }
+    );
     return item;
   }
   return null;
@@ -79,7 +81,7 @@ export const updateById = async (
  * @param cityId logged user city ID
  */
 export const deleteById = async (id: NonNullable<Place['id']>, cityId: NonNullable<City['id']>): Promise<void> => {
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     await db.places.destroy({ where: { id } });
   }
@@ -0,0 +1,78 @@
+import { Op } from 'sequelize';
+import moment from 'moment';
+import db from '../schemas';
+import { ProductAlias, ProductAliasStatus, SequelizeProductAlias } from '../schemas/productAliases';
+import { User } from '../schemas/users';
+import { Product } from '../schemas/products';
+
+/**
+ * Get all aliases, optionally filtered by status
+ * @param status alias status, `pending` to get the review queue
+ * @returns Promise<List of items>
+ */
+export const getAll = (status?: ProductAliasStatus): Promise<SequelizeProductAlias[]> => {
+  return db.productAliases.findAll({
+    where: status ? { status } : {},
+    include: [{ model: db.products, as: 'product' }],
+    order: [
+      ['confidence', 'DESC'],
+      ['name', 'ASC']
+    ]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @returns Promise<Item>
+ */
+export const getById = (id: NonNullable<ProductAlias['id']>): Promise<SequelizeProductAlias | null> => {
+  return db.productAliases.findByPk(id, { include: [{ model: db.products, as: 'product' }] });
+};
+
+/**
+ * Review an alias waiting for approval
+ *
+ * On approval the name is used as the suggested product (or the one chosen by the user), on rejection
+ * the name becomes a new product, that must be validated as usual. Aliases are used to match receipts of
+ * every city, so only shared products can be chosen
+ * @param id alias unique ID
+ * @param approve approve the suggested product
+ * @param reviewedById logged user unique ID
+ * @param productId product chosen by the user instead of the suggested
+ * @returns Promise<Item>
+ */
+export const review = async (
+  id: NonNullable<ProductAlias['id']>,
+  approve: boolean,
+  reviewedById: User['id'],
+  productId?: Product['id']
+): Promise<SequelizeProductAlias | null> => {
+  const alias = await getById(id);
+  if (!alias) {
+    throw { status: 404, message: 'Associação não encontrada' };
+  }
+  if (alias.status !== 'pending') {
+    throw { status: 412, message: 'Associação já revisada' };
+  }
+
+  let newProductId = alias.productId;
+  if (approve && productId) {
+    const product = await db.products.findOne({ where: { id: productId, cityId: null } });
+    if (!product) throw { status: 404, message: 'Produto não encontrado' };
+    newProductId = product.id as number;
+  } else if (!approve) {
+    const product =
+      (await db.products.findOne({ where: { cityId: null, name: { [Op.iLike]: alias.originalName } } })) ||
+      (await db.products.create({ name: alias.originalName }));
+    newProductId = product.id as number;
+  }
+
+  await alias.update({
+    productId: newProductId,
+    status: approve ? 'approved' : 'rejected',
+    reviewedById,
+    reviewedAt: moment().toDate()
+  });
+  return getById(id);
+};
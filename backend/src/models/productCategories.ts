@@ -0,0 +1,165 @@
+import db, { sequelize } from '../schemas';
+import { ProductCategory, SequelizeProductCategory } from '../schemas/productCategories';
+import { Product } from '../schemas/products';
+import { Group } from '../schemas/groups';
+
+/**
+ * Get all items on the table with its group rules
+ * @returns Promise<List of items>
+ */
+export const getAll = (): Promise<SequelizeProductCategory[]> => {
+  return db.productCategories.findAll({
+    include: [{ model: db.productCategoryRules, as: 'rules' }],
+    order: [['name', 'ASC']]
+  });
+};
+
+/**
+ * Get a single item using the unique ID
+ * @param id unique ID of the desired item
+ * @returns Promise<Item>
+ */
+export const getById = (id: NonNullable<ProductCategory['id']>): Promise<SequelizeProductCategory | null> => {
+  return db.productCategories.findByPk(id, { include: [{ model: db.productCategoryRules, as: 'rules' }] });
+};
+
+/**
+ * Check if the parent category is valid, it must exist and can't be the category or one of its children
+ * @param id unique ID of the category being saved, undefined when creating
+ * @param parentId unique ID of the parent category
+ */
+const checkParent = async (
+  id: ProductCategory['id'] | undefined,
+  parentId: ProductCategory['parentId']
+): Promise<void> => {
+  if (!parentId) return;
+  const categories = await db.productCategories.findAll({ attributes: ['id', 'parentId'] });
+  let current = categories.find((category) => category.id?.toString() === parentId.toString());
+  if (!current) {
+    throw { status: 412, message: 'Categoria pai não encontrada' };
+  }
+  // Walk to the root, a loop would make the validity never resolve
+  while (current) {
+    if (id && current.id?.toString() === id.toString()) {
+      throw { status: 412, message: 'A categoria não pode estar dentro dela mesma' };
+    }
+    const parent: ProductCategory['parentId'] = current.parentId;
+    current = parent ? categories.find((category) => category.id?.toString() === parent.toString()) : undefined;
+  }
+};
+
+/**
+ * Function to create a new row on the table with the group rules
+ * @param values object with the new item data
+ * @returns Promise<Item>
+ */
+export const create = async (values: ProductCategory): Promise<SequelizeProductCategory | null> => {
+  await checkParent(undefined, values.parentId);
+  const id = await sequelize.transaction(async (transaction) => {
+    const category = await db.productCategories.create(
+      { name: values.name, parentId: values.parentId || null, isValid: values.isValid ?? null },
+      { transaction }
+    );
+    await db.productCategoryRules.bulkCreate(
+      (values.rules || []).map(({ groupId, isValid }) => ({ categoryId: category.id, groupId, isValid })),
+      { transaction }
+    );
+    return category.id as number;
+  });
+  return getById(id);
+};
+
+/**
+ * Function to update a row on the table by the unique ID, replacing the group rules
+ * @param id unique ID of the desired item
+ * @param values object with the new data
+ * @returns Promise<Item>
+ */
+export const updateById = async (
+  id: NonNullable<ProductCategory['id']>,
+  values: ProductCategory
+): Promise<SequelizeProductCategory | null> => {
+  await checkParent(id, values.parentId);
+  await sequelize.transaction(async (transaction) => {
+    await db.productCategories.update(
+      { name: values.name, parentId: values.parentId || null, isValid: values.isValid ?? null },
+      { where: { id }, transaction }
+    );
+    if (values.rules) {
+      await db.productCategoryRules.destroy({ where: { categoryId: id }, transaction });
+      await db.productCategoryRules.bulkCreate(
+        values.rules.map(({ groupId, isValid }) => ({ categoryId: id, groupId, isValid })),
+        { transaction }
+      );
+    }
+  });
+  return getById(id);
+};
+
+/**
+ * Function to delete a row on the table by the unique ID
+ *
+ * Only empty categories can be deleted, without products or other categories inside it
+ * @param id unique ID of the desired item
+ */
+export const deleteById = async (id: NonNullable<ProductCategory['id']>): Promise<void> => {
+  const children = await db.productCategories.count({ where: { parentId: id } });
+  const products = await db.products.count({ where: { categoryId: id } });
+  const overrides = await db.productCityOverrides.count({ where: { categoryId: id } });
+  if (children > 0 || products > 0 || overrides > 0) {
+    throw { status: 412, message: 'A categoria possui produtos ou outras categorias' };
+  }
+  await db.productCategories.destroy({ where: { id } });
+};
+
+/**
+ * Find the validity of a category for a group
+ *
+ * The rule of the group is checked first, then the category validity. When neither is set, the parent
+ * category is checked, until the root of the tree
+ * @param categories list of all categories with the group rules
+ * @param categoryId unique ID of the category
+ * @param groupId unique ID of the family group
+ * @returns category validity, null when it's not defined
+ */
+export const getCategoryValidity = (
+  categories: ProductCategory[],
+  categoryId: NonNullable<ProductCategory['id']>,
+  groupId?: Group['id'] | null
+): boolean | null => {
+  const visited: string[] = [];
+  let currentId: ProductCategory['parentId'] = categoryId;
+  while (currentId && visited.indexOf(currentId.toString()) < 0) {
+    const id: string = currentId.toString();
+    visited.push(id);
+    const category: ProductCategory | undefined = categories.find((item) => item.id?.toString() === id);
+    if (!category) return null;
+
+    const rule = groupId
+      ? (category.rules || []).find((item) => item.groupId.toString() === groupId.toString())
+      : undefined;
+    if (rule) return rule.isValid;
+    if (category.isValid === true || category.isValid === false) return category.isValid;
+
+    currentId = category.parentId;
+  }
+  return null;
+};
+
+/**
+ * Find the validity of a product for a group, using its category or the manual validity
+ * @param product product to be checked
+ * @param categories list of all categories with the group rules
+ * @param groupId unique ID of the family group
+ * @returns product validity, null when it's not defined
+ */
+export const getProductValidity = (
+  product: Pick<Product, 'isValid' | 'categoryId'>,
+  categories: ProductCategory[],
+  groupId?: Group['id'] | null
+): boolean | null => {
+  if (product.categoryId) {
+    return getCategoryValidity(categories, product.categoryId, groupId);
+  }
+  return product.isValid ?? null;
+};
@@ -1,59 +1,348 @@
-import db from '../schemas';
+import { Op, Transaction, literal } from 'sequelize';
+import db, { sequelize } from '../schemas';
 import { Product, SequelizeProduct } from '../schemas/products';
+import { SequelizeProductAlias } from '../schemas/productAliases';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { cityScope, editableScope, parseCityId } from '../utils/tenancy';
+import { getProductNameSimilarity, normalizeProductName, NormalizedProductName } from '../utils/productNormalization';
+
+export type ProductMatch = {
+  // Matched product, null when the match is waiting for the review
+  product: SequelizeProduct | null;
+  confidence: number;
+  alias?: SequelizeProductAlias;
+};
+
+/**
+ * Min confidence to use an existing product without review
+ */
+export const autoMatchConfidence = 0.9;
 
 /**
- * Get all items on the table without any filter
+ * Min confidence to suggest an existing product, below it a new product is created
+ */
+export const reviewMatchConfidence = 0.6;
+
+// Shared catalogue with the normalized names and the products of each word, loaded incrementally by the ID,
+// avoiding loading and normalizing the whole catalogue on every receipt line
+const catalogueCache = {
+  lastId: 0,
+  names: {} as { [id: string]: NormalizedProductName },
+  tokens: {} as { [token: string]: Set<string> }
+};
+
+/**
+ * Clear the shared catalogue cache, it will be loaded again on the next match
+ */
+export const clearCatalogueCache = () => {
+  catalogueCache.lastId = 0;
+  catalogueCache.names = {};
+  catalogueCache.tokens = {};
+};
+
+/**
+ * Replace the validity and category of the shared products by the values chosen by the city
+ * @param products list of products, changed in place
+ * @param cityId city unique ID
+ * @returns Promise<Same list of products>
+ */
+export const applyCityOverrides = async (
+  products: SequelizeProduct[],
+  cityId: City['id'] | null | undefined
+): Promise<SequelizeProduct[]> => {
+  const sharedIds = products.filter((product) => !product.cityId).map((product) => product.id as number);
+  if (!cityId || sharedIds.length === 0) return products;
+  const overrides = await db.productCityOverrides.findAll({ where: { cityId, productId: sharedIds } });
+  for (const override of overrides) {
+    products
+      .filter((product) => product.id?.toString() === override.productId.toString())
+      .forEach((product) => {
+        product.setDataValue('isValid', override.isValid ?? null);
+        product.setDataValue('categoryId', override.categoryId || null);
+      });
+  }
+  return products;
+};
+
+/**
+ * Save the validity or category chosen by the city for shared products
+ *
+ * The override starts with the shared values, so only the changed value differs from them
+ * @param products list of shared products
+ * @param values validity or category chosen by the city
+ * @param cityId city unique ID
+ * @param transaction optional database transaction
+ */
+const saveCityOverrides = async (
+  products: SequelizeProduct[],
+  values: Pick<Product, 'isValid'> | Pick<Product, 'categoryId'>,
+  cityId: NonNullable<City['id']>,
+  transaction?: Transaction
+): Promise<void> => {
+  for (const product of products) {
+    const [override] = await db.productCityOverrides.findOrCreate({
+      where: { productId: product.id as number, cityId },
+      defaults: { isValid: product.isValid ?? null, categoryId: product.categoryId || null },
+      transaction
+    });
+    await override.update(values, { transaction });
+  }
+};
+
+/**
+ * Check if the user changes the product itself, instead of saving an override for the city
+ *
+ * Only the super admin changes the shared products, the product must be visible to the user city
+ * @param product product visible to the user city
+ * @param user logged user
+ * @returns true when the product is changed directly
+ */
+const isEditable = (product: SequelizeProduct, user: Pick<User, 'role'>) =>
+  user.role === 'superadmin' || !!product.cityId;
+
+/**
+ * Get all items of the city, with the shared ones
+ * @param cityId logged user city ID
  * @returns Promise<List of items>
  */
-export const getAll = (): Promise<SequelizeProduct[]> => {
-  return db.products.findAll({ order: [['name', 'ASC']] });
+export const getAll = async (cityId: NonNullable<City['id']>): Promise<SequelizeProduct[]> => {
+  const products = await db.products.findAll({ where: cityScope('products', cityId), order: [['name', 'ASC']] });
+  return applyCityOverrides(products, cityId);
 };
 
 /**
- * Get all items on the table with isValid unset
+ * Get all items of the city with isValid unset and without category, using the values chosen by the city
+ * @param cityId logged user city ID
  * @returns Promise<List of items>
  */
-export const getAllUnset = (): Promise<SequelizeProduct[]> => {
-  return db.products.findAll({ where: { isValid: null }, order: [['name', 'ASC']] });
+export const getAllUnset = async (cityId: NonNullable<City['id']>): Promise<SequelizeProduct[]> => {
+  const overriddenIds = literal(
+    `(SELECT "productId" FROM "ProductCityOverrides" WHERE "cityId" = ${parseCityId(cityId)})`
+  );
+  const products = await db.products.findAll({
+    where: cityScope('products', cityId, {
+      [Op.or]: [{ isValid: null, categoryId: null }, { id: { [Op.in]: overriddenIds } }]
+    }),
+    order: [['name', 'ASC']]
+  });
+  await applyCityOverrides(products, cityId);
+  return products.filter((product) => (product.isValid ?? null) === null && !product.categoryId);
 };
 
 /**
  * Get a single item using the unique ID
  * @param id unique ID of the desired item
+ * @param cityId logged user city ID
  * @returns Promise<Item>
  */
-export const getById = (id: string | number): Promise<SequelizeProduct> => {
-  return db.products.findByPk(id);
+export const getById = async (
+  id: string | number,
+  cityId: NonNullable<City['id']>
+): Promise<SequelizeProduct | null> => {
+  const product = await db.products.findOne({ where: cityScope('products', cityId, { id }) });
+  if (product) await applyCityOverrides([product], cityId);
+  return product;
 };
 
 /**
  * Function to create a new row on the table
+ *
+ * Products created by the scraping have no city, they are shared by every city
  * @param values object with the new item data
+ * @param cityId logged user city ID, null for shared products
  * @returns Promise<Item>
  */
-export const create = (values: Product | SequelizeProduct): Promise<SequelizeProduct> => {
-  return db.products.create(values);
+export const create = (
+  values: Product | SequelizeProduct,
+  cityId: City['id'] | null = null
+): Promise<SequelizeProduct> => {
+  return db.products.create({ ...values, cityId });
 };
 
 /**
  * Function to update a row on the table by the unique ID
+ *
+ * The validity of a shared product changed by a user of a city is saved only for the city
  * @param id unique ID of the desired item
  * @param values object with the new data
+ * @param user logged user
  * @returns Promise<Item>
  */
 export const updateById = async (
   id: string | number,
-  values: Partial<Product> | SequelizeProduct
-): Promise<SequelizeProduct> => {
+  values: Pick<Product, 'isValid'>,
+  user: User
+): Promise<SequelizeProduct | null> => {
+  const product = await db.products.findOne({ where: cityScope('products', user.cityId, { id }) });
+  if (!product) return null;
+
+  if (!isEditable(product, user)) {
+    await saveCityOverrides([product], { isValid: values.isValid }, user.cityId as NonNullable<City['id']>);
+    return getById(id, user.cityId as NonNullable<City['id']>);
+  }
+
   // The update return an array [count, item[]], so I'm destructuring to get the updated product
-  const [, [item]] = await db.products.update(values, { where: { id }, returning: true });
-  return item;
+  const [, [item]] = await db.products.update(
+    { isValid: values.isValid },
+    { where: editableScope('products', user, { id }), returning: true }
+  );
+  if (item && !item.cityId) clearCatalogueCache();
+  return item || null;
+};
+
+/**
+ * Move a list of products to a category, their validity will follow the category rules
+ *
+ * The shared products are moved only for the user city, unless the user is the super admin
+ * @param ids list of products unique IDs
+ * @param categoryId unique ID of the category
+ * @param user logged user
+ * @returns Promise<List of updated items>
+ */
+export const assignCategory = async (
+  ids: NonNullable<Product['id']>[],
+  categoryId: NonNullable<Product['categoryId']>,
+  user: User
+): Promise<SequelizeProduct[]> => {
+  const category = await db.productCategories.findByPk(categoryId);
+  if (!category) {
+    throw { status: 404, message: 'Categoria não encontrada' };
+  }
+  const cityId = user.cityId as NonNullable<City['id']>;
+  const products = await db.products.findAll({ where: cityScope('products', cityId, { id: ids }) });
+  const editableIds = products.filter((product) => isEditable(product, user)).map((product) => product.id as number);
+  const sharedProducts = products.filter((product) => !isEditable(product, user));
+
+  await sequelize.transaction(async (transaction) => {
+    if (editableIds.length > 0) {
+      await db.products.update(
+        { categoryId },
+        { where: editableScope('products', user, { id: editableIds }), transaction }
+      );
+    }
+    await saveCityOverrides(sharedProducts, { categoryId }, cityId, transaction);
+  });
+
+  const items = await db.products.findAll({ where: cityScope('products', cityId, { id: ids }) });
+  return applyCityOverrides(items, cityId);
 };
 
 /**
  * Function to delete a row on the table by the unique ID
  * @param id unique ID of the desired item
+ * @param user logged user
+ */
+export const deleteById = async (id: string | number, user: User): Promise<void> => {
+  await db.products.destroy({ where: editableScope('products', user, { id }) });
+  clearCatalogueCache();
+};
+
+/**
+ * Remove a product from the shared catalogue cache
+ * @param id unique ID of the product
+ */
+const removeFromCatalogueCache = (id: string) => {
+  const normalizedName = catalogueCache.names[id];
+  if (!normalizedName) return;
+  normalizedName.tokens.forEach((token) => catalogueCache.tokens[token]?.delete(id));
+  delete catalogueCache.names[id];
+};
+
+/**
+ * Load the shared products created after the last load to the catalogue cache
+ */
+const loadCatalogueCache = async () => {
+  const products = await db.products.findAll({
+    where: { cityId: null, id: { [Op.gt]: catalogueCache.lastId } },
+    attributes: ['id', 'name'],
+    order: [['id', 'ASC']]
+  });
+  for (const product of products) {
+    const id = String(product.id);
+    const normalizedName = normalizeProductName(product.name);
+    catalogueCache.names[id] = normalizedName;
+    normalizedName.tokens.forEach((token) => {
+      if (!catalogueCache.tokens[token]) catalogueCache.tokens[token] = new Set();
+      catalogueCache.tokens[token].add(id);
+    });
+    catalogueCache.lastId = Math.max(catalogueCache.lastId, Number(product.id));
+  }
+};
+
+/**
+ * Find the most similar product on the shared catalogue
+ *
+ * Only the products with a word in common are compared, a name without any common word
+ * is never similar enough to be suggested
+ * @param normalizedName normalized name to be compared
+ * @returns product with the confidence or null when there's no candidate
+ */
+export const findMostSimilar = async (
+  normalizedName: NormalizedProductName
+): Promise<{ product: SequelizeProduct; confidence: number } | null> => {
+  await loadCatalogueCache();
+  const candidateIds = new Set<string>();
+  normalizedName.tokens.forEach((token) => catalogueCache.tokens[token]?.forEach((id) => candidateIds.add(id)));
+
+  let best: { id: string; confidence: number } | null = null;
+  for (const id of Array.from(candidateIds)) {
+    const confidence = getProductNameSimilarity(normalizedName, catalogueCache.names[id]);
+    if (!best || confidence > best.confidence) best = { id, confidence };
+  }
+  if (!best) return null;
+
+  // The whole product is loaded, so its category is used on the validity check
+  const product = await db.products.findOne({ where: { id: best.id, cityId: null } });
+  if (!product) {
+    // Removed or changed by another process, search again without it
+    removeFromCatalogueCache(best.id);
+    return findMostSimilar(normalizedName);
+  }
+  return { product, confidence: best.confidence };
+};
+
+/**
+ * Find the product of a name found on a receipt, creating it if needed
+ *
+ * The exact name is checked first, then the aliases of the normalized name and at last the most similar
+ * product on the catalogue. A similar product with a low confidence is stored as a pending alias,
+ * to be approved or rejected by a user. Receipts are matched only with the shared catalogue, the products
+ * created by a city are never used for another one
+ * @param name product name found on the receipt
+ * @returns matched product and the confidence
  */
-export const deleteById = (id: string | number): void => {
-  db.products.destroy({ where: { id } });
+export const matchProductByName = async (name: string): Promise<ProductMatch> => {
+  const existingProduct = await db.products.findOne({ where: { cityId: null, name: { [Op.iLike]: name } } });
+  if (existingProduct) return { product: existingProduct, confidence: 1 };
+
+  const normalizedName = normalizeProductName(name);
+  const existingAlias = await db.productAliases.findOne({
+    where: { name: normalizedName.normalized },
+    include: [{ model: db.products, as: 'product' }]
+  });
+  if (existingAlias) {
+    return {
+      product: existingAlias.status === 'pending' ? null : (existingAlias.get('product') as SequelizeProduct),
+      confidence: existingAlias.confidence,
+      alias: existingAlias
+    };
+  }
+
+  const similar = await findMostSimilar(normalizedName);
+  if (!similar || similar.confidence < reviewMatchConfidence || !normalizedName.normalized) {
+    return { product: await create({ name }), confidence: 1 };
+  }
+
+  const isAuto = similar.confidence >= autoMatchConfidence;
+  const [alias] = await db.productAliases.findOrCreate({
+    where: { name: normalizedName.normalized },
+    defaults: {
+      originalName: name,
+      productId: similar.product.id,
+      confidence: similar.confidence,
+      status: isAuto ? 'auto' : 'pending'
+    }
+  });
+  return { product: alias.status === 'pending' ? null : similar.product, confidence: alias.confidence, alias };
 };
@@ -0,0 +1,204 @@
+import moment from 'moment';
+import { City } from '../schemas/cities';
+import { getRateLimitStore } from '../utils/rateLimitStore';
+
+// ip: every request on the public routes, nis: logins on the same NIS, consumption: consumptions of the same family
+export type RateLimitRuleName = 'ip' | 'nis' | 'consumption';
+
+export type RateLimitRule = {
+  max: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  count: number;
+  max: number;
+  // Time until the window is reset, in milliseconds
+  resetIn: number;
+};
+
+// Blocks are applied to the IP of the request or to a NIS of a city
+export type BlockType = 'ip' | 'nis';
+
+export type BlockRule = {
+  maxFailures: number;
+  windowMinutes: number;
+  lockMinutes: number;
+};
+
+export type PublicBlock = {
+  type: BlockType;
+  // IP or NIS
+  value: string;
+  blocked: boolean;
+  failures: number;
+  reason?: string;
+  blockedAt?: string;
+  expiresAt?: Date;
+};
+
+type StoredBlock = Pick<PublicBlock, 'reason' | 'failures' | 'blockedAt'>;
+
+/**
+ * Requests accepted on each window, configured on the environment
+ */
+export const rateLimitRules: { [rule in RateLimitRuleName]: RateLimitRule } = {
+  ip: { max: Number(process.env.PUBLIC_RATE_LIMIT_IP) || 120, windowSeconds: 60 },
+  nis: { max: Number(process.env.PUBLIC_RATE_LIMIT_NIS) || 10, windowSeconds: 15 * 60 },
+  consumption: { max: Number(process.env.PUBLIC_RATE_LIMIT_CONSUMPTION) || 10, windowSeconds: 60 * 60 }
+};
+
+/**
+ * Failures accepted before the IP or NIS is blocked, configured on the environment
+ *
+ * The NIS is blocked after wrong birthdays, the IP after wrong NIS or birthdays on any family
+ */
+export const blockRules: { [type in BlockType]: BlockRule } = {
+  nis: {
+    maxFailures: Number(process.env.PUBLIC_BIRTHDAY_MAX_FAILURES) || 5,
+    windowMinutes: 60,
+    lockMinutes: Number(process.env.PUBLIC_BIRTHDAY_LOCK_MINUTES) || 30
+  },
+  ip: {
+    maxFailures: Number(process.env.PUBLIC_IP_MAX_FAILURES) || 20,
+    windowMinutes: 60,
+    lockMinutes: Number(process.env.PUBLIC_IP_LOCK_MINUTES) || 60
+  }
+};
+
+/**
+ * Identifier of a NIS on the store, the same NIS can exist on different cities
+ * @param cityId city of the family
+ * @param nis NIS of the family responsible
+ * @returns identifier
+ */
+export const getNisId = (cityId: NonNullable<City['id']>, nis: string) => `${cityId}:${nis}`;
+
+/**
+ * Count a request on the rule window
+ * @param rule rule name
+ * @param id identifier of the client, like the IP
+ * @returns if the request is allowed and the window state
+ */
+export const hit = async (rule: RateLimitRuleName, id: string): Promise<RateLimitResult> => {
+  const store = getRateLimitStore();
+  const { max, windowSeconds } = rateLimitRules[rule];
+  const key = `rate:${rule}:${id}`;
+  const count = await store.incr(key);
+  let resetIn = await store.pttl(key);
+  // The first request starts the window, the expiration is also set if it was lost
+  if (count === 1 || resetIn < 0) {
+    resetIn = windowSeconds * 1000;
+    await store.pexpire(key, resetIn);
+  }
+  return { allowed: count <= max, count, max, resetIn };
+};
+
+/**
+ * Get the block of an IP or NIS
+ * @param type block type
+ * @param id IP or NIS identifier
+ * @returns block, null when it's not blocked
+ */
+export const getBlock = async (type: BlockType, id: string): Promise<PublicBlock | null> => {
+  const store = getRateLimitStore();
+  const key = `block:${type}:${id}`;
+  const value = await store.get(key);
+  if (!value) return null;
+  const ttl = await store.pttl(key);
+  return {
+    ...(JSON.parse(value) as StoredBlock),
+    type,
+    value: id,
+    blocked: true,
+    expiresAt: ttl > 0 ? moment().add(ttl, 'milliseconds').toDate() : undefined
+  };
+};
+
+/**
+ * Count a failure of the IP or NIS, blocking it when the limit is reached
+ * @param type block type
+ * @param id IP or NIS identifier
+ * @param reason reason of the failure, stored on the block
+ * @returns true when it was blocked
+ */
+export const registerFailure = async (type: BlockType, id: string, reason: string) => {
+  const store = getRateLimitStore();
+  const { maxFailures, windowMinutes, lockMinutes } = blockRules[type];
+  const key = `fail:${type}:${id}`;
+  const failures = await store.incr(key);
+  if (failures === 1) await store.pexpire(key, windowMinutes * 60 * 1000);
+  if (failures < maxFailures) return false;
+
+  const block: StoredBlock = { reason, failures, blockedAt: moment().toISOString() };
+  await store.set(`block:${type}:${id}`, JSON.stringify(block), 'PX', lockMinutes * 60 * 1000);
+  await store.del(key);
+  return true;
+};
+
+/**
+ * Reset the failures of the IP or NIS, used after a successful attempt
+ * @param type block type
+ * @param id IP or NIS identifier
+ */
+export const clearFailures = async (type: BlockType, id: string) => {
+  await getRateLimitStore().del(`fail:${type}:${id}`);
+};
+
+/**
+ * Remove the block and the failures of the IP or NIS
+ * @param type block type
+ * @param id IP or NIS identifier
+ * @returns true when there was something to remove
+ */
+export const unblock = async (type: BlockType, id: string) => {
+  const count = await getRateLimitStore().del(`block:${type}:${id}`, `fail:${type}:${id}`);
+  return count > 0;
+};
+
+/**
+ * Get the blocked and suspicious (with failures, but not blocked yet) IPs and NIS
+ *
+ * The NIS are filtered by the city, the IPs are shared by all the cities
+ * @param cityId logged user city ID
+ * @returns list of blocks
+ */
+export const getAll = async (cityId: NonNullable<City['id']>): Promise<PublicBlock[]> => {
+  const store = getRateLimitStore();
+  const items: { [key: string]: PublicBlock } = {};
+
+  /**
+   * Read the type and value of a key, ignoring the NIS of other cities
+   * @param key store key
+   * @returns type and value, null when ignored
+   */
+  const parseKey = (key: string): Pick<PublicBlock, 'type' | 'value'> | null => {
+    const [, type, ...rest] = key.split(':');
+    const id = rest.join(':');
+    if (type === 'ip') return { type, value: id };
+    const prefix = getNisId(cityId, '');
+    if (type === 'nis' && id.startsWith(prefix)) return { type, value: id.slice(prefix.length) };
+    return null;
+  };
+
+  for (const key of await store.keys('block:*')) {
+    const parsed = parseKey(key);
+    if (!parsed) continue;
+    const block = await getBlock(parsed.type, key.slice(`block:${parsed.type}:`.length));
+    if (block) items[`${parsed.type}:${parsed.value}`] = { ...block, value: parsed.value };
+  }
+  for (const key of await store.keys('fail:*')) {
+    const parsed = parseKey(key);
+    if (!parsed || items[`${parsed.type}:${parsed.value}`]) continue;
+    const ttl = await store.pttl(key);
+    items[`${parsed.type}:${parsed.value}`] = {
+      ...parsed,
+      blocked: false,
+      failures: Number(await store.get(key)) || 0,
+      expiresAt: ttl > 0 ? moment().add(ttl, 'milliseconds').toDate() : undefined
+    };
+  }
+
+  return Object.values(items).sort((a, b) => Number(b.blocked) - Number(a.blocked) || b.failures - a.failures);
+};
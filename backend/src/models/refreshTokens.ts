@@ -0,0 +1,155 @@
+import { Op } from 'sequelize';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import db, { sequelize } from '../schemas';
+import { RefreshToken, SequelizeRefreshToken } from '../schemas/refreshTokens';
+import { User } from '../schemas/users';
+import { hashToken } from '../utils/crypt';
+import { getError } from '../utils/errorLibrary';
+
+export type SessionMetadata = {
+  userAgent?: string | null;
+  ip?: string | null;
+};
+
+// Session data returned to the client, without the token hash
+const sessionAttributes = ['id', 'userId', 'userAgent', 'ip', 'expiresAt', 'lastUsedAt', 'createdAt'];
+
+/**
+ * Get the expiration date of a signed refresh token
+ * @param refreshToken refresh JSON Web Token
+ * @returns expiration date
+ */
+const getExpiration = (refreshToken: string) => {
+  const payload = jwt.decode(refreshToken) as { exp?: number } | null;
+  if (!payload?.exp) throw getError('invalidCredentials');
+  return moment.unix(payload.exp).toDate();
+};
+
+/**
+ * Store a new session of the user with its refresh token
+ * @param userId logged user unique ID
+ * @param refreshToken refresh JSON Web Token, only its hash is stored
+ * @param metadata device data of the request
+ * @returns Promise<Item>
+ */
+export const create = (
+  userId: NonNullable<User['id']>,
+  refreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<SequelizeRefreshToken> => {
+  return db.refreshTokens.create({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    userAgent: metadata.userAgent || null,
+    ip: metadata.ip || null,
+    expiresAt: getExpiration(refreshToken),
+    lastUsedAt: moment().toDate()
+  });
+};
+
+/**
+ * Find the active session of a refresh token
+ * @param refreshToken refresh JSON Web Token
+ * @returns Promise<Item>, null when the token is unknown, revoked or expired
+ */
+export const getActiveByToken = async (refreshToken: string): Promise<SequelizeRefreshToken | null> => {
+  const [item] = await db.refreshTokens.findAll({
+    where: { tokenHash: hashToken(refreshToken), revokedAt: null, expiresAt: { [Op.gt]: moment().toDate() } },
+    limit: 1
+  });
+  return item || null;
+};
+
+/**
+ * Replace the refresh token of a session, the old token can't be used anymore
+ * @param refreshToken current refresh JSON Web Token
+ * @param newRefreshToken new refresh JSON Web Token
+ * @param metadata device data of the request
+ * @returns Promise<Item> with the new session
+ */
+export const rotate = async (
+  refreshToken: string,
+  newRefreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<SequelizeRefreshToken> => {
+  const current = await getActiveByToken(refreshToken);
+  if (!current) throw getError('invalidCredentials');
+
+  return sequelize.transaction(async (transaction) => {
+    const next = await db.refreshTokens.create(
+      {
+        userId: current.userId,
+        tokenHash: hashToken(newRefreshToken),
+        userAgent: metadata.userAgent || current.userAgent,
+        ip: metadata.ip || current.ip,
+        expiresAt: getExpiration(newRefreshToken),
+        lastUsedAt: moment().toDate()
+      },
+      { transaction }
+    );
+    // Only revoke if no other request rotated the token first
+    const [count] = await db.refreshTokens.update(
+      { revokedAt: moment().toDate(), replacedById: next.id },
+      { where: { id: current.id as number, revokedAt: null }, transaction }
+    );
+    if (count === 0) throw getError('invalidCredentials');
+    return next;
+  });
+};
+
+/**
+ * Revoke the session of a refresh token
+ * @param refreshToken refresh JSON Web Token
+ * @returns true when an active session was revoked
+ */
+export const revokeByToken = async (refreshToken: string): Promise<boolean> => {
+  const [count] = await db.refreshTokens.update(
+    { revokedAt: moment().toDate() },
+    { where: { tokenHash: hashToken(refreshToken), revokedAt: null } }
+  );
+  return count > 0;
+};
+
+/**
+ * Get the active sessions of the user, newest first
+ * @param userId user unique ID
+ * @returns Promise<List of items>
+ */
+export const getAllActiveByUser = (userId: NonNullable<User['id']>): Promise<SequelizeRefreshToken[]> => {
+  return db.refreshTokens.findAll({
+    attributes: sessionAttributes,
+    where: { userId, revokedAt: null, expiresAt: { [Op.gt]: moment().toDate() } },
+    order: [['lastUsedAt', 'DESC']]
+  });
+};
+
+/**
+ * Revoke a session of the user
+ * @param id unique ID of the session
+ * @param userId user unique ID
+ * @returns true when an active session was revoked
+ */
+export const revokeById = async (
+  id: NonNullable<RefreshToken['id']>,
+  userId: NonNullable<User['id']>
+): Promise<boolean> => {
+  const [count] = await db.refreshTokens.update(
+    { revokedAt: moment().toDate() },
+    { where: { id, userId, revokedAt: null } }
+  );
+  return count > 0;
+};
+
+/**
+ * Revoke all active sessions of the user
+ * @param userId user unique ID
+ * @returns number of revoked sessions
+ */
+export const revokeAllByUser = async (userId: NonNullable<User['id']>): Promise<number> => {
+  const [count] = await db.refreshTokens.update(
+    { revokedAt: moment().toDate() },
+    { where: { userId, revokedAt: null } }
+  );
+  return count;
+};
@@ -0,0 +1,327 @@
+import Sequelize, { Transaction, WhereOptions } from 'sequelize';
+import db, { sequelize } from '../schemas';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+import { PlaceStore } from '../schemas/placeStores';
+import { Product } from '../schemas/products';
+import { Consumption } from '../schemas/consumptions';
+import { StockMovement, SequelizeStockMovement } from '../schemas/stockMovements';
+import { StockMovementType } from '../utils/constraints';
+import { cityScope } from '../utils/tenancy';
+
+// Units of a product on a store
+export type StockItem = {
+  placeStoreId: number | string;
+  productId: number | string;
+  amount: number;
+  placeStore?: Pick<PlaceStore, 'id' | 'title' | 'minimumStock'>;
+  product?: Pick<Product, 'id' | 'name'>;
+  // The store has fewer units than its minimum
+  isLow: boolean;
+};
+
+// Product with fewer units on the store than requested
+export type StockShortage = {
+  productId: number | string;
+  requested: number;
+  available: number;
+};
+
+export type StockMovementFilters = Partial<Pick<StockMovement, 'placeStoreId' | 'productId' | 'type'>>;
+
+// Movements made by the users, the distributions are made by the consumptions
+export const manualMovementTypeList = ['receipt', 'transfer', 'loss'] as const;
+
+export type ManualMovementType = typeof manualMovementTypeList[number];
+
+export type ManualMovement = Pick<StockMovement, 'placeStoreId' | 'productId' | 'amount' | 'note'> & {
+  type: ManualMovementType;
+  // Store that receives the products of a transfer
+  relatedPlaceStoreId?: number | string | null;
+};
+
+/**
+ * Get the movements of the city stores, the newest first
+ * @param cityId logged user city ID
+ * @param filters optional store, product and type
+ * @returns Promise<List of items>
+ */
+export const getAll = (
+  cityId: NonNullable<City['id']>,
+  filters: StockMovementFilters = {}
+): Promise<SequelizeStockMovement[]> => {
+  const where: WhereOptions = {};
+  if (filters.placeStoreId) where.placeStoreId = filters.placeStoreId;
+  if (filters.productId) where.productId = filters.productId;
+  if (filters.type) where.type = filters.type;
+  return db.stockMovements.findAll({
+    where: cityScope('stockMovements', cityId, where),
+    include: [
+      { model: db.placeStores, as: 'placeStore', attributes: ['id', 'title'] },
+      { model: db.placeStores, as: 'relatedPlaceStore', attributes: ['id', 'title'] },
+      { model: db.products, as: 'product', attributes: ['id', 'name'] },
+      { model: db.users, as: 'createdBy', attributes: ['id', 'name', 'email'] }
+    ],
+    order: [['createdAt', 'DESC']]
+  });
+};
+
+/**
+ * Sum the movements of each product on each store
+ * @param where where clause of the movements
+ * @param transaction optional transaction
+ * @returns amounts by store and product
+ */
+const sumMovements = async (
+  where: WhereOptions,
+  transaction?: Transaction
+): Promise<Pick<StockItem, 'placeStoreId' | 'productId' | 'amount'>[]> => {
+  const rows = ((await db.stockMovements.findAll({
+    attributes: ['placeStoreId', 'productId', [Sequelize.fn('sum', Sequelize.col('amount')), 'amount']],
+    where,
+    group: ['placeStoreId', 'productId'],
+    raw: true,
+    transaction
+  })) as unknown) as { placeStoreId: number; productId: number; amount: string | number }[];
+  return rows.map((row) => ({ placeStoreId: row.placeStoreId, productId: row.productId, amount: Number(row.amount) }));
+};
+
+/**
+ * Get the current stock of the city stores
+ * @param cityId logged user city ID
+ * @param placeStoreId optional store unique ID
+ * @returns Promise<List of items>
+ */
+export const getCurrentStock = async (
+  cityId: NonNullable<City['id']>,
+  placeStoreId?: PlaceStore['id']
+): Promise<StockItem[]> => {
+  const amounts = await sumMovements(cityScope('stockMovements', cityId, placeStoreId ? { placeStoreId } : undefined));
+  if (amounts.length < 1) return [];
+  const placeStores = await db.placeStores.findAll({
+    where: cityScope('placeStores', cityId, { id: amounts.map((item) => item.placeStoreId as number) }),
+    attributes: ['id', 'title', 'minimumStock']
+  });
+  const products = await db.products.findAll({
+    where: { id: amounts.map((item) => item.productId as number) },
+    attributes: ['id', 'name']
+  });
+  return amounts
+    .map((item) => {
+      const placeStore = placeStores.find((store) => `${store.id}` === `${item.placeStoreId}`);
+      const minimumStock = placeStore?.minimumStock;
+      return {
+        ...item,
+        placeStore: placeStore?.toJSON() as StockItem['placeStore'],
+        product: products.find((product) => `${product.id}` === `${item.productId}`)?.toJSON() as StockItem['product'],
+        isLow: minimumStock !== null && minimumStock !== undefined && item.amount < minimumStock
+      };
+    })
+    .sort(
+      (a, b) =>
+        `${a.placeStore?.title}`.localeCompare(`${b.placeStore?.title}`) ||
+        `${a.product?.name}`.localeCompare(`${b.product?.name}`)
+    );
+};
+
+/**
+ * Get the products below the minimum stock of their stores
+ * @param cityId logged user city ID
+ * @returns Promise<List of items>
+ */
+export const getLowStock = async (cityId: NonNullable<City['id']>): Promise<StockItem[]> => {
+  const stock = await getCurrentStock(cityId);
+  return stock.filter((item) => item.isLow);
+};
+
+/**
+ * Compare the requested products with the stock of the store
+ * @param stock units of each product on the store
+ * @param requested requested products, the same product can be repeated
+ * @returns products without enough units
+ */
+export const getStockShortages = (
+  stock: Pick<StockItem, 'productId' | 'amount'>[],
+  requested: Pick<StockItem, 'productId' | 'amount'>[]
+): StockShortage[] => {
+  const shortages: StockShortage[] = [];
+  for (const item of requested) {
+    const shortage = shortages.find((current) => `${current.productId}` === `${item.productId}`);
+    if (shortage) {
+      shortage.requested += Number(item.amount);
+      continue;
+    }
+    const available = stock.find((current) => `${current.productId}` === `${item.productId}`)?.amount || 0;
+    shortages.push({ productId: item.productId, requested: Number(item.amount), available });
+  }
+  return shortages.filter((item) => item.requested > item.available);
+};
+
+/**
+ * Lock the store and check its stock, the movements of the store wait for the transaction
+ * @param placeStoreId store unique ID
+ * @param requested requested products
+ * @param transaction movement transaction
+ * @returns the store and the products without enough units
+ */
+const lockStoreStock = async (
+  placeStoreId: NonNullable<PlaceStore['id']>,
+  requested: Pick<StockItem, 'productId' | 'amount'>[],
+  transaction: Transaction
+) => {
+  const placeStore = await db.placeStores.findByPk(placeStoreId, { lock: transaction.LOCK.UPDATE, transaction });
+  if (!placeStore) throw { status: 412, message: 'Estabelecimento não encontrado' };
+  const stock = await sumMovements(
+    { placeStoreId, productId: requested.map((item) => item.productId as number) },
+    transaction
+  );
+  return { placeStore, shortages: getStockShortages(stock, requested) };
+};
+
+/**
+ * Create a receipt, a loss or a transfer between stores
+ * @param values movement data
+ * @param user logged user
+ * @returns Promise<List of created movements>
+ */
+export const createMovement = async (
+  values: Partial<ManualMovement>,
+  user: User
+): Promise<SequelizeStockMovement[]> => {
+  if (!values.type || manualMovementTypeList.indexOf(values.type) < 0) {
+    throw { status: 412, message: 'Tipo de movimentação inválido' };
+  }
+  const amount = Number(values.amount);
+  if (!Number.isInteger(amount) || amount <= 0) throw { status: 412, message: 'Quantidade inválida' };
+
+  const placeStore = await db.placeStores.findOne({
+    where: cityScope('placeStores', user.cityId, { id: values.placeStoreId as number })
+  });
+  if (!placeStore) throw { status: 412, message: 'Estabelecimento não encontrado' };
+  const product = await db.products.findOne({
+    where: cityScope('products', user.cityId, { id: values.productId as number })
+  });
+  if (!product) throw { status: 412, message: 'Produto não encontrado' };
+  const relatedPlaceStore =
+    values.type === 'transfer' && values.relatedPlaceStoreId
+      ? await db.placeStores.findOne({
+          where: cityScope('placeStores', user.cityId, { id: values.relatedPlaceStoreId as number })
+        })
+      : null;
+  if (values.type === 'transfer' && (!relatedPlaceStore || relatedPlaceStore.id === placeStore.id)) {
+    throw { status: 412, message: 'Estabelecimento de destino inválido' };
+  }
+
+  const base = {
+    productId: product.id as number,
+    note: values.note ? `${values.note}`.trim() : null,
+    createdById: user.id as number
+  };
+  return sequelize.transaction(async (transaction) => {
+    if (values.type === 'receipt') {
+      return [
+        await db.stockMovements.create(
+          { ...base, placeStoreId: placeStore.id, type: 'receipt', amount },
+          { transaction }
+        )
+      ];
+    }
+    const { shortages } = await lockStoreStock(
+      placeStore.id as number,
+      [{ productId: product.id as number, amount }],
+      transaction
+    );
+    if (shortages.length > 0) throw { status: 422, message: 'Estoque insuficiente no estabelecimento' };
+    if (values.type === 'loss') {
+      return [
+        await db.stockMovements.create(
+          { ...base, placeStoreId: placeStore.id, type: 'loss', amount: -amount },
+          { transaction }
+        )
+      ];
+    }
+    // Transfers are recorded as an exit on the origin and an entry on the destination
+    return db.stockMovements.bulkCreate(
+      [
+        {
+          ...base,
+          placeStoreId: placeStore.id,
+          relatedPlaceStoreId: relatedPlaceStore?.id,
+          type: 'transfer-out' as StockMovementType,
+          amount: -amount
+        },
+        {
+          ...base,
+          placeStoreId: relatedPlaceStore?.id,
+          relatedPlaceStoreId: placeStore.id,
+          type: 'transfer-in' as StockMovementType,
+          amount
+        }
+      ],
+      { transaction }
+    );
+  });
+};
+
+/**
+ * Check the store stock before a consumption, following the store policy
+ * @param placeStoreId store of the consumption
+ * @param requested consumed products
+ * @param transaction consumption transaction, the store stays locked until it finishes
+ * @returns products without enough units, when the store only warns about them
+ */
+export const checkConsumptionStock = async (
+  placeStoreId: NonNullable<PlaceStore['id']>,
+  requested: Pick<StockItem, 'productId' | 'amount'>[],
+  transaction: Transaction
+): Promise<StockShortage[]> => {
+  const { placeStore, shortages } = await lockStoreStock(placeStoreId, requested, transaction);
+  if (shortages.length > 0 && placeStore.stockPolicy === 'reject') {
+    throw { status: 422, message: 'Estoque insuficiente no estabelecimento' };
+  }
+  return shortages;
+};
+
+/**
+ * Record the products distributed to the family by a consumption
+ * @param consumption created consumption
+ * @param products consumed products
+ * @param transaction consumption transaction
+ */
+export const recordDistribution = async (
+  consumption: Consumption,
+  products: Pick<StockItem, 'productId' | 'amount'>[],
+  transaction: Transaction
+) => {
+  await db.stockMovements.bulkCreate(
+    products.map((item) => ({
+      placeStoreId: consumption.placeStoreId,
+      productId: item.productId,
+      type: 'distribution' as StockMovementType,
+      amount: -Number(item.amount),
+      consumptionId: consumption.id
+    })),
+    { transaction }
+  );
+};
+
+/**
+ * Give back to the store the products of a deleted consumption, once
+ * @param consumptionId deleted consumption unique ID
+ */
+export const reverseDistribution = async (consumptionId: NonNullable<Consumption['id']>) => {
+  await sequelize.transaction(async (transaction) => {
+    const movements = await db.stockMovements.findAll({ where: { consumptionId }, transaction });
+    if (movements.some((movement) => movement.type === 'distribution-reversal')) return;
+    await db.stockMovements.bulkCreate(
+      movements.map((movement) => ({
+        placeStoreId: movement.placeStoreId,
+        productId: movement.productId,
+        type: 'distribution-reversal' as StockMovementType,
+        amount: -movement.amount,
+        consumptionId
+      })),
+      { transaction }
+    );
+  });
+};
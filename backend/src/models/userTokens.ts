@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import moment from 'moment';
+import db, { sequelize } from '../schemas';
+import { User } from '../schemas/users';
+import { SequelizeUserToken, UserTokenType } from '../schemas/userTokens';
+import { hashToken } from '../utils/crypt';
+import { getError } from '../utils/errorLibrary';
+import { sendMail } from '../utils/mail';
+import logging from '../utils/logging';
+import * as userModel from './users';
+import * as refreshTokenModel from './refreshTokens';
+
+// How long each link can be used, in hours
+export const userTokenLifetime: { [type in UserTokenType]: number } = {
+  reset: 1,
+  invite: 7 * 24
+};
+
+/**
+ * Create a new token for the user, the previous unused tokens of the same type stop working
+ * @param userId user unique ID
+ * @param type token type
+ * @param createdById logged user unique ID, when created by an admin
+ * @returns token to be sent to the user, only its hash is stored
+ */
+export const create = async (
+  userId: NonNullable<User['id']>,
+  type: UserTokenType,
+  createdById?: User['id'] | null
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+  await sequelize.transaction(async (transaction) => {
+    await db.userTokens.update(
+      { expiresAt: moment().toDate() },
+      { where: { userId, type, usedAt: null, expiresAt: { [Op.gt]: moment().toDate() } }, transaction }
+    );
+    await db.userTokens.create(
+      {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: moment().add(userTokenLifetime[type], 'hours').toDate(),
+        createdById: createdById || null
+      },
+      { transaction }
+    );
+  });
+  return token;
+};
+
+/**
+ * Find a token that can still be used, with its user
+ * @param token token sent to the user
+ * @returns Promise<Item>, null when the token is unknown, used or expired
+ */
+export const getValidToken = async (token: string): Promise<SequelizeUserToken | null> => {
+  const [item] = await db.userTokens.findAll({
+    where: { tokenHash: hashToken(token || ''), usedAt: null, expiresAt: { [Op.gt]: moment().toDate() } },
+    include: [{ model: db.users, as: 'user', attributes: ['id', 'name', 'email', 'cpf', 'active'] }],
+    limit: 1
+  });
+  return item || null;
+};
+
+/**
+ * Get the link sent by email to use the token
+ * @param token token sent to the user
+ * @returns admin URL
+ */
+const getTokenLink = (token: string) => `${process.env.ADMIN_URL || ''}/redefinir-senha?token=${token}`;
+
+/**
+ * Send the password reset link to the user email
+ *
+ * Nothing happens when the email is unknown, so the route doesn't tell which emails are registered
+ * @param email user email
+ */
+export const sendPasswordReset = async (email: string) => {
+  const [user] = await db.users.findAll({ where: { email: (email || '').toLocaleLowerCase(), active: true } });
+  if (!user?.id || !user.email) {
+    logging.warning(`[auth] Password reset requested for an unknown email`);
+    return;
+  }
+  const token = await create(user.id, 'reset');
+  await sendMail({
+    to: user.email,
+    subject: 'Redefinição de senha',
+    text: [
+      `Olá ${user.name || ''},`,
+      '',
+      'Recebemos uma solicitação para redefinir a sua senha. Use o link abaixo para escolher uma nova senha:',
+      getTokenLink(token),
+      '',
+      `O link pode ser usado uma única vez em até ${userTokenLifetime.reset} hora(s).`,
+      'Se você não solicitou a redefinição, ignore este email.'
+    ].join('\n')
+  });
+};
+
+/**
+ * Send the invitation link, where the user chooses the password of the first access
+ * @param user invited user
+ * @param createdById logged user unique ID
+ */
+export const sendInvitation = async (user: User, createdById?: User['id'] | null) => {
+  if (!user.id || !user.email) throw { status: 412, message: 'O usuário não possui email' };
+  const token = await create(user.id, 'invite', createdById);
+  await sendMail({
+    to: user.email,
+    subject: 'Convite de acesso',
+    text: [
+      `Olá ${user.name || ''},`,
+      '',
+      'Você foi convidado(a) a acessar o sistema. Use o link abaixo para escolher a sua senha:',
+      getTokenLink(token),
+      '',
+      `O link pode ser usado uma única vez em até ${userTokenLifetime.invite / 24} dias.`
+    ].join('\n')
+  });
+};
+
+/**
+ * Use a reset or invitation token to choose a new password
+ *
+ * The current sessions of the user are revoked
+ * @param token token sent to the user
+ * @param password new password
+ */
+export const resetPassword = async (token: string, password: string) => {
+  const userToken = await getValidToken(token);
+  if (!userToken || !userToken.user?.active) throw getError('invalidUserToken');
+
+  await sequelize.transaction(async (transaction) => {
+    // Locking the token, so concurrent requests can't use it twice
+    const locked = await db.userTokens.findByPk(userToken.id, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!locked || locked.usedAt) throw getError('invalidUserToken');
+    await userModel.changePassword(userToken.userId, password, transaction);
+    await locked.update({ usedAt: moment().toDate() }, { transaction });
+  });
+  await refreshTokenModel.revokeAllByUser(userToken.userId);
+};
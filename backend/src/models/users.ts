@@ -1,7 +1,14 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import { Transaction } from 'sequelize';
 import db from '../schemas';
 import { User, SequelizeUser } from '../schemas/users';
 import { City } from '../schemas/cities';
 import { Place } from '../schemas/places';
+import { compareHash, isHash } from '../utils/crypt';
+import { checkPasswordStrength } from '../utils/passwordPolicy';
+import { getError } from '../utils/errorLibrary';
+import { cityScope } from '../utils/tenancy';
 
 /**
  * Get all items on the table without any filter
@@ -32,19 +39,60 @@ export const getById = async (
   id: NonNullable<User['id']>,
   cityId: NonNullable<City['id']>
 ): Promise<SequelizeUser | null> => {
-  const item = await db.users.findByPk(id);
-  if (item?.cityId === cityId) return item;
-  return null;
+  return db.users.findOne({ where: cityScope('users', cityId, { id }) });
+};
+
+/**
+ * Check if the logged user can save or remove a user
+ *
+ * Only a super admin can create, change or remove another super admin
+ * @param loggedUser logged user
+ * @param values new data of the user
+ * @param item current user data, when it already exists
+ */
+export const checkSuperadminChange = (loggedUser: User, values?: Partial<User>, item?: User | null): void => {
+  if (loggedUser.role === 'superadmin') return;
+  if (values?.role === 'superadmin' || item?.role === 'superadmin') throw getError('forbiddenRole');
+};
+
+/**
+ * Prepare the user data sent by an admin
+ *
+ * A password defined by the admin is temporary, the user must change it on the next login. The login
+ * lock fields are only changed by the login process
+ * @param values object with the user data
+ * @returns user data to be saved
+ */
+const getAdminValues = (values: User | SequelizeUser): User => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { failedLoginAttempts, lockedUntil, passwordChangedAt, mustChangePassword, ...data } =
+    'toJSON' in values ? (values.toJSON() as User) : values;
+  if (data.password && !isHash(data.password)) {
+    checkPasswordStrength(data.password, data);
+    return { ...data, mustChangePassword: true };
+  }
+  return data;
 };
 
 /**
  * Function to create a new row on the table
+ *
+ * Users without password receive a random one, they must use the invitation to choose a password
  * @param values object with the new item data
  * @param cityId logged user city ID
  * @returns Promise<Item>
  */
 export const create = (values: User | SequelizeUser, cityId: NonNullable<City['id']>): Promise<SequelizeUser> => {
-  return db.users.create({ ...values, cityId });
+  const data = getAdminValues(values);
+  if (!data.password) {
+    return db.users.create({
+      ...data,
+      password: crypto.randomBytes(32).toString('hex'),
+      mustChangePassword: true,
+      cityId
+    });
+  }
+  return db.users.create({ ...data, cityId });
 };
 
 /**
@@ -60,10 +108,17 @@ export const updateById = async (
   cityId: NonNullable<City['id']>
 ): Promise<SequelizeUser | null> => {
   // Check if item is on the city
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     // The update return an array [count, item[]], so I'm destructuring to get the updated user
-    const [, [item]] = await db.users.update(values, { where: { id }, returning: true, individualHooks: true });
+    const [, [item]] = await db.users.update(
+      { ...getAdminValues(values), cityId: cityItem.cityId },
+      {
+        where: { id },
+        returning: true,
+        individualHooks: true
+      }
+    );
     return item;
   }
   return null;
@@ -75,8 +130,39 @@ export const updateById = async (
  * @param cityId logged user city ID
  */
 export const deleteById = async (id: NonNullable<User['id']>, cityId: NonNullable<City['id']>): Promise<void> => {
-  const cityItem = getById(id, cityId);
+  const cityItem = await getById(id, cityId);
   if (cityItem) {
     await db.users.destroy({ where: { id } });
   }
 };
+
+/**
+ * Change the user password, checking the strength rules
+ * @param id unique ID of the user
+ * @param password new password
+ * @param transaction optional transaction to run the queries
+ * @returns Promise<Item>
+ */
+export const changePassword = async (
+  id: NonNullable<User['id']>,
+  password: string,
+  transaction?: Transaction
+): Promise<SequelizeUser> => {
+  const user = await db.users.findByPk(id, { transaction });
+  if (!user) throw { status: 404, message: 'Not found' };
+  checkPasswordStrength(password, user);
+  if (user.password && (await compareHash(password, user.password))) {
+    throw { status: 412, message: 'A nova senha deve ser diferente da atual' };
+  }
+  const [, [item]] = await db.users.update(
+    {
+      password,
+      mustChangePassword: false,
+      passwordChangedAt: moment().toDate(),
+      failedLoginAttempts: 0,
+      lockedUntil: null
+    },
+    { where: { id }, returning: true, individualHooks: true, transaction }
+  );
+  return item;
+};
@@ -0,0 +1,78 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as balanceAdjustmentModel from '../models/balanceAdjustments';
+import { setAuditData } from '../middlewares/audit';
+import { BalanceAdjustmentStatus } from '../utils/constraints';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the list of adjustments of the city
+ * Filters: status
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await balanceAdjustmentModel.getAll(
+      req.user.cityId,
+      req.query.status as BalanceAdjustmentStatus | undefined
+    );
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new adjustment request, it's counted on the balance only after approved
+ */
+router.post('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'request' });
+    const item = await balanceAdjustmentModel.requestAdjustment(req.body.familyId, req.body, req.user);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to approve a pending adjustment, it must be made by another user
+ */
+router.post('/:id/approve', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, {
+      action: 'approve',
+      before: await balanceAdjustmentModel.getById(req.params.id, req.user.cityId)
+    });
+    const item = await balanceAdjustmentModel.approveById(req.params.id, req.user, req.body.reviewNote);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to reject a pending adjustment
+ */
+router.post('/:id/reject', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, {
+      action: 'reject',
+      before: await balanceAdjustmentModel.getById(req.params.id, req.user.cityId)
+    });
+    const item = await balanceAdjustmentModel.rejectById(req.params.id, req.user, req.body.reviewNote);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
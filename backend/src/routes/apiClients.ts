@@ -0,0 +1,67 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as apiClientModel from '../models/apiClients';
+import { setAuditData } from '../middlewares/audit';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the list of clients of the city, without the keys
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await apiClientModel.getAll(req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new client, the key is returned only on this response
+ */
+router.post('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await apiClientModel.create(req.body, req.user.cityId, req.user.id);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to replace the client key, the previous key keeps working during the grace period
+ */
+router.post('/:id/rotate', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'rotate-key', before: await apiClientModel.getById(req.params.id, req.user.cityId) });
+    const item = await apiClientModel.rotateSecret(req.params.id, req.user.cityId);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to revoke a client, its requests are rejected from now on
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'revoke', before: await apiClientModel.getById(req.params.id, req.user.cityId) });
+    const item = await apiClientModel.revokeById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as auditLogModel from '../models/auditLogs';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the audit log of the city
+ * Filters: entity, entityId, action, userId, from, to, page and pageSize
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const { entity, entityId, action, userId, from, to, page, pageSize } = req.query as { [key: string]: string };
+    const data = await auditLogModel.getAll(req.user.cityId, {
+      entity,
+      entityId,
+      action,
+      userId,
+      from,
+      to,
+      page: Number(page) || undefined,
+      pageSize: Number(pageSize) || undefined
+    });
+    res.send(data);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
@@ -1,19 +1,48 @@
-import express from 'express';
+import express, { Request } from 'express';
 import logging from '../utils/logging';
 import {
   initializePassport,
   getToken,
   getRefreshToken,
-  updateTokenList,
-  getFromTokenList,
   authenticateMiddleware,
-  refreshTokenMiddleware
+  refreshTokenMiddleware,
+  loginWithEmailAndPassword
 } from '../middlewares/auth';
+import * as refreshTokenModel from '../models/refreshTokens';
+import * as userTokenModel from '../models/userTokens';
+import * as userModel from '../models/users';
+import { User } from '../schemas/users';
 import { getError } from '../utils/errorLibrary';
 
 const router = express.Router({ mergeParams: true });
 initializePassport();
 
+/**
+ * Get the device data stored with the session
+ * @param req express request
+ * @returns user agent and IP of the request
+ */
+const getSessionMetadata = (req: Request): refreshTokenModel.SessionMetadata => ({
+  userAgent: req.get('user-agent') || null,
+  ip: req.ip || null
+});
+
+/**
+ * Start a new session of the user
+ * @param req express request
+ * @param user logged user
+ * @returns tokens and the user
+ */
+const getLoginResponse = async (req: Request, user: User) => {
+  const refreshToken = getRefreshToken(user);
+  await refreshTokenModel.create(user.id as number, refreshToken, getSessionMetadata(req));
+  return {
+    token: getToken(user),
+    refreshToken,
+    user
+  };
+};
+
 router.post(
   '/login',
   // Passport Authentication middleware
@@ -22,14 +51,7 @@ router.post(
   async (req, res) => {
     try {
       if (req.user) {
-        const { user } = req;
-        const refreshToken = getRefreshToken(user);
-        const response = {
-          token: getToken(user),
-          refreshToken,
-          user
-        };
-        updateTokenList(refreshToken, response);
+        const response = await getLoginResponse(req, req.user);
         res.json(response);
       }
     } catch (error) {
@@ -43,6 +65,8 @@ router.post(
  * Route that will be called upon the expiration of a token.
  * If the refresh token is valid it will generate a new token
  * and return it as a response
+ *
+ * The refresh token is rotated, the one sent on the request can't be used again
  */
 router.post(
   '/token',
@@ -53,21 +77,90 @@ router.post(
     try {
       if (req.user && req.body?.refreshToken) {
         const { user } = req;
-        const refreshToken = req.body.refreshToken as string;
-        const lastResponse = getFromTokenList(refreshToken);
-        if (lastResponse) {
-          const token = getToken(user);
-          const response = { refreshToken, token, user };
-          res.json(response);
-        } else {
-          res.json(getError('invalidCredentials'));
-        }
+        const refreshToken = getRefreshToken(user);
+        await refreshTokenModel.rotate(req.body.refreshToken as string, refreshToken, getSessionMetadata(req));
+        const response = { refreshToken, token: getToken(user), user };
+        res.json(response);
       }
     } catch (error) {
       logging.error(error);
-      res.status(500).send(error.message);
+      res.status(error.status || 500).send(error.message);
     }
   }
 );
 
+/**
+ * Route to end the session, the refresh token is revoked
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    if (!req.body?.refreshToken) throw getError('invalidCredentials');
+    await refreshTokenModel.revokeByToken(req.body.refreshToken as string);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Route to change the password of the user, required after the first login with a password defined by an admin
+ */
+router.post('/change-password', async (req, res) => {
+  try {
+    const { email, password, newPassword } = req.body || {};
+    const user = await loginWithEmailAndPassword(email, password);
+    const updatedUser = await userModel.changePassword(user.id as number, newPassword);
+    // The other sessions were started with the old password
+    await refreshTokenModel.revokeAllByUser(user.id as number);
+    const response = await getLoginResponse(req, { ...user, ...(updatedUser.toJSON() as User) });
+    res.json(response);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Route to request the password reset link by email
+ *
+ * The response is the same for unknown emails
+ */
+router.post('/forgot-password', async (req, res) => {
+  try {
+    await userTokenModel.sendPasswordReset(req.body?.email);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Route to check a reset or invitation link before showing the password form
+ */
+router.get('/reset-password', async (req, res) => {
+  try {
+    const userToken = await userTokenModel.getValidToken(req.query.token as string);
+    if (!userToken?.user?.active) throw getError('invalidUserToken');
+    res.send({ type: userToken.type, name: userToken.user.name, email: userToken.user.email });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Route to choose a new password using a reset or invitation link
+ */
+router.post('/reset-password', async (req, res) => {
+  try {
+    await userTokenModel.resetPassword(req.body?.token, req.body?.password);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
 export default router;
@@ -0,0 +1,82 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as benefitPolicyModel from '../models/benefitPolicies';
+import { setAuditData } from '../middlewares/audit';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the policy versions of the city, with the rules effective today
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const versions = await benefitPolicyModel.getVersions(req.user.cityId);
+    const current = benefitPolicyModel.findEffectivePolicy(versions);
+    res.send({ current, versions });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new policy version, it's used from its effective date on
+ */
+router.post('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await benefitPolicyModel.createVersion(req.body, req.user.cityId, req.user.id);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the exceptions list of the city
+ */
+router.get('/exceptions', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await benefitPolicyModel.getExceptions(req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a NIS or name to the exceptions list
+ */
+router.post('/exceptions', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await benefitPolicyModel.createException(req.body, req.user.cityId, req.user.id);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to DELETE an item of the exceptions list
+ */
+router.delete('/exceptions/:id', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const before = await benefitPolicyModel.getExceptionById(req.params.id, req.user.cityId);
+    if (!before) throw { status: 404, message: 'Not found' };
+    setAuditData(res, { before });
+    await benefitPolicyModel.deleteException(req.params.id, req.user.cityId);
+    res.send(before);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as benefitProgramModel from '../models/benefitPrograms';
+import { setAuditData } from '../middlewares/audit';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the list of programs of the city
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await benefitProgramModel.getAll(req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the detail of a program
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await benefitProgramModel.getById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Programa não encontrado' };
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the occurrences of a program, the generated ones and the upcoming ones
+ */
+router.get('/:id/occurrences', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await benefitProgramModel.getOccurrences(req.params.id, req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new program, its benefits are generated by the cron
+ */
+router.post('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await benefitProgramModel.create(req.body, req.user);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to PUT an existing program, the generated benefits don't change
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { before: await benefitProgramModel.getById(req.params.id, req.user.cityId) });
+    const item = await benefitProgramModel.updateById(req.params.id, req.body, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Programa não encontrado' };
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to skip an upcoming occurrence
+ */
+router.post('/:id/occurrences/:date/skip', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'skip' });
+    const item = await benefitProgramModel.skipOccurrence(req.params.id, req.params.date, req.body.note, req.user);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to change the value or the basket of an upcoming occurrence
+ */
+router.post('/:id/occurrences/:date/override', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'override' });
+    const item = await benefitProgramModel.overrideOccurrence(req.params.id, req.params.date, req.body, req.user);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to DELETE the changes of an upcoming occurrence, it's generated with the program values
+ */
+router.delete('/:id/occurrences/:date', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'restore' });
+    await benefitProgramModel.restoreOccurrence(req.params.id, req.params.date, req.user.cityId);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
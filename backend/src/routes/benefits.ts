@@ -1,6 +1,7 @@
 import express from 'express';
 import logging from '../utils/logging';
 import * as benefitModel from '../models/benefits';
+import { setAuditData } from '../middlewares/audit';
 
 const router = express.Router({ mergeParams: true });
 
@@ -42,12 +43,12 @@ router.post('/', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
     let item;
-    if (req.body.value) item = await benefitModel.create(req.body);
-    else item = await benefitModel.createWithProduct(req.body);
+    if (req.body.value) item = await benefitModel.create(req.body, req.user.cityId);
+    else item = await benefitModel.createWithProduct(req.body, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -57,13 +58,14 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { before: await benefitModel.getById(req.params.id, req.user.cityId) });
     let item;
     if (req.body.value) item = await benefitModel.updateById(req.params.id, req.body, req.user.cityId);
     else item = await benefitModel.updateWithProduct(req.params.id, req.body, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -73,11 +75,12 @@ router.put('/:id', async (req, res) => {
 router.delete('/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { before: await benefitModel.getById(req.params.id, req.user.cityId) });
     await benefitModel.deleteById(req.params.id, req.user.cityId);
     res.send({ success: true });
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
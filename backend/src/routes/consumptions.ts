@@ -2,6 +2,8 @@ import express from 'express';
 import logging from '../utils/logging';
 import * as consumptionModel from '../models/consumptions';
 import { uploadFile } from '../utils/file';
+import { getNFCeHosts } from '../utils/nfceScraper';
+import { setAuditData } from '../middlewares/audit';
 
 const router = express.Router({ mergeParams: true });
 
@@ -12,6 +14,7 @@ const consumptionType = process.env.CONSUMPTION_TYPE as 'ticket' | 'product';
  */
 router.post('/', async (req, res) => {
   try {
+    if (!req.user?.cityId) throw Error('User without selected city');
     let proofImageUrl: string | null = null;
     // Check if there is a image in the request
     if (req.body.products) req.body.products = JSON.parse(req.body.products);
@@ -31,12 +34,12 @@ router.post('/', async (req, res) => {
 
     let item;
     if (consumptionType === 'ticket') {
-      item = await consumptionModel.addConsumption({ ...req.body, proofImageUrl });
+      item = await consumptionModel.addConsumption({ ...req.body, proofImageUrl }, req.user.cityId);
       // Scrape the purchase data, but don't wait for it
       consumptionModel.scrapeConsumption(item);
       return res.send(item);
     } else {
-      item = await consumptionModel.addConsumptionProduct({ ...req.body, proofImageUrl });
+      item = await consumptionModel.addConsumptionProduct({ ...req.body, proofImageUrl }, req.user.cityId);
       return res.send(item);
     }
   } catch (error) {
@@ -67,6 +70,18 @@ router.post('/image', async (req, res) => {
   }
 });
 
+/**
+ * List of NFC-e hosts with a registered scraper, used to validate the QR Code
+ */
+router.get('/nfce-hosts', async (req, res) => {
+  try {
+    return res.send(getNFCeHosts());
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Report
  */
@@ -78,6 +93,7 @@ router.get('/report', async (req, res) => {
       data = await consumptionModel.getPlaceConsumptionsReport(
         req.query.minDate as string,
         req.query.maxDate as string,
+        req.user.cityId,
         undefined,
         req.user.placeStoreId as string
       );
@@ -85,6 +101,7 @@ router.get('/report', async (req, res) => {
       data = await consumptionModel.getPlaceConsumptionsReport(
         req.query.minDate as string,
         req.query.maxDate as string,
+        req.user.cityId,
         req.query.placeId as string,
         req.query.placeStoreId as string
       );
@@ -110,6 +127,7 @@ router.get('/report-family', async (req, res) => {
       onlyWithoutConsumption: !!req.query.onlyWithoutConsumption
     };
     const report = await consumptionModel.getConsumptionFamilyReport(
+      req.user.cityId,
       filters.rangeFamily,
       filters.rangeConsumption,
       filters.memberCpf,
@@ -127,11 +145,11 @@ router.get('/report-family', async (req, res) => {
  */
 router.get('/report-placestore', async (req, res) => {
   try {
-    // if (!req.user?.cityId) throw Error('User without selected store creating consumption');
+    if (!req.user?.cityId) throw Error('User without selected store creating consumption');
     const filters = {
       rangeConsumption: req.query.rangeConsumption ? JSON.parse(req.query.rangeConsumption as string) : undefined
     };
-    const report = await consumptionModel.getConsumptionPlaceStoreReport(filters.rangeConsumption);
+    const report = await consumptionModel.getConsumptionPlaceStoreReport(req.user.cityId, filters.rangeConsumption);
     return res.send(report);
   } catch (error) {
     logging.error(error);
@@ -142,6 +160,7 @@ router.get('/report-placestore', async (req, res) => {
 router.post('/report-ticket', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'report' });
     // Check files
     if (!req.files || !req.files.file) {
       return res.status(400).send('No files were uploaded.');
@@ -169,11 +188,12 @@ router.post('/delete/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
 
+    setAuditData(res, { action: 'delete', before: await consumptionModel.getById(req.params.id, req.user.cityId) });
     await consumptionModel.deleteById(req.params.id, req.body.reason, req.user);
     return res.send({ deleted: true });
   } catch (error) {
     logging.error(error);
-    return res.status(500).send(error.message);
+    return res.status(error.status || 500).send(error.message);
   }
 });
 
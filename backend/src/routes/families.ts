@@ -1,8 +1,12 @@
 import express from 'express';
+import fs from 'fs';
 import logging from '../utils/logging';
 import * as familyModel from '../models/families';
 import * as consumptionModel from '../models/consumptions';
 import * as dependentModel from '../models/dependents';
+import * as importJobModel from '../models/importJobs';
+import * as ledgerEntryModel from '../models/ledgerEntries';
+import { setAuditData } from '../middlewares/audit';
 
 const type = process.env.CONSUMPTION_TYPE as 'ticket' | 'product';
 
@@ -22,7 +26,7 @@ router.get('/', async (req, res) => {
     } else if (req.query.code) {
       item = await familyModel.findByCode(req.query.code as string, req.user.cityId);
     } else {
-      const list = await familyModel.getAll();
+      const list = await familyModel.getAll(req.user.cityId);
       return res.send(list);
     }
     if (item) {
@@ -78,6 +82,7 @@ router.get('/place', async (req, res) => {
 router.post('/file', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'import' });
     if (!req.files || Object.keys(req.files).length === 0) {
       return res.status(400).send('No files were uploaded.');
     }
@@ -99,9 +104,10 @@ router.post('/file', async (req, res) => {
 router.post('/file-sislame', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'import' });
 
     // Check if another import is in progress
-    const status = familyModel.getImportReport(req.user.cityId);
+    const status = await familyModel.getImportReport(req.user.cityId);
     if (status.inProgress) {
       return res.status(403).send('Another import already running.');
     }
@@ -121,16 +127,24 @@ router.post('/file-sislame', async (req, res) => {
     if (Array.isArray(nurseryFile)) {
       nurseryFile = nurseryFile[0];
     }
+    // On dry run nothing is saved, the diff is stored on the job to be approved
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === 'true';
+    // Keep the files with the import job, so it can be retried
+    const job = await importJobModel.create({
+      cityId: req.user.cityId,
+      status: 'Em espera',
+      inProgress: true,
+      dryRun,
+      familyFilePath: await importJobModel.storeUploadedFile(familyFile, req.user.cityId, 'families'),
+      sislameFilePath: await importJobModel.storeUploadedFile(sislameFile, req.user.cityId, 'sislame'),
+      nurseryFilePath: await importJobModel.storeUploadedFile(nurseryFile, req.user.cityId, 'nursery'),
+      startedById: req.user.id
+    });
     // Files ok, send uploaded
-    res.send({ uploaded: true });
-
-    // Run the import function, the status will be monitored using the report function/route
-    await familyModel.importFamilyFromCadAndSislameCSV(
-      familyFile.tempFilePath,
-      sislameFile.tempFilePath,
-      nurseryFile.tempFilePath,
-      req.user.cityId
-    );
+    res.send({ uploaded: true, id: job.id, dryRun });
+
+    // Run the import function in the background, the status and the failure are monitored using the report route
+    familyModel.importFamilyFromCadAndSislameCSV(job).catch((error) => logging.error(error));
     return;
   } catch (error) {
     logging.error(error);
@@ -144,7 +158,7 @@ router.post('/file-sislame', async (req, res) => {
 router.get('/import-status', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
-    const data = familyModel.getImportReport(req.user.cityId);
+    const data = await familyModel.getImportReport(req.user.cityId);
     return res.send(data);
   } catch (error) {
     logging.error(error);
@@ -152,6 +166,87 @@ router.get('/import-status', async (req, res) => {
   }
 });
 
+/**
+ * Get the list of past CSV imports
+ */
+router.get('/imports', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const list = await importJobModel.getAll(req.user.cityId);
+    return res.send(list.map((job) => ({ ...familyModel.parseImportReport(job), startedBy: job.get('startedBy') })));
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Download the file with the reason of the families not imported
+ */
+router.get('/imports/:id/reason-file', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const job = await importJobModel.getById(req.params.id, req.user.cityId);
+    if (!job || !job.reasonFilePath || !fs.existsSync(job.reasonFilePath)) {
+      throw { status: 404, message: 'Arquivo não encontrado' };
+    }
+    return res.sendFile(job.reasonFilePath);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Get the differences with the DB found by a dry run CSV import
+ */
+router.get('/imports/:id/diff', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const job = await importJobModel.getById(req.params.id, req.user.cityId);
+    if (!job || !job.dryRun || !job.diff) {
+      throw { status: 404, message: 'Simulação não encontrada' };
+    }
+    return res.send({ uploaded: true, id: job.id, dryRun: true, diff: job.diff });
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Run a failed CSV import again, using the stored files
+ */
+router.post('/imports/:id/retry', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'retry-import' });
+
+    // Check if another import is in progress
+    const status = await familyModel.getImportReport(req.user.cityId);
+    if (status.inProgress) {
+      return res.status(403).send('Another import already running.');
+    }
+    const failedJob = await importJobModel.getById(req.params.id, req.user.cityId);
+    if (!failedJob) {
+      return res.status(404).send('Import not found.');
+    }
+    if (failedJob.status !== 'Falhou') {
+      return res.status(412).send('Only failed imports can be retried.');
+    }
+    // A failed dry run is retried as a dry run, its diff must be approved before saving
+    const job = await importJobModel.createFromJob(failedJob, req.user.id);
+    res.send({ uploaded: true, id: job.id, dryRun: job.dryRun });
+
+    // Run the import function in the background, the status and the failure are monitored using the report route
+    familyModel.importFamilyFromCadAndSislameCSV(job).catch((error) => logging.error(error));
+    return;
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Sub-route to POST a new item
  */
@@ -178,11 +273,14 @@ router.post('/', async (req, res) => {
 router.put('/:id/deactivate', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
-    const item = await familyModel.deactivateFamilyAndDependentsById(req.params.id);
+    const before = await familyModel.getWithDependents(req.params.id, req.user.cityId);
+    if (!before) throw { status: 404, message: 'Not found' };
+    setAuditData(res, { action: 'deactivate', before });
+    const item = await familyModel.deactivateFamilyAndDependentsById(req.params.id, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -192,12 +290,15 @@ router.put('/:id/deactivate', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
-    await dependentModel.certifyDependentsByFamilyList(req.params.id, req.body.dependents);
-    const item = await familyModel.updateById(req.params.id, req.body);
+    const before = await familyModel.getWithDependents(req.params.id, req.user.cityId);
+    if (!before) throw { status: 404, message: 'Not found' };
+    setAuditData(res, { before });
+    await dependentModel.certifyDependentsByFamilyList(req.params.id, req.body.dependents, req.user.cityId);
+    const item = await familyModel.updateById(req.params.id, req.body, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -207,8 +308,9 @@ router.put('/:id', async (req, res) => {
  */
 router.get('/consumption', async (req, res) => {
   try {
+    if (!req.user?.cityId) throw Error('User without selected city');
     if (!req.query.id) throw Error('No family sended');
-    const consumptions = await familyModel.getFamilyConsumption(req.query.id as string);
+    const consumptions = await familyModel.getFamilyConsumption(req.query.id as string, req.user.cityId);
     return res.send(consumptions);
   } catch (error) {
     if (!error.status || Number(error.status) !== 409) {
@@ -237,12 +339,80 @@ router.get('/list-file', async (req, res) => {
   }
 });
 
+/**
+ * Sub-route to GET the dependents that leave their group by the age limit on the next months
+ * Filters: months
+ */
+router.get('/age-outs', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const months = req.query.months ? Number(req.query.months) : undefined;
+    const list = await dependentModel.getUpcomingAgeOuts(req.user.cityId, months);
+    return res.send(list);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the families where the ledger balance is not the same as the legacy computation
+ */
+router.get('/ledger-mismatches', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const list = await ledgerEntryModel.getMismatches(req.user.cityId);
+    return res.send(list);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the statement of a family, with the running balance
+ * Filters: from and to
+ */
+router.get('/:id/statement', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    if (type !== 'ticket') throw { status: 412, message: 'Extrato disponível somente para benefícios em valor' };
+    const family = await familyModel.getWithDependents(req.params.id, req.user.cityId);
+    if (!family) return res.status(404).send('Not found');
+    const { from, to } = req.query as { [key: string]: string };
+    const statement = await ledgerEntryModel.getStatement(family, from, to);
+    return res.send(statement);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the balance of a family on the end of a day
+ */
+router.get('/:id/balance', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    if (type !== 'ticket') throw { status: 412, message: 'Extrato disponível somente para benefícios em valor' };
+    const family = await familyModel.getWithDependents(req.params.id, req.user.cityId);
+    if (!family) return res.status(404).send('Not found');
+    const date = (req.query.date as string) || new Date();
+    const balance = await ledgerEntryModel.getFamilyBalanceAt(family, date);
+    return res.send({ familyId: family.id, date, balance });
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Upload CSV file with family list
  */
 router.post('/file-product', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'import' });
     if (!req.files || Object.keys(req.files).length === 0) {
       return res.status(400).send('No files were uploaded.');
     }
@@ -264,6 +434,7 @@ router.post('/file-product', async (req, res) => {
 router.post('/file-update', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'import' });
     if (!req.files || Object.keys(req.files).length === 0) {
       return res.status(400).send('No files were uploaded.');
     }
@@ -279,4 +450,44 @@ router.post('/file-update', async (req, res) => {
   }
 });
 
+/**
+ * Approve a dry run CSV import, saving the families of its diff
+ */
+router.post('/imports/:id/commit', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    setAuditData(res, { action: 'commit-import' });
+
+    // Check if another import is in progress
+    const status = await familyModel.getImportReport(req.user.cityId);
+    if (status.inProgress) {
+      return res.status(403).send('Another import already running.');
+    }
+    const dryRunJob = await importJobModel.getById(req.params.id, req.user.cityId);
+    if (!dryRunJob) {
+      return res.status(404).send('Import not found.');
+    }
+    if (!dryRunJob.dryRun || dryRunJob.status !== 'Finalizado') {
+      return res.status(412).send('Only finished dry run imports can be approved.');
+    }
+    if (dryRunJob.committedJobId) {
+      return res.status(409).send('Dry run import already approved.');
+    }
+    if (!dryRunJob.grantedFamilies) {
+      return res.status(412).send('Dry run import without the granted families, run it again.');
+    }
+    // The diff shown on the dry run must be the one applied
+    await familyModel.checkImportDataUnchanged(req.user.cityId, dryRunJob.finishedAt as Date);
+    const job = await importJobModel.commitDryRun(dryRunJob, req.user.id);
+    res.send({ uploaded: true, id: job.id });
+
+    // Run the import function in the background, the status and the failure are monitored using the report route
+    familyModel.importFamilyFromCadAndSislameCSV(job).catch((error) => logging.error(error));
+    return;
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 export default router;
@@ -9,7 +9,8 @@ const router = express.Router({ mergeParams: true });
  */
 router.get('/', async (req, res) => {
   try {
-    const items = await groupModel.getAll();
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await groupModel.getAll(req.user.cityId);
     res.send(items);
   } catch (error) {
     logging.error(error);
@@ -22,7 +23,8 @@ router.get('/', async (req, res) => {
  */
 router.get('/:id', async (req, res) => {
   try {
-    const item = await groupModel.getById(req.params.id);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await groupModel.getById(req.params.id, req.user.cityId);
     if (!item) {
       res.status(404).send('Not found');
     }
@@ -38,11 +40,12 @@ router.get('/:id', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const item = await groupModel.create(req.body);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await groupModel.create(req.body, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -51,11 +54,13 @@ router.post('/', async (req, res) => {
  */
 router.put('/:id', async (req, res) => {
   try {
-    const item = await groupModel.updateById(req.params.id, req.body);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await groupModel.updateById(req.params.id, req.body, req.user);
+    if (!item) throw { status: 404, message: 'Not found' };
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -64,7 +69,8 @@ router.put('/:id', async (req, res) => {
  */
 router.delete('/:id', async (req, res) => {
   try {
-    await groupModel.deleteById(req.params.id);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    await groupModel.deleteById(req.params.id, req.user);
     res.send({ success: true });
   } catch (error) {
     logging.error(error);
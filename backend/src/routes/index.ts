@@ -3,6 +3,10 @@ import path from 'path';
 // Midlewares
 import { jwtMiddleware } from '../middlewares/auth';
 import { requirePublicAuth } from '../middlewares/publicAuth';
+import { requirePermission } from '../middlewares/permission';
+import { auditWrites } from '../middlewares/audit';
+import { rateLimit } from '../middlewares/rateLimit';
+import { requireCity, requireCityFile } from '../middlewares/tenancy';
 
 // Sub-routers
 import authRoutes from './auth';
@@ -16,9 +20,17 @@ import institutionRoutes from './institutions';
 import benefitRoutes from './benefits';
 import familyRoutes from './families';
 import consumptionRoutes from './consumptions';
+import adjustmentRoutes from './adjustments';
+import benefitPolicyRoutes from './benefitPolicies';
+import benefitProgramRoutes from './benefitPrograms';
 import dashboardRoutes from './dashboard';
 import productsRoutes from './products';
 import groupsRoutes from './groups';
+import productCategoriesRoutes from './productCategories';
+import auditRoutes from './audit';
+import apiClientRoutes from './apiClients';
+import publicBlockRoutes from './publicBlocks';
+import stockRoutes from './stock';
 
 const router = express.Router();
 
@@ -28,18 +40,123 @@ router.get('/', (req, res) => res.send({ version: process.env.npm_package_versio
 // Sub-routers
 router.use('/auth', authRoutes);
 router.use('/health', healthRoutes);
-router.use('/public', requirePublicAuth, publicRoutes);
-router.use('/cities', jwtMiddleware, cityRoutes);
-router.use('/places', jwtMiddleware, placeRoutes);
-router.use('/place-stores', jwtMiddleware, placeStoreRoutes);
-router.use('/users', jwtMiddleware, userRoutes);
-router.use('/institutions', jwtMiddleware, institutionRoutes);
-router.use('/benefits', jwtMiddleware, benefitRoutes);
-router.use('/families', jwtMiddleware, familyRoutes);
-router.use('/consumptions', jwtMiddleware, consumptionRoutes);
-router.use('/dashboard', jwtMiddleware, dashboardRoutes);
-router.use('/products', jwtMiddleware, productsRoutes);
-router.use('/groups', jwtMiddleware, groupsRoutes);
-router.use('/static', jwtMiddleware, express.static(`${path.dirname(__dirname)}/../database/storage`));
+router.use(
+  '/public',
+  rateLimit('ip', (req) => req.ip),
+  requirePublicAuth,
+  auditWrites('public'),
+  publicRoutes
+);
+router.use('/cities', jwtMiddleware, requireCity, requirePermission('cities'), auditWrites('cities'), cityRoutes);
+router.use('/places', jwtMiddleware, requireCity, requirePermission('places'), auditWrites('places'), placeRoutes);
+router.use(
+  '/place-stores',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('place-stores'),
+  auditWrites('place-stores'),
+  placeStoreRoutes
+);
+router.use('/users', jwtMiddleware, requireCity, requirePermission('users'), auditWrites('users'), userRoutes);
+router.use(
+  '/institutions',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('institutions'),
+  auditWrites('institutions'),
+  institutionRoutes
+);
+router.use(
+  '/benefits',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('benefits'),
+  auditWrites('benefits'),
+  benefitRoutes
+);
+router.use(
+  '/benefit-programs',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('benefit-programs'),
+  auditWrites('benefit-programs'),
+  benefitProgramRoutes
+);
+router.use(
+  '/families',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('families'),
+  auditWrites('families'),
+  familyRoutes
+);
+router.use(
+  '/consumptions',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('consumptions'),
+  auditWrites('consumptions'),
+  consumptionRoutes
+);
+router.use(
+  '/adjustments',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('adjustments'),
+  auditWrites('adjustments'),
+  adjustmentRoutes
+);
+router.use(
+  '/benefit-policies',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('benefit-policies'),
+  auditWrites('benefit-policies'),
+  benefitPolicyRoutes
+);
+router.use('/dashboard', jwtMiddleware, requireCity, requirePermission('dashboard'), dashboardRoutes);
+router.use(
+  '/products',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('products'),
+  auditWrites('products'),
+  productsRoutes
+);
+router.use('/groups', jwtMiddleware, requireCity, requirePermission('groups'), auditWrites('groups'), groupsRoutes);
+router.use(
+  '/product-categories',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('product-categories'),
+  auditWrites('product-categories'),
+  productCategoriesRoutes
+);
+router.use('/audit', jwtMiddleware, requireCity, requirePermission('audit'), auditRoutes);
+router.use(
+  '/api-clients',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('api-clients'),
+  auditWrites('api-clients'),
+  apiClientRoutes
+);
+router.use(
+  '/public-blocks',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('public-blocks'),
+  auditWrites('public-blocks'),
+  publicBlockRoutes
+);
+router.use('/stock', jwtMiddleware, requireCity, requirePermission('stock'), auditWrites('stock'), stockRoutes);
+router.use(
+  '/static',
+  jwtMiddleware,
+  requireCity,
+  requirePermission('static'),
+  requireCityFile,
+  express.static(`${path.dirname(__dirname)}/../database/storage`)
+);
 
 export default router;
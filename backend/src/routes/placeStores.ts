@@ -52,7 +52,7 @@ router.post('/', async (req, res) => {
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -66,7 +66,7 @@ router.put('/:id', async (req, res) => {
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -0,0 +1,75 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as productCategoryModel from '../models/productCategories';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the list of items
+ */
+router.get('/', async (req, res) => {
+  try {
+    const items = await productCategoryModel.getAll();
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the detail of item
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const item = await productCategoryModel.getById(req.params.id);
+    if (!item) {
+      return res.status(404).send('Not found');
+    }
+    return res.send(item);
+  } catch (error) {
+    logging.error(error);
+    return res.status(500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new item
+ */
+router.post('/', async (req, res) => {
+  try {
+    const item = await productCategoryModel.create(req.body);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to PUT an existing item
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const item = await productCategoryModel.updateById(req.params.id, req.body);
+    res.send(item);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to DELETE an existing item
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    await productCategoryModel.deleteById(req.params.id);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
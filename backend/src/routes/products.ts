@@ -1,6 +1,8 @@
 import express from 'express';
 import logging from '../utils/logging';
 import * as productModel from '../models/products';
+import * as productAliasModel from '../models/productAliases';
+import { ProductAliasStatus } from '../schemas/productAliases';
 
 const router = express.Router({ mergeParams: true });
 
@@ -9,7 +11,8 @@ const router = express.Router({ mergeParams: true });
  */
 router.get('/', async (req, res) => {
   try {
-    const items = await productModel.getAll();
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await productModel.getAll(req.user.cityId);
     res.send(items);
   } catch (error) {
     logging.error(error);
@@ -22,7 +25,8 @@ router.get('/', async (req, res) => {
  */
 router.get('/validate', async (req, res) => {
   try {
-    const items = await productModel.getAllUnset();
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await productModel.getAllUnset(req.user.cityId);
     res.send(items);
   } catch (error) {
     logging.error(error);
@@ -30,12 +34,41 @@ router.get('/validate', async (req, res) => {
   }
 });
 
+/**
+ * Sub-route to GET the list of aliases of the scraped names, `?status=pending` for the review queue
+ */
+router.get('/aliases', async (req, res) => {
+  try {
+    const items = await productAliasModel.getAll(req.query.status as ProductAliasStatus | undefined);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to approve or reject an alias waiting for review
+ */
+router.put('/aliases/:id', async (req, res) => {
+  try {
+    const { approve, productId } = req.body;
+    if (typeof approve !== 'boolean') return res.status(400).send('Invalid approve value');
+    const item = await productAliasModel.review(req.params.id, approve, req.user?.id, productId);
+    return res.send(item);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Sub-route to GET the detail of item
  */
 router.get('/:id', async (req, res) => {
   try {
-    const item = await productModel.getById(req.params.id);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await productModel.getById(req.params.id, req.user.cityId);
     if (!item) {
       res.status(404).send('Not found');
     }
@@ -51,7 +84,8 @@ router.get('/:id', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const item = await productModel.create(req.body);
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await productModel.create(req.body, req.user.cityId);
     res.send(item);
   } catch (error) {
     logging.error(error);
@@ -59,19 +93,38 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * Sub-route to move a list of products to a category
+ */
+router.put('/category', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const { ids, categoryId } = req.body;
+    if (!Array.isArray(ids) || ids.length === 0 || !categoryId)
+      return res.status(400).send('Invalid products or category');
+    const items = await productModel.assignCategory(ids, categoryId, req.user);
+    return res.send(items);
+  } catch (error) {
+    logging.error(error);
+    return res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Sub-route to PUT an existing item
  */
 router.put('/:id', async (req, res) => {
   try {
+    if (!req.user?.cityId) throw Error('User without selected city');
     const { isValid } = req.body;
     // Only accepts null, true or false as value
     if (typeof isValid !== 'boolean') return res.status(400).send('Invalid isValid value');
-    const item = await productModel.updateById(req.params.id, { isValid });
+    const item = await productModel.updateById(req.params.id, { isValid }, req.user);
+    if (!item) throw { status: 404, message: 'Not found' };
     return res.send(item);
   } catch (error) {
     logging.error(error);
-    return res.status(500).send(error.message);
+    return res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -80,8 +133,9 @@ router.put('/:id', async (req, res) => {
  */
 router.delete('/:id', async (req, res) => {
   try {
+    if (!req.user?.cityId) throw Error('User without selected city');
     // Call the model
-    await productModel.deleteById(req.params.id);
+    await productModel.deleteById(req.params.id, req.user);
     res.send({ success: true });
   } catch (error) {
     logging.error(error);
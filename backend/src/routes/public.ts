@@ -1,30 +1,102 @@
-import express from 'express';
+import express, { Request } from 'express';
+import moment from 'moment';
 import logging from '../utils/logging';
 import * as familyModel from '../models/families';
 import * as consumptionModel from '../models/consumptions';
 import * as placeStoreModel from '../models/placeStores';
+import * as beneficiaryAuthModel from '../models/beneficiaryAuth';
+import { requireBeneficiarySession } from '../middlewares/beneficiaryAuth';
+import { setAuditData } from '../middlewares/audit';
+import { rateLimit } from '../middlewares/rateLimit';
+import * as rateLimitModel from '../models/rateLimits';
+import { getError } from '../utils/errorLibrary';
 import { uploadFile } from '../utils/file';
+import { getNFCeHosts } from '../utils/nfceScraper';
 
 const router = express.Router({ mergeParams: true });
 
 /**
- * Search of family by NIS number
+ * Identifier of the NIS sent on the request, on the city of the API client
+ * @param req express request
+ * @returns identifier, undefined without the NIS
  */
-router.get('/families', async (req, res) => {
+const getRequestNisId = (req: Request) =>
+  req.apiClient ? rateLimitModel.getNisId(req.apiClient.cityId, `${req.body.nis || ''}`) : undefined;
+
+/**
+ * Identify the family by the NIS and the responsible birthday
+ * Returns the session token or, when the one-time code is enabled, the challenge of the code sent by SMS
+ */
+router.post('/families/login', rateLimit('nis', getRequestNisId), async (req, res) => {
+  try {
+    if (!req.apiClient) throw Error('Request without API client');
+    const nisId = getRequestNisId(req) as string;
+    // Too many wrong birthdays on the NIS, even the right one is rejected until the block expires
+    if (await rateLimitModel.getBlock('nis', nisId)) throw getError('blockedPublicClient');
+    setAuditData(res, { action: 'beneficiary-login' });
+    try {
+      const result = await beneficiaryAuthModel.login(
+        `${req.body.nis || ''}`,
+        `${req.body.birthday || ''}`,
+        req.apiClient.cityId
+      );
+      await rateLimitModel.clearFailures('nis', nisId);
+      res.send(result);
+    } catch (error) {
+      if (error.key === 'invalidBeneficiaryCredentials') {
+        await rateLimitModel.registerFailure('nis', nisId, 'invalid-birthday');
+        await rateLimitModel.registerFailure('ip', req.ip, 'invalid-login');
+      }
+      throw error;
+    }
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Verify the code sent to the family phone, returning the session token
+ */
+router.post('/families/verify', async (req, res) => {
+  try {
+    if (!req.apiClient) throw Error('Request without API client');
+    setAuditData(res, { action: 'beneficiary-login' });
+    const result = await beneficiaryAuthModel.verifyCode(
+      `${req.body.challenge || ''}`,
+      `${req.body.code || ''}`,
+      req.apiClient.cityId
+    );
+    res.send(result);
+  } catch (error) {
+    if (error.key === 'invalidBeneficiaryCode') {
+      await rateLimitModel.registerFailure('ip', req.ip, 'invalid-code').catch(logging.error);
+    }
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Get the family of the beneficiary session with its balance
+ */
+router.get('/families/me', requireBeneficiarySession, async (req, res) => {
   try {
-    const item = await familyModel.findByNis(req.query.nis as string, req.query.cityId as string, undefined, true);
-    if (!item) return res.status(404).send('Not found');
+    if (!req.apiClient || !req.beneficiary) throw Error('Request without beneficiary session');
+    const item = await familyModel.getWithDependents(req.beneficiary.familyId, req.apiClient.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    const [youngerDependent] = (item.dependents || []).sort((a, b) => moment(b.birthday).diff(moment(a.birthday)));
     const balance = await consumptionModel.getFamilyDependentBalance(item);
-    return res.send({
+    res.send({
       id: item.id,
       balance,
-      school: item.school,
+      school: youngerDependent?.schoolName,
       responsibleName: item.responsibleName,
       responsibleBirthday: item.responsibleBirthday
     });
   } catch (error) {
     logging.error(error);
-    return res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -33,7 +105,8 @@ router.get('/families', async (req, res) => {
  */
 router.get('/place-stores', async (req, res) => {
   try {
-    const list = await placeStoreModel.getAll(req.query.cityId as string);
+    if (!req.apiClient) throw Error('Request without API client');
+    const list = await placeStoreModel.getAll(req.apiClient.cityId);
     res.send(list);
   } catch (error) {
     logging.error(error);
@@ -42,34 +115,55 @@ router.get('/place-stores', async (req, res) => {
 });
 
 /**
- * Search of family by NIS number
+ * List of NFC-e hosts with a registered scraper, used to validate the QR Code
  */
-router.post('/consumptions', async (req, res) => {
+router.get('/nfce-hosts', async (req, res) => {
   try {
-    let proofImageUrl: string | null = null;
-    // Check if there is a image in the request
-    if (req.files && Object.keys(req.files).length !== 0) {
-      let image = req.files.image;
-      if (Array.isArray(image)) {
-        image = image[0];
-      }
-      const data = await uploadFile(`image`, `public/consumption-${new Date().getTime()}`, image);
-      if (!data) {
-        throw { message: `Failed to upload image to the store` };
-      } else {
-        proofImageUrl = data.url;
-      }
-    }
-    const item = await consumptionModel.addConsumption({ ...req.body, proofImageUrl });
-
-    // Scrape the purchase data, but don't wait for it
-    consumptionModel.scrapeConsumption(item);
-
-    return res.send(item);
+    res.send(getNFCeHosts());
   } catch (error) {
     logging.error(error);
-    return res.status(error.status || 500).send(error.message);
+    res.status(500).send(error.message);
   }
 });
 
+/**
+ * Add a consumption to the family of the beneficiary session
+ */
+router.post(
+  '/consumptions',
+  requireBeneficiarySession,
+  rateLimit('consumption', (req) => req.beneficiary && `${req.beneficiary.familyId}`),
+  async (req, res) => {
+    try {
+      if (!req.apiClient || !req.beneficiary) throw Error('Request without beneficiary session');
+      let proofImageUrl: string | null = null;
+      // Check if there is a image in the request
+      if (req.files && Object.keys(req.files).length !== 0) {
+        let image = req.files.image;
+        if (Array.isArray(image)) {
+          image = image[0];
+        }
+        const data = await uploadFile(`image`, `public/consumption-${new Date().getTime()}`, image);
+        if (!data) {
+          throw { message: `Failed to upload image to the store` };
+        } else {
+          proofImageUrl = data.url;
+        }
+      }
+      const item = await consumptionModel.addConsumption(
+        { ...req.body, familyId: req.beneficiary.familyId, proofImageUrl },
+        req.apiClient.cityId
+      );
+
+      // Scrape the purchase data, but don't wait for it
+      consumptionModel.scrapeConsumption(item);
+
+      return res.send(item);
+    } catch (error) {
+      logging.error(error);
+      return res.status(error.status || 500).send(error.message);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,45 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as rateLimitModel from '../models/rateLimits';
+import { setAuditData } from '../middlewares/audit';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the blocked and suspicious IPs and NIS of the portal
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await rateLimitModel.getAll(req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to remove the block and the failures of an IP or NIS
+ */
+router.delete('/:type/:value', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const { type, value } = req.params;
+    if (type !== 'ip' && type !== 'nis') throw { status: 404, message: 'Not found' };
+    const id = type === 'nis' ? rateLimitModel.getNisId(req.user.cityId, value) : value;
+    setAuditData(res, {
+      action: 'unblock',
+      entityId: `${type}:${value}`,
+      before: await rateLimitModel.getBlock(type, id)
+    });
+    const removed = await rateLimitModel.unblock(type, id);
+    if (!removed) throw { status: 404, message: 'Not found' };
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
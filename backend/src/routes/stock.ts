@@ -0,0 +1,72 @@
+import express from 'express';
+import logging from '../utils/logging';
+import * as stockMovementModel from '../models/stockMovements';
+import { StockMovementType } from '../utils/constraints';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Sub-route to GET the stock movements of the city stores
+ * Filters: placeStoreId, productId, type
+ */
+router.get('/movements', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await stockMovementModel.getAll(req.user.cityId, {
+      placeStoreId: req.query.placeStoreId as string | undefined,
+      productId: req.query.productId as string | undefined,
+      type: req.query.type as StockMovementType | undefined
+    });
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a receipt, a loss or a transfer between stores
+ */
+router.post('/movements', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await stockMovementModel.createMovement(req.body, req.user);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the current stock of the city stores
+ * Filters: placeStoreId
+ */
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    // The users linked to a store see only its stock
+    const placeStoreId = req.user.placeStoreId || (req.query.placeStoreId as string | undefined);
+    const items = await stockMovementModel.getCurrentStock(req.user.cityId, placeStoreId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to GET the products below the minimum stock of their stores
+ */
+router.get('/low', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const items = await stockMovementModel.getLowStock(req.user.cityId);
+    res.send(items);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+export default router;
@@ -2,7 +2,10 @@ import express from 'express';
 import logging from '../utils/logging';
 import * as userModel from '../models/users';
 import * as placeModel from '../models/places';
+import * as refreshTokenModel from '../models/refreshTokens';
+import * as userTokenModel from '../models/userTokens';
 import { Place } from '../schemas/places';
+import { setAuditData } from '../middlewares/audit';
 
 const router = express.Router({ mergeParams: true });
 
@@ -42,17 +45,91 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * Sub-route to GET the active sessions of the user
+ */
+router.get('/:id/sessions', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await userModel.getById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    const sessions = await refreshTokenModel.getAllActiveByUser(req.params.id);
+    res.send(sessions);
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to DELETE (revoke) all the active sessions of the user
+ */
+router.delete('/:id/sessions', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await userModel.getById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    setAuditData(res, { action: 'revoke-sessions' });
+    const count = await refreshTokenModel.revokeAllByUser(req.params.id);
+    res.send({ success: true, count });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to DELETE (revoke) a session of the user
+ */
+router.delete('/:id/sessions/:sessionId', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await userModel.getById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    setAuditData(res, { action: 'revoke-sessions' });
+    const revoked = await refreshTokenModel.revokeById(req.params.sessionId, req.params.id);
+    if (!revoked) throw { status: 404, message: 'Not found' };
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
+/**
+ * Sub-route to POST a new invitation to the user, where the user chooses a new password
+ */
+router.post('/:id/invite', async (req, res) => {
+  try {
+    if (!req.user?.cityId) throw Error('User without selected city');
+    const item = await userModel.getById(req.params.id, req.user.cityId);
+    if (!item) throw { status: 404, message: 'Not found' };
+    userModel.checkSuperadminChange(req.user, undefined, item);
+    setAuditData(res, { action: 'invite' });
+    await userTokenModel.sendInvitation(item, req.user.id);
+    res.send({ success: true });
+  } catch (error) {
+    logging.error(error);
+    res.status(error.status || 500).send(error.message);
+  }
+});
+
 /**
  * Sub-route to POST a new item
  */
 router.post('/', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    userModel.checkSuperadminChange(req.user, req.body);
     const item = await userModel.create(req.body, req.user.cityId);
+    // Without password the user chooses it using the invitation
+    if (!req.body.password && item.email) {
+      await userTokenModel.sendInvitation(item, req.user.id);
+    }
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -62,11 +139,18 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    const before = await userModel.getById(req.params.id, req.user.cityId);
+    userModel.checkSuperadminChange(req.user, req.body, before);
+    setAuditData(res, { before });
     const item = await userModel.updateById(req.params.id, req.body, req.user.cityId);
+    // A deactivated user can't keep using the current sessions
+    if (item && !item.active && item.id) {
+      await refreshTokenModel.revokeAllByUser(item.id);
+    }
     res.send(item);
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -76,11 +160,14 @@ router.put('/:id', async (req, res) => {
 router.delete('/:id', async (req, res) => {
   try {
     if (!req.user?.cityId) throw Error('User without selected city');
+    const before = await userModel.getById(req.params.id, req.user.cityId);
+    userModel.checkSuperadminChange(req.user, undefined, before);
+    setAuditData(res, { before });
     await userModel.deleteById(req.params.id, req.user.cityId);
     res.send({ success: true });
   } catch (error) {
     logging.error(error);
-    res.status(500).send(error.message);
+    res.status(error.status || 500).send(error.message);
   }
 });
 
@@ -0,0 +1,63 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+
+// Simple item type, nonces already used by a client, kept while the request timestamp is accepted
+export interface ApiClientNonce {
+  readonly id?: number | string;
+  apiClientId: number | string;
+  nonce: string;
+  createdAt?: number | Date | null;
+}
+// Sequelize returns type
+export type SequelizeApiClientNonce = ApiClientNonce & Model;
+// Sequelize model type
+export type SequelizeApiClientNonceModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeApiClientNonce;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  apiClientId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ApiClients',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  nonce: {
+    type: DataTypes.STRING,
+    allowNull: false
+  }
+};
+
+const tableName = 'ApiClientNonces';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initApiClientNonceSchema = (sequelize: Sequelize): SequelizeApiClientNonceModel => {
+  const Schema = sequelize.define(tableName, attributes, {
+    timestamps: true,
+    updatedAt: false
+  }) as SequelizeApiClientNonceModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.apiClients, {
+      foreignKey: 'apiClientId',
+      as: 'apiClient'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,120 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { City } from './cities';
+
+// Simple item type, each portal deployment has its own client
+export interface ApiClient {
+  readonly id?: number | string;
+  cityId: number | string;
+  name: string;
+  // Public identifier sent on the requests
+  keyId: string;
+  // Encrypted key used to sign the requests
+  secret: string;
+  // Key replaced on the last rotation, accepted until it expires
+  previousSecret?: string | null;
+  previousSecretExpiresAt?: number | Date | null;
+  rotatedAt?: number | Date | null;
+  revokedAt?: number | Date | null;
+  lastUsedAt?: number | Date | null;
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  city?: City;
+}
+// Sequelize returns type
+export type SequelizeApiClient = ApiClient & Model;
+// Sequelize model type
+export type SequelizeApiClientModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeApiClient;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  name: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  keyId: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true
+  },
+  secret: {
+    type: DataTypes.TEXT,
+    allowNull: false
+  },
+  previousSecret: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  previousSecretExpiresAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  rotatedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  lastUsedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'ApiClients';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initApiClientSchema = (sequelize: Sequelize): SequelizeApiClientModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeApiClientModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+    Schema.hasMany(models.apiClientNonces, {
+      foreignKey: 'apiClientId',
+      as: 'nonces'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,127 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { User } from './users';
+
+// Simple item type
+export interface AuditLog {
+  readonly id?: number | string;
+  cityId?: number | string | null;
+  // User that made the request
+  userId?: number | string | null;
+  action: string;
+  // Resource changed by the request (families, consumptions, benefits...)
+  entity: string;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+  method: string;
+  path: string;
+  statusCode?: number | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  user?: User;
+}
+// Sequelize returns type
+export type SequelizeAuditLog = AuditLog & Model;
+// Sequelize model type
+export type SequelizeAuditLogModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeAuditLog;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  userId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  action: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  entity: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  entityId: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  before: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  after: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  method: {
+    type: DataTypes.STRING(10),
+    allowNull: false
+  },
+  path: {
+    type: DataTypes.TEXT,
+    allowNull: false
+  },
+  statusCode: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  ip: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  userAgent: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  }
+};
+
+const tableName = 'AuditLogs';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initAuditLogSchema = (sequelize: Sequelize): SequelizeAuditLogModel => {
+  // Append only table, without updatedAt
+  const Schema = sequelize.define(tableName, attributes, {
+    timestamps: true,
+    updatedAt: false
+  }) as SequelizeAuditLogModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.users, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+  };
+
+  return Schema;
+};
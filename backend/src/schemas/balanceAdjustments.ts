@@ -0,0 +1,128 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { BalanceAdjustmentStatus } from '../utils/constraints';
+import { Family } from './families';
+import { User } from './users';
+
+export type BalanceAdjustmentProduct = {
+  productId: number | string;
+  // Negative amounts remove products from the balance
+  amount: number;
+};
+
+// Simple item type, a manual change on the family balance that must be approved before it's counted
+export interface BalanceAdjustment {
+  readonly id?: number | string;
+  familyId: number | string;
+  // Used when the consumption type is ticket, negative values are discounts
+  value?: number | null;
+  // Used when the consumption type is product
+  products?: BalanceAdjustmentProduct[] | null;
+  reason: string;
+  status: BalanceAdjustmentStatus;
+  requestedById: number | string;
+  reviewedById?: number | string | null;
+  reviewedAt?: number | Date | null;
+  reviewNote?: string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  family?: Family;
+  requestedBy?: User;
+  reviewedBy?: User;
+}
+// Sequelize returns type
+export type SequelizeBalanceAdjustment = BalanceAdjustment & Model;
+// Sequelize model type
+export type SequelizeBalanceAdjustmentModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBalanceAdjustment;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  familyId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Families',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  value: {
+    type: DataTypes.FLOAT,
+    allowNull: true
+  },
+  products: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'pending'
+  },
+  requestedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  reviewedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  reviewNote: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  }
+};
+
+const tableName = 'BalanceAdjustments';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBalanceAdjustmentSchema = (sequelize: Sequelize): SequelizeBalanceAdjustmentModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeBalanceAdjustmentModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.families, {
+      foreignKey: 'familyId',
+      as: 'family'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'requestedById',
+      as: 'requestedBy'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'reviewedById',
+      as: 'reviewedBy'
+    });
+  };
+
+  return Schema;
+};
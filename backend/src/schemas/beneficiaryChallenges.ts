@@ -0,0 +1,88 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { Family } from './families';
+
+// Simple item type, a one-time code sent to the family phone on the portal login
+export interface BeneficiaryChallenge {
+  readonly id?: number | string;
+  familyId: number | string;
+  // SHA-256 of the challenge token returned to the portal, the token itself is never stored
+  tokenHash: string;
+  // SHA-256 of the code sent by SMS
+  codeHash: string;
+  attempts: number;
+  expiresAt: number | Date;
+  verifiedAt?: number | Date | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  family?: Family;
+}
+// Sequelize returns type
+export type SequelizeBeneficiaryChallenge = BeneficiaryChallenge & Model;
+// Sequelize model type
+export type SequelizeBeneficiaryChallengeModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBeneficiaryChallenge;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  familyId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Families',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  codeHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false
+  },
+  attempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  verifiedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+};
+
+const tableName = 'BeneficiaryChallenges';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBeneficiaryChallengeSchema = (sequelize: Sequelize): SequelizeBeneficiaryChallengeModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeBeneficiaryChallengeModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.families, {
+      foreignKey: 'familyId',
+      as: 'family'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,96 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { User } from './users';
+
+// Simple item type, a version of the benefit calculation rules of a city
+export interface BenefitPolicy {
+  readonly id?: number | string;
+  cityId?: number | string;
+  // Day when the version starts to be used (YYYY-MM-DD)
+  effectiveFrom: string;
+  // Benefit multiplier of the families that consumed on the card but declared nothing
+  undeclaredConsumptionMultiplier: number;
+  // Payment names considered as money, the invalid products paid with them are not discounted
+  moneyPaymentNames: string[];
+  // Difference between the declared and consumed values accepted as declaring everything
+  declaredTolerance: number;
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  createdBy?: User;
+}
+// Sequelize returns type
+export type SequelizeBenefitPolicy = BenefitPolicy & Model;
+// Sequelize model type
+export type SequelizeBenefitPolicyModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBenefitPolicy;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  effectiveFrom: {
+    type: DataTypes.DATEONLY,
+    allowNull: false
+  },
+  undeclaredConsumptionMultiplier: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  moneyPaymentNames: {
+    type: DataTypes.JSON,
+    allowNull: false
+  },
+  declaredTolerance: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'BenefitPolicies';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBenefitPolicySchema = (sequelize: Sequelize): SequelizeBenefitPolicyModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeBenefitPolicyModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+  };
+
+  return Schema;
+};
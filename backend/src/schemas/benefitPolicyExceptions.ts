@@ -0,0 +1,89 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { BenefitPolicyExceptionType } from '../utils/constraints';
+import { User } from './users';
+
+// Simple item type, a family that is never penalized on the ticket report, found by the NIS or name
+export interface BenefitPolicyException {
+  readonly id?: number | string;
+  cityId?: number | string;
+  type: BenefitPolicyExceptionType;
+  // NIS or name of the responsible
+  value: string;
+  reason?: string | null;
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  createdBy?: User;
+}
+// Sequelize returns type
+export type SequelizeBenefitPolicyException = BenefitPolicyException & Model;
+// Sequelize model type
+export type SequelizeBenefitPolicyExceptionModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBenefitPolicyException;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  type: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  value: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  reason: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'BenefitPolicyExceptions';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBenefitPolicyExceptionSchema = (sequelize: Sequelize): SequelizeBenefitPolicyExceptionModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeBenefitPolicyExceptionModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+  };
+
+  return Schema;
+};
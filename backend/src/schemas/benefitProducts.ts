@@ -8,6 +8,12 @@ export interface BenefitProduct {
   productId: number | string;
   benefitId: number | string;
   amount: number;
+  // Basket version, the replaced versions are kept for the past balances
+  version?: number;
+  // Null on the first version of the basket
+  validFrom?: Date | null;
+  // Null on the basket in force
+  replacedAt?: Date | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
@@ -51,6 +57,19 @@ export const attributes = {
   amount: {
     type: DataTypes.INTEGER,
     allowNull: false
+  },
+  version: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 1
+  },
+  validFrom: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  replacedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
   }
 };
 
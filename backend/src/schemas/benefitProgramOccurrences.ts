@@ -0,0 +1,120 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { BenefitOccurrenceStatus } from '../utils/constraints';
+import { BenefitProgramProduct } from './benefitPrograms';
+import { Benefit } from './benefits';
+import { User } from './users';
+
+// Simple item type, a month of a program that was changed or already generated
+export interface BenefitProgramOccurrence {
+  readonly id?: number | string;
+  programId: number | string;
+  // Day of the occurrence (YYYY-MM-DD)
+  date: string;
+  status: BenefitOccurrenceStatus;
+  // Override of the program value and basket
+  value?: number | null;
+  products?: BenefitProgramProduct[] | null;
+  note?: string | null;
+  // Benefit created when the occurrence was generated
+  benefitId?: number | string | null;
+  updatedById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  benefit?: Benefit;
+  updatedBy?: User;
+}
+// Sequelize returns type
+export type SequelizeBenefitProgramOccurrence = BenefitProgramOccurrence & Model;
+// Sequelize model type
+export type SequelizeBenefitProgramOccurrenceModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBenefitProgramOccurrence;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  programId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'BenefitPrograms',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  date: {
+    type: DataTypes.DATEONLY,
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'scheduled'
+  },
+  value: {
+    type: DataTypes.FLOAT,
+    allowNull: true
+  },
+  products: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  note: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  benefitId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Benefits',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  updatedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'BenefitProgramOccurrences';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBenefitProgramOccurrenceSchema = (sequelize: Sequelize): SequelizeBenefitProgramOccurrenceModel => {
+  const Schema = sequelize.define(tableName, attributes, {
+    timestamps: true
+  }) as SequelizeBenefitProgramOccurrenceModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.benefitPrograms, {
+      foreignKey: 'programId',
+      as: 'program'
+    });
+    Schema.belongsTo(models.benefits, {
+      foreignKey: 'benefitId',
+      as: 'benefit'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'updatedById',
+      as: 'updatedBy'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,154 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { BenefitProgramValueType } from '../utils/constraints';
+import { BenefitProgramOccurrence } from './benefitProgramOccurrences';
+import { Institution } from './institutions';
+import { Group } from './groups';
+import { User } from './users';
+
+export type BenefitProgramProduct = {
+  productId: number | string;
+  amount: number;
+};
+
+// Simple item type, a recurring benefit that generates one benefit each month
+export interface BenefitProgram {
+  readonly id?: number | string;
+  cityId?: number | string;
+  institutionId: number | string;
+  groupId: number | string;
+  title: string;
+  // Day of the month when the benefit is granted (1-28)
+  dayOfMonth: number;
+  // First and last days of the program (YYYY-MM-DD)
+  startDate: string;
+  endDate?: string | null;
+  // Used when the consumption type is ticket
+  value?: number | null;
+  valueType: BenefitProgramValueType;
+  // Used when the consumption type is product
+  products?: BenefitProgramProduct[] | null;
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  institution?: Institution;
+  group?: Group;
+  createdBy?: User;
+  occurrences?: BenefitProgramOccurrence[];
+}
+// Sequelize returns type
+export type SequelizeBenefitProgram = BenefitProgram & Model;
+// Sequelize model type
+export type SequelizeBenefitProgramModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeBenefitProgram;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  institutionId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Institutions',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  groupId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Groups',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  title: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  dayOfMonth: {
+    type: DataTypes.INTEGER,
+    allowNull: false
+  },
+  startDate: {
+    type: DataTypes.DATEONLY,
+    allowNull: false
+  },
+  endDate: {
+    type: DataTypes.DATEONLY,
+    allowNull: true
+  },
+  value: {
+    type: DataTypes.FLOAT,
+    allowNull: true
+  },
+  valueType: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'dependent'
+  },
+  products: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'BenefitPrograms';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initBenefitProgramSchema = (sequelize: Sequelize): SequelizeBenefitProgramModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeBenefitProgramModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+    Schema.belongsTo(models.institutions, {
+      foreignKey: 'institutionId',
+      as: 'institution'
+    });
+    Schema.belongsTo(models.groups, {
+      foreignKey: 'groupId',
+      as: 'group'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+    Schema.hasMany(models.benefitProgramOccurrences, {
+      foreignKey: 'programId',
+      as: 'occurrences'
+    });
+  };
+
+  return Schema;
+};
@@ -1,5 +1,6 @@
 import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
 import { BenefitProduct } from './benefitProducts';
+import { BenefitProgramValueType } from '../utils/constraints';
 
 // Simple item type
 export interface Benefit {
@@ -9,6 +10,10 @@ export interface Benefit {
   title: string;
   date: Date;
   value?: number;
+  // The value is granted to each dependent or once to the family
+  valueType?: BenefitProgramValueType;
+  // Program that generated the benefit, the other ones are created by hand
+  programId?: number | string | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
@@ -59,6 +64,19 @@ export const attributes = {
   value: {
     type: DataTypes.FLOAT,
     allowNull: true
+  },
+  valueType: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'dependent'
+  },
+  programId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'BenefitPrograms',
+      id: 'id'
+    },
+    allowNull: true
   }
 };
 
@@ -88,6 +106,10 @@ export const initBenefitSchema = (sequelize: Sequelize): SequelizeBenefitModel =
       foreignKey: 'groupId',
       as: 'group'
     });
+    Schema.belongsTo(models.benefitPrograms, {
+      foreignKey: 'programId',
+      as: 'program'
+    });
   };
 
   return Schema;
@@ -2,6 +2,7 @@ import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize'
 import { Product } from './products';
 import { User } from './users';
 import { ConsumptionProducts } from './consumptionProducts';
+import { StockShortage } from '../models/stockMovements';
 
 export interface PurchaseData {
   place?: string;
@@ -23,11 +24,24 @@ export interface Consumption {
   familyId: number | string;
   placeStoreId?: number | string;
   nfce?: string;
+  // Data from the NFC-e access key
+  nfceAccessKey?: string | null;
+  nfceUf?: string | null;
+  nfceEmissionMonth?: Date | string | null;
+  nfceCnpj?: string | null;
+  nfceModel?: string | null;
+  nfceSeries?: number | null;
+  nfceNumber?: number | null;
   value?: number;
   invalidValue?: number;
   proofImageUrl?: string;
   reviewedAt?: number | Date | null;
   purchaseData?: PurchaseData;
+  // Scraping retry state, the cron stops trying after scrapeGaveUpAt is set
+  scrapeAttempts?: number;
+  scrapeLastError?: string | null;
+  scrapeNextAttemptAt?: number | Date | null;
+  scrapeGaveUpAt?: number | Date | null;
   deletedBy?: User['id'];
   deleteReason?: string;
   createdAt?: number | Date | null;
@@ -36,6 +50,8 @@ export interface Consumption {
   //Join
   products?: (Product & { amount: number })[] | null;
   consumptionProducts?: ConsumptionProducts[];
+  // Products the store didn't have enough units when the consumption was created
+  stockWarnings?: StockShortage[];
 }
 // Sequelize returns type
 export type SequelizeConsumption = Consumption & Model;
@@ -74,6 +90,34 @@ export const attributes = {
     type: DataTypes.STRING,
     allowNull: true
   },
+  nfceAccessKey: {
+    type: DataTypes.STRING(44),
+    allowNull: true
+  },
+  nfceUf: {
+    type: DataTypes.STRING(2),
+    allowNull: true
+  },
+  nfceEmissionMonth: {
+    type: DataTypes.DATEONLY,
+    allowNull: true
+  },
+  nfceCnpj: {
+    type: DataTypes.STRING(14),
+    allowNull: true
+  },
+  nfceModel: {
+    type: DataTypes.STRING(2),
+    allowNull: true
+  },
+  nfceSeries: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  nfceNumber: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
   value: {
     type: DataTypes.FLOAT,
     allowNull: false
@@ -95,6 +139,23 @@ export const attributes = {
     type: DataTypes.JSON,
     allowNull: true
   },
+  scrapeAttempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  scrapeLastError: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  scrapeNextAttemptAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  scrapeGaveUpAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
   deletedBy: {
     type: DataTypes.INTEGER,
     references: {
@@ -1,4 +1,5 @@
 import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { Family } from './families';
 
 // Simple item type
 export interface Dependent {
@@ -23,6 +24,8 @@ export interface Dependent {
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
+  // Join
+  family?: Family;
 }
 // Sequelize returns type
 export type SequelizeDependent = Dependent & Model;
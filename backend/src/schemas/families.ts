@@ -3,6 +3,21 @@ import Hashids from 'hashids/cjs';
 import { Dependent } from './depedents';
 import { Consumption } from './consumptions';
 import { ProductBalance } from '../models/consumptions';
+import { EligibilityFacts, EvaluatedCondition } from '../utils/eligibility';
+
+// Why the family is on its group, stored when the eligibility rules are evaluated
+export type FamilyGroupExplanation = {
+  // Null when no group matched and the family group was kept
+  groupId: number | string | null;
+  groupTitle: string | null;
+  ruleIndex: number | null;
+  ruleDescription: string | null;
+  conditions: EvaluatedCondition[];
+  facts: EligibilityFacts;
+  // Manual when the group was chosen on the form, without the rules
+  source: 'import' | 'form' | 'manual';
+  evaluatedAt: Date | string;
+};
 
 // Simple item type
 export interface Family {
@@ -32,6 +47,9 @@ export interface Family {
   sewageComment?: string;
   createdById?: number | string;
   placeStoreId?: number | string;
+  // CadÚnico per capita income band (fx_rfpc), kept to evaluate the eligibility rules on later edits
+  incomeBand?: number | null;
+  groupExplanation?: FamilyGroupExplanation | null;
   // Join
   balance?: ProductBalance | number;
   dependents?: Dependent[];
@@ -153,6 +171,14 @@ export const attributes = {
       model: 'Users',
       id: 'id'
     }
+  },
+  incomeBand: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  groupExplanation: {
+    type: DataTypes.JSON,
+    allowNull: true
   }
 };
 
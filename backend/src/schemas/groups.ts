@@ -1,9 +1,33 @@
 import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { EligibilityField, EligibilityOperator } from '../utils/constraints';
+
+export type EligibilityCondition = {
+  field: EligibilityField;
+  operator: EligibilityOperator;
+  // List only with the 'in' operator, boolean only with the isOnGovernProgram field
+  value: number | boolean | number[];
+};
+
+// All the conditions must match for the rule to match
+export type EligibilityRule = {
+  description?: string | null;
+  conditions: EligibilityCondition[];
+};
 
 // Simple item type
 export interface Group {
   readonly id?: number | string;
   title: string;
+  // City that created the item, null when it's shared by every city
+  cityId?: number | string | null;
+  // The family is assigned to the group when any rule matches, groups without rules are never assigned
+  eligibilityRules?: EligibilityRule[] | null;
+  // Groups are evaluated in ascending priority, the first matching group is assigned
+  priority?: number;
+  // Dependents older than it stop receiving the benefits after the month they cross it, null without limit
+  maxDependentAge?: number | null;
+  // First month when the limit is applied, so the benefits already granted don't change
+  maxDependentAgeFrom?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -29,6 +53,31 @@ export const attributes = {
     type: DataTypes.STRING,
     allowNull: false
   },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  eligibilityRules: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  priority: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  maxDependentAge: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  maxDependentAgeFrom: {
+    type: DataTypes.DATEONLY,
+    allowNull: true
+  },
   createdAt: {
     type: DataTypes.DATE,
     allowNull: true
@@ -0,0 +1,216 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { Family } from './families';
+import { Dependent } from './depedents';
+
+export type ImportJobStatus =
+  | 'Em espera'
+  | 'Finalizado'
+  | 'Falhou'
+  | 'Lendo arquivos'
+  | 'Filtrando dados'
+  | 'Salvando'
+  | 'Cruzando dados';
+
+export type ImportJobCounters = {
+  originalFamilyCount?: number;
+  originalSislameCount?: number;
+  originalNurseryCount?: number;
+  filteredFamilyCount?: number;
+  grantedFamilyCount?: number;
+  aboveAgeFamilyCount?: number;
+  aboveAgeSislameCount?: number;
+  foundOnlyNameFamilyCount?: number;
+  grantedAnotherParentCount?: number;
+  notFoundFamilyCount?: number;
+  // Granted families that didn't match the eligibility rules of any group
+  notEligibleFamilyCount?: number;
+  dependentsCount?: number;
+  duplicatedCount?: number;
+  sislameWithoutParentCount?: number;
+  fourteenOrLessGrantedCount?: number;
+  fourteenOrLessFilteredCount?: number;
+};
+
+type ImportDiffFamily = Pick<Family, 'id' | 'responsibleName' | 'responsibleNis'>;
+type ImportDiffDependent = Pick<Dependent, 'id' | 'familyId' | 'name' | 'nis'>;
+
+export type ImportDiff = {
+  families: { create: ImportDiffFamily[]; update: ImportDiffFamily[]; deactivate: ImportDiffFamily[] };
+  dependents: { add: Partial<ImportDiffDependent>[]; remove: ImportDiffDependent[] };
+};
+
+// Simple item type
+export interface ImportJob {
+  readonly id?: number | string;
+  cityId: number | string;
+  status: ImportJobStatus;
+  message?: string | null;
+  percentage?: number | null;
+  inProgress: boolean;
+  // Only compare the files with the DB, without saving anything
+  dryRun?: boolean;
+  // Import that saved the families of the approved dry run
+  committedJobId?: number | string | null;
+  // Differences with the DB found by the dry run
+  diff?: ImportDiff | null;
+  // Families granted by the dry run, they are saved when it's approved
+  grantedFamilies?: Family[] | null;
+  // Approved dry run whose families are saved by this import
+  dryRunId?: number | string | null;
+  counters?: ImportJobCounters;
+  familyFilePath: string;
+  sislameFilePath: string;
+  nurseryFilePath: string;
+  reasonFilePath?: string | null;
+  retryOfId?: number | string | null;
+  startedById?: number | string | null;
+  startedAt?: number | Date | null;
+  finishedAt?: number | Date | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+}
+// Sequelize returns type
+export type SequelizeImportJob = ImportJob & Model;
+// Sequelize model type
+export type SequelizeImportJobModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeImportJob;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  message: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  percentage: {
+    type: DataTypes.FLOAT,
+    allowNull: true
+  },
+  inProgress: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  },
+  dryRun: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  },
+  committedJobId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ImportJobs',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  diff: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  grantedFamilies: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  dryRunId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ImportJobs',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  counters: {
+    type: DataTypes.JSON,
+    allowNull: true
+  },
+  familyFilePath: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  sislameFilePath: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  nurseryFilePath: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  reasonFilePath: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  retryOfId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ImportJobs',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  startedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  startedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  finishedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+};
+
+const tableName = 'ImportJobs';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initImportJobSchema = (sequelize: Sequelize): SequelizeImportJobModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeImportJobModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.cities, {
+      foreignKey: 'cityId',
+      as: 'city'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'startedById',
+      as: 'startedBy'
+    });
+    Schema.belongsTo(models.importJobs, {
+      foreignKey: 'retryOfId',
+      as: 'retryOf'
+    });
+  };
+
+  return Schema;
+};
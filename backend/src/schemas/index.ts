@@ -12,6 +12,25 @@ import { initProductSchema } from './products';
 import { initBenefitProductSchema } from './benefitProducts';
 import { initConsumptionProductsSchema } from './consumptionProducts';
 import { initGroupSchema } from './groups';
+import { initImportJobSchema } from './importJobs';
+import { initProductAliasSchema } from './productAliases';
+import { initProductCategorySchema } from './productCategories';
+import { initProductCategoryRuleSchema } from './productCategoryRules';
+import { initProductCityOverrideSchema } from './productCityOverrides';
+import { initAuditLogSchema } from './auditLogs';
+import { initRefreshTokenSchema } from './refreshTokens';
+import { initUserTokenSchema } from './userTokens';
+import { initApiClientSchema } from './apiClients';
+import { initApiClientNonceSchema } from './apiClientNonces';
+import { initBeneficiaryChallengeSchema } from './beneficiaryChallenges';
+import { initLedgerEntrySchema } from './ledgerEntries';
+import { initLedgerMismatchSchema } from './ledgerMismatches';
+import { initBalanceAdjustmentSchema } from './balanceAdjustments';
+import { initBenefitPolicySchema } from './benefitPolicies';
+import { initBenefitPolicyExceptionSchema } from './benefitPolicyExceptions';
+import { initBenefitProgramSchema } from './benefitPrograms';
+import { initBenefitProgramOccurrenceSchema } from './benefitProgramOccurrences';
+import { initStockMovementSchema } from './stockMovements';
 
 import * as config from '../../database/config';
 
@@ -31,7 +50,26 @@ const db = {
   products: initProductSchema(sequelize),
   benefitProducts: initBenefitProductSchema(sequelize),
   consumptionProducts: initConsumptionProductsSchema(sequelize),
-  groups: initGroupSchema(sequelize)
+  groups: initGroupSchema(sequelize),
+  importJobs: initImportJobSchema(sequelize),
+  productAliases: initProductAliasSchema(sequelize),
+  productCategories: initProductCategorySchema(sequelize),
+  productCategoryRules: initProductCategoryRuleSchema(sequelize),
+  productCityOverrides: initProductCityOverrideSchema(sequelize),
+  auditLogs: initAuditLogSchema(sequelize),
+  refreshTokens: initRefreshTokenSchema(sequelize),
+  userTokens: initUserTokenSchema(sequelize),
+  apiClients: initApiClientSchema(sequelize),
+  apiClientNonces: initApiClientNonceSchema(sequelize),
+  beneficiaryChallenges: initBeneficiaryChallengeSchema(sequelize),
+  ledgerEntries: initLedgerEntrySchema(sequelize),
+  ledgerMismatches: initLedgerMismatchSchema(sequelize),
+  balanceAdjustments: initBalanceAdjustmentSchema(sequelize),
+  benefitPolicies: initBenefitPolicySchema(sequelize),
+  benefitPolicyExceptions: initBenefitPolicyExceptionSchema(sequelize),
+  benefitPrograms: initBenefitProgramSchema(sequelize),
+  benefitProgramOccurrences: initBenefitProgramOccurrenceSchema(sequelize),
+  stockMovements: initStockMovementSchema(sequelize)
 };
 
 // Creating DB relations
@@ -0,0 +1,113 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { LedgerEntryType } from '../utils/constraints';
+import { Family } from './families';
+
+// Simple item type, a credit (positive value) or debit (negative value) on the family balance
+export interface LedgerEntry {
+  readonly id?: number | string;
+  familyId: number | string;
+  type: LedgerEntryType;
+  value: number;
+  // Date when the entry takes effect on the balance
+  date: number | Date;
+  // Source of the entry, the IDs are kept even if the source is removed
+  benefitId?: number | string | null;
+  dependentId?: number | string | null;
+  consumptionId?: number | string | null;
+  adjustmentId?: number | string | null;
+  description?: string | null;
+  createdAt?: number | Date | null;
+  //Join
+  family?: Family;
+}
+// Sequelize returns type
+export type SequelizeLedgerEntry = LedgerEntry & Model;
+// Sequelize model type
+export type SequelizeLedgerEntryModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeLedgerEntry;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  familyId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Families',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  type: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  value: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  date: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  benefitId: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  dependentId: {
+    type: DataTypes.INTEGER,
+    allowNull: true
+  },
+  consumptionId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Consumptions',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  adjustmentId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'BalanceAdjustments',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  description: {
+    type: DataTypes.STRING,
+    allowNull: true
+  }
+};
+
+const tableName = 'LedgerEntries';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initLedgerEntrySchema = (sequelize: Sequelize): SequelizeLedgerEntryModel => {
+  // Append only table, without updatedAt
+  const Schema = sequelize.define(tableName, attributes, {
+    timestamps: true,
+    updatedAt: false
+  }) as SequelizeLedgerEntryModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.families, {
+      foreignKey: 'familyId',
+      as: 'family'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,81 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { Family } from './families';
+
+// Simple item type, a family where the ledger balance is not the same as the legacy computation
+export interface LedgerMismatch {
+  readonly id?: number | string;
+  familyId: number | string;
+  ledgerBalance: number;
+  legacyBalance: number;
+  // Ledger balance minus the legacy balance
+  difference: number;
+  checkedAt: number | Date;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  family?: Family;
+}
+// Sequelize returns type
+export type SequelizeLedgerMismatch = LedgerMismatch & Model;
+// Sequelize model type
+export type SequelizeLedgerMismatchModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeLedgerMismatch;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  familyId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Families',
+      id: 'id'
+    },
+    allowNull: false,
+    unique: true
+  },
+  ledgerBalance: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  legacyBalance: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  difference: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  checkedAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  }
+};
+
+const tableName = 'LedgerMismatches';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initLedgerMismatchSchema = (sequelize: Sequelize): SequelizeLedgerMismatchModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeLedgerMismatchModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.families, {
+      foreignKey: 'familyId',
+      as: 'family'
+    });
+  };
+
+  return Schema;
+};
@@ -1,5 +1,6 @@
 import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
 import { Family } from './families';
+import { StockPolicy } from '../utils/constraints';
 
 // Simple item type
 export interface PlaceStore {
@@ -12,6 +13,10 @@ export interface PlaceStore {
   responsibleName?: string;
   responsiblePhone?: string;
   responsibleEmail?: string;
+  // Reject or only warn the consumptions with more products than the store has
+  stockPolicy?: StockPolicy;
+  // Products with fewer units on the store are shown on the low stock alerts
+  minimumStock?: number | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
@@ -74,6 +79,15 @@ export const attributes = {
   responsibleEmail: {
     type: DataTypes.STRING,
     allowNull: true
+  },
+  stockPolicy: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'warn'
+  },
+  minimumStock: {
+    type: DataTypes.INTEGER,
+    allowNull: true
   }
 };
 
@@ -109,6 +123,10 @@ export const initPlaceStoreSchema = (sequelize: Sequelize): SequelizePlaceStoreM
       foreignKey: 'placeStoreId',
       as: 'families'
     });
+    Schema.hasMany(models.stockMovements, {
+      foreignKey: 'placeStoreId',
+      as: 'stockMovements'
+    });
   };
 
   return Schema;
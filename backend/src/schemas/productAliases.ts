@@ -0,0 +1,105 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { Product } from './products';
+import { User } from './users';
+
+// auto: matched with high confidence, pending: waiting for the review, approved/rejected: reviewed by a user
+export type ProductAliasStatus = 'auto' | 'pending' | 'approved' | 'rejected';
+
+// Simple item type
+export interface ProductAlias {
+  readonly id?: number | string;
+  // Normalized product name
+  name: string;
+  // Name found on the first receipt
+  originalName: string;
+  productId: number | string;
+  confidence: number;
+  status: ProductAliasStatus;
+  reviewedById?: number | string | null;
+  reviewedAt?: number | Date | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  product?: Product;
+  reviewedBy?: User;
+}
+// Sequelize returns type
+export type SequelizeProductAlias = ProductAlias & Model;
+// Sequelize model type
+export type SequelizeProductAliasModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeProductAlias;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  name: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true
+  },
+  originalName: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  productId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Products',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  confidence: {
+    type: DataTypes.FLOAT,
+    allowNull: false
+  },
+  status: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  reviewedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  reviewedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  }
+};
+
+const tableName = 'ProductAliases';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initProductAliasSchema = (sequelize: Sequelize): SequelizeProductAliasModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeProductAliasModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.products, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'reviewedById',
+      as: 'reviewedBy'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,83 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { ProductCategoryRule } from './productCategoryRules';
+
+// Simple item type
+export interface ProductCategory {
+  readonly id?: number | string;
+  name: string;
+  parentId?: number | string | null;
+  // Validity of the products on this category, null inherits from the parent category
+  isValid?: boolean | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+  //Join
+  rules?: ProductCategoryRule[];
+}
+// Sequelize returns type
+export type SequelizeProductCategory = ProductCategory & Model;
+// Sequelize model type
+export type SequelizeProductCategoryModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeProductCategory;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  name: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  parentId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ProductCategories',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  isValid: {
+    type: DataTypes.BOOLEAN,
+    allowNull: true,
+    defaultValue: null
+  }
+};
+
+const tableName = 'ProductCategories';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initProductCategorySchema = (sequelize: Sequelize): SequelizeProductCategoryModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeProductCategoryModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.productCategories, {
+      foreignKey: 'parentId',
+      as: 'parent'
+    });
+    Schema.hasMany(models.productCategories, {
+      foreignKey: 'parentId',
+      as: 'children'
+    });
+    Schema.hasMany(models.productCategoryRules, {
+      foreignKey: 'categoryId',
+      as: 'rules'
+    });
+    Schema.hasMany(models.products, {
+      foreignKey: 'categoryId',
+      as: 'products'
+    });
+  };
+
+  return Schema;
+};
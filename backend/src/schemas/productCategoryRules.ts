@@ -0,0 +1,75 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+
+// Simple item type
+export interface ProductCategoryRule {
+  readonly id?: number | string;
+  categoryId?: number | string;
+  // Families of this group follow this rule instead of the category validity
+  groupId: number | string;
+  isValid: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+// Sequelize returns type
+export type SequelizeProductCategoryRule = ProductCategoryRule & Model;
+// Sequelize model type
+export type SequelizeProductCategoryRuleModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeProductCategoryRule;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  categoryId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ProductCategories',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  groupId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Groups',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  isValid: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false
+  }
+};
+
+const tableName = 'ProductCategoryRules';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initProductCategoryRuleSchema = (sequelize: Sequelize): SequelizeProductCategoryRuleModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeProductCategoryRuleModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.productCategories, {
+      foreignKey: 'categoryId',
+      as: 'category'
+    });
+    Schema.belongsTo(models.groups, {
+      foreignKey: 'groupId',
+      as: 'group'
+    });
+  };
+
+  return Schema;
+};
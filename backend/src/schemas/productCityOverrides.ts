@@ -0,0 +1,86 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+
+// Simple item type
+export interface ProductCityOverride {
+  readonly id?: number | string;
+  // Shared product, the products created by a city are changed directly
+  productId: number | string;
+  cityId: number | string;
+  // Replace the product validity and category for the families of the city
+  isValid?: boolean | null;
+  categoryId?: number | string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+// Sequelize returns type
+export type SequelizeProductCityOverride = ProductCityOverride & Model;
+// Sequelize model type
+export type SequelizeProductCityOverrideModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeProductCityOverride;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  productId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Products',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  isValid: {
+    type: DataTypes.BOOLEAN,
+    allowNull: true,
+    defaultValue: null
+  },
+  categoryId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ProductCategories',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'ProductCityOverrides';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initProductCityOverrideSchema = (sequelize: Sequelize): SequelizeProductCityOverrideModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeProductCityOverrideModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.products, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+    Schema.belongsTo(models.productCategories, {
+      foreignKey: 'categoryId',
+      as: 'category'
+    });
+  };
+
+  return Schema;
+};
@@ -4,7 +4,11 @@ import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize'
 export interface Product {
   readonly id?: number | string;
   name: string;
+  // Manual validity, used while the product has no category
   isValid?: boolean | null;
+  categoryId?: number | string | null;
+  // City that created the item, null when it's shared by every city
+  cityId?: number | string | null;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -35,6 +39,22 @@ export const attributes = {
     allowNull: true,
     defaultValue: null
   },
+  categoryId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'ProductCategories',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  cityId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Cities',
+      id: 'id'
+    },
+    allowNull: true
+  },
   createdAt: {
     type: DataTypes.DATE,
     allowNull: true
@@ -70,6 +90,18 @@ export const initProductSchema = (sequelize: Sequelize): SequelizeProductModel =
       foreignKey: 'productId',
       as: 'benefitProducts'
     });
+    Schema.belongsTo(models.productCategories, {
+      foreignKey: 'categoryId',
+      as: 'category'
+    });
+    Schema.hasMany(models.productAliases, {
+      foreignKey: 'productId',
+      as: 'aliases'
+    });
+    Schema.hasMany(models.productCityOverrides, {
+      foreignKey: 'productId',
+      as: 'cityOverrides'
+    });
   };
 
   return Schema;
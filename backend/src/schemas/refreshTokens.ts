@@ -0,0 +1,105 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { User } from './users';
+
+// Simple item type, each row is a login session of the user
+export interface RefreshToken {
+  readonly id?: number | string;
+  userId: number | string;
+  // SHA-256 of the refresh token, the token itself is never stored
+  tokenHash: string;
+  userAgent?: string | null;
+  ip?: string | null;
+  expiresAt: number | Date;
+  lastUsedAt?: number | Date | null;
+  revokedAt?: number | Date | null;
+  // Token created when this one was rotated
+  replacedById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  user?: User;
+}
+// Sequelize returns type
+export type SequelizeRefreshToken = RefreshToken & Model;
+// Sequelize model type
+export type SequelizeRefreshTokenModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeRefreshToken;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  userId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  userAgent: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  ip: {
+    type: DataTypes.STRING,
+    allowNull: true
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  lastUsedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  revokedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  replacedById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'RefreshTokens',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'RefreshTokens';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initRefreshTokenSchema = (sequelize: Sequelize): SequelizeRefreshTokenModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeRefreshTokenModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.users, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+    Schema.belongsTo(models.refreshTokens, {
+      foreignKey: 'replacedById',
+      as: 'replacedBy'
+    });
+  };
+
+  return Schema;
+};
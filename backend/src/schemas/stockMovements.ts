@@ -0,0 +1,134 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { StockMovementType } from '../utils/constraints';
+import { PlaceStore } from './placeStores';
+import { Product } from './products';
+import { User } from './users';
+
+// Simple item type, an entry (positive amount) or exit (negative amount) of units of a product on a store
+export interface StockMovement {
+  readonly id?: number | string;
+  placeStoreId: number | string;
+  productId: number | string;
+  type: StockMovementType;
+  amount: number;
+  // Other store of a transfer
+  relatedPlaceStoreId?: number | string | null;
+  // Consumption that distributed the products to a family
+  consumptionId?: number | string | null;
+  note?: string | null;
+  // Null on the movements made by the consumptions
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  //Join
+  placeStore?: PlaceStore;
+  relatedPlaceStore?: PlaceStore;
+  product?: Product;
+  createdBy?: User;
+}
+// Sequelize returns type
+export type SequelizeStockMovement = StockMovement & Model;
+// Sequelize model type
+export type SequelizeStockMovementModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeStockMovement;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  placeStoreId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'PlaceStores',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  productId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Products',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  type: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  amount: {
+    type: DataTypes.INTEGER,
+    allowNull: false
+  },
+  relatedPlaceStoreId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'PlaceStores',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  consumptionId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Consumptions',
+      id: 'id'
+    },
+    allowNull: true
+  },
+  note: {
+    type: DataTypes.TEXT,
+    allowNull: true
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'StockMovements';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initStockMovementSchema = (sequelize: Sequelize): SequelizeStockMovementModel => {
+  // Append only table, without updatedAt
+  const Schema = sequelize.define(tableName, attributes, {
+    timestamps: true,
+    updatedAt: false
+  }) as SequelizeStockMovementModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.placeStores, {
+      foreignKey: 'placeStoreId',
+      as: 'placeStore'
+    });
+    Schema.belongsTo(models.placeStores, {
+      foreignKey: 'relatedPlaceStoreId',
+      as: 'relatedPlaceStore'
+    });
+    Schema.belongsTo(models.products, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+  };
+
+  return Schema;
+};
@@ -0,0 +1,97 @@
+import { Sequelize, Model, DataTypes, BuildOptions, ModelCtor } from 'sequelize';
+import { User } from './users';
+
+// reset: forgotten password link, invite: first access link sent by an admin
+export type UserTokenType = 'reset' | 'invite';
+
+// Simple item type
+export interface UserToken {
+  readonly id?: number | string;
+  userId: number | string;
+  type: UserTokenType;
+  // SHA-256 of the token sent by email, the token itself is never stored
+  tokenHash: string;
+  expiresAt: number | Date;
+  usedAt?: number | Date | null;
+  createdById?: number | string | null;
+  createdAt?: number | Date | null;
+  updatedAt?: number | Date | null;
+  //Join
+  user?: User;
+}
+// Sequelize returns type
+export type SequelizeUserToken = UserToken & Model;
+// Sequelize model type
+export type SequelizeUserTokenModel = typeof Model & {
+  new (values?: object, options?: BuildOptions): SequelizeUserToken;
+  associate: (models: { [key: string]: ModelCtor<Model> }) => void;
+};
+
+/**
+ * Sequelize attributes for this table
+ */
+export const attributes = {
+  id: {
+    type: DataTypes.INTEGER,
+    primaryKey: true,
+    autoIncrement: true
+  },
+  userId: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: false
+  },
+  type: {
+    type: DataTypes.STRING,
+    allowNull: false
+  },
+  tokenHash: {
+    type: DataTypes.STRING(64),
+    allowNull: false,
+    unique: true
+  },
+  expiresAt: {
+    type: DataTypes.DATE,
+    allowNull: false
+  },
+  usedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  createdById: {
+    type: DataTypes.INTEGER,
+    references: {
+      model: 'Users',
+      id: 'id'
+    },
+    allowNull: true
+  }
+};
+
+const tableName = 'UserTokens';
+
+/**
+ * Sequelize model initializer function
+ * @param sequelize - Sequelize instance
+ * @returns Schema - Sequelize model
+ */
+export const initUserTokenSchema = (sequelize: Sequelize): SequelizeUserTokenModel => {
+  const Schema = sequelize.define(tableName, attributes, { timestamps: true }) as SequelizeUserTokenModel;
+
+  Schema.associate = (models): void => {
+    // Sequelize relations
+    Schema.belongsTo(models.users, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+    Schema.belongsTo(models.users, {
+      foreignKey: 'createdById',
+      as: 'createdBy'
+    });
+  };
+
+  return Schema;
+};
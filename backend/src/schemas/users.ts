@@ -12,6 +12,11 @@ export interface User {
   email?: string;
   password: string;
   active: boolean;
+  // Set when the password was defined by an admin, the user must choose a new one on the next login
+  mustChangePassword?: boolean;
+  passwordChangedAt?: number | Date | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: number | Date | null;
   createdAt?: number | Date | null;
   updatedAt?: number | Date | null;
   deletedAt?: number | Date | null;
@@ -72,6 +77,24 @@ export const attributes = {
   active: {
     type: DataTypes.BOOLEAN,
     allowNull: false
+  },
+  mustChangePassword: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false
+  },
+  passwordChangedAt: {
+    type: DataTypes.DATE,
+    allowNull: true
+  },
+  failedLoginAttempts: {
+    type: DataTypes.INTEGER,
+    allowNull: false,
+    defaultValue: 0
+  },
+  lockedUntil: {
+    type: DataTypes.DATE,
+    allowNull: true
   }
 };
 
@@ -0,0 +1,3 @@
+import { replayConsumptionScraping } from '../cron/consumptionScraping';
+
+replayConsumptionScraping();
@@ -1,9 +1,13 @@
 import { User } from '../../schemas/users';
 import { City } from '../../schemas/cities';
+import { ApiClient } from '../../schemas/apiClients';
+import { BeneficiarySession } from '../../models/beneficiaryAuth';
 
 declare module 'express-serve-static-core' {
   export interface Request {
     user?: User;
+    apiClient?: ApiClient;
+    beneficiary?: BeneficiarySession;
   }
   export interface IncomingHttpHeaders {
     ['city-id']?: City['id'];
@@ -13,5 +17,7 @@ declare module 'express-serve-static-core' {
 declare namespace Express {
   export interface Request {
     user?: User;
+    apiClient?: ApiClient;
+    beneficiary?: BeneficiarySession;
   }
 }
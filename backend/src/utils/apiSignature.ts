@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+
+export type SignatureData = {
+  keyId: string;
+  // Request time, in milliseconds
+  timestamp: string;
+  // Random value, used only once by each client
+  nonce: string;
+  signature: string;
+};
+
+export type SignedRequest = {
+  method: string;
+  // Path with the query string
+  path: string;
+  timestamp: string;
+  nonce: string;
+};
+
+// Authorization header scheme
+export const signatureScheme = 'HMAC-SHA256';
+
+// Accepted difference between the request timestamp and the server clock, in milliseconds
+export const signatureMaxAge = 5 * 60 * 1000;
+
+/**
+ * Read the signature data from the authorization header
+ *
+ * Format: `HMAC-SHA256 keyId="...", timestamp="...", nonce="...", signature="..."`
+ * @param header authorization header
+ * @returns signature data, null when the header is invalid
+ */
+export const parseSignatureHeader = (header?: string | null): SignatureData | null => {
+  if (!header || !header.startsWith(`${signatureScheme} `)) return null;
+  const values: { [key: string]: string } = {};
+  const regex = /(\w+)="([^"]*)"/g;
+  let match = regex.exec(header);
+  while (match) {
+    values[match[1]] = match[2];
+    match = regex.exec(header);
+  }
+  const { keyId, timestamp, nonce, signature } = values;
+  if (!keyId || !timestamp || !nonce || !signature) return null;
+  return { keyId, timestamp, nonce, signature };
+};
+
+/**
+ * Get the text signed by the client
+ * @param request request data
+ * @returns text to be signed
+ */
+export const getSignaturePayload = (request: SignedRequest) =>
+  [request.method.toUpperCase(), request.path, request.timestamp, request.nonce].join('\n');
+
+/**
+ * Sign the request with the client key
+ * @param secret client key
+ * @param request request data
+ * @returns hex encoded signature
+ */
+export const signRequest = (secret: string, request: SignedRequest) =>
+  crypto.createHmac('sha256', secret).update(getSignaturePayload(request)).digest('hex');
+
+/**
+ * Check if the request was signed with the client key, comparing in constant time
+ * @param secret client key
+ * @param request request data
+ * @param signature signature sent by the client
+ * @returns boolean
+ */
+export const isValidSignature = (secret: string, request: SignedRequest, signature: string) => {
+  const expected = Buffer.from(signRequest(secret, request), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+/**
+ * Check if the request timestamp is close enough to the server clock
+ * @param timestamp request time, in milliseconds
+ * @param now server time, in milliseconds
+ * @returns boolean
+ */
+export const isValidTimestamp = (timestamp: string, now = Date.now()) => {
+  const time = Number(timestamp);
+  return !isNaN(time) && Math.abs(now - time) <= signatureMaxAge;
+};
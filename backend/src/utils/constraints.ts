@@ -1,29 +1,62 @@
-export const familyGroupList = [
-  { id: 1, code: 0, title: 'Bolsa família com filho na escola pública', key: 'children' },
-  { id: 2, code: 1, title: 'Extrema pobreza', key: 'extreme-poverty' },
-  { id: 3, code: 2, title: 'Linha da pobreza', key: 'poverty-line' },
-  { id: 4, code: 3, title: 'Perfil CAD único', key: 'cad' },
-  { id: 4, code: 4, title: 'Perfil CAD único', key: 'cad' } // 3 and 4 will be grouped
-];
-
-/**
- * Return family group object by the code
- * @param code defined family code
- * @returns family code item or undefined
- */
-export const getFamilyGroupByCode = (code: number | string) => {
-  return familyGroupList.find((group) => group.code.toString() === code.toString()) || familyGroupList[0];
-};
-
-/**
- * Return family group object by the key
- * @param key defined object key
- * @returns family code item or undefined
- */
-export const getFamilyGroupByKey = (key: string) => {
-  return familyGroupList.find((group) => group.key === key);
-};
-
-export const allowedNISList = [] as string[];
-
-export const allowedNamesList = [] as string[];
+export const roleList = ['superadmin', 'admin', 'operator', 'manager', 'financial', 'cashier'] as const;
+
+export type Role = typeof roleList[number];
+
+export const ledgerEntryTypeList = [
+  'benefit',
+  'benefit-correction',
+  'consumption',
+  'consumption-reversal',
+  'invalid-value',
+  'adjustment'
+] as const;
+
+export type LedgerEntryType = typeof ledgerEntryTypeList[number];
+
+export const balanceAdjustmentStatusList = ['pending', 'approved', 'rejected'] as const;
+
+export type BalanceAdjustmentStatus = typeof balanceAdjustmentStatusList[number];
+
+export const stockMovementTypeList = [
+  'receipt',
+  'transfer-in',
+  'transfer-out',
+  'distribution',
+  'distribution-reversal',
+  'loss'
+] as const;
+
+export type StockMovementType = typeof stockMovementTypeList[number];
+
+// What happens when a consumption takes more products than the store has
+export const stockPolicyList = ['warn', 'reject'] as const;
+
+export type StockPolicy = typeof stockPolicyList[number];
+
+export const benefitPolicyExceptionTypeList = ['nis', 'name'] as const;
+
+export type BenefitPolicyExceptionType = typeof benefitPolicyExceptionTypeList[number];
+
+export const benefitProgramValueTypeList = ['dependent', 'family'] as const;
+
+export type BenefitProgramValueType = typeof benefitProgramValueTypeList[number];
+
+export const benefitOccurrenceStatusList = ['scheduled', 'skipped', 'generated'] as const;
+
+export type BenefitOccurrenceStatus = typeof benefitOccurrenceStatusList[number];
+
+export const eligibilityFieldList = [
+  'incomeBand',
+  'perCapitaIncome',
+  'dependentsCount',
+  'youngestDependentAge',
+  'oldestDependentAge',
+  'schoolEnrolledCount',
+  'isOnGovernProgram'
+] as const;
+
+export type EligibilityField = typeof eligibilityFieldList[number];
+
+export const eligibilityOperatorList = ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'in'] as const;
+
+export type EligibilityOperator = typeof eligibilityOperatorList[number];
@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 
 /**
  * Check if a string is a bcrypt hash
@@ -30,3 +31,14 @@ export const encrypt = (value: string) => {
 export const compareHash = (value: string, hash: string) => {
   return bcrypt.compare(value, hash);
 };
+
+/**
+ * Hash a random token with SHA-256
+ *
+ * Used for long random values (like the refresh tokens), that must be found by the hash on the DB
+ * @param value token to be hashed
+ * @returns hex encoded hash
+ */
+export const hashToken = (value: string) => {
+  return crypto.createHash('sha256').update(value).digest('hex');
+};
@@ -0,0 +1,251 @@
+import moment from 'moment';
+import { EligibilityCondition, EligibilityRule, Group } from '../schemas/groups';
+import { Family, FamilyGroupExplanation } from '../schemas/families';
+import { Dependent } from '../schemas/depedents';
+import { EligibilityField, eligibilityFieldList, eligibilityOperatorList } from './constraints';
+
+// Values of the family compared with the rules, null when the value is unknown
+export type EligibilityFacts = {
+  [field in Exclude<EligibilityField, 'isOnGovernProgram'>]: number | null;
+} & { isOnGovernProgram: boolean };
+
+export type EvaluatedCondition = EligibilityCondition & {
+  actual: number | boolean | null;
+  matched: boolean;
+};
+
+export type AgeLimit = Pick<Group, 'maxDependentAge' | 'maxDependentAgeFrom'>;
+
+/**
+ * Collect the family values used by the eligibility rules
+ * @param family family with the declared values
+ * @param dependents family members, the deactivated ones are ignored
+ * @param today date used to calculate the ages
+ * @returns facts of the family
+ */
+export const getEligibilityFacts = (
+  family: Pick<Family, 'totalSalary' | 'isOnGovernProgram' | 'incomeBand'>,
+  dependents: Pick<Dependent, 'birthday' | 'schoolName' | 'isResponsible' | 'deactivatedAt'>[] = [],
+  today: moment.MomentInput = new Date()
+): EligibilityFacts => {
+  const active = dependents.filter((dependent) => !dependent.deactivatedAt);
+  const children = active.filter((dependent) => !dependent.isResponsible);
+  const ages = children
+    .filter((dependent) => dependent.birthday)
+    .map((dependent) => moment(today).diff(moment(dependent.birthday), 'years'));
+  // On ticket cities the responsible is not a dependent, but it's a member of the family
+  const members = active.length + (active.some((dependent) => dependent.isResponsible) ? 0 : 1);
+  const hasSalary = family.totalSalary !== undefined && family.totalSalary !== null;
+  const incomeBand = Number(family.incomeBand);
+  return {
+    incomeBand:
+      family.incomeBand !== undefined && family.incomeBand !== null && Number.isInteger(incomeBand) ? incomeBand : null,
+    perCapitaIncome: hasSalary ? Math.round((Number(family.totalSalary) / members) * 100) / 100 : null,
+    dependentsCount: children.length,
+    youngestDependentAge: ages.length > 0 ? Math.min(...ages) : null,
+    oldestDependentAge: ages.length > 0 ? Math.max(...ages) : null,
+    schoolEnrolledCount: children.filter((dependent) => dependent.schoolName && dependent.schoolName.trim()).length,
+    isOnGovernProgram: !!family.isOnGovernProgram
+  };
+};
+
+/**
+ * Compare a single condition with the family facts, unknown values never match
+ * @param condition rule condition
+ * @param facts facts of the family
+ * @returns condition with the family value and the result
+ */
+export const evaluateCondition = (condition: EligibilityCondition, facts: EligibilityFacts): EvaluatedCondition => {
+  const actual = facts[condition.field];
+  const value = condition.value;
+  let matched = false;
+  if (actual !== null) {
+    switch (condition.operator) {
+      case 'eq':
+        matched = actual === value;
+        break;
+      case 'ne':
+        matched = actual !== value;
+        break;
+      case 'lt':
+        matched = actual < value;
+        break;
+      case 'lte':
+        matched = actual <= value;
+        break;
+      case 'gt':
+        matched = actual > value;
+        break;
+      case 'gte':
+        matched = actual >= value;
+        break;
+      case 'in':
+        matched = Array.isArray(value) && value.some((item) => item === actual);
+        break;
+    }
+  }
+  return { ...condition, actual, matched };
+};
+
+/**
+ * Find the group of the family, evaluating the groups in ascending priority
+ * @param groups groups available to the family city
+ * @param facts facts of the family
+ * @param source where the evaluation was started
+ * @param today evaluation date
+ * @returns matched group, null when no rule matched, and the explanation to be stored on the family
+ */
+export const findEligibleGroup = (
+  groups: Group[],
+  facts: EligibilityFacts,
+  source: FamilyGroupExplanation['source'],
+  today: moment.MomentInput = new Date()
+): { group: Group | null; explanation: FamilyGroupExplanation } => {
+  const sorted = [...groups].sort((a, b) => (a.priority || 0) - (b.priority || 0) || Number(a.id) - Number(b.id));
+  for (const group of sorted) {
+    const rules = group.eligibilityRules || [];
+    for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+      const conditions = rules[ruleIndex].conditions.map((condition) => evaluateCondition(condition, facts));
+      if (conditions.every((condition) => condition.matched)) {
+        return {
+          group,
+          explanation: {
+            groupId: group.id as number,
+            groupTitle: group.title,
+            ruleIndex,
+            ruleDescription: rules[ruleIndex].description || null,
+            conditions,
+            facts,
+            source,
+            evaluatedAt: moment(today).toDate()
+          }
+        };
+      }
+    }
+  }
+  return {
+    group: null,
+    explanation: {
+      groupId: null,
+      groupTitle: null,
+      ruleIndex: null,
+      ruleDescription: null,
+      conditions: [],
+      facts,
+      source,
+      evaluatedAt: moment(today).toDate()
+    }
+  };
+};
+
+/**
+ * Explain a group chosen by the user instead of the eligibility rules
+ * @param group chosen group
+ * @param facts facts of the family when the group was chosen
+ * @param today date of the choice
+ * @returns explanation to be stored on the family
+ */
+export const getManualGroupExplanation = (
+  group: Pick<Group, 'id' | 'title'>,
+  facts: EligibilityFacts,
+  today: moment.MomentInput = new Date()
+): FamilyGroupExplanation => ({
+  groupId: group.id as number,
+  groupTitle: group.title,
+  ruleIndex: null,
+  ruleDescription: null,
+  conditions: [],
+  facts,
+  source: 'manual',
+  evaluatedAt: moment(today).toDate()
+});
+
+/**
+ * Check if a rule value can be compared as a number
+ * @param value value sent by the user
+ * @returns true for numbers and numeric strings
+ */
+const isNumericValue = (value: unknown) =>
+  (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) && Number.isFinite(Number(value));
+
+/**
+ * Check the eligibility rules of a group
+ * @param rules rules sent by the user
+ * @returns only the values that can be stored on the group
+ */
+export const checkEligibilityRules = (rules: unknown): EligibilityRule[] => {
+  if (rules === undefined || rules === null) return [];
+  if (!Array.isArray(rules)) throw { status: 412, message: 'Regras de elegibilidade inválidas' };
+  return rules.map((rule: Partial<EligibilityRule>, index) => {
+    const conditions = rule?.conditions || [];
+    if (conditions.length < 1) throw { status: 412, message: `A regra ${index + 1} não tem condições` };
+    return {
+      description: rule.description ? `${rule.description}`.trim() : null,
+      conditions: conditions.map((condition) => {
+        if (!condition || eligibilityFieldList.indexOf(condition.field) < 0) {
+          throw { status: 412, message: `A regra ${index + 1} tem um campo inválido` };
+        }
+        if (eligibilityOperatorList.indexOf(condition.operator) < 0) {
+          throw { status: 412, message: `A regra ${index + 1} tem um operador inválido` };
+        }
+        if (condition.field === 'isOnGovernProgram') {
+          if (typeof condition.value !== 'boolean' || ['eq', 'ne'].indexOf(condition.operator) < 0) {
+            throw { status: 412, message: `A regra ${index + 1} deve comparar o programa do governo com sim ou não` };
+          }
+          return { field: condition.field, operator: condition.operator, value: condition.value };
+        }
+        const values = condition.operator === 'in' ? condition.value : [condition.value];
+        if (!Array.isArray(values) || values.length < 1 || values.some((value) => !isNumericValue(value))) {
+          throw { status: 412, message: `A regra ${index + 1} tem um valor inválido` };
+        }
+        const numbers = values.map(Number);
+        return {
+          field: condition.field,
+          operator: condition.operator,
+          value: condition.operator === 'in' ? numbers : numbers[0]
+        };
+      })
+    };
+  });
+};
+
+/**
+ * Get when the dependent stops receiving the benefits because of the group age limit
+ *
+ * The dependent receives the benefits of the month it crosses the limit, and the limit is never applied
+ * before the month it was configured, so the benefits already granted don't change
+ * @param dependent the dependent
+ * @param group family group with the age limit
+ * @returns end of the last month with benefits, null when the group has no limit
+ */
+export const getDependentAgeOutDate = (
+  dependent: Pick<Dependent, 'birthday'>,
+  group?: AgeLimit | null
+): Date | null => {
+  if (!group || group.maxDependentAge === null || group.maxDependentAge === undefined || !dependent.birthday) {
+    return null;
+  }
+  const crossing = moment(dependent.birthday)
+    .add(Number(group.maxDependentAge) + 1, 'years')
+    .endOf('month');
+  const beforeLimit = group.maxDependentAgeFrom
+    ? moment(group.maxDependentAgeFrom, 'YYYY-MM-DD').subtract(1, 'month').endOf('month')
+    : null;
+  return (beforeLimit && beforeLimit.isAfter(crossing) ? beforeLimit : crossing).toDate();
+};
+
+/**
+ * Get the last date when the dependent receives the benefits, the earliest of the deactivation and the age out
+ * @param dependent the dependent
+ * @param group family group with the age limit
+ * @returns last date, null when the dependent keeps receiving the benefits
+ */
+export const getDependentEndDate = (
+  dependent: Pick<Dependent, 'birthday' | 'deactivatedAt'>,
+  group?: AgeLimit | null
+): Date | null => {
+  const ageOut = getDependentAgeOutDate(dependent, group);
+  const deactivatedAt = dependent.deactivatedAt ? moment(dependent.deactivatedAt).toDate() : null;
+  if (!ageOut || !deactivatedAt) return ageOut || deactivatedAt;
+  return ageOut < deactivatedAt ? ageOut : deactivatedAt;
+};
@@ -22,6 +22,54 @@ const errorLibrary: { [key: string]: Pick<ErrorResult, 'status' | 'message'> } =
   inactiveUserLogging: {
     status: 401,
     message: 'Usuário inativo'
+  },
+  forbiddenRole: {
+    status: 403,
+    message: 'Usuário sem permissão para acessar este recurso'
+  },
+  lockedUserLogging: {
+    status: 423,
+    message: 'Usuário bloqueado por excesso de tentativas, tente novamente mais tarde'
+  },
+  passwordChangeRequired: {
+    status: 403,
+    message: 'É necessário alterar a senha antes de continuar'
+  },
+  invalidUserToken: {
+    status: 412,
+    message: 'Link inválido ou expirado'
+  },
+  invalidBeneficiaryCredentials: {
+    status: 401,
+    message: 'NIS ou data de nascimento inválidos'
+  },
+  invalidBeneficiaryCode: {
+    status: 401,
+    message: 'Código inválido ou expirado'
+  },
+  invalidBeneficiarySession: {
+    status: 401,
+    message: 'Sessão expirada, informe o NIS novamente'
+  },
+  tooManyRequests: {
+    status: 429,
+    message: 'Muitas requisições, tente novamente mais tarde'
+  },
+  blockedPublicClient: {
+    status: 429,
+    message: 'Acesso bloqueado temporariamente por excesso de tentativas, tente novamente mais tarde'
+  },
+  userWithoutCity: {
+    status: 412,
+    message: 'Usuário sem cidade selecionada'
+  },
+  forbiddenCity: {
+    status: 403,
+    message: 'Usuário sem permissão para acessar esta cidade'
+  },
+  cityNotFound: {
+    status: 404,
+    message: 'Cidade não encontrada'
   }
 };
 
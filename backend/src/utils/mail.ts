@@ -0,0 +1,59 @@
+import path from 'path';
+import fs from 'fs';
+import moment from 'moment';
+import logging from './logging';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Function used to deliver the emails, it can be replaced by a SMTP or API transport
+export type MailTransport = (message: MailMessage & { from: string }) => Promise<void>;
+
+/**
+ * Folder where the file transport stores the emails
+ */
+export const mailFolder = `${path.dirname(__dirname)}/../database/storage/mails`;
+
+/**
+ * Store the email as a text file, used on development and while no real transport is configured
+ * @param message email to be delivered
+ */
+export const fileMailTransport: MailTransport = async (message) => {
+  if (!fs.existsSync(mailFolder)) {
+    fs.mkdirSync(mailFolder, { recursive: true });
+  }
+  const fileName = `${moment().format('YYYYMMDDHHmmssSSS')}_${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.txt`;
+  const content = [`From: ${message.from}`, `To: ${message.to}`, `Subject: ${message.subject}`, '', message.text];
+  fs.writeFileSync(path.resolve(`${mailFolder}/${fileName}`), content.join('\n'));
+};
+
+/**
+ * Only log the email, without delivering it
+ * @param message email to be delivered
+ */
+export const consoleMailTransport: MailTransport = async (message) => {
+  logging.info(`[mail] ${message.subject} to ${message.to}`, message);
+};
+
+let transport: MailTransport = process.env.MAIL_TRANSPORT === 'console' ? consoleMailTransport : fileMailTransport;
+
+/**
+ * Replace the transport used to deliver the emails
+ * @param mailTransport new transport
+ */
+export const setMailTransport = (mailTransport: MailTransport) => {
+  transport = mailTransport;
+};
+
+/**
+ * Deliver an email using the configured transport
+ * @param message email to be delivered
+ * @returns Promise resolved when the email is delivered
+ */
+export const sendMail = (message: MailMessage) => {
+  return transport({ from: process.env.MAIL_FROM || 'no-reply@localhost', ...message });
+};
@@ -0,0 +1,97 @@
+import moment from 'moment';
+import { Consumption } from '../schemas/consumptions';
+
+// IBGE code of each state, the first two digits of the access key
+export const stateCodeList: { [code: string]: string } = {
+  '11': 'RO',
+  '12': 'AC',
+  '13': 'AM',
+  '14': 'RR',
+  '15': 'PA',
+  '16': 'AP',
+  '17': 'TO',
+  '21': 'MA',
+  '22': 'PI',
+  '23': 'CE',
+  '24': 'RN',
+  '25': 'PB',
+  '26': 'PE',
+  '27': 'AL',
+  '28': 'SE',
+  '29': 'BA',
+  '31': 'MG',
+  '32': 'ES',
+  '33': 'RJ',
+  '35': 'SP',
+  '41': 'PR',
+  '42': 'SC',
+  '43': 'RS',
+  '50': 'MS',
+  '51': 'MT',
+  '52': 'GO',
+  '53': 'DF'
+};
+
+// NFC-e model code, NF-e uses 55
+const nfceModel = '65';
+
+export type NFCeAccessKeyData = Required<
+  Pick<
+    Consumption,
+    'nfceAccessKey' | 'nfceUf' | 'nfceEmissionMonth' | 'nfceCnpj' | 'nfceModel' | 'nfceSeries' | 'nfceNumber'
+  >
+>;
+
+/**
+ * Calculate the access key check digit, module 11 with weights from 2 to 9 starting from the right
+ * @param digits first 43 digits of the access key
+ * @returns check digit
+ */
+export const getCheckDigit = (digits: string) => {
+  let weight = 2;
+  let sum = 0;
+  for (let index = digits.length - 1; index >= 0; index--) {
+    sum += Number(digits[index]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+/**
+ * Validate the NFC-e access key and split it into its fields
+ *
+ * Layout: UF (2), emission year and month (4), CNPJ (14), model (2), series (3), number (9),
+ * emission type (1), numeric code (8) and check digit (1)
+ * @param accessKey 44 digits access key
+ * @returns access key data
+ */
+export const parseNFCeAccessKey = (accessKey: string): NFCeAccessKeyData => {
+  if (!/^\d{44}$/.test(accessKey)) {
+    throw { status: 422, message: 'A chave de acesso da NFC-e precisa ter 44 números' };
+  }
+  if (getCheckDigit(accessKey.substring(0, 43)) !== Number(accessKey[43])) {
+    throw { status: 422, message: 'Chave de acesso da NFC-e inválida' };
+  }
+  const nfceUf = stateCodeList[accessKey.substring(0, 2)];
+  if (!nfceUf) {
+    throw { status: 422, message: 'Estado da NFC-e inválido' };
+  }
+  const emissionMonth = moment(accessKey.substring(2, 6), 'YYMM', true);
+  if (!emissionMonth.isValid()) {
+    throw { status: 422, message: 'Mês de emissão da NFC-e inválido' };
+  }
+  const model = accessKey.substring(20, 22);
+  if (model !== nfceModel) {
+    throw { status: 422, message: 'A nota fiscal não é uma NFC-e' };
+  }
+  return {
+    nfceAccessKey: accessKey,
+    nfceUf,
+    nfceEmissionMonth: emissionMonth.format('YYYY-MM-DD'),
+    nfceCnpj: accessKey.substring(6, 20),
+    nfceModel: model,
+    nfceSeries: Number(accessKey.substring(22, 25)),
+    nfceNumber: Number(accessKey.substring(25, 34))
+  };
+};
@@ -1,7 +1,12 @@
+import { URL } from 'url';
+import path from 'path';
+import fs from 'fs';
 import { PurchaseData } from '../schemas/consumptions';
 import Axios from 'axios';
 import https from 'https';
-import cheerio from 'cheerio';
+import { NFCeScraper } from './nfceScrapers/common';
+import { mgScraper } from './nfceScrapers/mg';
+import { parseStandardLayout } from './nfceScrapers/standard';
 
 const axios = Axios.create({
   httpsAgent: new https.Agent({
@@ -9,88 +14,130 @@ const axios = Axios.create({
   })
 });
 
+// Function used to get the NFC-e page HTML, it can be replaced to read the HTML from other places
+export type NFCeFetcher = (nfce: string) => Promise<string>;
+
 /**
- * Scrape the consumption data from the nfce.fazenda.mg.gov.br site
- *
- * @param nfce NFC-e link
- *
- * @returns A object containg the place, total value, payment and products.
+ * Folder where the scraped pages are kept, used to replay the scraping without hitting the network
  */
-export const scrapeNFCeData = async (nfce: string): Promise<PurchaseData> => {
-  // Request the Receita Federal site and process it with cheerio
-  const page = await axios.get(nfce);
-  const document = cheerio.load(page.data);
+export const nfcePageFolder = `${path.dirname(__dirname)}/../database/storage/nfce`;
 
-  // Get the name of the store
-  const place = (document('div#collapse4 > table > tbody > tr > td').first().text().trim() ||
-    document('.text-center.text-uppercase > h4 > b').first().text().trim()) as string | undefined;
+// Registered scrapers, a host can be shared by many states so the access key UF is used to choose between them
+const scraperList: NFCeScraper[] = [
+  mgScraper,
+  { uf: 'SP', ufCode: '35', hosts: ['www.nfce.fazenda.sp.gov.br'], parse: parseStandardLayout },
+  { uf: 'PR', ufCode: '41', hosts: ['www.fazenda.pr.gov.br'], parse: parseStandardLayout },
+  { uf: 'RS', ufCode: '43', hosts: ['www.sefaz.rs.gov.br', 'dfe-portal.svrs.rs.gov.br'], parse: parseStandardLayout }
+];
 
-  // Search for the total paid in the purchase
-  let totalValue: undefined | number;
-  document('div.row').each((index, node) => {
-    if (document(node).find('div > strong').first().text().trim() === 'Valor total R$') {
-      totalValue = Number(document(node).find('div:nth-child(2) > strong').first().text().trim());
-    }
-  });
+/**
+ * Add a scraper to the registry, replacing the one already registered for the same UF
+ * @param scraper scraper with the state hosts and parser
+ */
+export const registerNFCeScraper = (scraper: NFCeScraper) => {
+  const index = scraperList.findIndex((item) => item.ufCode === scraper.ufCode);
+  if (index > -1) {
+    scraperList.splice(index, 1);
+  }
+  scraperList.push(scraper);
+};
+
+/**
+ * Get the list of hosts with a registered scraper
+ * @returns list of hosts, without protocol
+ */
+export const getNFCeHosts = () => {
+  return scraperList.reduce((hosts, scraper) => {
+    scraper.hosts.filter((host) => hosts.indexOf(host) < 0).forEach((host) => hosts.push(host));
+    return hosts;
+  }, [] as string[]);
+};
 
-  // Create a list of products with name and total value
-  let products: { name?: string; totalValue?: number }[] = [];
-  document('#myTable > tr').each((index, node) => {
-    const rawName = document(node).find('td > h7').first().text() as string | undefined;
-    const rawValue = document(node).find('td:nth-child(4)').first().text() as string | undefined;
+/**
+ * Find the access key on the NFC-e link, the 44 digits before the first '|' of the 'p' param
+ * (or the 'chNFe' param on the first QR Code version)
+ * @param nfce NFC-e link
+ * @returns access key or undefined when not found
+ */
+export const getNFCeAccessKey = (nfce: string) => {
+  const match = nfce.match(/[?&](?:p|chNFe)=(\d{44})/);
+  return match ? match[1] : undefined;
+};
 
-    const name = rawName ? rawName.trim() : undefined;
-    const totalValue = rawValue
-      ? Number(
-          rawValue
-            .substring(rawValue.lastIndexOf('$') + 1)
-            .replace(/,/g, '.')
-            .trim()
-        )
-      : undefined;
-    products.push({ name, totalValue });
-  });
+/**
+ * Find the scraper for the NFC-e link using its host and the access key UF
+ * @param nfce NFC-e link
+ * @returns registered scraper or undefined when the state is not supported
+ */
+export const getNFCeScraper = (nfce: string) => {
+  let host: string;
+  try {
+    host = new URL(nfce).host.toLowerCase();
+  } catch (error) {
+    return undefined;
+  }
+  const hostScrapers = scraperList.filter((scraper) => scraper.hosts.indexOf(host) > -1);
+  const accessKey = getNFCeAccessKey(nfce);
+  if (accessKey) {
+    const ufScraper = hostScrapers.find((scraper) => scraper.ufCode === accessKey.substring(0, 2));
+    if (ufScraper) return ufScraper;
+  }
+  return hostScrapers[0];
+};
 
-  // Create a list of payment with name and value
-  const payment: { name?: string; value?: number }[] = [];
-  const paymentRows = document('div.row');
-  paymentRows.each((index, node) => {
-    if (document(node).find('div > strong').first().text().trim() === 'Valor pago R$') {
-      const rawValue = document(node).find('div:nth-child(2) > strong').first().text().trim();
-      const rawName = document(paymentRows[index + 1])
-        .find('div:nth-child(2) > strong')
-        .first()
-        .text()
-        .trim();
+/**
+ * Get the path of the stored page of the NFC-e
+ * @param nfce NFC-e link
+ * @returns absolute file path or undefined when the link has no access key
+ */
+export const getStoredNFCePagePath = (nfce: string) => {
+  const accessKey = getNFCeAccessKey(nfce);
+  return accessKey ? path.resolve(`${nfcePageFolder}/${accessKey}.html`) : undefined;
+};
 
-      const name = rawName ? rawName.trim() : undefined;
-      const value = rawValue
-        ? Number(
-            rawValue
-              .substring(rawValue.lastIndexOf('$') + 1)
-              .replace(/,/g, '.')
-              .trim()
-          )
-        : undefined;
-      payment.push({ name, value });
+/**
+ * Request the NFC-e page from the state site, storing the HTML to be replayed later
+ * @param nfce NFC-e link
+ * @returns page HTML
+ */
+export const fetchNFCePage: NFCeFetcher = async (nfce) => {
+  const page = await axios.get<string>(nfce);
+  const filePath = getStoredNFCePagePath(nfce);
+  if (filePath) {
+    if (!fs.existsSync(nfcePageFolder)) {
+      fs.mkdirSync(nfcePageFolder, { recursive: true });
     }
-  });
+    fs.writeFileSync(filePath, page.data);
+  }
+  return page.data;
+};
+
+/**
+ * Read the NFC-e page stored on a previous scraping, without hitting the network
+ * @param nfce NFC-e link
+ * @returns page HTML
+ */
+export const readStoredNFCePage: NFCeFetcher = async (nfce) => {
+  const filePath = getStoredNFCePagePath(nfce);
+  if (!filePath || !fs.existsSync(filePath)) {
+    throw { status: 404, message: 'Página da NFC-e não armazenada' };
+  }
+  return fs.readFileSync(filePath, 'utf8');
+};
 
-  // In some cases, the same order can have the same item multiple times, this
-  // can generate duplicated products in the database.
-  const productSet = new Set(products.map((product) => product.name));
-  products = Array.from(productSet).reduce(
-    (list, productName) => [
-      ...list,
-      {
-        name: productName,
-        totalValue: products
-          .filter((p) => p.name === productName)
-          .reduce((total, value) => total + (value.totalValue ? value.totalValue : 0), 0)
-      }
-    ],
-    [] as { name?: string; totalValue?: number }[]
-  );
+/**
+ * Scrape the consumption data from the NFC-e consultation page of the state
+ *
+ * @param nfce NFC-e link
+ * @param fetcher function used to get the page HTML, requests the state site by default
+ *
+ * @returns A object containg the place, total value, payment and products.
+ */
+export const scrapeNFCeData = async (nfce: string, fetcher: NFCeFetcher = fetchNFCePage): Promise<PurchaseData> => {
+  const scraper = getNFCeScraper(nfce);
+  if (!scraper) throw { status: 412, message: 'NFC-e de estado não suportado' };
 
-  return { place, totalValue, products, payment };
+  // Get the state page and process it with the state parser
+  const html = await fetcher(nfce);
+  return scraper.parse(html);
 };
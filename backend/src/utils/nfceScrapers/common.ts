@@ -0,0 +1,52 @@
+import { PurchaseData } from '../../schemas/consumptions';
+
+export interface NFCeScraper {
+  // State abbreviation
+  uf: string;
+  // IBGE state code, the first two digits of the NFC-e access key
+  ufCode: string;
+  // Hosts of the state NFC-e consultation page, without protocol
+  hosts: string[];
+  // Extract the purchase data from the consultation page HTML
+  parse: (html: string) => PurchaseData;
+}
+
+/**
+ * Parse a brazilian currency text to number
+ * @param value raw text, like 'R$ 1.234,56'
+ * @returns number or undefined when there is no value
+ */
+export const parseCurrency = (value?: string) => {
+  if (!value) return undefined;
+  const onlyValue = value
+    .substring(value.lastIndexOf('$') + 1)
+    .replace(/[^\d,.-]/g, '')
+    .trim();
+  if (!onlyValue) return undefined;
+  // Values using comma as decimal separator have dots as thousands separator
+  return Number(onlyValue.indexOf(',') > -1 ? onlyValue.replace(/\./g, '').replace(/,/g, '.') : onlyValue);
+};
+
+/**
+ * Merge products with the same name, summing their values
+ *
+ * In some cases, the same order can have the same item multiple times, this
+ * can generate duplicated products in the database.
+ * @param products list of scraped products
+ * @returns list of products without duplicates
+ */
+export const mergeDuplicatedProducts = (products: PurchaseData['products']) => {
+  const productSet = new Set(products.map((product) => product.name));
+  return Array.from(productSet).reduce(
+    (list, productName) => [
+      ...list,
+      {
+        name: productName,
+        totalValue: products
+          .filter((p) => p.name === productName)
+          .reduce((total, value) => total + (value.totalValue ? value.totalValue : 0), 0)
+      }
+    ],
+    [] as PurchaseData['products']
+  );
+};
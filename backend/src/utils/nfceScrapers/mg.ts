@@ -0,0 +1,78 @@
+import cheerio from 'cheerio';
+import { PurchaseData } from '../../schemas/consumptions';
+import { NFCeScraper, mergeDuplicatedProducts } from './common';
+
+/**
+ * Scrape the consumption data from the nfce.fazenda.mg.gov.br page
+ *
+ * @param html NFC-e consultation page
+ *
+ * @returns A object containg the place, total value, payment and products.
+ */
+const parse = (html: string): PurchaseData => {
+  const document = cheerio.load(html);
+
+  // Get the name of the store
+  const place = (document('div#collapse4 > table > tbody > tr > td').first().text().trim() ||
+    document('.text-center.text-uppercase > h4 > b').first().text().trim()) as string | undefined;
+
+  // Search for the total paid in the purchase
+  let totalValue: undefined | number;
+  document('div.row').each((index, node) => {
+    if (document(node).find('div > strong').first().text().trim() === 'Valor total R$') {
+      totalValue = Number(document(node).find('div:nth-child(2) > strong').first().text().trim());
+    }
+  });
+
+  // Create a list of products with name and total value
+  const products: { name?: string; totalValue?: number }[] = [];
+  document('#myTable > tr').each((index, node) => {
+    const rawName = document(node).find('td > h7').first().text() as string | undefined;
+    const rawValue = document(node).find('td:nth-child(4)').first().text() as string | undefined;
+
+    const name = rawName ? rawName.trim() : undefined;
+    const totalValue = rawValue
+      ? Number(
+          rawValue
+            .substring(rawValue.lastIndexOf('$') + 1)
+            .replace(/,/g, '.')
+            .trim()
+        )
+      : undefined;
+    products.push({ name, totalValue });
+  });
+
+  // Create a list of payment with name and value
+  const payment: { name?: string; value?: number }[] = [];
+  const paymentRows = document('div.row');
+  paymentRows.each((index, node) => {
+    if (document(node).find('div > strong').first().text().trim() === 'Valor pago R$') {
+      const rawValue = document(node).find('div:nth-child(2) > strong').first().text().trim();
+      const rawName = document(paymentRows[index + 1])
+        .find('div:nth-child(2) > strong')
+        .first()
+        .text()
+        .trim();
+
+      const name = rawName ? rawName.trim() : undefined;
+      const value = rawValue
+        ? Number(
+            rawValue
+              .substring(rawValue.lastIndexOf('$') + 1)
+              .replace(/,/g, '.')
+              .trim()
+          )
+        : undefined;
+      payment.push({ name, value });
+    }
+  });
+
+  return { place, totalValue, products: mergeDuplicatedProducts(products), payment };
+};
+
+export const mgScraper: NFCeScraper = {
+  uf: 'MG',
+  ufCode: '31',
+  hosts: ['nfce.fazenda.mg.gov.br', 'portalsped.fazenda.mg.gov.br'],
+  parse
+};
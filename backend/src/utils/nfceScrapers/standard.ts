@@ -0,0 +1,48 @@
+import cheerio from 'cheerio';
+import { PurchaseData } from '../../schemas/consumptions';
+import { mergeDuplicatedProducts, parseCurrency } from './common';
+
+/**
+ * Scrape the consumption data from the standard NFC-e consultation page
+ *
+ * Most of the states use the same page layout, created by the ENCAT, changing only the host
+ *
+ * @param html NFC-e consultation page
+ *
+ * @returns A object containg the place, total value, payment and products.
+ */
+export const parseStandardLayout = (html: string): PurchaseData => {
+  const document = cheerio.load(html);
+
+  // Get the name of the store
+  const place = document('#u20').first().text().trim() || undefined;
+
+  // Create a list of products with name and total value
+  const products: PurchaseData['products'] = [];
+  document('#tabResult tr').each((index, node) => {
+    const rawName = document(node).find('span.txtTit').first().text();
+    const rawValue = document(node).find('span.valor').first().text();
+    products.push({ name: rawName ? rawName.trim() : undefined, totalValue: parseCurrency(rawValue) });
+  });
+
+  // Search for the total and the payment rows, the payment rows are after the payment title
+  let totalValue: undefined | number;
+  let onPaymentRows = false;
+  const payment: PurchaseData['payment'] = [];
+  document('#totalNota > div').each((index, node) => {
+    const label = document(node).find('label').first().text().trim();
+    const value = parseCurrency(document(node).find('span.totalNumb').first().text());
+    if (document(node).attr('id') === 'linhaForma') {
+      onPaymentRows = true;
+    } else if (label.indexOf('Valor a pagar') === 0) {
+      totalValue = value;
+    } else if (label.indexOf('Troco') === 0) {
+      // The change is the last payment row
+      onPaymentRows = false;
+    } else if (onPaymentRows) {
+      payment.push({ name: label || undefined, value });
+    }
+  });
+
+  return { place, totalValue, products: mergeDuplicatedProducts(products), payment };
+};
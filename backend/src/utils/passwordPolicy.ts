@@ -0,0 +1,45 @@
+import { User } from '../schemas/users';
+
+export const passwordMinLength = 8;
+
+/**
+ * Check the password against the strength rules
+ * @param password new password
+ * @param user user that will use the password, the password can't contain its personal data
+ * @returns list of broken rules, empty when the password is valid
+ */
+export const getPasswordErrors = (password: string, user?: Pick<User, 'email' | 'cpf' | 'name'>) => {
+  const errors: string[] = [];
+  if (!password || password.length < passwordMinLength) {
+    errors.push(`A senha deve ter pelo menos ${passwordMinLength} caracteres`);
+  }
+  if (!/[a-zA-Z]/.test(password || '') || !/\d/.test(password || '')) {
+    errors.push('A senha deve ter letras e números');
+  }
+  if (password && user) {
+    const lowerPassword = password.toLowerCase();
+    const email = user.email?.split('@')[0].toLowerCase();
+    const cpf = user.cpf?.replace(/\D/g, '');
+    const firstName = user.name?.split(' ')[0].toLowerCase();
+    if (
+      (email && email.length > 2 && lowerPassword.includes(email)) ||
+      (cpf && cpf.length > 2 && password.includes(cpf)) ||
+      (firstName && firstName.length > 2 && lowerPassword.includes(firstName))
+    ) {
+      errors.push('A senha não pode conter o email, CPF ou nome do usuário');
+    }
+  }
+  return errors;
+};
+
+/**
+ * Check the password against the strength rules, throwing the broken rules
+ * @param password new password
+ * @param user user that will use the password
+ */
+export const checkPasswordStrength = (password: string, user?: Pick<User, 'email' | 'cpf' | 'name'>) => {
+  const errors = getPasswordErrors(password, user);
+  if (errors.length > 0) {
+    throw { status: 412, message: errors.join('. ') };
+  }
+};
@@ -0,0 +1,223 @@
+import { Role, roleList } from './constraints';
+
+export type PermissionMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | '*';
+
+export type PermissionRule = {
+  method: PermissionMethod;
+  // Path relative to the sub-router, accepts `:param` segments and a trailing `*`
+  path: string;
+  roles: readonly Role[];
+};
+
+export type PermissionResource =
+  | 'cities'
+  | 'places'
+  | 'place-stores'
+  | 'users'
+  | 'institutions'
+  | 'benefits'
+  | 'benefit-programs'
+  | 'families'
+  | 'consumptions'
+  | 'adjustments'
+  | 'benefit-policies'
+  | 'dashboard'
+  | 'products'
+  | 'groups'
+  | 'product-categories'
+  | 'audit'
+  | 'api-clients'
+  | 'public-blocks'
+  | 'stock'
+  | 'static';
+
+const allRoles = roleList;
+const adminOnly: Role[] = ['admin'];
+const superadminOnly: Role[] = ['superadmin'];
+
+/**
+ * Roles that also receive the access of other roles, the super admin can do everything an admin can on
+ * the selected city
+ */
+const inheritedRoles: { [role in Role]?: Role[] } = {
+  superadmin: ['admin']
+};
+
+/**
+ * Role x route/verb matrix enforced by the `requirePermission` middleware
+ *
+ * Each resource has a list of rules checked in order, the first rule matching the
+ * request method and path decides who can access it. Requests that don't match
+ * any rule are denied.
+ */
+export const permissionMatrix: { [resource in PermissionResource]: PermissionRule[] } = {
+  cities: [
+    { method: 'GET', path: '*', roles: allRoles },
+    // Cities are shared by every tenant, only the super admin can change them
+    { method: '*', path: '*', roles: superadminOnly }
+  ],
+  places: [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  'place-stores': [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  users: [
+    { method: 'GET', path: '/:id/sessions', roles: adminOnly },
+    { method: 'GET', path: '*', roles: ['admin', 'manager'] },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  institutions: [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  benefits: [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  'benefit-programs': [
+    { method: 'GET', path: '*', roles: ['admin', 'financial'] },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  families: [
+    { method: 'GET', path: '/', roles: allRoles },
+    { method: 'GET', path: '/dashboard', roles: allRoles },
+    { method: 'GET', path: '/place', roles: allRoles },
+    { method: 'GET', path: '/consumption', roles: allRoles },
+    { method: 'GET', path: '/import-status', roles: adminOnly },
+    { method: 'GET', path: '/imports', roles: adminOnly },
+    { method: 'GET', path: '/imports/:id/reason-file', roles: adminOnly },
+    { method: 'GET', path: '/imports/:id/diff', roles: adminOnly },
+    { method: 'GET', path: '/list-file', roles: ['admin', 'financial'] },
+    { method: 'GET', path: '/ledger-mismatches', roles: ['admin', 'financial'] },
+    { method: 'GET', path: '/age-outs', roles: adminOnly },
+    { method: 'GET', path: '/:id/statement', roles: allRoles },
+    { method: 'GET', path: '/:id/balance', roles: allRoles },
+    { method: 'POST', path: '/', roles: ['admin', 'operator', 'manager', 'cashier'] },
+    { method: 'POST', path: '/file', roles: adminOnly },
+    { method: 'POST', path: '/file-sislame', roles: adminOnly },
+    { method: 'POST', path: '/file-product', roles: adminOnly },
+    { method: 'POST', path: '/file-update', roles: adminOnly },
+    { method: 'POST', path: '/imports/:id/retry', roles: adminOnly },
+    { method: 'POST', path: '/imports/:id/commit', roles: adminOnly },
+    { method: 'PUT', path: '/:id/deactivate', roles: adminOnly },
+    { method: 'PUT', path: '/:id', roles: ['admin', 'operator', 'manager'] }
+  ],
+  consumptions: [
+    { method: 'POST', path: '/', roles: ['admin', 'operator', 'manager', 'cashier'] },
+    { method: 'POST', path: '/image', roles: ['admin', 'operator', 'manager', 'cashier'] },
+    { method: 'GET', path: '/nfce-hosts', roles: allRoles },
+    { method: 'GET', path: '/report', roles: ['admin', 'manager', 'financial'] },
+    { method: 'GET', path: '/report-family', roles: ['admin', 'manager', 'financial'] },
+    { method: 'GET', path: '/report-placestore', roles: ['admin', 'manager', 'financial'] },
+    { method: 'POST', path: '/report-ticket', roles: ['admin', 'financial'] },
+    { method: 'POST', path: '/delete/:id', roles: adminOnly }
+  ],
+  // Requested by the financial team and approved by an admin
+  adjustments: [
+    { method: 'GET', path: '/', roles: ['admin', 'financial'] },
+    { method: 'POST', path: '/', roles: ['admin', 'financial'] },
+    { method: 'POST', path: '/:id/approve', roles: adminOnly },
+    { method: 'POST', path: '/:id/reject', roles: adminOnly }
+  ],
+  'benefit-policies': [
+    { method: 'GET', path: '*', roles: ['admin', 'financial'] },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  dashboard: [{ method: 'GET', path: '/', roles: allRoles }],
+  products: [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: 'POST', path: '/', roles: ['admin', 'operator', 'manager'] },
+    { method: 'PUT', path: '/:id', roles: ['admin', 'operator', 'manager'] },
+    // Aliases are shared by every city, only the super admin can review them
+    { method: 'PUT', path: '/aliases/:id', roles: superadminOnly },
+    { method: 'PUT', path: '/category', roles: ['admin', 'operator', 'manager'] },
+    { method: 'DELETE', path: '/:id', roles: adminOnly }
+  ],
+  groups: [
+    { method: 'GET', path: '*', roles: allRoles },
+    { method: '*', path: '*', roles: adminOnly }
+  ],
+  'product-categories': [
+    { method: 'GET', path: '*', roles: allRoles },
+    // Categories and their group rules are shared by every city, only the super admin can change them
+    { method: '*', path: '*', roles: superadminOnly }
+  ],
+  audit: [{ method: 'GET', path: '/', roles: adminOnly }],
+  'api-clients': [{ method: '*', path: '*', roles: adminOnly }],
+  'public-blocks': [{ method: '*', path: '*', roles: adminOnly }],
+  stock: [
+    { method: 'GET', path: '/', roles: ['admin', 'manager', 'cashier'] },
+    { method: 'GET', path: '/low', roles: ['admin', 'manager'] },
+    { method: 'GET', path: '/movements', roles: ['admin', 'manager'] },
+    { method: 'POST', path: '/movements', roles: ['admin', 'manager'] }
+  ],
+  static: [{ method: 'GET', path: '*', roles: allRoles }]
+};
+
+/**
+ * Remove the trailing slashes of a path, keeping the root path untouched
+ * @param value path to be normalized
+ * @returns normalized path
+ */
+const normalizePath = (value: string) => (value.length > 1 ? value.replace(/\/+$/, '') : value);
+
+/**
+ * Check if a rule path matches the request path
+ * @param rulePath path defined on the rule
+ * @param requestPath path of the request, relative to the sub-router
+ * @returns boolean
+ */
+export const matchPath = (rulePath: string, requestPath: string) => {
+  if (rulePath === '*') return true;
+  const ruleParts = normalizePath(rulePath).split('/');
+  const requestParts = normalizePath(requestPath).split('/');
+  for (let index = 0; index < ruleParts.length; index++) {
+    const rulePart = ruleParts[index];
+    if (rulePart === '*') return true;
+    const requestPart = requestParts[index];
+    if (requestPart === undefined) return false;
+    if (rulePart.startsWith(':')) {
+      if (requestPart === '') return false;
+      continue;
+    }
+    if (rulePart !== requestPart) return false;
+  }
+  return ruleParts.length === requestParts.length;
+};
+
+/**
+ * Find which roles are allowed to run a request on a resource
+ * @param resource sub-router resource name
+ * @param method HTTP method of the request
+ * @param requestPath path of the request, relative to the sub-router
+ * @returns list of allowed roles, empty when no rule matches
+ */
+export const getAllowedRoles = (resource: PermissionResource, method: string, requestPath: string) => {
+  const rule = permissionMatrix[resource].find(
+    (item) => (item.method === '*' || item.method === method.toUpperCase()) && matchPath(item.path, requestPath)
+  );
+  return rule ? rule.roles : [];
+};
+
+/**
+ * Check if a role, or one of the roles it inherits, can run a request on a resource
+ * @param role user role
+ * @param resource sub-router resource name
+ * @param method HTTP method of the request
+ * @param requestPath path of the request, relative to the sub-router
+ * @returns boolean
+ */
+export const isRoleAllowed = (
+  role: string | undefined,
+  resource: PermissionResource,
+  method: string,
+  requestPath: string
+) => {
+  if (!role) return false;
+  const allowedRoles = getAllowedRoles(resource, method, requestPath) as readonly string[];
+  const roles = [role, ...(inheritedRoles[role as Role] || [])];
+  return roles.some((item) => allowedRoles.indexOf(item) > -1);
+};
@@ -0,0 +1,190 @@
+export type ProductSize = {
+  value: number;
+  unit: 'G' | 'ML' | 'UN' | 'M';
+};
+
+export type NormalizedProductName = {
+  // Name without accents, punctuation and abbreviations, with the size in the end (used as alias key)
+  normalized: string;
+  // Name words, without the size
+  tokens: string[];
+  size: ProductSize | null;
+};
+
+/**
+ * Abbreviations commonly found on the receipts and their expanded words
+ */
+export const abbreviationList: { [abbreviation: string]: string } = {
+  T1: 'TIPO 1',
+  T2: 'TIPO 2',
+  TP: 'TIPO',
+  TP1: 'TIPO 1',
+  TP2: 'TIPO 2',
+  TIPO1: 'TIPO 1',
+  TIPO2: 'TIPO 2',
+  ARR: 'ARROZ',
+  FEIJ: 'FEIJAO',
+  FJ: 'FEIJAO',
+  CARIOQ: 'CARIOCA',
+  MAC: 'MACARRAO',
+  MACARR: 'MACARRAO',
+  ESPAG: 'ESPAGUETE',
+  ACUC: 'ACUCAR',
+  ACU: 'ACUCAR',
+  CRIST: 'CRISTAL',
+  REF: 'REFINADO',
+  OL: 'OLEO',
+  FAR: 'FARINHA',
+  TRIG: 'TRIGO',
+  MAND: 'MANDIOCA',
+  LT: 'LEITE',
+  INT: 'INTEGRAL',
+  DESN: 'DESNATADO',
+  SEMI: 'SEMIDESNATADO',
+  BISC: 'BISCOITO',
+  REFRIG: 'REFRIGERANTE',
+  DET: 'DETERGENTE',
+  SAB: 'SABONETE',
+  TRAD: 'TRADICIONAL',
+  PCT: 'PACOTE',
+  PC: 'PACOTE',
+  CX: 'CAIXA',
+  FD: 'FARDO',
+  GF: 'GARRAFA',
+  SC: 'SACO',
+  UND: 'UN',
+  UNID: 'UN',
+  UNIDADE: 'UN',
+  UNIDADES: 'UN'
+};
+
+/**
+ * Unit variations and their base unit with the multiplier to convert them
+ */
+const unitList: { [unit: string]: { unit: ProductSize['unit']; multiplier: number } } = {
+  KG: { unit: 'G', multiplier: 1000 },
+  KGS: { unit: 'G', multiplier: 1000 },
+  G: { unit: 'G', multiplier: 1 },
+  GR: { unit: 'G', multiplier: 1 },
+  GRS: { unit: 'G', multiplier: 1 },
+  MG: { unit: 'G', multiplier: 0.001 },
+  L: { unit: 'ML', multiplier: 1000 },
+  LT: { unit: 'ML', multiplier: 1000 },
+  LTS: { unit: 'ML', multiplier: 1000 },
+  LITRO: { unit: 'ML', multiplier: 1000 },
+  LITROS: { unit: 'ML', multiplier: 1000 },
+  ML: { unit: 'ML', multiplier: 1 },
+  M: { unit: 'M', multiplier: 1 },
+  MT: { unit: 'M', multiplier: 1 },
+  MTS: { unit: 'M', multiplier: 1 },
+  UN: { unit: 'UN', multiplier: 1 }
+};
+
+const unitRegexText = Object.keys(unitList).join('|');
+const sizeRegex = new RegExp(`^(\\d+(?:[.,]\\d+)?)(${unitRegexText})$`);
+const spacedSizeRegex = new RegExp(`(\\d)\\s+(?=(?:${unitRegexText})\\b)`, 'g');
+const attachedSizeRegex = new RegExp(`([A-Z])(\\d+(?:[.,]\\d+)?(?:${unitRegexText}))\\b`, 'g');
+
+/**
+ * Remove accents and special characters from the text
+ * @param text original text
+ * @returns text only with A-Z, 0-9 and spaces
+ */
+export const deburr = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9.,]+/g, ' ')
+    .trim();
+
+/**
+ * Normalize a product name found on a receipt, so different spellings of the same product are equal
+ *
+ * The name is deburred, the abbreviations expanded and the size (5KG, 5 KG, 5000G) is extracted
+ * and converted to the base unit
+ * @param name product name
+ * @returns normalized name, words and size
+ */
+export const normalizeProductName = (name: string): NormalizedProductName => {
+  // Join the numbers with the unit on the next word ("5 KG" -> "5KG") and split the number from the words ("ARROZ5KG")
+  const words = deburr(name)
+    .replace(spacedSizeRegex, '$1')
+    .replace(attachedSizeRegex, '$1 $2')
+    .split(' ')
+    .map((word) => word.replace(/^[.,]+|[.,]+$/g, ''))
+    .filter((word) => word.length > 0);
+
+  let size: ProductSize | null = null;
+  const tokens: string[] = [];
+  for (const word of words) {
+    const sizeMatch = word.match(sizeRegex);
+    if (sizeMatch) {
+      // Keep the first size found, the next ones are usually the package
+      if (!size) {
+        const unit = unitList[sizeMatch[2]];
+        const value = Math.round(Number(sizeMatch[1].replace(',', '.')) * unit.multiplier * 1000) / 1000;
+        size = { value, unit: unit.unit };
+      }
+      continue;
+    }
+    const expanded = abbreviationList[word] || word.replace(/[.,]/g, '');
+    tokens.push(...expanded.split(' ').filter((token) => token.length > 0));
+  }
+
+  const sizeText = size ? ` ${size.value}${size.unit}` : '';
+  return { normalized: `${tokens.join(' ')}${sizeText}`.trim(), tokens, size };
+};
+
+/**
+ * Get the list of character pairs of the text, used to compare similar words
+ * @param text original text
+ * @returns list of pairs
+ */
+const getBigrams = (text: string) => {
+  const bigrams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    bigrams.push(text.substring(i, i + 2));
+  }
+  return bigrams;
+};
+
+/**
+ * Compare two product names, returning how confident we are that they are the same product
+ *
+ * The words are compared with the Sørensen–Dice coefficient of the character pairs and
+ * products with different sizes are penalized
+ * @param a first product name
+ * @param b second product name
+ * @returns confidence between 0 and 1
+ */
+export const getProductNameSimilarity = (
+  a: NormalizedProductName | string,
+  b: NormalizedProductName | string
+): number => {
+  const first = typeof a === 'string' ? normalizeProductName(a) : a;
+  const second = typeof b === 'string' ? normalizeProductName(b) : b;
+  if (first.normalized === second.normalized) return 1;
+
+  const firstBigrams = getBigrams(first.tokens.join(' '));
+  const secondBigrams = getBigrams(second.tokens.join(' '));
+  if (firstBigrams.length === 0 || secondBigrams.length === 0) return 0;
+
+  const remaining = [...secondBigrams];
+  const intersection = firstBigrams.filter((bigram) => {
+    const index = remaining.indexOf(bigram);
+    if (index < 0) return false;
+    remaining.splice(index, 1);
+    return true;
+  }).length;
+  const similarity = (2 * intersection) / (firstBigrams.length + secondBigrams.length);
+
+  // Same product with different sizes are different products
+  if (first.size && second.size) {
+    const sameSize = first.size.unit === second.size.unit && first.size.value === second.size.value;
+    return sameSize ? similarity : similarity * 0.5;
+  }
+  // One of the names without size, it could be the same product
+  if (first.size || second.size) return similarity * 0.9;
+  return similarity;
+};
@@ -0,0 +1,118 @@
+/**
+ * Subset of the Redis commands used by the rate limits, a Redis client (like ioredis) can be used as the store
+ */
+export type RateLimitStore = {
+  get: (key: string) => Promise<string | null>;
+  // Only the `PX` (expiration in milliseconds) mode is used
+  set: (key: string, value: string, mode?: 'PX', duration?: number) => Promise<'OK' | null>;
+  incr: (key: string) => Promise<number>;
+  pexpire: (key: string, milliseconds: number) => Promise<number>;
+  // Remaining time in milliseconds, -2 when the key doesn't exist and -1 when it doesn't expire
+  pttl: (key: string) => Promise<number>;
+  del: (...keys: string[]) => Promise<number>;
+  // Only the `*` wildcard is supported by the memory store
+  keys: (pattern: string) => Promise<string[]>;
+};
+
+type MemoryEntry = {
+  value: string;
+  expiresAt?: number;
+};
+
+// Operations between each removal of the expired keys of the memory store
+const sweepInterval = 1000;
+
+/**
+ * Escape the special characters of a text to be used on a regular expression
+ * @param value text
+ * @returns escaped text
+ */
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Create a store that keeps the keys on the process memory
+ *
+ * The keys are not shared between the server instances, a Redis store must be used when there is more than one
+ * @param now function that returns the current time, in milliseconds
+ * @returns store
+ */
+export const createMemoryStore = (now: () => number = Date.now): RateLimitStore => {
+  const entries = new Map<string, MemoryEntry>();
+  let operations = 0;
+
+  /**
+   * Get a key that didn't expire yet, removing it when expired
+   * @param key entry key
+   * @returns entry
+   */
+  const getEntry = (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  /**
+   * Remove the expired keys from time to time, so the memory doesn't grow with keys that are never read again
+   */
+  const sweep = () => {
+    operations += 1;
+    if (operations % sweepInterval !== 0) return;
+    Array.from(entries.keys()).forEach(getEntry);
+  };
+
+  return {
+    get: async (key) => {
+      sweep();
+      return getEntry(key)?.value ?? null;
+    },
+    set: async (key, value, mode, duration) => {
+      sweep();
+      entries.set(key, { value, expiresAt: mode === 'PX' && duration ? now() + duration : undefined });
+      return 'OK';
+    },
+    incr: async (key) => {
+      sweep();
+      const entry = getEntry(key);
+      const value = (entry ? Number(entry.value) || 0 : 0) + 1;
+      entries.set(key, { value: `${value}`, expiresAt: entry?.expiresAt });
+      return value;
+    },
+    pexpire: async (key, milliseconds) => {
+      const entry = getEntry(key);
+      if (!entry) return 0;
+      entry.expiresAt = now() + milliseconds;
+      return 1;
+    },
+    pttl: async (key) => {
+      const entry = getEntry(key);
+      if (!entry) return -2;
+      return entry.expiresAt === undefined ? -1 : entry.expiresAt - now();
+    },
+    del: async (...keys) => {
+      return keys.filter((key) => getEntry(key) && entries.delete(key)).length;
+    },
+    keys: async (pattern) => {
+      const regex = new RegExp(`^${pattern.split('*').map(escapeRegex).join('.*')}$`);
+      return Array.from(entries.keys()).filter((key) => getEntry(key) && regex.test(key));
+    }
+  };
+};
+
+let store: RateLimitStore = createMemoryStore();
+
+/**
+ * Get the store used by the rate limits
+ * @returns store
+ */
+export const getRateLimitStore = () => store;
+
+/**
+ * Replace the store used by the rate limits, like a Redis client shared by all the server instances
+ * @param rateLimitStore new store
+ */
+export const setRateLimitStore = (rateLimitStore: RateLimitStore) => {
+  store = rateLimitStore;
+};
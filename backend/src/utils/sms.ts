@@ -0,0 +1,56 @@
+import path from 'path';
+import fs from 'fs';
+import moment from 'moment';
+import logging from './logging';
+
+export type SmsMessage = {
+  to: string;
+  text: string;
+};
+
+// Function used to deliver the text messages, it can be replaced by the API of a SMS provider
+export type SmsTransport = (message: SmsMessage) => Promise<void>;
+
+/**
+ * Folder where the file transport stores the text messages
+ */
+export const smsFolder = `${path.dirname(__dirname)}/../database/storage/sms`;
+
+/**
+ * Store the text message as a file, used on development and while no provider is configured
+ * @param message text message to be delivered
+ */
+export const fileSmsTransport: SmsTransport = async (message) => {
+  if (!fs.existsSync(smsFolder)) {
+    fs.mkdirSync(smsFolder, { recursive: true });
+  }
+  const fileName = `${moment().format('YYYYMMDDHHmmssSSS')}_${message.to.replace(/[^0-9]/g, '')}.txt`;
+  fs.writeFileSync(path.resolve(`${smsFolder}/${fileName}`), [`To: ${message.to}`, '', message.text].join('\n'));
+};
+
+/**
+ * Only log the text message, without delivering it
+ * @param message text message to be delivered
+ */
+export const consoleSmsTransport: SmsTransport = async (message) => {
+  logging.info(`[sms] Message to ${message.to}`, message);
+};
+
+let transport: SmsTransport = process.env.SMS_TRANSPORT === 'console' ? consoleSmsTransport : fileSmsTransport;
+
+/**
+ * Replace the transport used to deliver the text messages
+ * @param smsTransport new transport
+ */
+export const setSmsTransport = (smsTransport: SmsTransport) => {
+  transport = smsTransport;
+};
+
+/**
+ * Deliver a text message using the configured transport
+ * @param message text message to be delivered
+ * @returns Promise resolved when the message is delivered
+ */
+export const sendSms = (message: SmsMessage) => {
+  return transport(message);
+};
@@ -0,0 +1,100 @@
+import { Op, WhereOptions, literal } from 'sequelize';
+import { City } from '../schemas/cities';
+import { User } from '../schemas/users';
+
+type CityCondition = (cityId: number) => WhereOptions;
+
+/**
+ * Condition for tables that belong to a city through another table
+ * @param column column of the table with the parent unique ID
+ * @param parentTable name of the parent table, it must have the `cityId` column
+ * @returns function that creates the condition for a city
+ */
+const throughParent = (column: string, parentTable: string): CityCondition => (cityId) => ({
+  [column]: { [Op.in]: literal(`(SELECT "id" FROM "${parentTable}" WHERE "cityId" = ${cityId})`) }
+});
+
+/**
+ * How each table is bound to a city
+ *
+ * Shared tables (groups and products) have items without city, visible to every city, and items created
+ * by a city, visible only to it. Product categories, their group rules and the product aliases are global,
+ * only the super admin can change them
+ */
+const cityConditions = {
+  apiClients: (cityId: number) => ({ cityId }),
+  auditLogs: (cityId: number) => ({ cityId }),
+  benefitPolicies: (cityId: number) => ({ cityId }),
+  benefitPolicyExceptions: (cityId: number) => ({ cityId }),
+  benefitPrograms: (cityId: number) => ({ cityId }),
+  families: (cityId: number) => ({ cityId }),
+  importJobs: (cityId: number) => ({ cityId }),
+  institutions: (cityId: number) => ({ cityId }),
+  places: (cityId: number) => ({ cityId }),
+  placeStores: (cityId: number) => ({ cityId }),
+  users: (cityId: number) => ({ cityId }),
+  balanceAdjustments: throughParent('familyId', 'Families'),
+  benefitProgramOccurrences: throughParent('programId', 'BenefitPrograms'),
+  benefits: throughParent('institutionId', 'Institutions'),
+  consumptions: throughParent('familyId', 'Families'),
+  dependents: throughParent('familyId', 'Families'),
+  ledgerEntries: throughParent('familyId', 'Families'),
+  ledgerMismatches: throughParent('familyId', 'Families'),
+  stockMovements: throughParent('placeStoreId', 'PlaceStores'),
+  groups: (cityId: number) => ({ [Op.or]: [{ cityId: null }, { cityId }] }),
+  products: (cityId: number) => ({ [Op.or]: [{ cityId: null }, { cityId }] })
+};
+
+export type CityBoundTable = keyof typeof cityConditions;
+
+/**
+ * Validate the city unique ID, it's used on subqueries so only positive integers are accepted
+ * @param cityId city unique ID
+ * @returns city unique ID as number
+ */
+export const parseCityId = (cityId?: City['id'] | null): number => {
+  const id = Number(cityId);
+  if (!cityId || !Number.isInteger(id) || id <= 0) {
+    throw { status: 412, message: 'Cidade inválida' };
+  }
+  return id;
+};
+
+/**
+ * Restrict a where clause to the items of a city
+ *
+ * Every query on a city bound table made on behalf of a user must use it, so the data of a city never
+ * reaches another one
+ * @param table key of the table on the db object
+ * @param cityId city unique ID
+ * @param where optional where clause of the query
+ * @returns where clause with the city condition
+ */
+export const cityScope = (
+  table: CityBoundTable,
+  cityId: City['id'] | undefined,
+  where?: WhereOptions
+): WhereOptions => {
+  const condition = cityConditions[table](parseCityId(cityId)) as WhereOptions;
+  return where ? { [Op.and]: [condition, where] } : condition;
+};
+
+/**
+ * Restrict a where clause to the items of a shared table that the user can change
+ *
+ * The items without city are shared by every city, so only the super admin can change them, other users
+ * can change only the items created by the selected city
+ * @param table key of the shared table on the db object
+ * @param user logged user, with the selected city
+ * @param where optional where clause of the query
+ * @returns where clause with the city condition
+ */
+export const editableScope = (
+  table: 'groups' | 'products',
+  user: Pick<User, 'cityId' | 'role'>,
+  where?: WhereOptions
+): WhereOptions => {
+  if (user.role === 'superadmin') return cityScope(table, user.cityId, where);
+  const condition = { cityId: parseCityId(user.cityId) };
+  return where ? { [Op.and]: [condition, where] } : condition;
+};
@@ -0,0 +1,44 @@
+import {
+  parseSignatureHeader,
+  signRequest,
+  isValidSignature,
+  isValidTimestamp,
+  signatureMaxAge
+} from '../src/utils/apiSignature';
+
+const testName = 'apiSignature';
+
+const request = { method: 'get', path: '/public/families?nis=12345678901', timestamp: '1600000000000', nonce: 'abc' };
+
+test(`[${testName}] Parse the authorization header`, () => {
+  expect(
+    parseSignatureHeader('HMAC-SHA256 keyId="pc_1", timestamp="1600000000000", nonce="abc", signature="ff00"')
+  ).toEqual({ keyId: 'pc_1', timestamp: '1600000000000', nonce: 'abc', signature: 'ff00' });
+  expect(parseSignatureHeader(undefined)).toBeNull();
+  expect(parseSignatureHeader('Bearer token')).toBeNull();
+  expect(parseSignatureHeader('HMAC-SHA256 keyId="pc_1", timestamp="1600000000000"')).toBeNull();
+});
+
+test(`[${testName}] Accept only signatures made with the client key`, () => {
+  const signature = signRequest('secret', request);
+  expect(isValidSignature('secret', request, signature)).toBe(true);
+  expect(isValidSignature('other-secret', request, signature)).toBe(false);
+  expect(isValidSignature('secret', request, 'invalid')).toBe(false);
+});
+
+test(`[${testName}] Sign the method, path, timestamp and nonce`, () => {
+  const signature = signRequest('secret', request);
+  expect(isValidSignature('secret', { ...request, method: 'POST' }, signature)).toBe(false);
+  expect(isValidSignature('secret', { ...request, path: '/public/families?nis=1' }, signature)).toBe(false);
+  expect(isValidSignature('secret', { ...request, timestamp: '1600000000001' }, signature)).toBe(false);
+  expect(isValidSignature('secret', { ...request, nonce: 'def' }, signature)).toBe(false);
+});
+
+test(`[${testName}] Reject timestamps far from the server clock`, () => {
+  const now = 1600000000000;
+  expect(isValidTimestamp(`${now}`, now)).toBe(true);
+  expect(isValidTimestamp(`${now - signatureMaxAge}`, now)).toBe(true);
+  expect(isValidTimestamp(`${now - signatureMaxAge - 1}`, now)).toBe(false);
+  expect(isValidTimestamp(`${now + signatureMaxAge + 1}`, now)).toBe(false);
+  expect(isValidTimestamp('invalid', now)).toBe(false);
+});
@@ -0,0 +1,40 @@
+import { sanitizeAuditValue } from '../src/models/auditLogs';
+
+const testName = 'auditLogs';
+
+test(`[${testName}] Store empty values as null`, () => {
+  expect(sanitizeAuditValue(undefined)).toBeNull();
+  expect(sanitizeAuditValue(null)).toBeNull();
+  expect(sanitizeAuditValue('')).toBeNull();
+});
+
+test(`[${testName}] Parse JSON bodies and keep plain texts`, () => {
+  expect(sanitizeAuditValue('{"id":1,"name":"Teste"}')).toEqual({ id: 1, name: 'Teste' });
+  expect(sanitizeAuditValue('Family deactivated')).toEqual({ value: 'Family deactivated' });
+  expect(sanitizeAuditValue(10)).toEqual({ value: 10 });
+});
+
+test(`[${testName}] Remove sensitive fields`, () => {
+  const value = {
+    id: 1,
+    email: 'admin@example.com',
+    password: 'hash',
+    place: { id: 2, token: 'abc', clientSecret: 'def' },
+    list: [{ name: 'Teste', resetToken: 'ghi' }],
+    challenge: 'jkl'
+  };
+  expect(sanitizeAuditValue(value)).toEqual({
+    id: 1,
+    email: 'admin@example.com',
+    place: { id: 2 },
+    list: [{ name: 'Teste' }]
+  });
+  // The original value is not changed
+  expect(value.password).toBe('hash');
+});
+
+test(`[${testName}] Convert dates to strings`, () => {
+  expect(sanitizeAuditValue({ createdAt: new Date('2020-04-10T03:00:00.000Z') })).toEqual({
+    createdAt: '2020-04-10T03:00:00.000Z'
+  });
+});
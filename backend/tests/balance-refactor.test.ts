@@ -1,10 +1,11 @@
 import moment from 'moment';
 import db, { sequelize } from '../src/schemas';
 import * as consumptionModel from '../src/models/consumptions';
+import { syncFamilyLedger } from '../src/models/ledgerEntries';
 import { Family } from '../src/schemas/families';
-import { getFamilyGroupByCode } from '../src/utils/constraints';
 import { Benefit } from '../src/schemas/benefits';
 import { PlaceStore } from '../src/schemas/placeStores';
+import { generateNFCeLink } from './utils/nfce';
 import { Institution } from '../src/schemas/institutions';
 import { Dependent } from '../src/schemas/depedents';
 import { Consumption } from '../src/schemas/consumptions';
@@ -26,7 +27,7 @@ let createdDependent: Dependent;
 
 const family = {
   code: Math.floor(Math.random() * 10000000).toString(),
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   responsibleName: 'TEREZA DE JESUS',
   responsibleBirthday: moment('01/01/1980', 'DD/MM/YYYY').toDate(),
   responsibleNis: Math.floor(Math.random() * 10000000000).toString(),
@@ -37,7 +38,7 @@ let createdFamily: Family;
 
 const benefit = {
   title: '[CAD25123] Auxilio merenda',
-  groupId: getFamilyGroupByCode(0)?.id,
+  groupId: 1,
   date: moment().toDate(),
   value: 500,
   institutionId: 0
@@ -59,6 +60,8 @@ test(`[${testName}] Create mock data`, async () => {
   createdBenefit = await db.benefits.create({ ...benefit });
   expect(createdBenefit).toBeDefined();
   expect(createdBenefit.id).toBeDefined();
+  // Created without the model, the benefit is granted as the reconciliation cron does
+  await syncFamilyLedger(createdFamily);
 });
 
 test(`[${testName}] Get balance report`, async () => {
@@ -78,10 +81,14 @@ test(`[${testName}] Consume all the balance`, async () => {
     value: balance as number,
     invalidValue: 0,
     familyId: createdFamily.id as number,
-    nfce: new Date().getTime().toString(),
+    nfce: generateNFCeLink(placeStore.cnpj),
     placeStoreId: placeStore.id as number
   };
-  const cratedConsumption = await consumptionModel.addConsumption(consumption, placeStore.id as number);
+  const cratedConsumption = await consumptionModel.addConsumption(
+    consumption,
+    placeStore.cityId,
+    placeStore.id as number
+  );
   expect(cratedConsumption).toBeDefined();
   expect(cratedConsumption.id).toBeDefined();
   expect(cratedConsumption.value).toBe(balance);
@@ -94,11 +101,15 @@ test(`[${testName}] Consume more than the balance`, async () => {
     value: 100,
     invalidValue: 0,
     familyId: createdFamily.id as number,
-    nfce: new Date().getTime().toString(),
+    nfce: generateNFCeLink(placeStore.cnpj),
     placeStoreId: placeStore.id as number
   };
   try {
-    const cratedConsumption = await consumptionModel.addConsumption(consumption, placeStore.id as number);
+    const cratedConsumption = await consumptionModel.addConsumption(
+      consumption,
+      placeStore.cityId,
+      placeStore.id as number
+    );
     expect(cratedConsumption).toBe('Should not create consumption');
   } catch (error) {
     expect(error).toBeDefined();
@@ -2,7 +2,6 @@ import moment from 'moment';
 import db, { sequelize } from '../src/schemas';
 import * as consumptionModel from '../src/models/consumptions';
 import { Family } from '../src/schemas/families';
-import { getFamilyGroupByCode } from '../src/utils/constraints';
 import { Benefit } from '../src/schemas/benefits';
 import { PlaceStore } from '../src/schemas/placeStores';
 import { Institution } from '../src/schemas/institutions';
@@ -15,7 +14,7 @@ const testName = 'balance';
 
 const family = {
   code: Math.floor(Math.random() * 10000000).toString(),
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   responsibleName: 'TEREZA DE JESUS',
   responsibleBirthday: moment('01/01/1980', 'DD/MM/YYYY').toDate(),
   responsibleNis: Math.floor(Math.random() * 10000000000).toString(),
@@ -26,7 +25,7 @@ let createdFamily: Family;
 
 const benefit = {
   title: '[CAD25123] Auxilio municipal de alimentação',
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   date: moment().toDate(),
   value: 500,
   institutionId: 0
@@ -0,0 +1,67 @@
+import { sequelize } from '../src/schemas';
+import { applyProductAdjustments, checkAdjustmentValues, sumProductAmounts } from '../src/models/balanceAdjustments';
+import { BalanceAdjustment } from '../src/schemas/balanceAdjustments';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'balanceAdjustments';
+
+test(`[${testName}] Require the reason and a value on the ticket adjustments`, () => {
+  expect(checkAdjustmentValues({ reason: ' Estorno manual ', value: 25.555 }, 'ticket')).toEqual({
+    reason: 'Estorno manual',
+    value: 25.56,
+    products: null
+  });
+  expect(checkAdjustmentValues({ reason: 'Desconto', value: -10 }, 'ticket').value).toBe(-10);
+  expect(() => checkAdjustmentValues({ value: 10 }, 'ticket')).toThrow();
+  expect(() => checkAdjustmentValues({ reason: 'Sem valor' }, 'ticket')).toThrow();
+  expect(() => checkAdjustmentValues({ reason: 'Zero', value: 0 }, 'ticket')).toThrow();
+});
+
+test(`[${testName}] Require integer quantities on the product adjustments`, () => {
+  const values = { reason: 'Cesta extra', value: 50, products: [{ productId: '3', amount: 2 }] };
+  expect(checkAdjustmentValues(values, 'product')).toEqual({
+    reason: 'Cesta extra',
+    value: null,
+    products: [{ productId: 3, amount: 2 }]
+  });
+  expect(() => checkAdjustmentValues({ reason: 'Vazio', products: [] }, 'product')).toThrow();
+  expect(() =>
+    checkAdjustmentValues({ reason: 'Meio', products: [{ productId: 3, amount: 0.5 }] }, 'product')
+  ).toThrow();
+});
+
+test(`[${testName}] Add the approved quantities to the granted products`, () => {
+  const adjustments = [
+    {
+      products: [
+        { productId: 1, amount: 2 },
+        { productId: 2, amount: 1 }
+      ]
+    },
+    {
+      products: [
+        { productId: 1, amount: 1 },
+        { productId: 2, amount: -1 }
+      ]
+    },
+    { products: [{ productId: 5, amount: 3 }] }
+  ] as BalanceAdjustment[];
+  const amounts = sumProductAmounts(adjustments);
+  expect(amounts).toEqual([
+    { productId: 1, amount: 3 },
+    { productId: 5, amount: 3 }
+  ]);
+
+  const granted = [
+    { productId: 1, amount: 4 },
+    { productId: 2, amount: 2 }
+  ];
+  expect(applyProductAdjustments(granted, amounts)).toEqual([
+    { productId: 1, amount: 7 },
+    { productId: 2, amount: 2 },
+    { productId: 5, amount: 3 }
+  ]);
+});
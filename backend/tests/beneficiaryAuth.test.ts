@@ -0,0 +1,56 @@
+import jwt from 'jsonwebtoken';
+import {
+  isSameBirthday,
+  maskPhone,
+  createSessionToken,
+  verifySessionToken,
+  isOtpEnabled
+} from '../src/models/beneficiaryAuth';
+
+const testName = 'beneficiaryAuth';
+
+test(`[${testName}] Compare the informed birthday with the registered one`, () => {
+  const registered = new Date('1985-03-20T00:00:00.000Z');
+  expect(isSameBirthday(registered, '20/03/1985')).toBe(true);
+  expect(isSameBirthday(registered, '1985-03-20')).toBe(true);
+  expect(isSameBirthday(registered, '21/03/1985')).toBe(false);
+  expect(isSameBirthday(registered, '18/03/1985')).toBe(false);
+  expect(isSameBirthday(registered, '1985')).toBe(false);
+  expect(isSameBirthday(registered, '')).toBe(false);
+  expect(isSameBirthday(null, '20/03/1985')).toBe(false);
+});
+
+test(`[${testName}] Keep only the last digits of the phone`, () => {
+  expect(maskPhone('(32) 99876-5432')).toBe('*******5432');
+  expect(maskPhone('123')).toBe('123');
+});
+
+test(`[${testName}] Create and read the session token`, () => {
+  const { token, expiresAt } = createSessionToken({ id: 10, cityId: 1 });
+  expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+  expect(verifySessionToken(token)).toEqual({ familyId: 10, cityId: 1 });
+});
+
+test(`[${testName}] Reject invalid session tokens`, () => {
+  const secret = process.env.BENEFICIARY_JWT_SECRET || process.env.JWT_SECRET || 'undefined-secret';
+  // Admin tokens don't have the beneficiary audience
+  expect(verifySessionToken(jwt.sign({ id: 1, familyId: 10, cityId: 1 }, secret))).toBeNull();
+  expect(
+    verifySessionToken(jwt.sign({ familyId: 10, cityId: 1 }, 'other-secret', { audience: 'beneficiary' }))
+  ).toBeNull();
+  expect(
+    verifySessionToken(jwt.sign({ familyId: 10, cityId: 1 }, secret, { audience: 'beneficiary', expiresIn: -10 }))
+  ).toBeNull();
+  expect(verifySessionToken(undefined)).toBeNull();
+  expect(verifySessionToken('invalid')).toBeNull();
+});
+
+test(`[${testName}] One-time code is disabled by default`, () => {
+  const value = process.env.BENEFICIARY_OTP;
+  delete process.env.BENEFICIARY_OTP;
+  expect(isOtpEnabled()).toBe(false);
+  process.env.BENEFICIARY_OTP = 'true';
+  expect(isOtpEnabled()).toBe(true);
+  process.env.BENEFICIARY_OTP = value;
+  if (value === undefined) delete process.env.BENEFICIARY_OTP;
+});
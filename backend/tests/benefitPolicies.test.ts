@@ -0,0 +1,127 @@
+import moment from 'moment';
+import { sequelize } from '../src/schemas';
+import {
+  checkPolicyValues,
+  defaultPolicyRules,
+  findEffectivePolicy,
+  findFamilyExceptions,
+  getMoneyPaid,
+  hasDeclaredAll,
+  normalizeExceptionValue
+} from '../src/models/benefitPolicies';
+import { getInvalidValueDiscount } from '../src/models/ledgerEntries';
+import { BenefitPolicy } from '../src/schemas/benefitPolicies';
+import { BenefitPolicyException } from '../src/schemas/benefitPolicyExceptions';
+import { Consumption, PurchaseData } from '../src/schemas/consumptions';
+import { Family } from '../src/schemas/families';
+import { Benefit } from '../src/schemas/benefits';
+import { LedgerEntry } from '../src/schemas/ledgerEntries';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'benefitPolicies';
+
+const versions = [
+  {
+    id: 1,
+    effectiveFrom: '2020-01-01',
+    undeclaredConsumptionMultiplier: 0.5,
+    moneyPaymentNames: ['dinheiro'],
+    declaredTolerance: 1
+  },
+  {
+    id: 2,
+    effectiveFrom: '2020-03-01',
+    undeclaredConsumptionMultiplier: 0.8,
+    moneyPaymentNames: ['dinheiro', 'pix'],
+    declaredTolerance: 2
+  },
+  // Same day of the previous version, the last one created is used
+  {
+    id: 3,
+    effectiveFrom: '2020-03-01',
+    undeclaredConsumptionMultiplier: 0.9,
+    moneyPaymentNames: ['dinheiro'],
+    declaredTolerance: 2
+  }
+] as BenefitPolicy[];
+
+test(`[${testName}] Use the version effective on the date`, () => {
+  expect(findEffectivePolicy(versions, '2019-12-31')).toEqual(defaultPolicyRules);
+  expect(findEffectivePolicy(versions, '2020-02-28').undeclaredConsumptionMultiplier).toBe(0.5);
+  expect(findEffectivePolicy(versions, '2020-03-01').undeclaredConsumptionMultiplier).toBe(0.9);
+  expect(findEffectivePolicy([], '2020-03-01')).toEqual(defaultPolicyRules);
+});
+
+test(`[${testName}] Sum only the payments made with money`, () => {
+  const purchaseData = {
+    payment: [
+      { name: 'Dinheiro', value: 10 },
+      { name: 'PIX', value: 5 },
+      { name: 'Cartão de débito', value: 20 }
+    ]
+  } as PurchaseData;
+  expect(getMoneyPaid(purchaseData)).toBe(10);
+  expect(getMoneyPaid(purchaseData, { ...defaultPolicyRules, moneyPaymentNames: ['dinheiro', 'pix'] })).toBe(15);
+  expect(getMoneyPaid(undefined)).toBe(0);
+
+  const consumption = {
+    familyId: 1,
+    value: 50,
+    invalidValue: 30,
+    createdAt: moment('2020-02-10').toDate(),
+    reviewedAt: moment('2020-03-02').toDate(),
+    purchaseData
+  } as Consumption;
+  const benefits = [{ id: 1, value: 100, valueType: 'family', date: moment('2020-04-01').toDate() }] as Benefit[];
+  const grants = [{ familyId: 1, type: 'benefit', value: 100, date: benefits[0].date, benefitId: 1 }] as LedgerEntry[];
+  expect(getInvalidValueDiscount([consumption], grants, benefits, 1)).toBe(20);
+  // The version effective on the review has PIX as money
+  expect(getInvalidValueDiscount([consumption], grants, benefits, 1, [versions[1]])).toBe(15);
+  expect(getInvalidValueDiscount([consumption], grants, benefits, 1, versions)).toBe(20);
+});
+
+test(`[${testName}] Accept the declared value within the tolerance`, () => {
+  expect(hasDeclaredAll(99.5, 100, defaultPolicyRules)).toBe(true);
+  expect(hasDeclaredAll(98, 100, defaultPolicyRules)).toBe(false);
+  expect(hasDeclaredAll(98, 100, { ...defaultPolicyRules, declaredTolerance: 5 })).toBe(true);
+  expect(hasDeclaredAll(120, 100, defaultPolicyRules)).toBe(true);
+});
+
+test(`[${testName}] Find the family on the exceptions list`, () => {
+  const exceptions = [
+    { type: 'nis', value: normalizeExceptionValue('nis', '123.456.789-01') },
+    { type: 'name', value: normalizeExceptionValue('name', ' Maria  da Silva ') }
+  ] as BenefitPolicyException[];
+  expect(exceptions.map((item) => item.value)).toEqual(['12345678901', 'MARIA DA SILVA']);
+  expect(
+    findFamilyExceptions(exceptions, { responsibleNis: '12345678901', responsibleName: 'JOANA' } as Family)
+  ).toEqual({
+    nisOnList: true,
+    nameOnList: false
+  });
+  expect(
+    findFamilyExceptions(exceptions, { responsibleNis: '1', responsibleName: 'MARIA DA SILVA' } as Family)
+  ).toEqual({
+    nisOnList: false,
+    nameOnList: true
+  });
+});
+
+test(`[${testName}] Validate the new versions`, () => {
+  const tomorrow = moment().add(1, 'day').format('YYYY-MM-DD');
+  const values = {
+    effectiveFrom: tomorrow,
+    undeclaredConsumptionMultiplier: 0.6,
+    moneyPaymentNames: [' Dinheiro ', ''],
+    declaredTolerance: 0
+  };
+  expect(checkPolicyValues(values)).toEqual({ ...values, moneyPaymentNames: ['dinheiro'] });
+  expect(() => checkPolicyValues({ ...values, effectiveFrom: '2020-01-01' })).toThrow();
+  expect(() => checkPolicyValues({ ...values, effectiveFrom: '01/01/2030' })).toThrow();
+  expect(() => checkPolicyValues({ ...values, undeclaredConsumptionMultiplier: 1.5 })).toThrow();
+  expect(() => checkPolicyValues({ ...values, declaredTolerance: -1 })).toThrow();
+  expect(() => checkPolicyValues({ ...values, moneyPaymentNames: [] })).toThrow();
+});
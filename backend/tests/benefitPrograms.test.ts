@@ -0,0 +1,87 @@
+import { sequelize } from '../src/schemas';
+import {
+  buildOccurrenceList,
+  checkProgramValues,
+  findMonthOccurrence,
+  getOccurrenceDates
+} from '../src/models/benefitPrograms';
+import { getFamilyBenefitValue } from '../src/models/benefits';
+import { BenefitProgram } from '../src/schemas/benefitPrograms';
+import { BenefitProgramOccurrence } from '../src/schemas/benefitProgramOccurrences';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'benefitPrograms';
+
+const program = {
+  id: 1,
+  institutionId: 1,
+  groupId: 2,
+  title: 'Auxílio',
+  dayOfMonth: 10,
+  startDate: '2020-01-15',
+  endDate: '2020-06-30',
+  value: 100,
+  valueType: 'dependent',
+  products: null
+} as BenefitProgram;
+
+test(`[${testName}] Calculate the occurrences between the program dates`, () => {
+  expect(getOccurrenceDates(program, '2020-04-09')).toEqual(['2020-02-10', '2020-03-10']);
+  expect(getOccurrenceDates(program, '2020-04-10')).toEqual(['2020-02-10', '2020-03-10', '2020-04-10']);
+  expect(getOccurrenceDates(program, '2021-01-01')).toHaveLength(5);
+  expect(getOccurrenceDates({ ...program, startDate: '2020-01-10' }, '2020-01-31')).toEqual(['2020-01-10']);
+  expect(getOccurrenceDates({ ...program, endDate: null }, '2020-01-01')).toEqual([]);
+});
+
+test(`[${testName}] List the occurrences with the stored changes`, () => {
+  const occurrences = [
+    { programId: 1, date: '2020-02-10', status: 'generated', benefitId: 7 },
+    { programId: 1, date: '2020-03-10', status: 'skipped', note: 'Sem orçamento' },
+    { programId: 1, date: '2020-04-10', status: 'scheduled', value: 150 }
+  ] as BenefitProgramOccurrence[];
+  const list = buildOccurrenceList(program, occurrences, '2020-05-31');
+  expect(list.map((item) => [item.date, item.status, item.value, item.overridden])).toEqual([
+    ['2020-02-10', 'generated', 100, false],
+    ['2020-03-10', 'skipped', 100, false],
+    ['2020-04-10', 'scheduled', 150, true],
+    ['2020-05-10', 'scheduled', 100, false]
+  ]);
+  expect(list[0].benefitId).toBe(7);
+});
+
+test(`[${testName}] Keep the generated month when the program day changes`, () => {
+  const occurrences = [
+    { programId: 1, date: '2020-02-10', status: 'generated', benefitId: 7 },
+    { programId: 1, date: '2020-03-10', status: 'skipped' }
+  ] as BenefitProgramOccurrence[];
+  const list = buildOccurrenceList({ ...program, startDate: '2020-02-01', dayOfMonth: 20 }, occurrences, '2020-04-30');
+  expect(list.map((item) => [item.date, item.status])).toEqual([
+    ['2020-02-10', 'generated'],
+    ['2020-03-20', 'skipped'],
+    ['2020-04-20', 'scheduled']
+  ]);
+  expect(findMonthOccurrence(occurrences, '2020-03-31')?.status).toBe('skipped');
+  expect(findMonthOccurrence(occurrences, '2020-04-10')).toBeUndefined();
+});
+
+test(`[${testName}] Validate the program values`, () => {
+  expect(checkProgramValues({ ...program, value: 99.999 }, 'ticket')).toMatchObject({ value: 100, products: null });
+  expect(() => checkProgramValues({ ...program, dayOfMonth: 31 }, 'ticket')).toThrow();
+  expect(() => checkProgramValues({ ...program, endDate: '2019-12-31' }, 'ticket')).toThrow();
+  expect(() => checkProgramValues({ ...program, value: 0 }, 'ticket')).toThrow();
+  expect(() => checkProgramValues({ ...program, title: ' ' }, 'ticket')).toThrow();
+  expect(() => checkProgramValues(program, 'product')).toThrow();
+  expect(checkProgramValues({ ...program, products: [{ productId: '3', amount: 2 }] }, 'product').products).toEqual([
+    { productId: 3, amount: 2 }
+  ]);
+});
+
+test(`[${testName}] Multiply only the dependent values by the dependents`, () => {
+  expect(getFamilyBenefitValue({ value: 100, valueType: 'dependent' }, 3)).toBe(300);
+  expect(getFamilyBenefitValue({ value: 100 }, 3)).toBe(300);
+  expect(getFamilyBenefitValue({ value: 150, valueType: 'family' }, 3)).toBe(150);
+  expect(getFamilyBenefitValue(null, 3)).toBe(0);
+});
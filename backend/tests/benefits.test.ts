@@ -1,14 +1,15 @@
 import moment from 'moment';
 import db, { sequelize } from '../src/schemas';
 import * as consumptionModel from '../src/models/consumptions';
+import * as benefitModel from '../src/models/benefits';
 import { Family } from '../src/schemas/families';
-import { getFamilyGroupByCode } from '../src/utils/constraints';
 import { Benefit } from '../src/schemas/benefits';
 import { PlaceStore } from '../src/schemas/placeStores';
 import { Institution } from '../src/schemas/institutions';
 import { Group } from '../src/schemas/groups';
 import Sequelize, { Op } from 'sequelize';
 import { BenefitProduct } from '../src/schemas/benefitProducts';
+import { cityScope } from '../src/utils/tenancy';
 
 afterAll(() => {
   sequelize.close();
@@ -18,7 +19,7 @@ const testName = 'benefits';
 
 const family = {
   code: '1234567890',
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   responsibleName: 'Familia Teste',
   responsibleBirthday: moment('01/01/1980', 'DD/MM/YYYY').toDate(),
   responsibleNis: '1234567890',
@@ -29,7 +30,7 @@ let createdFamily: Family;
 
 const familyPrev = {
   code: '1234567899',
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   responsibleName: 'Familia Teste Prev',
   responsibleBirthday: moment('01/01/1980', 'DD/MM/YYYY').toDate(),
   responsibleNis: '1234567899',
@@ -302,3 +303,95 @@ test(`[${testName}] Benefit on end of last month - familyPrev`, async () => {
   const expectedAmountList = await expectedAmount();
   expect(balance).toStrictEqual(expectedAmountList);
 });
+
+test(`[${testName}] Compare the basket products and amounts`, () => {
+  const basket = [
+    { productId: 1, amount: 2 },
+    { productId: 2, amount: 3 }
+  ];
+  expect(benefitModel.isSameBasket(basket, [...basket].reverse())).toBe(true);
+  expect(benefitModel.isSameBasket(basket, [{ productId: 1, amount: 2 }])).toBe(false);
+  expect(benefitModel.isSameBasket(basket, [basket[0], { productId: 2, amount: 4 }])).toBe(false);
+});
+
+test(`[${testName}] Edit the basket in place before the families consume from it`, async () => {
+  const cityId = placeStore.cityId as number;
+  const [product] = await db.products.findAll({ where: cityScope('products', cityId), limit: 1 });
+  const created = await benefitModel.createWithProduct(
+    {
+      title: '[CAD25123] Cesta sem consumo',
+      date: moment().subtract(1, 'month').toDate(),
+      institutionId: institution.id as number,
+      groupId: createdGroup.id as number,
+      benefitProducts: [{ productId: product.id as number, amount: 2 } as BenefitProduct]
+    },
+    cityId
+  );
+  expect(created.benefitProducts).toHaveLength(1);
+
+  const updated = await benefitModel.updateWithProduct(
+    created.id as number,
+    {
+      ...(created.toJSON() as Benefit),
+      benefitProducts: [{ ...(created.benefitProducts as BenefitProduct[])[0], amount: 5 }]
+    },
+    cityId
+  );
+  expect(updated?.benefitProducts).toHaveLength(1);
+  expect(updated?.benefitProducts?.[0].amount).toBe(5);
+  expect(updated?.benefitProducts?.[0].version).toBe(1);
+  expect(await db.benefitProducts.count({ where: { benefitId: created.id as number } })).toBe(1);
+
+  await db.benefitProducts.destroy({ where: { benefitId: created.id as number } });
+  await db.benefits.destroy({ where: { id: created.id as number } });
+});
+
+test(`[${testName}] Create a new basket version after the families consumed from it`, async () => {
+  const cityId = placeStore.cityId as number;
+  const [product] = await db.products.findAll({ where: cityScope('products', cityId), limit: 1 });
+  const created = await benefitModel.createWithProduct(
+    {
+      title: '[CAD25123] Cesta com consumo',
+      date: moment().subtract(1, 'month').toDate(),
+      institutionId: institution.id as number,
+      groupId: createdGroup.id as number,
+      benefitProducts: [{ productId: product.id as number, amount: 2 } as BenefitProduct]
+    },
+    cityId
+  );
+  const consumption = await db.consumptions.create({ familyId: createdFamilyPrev.id as number, value: 0 });
+  await db.consumptionProducts.create({ productId: product.id as number, consumptionsId: consumption.id, amount: 1 });
+  const beforeEdit = moment().toDate();
+
+  const updated = await benefitModel.updateWithProduct(
+    created.id as number,
+    {
+      ...(created.toJSON() as Benefit),
+      benefitProducts: [{ ...(created.benefitProducts as BenefitProduct[])[0], amount: 5 }]
+    },
+    cityId
+  );
+  expect(updated?.benefitProducts).toHaveLength(1);
+  expect(updated?.benefitProducts?.[0].amount).toBe(5);
+  expect(updated?.benefitProducts?.[0].version).toBe(2);
+
+  // The replaced version is kept for the past balances
+  const versions = await db.benefitProducts.findAll({
+    where: { benefitId: created.id as number },
+    order: [['version', 'ASC']]
+  });
+  expect(versions).toHaveLength(2);
+  expect(versions[0].replacedAt).toBeTruthy();
+  expect(versions[1].replacedAt).toBeNull();
+
+  const pastBalance = await consumptionModel.getFamilyDependentBalanceProduct(createdFamilyPrev, beforeEdit);
+  const currentBalance = await consumptionModel.getFamilyDependentBalanceProduct(createdFamilyPrev);
+  const currentGranted = currentBalance.find((item) => item.product.id === product.id)?.amountGranted as number;
+  const pastGranted = pastBalance.find((item) => item.product.id === product.id)?.amountGranted as number;
+  expect(currentGranted - pastGranted).toBe(3);
+
+  await db.consumptionProducts.destroy({ where: { consumptionsId: consumption.id as number } });
+  await db.consumptions.destroy({ where: { id: consumption.id as number } });
+  await db.benefitProducts.destroy({ where: { benefitId: created.id as number } });
+  await db.benefits.destroy({ where: { id: created.id as number } });
+});
@@ -2,10 +2,10 @@ import moment from 'moment';
 import db, { sequelize } from '../src/schemas';
 import * as consumptionModel from '../src/models/consumptions';
 import { Family } from '../src/schemas/families';
-import { getFamilyGroupByCode } from '../src/utils/constraints';
 import { Benefit } from '../src/schemas/benefits';
 import { Consumption } from '../src/schemas/consumptions';
 import { PlaceStore } from '../src/schemas/placeStores';
+import { generateNFCeLink } from './utils/nfce';
 
 afterAll(() => {
   sequelize.close();
@@ -15,7 +15,7 @@ const testName = 'consumption';
 
 const family = {
   code: Math.floor(Math.random() * 10000000).toString(),
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   responsibleName: 'TEREZA DE JESUS',
   responsibleBirthday: moment('01/01/1980', 'DD/MM/YYYY').toDate(),
   responsibleNis: Math.floor(Math.random() * 10000000000).toString(),
@@ -26,7 +26,7 @@ let createdFamily: Family;
 
 const benefit = {
   title: '[CAD25123] Auxilio municipal de alimentação',
-  groupId: getFamilyGroupByCode(1)?.id,
+  groupId: 2,
   date: moment().toDate(),
   value: 500,
   institutionId: 0
@@ -56,10 +56,14 @@ test(`[${testName}] Consume all the balance`, async () => {
     value: balance,
     invalidValue: 0,
     familyId: createdFamily.id as number,
-    nfce: new Date().getTime().toString(),
+    nfce: generateNFCeLink(placeStore.cnpj),
     placeStoreId: placeStore.id as number
   };
-  const cratedConsumption = await consumptionModel.addConsumption(consumption, placeStore.id as number);
+  const cratedConsumption = await consumptionModel.addConsumption(
+    consumption,
+    placeStore.cityId,
+    placeStore.id as number
+  );
   expect(cratedConsumption).toBeDefined();
   expect(cratedConsumption.id).toBeDefined();
   expect(cratedConsumption.value).toBe(balance);
@@ -72,11 +76,15 @@ test(`[${testName}] Consume more than the balance`, async () => {
     value: 100,
     invalidValue: 0,
     familyId: createdFamily.id as number,
-    nfce: new Date().getTime().toString(),
+    nfce: generateNFCeLink(placeStore.cnpj),
     placeStoreId: placeStore.id as number
   };
   try {
-    const cratedConsumption = await consumptionModel.addConsumption(consumption, placeStore.id as number);
+    const cratedConsumption = await consumptionModel.addConsumption(
+      consumption,
+      placeStore.cityId,
+      placeStore.id as number
+    );
     expect(cratedConsumption).toBe('Should not create consumption');
   } catch (error) {
     expect(error).toBeDefined();
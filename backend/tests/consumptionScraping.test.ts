@@ -0,0 +1,19 @@
+import moment from 'moment';
+import { getScrapeNextAttemptAt, maxScrapeAttempts } from '../src/models/consumptions';
+
+const testName = 'consumptionScraping';
+
+test(`[${testName}] Double the wait after each failed attempt`, () => {
+  const from = moment('2020-04-10T03:00:00');
+  expect(moment(getScrapeNextAttemptAt(1, from) as Date).diff(from, 'days')).toBe(1);
+  expect(moment(getScrapeNextAttemptAt(2, from) as Date).diff(from, 'days')).toBe(2);
+  expect(moment(getScrapeNextAttemptAt(3, from) as Date).diff(from, 'days')).toBe(4);
+  expect(moment(getScrapeNextAttemptAt(maxScrapeAttempts - 1, from) as Date).diff(from, 'days')).toBe(
+    Math.pow(2, maxScrapeAttempts - 2)
+  );
+});
+
+test(`[${testName}] Give up after the max attempts`, () => {
+  expect(getScrapeNextAttemptAt(maxScrapeAttempts)).toBeNull();
+  expect(getScrapeNextAttemptAt(maxScrapeAttempts + 1)).toBeNull();
+});
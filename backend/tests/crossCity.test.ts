@@ -0,0 +1,147 @@
+import moment from 'moment';
+import db, { sequelize } from '../src/schemas';
+import * as familyModel from '../src/models/families';
+import * as groupModel from '../src/models/groups';
+import * as placeStoreModel from '../src/models/placeStores';
+import * as productModel from '../src/models/products';
+import * as consumptionModel from '../src/models/consumptions';
+import { Family } from '../src/schemas/families';
+import { SequelizeCity } from '../src/schemas/cities';
+import { SequelizeGroup } from '../src/schemas/groups';
+import { SequelizeProduct } from '../src/schemas/products';
+import { PlaceStore } from '../src/schemas/placeStores';
+import { User } from '../src/schemas/users';
+import { generateNFCeLink } from './utils/nfce';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'crossCity';
+
+let placeStore: PlaceStore;
+let otherCity: SequelizeCity;
+let otherFamily: Family;
+let otherGroup: SequelizeGroup;
+let sharedProduct: SequelizeProduct;
+
+test(`[${testName}] Create mock data on another city`, async () => {
+  [placeStore] = await db.placeStores.findAll({ limit: 1 });
+  otherCity = await db.cities.create({ title: `Outra cidade ${Date.now()}` });
+  otherFamily = await db.families.create({
+    code: Math.floor(Math.random() * 10000000).toString(),
+    groupId: 2,
+    responsibleName: 'JOANA DA SILVA',
+    responsibleBirthday: moment('01/01/1985', 'DD/MM/YYYY').toDate(),
+    responsibleNis: Math.floor(Math.random() * 10000000000).toString(),
+    responsibleMotherName: 'MARIA DA SILVA',
+    cityId: otherCity.id
+  } as Family);
+  otherGroup = await groupModel.create({ title: 'Grupo da outra cidade' }, otherCity.id as number);
+  expect(otherFamily.id).toBeDefined();
+  expect(otherGroup.cityId).toBe(otherCity.id);
+});
+
+test(`[${testName}] Don't list items of another city`, async () => {
+  const cityId = placeStore.cityId as number;
+  const families = await familyModel.getAll(cityId);
+  expect(families.find((item) => item.id === otherFamily.id)).toBeUndefined();
+  const groups = await groupModel.getAll(cityId);
+  expect(groups.find((item) => item.id === otherGroup.id)).toBeUndefined();
+  expect(await groupModel.getById(otherGroup.id as number, cityId)).toBeNull();
+  const placeStores = await placeStoreModel.getAll(cityId);
+  expect(placeStores.every((item) => `${item.cityId}` === `${cityId}`)).toBe(true);
+});
+
+test(`[${testName}] Don't show the families of another city on the dashboard`, async () => {
+  const dashboard = await familyModel.getDashboardInfo(placeStore.cityId as number);
+  // The family of the other city is the newest one
+  expect(dashboard.lastCreatedDate).not.toEqual(otherFamily.createdAt);
+});
+
+test(`[${testName}] Don't change items of another city`, async () => {
+  const cityId = placeStore.cityId as number;
+  const updated = await familyModel.updateById(
+    otherFamily.id as number,
+    { ...otherFamily, responsibleName: 'ALTERADO' } as Family,
+    cityId
+  );
+  expect(updated).toBeNull();
+  const user = { role: 'admin', cityId } as User;
+  const group = await groupModel.updateById(otherGroup.id as number, { title: 'Alterado' }, user);
+  expect(group).toBeNull();
+  const family = await db.families.findByPk(otherFamily.id);
+  expect(family?.responsibleName).toBe('JOANA DA SILVA');
+});
+
+test(`[${testName}] Don't add consumptions to families of another city`, async () => {
+  await expect(
+    consumptionModel.addConsumption(
+      {
+        value: 1,
+        invalidValue: 0,
+        familyId: otherFamily.id as number,
+        nfce: generateNFCeLink(placeStore.cnpj)
+      },
+      placeStore.cityId as number,
+      placeStore.id as number
+    )
+  ).rejects.toBeDefined();
+  const count = await db.consumptions.count({ where: { familyId: otherFamily.id as number } });
+  expect(count).toBe(0);
+});
+
+test(`[${testName}] Don't use stores of another city on the consumptions`, async () => {
+  await expect(
+    consumptionModel.addConsumption(
+      {
+        value: 1,
+        invalidValue: 0,
+        familyId: otherFamily.id as number,
+        nfce: generateNFCeLink(placeStore.cnpj)
+      },
+      otherCity.id as number,
+      placeStore.id as number
+    )
+  ).rejects.toMatchObject({ status: 422 });
+  const count = await db.consumptions.count({ where: { familyId: otherFamily.id as number } });
+  expect(count).toBe(0);
+});
+
+test(`[${testName}] Don't use stores of another city on the product consumptions`, async () => {
+  await expect(
+    consumptionModel.addConsumptionProduct(
+      {
+        value: 0,
+        invalidValue: 0,
+        familyId: otherFamily.id as number,
+        placeStoreId: placeStore.id as number,
+        products: []
+      },
+      otherCity.id as number
+    )
+  ).rejects.toMatchObject({ status: 422 });
+  const count = await db.consumptions.count({ where: { familyId: otherFamily.id as number } });
+  expect(count).toBe(0);
+});
+
+test(`[${testName}] Keep the validity of shared products for each city`, async () => {
+  const cityId = placeStore.cityId as number;
+  sharedProduct = await productModel.create({ name: `PRODUTO COMPARTILHADO ${Date.now()}` });
+  const user = { role: 'admin', cityId } as User;
+  const updated = await productModel.updateById(sharedProduct.id as number, { isValid: true }, user);
+  expect(updated?.isValid).toBe(true);
+  // The shared product itself and the other city are unchanged
+  expect((await db.products.findByPk(sharedProduct.id))?.isValid).toBeNull();
+  expect((await productModel.getById(sharedProduct.id as number, otherCity.id as number))?.isValid).toBeNull();
+  const unset = await productModel.getAllUnset(cityId);
+  expect(unset.find((item) => item.id === sharedProduct.id)).toBeUndefined();
+});
+
+test(`[${testName}] Remove mock data`, async () => {
+  await db.productCityOverrides.destroy({ where: { productId: sharedProduct.id as number } });
+  await db.products.destroy({ where: { id: sharedProduct.id as number } });
+  await db.families.destroy({ where: { id: otherFamily.id as number } });
+  await db.groups.destroy({ where: { id: otherGroup.id as number } });
+  await db.cities.destroy({ where: { id: otherCity.id as number } });
+});
@@ -0,0 +1,171 @@
+import moment from 'moment';
+import {
+  checkEligibilityRules,
+  evaluateCondition,
+  findEligibleGroup,
+  getDependentAgeOutDate,
+  getDependentEndDate,
+  getEligibilityFacts,
+  getManualGroupExplanation
+} from '../src/utils/eligibility';
+import { Group } from '../src/schemas/groups';
+
+const testName = 'groupEligibility';
+
+const today = '2020-06-15';
+
+const groups: Group[] = [
+  {
+    id: 4,
+    title: 'Perfil CAD único',
+    priority: 4,
+    eligibilityRules: [{ conditions: [{ field: 'incomeBand', operator: 'in', value: [3, 4] }] }]
+  },
+  {
+    id: 1,
+    title: 'Bolsa família com filho na escola pública',
+    priority: 1,
+    eligibilityRules: [
+      { conditions: [{ field: 'incomeBand', operator: 'eq', value: 0 }] },
+      {
+        description: 'Bolsa Família com dependente matriculado',
+        conditions: [
+          { field: 'isOnGovernProgram', operator: 'eq', value: true },
+          { field: 'schoolEnrolledCount', operator: 'gte', value: 1 }
+        ]
+      }
+    ]
+  },
+  { id: 5, title: 'Sem regras', priority: 0, eligibilityRules: [] }
+];
+
+test(`[${testName}] Collect the family facts, ignoring deactivated dependents`, () => {
+  const facts = getEligibilityFacts(
+    { totalSalary: 900, isOnGovernProgram: true, incomeBand: null },
+    [
+      { birthday: '2010-06-16', schoolName: 'Escola A' },
+      { birthday: '2015-01-01', schoolName: ' ' },
+      { birthday: '2000-01-01', schoolName: 'Escola B', deactivatedAt: new Date() }
+    ],
+    today
+  );
+  expect(facts).toEqual({
+    incomeBand: null,
+    // The responsible is counted as a member
+    perCapitaIncome: 300,
+    dependentsCount: 2,
+    youngestDependentAge: 5,
+    oldestDependentAge: 9,
+    schoolEnrolledCount: 1,
+    isOnGovernProgram: true
+  });
+
+  const productFacts = getEligibilityFacts(
+    { totalSalary: 1000 },
+    [{ birthday: '1980-01-01', isResponsible: true }, { birthday: '2012-01-01' }],
+    today
+  );
+  expect(productFacts.perCapitaIncome).toBe(500);
+  expect(productFacts.dependentsCount).toBe(1);
+  expect(productFacts.isOnGovernProgram).toBe(false);
+});
+
+test(`[${testName}] Unknown values never match a condition`, () => {
+  const facts = getEligibilityFacts({ incomeBand: null }, [], today);
+  expect(evaluateCondition({ field: 'incomeBand', operator: 'ne', value: 1 }, facts).matched).toBe(false);
+  expect(evaluateCondition({ field: 'perCapitaIncome', operator: 'lte', value: 100 }, facts).matched).toBe(false);
+  expect(evaluateCondition({ field: 'dependentsCount', operator: 'eq', value: 0 }, facts)).toEqual({
+    field: 'dependentsCount',
+    operator: 'eq',
+    value: 0,
+    actual: 0,
+    matched: true
+  });
+});
+
+test(`[${testName}] Find the first matching group by priority and explain the match`, () => {
+  const bandFour = findEligibleGroup(groups, getEligibilityFacts({ incomeBand: 4 }), 'import', today);
+  expect(bandFour.group?.id).toBe(4);
+  expect(bandFour.explanation.ruleIndex).toBe(0);
+  expect(bandFour.explanation.conditions[0].actual).toBe(4);
+
+  const enrolled = findEligibleGroup(
+    groups,
+    getEligibilityFacts({ isOnGovernProgram: true }, [{ birthday: '2012-01-01', schoolName: 'Escola' }], today),
+    'form',
+    today
+  );
+  expect(enrolled.group?.id).toBe(1);
+  expect(enrolled.explanation).toMatchObject({
+    groupId: 1,
+    ruleIndex: 1,
+    ruleDescription: 'Bolsa Família com dependente matriculado',
+    source: 'form'
+  });
+
+  // Unknown band isn't silently assigned to a group
+  const unknown = findEligibleGroup(groups, getEligibilityFacts({ incomeBand: 7 }), 'import', today);
+  expect(unknown.group).toBeNull();
+  expect(unknown.explanation.groupId).toBeNull();
+  expect(unknown.explanation.facts.incomeBand).toBe(7);
+});
+
+test(`[${testName}] Explain the group chosen without the rules`, () => {
+  const facts = getEligibilityFacts({ incomeBand: 4 });
+  // The band matches another group, the chosen one is kept
+  expect(getManualGroupExplanation(groups[1], facts, today)).toEqual({
+    groupId: 1,
+    groupTitle: 'Bolsa família com filho na escola pública',
+    ruleIndex: null,
+    ruleDescription: null,
+    conditions: [],
+    facts,
+    source: 'manual',
+    evaluatedAt: moment(today).toDate()
+  });
+});
+
+test(`[${testName}] Check the rules sent by the user`, () => {
+  expect(checkEligibilityRules(undefined)).toEqual([]);
+  expect(
+    checkEligibilityRules([
+      { description: ' Renda ', conditions: [{ field: 'perCapitaIncome', operator: 'lte', value: '178' }] },
+      { conditions: [{ field: 'incomeBand', operator: 'in', value: ['3', 4] }] }
+    ])
+  ).toEqual([
+    { description: 'Renda', conditions: [{ field: 'perCapitaIncome', operator: 'lte', value: 178 }] },
+    { description: null, conditions: [{ field: 'incomeBand', operator: 'in', value: [3, 4] }] }
+  ]);
+  expect(() => checkEligibilityRules([{ conditions: [] }])).toThrow();
+  expect(() => checkEligibilityRules([{ conditions: [{ field: 'salary', operator: 'eq', value: 1 }] }])).toThrow();
+  expect(() =>
+    checkEligibilityRules([{ conditions: [{ field: 'incomeBand', operator: 'between', value: 1 }] }])
+  ).toThrow();
+  expect(() =>
+    checkEligibilityRules([{ conditions: [{ field: 'isOnGovernProgram', operator: 'gt', value: true }] }])
+  ).toThrow();
+  expect(() => checkEligibilityRules([{ conditions: [{ field: 'incomeBand', operator: 'eq', value: '' }] }])).toThrow();
+});
+
+/**
+ * Format the date returned by the age out functions
+ * @param date date or null
+ * @returns formatted date
+ */
+const formatDate = (date: Date | null) => date && moment(date).format('YYYY-MM-DD');
+
+test(`[${testName}] Age out on the end of the month the dependent crosses the group limit`, () => {
+  const dependent = { birthday: '2002-06-10' };
+  expect(getDependentAgeOutDate(dependent, { maxDependentAge: null })).toBeNull();
+  expect(getDependentAgeOutDate(dependent, null)).toBeNull();
+  expect(formatDate(getDependentAgeOutDate(dependent, { maxDependentAge: 17 }))).toBe('2020-06-30');
+  // The limit is never applied before the month it was configured
+  expect(
+    formatDate(getDependentAgeOutDate(dependent, { maxDependentAge: 17, maxDependentAgeFrom: '2020-09-01' }))
+  ).toBe('2020-08-31');
+
+  const deactivated = { ...dependent, deactivatedAt: moment('2020-03-15').toDate() };
+  expect(formatDate(getDependentEndDate(deactivated, { maxDependentAge: 17 }))).toBe('2020-03-15');
+  expect(formatDate(getDependentEndDate(deactivated, { maxDependentAge: 10 }))).toBe('2013-06-30');
+  expect(getDependentEndDate(dependent, null)).toBeNull();
+});
@@ -0,0 +1,328 @@
+import moment from 'moment';
+import db, { sequelize } from '../src/schemas';
+import {
+  buildStatementLines,
+  getAdjustmentEntries,
+  getBenefitEntries,
+  getBenefitGrantEntries,
+  getConsumptionEntries,
+  getInvalidValueDiscount,
+  getInvalidValueEntries,
+  isBalanceReconciled,
+  syncFamilyLedger
+} from '../src/models/ledgerEntries';
+import { computeFamilyDependentBalanceTicket } from '../src/models/consumptions';
+import { Family } from '../src/schemas/families';
+import { Benefit } from '../src/schemas/benefits';
+import { Consumption, PurchaseData } from '../src/schemas/consumptions';
+import { LedgerEntry } from '../src/schemas/ledgerEntries';
+import { Dependent } from '../src/schemas/depedents';
+import { BalanceAdjustment } from '../src/schemas/balanceAdjustments';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'ledgerEntries';
+
+const family = { id: 1, groupId: 2 } as Family;
+
+const benefits = [
+  { id: 10, title: 'Janeiro', groupId: 2, value: 100, date: moment('2020-01-01').toDate() },
+  { id: 11, title: 'Fevereiro', groupId: 2, value: 100, date: moment('2020-02-01').toDate() },
+  { id: 12, title: 'Março', groupId: 2, value: 100, date: moment('2020-03-01').toDate() },
+  { id: 13, title: 'Outro grupo', groupId: 3, value: 50, date: moment('2020-01-01').toDate() }
+] as Benefit[];
+
+const consumption = {
+  id: 5,
+  familyId: 1,
+  value: 80,
+  invalidValue: 0,
+  createdAt: moment('2020-02-10').toDate()
+} as Consumption;
+
+test(`[${testName}] Grant the benefits of each dependent month`, () => {
+  const dependents = [
+    { id: 1, createdAt: moment('2019-12-10').toDate() },
+    // Registered on the middle of the month, still receives it
+    { id: 2, createdAt: moment('2020-02-20').toDate() },
+    // Deactivated before the March benefit
+    { id: 3, createdAt: moment('2019-12-10').toDate(), deactivatedAt: moment('2020-02-15').toDate() }
+  ] as Dependent[];
+  const entries = getBenefitEntries(family, dependents, benefits, moment('2020-02-25'));
+  expect(entries.map((entry) => [entry.dependentId, entry.benefitId])).toEqual([
+    [1, 10],
+    [1, 11],
+    [2, 11],
+    [3, 10],
+    [3, 11]
+  ]);
+  expect(entries.every((entry) => entry.type === 'benefit' && entry.value === 100)).toBe(true);
+});
+
+test(`[${testName}] Stop the benefits after the month the dependent crosses the group age limit`, () => {
+  const dependents = [
+    // Turns 18 in January, receives only the January benefit
+    { id: 1, birthday: '2002-01-20', createdAt: moment('2019-12-10').toDate() },
+    { id: 2, birthday: '2010-05-01', createdAt: moment('2019-12-10').toDate() }
+  ] as Dependent[];
+  const group = { maxDependentAge: 17, maxDependentAgeFrom: '2019-01-01' };
+  const entries = getBenefitEntries(family, dependents, benefits, moment('2020-03-25'), group);
+  expect(entries.map((entry) => [entry.dependentId, entry.benefitId])).toEqual([
+    [1, 10],
+    [2, 10],
+    [2, 11],
+    [2, 12]
+  ]);
+
+  // The limit configured in March doesn't remove the benefits already granted
+  const lateLimit = { maxDependentAge: 17, maxDependentAgeFrom: '2020-03-01' };
+  const lateEntries = getBenefitEntries(family, dependents, benefits, moment('2020-03-25'), lateLimit);
+  expect(lateEntries.filter((entry) => entry.dependentId === 1).map((entry) => entry.benefitId)).toEqual([10, 11]);
+});
+
+test(`[${testName}] Grant the family benefits once, while the family is active`, () => {
+  const familyBenefits = [
+    { id: 20, title: 'Programa - 01/2020', groupId: 2, value: 150, valueType: 'family', date: moment('2020-01-05') },
+    { id: 21, title: 'Programa - 02/2020', groupId: 2, value: 150, valueType: 'family', date: moment('2020-02-05') },
+    { id: 22, title: 'Programa - 03/2020', groupId: 2, value: 150, valueType: 'family', date: moment('2020-03-05') }
+  ].map((benefit) => ({ ...benefit, date: benefit.date.toDate() })) as Benefit[];
+  const dependents = [
+    { id: 1, createdAt: moment('2019-12-01').toDate() },
+    { id: 2, createdAt: moment('2019-12-01').toDate() }
+  ] as Dependent[];
+  const activeFamily = {
+    ...family,
+    createdAt: moment('2020-02-10').toDate(),
+    deactivatedAt: moment('2020-03-01').toDate()
+  } as Family;
+  const entries = getBenefitEntries(activeFamily, dependents, familyBenefits, moment('2020-04-01'));
+  expect(entries).toHaveLength(1);
+  expect(entries[0]).toMatchObject({ type: 'benefit', benefitId: 21, value: 150 });
+  expect(entries[0].dependentId).toBeUndefined();
+});
+
+/**
+ * Create a recorded grant entry
+ * @param benefitId benefit unique ID
+ * @param dependentId dependent unique ID, null for the family grants
+ * @param value granted value
+ * @returns ledger entry
+ */
+const grant = (benefitId: number, dependentId: number | null, value = 100) =>
+  ({ familyId: 1, type: 'benefit', value, date: moment('2020-01-01').toDate(), benefitId, dependentId } as LedgerEntry);
+
+/**
+ * Create a recorded grant correction entry
+ * @param benefitId benefit unique ID
+ * @param dependentId dependent unique ID, null for the family grants
+ * @param value corrected value
+ * @returns ledger entry
+ */
+const correction = (benefitId: number, dependentId: number | null, value: number) =>
+  ({ ...grant(benefitId, dependentId), type: 'benefit-correction', value } as LedgerEntry);
+
+/**
+ * Summarize the entries to be compared
+ * @param entries list of entries
+ * @returns list with the type, benefit, dependent and value
+ */
+const summary = (entries: LedgerEntry[]) =>
+  entries.map((entry) => [entry.type, entry.benefitId, entry.dependentId, entry.value]);
+
+test(`[${testName}] Correct the grants that are no longer due`, () => {
+  const date = moment('2020-03-15').toDate();
+  // New grants are recorded, the recorded ones are kept
+  expect(summary(getBenefitGrantEntries([grant(10, 1), grant(11, 1)], [grant(10, 1)], date))).toEqual([
+    ['benefit', 11, 1, 100]
+  ]);
+  // Moved to another group, deactivated before it or the benefit was removed
+  expect(summary(getBenefitGrantEntries([grant(10, null)], [grant(10, 1), grant(10, null)], date))).toEqual([
+    ['benefit-correction', 10, 1, -100]
+  ]);
+  // The benefit value changed
+  expect(summary(getBenefitGrantEntries([grant(10, 1, 120)], [grant(10, 1)], date))).toEqual([
+    ['benefit-correction', 10, 1, 20]
+  ]);
+  // Due again after the reversal, the grant is recorded only once
+  expect(summary(getBenefitGrantEntries([grant(10, 1)], [grant(10, 1), correction(10, 1, -100)], date))).toEqual([
+    ['benefit-correction', 10, 1, 100]
+  ]);
+  expect(
+    getBenefitGrantEntries([grant(10, 1)], [grant(10, 1), correction(10, 1, -100), correction(10, 1, 100)])
+  ).toEqual([]);
+});
+
+test(`[${testName}] Debit the consumption`, () => {
+  const entries = getConsumptionEntries(consumption);
+  expect(entries).toHaveLength(1);
+  expect(entries[0]).toMatchObject({ familyId: 1, type: 'consumption', value: -80, consumptionId: 5 });
+});
+
+test(`[${testName}] Discount the invalid value of the consumptions before the first benefit`, () => {
+  const dependents = [
+    { id: 1, createdAt: moment('2019-12-10').toDate() },
+    { id: 2, createdAt: moment('2019-12-10').toDate() }
+  ] as Dependent[];
+  const grants = getBenefitEntries(family, dependents, benefits, moment('2020-03-15'));
+  const purchaseData = { payment: [{ name: 'Dinheiro', value: 10 }] } as PurchaseData;
+  const before = { ...consumption, invalidValue: 30, createdAt: moment('2019-12-20').toDate() };
+
+  // The benefit of the discount is the first one, for all the dependents
+  expect(getInvalidValueDiscount([before], grants, benefits, 2)).toBe(30);
+  expect(getInvalidValueDiscount([{ ...before, purchaseData }], grants, benefits, 2)).toBe(20);
+  expect(getInvalidValueDiscount([{ ...consumption, invalidValue: 30 }], grants, benefits, 2)).toBe(0);
+  expect(getInvalidValueDiscount([], grants, benefits, 2)).toBe(0);
+  // The part of the consumption above the benefit isn't discounted, and the total is never above the benefit
+  expect(getInvalidValueDiscount([{ ...before, value: 220 }], grants, benefits, 2)).toBe(10);
+  expect(
+    getInvalidValueDiscount(
+      [
+        { ...before, invalidValue: 150 },
+        { ...before, invalidValue: 150 }
+      ],
+      grants,
+      benefits,
+      2
+    )
+  ).toBe(200);
+});
+
+test(`[${testName}] Record only the change of the invalid value discount`, () => {
+  expect(getInvalidValueEntries(1, 20, 0).map((entry) => [entry.type, entry.value])).toEqual([['invalid-value', -20]]);
+  expect(getInvalidValueEntries(1, 20, -20)).toEqual([]);
+  expect(getInvalidValueEntries(1, 0, -20).map((entry) => entry.value)).toEqual([20]);
+});
+
+test(`[${testName}] Reverse the deleted consumption`, () => {
+  const deletedAt = moment('2020-02-14').toDate();
+  const entries = getConsumptionEntries({ ...consumption, invalidValue: 30, deletedAt });
+  expect(entries.map((entry) => [entry.type, entry.value])).toEqual([
+    ['consumption', -80],
+    ['consumption-reversal', 80]
+  ]);
+});
+
+test(`[${testName}] Reach the legacy balance`, () => {
+  const today = moment('2020-03-15');
+  const dependents = [
+    { id: 1, createdAt: moment('2019-12-10').toDate() },
+    { id: 2, createdAt: moment('2019-12-10').toDate() },
+    { id: 3, createdAt: moment('2019-12-10').toDate(), deactivatedAt: moment('2020-02-15').toDate() }
+  ] as Dependent[];
+  const purchaseData = { payment: [{ name: 'Dinheiro', value: 10 }] } as PurchaseData;
+  const consumptions = [
+    { ...consumption, id: 6, value: 50, invalidValue: 30, createdAt: moment('2019-12-20').toDate(), purchaseData },
+    { ...consumption, id: 7, value: 300, invalidValue: 100, createdAt: moment('2019-12-22').toDate() },
+    { ...consumption, id: 8, value: 80, invalidValue: 10, createdAt: moment('2020-02-10').toDate() }
+  ] as Consumption[];
+  const deleted = {
+    ...consumption,
+    id: 9,
+    value: 40,
+    invalidValue: 40,
+    createdAt: moment('2019-12-21').toDate(),
+    deletedAt: moment('2020-01-05').toDate()
+  } as Consumption;
+
+  // The legacy computation doesn't load the deleted consumptions
+  const legacyBalance = computeFamilyDependentBalanceTicket(
+    { ...family, dependents, consumptions },
+    benefits,
+    [],
+    null,
+    today
+  );
+  const grants = getBenefitEntries(family, dependents, benefits, today);
+  const entries = [
+    ...grants,
+    ...[...consumptions, deleted].reduce(
+      (list, item) => [...list, ...getConsumptionEntries(item)],
+      [] as LedgerEntry[]
+    ),
+    ...getInvalidValueEntries(1, getInvalidValueDiscount(consumptions, grants, benefits, dependents.length), 0)
+  ];
+  const ledgerBalance = entries.reduce((sum, entry) => sum + entry.value, 0);
+  expect(isBalanceReconciled(ledgerBalance, legacyBalance)).toBe(true);
+  expect(ledgerBalance).toBe(250);
+});
+
+test(`[${testName}] Record only the approved adjustments`, () => {
+  const adjustment = { id: 3, familyId: 1, value: -15, reason: 'Desconto manual', requestedById: 1 };
+  const reviewedAt = moment('2020-02-20').toDate();
+  expect(getAdjustmentEntries({ ...adjustment, status: 'pending' } as BalanceAdjustment)).toEqual([]);
+  expect(getAdjustmentEntries({ ...adjustment, status: 'rejected', reviewedAt } as BalanceAdjustment)).toEqual([]);
+  expect(getAdjustmentEntries({ ...adjustment, status: 'approved', reviewedAt } as BalanceAdjustment)).toEqual([
+    { familyId: 1, type: 'adjustment', value: -15, date: reviewedAt, adjustmentId: 3, description: 'Desconto manual' }
+  ]);
+});
+
+test(`[${testName}] Ignore rounding differences on the reconciliation`, () => {
+  expect(isBalanceReconciled(100, 100.004)).toBe(true);
+  expect(isBalanceReconciled(100, 100.1)).toBe(false);
+});
+
+test(`[${testName}] Build the statement with the running balance`, () => {
+  const dependents = [
+    { id: 1, name: 'JOÃO' },
+    { id: 2, name: 'MARIA', deactivatedAt: moment('2020-02-15').toDate() }
+  ] as Dependent[];
+  const entries = [
+    { familyId: 1, type: 'consumption', value: -80, date: moment('2020-02-10').toDate(), consumptionId: 5 },
+    { familyId: 1, type: 'benefit', value: 100, date: moment('2020-02-01').toDate(), benefitId: 11, dependentId: 1 },
+    { familyId: 1, type: 'benefit', value: 100, date: moment('2020-02-01').toDate(), benefitId: 11, dependentId: 2 }
+  ] as LedgerEntry[];
+  const from = moment('2020-02-01').toDate();
+  const to = moment('2020-02-28').toDate();
+  const lines = buildStatementLines(entries, 50, family, dependents, from, to);
+  expect(lines.map((line) => [line.type, line.dependentName, line.value, line.balance])).toEqual([
+    ['benefit', 'JOÃO', 100, 150],
+    ['benefit', 'MARIA', 100, 250],
+    ['consumption', undefined, -80, 170],
+    ['deactivation', 'MARIA', 0, 170]
+  ]);
+
+  // Deactivations out of the period are not shown
+  const march = buildStatementLines([], 170, family, dependents, moment('2020-03-01').toDate());
+  expect(march).toEqual([]);
+});
+
+test(`[${testName}] Record the family benefit of every family of the group`, async () => {
+  const [placeStore] = await db.placeStores.findAll({ limit: 1 });
+  const cityId = placeStore.cityId as number;
+  const [institution] = await db.institutions.findAll({ where: { cityId }, limit: 1 });
+  const [group] = await db.groups.findOrCreate({ where: { title: 'Grupo de Testes do Extrato', cityId } });
+  const [benefit] = await db.benefits.findOrCreate({
+    where: { title: '[ledgerEntries] Auxílio por família', groupId: group.id as number },
+    defaults: {
+      institutionId: institution.id as number,
+      groupId: group.id as number,
+      title: '[ledgerEntries] Auxílio por família',
+      date: moment('2020-01-01').toDate(),
+      value: 150,
+      valueType: 'family'
+    } as Benefit
+  });
+
+  for (const code of ['9988776650', '9988776651']) {
+    const [createdFamily] = await db.families.findOrCreate({
+      where: { code, cityId },
+      defaults: {
+        code,
+        cityId,
+        groupId: group.id as number,
+        responsibleName: 'Familia Teste Extrato',
+        responsibleNis: code,
+        responsibleMotherName: 'Familia Teste Extrato',
+        responsibleBirthday: moment('1980-01-01').toDate(),
+        createdAt: moment('2019-12-01').toDate()
+      } as Family
+    });
+    await syncFamilyLedger(createdFamily, [benefit]);
+    const grants = await db.ledgerEntries.findAll({
+      where: { familyId: createdFamily.id as number, type: 'benefit', benefitId: benefit.id as number }
+    });
+    expect(grants.map((entry) => entry.value)).toEqual([150]);
+  }
+});
@@ -0,0 +1,23 @@
+import { sendMail, setMailTransport, MailTransport, fileMailTransport } from '../src/utils/mail';
+
+const testName = 'mail';
+
+afterAll(() => {
+  setMailTransport(fileMailTransport);
+});
+
+test(`[${testName}] Deliver the email with the configured transport`, async () => {
+  const transport = jest.fn() as jest.MockedFunction<MailTransport>;
+  transport.mockResolvedValue();
+  setMailTransport(transport);
+
+  await sendMail({ to: 'maria@example.com', subject: 'Convite de acesso', text: 'Link' });
+
+  expect(transport).toHaveBeenCalledTimes(1);
+  expect(transport.mock.calls[0][0]).toMatchObject({
+    to: 'maria@example.com',
+    subject: 'Convite de acesso',
+    text: 'Link',
+    from: process.env.MAIL_FROM || 'no-reply@localhost'
+  });
+});
@@ -0,0 +1,34 @@
+import { getCheckDigit, parseNFCeAccessKey } from '../src/utils/nfceAccessKey';
+
+const testName = 'nfceAccessKey';
+
+const accessKey = '31200417745613005462650030000484351494810435';
+
+test(`[${testName}] Calculate check digit`, () => {
+  expect(getCheckDigit(accessKey.substring(0, 43))).toBe(5);
+});
+
+test(`[${testName}] Split access key data`, () => {
+  expect(parseNFCeAccessKey(accessKey)).toEqual({
+    nfceAccessKey: accessKey,
+    nfceUf: 'MG',
+    nfceEmissionMonth: '2020-04-01',
+    nfceCnpj: '17745613005462',
+    nfceModel: '65',
+    nfceSeries: 3,
+    nfceNumber: 48435
+  });
+});
+
+test(`[${testName}] Reject invalid access keys`, () => {
+  // Wrong size
+  expect(() => parseNFCeAccessKey(accessKey.substring(1))).toThrow();
+  // Wrong check digit
+  expect(() => parseNFCeAccessKey(`${accessKey.substring(0, 43)}4`)).toThrow();
+  // Unknown UF
+  const unknownUf = `99${accessKey.substring(2, 43)}`;
+  expect(() => parseNFCeAccessKey(`${unknownUf}${getCheckDigit(unknownUf)}`)).toThrow();
+  // NF-e model
+  const nfeModel = `${accessKey.substring(0, 20)}55${accessKey.substring(22, 43)}`;
+  expect(() => parseNFCeAccessKey(`${nfeModel}${getCheckDigit(nfeModel)}`)).toThrow();
+});
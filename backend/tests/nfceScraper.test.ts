@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { getNFCeAccessKey, getNFCeHosts, getNFCeScraper, NFCeFetcher, scrapeNFCeData } from '../src/utils/nfceScraper';
+import { parseCurrency } from '../src/utils/nfceScrapers/common';
+
+const testName = 'nfceScraper';
+
+const mgLink =
+  'https://nfce.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=31200417745613005462650030000484351494810435|2|1|1|d3bfca6136abee66286116203f747bc8e6fd3300';
+const spLink =
+  'https://www.nfce.fazenda.sp.gov.br/NFCeConsultaPublica/Paginas/ConsultaQRCode.aspx?p=35200417745613005462650030000484351494810434|2|1|1|d3bf';
+
+/**
+ * Read the saved receipt page from the fixtures folder, using the access key of the link
+ * @param nfce NFC-e link
+ * @returns page HTML
+ */
+const fixtureFetcher: NFCeFetcher = async (nfce) => {
+  const folder = path.join(__dirname, 'fixtures', 'nfce');
+  const fileName = fs.readdirSync(folder).find((file) => file.indexOf(getNFCeAccessKey(nfce) as string) > -1);
+  if (!fileName) throw new Error(`Fixture not found for ${nfce}`);
+  return fs.readFileSync(path.join(folder, fileName), 'utf8');
+};
+
+test(`[${testName}] Find access key on the link`, () => {
+  expect(getNFCeAccessKey(mgLink)).toBe('31200417745613005462650030000484351494810435');
+  expect(getNFCeAccessKey('https://nfce.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=123')).toBeUndefined();
+});
+
+test(`[${testName}] Find scraper by host`, () => {
+  expect(getNFCeScraper(mgLink)?.uf).toBe('MG');
+  expect(getNFCeScraper(spLink)?.uf).toBe('SP');
+  expect(
+    getNFCeScraper('https://nfce.example.com/qrcode?p=31200417745613005462650030000484351494810435')
+  ).toBeUndefined();
+  expect(getNFCeScraper('not a link')).toBeUndefined();
+});
+
+test(`[${testName}] List registered hosts`, () => {
+  const hosts = getNFCeHosts();
+  expect(hosts).toContain('nfce.fazenda.mg.gov.br');
+  expect(hosts).toContain('www.nfce.fazenda.sp.gov.br');
+  expect(hosts.length).toBe(new Set(hosts).size);
+});
+
+test(`[${testName}] Parse currency values`, () => {
+  expect(parseCurrency('R$ 1.234,56')).toBe(1234.56);
+  expect(parseCurrency('Vl. Total 10,50')).toBe(10.5);
+  expect(parseCurrency('12.5')).toBe(12.5);
+  expect(parseCurrency('')).toBeUndefined();
+});
+
+test(`[${testName}] Scrape MG receipt`, async () => {
+  const purchaseData = await scrapeNFCeData(mgLink, fixtureFetcher);
+  expect(purchaseData.place).toBe('SUPERMERCADO BOM PRECO LTDA');
+  expect(purchaseData.totalValue).toBe(45);
+  expect(purchaseData.products).toEqual([
+    { name: 'ARROZ TIPO 1 5KG', totalValue: 18.9 },
+    { name: 'FEIJAO CARIOCA 1KG', totalValue: 13.8 },
+    // Duplicated items are merged
+    { name: 'LEITE INTEGRAL 1L', totalValue: 9 },
+    { name: 'CERVEJA LATA 350ML', totalValue: 3.3 }
+  ]);
+  expect(purchaseData.payment).toEqual([
+    { name: 'Cartão de Débito', value: 40 },
+    { name: 'Dinheiro', value: 5 }
+  ]);
+});
+
+test(`[${testName}] Scrape standard layout receipt`, async () => {
+  const purchaseData = await scrapeNFCeData(spLink, fixtureFetcher);
+  expect(purchaseData.place).toBe('MERCADINHO CENTRAL LTDA');
+  expect(purchaseData.totalValue).toBe(1031);
+  expect(purchaseData.products).toEqual([
+    { name: 'MACARRAO ESPAGUETE 500G', totalValue: 7.98 },
+    // Duplicated items are merged
+    { name: 'OLEO DE SOJA 900ML', totalValue: 12.98 },
+    { name: 'CAFE TORRADO 500G', totalValue: 1010.04 }
+  ]);
+  // The change and the taxes are not payment rows
+  expect(purchaseData.payment).toEqual([
+    { name: 'Cartão de Crédito', value: 1000 },
+    { name: 'Dinheiro', value: 50 }
+  ]);
+});
+
+test(`[${testName}] Reject links from unsupported states`, async () => {
+  await expect(scrapeNFCeData('https://nfce.example.com/qrcode?p=123', fixtureFetcher)).rejects.toEqual({
+    status: 412,
+    message: 'NFC-e de estado não suportado'
+  });
+});
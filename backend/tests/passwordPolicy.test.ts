@@ -0,0 +1,26 @@
+import { getPasswordErrors, checkPasswordStrength, passwordMinLength } from '../src/utils/passwordPolicy';
+
+const testName = 'passwordPolicy';
+
+const user = { name: 'Maria da Silva', email: 'maria.silva@example.com', cpf: '123.456.789-09' };
+
+test(`[${testName}] Accept strong passwords`, () => {
+  expect(getPasswordErrors('cebola4321')).toEqual([]);
+  expect(getPasswordErrors('Abacaxi-2020', user)).toEqual([]);
+  expect(() => checkPasswordStrength('Abacaxi-2020', user)).not.toThrow();
+});
+
+test(`[${testName}] Reject short passwords and passwords without letters or numbers`, () => {
+  expect(getPasswordErrors('a1b2')).toHaveLength(1);
+  expect(getPasswordErrors('abcdefghij')).toHaveLength(1);
+  expect(getPasswordErrors('12345678')).toHaveLength(1);
+  expect(getPasswordErrors('a'.repeat(passwordMinLength - 1))).toHaveLength(2);
+  expect(getPasswordErrors('')).toHaveLength(2);
+});
+
+test(`[${testName}] Reject passwords with the user data`, () => {
+  expect(getPasswordErrors('maria.silva2020', user)).toHaveLength(1);
+  expect(getPasswordErrors('senha12345678909', user)).toHaveLength(1);
+  expect(getPasswordErrors('Maria123', user)).toHaveLength(1);
+  expect(() => checkPasswordStrength('Maria123', user)).toThrow();
+});
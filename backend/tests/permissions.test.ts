@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { requirePermission } from '../src/middlewares/permission';
+import { matchPath, PermissionResource } from '../src/utils/permissions';
+import { Role, roleList } from '../src/utils/constraints';
+import { User } from '../src/schemas/users';
+
+const testName = 'permissions';
+
+type AccessCase = {
+  resource: PermissionResource;
+  method: string;
+  path: string;
+  allowed: Role[];
+};
+
+// Expected access for each role on the most sensitive routes
+const cases: AccessCase[] = [
+  { resource: 'families', method: 'GET', path: '/', allowed: [...roleList] },
+  { resource: 'families', method: 'POST', path: '/file-sislame', allowed: ['admin'] },
+  { resource: 'families', method: 'POST', path: '/file', allowed: ['admin'] },
+  { resource: 'families', method: 'GET', path: '/import-status', allowed: ['admin'] },
+  { resource: 'families', method: 'POST', path: '/imports/4/retry', allowed: ['admin'] },
+  { resource: 'families', method: 'POST', path: '/imports/4/commit', allowed: ['admin'] },
+  { resource: 'families', method: 'GET', path: '/imports/4/diff', allowed: ['admin'] },
+  { resource: 'families', method: 'GET', path: '/list-file', allowed: ['admin', 'financial'] },
+  { resource: 'families', method: 'GET', path: '/ledger-mismatches', allowed: ['admin', 'financial'] },
+  { resource: 'families', method: 'GET', path: '/age-outs', allowed: ['admin'] },
+  { resource: 'families', method: 'GET', path: '/12/statement', allowed: [...roleList] },
+  { resource: 'families', method: 'POST', path: '/', allowed: ['admin', 'operator', 'manager', 'cashier'] },
+  { resource: 'families', method: 'PUT', path: '/12', allowed: ['admin', 'operator', 'manager'] },
+  { resource: 'families', method: 'PUT', path: '/12/deactivate', allowed: ['admin'] },
+  { resource: 'products', method: 'GET', path: '/validate', allowed: [...roleList] },
+  { resource: 'products', method: 'PUT', path: '/3', allowed: ['admin', 'operator', 'manager'] },
+  { resource: 'products', method: 'DELETE', path: '/3', allowed: ['admin'] },
+  { resource: 'products', method: 'GET', path: '/aliases', allowed: [...roleList] },
+  { resource: 'products', method: 'PUT', path: '/aliases/3', allowed: ['superadmin'] },
+  { resource: 'products', method: 'PUT', path: '/category', allowed: ['admin', 'operator', 'manager'] },
+  { resource: 'product-categories', method: 'GET', path: '/', allowed: [...roleList] },
+  { resource: 'product-categories', method: 'POST', path: '/', allowed: ['superadmin'] },
+  { resource: 'product-categories', method: 'PUT', path: '/4', allowed: ['superadmin'] },
+  { resource: 'product-categories', method: 'DELETE', path: '/4', allowed: ['superadmin'] },
+  { resource: 'audit', method: 'GET', path: '/', allowed: ['admin'] },
+  { resource: 'audit', method: 'DELETE', path: '/1', allowed: [] },
+  { resource: 'api-clients', method: 'GET', path: '/', allowed: ['admin'] },
+  { resource: 'api-clients', method: 'POST', path: '/2/rotate', allowed: ['admin'] },
+  { resource: 'public-blocks', method: 'GET', path: '/', allowed: ['admin'] },
+  { resource: 'public-blocks', method: 'DELETE', path: '/ip/10.0.0.1', allowed: ['admin'] },
+  { resource: 'consumptions', method: 'POST', path: '/', allowed: ['admin', 'operator', 'manager', 'cashier'] },
+  { resource: 'consumptions', method: 'POST', path: '/delete/7', allowed: ['admin'] },
+  { resource: 'consumptions', method: 'GET', path: '/nfce-hosts', allowed: [...roleList] },
+  { resource: 'consumptions', method: 'POST', path: '/report-ticket', allowed: ['admin', 'financial'] },
+  { resource: 'consumptions', method: 'GET', path: '/report', allowed: ['admin', 'manager', 'financial'] },
+  { resource: 'adjustments', method: 'GET', path: '/', allowed: ['admin', 'financial'] },
+  { resource: 'adjustments', method: 'POST', path: '/', allowed: ['admin', 'financial'] },
+  { resource: 'adjustments', method: 'POST', path: '/3/approve', allowed: ['admin'] },
+  { resource: 'adjustments', method: 'POST', path: '/3/reject', allowed: ['admin'] },
+  { resource: 'adjustments', method: 'PUT', path: '/3', allowed: [] },
+  { resource: 'stock', method: 'GET', path: '/', allowed: ['admin', 'manager', 'cashier'] },
+  { resource: 'stock', method: 'GET', path: '/low', allowed: ['admin', 'manager'] },
+  { resource: 'stock', method: 'GET', path: '/movements', allowed: ['admin', 'manager'] },
+  { resource: 'stock', method: 'POST', path: '/movements', allowed: ['admin', 'manager'] },
+  { resource: 'stock', method: 'DELETE', path: '/movements/3', allowed: [] },
+  { resource: 'benefit-policies', method: 'GET', path: '/', allowed: ['admin', 'financial'] },
+  { resource: 'benefit-policies', method: 'POST', path: '/', allowed: ['admin'] },
+  { resource: 'benefit-policies', method: 'GET', path: '/exceptions', allowed: ['admin', 'financial'] },
+  { resource: 'benefit-policies', method: 'POST', path: '/exceptions', allowed: ['admin'] },
+  { resource: 'benefit-policies', method: 'DELETE', path: '/exceptions/2', allowed: ['admin'] },
+  { resource: 'users', method: 'GET', path: '/', allowed: ['admin', 'manager'] },
+  { resource: 'users', method: 'PUT', path: '/1', allowed: ['admin'] },
+  { resource: 'users', method: 'GET', path: '/1/sessions', allowed: ['admin'] },
+  { resource: 'users', method: 'DELETE', path: '/1/sessions/3', allowed: ['admin'] },
+  { resource: 'users', method: 'POST', path: '/1/invite', allowed: ['admin'] },
+  { resource: 'benefits', method: 'GET', path: '/', allowed: [...roleList] },
+  { resource: 'benefits', method: 'DELETE', path: '/2', allowed: ['admin'] },
+  { resource: 'benefit-programs', method: 'GET', path: '/1/occurrences', allowed: ['admin', 'financial'] },
+  { resource: 'benefit-programs', method: 'POST', path: '/', allowed: ['admin'] },
+  { resource: 'benefit-programs', method: 'POST', path: '/1/occurrences/2026-11-05/skip', allowed: ['admin'] },
+  { resource: 'benefit-programs', method: 'DELETE', path: '/1/occurrences/2026-11-05', allowed: ['admin'] },
+  { resource: 'groups', method: 'POST', path: '/', allowed: ['admin'] },
+  { resource: 'cities', method: 'GET', path: '/', allowed: [...roleList] },
+  { resource: 'cities', method: 'POST', path: '/', allowed: ['superadmin'] },
+  { resource: 'cities', method: 'DELETE', path: '/5', allowed: ['superadmin'] },
+  { resource: 'dashboard', method: 'GET', path: '/', allowed: [...roleList] }
+];
+
+/**
+ * Run the permission middleware with a fake request and return the response status
+ * @param resource sub-router resource name
+ * @param method HTTP method
+ * @param path path relative to the sub-router
+ * @param role logged user role
+ * @returns status sent by the middleware, or 'next' when the request was allowed
+ */
+const runMiddleware = (resource: PermissionResource, method: string, path: string, role?: string) => {
+  let result: number | 'next' | undefined;
+  const req = { method, path, user: role ? ({ role } as User) : undefined } as Request;
+  const res = {
+    status: (status: number) => {
+      result = status;
+      return res;
+    },
+    send: () => res
+  } as Response;
+  requirePermission(resource)(req, res, () => {
+    result = 'next';
+  });
+  return result;
+};
+
+test(`[${testName}] Match rule paths`, () => {
+  expect(matchPath('*', '/anything/here')).toBe(true);
+  expect(matchPath('/', '/')).toBe(true);
+  expect(matchPath('/:id', '/10')).toBe(true);
+  expect(matchPath('/:id', '/10/')).toBe(true);
+  expect(matchPath('/:id', '/10/deactivate')).toBe(false);
+  expect(matchPath('/:id/deactivate', '/10/deactivate')).toBe(true);
+  expect(matchPath('/file', '/file-sislame')).toBe(false);
+});
+
+for (const item of cases) {
+  for (const role of roleList) {
+    // The super admin has every admin permission
+    const allowed = item.allowed.indexOf(role) > -1 || (role === 'superadmin' && item.allowed.indexOf('admin') > -1);
+    test(`[${testName}] ${role} ${allowed ? 'can' : 'cannot'} ${item.method} /${item.resource}${item.path}`, () => {
+      const result = runMiddleware(item.resource, item.method, item.path, role);
+      expect(result).toBe(allowed ? 'next' : 403);
+    });
+  }
+}
+
+test(`[${testName}] Deny requests without role or matching rule`, () => {
+  expect(runMiddleware('families', 'GET', '/')).toBe(403);
+  expect(runMiddleware('families', 'GET', '/', 'unknown')).toBe(403);
+  expect(runMiddleware('families', 'DELETE', '/1', 'admin')).toBe(403);
+});
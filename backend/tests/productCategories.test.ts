@@ -0,0 +1,45 @@
+import { getCategoryValidity, getProductValidity } from '../src/models/productCategories';
+import { ProductCategory } from '../src/schemas/productCategories';
+
+const testName = 'productCategories';
+
+// food > candies, hygiene, alcohol (valid only for group 2), uncategorized without validity
+const categories: ProductCategory[] = [
+  { id: 1, name: 'Alimentos', parentId: null, isValid: true, rules: [] },
+  { id: 2, name: 'Doces', parentId: 1, isValid: null, rules: [{ groupId: 3, isValid: false }] },
+  { id: 3, name: 'Higiene', parentId: null, isValid: true, rules: [] },
+  { id: 4, name: 'Bebidas alcoólicas', parentId: null, isValid: false, rules: [{ groupId: 2, isValid: true }] },
+  { id: 5, name: 'Outros', parentId: null, isValid: null, rules: [] }
+];
+
+test(`[${testName}] Category validity and inheritance`, () => {
+  expect(getCategoryValidity(categories, 1)).toBe(true);
+  // Inherits from the parent category
+  expect(getCategoryValidity(categories, 2)).toBe(true);
+  expect(getCategoryValidity(categories, 4)).toBe(false);
+  // Not defined
+  expect(getCategoryValidity(categories, 5)).toBeNull();
+  expect(getCategoryValidity(categories, 99)).toBeNull();
+});
+
+test(`[${testName}] Group rules override the category validity`, () => {
+  expect(getCategoryValidity(categories, 4, 2)).toBe(true);
+  expect(getCategoryValidity(categories, 4, 1)).toBe(false);
+  expect(getCategoryValidity(categories, 2, 3)).toBe(false);
+  expect(getCategoryValidity(categories, 2, 1)).toBe(true);
+});
+
+test(`[${testName}] Product validity uses the category before the manual validity`, () => {
+  expect(getProductValidity({ isValid: false, categoryId: 3 }, categories, 1)).toBe(true);
+  expect(getProductValidity({ isValid: true, categoryId: 4 }, categories, 1)).toBe(false);
+  expect(getProductValidity({ isValid: false, categoryId: null }, categories, 1)).toBe(false);
+  expect(getProductValidity({ isValid: null }, categories, 1)).toBeNull();
+});
+
+test(`[${testName}] Ignore loops on the category tree`, () => {
+  const loop: ProductCategory[] = [
+    { id: 1, name: 'A', parentId: 2, isValid: null },
+    { id: 2, name: 'B', parentId: 1, isValid: null }
+  ];
+  expect(getCategoryValidity(loop, 1)).toBeNull();
+});
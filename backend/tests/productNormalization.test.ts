@@ -0,0 +1,31 @@
+import { getProductNameSimilarity, normalizeProductName } from '../src/utils/productNormalization';
+
+const testName = 'productNormalization';
+
+test(`[${testName}] Expand abbreviations, remove accents and extract the size`, () => {
+  expect(normalizeProductName('ARROZ TIPO1 5KG')).toEqual({
+    normalized: 'ARROZ TIPO 1 5000G',
+    tokens: ['ARROZ', 'TIPO', '1'],
+    size: { value: 5000, unit: 'G' }
+  });
+  expect(normalizeProductName('Feijão Carioca 1 kg').normalized).toBe('FEIJAO CARIOCA 1000G');
+  expect(normalizeProductName('LEITE INT. 1L').normalized).toBe('LEITE INTEGRAL 1000ML');
+  expect(normalizeProductName('ARROZ5KG').normalized).toBe('ARROZ 5000G');
+  expect(normalizeProductName('OLEO SOJA 900ML').size).toEqual({ value: 900, unit: 'ML' });
+  expect(normalizeProductName('SABONETE').size).toBeNull();
+});
+
+test(`[${testName}] Same product with different spellings`, () => {
+  expect(normalizeProductName('ARROZ T1 5 KG').normalized).toBe(normalizeProductName('ARROZ TIPO1 5KG').normalized);
+  expect(getProductNameSimilarity('ARROZ T1 5 KG', 'Arroz Tipo 1 5000g')).toBe(1);
+  expect(getProductNameSimilarity('FEIJ CARIOQ 1 KG', 'FEIJAO CARIOCA 1KG')).toBe(1);
+});
+
+test(`[${testName}] Similar and different products`, () => {
+  // Same words and size, with an extra word
+  expect(getProductNameSimilarity('ARROZ PARBO TIPO 1 5KG', 'ARROZ TIPO 1 5KG')).toBeGreaterThan(0.6);
+  // Different sizes
+  expect(getProductNameSimilarity('ARROZ TIPO 1 5KG', 'ARROZ TIPO 1 1KG')).toBeLessThan(0.6);
+  // Different products
+  expect(getProductNameSimilarity('LEITE INTEGRAL 1L', 'SABONETE 90G')).toBeLessThan(0.3);
+});
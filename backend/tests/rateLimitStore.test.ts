@@ -0,0 +1,39 @@
+import { createMemoryStore } from '../src/utils/rateLimitStore';
+
+const testName = 'rateLimitStore';
+
+test(`[${testName}] Increment and expire the keys`, async () => {
+  let now = 1000;
+  const store = createMemoryStore(() => now);
+
+  expect(await store.incr('rate:ip:1')).toBe(1);
+  expect(await store.incr('rate:ip:1')).toBe(2);
+  expect(await store.pttl('rate:ip:1')).toBe(-1);
+  expect(await store.pexpire('rate:ip:1', 500)).toBe(1);
+  expect(await store.pttl('rate:ip:1')).toBe(500);
+
+  now = 1499;
+  expect(await store.get('rate:ip:1')).toBe('2');
+  now = 1500;
+  expect(await store.get('rate:ip:1')).toBeNull();
+  expect(await store.pttl('rate:ip:1')).toBe(-2);
+  expect(await store.incr('rate:ip:1')).toBe(1);
+});
+
+test(`[${testName}] Set, delete and list the keys`, async () => {
+  let now = 0;
+  const store = createMemoryStore(() => now);
+
+  await store.set('block:ip:10.0.0.1', 'a', 'PX', 100);
+  await store.set('block:nis:1:123', 'b');
+  await store.set('fail:ip:10.0.0.2', 'c');
+
+  expect((await store.keys('block:*')).sort()).toEqual(['block:ip:10.0.0.1', 'block:nis:1:123']);
+  expect(await store.keys('block:ip:10.0.0.1')).toEqual(['block:ip:10.0.0.1']);
+  expect(await store.keys('block.*')).toEqual([]);
+
+  now = 100;
+  expect(await store.keys('block:*')).toEqual(['block:nis:1:123']);
+  expect(await store.del('block:nis:1:123', 'block:ip:10.0.0.1', 'missing')).toBe(1);
+  expect(await store.keys('*')).toEqual(['fail:ip:10.0.0.2']);
+});
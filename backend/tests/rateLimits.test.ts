@@ -0,0 +1,87 @@
+import { createMemoryStore, setRateLimitStore } from '../src/utils/rateLimitStore';
+import {
+  hit,
+  registerFailure,
+  getBlock,
+  clearFailures,
+  unblock,
+  getAll,
+  getNisId,
+  rateLimitRules,
+  blockRules
+} from '../src/models/rateLimits';
+import { parseTrustProxy } from '../src/middlewares/rateLimit';
+
+const testName = 'rateLimits';
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryStore());
+});
+
+test(`[${testName}] Reject the requests over the limit of the window`, async () => {
+  const { max } = rateLimitRules.ip;
+  for (let index = 1; index <= max; index++) {
+    const result = await hit('ip', '10.0.0.1');
+    expect(result.allowed).toBe(true);
+    expect(result.count).toBe(index);
+  }
+  const result = await hit('ip', '10.0.0.1');
+  expect(result.allowed).toBe(false);
+  expect(result.resetIn).toBeGreaterThan(0);
+  expect(result.resetIn).toBeLessThanOrEqual(rateLimitRules.ip.windowSeconds * 1000);
+  // Other clients are not affected
+  expect((await hit('ip', '10.0.0.2')).allowed).toBe(true);
+});
+
+test(`[${testName}] Block the NIS after the failures`, async () => {
+  const nisId = getNisId(1, '12345678901');
+  for (let index = 1; index < blockRules.nis.maxFailures; index++) {
+    expect(await registerFailure('nis', nisId, 'invalid-birthday')).toBe(false);
+  }
+  expect(await getBlock('nis', nisId)).toBeNull();
+  expect(await registerFailure('nis', nisId, 'invalid-birthday')).toBe(true);
+
+  const block = await getBlock('nis', nisId);
+  expect(block).toMatchObject({ type: 'nis', blocked: true, reason: 'invalid-birthday' });
+  expect(block?.failures).toBe(blockRules.nis.maxFailures);
+  expect(block?.expiresAt).toBeInstanceOf(Date);
+  // The same NIS on another city is not blocked
+  expect(await getBlock('nis', getNisId(2, '12345678901'))).toBeNull();
+});
+
+test(`[${testName}] Reset the failures after a success`, async () => {
+  const nisId = getNisId(1, '12345678901');
+  for (let index = 1; index < blockRules.nis.maxFailures; index++) {
+    await registerFailure('nis', nisId, 'invalid-birthday');
+  }
+  await clearFailures('nis', nisId);
+  expect(await registerFailure('nis', nisId, 'invalid-birthday')).toBe(false);
+});
+
+test(`[${testName}] List and unblock the IPs and NIS of the city`, async () => {
+  for (let index = 0; index < blockRules.ip.maxFailures; index++) {
+    await registerFailure('ip', '10.0.0.1', 'invalid-login');
+  }
+  await registerFailure('nis', getNisId(1, '111'), 'invalid-birthday');
+  await registerFailure('nis', getNisId(2, '222'), 'invalid-birthday');
+
+  const list = await getAll(1);
+  expect(list).toHaveLength(2);
+  expect(list[0]).toMatchObject({ type: 'ip', value: '10.0.0.1', blocked: true, reason: 'invalid-login' });
+  expect(list[1]).toMatchObject({ type: 'nis', value: '111', blocked: false, failures: 1 });
+
+  expect(await unblock('ip', '10.0.0.1')).toBe(true);
+  expect(await unblock('ip', '10.0.0.1')).toBe(false);
+  expect(await getBlock('ip', '10.0.0.1')).toBeNull();
+  expect(await getAll(1)).toHaveLength(1);
+});
+
+test(`[${testName}] Parse the trust proxy setting`, () => {
+  expect(parseTrustProxy(undefined)).toBeUndefined();
+  expect(parseTrustProxy(' ')).toBeUndefined();
+  expect(parseTrustProxy('true')).toBe(true);
+  expect(parseTrustProxy('false')).toBe(false);
+  expect(parseTrustProxy('1')).toBe(1);
+  expect(parseTrustProxy(' 2 ')).toBe(2);
+  expect(parseTrustProxy('loopback, 10.0.0.0/8')).toBe('loopback, 10.0.0.0/8');
+});
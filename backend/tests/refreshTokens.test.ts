@@ -0,0 +1,23 @@
+import jwt from 'jsonwebtoken';
+import { getRefreshToken } from '../src/middlewares/auth';
+import { hashToken } from '../src/utils/crypt';
+import { User } from '../src/schemas/users';
+
+const testName = 'refreshTokens';
+
+const user = { id: 1, cityId: 1, cpf: '', role: 'admin', password: '', active: true } as User;
+
+test(`[${testName}] Create a different refresh token on each call`, () => {
+  const first = getRefreshToken(user);
+  const second = getRefreshToken(user);
+  expect(first).not.toBe(second);
+  expect((jwt.decode(first) as { id: number }).id).toBe(1);
+  expect((jwt.decode(second) as { id: number }).id).toBe(1);
+});
+
+test(`[${testName}] Store the refresh token as a fixed size hash`, () => {
+  const token = getRefreshToken(user);
+  expect(hashToken(token)).toHaveLength(64);
+  expect(hashToken(token)).toBe(hashToken(token));
+  expect(hashToken(token)).not.toBe(hashToken(getRefreshToken(user)));
+});
@@ -0,0 +1,18 @@
+import { sendSms, setSmsTransport, SmsTransport, fileSmsTransport } from '../src/utils/sms';
+
+const testName = 'sms';
+
+afterAll(() => {
+  setSmsTransport(fileSmsTransport);
+});
+
+test(`[${testName}] Deliver the text message with the configured transport`, async () => {
+  const transport = jest.fn() as jest.MockedFunction<SmsTransport>;
+  transport.mockResolvedValue();
+  setSmsTransport(transport);
+
+  await sendSms({ to: '(32) 99876-5432', text: 'Código 123456' });
+
+  expect(transport).toHaveBeenCalledTimes(1);
+  expect(transport.mock.calls[0][0]).toEqual({ to: '(32) 99876-5432', text: 'Código 123456' });
+});
@@ -0,0 +1,41 @@
+import { sequelize } from '../src/schemas';
+import { getStockShortages } from '../src/models/stockMovements';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'stockMovements';
+
+const stock = [
+  { productId: 1, amount: 10 },
+  { productId: 2, amount: 0 },
+  { productId: 3, amount: 4 }
+];
+
+test(`[${testName}] No shortage when the store has enough units`, () => {
+  expect(getStockShortages(stock, [{ productId: 1, amount: 10 }])).toEqual([]);
+  expect(getStockShortages(stock, [])).toEqual([]);
+});
+
+test(`[${testName}] List the products without enough units`, () => {
+  expect(
+    getStockShortages(stock, [
+      { productId: 1, amount: 2 },
+      { productId: 2, amount: 1 },
+      { productId: 4, amount: 3 }
+    ])
+  ).toEqual([
+    { productId: 2, requested: 1, available: 0 },
+    { productId: 4, requested: 3, available: 0 }
+  ]);
+});
+
+test(`[${testName}] Sum the repeated products before comparing`, () => {
+  expect(
+    getStockShortages(stock, [
+      { productId: 3, amount: 3 },
+      { productId: '3', amount: 2 }
+    ])
+  ).toEqual([{ productId: 3, requested: 5, available: 4 }]);
+});
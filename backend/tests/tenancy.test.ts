@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import { requireCity, requireCityFile } from '../src/middlewares/tenancy';
+import { cityScope, editableScope, parseCityId } from '../src/utils/tenancy';
+import { User } from '../src/schemas/users';
+import { sequelize } from '../src/schemas';
+
+afterAll(() => {
+  sequelize.close();
+});
+
+const testName = 'tenancy';
+
+/**
+ * Run a tenancy middleware with a fake request and return the response status
+ * @param middleware middleware to run
+ * @param user logged user
+ * @param headers request headers
+ * @param path request path
+ * @returns status sent by the middleware and the request, the status is 'next' when the request was allowed
+ */
+const runMiddleware = async (
+  middleware: typeof requireCity | typeof requireCityFile,
+  user?: Partial<User>,
+  headers: { [key: string]: string } = {},
+  path = '/'
+) => {
+  let result: number | 'next' | undefined;
+  const req = { headers, path, user } as Request;
+  const res = {
+    status: (status: number) => {
+      result = status;
+      return res;
+    },
+    send: () => res
+  } as Response;
+  await middleware(req, res, () => {
+    result = 'next';
+  });
+  return { result, req };
+};
+
+test(`[${testName}] Accept only positive integers as city ID`, () => {
+  expect(parseCityId(3)).toBe(3);
+  expect(parseCityId('12')).toBe(12);
+  expect(() => parseCityId(undefined)).toThrow();
+  expect(() => parseCityId(null)).toThrow();
+  expect(() => parseCityId(0)).toThrow();
+  expect(() => parseCityId(-1)).toThrow();
+  expect(() => parseCityId('1.5')).toThrow();
+  expect(() => parseCityId('1) OR (1=1')).toThrow();
+});
+
+test(`[${testName}] Add the city condition to the query`, () => {
+  expect(cityScope('families', 2)).toEqual({ cityId: 2 });
+  expect(cityScope('places', '2', { id: 5 })).toEqual({ [Op.and]: [{ cityId: 2 }, { id: 5 }] });
+  expect(cityScope('groups', 2)).toEqual({ [Op.or]: [{ cityId: null }, { cityId: 2 }] });
+  expect(() => cityScope('families', undefined)).toThrow();
+});
+
+test(`[${testName}] Use the parent table on tables without city`, () => {
+  const generator = sequelize.getQueryInterface().QueryGenerator as {
+    getWhereConditions: (where: object) => string;
+  };
+  expect(generator.getWhereConditions(cityScope('dependents', 4))).toBe(
+    `"familyId" IN (SELECT "id" FROM "Families" WHERE "cityId" = 4)`
+  );
+  expect(generator.getWhereConditions(cityScope('benefits', 4, { id: 1 }))).toBe(
+    `("institutionId" IN (SELECT "id" FROM "Institutions" WHERE "cityId" = 4) AND "id" = 1)`
+  );
+});
+
+test(`[${testName}] Allow only the super admin to change shared items`, () => {
+  expect(editableScope('products', { role: 'superadmin', cityId: 2 })).toEqual({
+    [Op.or]: [{ cityId: null }, { cityId: 2 }]
+  });
+  expect(editableScope('products', { role: 'admin', cityId: 2 })).toEqual({ cityId: 2 });
+  expect(editableScope('groups', { role: 'admin', cityId: 2 }, { id: 1 })).toEqual({
+    [Op.and]: [{ cityId: 2 }, { id: 1 }]
+  });
+});
+
+test(`[${testName}] Reject users without city`, async () => {
+  const { result } = await runMiddleware(requireCity, { role: 'admin' });
+  expect(result).toBe(412);
+});
+
+test(`[${testName}] Keep the user city when no other city is selected`, async () => {
+  const { result, req } = await runMiddleware(requireCity, { role: 'operator', cityId: 2 });
+  expect(result).toBe('next');
+  expect(req.user?.cityId).toBe(2);
+  const sameCity = await runMiddleware(requireCity, { role: 'operator', cityId: 2 }, { 'city-id': '2' });
+  expect(sameCity.result).toBe('next');
+});
+
+test(`[${testName}] Only the super admin can select another city`, async () => {
+  for (const role of ['admin', 'operator', 'manager', 'financial', 'cashier']) {
+    const { result, req } = await runMiddleware(requireCity, { role, cityId: 2 }, { 'city-id': '3' });
+    expect(result).toBe(403);
+    expect(req.user?.cityId).toBe(2);
+  }
+  const { result } = await runMiddleware(requireCity, { role: 'superadmin', cityId: 2 }, { 'city-id': 'abc' });
+  expect(result).toBe(412);
+});
+
+test(`[${testName}] Serve only the reports of the city`, async () => {
+  const user = { role: 'admin', cityId: 2 };
+  expect((await runMiddleware(requireCityFile, user, {}, '/report_2.csv')).result).toBe('next');
+  expect((await runMiddleware(requireCityFile, user, {}, '/report_21.csv')).result).toBe(403);
+  expect((await runMiddleware(requireCityFile, user, {}, '/report_3.csv')).result).toBe(403);
+  expect((await runMiddleware(requireCityFile, user, {}, '/imports/families_2.csv')).result).toBe(403);
+  expect((await runMiddleware(requireCityFile, user, {}, '/../.env')).result).toBe(403);
+});
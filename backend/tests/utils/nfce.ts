@@ -0,0 +1,17 @@
+import { getCheckDigit } from '../../src/utils/nfceAccessKey';
+
+/**
+ * Generate a NFC-e link with a valid and unique access key
+ * @param cnpj issuer CNPJ, usually the place store one
+ * @returns NFC-e link
+ */
+export const generateNFCeLink = (cnpj: string) => {
+  const number = Math.floor(Math.random() * 1000000000)
+    .toString()
+    .padStart(9, '0');
+  const code = Date.now().toString().slice(-8);
+  const digits = `312004${cnpj.replace(/\D/g, '').padStart(14, '0').slice(-14)}65001${number}1${code}`;
+  return `https://nfce.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=${digits}${getCheckDigit(
+    digits
+  )}|2|1|1|hash`;
+};
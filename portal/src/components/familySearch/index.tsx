@@ -13,12 +13,12 @@ import {
 } from './styles';
 import { Flex } from '../flex';
 import { AppState } from '../../redux/rootReducer';
-import { requestGetFamily, requestResetFamily } from '../../redux/family/actions';
+import { requestLoginFamily, requestResetFamily } from '../../redux/family/actions';
 import { Family } from '../../interfaces/family';
-import moment from 'moment';
-import { env } from '../../env';
+import { FamilyChallenge } from '../../interfaces/familySession';
 import yup from '../../utils/yup';
 import { formatDate } from '../../utils/formatters';
+import { StepCode } from '../familyValidation/steps';
 
 const { Text } = Typography;
 
@@ -42,16 +42,15 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
 
   // Local state
   const [nis, setNis] = useState('');
+  // NIS waiting for the birthday verification
+  const [searchedNis, setSearchedNis] = useState('');
   const [invalidNIS, setInvalidNIS] = useState(false);
-  const [validBirthday, setValidBirthday] = useState(false);
   const [familyConfirmed, setFamilyConfirmed] = useState(false);
   // Redux state
   const familyLoading = useSelector<AppState, boolean>((state) => state.familyReducer.loading);
   const familyError = useSelector<AppState, Error | undefined>((state) => state.familyReducer.error);
   const family = useSelector<AppState, Family | null | undefined>((state) => state.familyReducer.item);
-
-  // .env
-  const cityId = env.REACT_APP_ENV_CITY_ID as string;
+  const challenge = useSelector<AppState, FamilyChallenge | undefined>((state) => state.familyReducer.challenge);
 
   /**
    * Callback used when the user confirm the selected family
@@ -66,7 +65,22 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
   const onCancel = () => {
     dispatch(requestResetFamily());
     setNis('');
-    setValidBirthday(false);
+    setSearchedNis('');
+  };
+
+  /**
+   * Start a new search, the family is only returned after the birthday is verified
+   * @param value searched NIS
+   */
+  const onSearch = (value: string) => {
+    if (!value) {
+      setInvalidNIS(true);
+    } else {
+      dispatch(requestResetFamily());
+      setSearchedNis(value);
+      setFamilyConfirmed(false);
+      setInvalidNIS(false);
+    }
   };
 
   return (
@@ -84,31 +98,13 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
             value={nis}
             maxLength={11}
             placeholder="Código NIS do responsável"
-            onPressEnter={() => {
-              if (!nis) {
-                setInvalidNIS(true);
-              } else {
-                dispatch(requestGetFamily(nis, cityId));
-                setValidBirthday(false);
-                setFamilyConfirmed(false);
-                setInvalidNIS(false);
-              }
-            }}
-            onSearch={(value) => {
-              if (!value) {
-                setInvalidNIS(true);
-              } else {
-                dispatch(requestGetFamily(value, cityId));
-                setValidBirthday(false);
-                setFamilyConfirmed(false);
-                setInvalidNIS(false);
-              }
-            }}
+            onPressEnter={() => onSearch(nis)}
+            onSearch={onSearch}
           />
         </Form.Item>
       </Form>
 
-      {familyError && !familyLoading && (
+      {familyError && !familyLoading && !searchedNis && (
         <FamilyWrapper>
           <Card>
             <Text>{familyError.message}</Text>
@@ -119,19 +115,21 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
         </FamilyWrapper>
       )}
 
+      {searchedNis && !family && (
+        <FamilyWrapper>
+          <Card>
+            {challenge ? <StepCode challenge={challenge} onBack={onCancel} /> : <ConfirmBirthday nis={searchedNis} />}
+          </Card>
+        </FamilyWrapper>
+      )}
+
       {!familyLoading && family && (
         <FamilyWrapper>
           <Card>
-            {!validBirthday ? (
-              <ConfirmBirthday family={family} onValidBirthday={() => setValidBirthday(true)} />
+            {props.askForConfirmation && !familyConfirmed ? (
+              <ConfirmFamily family={family} onConfirm={onConfirm} onCancel={onCancel} />
             ) : (
-              <>
-                {props.askForConfirmation && !familyConfirmed ? (
-                  <ConfirmFamily family={family} onConfirm={onConfirm} onCancel={onCancel} />
-                ) : (
-                  <FamilyBalance family={family} />
-                )}
-              </>
+              <FamilyBalance family={family} />
             )}
           </Card>
         </FamilyWrapper>
@@ -141,20 +139,21 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
 };
 
 /**
- * Form for birthday confirmation
+ * Form for birthday confirmation, verified by the server
  */
-const ConfirmBirthday: React.FC<{ family: Family; onValidBirthday: () => void }> = ({ family, onValidBirthday }) => {
-  const { handleSubmit, values, status, getFieldMeta, setFieldValue } = useFormik({
+const ConfirmBirthday: React.FC<{ nis: string }> = ({ nis }) => {
+  const dispatch = useDispatch();
+  const familyLoading = useSelector<AppState, boolean>((state) => state.familyReducer.loading);
+  const familyError = useSelector<AppState, Error | undefined>((state) => state.familyReducer.error);
+
+  const { handleSubmit, values, getFieldMeta, setFieldValue } = useFormik({
     initialValues: {
       birthday: ''
     },
     validationSchema: schemaBirthday,
     enableReinitialize: true,
-    onSubmit: (values, { setStatus }) => {
-      const sameBirthday =
-        Math.abs(moment(family?.responsibleBirthday).diff(moment(values.birthday, 'DD/MM/YYYY'), 'days')) < 2;
-      if (sameBirthday && onValidBirthday) onValidBirthday();
-      else setStatus('Data de aniversário inválida.');
+    onSubmit: (values) => {
+      dispatch(requestLoginFamily(nis, values.birthday));
     }
   });
 
@@ -162,7 +161,7 @@ const ConfirmBirthday: React.FC<{ family: Family; onValidBirthday: () => void }>
 
   return (
     <Form layout="vertical" onSubmitCapture={handleSubmit}>
-      {status && <Alert message="" description={status} type="error" />}
+      {familyError && <Alert message="" description={familyError.message} type="error" />}
       <Form.Item
         label="Aniversário do responsável"
         validateStatus={!!birthdayMeta.error && !!birthdayMeta.touched ? 'error' : ''}
@@ -182,7 +181,7 @@ const ConfirmBirthday: React.FC<{ family: Family; onValidBirthday: () => void }>
       <Form.Item style={{ marginBottom: 0 }}>
         <Row typeof="flex">
           <Col offset={12} span={12}>
-            <Button block htmlType="submit" type={'primary'}>
+            <Button block htmlType="submit" type={'primary'} loading={familyLoading}>
               Validar
             </Button>
           </Col>
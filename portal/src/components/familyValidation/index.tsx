@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
-import { useSelector } from 'react-redux';
+import { useDispatch, useSelector } from 'react-redux';
 import { AppState } from '../../redux/rootReducer';
 import { Family } from '../../interfaces/family';
-import { StepNIS, StepBirthDay, StepConfirmFamily } from './steps';
+import { FamilyChallenge } from '../../interfaces/familySession';
+import { requestResetFamily } from '../../redux/family/actions';
+import { StepNIS, StepBirthDay, StepCode, StepConfirmFamily } from './steps';
 
 type ComponentProps = {
   onFamilySelect?: (id: Family['id']) => void;
@@ -14,15 +16,21 @@ type ComponentProps = {
  * @param props component props
  */
 export const FamilySearch: React.FC<ComponentProps> = (props) => {
+  const dispatch = useDispatch();
+
   // Local state
   const [currentStep, changeStep] = useState<number>(0);
+  const [nis, setNis] = useState<string>('');
 
   // Redux state
   const family = useSelector<AppState, Family | null | undefined>((state) => state.familyReducer.item);
+  const challenge = useSelector<AppState, FamilyChallenge | undefined>((state) => state.familyReducer.challenge);
 
   React.useEffect(() => {
-    changeStep(family ? 1 : 0);
-  }, [family]);
+    // The family is only returned after the server verifies the birthday and the code
+    if (family) changeStep(3);
+    else if (challenge) changeStep(2);
+  }, [family, challenge]);
 
   /**
    * Use callback on the change of the familyId
@@ -34,24 +42,40 @@ export const FamilySearch: React.FC<ComponentProps> = (props) => {
     }
   };
 
+  /**
+   * Discard the session and go back to the NIS
+   */
+  const restart = () => {
+    dispatch(requestResetFamily());
+    changeStep(0);
+  };
+
   return (
     <>
-      {currentStep === 0 && <StepNIS />}
-      {currentStep === 1 && <StepBirthDay family={family} onValidBirthday={() => changeStep(2)} />}
-      {currentStep === 2 && (
+      {currentStep === 0 && (
+        <StepNIS
+          onNIS={(value) => {
+            setNis(value);
+            changeStep(1);
+          }}
+        />
+      )}
+      {currentStep === 1 && <StepBirthDay nis={nis} onBack={restart} />}
+      {currentStep === 2 && <StepCode challenge={challenge} onBack={restart} />}
+      {currentStep === 3 && (
         <StepConfirmFamily
           family={family}
           onConfirm={() => {
-            changeStep(3);
+            changeStep(4);
             changeFamilyId(family?.id);
           }}
           onCancel={() => {
-            changeStep(0);
+            restart();
             changeFamilyId(undefined);
           }}
         />
       )}
-      {/* {currentStep === 3 && <StepSelectedFamily family={family} />} */}
+      {/* {currentStep === 4 && <StepSelectedFamily family={family} />} */}
     </>
   );
 };
@@ -1,11 +1,11 @@
 import React from 'react';
 import { Form, Input, Button, Alert, Typography, Descriptions, Row, Col } from 'antd';
-import { requestGetFamily } from '../../redux/family/actions';
-import { env } from '../../env';
+import { requestLoginFamily, requestVerifyFamilyCode } from '../../redux/family/actions';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppState } from '../../redux/rootReducer';
 import moment from 'moment';
 import { Family } from '../../interfaces/family';
+import { FamilyChallenge } from '../../interfaces/familySession';
 import { FamilyWrapper, FamilyActions } from './styles';
 import { Flex } from '../flex';
 import yup from '../../utils/yup';
@@ -20,17 +20,15 @@ const schemaBirthday = yup.object().shape({
   birthday: yup.string().label('Data').required()
 });
 
+const schemaCode = yup.object().shape({
+  code: yup.string().label('Código').required()
+});
+
 /**
  * StepNIS component
  * @param props component props
  */
-export const StepNIS: React.FC<{}> = () => {
-  const cityId = env.REACT_APP_ENV_CITY_ID as string;
-  const dispatch = useDispatch();
-
-  const familyLoading = useSelector<AppState, boolean>((state) => state.familyReducer.loading);
-  const familyError = useSelector<AppState, Error | undefined>((state) => state.familyReducer.error);
-
+export const StepNIS: React.FC<{ onNIS: (nis: string) => void }> = ({ onNIS }) => {
   const { handleSubmit, values, getFieldMeta, setFieldValue } = useFormik({
     initialValues: {
       nis: ''
@@ -39,7 +37,7 @@ export const StepNIS: React.FC<{}> = () => {
     enableReinitialize: true,
     onSubmit: (values, { setStatus }) => {
       setStatus();
-      dispatch(requestGetFamily(values.nis, cityId));
+      onNIS(values.nis);
     }
   });
 
@@ -47,7 +45,6 @@ export const StepNIS: React.FC<{}> = () => {
 
   return (
     <Form layout="vertical" onSubmitCapture={handleSubmit}>
-      {familyError && <Alert message="" description={familyError.message} type="error" />}
       <Form.Item
         label="Código NIS do responsável"
         validateStatus={!!nisMeta.error && !!nisMeta.touched ? 'error' : ''}
@@ -55,7 +52,6 @@ export const StepNIS: React.FC<{}> = () => {
       >
         <Input.Search
           name="nis"
-          loading={familyLoading}
           type={'number'}
           onChange={(event) => setFieldValue('nis', event.target.value)}
           value={values.nis}
@@ -76,24 +72,23 @@ export const StepNIS: React.FC<{}> = () => {
 };
 
 /**
- * StepBirthDay component
+ * StepBirthDay component, the birthday is verified by the server before any family data is shown
  * @param props component props
  */
-export const StepBirthDay: React.FC<{ family?: Family | null; onValidBirthday?: () => void }> = ({
-  family,
-  onValidBirthday
-}) => {
-  const { handleSubmit, values, status, getFieldMeta, setFieldValue } = useFormik({
+export const StepBirthDay: React.FC<{ nis: string; onBack?: () => void }> = ({ nis, onBack }) => {
+  const dispatch = useDispatch();
+
+  const familyLoading = useSelector<AppState, boolean>((state) => state.familyReducer.loading);
+  const familyError = useSelector<AppState, Error | undefined>((state) => state.familyReducer.error);
+
+  const { handleSubmit, values, getFieldMeta, setFieldValue } = useFormik({
     initialValues: {
       birthday: ''
     },
     validationSchema: schemaBirthday,
     enableReinitialize: true,
-    onSubmit: (values, { setStatus }) => {
-      const sameBirthday =
-        Math.abs(moment(family?.responsibleBirthday).diff(moment(values.birthday, 'DD/MM/YYYY'), 'days')) < 2;
-      if (sameBirthday && onValidBirthday) onValidBirthday();
-      else setStatus('Data de aniversário inválida.');
+    onSubmit: (values) => {
+      dispatch(requestLoginFamily(nis, values.birthday));
     }
   });
 
@@ -101,7 +96,7 @@ export const StepBirthDay: React.FC<{ family?: Family | null; onValidBirthday?:
 
   return (
     <Form layout="vertical" onSubmitCapture={handleSubmit}>
-      {status && <Alert message="" description={status} type="error" />}
+      {familyError && <Alert message="" description={familyError.message} type="error" />}
       <Form.Item
         label="Aniversário do responsável"
         validateStatus={!!birthdayMeta.error && !!birthdayMeta.touched ? 'error' : ''}
@@ -119,9 +114,14 @@ export const StepBirthDay: React.FC<{ family?: Family | null; onValidBirthday?:
         />
       </Form.Item>
       <Form.Item style={{ marginBottom: 0 }}>
-        <Row typeof="flex">
-          <Col offset={12} span={12}>
-            <Button block htmlType="submit" type={'primary'}>
+        <Row typeof="flex" gutter={[16, 16]}>
+          <Col span={12}>
+            <Button block htmlType="button" onClick={onBack}>
+              Voltar
+            </Button>
+          </Col>
+          <Col span={12}>
+            <Button block htmlType="submit" type={'primary'} loading={familyLoading}>
               Validar
             </Button>
           </Col>
@@ -131,6 +131,68 @@ export const StepBirthDay: React.FC<{ family?: Family | null; onValidBirthday?:
   );
 };
 
+/**
+ * StepCode component, used when a code is sent to the family phone
+ * @param props component props
+ */
+export const StepCode: React.FC<{ challenge?: FamilyChallenge; onBack?: () => void }> = ({ challenge, onBack }) => {
+  const dispatch = useDispatch();
+
+  const familyLoading = useSelector<AppState, boolean>((state) => state.familyReducer.loading);
+  const familyError = useSelector<AppState, Error | undefined>((state) => state.familyReducer.error);
+
+  const { handleSubmit, values, getFieldMeta, setFieldValue } = useFormik({
+    initialValues: {
+      code: ''
+    },
+    validationSchema: schemaCode,
+    enableReinitialize: true,
+    onSubmit: (values) => {
+      dispatch(requestVerifyFamilyCode(values.code));
+    }
+  });
+
+  const codeMeta = getFieldMeta('code');
+
+  return (
+    <Form layout="vertical" onSubmitCapture={handleSubmit}>
+      {familyError && <Alert message="" description={familyError.message} type="error" />}
+      <Typography.Paragraph>
+        {`Enviamos um código por SMS para o telefone cadastrado terminado em ${challenge?.phone.slice(-4) || ''}.`}
+      </Typography.Paragraph>
+      <Form.Item
+        label="Código recebido"
+        validateStatus={!!codeMeta.error && !!codeMeta.touched ? 'error' : ''}
+        help={!!codeMeta.error && !!codeMeta.touched ? codeMeta.error : undefined}
+      >
+        <Input
+          id="code"
+          name="code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          onChange={(event) => setFieldValue('code', event.target.value.replace(/\D/g, ''))}
+          value={values.code}
+        />
+      </Form.Item>
+      <Form.Item style={{ marginBottom: 0 }}>
+        <Row typeof="flex" gutter={[16, 16]}>
+          <Col span={12}>
+            <Button block htmlType="button" onClick={onBack}>
+              Voltar
+            </Button>
+          </Col>
+          <Col span={12}>
+            <Button block htmlType="submit" type={'primary'} loading={familyLoading}>
+              Confirmar
+            </Button>
+          </Col>
+        </Row>
+      </Form.Item>
+    </Form>
+  );
+};
+
 /**
  * StepConfirmFamily component
  * @param props component props
@@ -9,8 +9,9 @@ export const env = {
   REACT_APP_ENV_INFO_PHONE: window._env_.REACT_APP_ENV_INFO_PHONE || process.env.REACT_APP_ENV_INFO_PHONE,
   REACT_APP_ENV_FORM_URL: window._env_.REACT_APP_ENV_FORM_URL || process.env.REACT_APP_ENV_FORM_URL,
   REACT_APP_ENV_GA_TRACKING_ID: window._env_.REACT_APP_ENV_GA_TRACKING_ID || process.env.REACT_APP_ENV_GA_TRACKING_ID,
-  REACT_APP_ENV_AUTH_SECRET: window._env_.REACT_APP_ENV_AUTH_SECRET || process.env.REACT_APP_ENV_AUTH_SECRET,
-  REACT_APP_ENV_AUTH_TOKEN: window._env_.REACT_APP_ENV_AUTH_TOKEN || process.env.REACT_APP_ENV_AUTH_TOKEN,
+  REACT_APP_ENV_API_CLIENT_ID: window._env_.REACT_APP_ENV_API_CLIENT_ID || process.env.REACT_APP_ENV_API_CLIENT_ID,
+  REACT_APP_ENV_API_CLIENT_SECRET:
+    window._env_.REACT_APP_ENV_API_CLIENT_SECRET || process.env.REACT_APP_ENV_API_CLIENT_SECRET,
   REACT_APP_URL: window._env_.REACT_APP_URL || process.env.REACT_APP_URL,
   REACT_APP_COMMIT_SHA: window._env_.REACT_APP_COMMIT_SHA || process.env.REACT_APP_COMMIT_SHA,
   REACT_APP_ENV_ROLLBAR_ENVIRONMENT:
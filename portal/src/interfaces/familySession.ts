@@ -0,0 +1,13 @@
+// Short-lived session created after the NIS and birthday (and the SMS code, when enabled) are verified
+export interface FamilySession {
+  token: string;
+  expiresAt: string;
+}
+
+// One-time code sent to the family phone
+export interface FamilyChallenge {
+  challenge: string;
+  // Masked phone, only the last digits are visible
+  phone: string;
+  expiresAt: string;
+}
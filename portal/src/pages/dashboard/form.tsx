@@ -1,7 +1,7 @@
 import { QrcodeOutlined, WarningFilled, CheckOutlined } from '@ant-design/icons';
 import { Button, Modal, Row, Col, Typography, Form, InputNumber, Divider, Alert, Input } from 'antd';
 import { useFormik } from 'formik';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import QrReader from 'react-qr-reader';
 import { useSelector, useDispatch } from 'react-redux';
 import { FamilySearch } from '../../components/familyValidation';
@@ -12,22 +12,32 @@ import { requestSaveConsumption } from '../../redux/consumption/actions';
 import { requestResetFamily } from '../../redux/family/actions';
 import { IconCheckStyle, ImageContainer } from './styles';
 import { logging } from '../../utils/logging';
+import { backend } from '../../utils/networking';
+
+/**
+ * Get the host of the QRCode url
+ * @param value url
+ */
+const getHost = (value: string) => {
+  try {
+    return new URL(value).host.toLowerCase();
+  } catch (error) {
+    return '';
+  }
+};
 
 /**
  * Clear NFCe QRCode result
  * @param value url
+ * @param nfceHosts hosts of the states supported by the backend
  */
-const handleQRCode = (value: string | null) => {
+const handleQRCode = (value: string | null, nfceHosts: string[]) => {
   if (!value) return null;
-  if (value.indexOf('nfce.fazenda.mg.gov.br') < 0) {
+  if (nfceHosts.indexOf(getHost(value)) < 0) {
     // Invalid QRCode
     return 'invalid';
   }
   return value;
-  // // https://nfce.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=31200417745613005462650030000484351494810435|2|1|1|d3bfca6136abee66286116203f747bc8e6fd3300
-  // const nfce = value.split('nfce.fazenda.mg.gov.br/portalnfce/sistema/qrcode.xhtml?p=')[1];
-  // if (!nfce) return null; // Not a valid nfce QRCode
-  // return nfce.split('|')[0];
 };
 
 /**
@@ -146,8 +156,7 @@ export const StepWithQRCode: React.FC<{ onBack: () => void; onFinish: () => void
       if (!loading && family) {
         const data = {
           nfce: values.nfce,
-          value: Number(values.value),
-          familyId: Number(family?.id)
+          value: Number(values.value)
         };
         dispatch(
           requestSaveConsumption(
@@ -158,6 +167,10 @@ export const StepWithQRCode: React.FC<{ onBack: () => void; onFinish: () => void
             (error) => {
               if (error && error.message.indexOf('409') > -1) {
                 setStatus('Essa nota fiscal já está vinculada no nosso sistema');
+              } else if (error && error.message.indexOf('429') > -1) {
+                setStatus('Muitas compras informadas em pouco tempo. Aguarde e tente novamente mais tarde');
+              } else if (error && error.message.indexOf('401') > -1) {
+                setStatus('Sua sessão expirou. Feche e informe o NIS novamente para continuar');
               } else {
                 setStatus('Ocorreu um erro durante o processamento. Por favor tente novamente em algumas horas');
               }
@@ -251,6 +264,15 @@ export const ModalQrCode: React.FC<{
   onInvalid: (message?: string) => void;
 }> = ({ onClose, onQrRead, onInvalid }) => {
   const [permission, setPermission] = useState<string>('');
+  const [nfceHosts, setNfceHosts] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Get the hosts of the states with a registered scraper
+    backend
+      .get<string[]>(`/public/nfce-hosts`)
+      .then((response) => setNfceHosts(response.data))
+      .catch((error) => logging.error(error));
+  }, []);
 
   // Check for ios so the user is advised to use another device
   const usingIOS = /(iPad|iPhone|iPod)/g.test(navigator?.userAgent || '');
@@ -284,7 +306,7 @@ export const ModalQrCode: React.FC<{
             }
           }}
           onScan={(item) => {
-            const nfce = handleQRCode(item);
+            const nfce = handleQRCode(item, nfceHosts);
             onInvalid();
             if (nfce) {
               if (nfce !== 'invalid') {
@@ -11,26 +11,28 @@ export const doSaveConsumptionSuccess = createAction<Consumption>('consumption/S
 export const doSaveConsumptionFailed = createAction<Error | undefined>('consumption/SAVE_FAILED');
 
 /**
- * Save consumption Thunk action
+ * Save consumption Thunk action, the family is the one of the current session
  */
 export const requestSaveConsumption = (
-  item: Pick<Consumption, 'familyId' | 'nfce' | 'proofImageUrl' | 'value'>,
+  item: Pick<Consumption, 'nfce' | 'proofImageUrl' | 'value'>,
   onSuccess?: () => void,
   onFailure?: (error?: Error & { status?: number }) => void
 ): ThunkResult<void> => {
-  return async (dispatch) => {
+  return async (dispatch, getState) => {
     try {
       // Start request - starting loading state
       dispatch(doSaveConsumption());
 
       const data = new FormData();
-      data.append('familyId', item.familyId.toString());
       data.append('nfce', item.nfce);
       data.append('value', item.value.toString());
 
       // Request
       const response = await backend.post<Consumption>(`/public/consumptions`, data, {
-        headers: { 'Content-Type': 'multipart/form-data' }
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'Beneficiary-Token': getState().familyReducer.session?.token
+        }
       });
 
       if (response && response.data) {
@@ -2,6 +2,7 @@ import { createAction } from '@reduxjs/toolkit';
 import { ThunkResult } from '../store';
 import { backend } from '../../utils/networking';
 import { Family } from '../../interfaces/family';
+import { FamilyChallenge, FamilySession } from '../../interfaces/familySession';
 import { logging } from '../../utils/logging';
 import analytics from '../../utils/analytics';
 
@@ -11,16 +12,59 @@ export const doGetFamily = createAction<void>('family/GET');
 export const doGetFamilySuccess = createAction<Family | Family[]>('family/GET_SUCCESS');
 export const doGetFamilyFailed = createAction<Error | undefined>('family/GET_FAILED');
 
+export const doLoginFamily = createAction<void>('family/LOGIN');
+export const doLoginFamilyChallenge = createAction<FamilyChallenge>('family/LOGIN_CHALLENGE');
+export const doLoginFamilySuccess = createAction<FamilySession>('family/LOGIN_SUCCESS');
+export const doLoginFamilyFailed = createAction<Error | undefined>('family/LOGIN_FAILED');
+
 /**
- * Get family Thunk action
+ * Replace the request error with a message to the user
+ * @param error request error
  */
-export const requestGetFamily = (nis: string, cityId: string): ThunkResult<void> => {
-  return async (dispatch) => {
+const handleFamilyError = (error: Error & { response?: { status: number; data?: string } }) => {
+  if (error.response) {
+    switch (Number(error.response.status)) {
+      case 401:
+        // Wrong NIS, birthday or code, the message comes from the server
+        error.message = error.response.data || 'Os dados informados são inválidos.';
+        break;
+      case 429:
+        // Too many attempts, the NIS or the device is blocked for a while
+        error.message = error.response.data || 'Muitas tentativas. Aguarde alguns minutos e tente novamente.';
+        break;
+      case 404:
+        error.message =
+          'Não encontramos nenhuma família utilizando esse NIS.' +
+          'Tenha certeza que é o NIS do responsável familiar para conseguir consultar a situação.';
+        break;
+      default:
+        logging.error(error);
+        error.message = 'Ocorreu uma falha inesperada e já fomos avisados. Tente novamente em algumas horas.';
+        break;
+    }
+  } else if (error.message === 'Network Error' && !window.navigator.onLine) {
+    error.message =
+      'Ocorreu um erro ao conectar ao servidor. ' +
+      'Verifique se a conexão com a internet está funcionando corretamente.';
+  } else {
+    logging.error(error);
+    error.message = 'Ocorreu uma falha inesperada e já fomos avisados. Tente novamente em algumas horas.';
+  }
+  return error;
+};
+
+/**
+ * Get the family of the current session Thunk action
+ */
+export const requestGetFamily = (): ThunkResult<void> => {
+  return async (dispatch, getState) => {
     try {
       // Start request - starting loading state
       dispatch(doGetFamily());
       // Request
-      const response = await backend.get<Family>(`/public/families`, { params: { nis, cityId } });
+      const response = await backend.get<Family>(`/public/families/me`, {
+        headers: { 'Beneficiary-Token': getState().familyReducer.session?.token }
+      });
       if (response && response.data) {
         // Request finished
         dispatch(doGetFamilySuccess(response.data)); // Dispatch result
@@ -30,36 +74,86 @@ export const requestGetFamily = (nis: string, cityId: string): ThunkResult<void>
       } else {
         // Request finished, but no item was found
         dispatch(doGetFamilyFailed());
+      }
+    } catch (error) {
+      // Request failed: dispatch error
+      dispatch(doGetFamilyFailed(handleFamilyError(error)));
+    }
+  };
+};
 
-        // Log the query to GA
-        analytics.event('Consulta - não participante', 'Consulta', 'Não participante');
+/**
+ * Handle the login response, requesting the family when the session is created
+ * @param data session or the challenge of the code sent by SMS
+ */
+const handleLoginResponse = (data: FamilySession | FamilyChallenge): ThunkResult<void> => {
+  return async (dispatch) => {
+    if ('token' in data) {
+      dispatch(doLoginFamilySuccess(data));
+      dispatch(requestGetFamily());
+    } else {
+      dispatch(doLoginFamilyChallenge(data));
+    }
+  };
+};
+
+/**
+ * Identify the family by the NIS and the responsible birthday Thunk action
+ * @param nis NIS of the family responsible
+ * @param birthday birthday of the family responsible, `DD/MM/YYYY`
+ */
+export const requestLoginFamily = (nis: string, birthday: string): ThunkResult<void> => {
+  return async (dispatch) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doLoginFamily());
+      // Request
+      const response = await backend.post<FamilySession | FamilyChallenge>(`/public/families/login`, {
+        nis,
+        birthday
+      });
+      if (response && response.data) {
+        // Request finished
+        dispatch(handleLoginResponse(response.data));
+      } else {
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doLoginFamilyFailed());
       }
     } catch (error) {
       // Request failed: dispatch error
-      if (error.response) {
-        switch (Number(error.response.status)) {
-          case 404:
-            error.message =
-              'Não encontramos nenhuma família utilizando esse NIS.' +
-              'Tenha certeza que é o NIS do responsável familiar para conseguir consultar a situação.';
+      if (error.response && Number(error.response.status) === 401) {
+        // Log the query to GA
+        analytics.event('Consulta - não participante', 'Consulta', 'Não participante');
+      }
+      dispatch(doLoginFamilyFailed(handleFamilyError(error)));
+    }
+  };
+};
 
-            // Log the query to GA
-            analytics.event('Consulta - não participante', 'Consulta', 'Não participante');
-            break;
-          default:
-            logging.error(error);
-            error.message = 'Ocorreu uma falha inesperada e já fomos avisados. Tente novamente em algumas horas.';
-            break;
-        }
-      } else if (error.message === 'Network Error' && !window.navigator.onLine) {
-        error.message =
-          'Ocorreu um erro ao conectar ao servidor. ' +
-          'Verifique se a conexão com a internet está funcionando corretamente.';
+/**
+ * Verify the code sent to the family phone Thunk action
+ * @param code code received by SMS
+ */
+export const requestVerifyFamilyCode = (code: string): ThunkResult<void> => {
+  return async (dispatch, getState) => {
+    try {
+      // Start request - starting loading state
+      dispatch(doLoginFamily());
+      // Request
+      const response = await backend.post<FamilySession>(`/public/families/verify`, {
+        challenge: getState().familyReducer.challenge?.challenge,
+        code
+      });
+      if (response && response.data) {
+        // Request finished
+        dispatch(handleLoginResponse(response.data));
       } else {
-        logging.error(error);
-        error.message = 'Ocorreu uma falha inesperada e já fomos avisados. Tente novamente em algumas horas.';
+        // Request without response - probably won't happen, but cancel the request
+        dispatch(doLoginFamilyFailed());
       }
-      dispatch(doGetFamilyFailed(error));
+    } catch (error) {
+      // Request failed: dispatch error
+      dispatch(doLoginFamilyFailed(handleFamilyError(error)));
     }
   };
 };
@@ -1,9 +1,23 @@
 import { createReducer } from '@reduxjs/toolkit';
-import { doResetFamily, doGetFamily, doGetFamilySuccess, doGetFamilyFailed } from './actions';
+import {
+  doResetFamily,
+  doGetFamily,
+  doGetFamilySuccess,
+  doGetFamilyFailed,
+  doLoginFamily,
+  doLoginFamilyChallenge,
+  doLoginFamilySuccess,
+  doLoginFamilyFailed
+} from './actions';
 import { Family } from '../../interfaces/family';
+import { FamilyChallenge, FamilySession } from '../../interfaces/familySession';
 
 export interface FamilyReducerState {
   item?: Family | null; // Family | null | undefined
+  // Session used to read the family data and to register the consumptions
+  session?: FamilySession;
+  // Waiting for the code sent by SMS
+  challenge?: FamilyChallenge;
   loading: boolean;
   error?: Error;
 }
@@ -18,6 +32,8 @@ export default createReducer<FamilyReducerState>(initialState, {
     state.loading = false;
     state.error = undefined;
     state.item = undefined;
+    state.session = undefined;
+    state.challenge = undefined;
   },
   [doGetFamily.toString()]: (state) => {
     state.loading = true;
@@ -32,5 +48,24 @@ export default createReducer<FamilyReducerState>(initialState, {
     state.loading = false;
     state.error = action.payload;
     state.item = undefined;
+  },
+  // Login actions
+  [doLoginFamily.toString()]: (state) => {
+    state.loading = true;
+    state.error = undefined;
+    state.item = undefined;
+  },
+  [doLoginFamilyChallenge.toString()]: (state, action) => {
+    state.loading = false;
+    state.challenge = action.payload;
+  },
+  [doLoginFamilySuccess.toString()]: (state, action) => {
+    state.loading = false;
+    state.challenge = undefined;
+    state.session = action.payload;
+  },
+  [doLoginFamilyFailed.toString()]: (state, action) => {
+    state.loading = false;
+    state.error = action.payload;
   }
 });
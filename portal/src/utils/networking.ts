@@ -1,7 +1,6 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 import CryptoJS from 'crypto-js';
 import { env } from '../env';
-import moment from 'moment';
 
 /**
  * Default axios instance
@@ -11,23 +10,25 @@ const backend = axios.create({
 });
 
 /**
- * Generate the public authorization object
+ * Generate the public authorization header, signing the request with the API client key
+ *
+ * The signature covers the method, the path with the query, the timestamp and a random nonce, so each
+ * request can be used only once
+ * @param config request config
  */
-const getAuthorization = () => {
-  const authorization = {
-    token: env.REACT_APP_ENV_AUTH_TOKEN || '',
-    now: moment().toISOString()
-  };
-  return CryptoJS.AES.encrypt(JSON.stringify(authorization), env.REACT_APP_ENV_AUTH_SECRET || 'some-secret').toString();
+const getAuthorization = (config: AxiosRequestConfig) => {
+  const timestamp = `${Date.now()}`;
+  const nonce = CryptoJS.lib.WordArray.random(16).toString();
+  const payload = [(config.method || 'get').toUpperCase(), backend.getUri(config), timestamp, nonce].join('\n');
+  const signature = CryptoJS.HmacSHA256(payload, env.REACT_APP_ENV_API_CLIENT_SECRET || '').toString();
+  return `HMAC-SHA256 keyId="${
+    env.REACT_APP_ENV_API_CLIENT_ID || ''
+  }", timestamp="${timestamp}", nonce="${nonce}", signature="${signature}"`;
 };
 
 backend.interceptors.request.use((config) => {
-  // Get the token
-  const token = getAuthorization();
-  // Attach the token
-  if (token) {
-    config.headers.Authorization = token;
-  }
+  // Sign the request
+  config.headers.Authorization = getAuthorization(config);
 
   return config;
 });